@@ -1,4 +1,6 @@
 import { Router, Request, Response } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { Socket } from 'socket.io';
 import { FirebaseAdminService } from '../services/firebase.service';
 
 const authRouter = Router();
@@ -45,4 +47,20 @@ export async function authenticateFirebaseToken(req: Request, res: Response, nex
   }
 }
 
+// Socket.io middleware: only clients presenting the studio token (`auth: { token }`) may connect
+export function authenticateSocket(token: string) {
+  const expected = Buffer.from(token);
+  return (socket: Socket, next: (error?: Error) => void) => {
+    const given = Buffer.from(String(socket.handshake.auth?.['token'] ?? ''));
+    if (given.length === expected.length && timingSafeEqual(given, expected)) {
+      // Services that act for the studio, like sharing its feed, check this
+      socket.data.authenticated = true;
+      next();
+    } else {
+      console.warn(`Rejected socket ${socket.id} from ${socket.handshake.address}: invalid studio token`);
+      next(new Error('Unauthorized'));
+    }
+  };
+}
+
 export default authRouter;
@@ -0,0 +1,667 @@
+import { ChildProcessWithoutNullStreams, spawn, spawnSync } from 'child_process';
+import { EventEmitter } from 'events';
+import { createServer as createHttpServer, Server as HttpServer } from 'http';
+import { AddressInfo, createServer } from 'net';
+import { Server } from 'socket.io';
+import { io as connect, Socket as ClientSocket } from 'socket.io-client';
+import { PassThrough, Writable } from 'stream';
+import {
+  DEFAULT_EGRESS_LIMITS,
+  buildEgressUrl,
+  buildEncoderArgs,
+  buildFfmpegArgs,
+  buildHlsArgs,
+  buildPublisherArgs,
+  EgressDestination,
+  EgressService,
+  EgressSession,
+  EgressStatus,
+  parseFfmpegProgress
+} from './egress.service';
+
+function destination(overrides: Partial<EgressDestination> = {}): EgressDestination {
+  return {
+    id: 'dest-1',
+    name: 'Test',
+    protocol: 'rtmp',
+    url: 'rtmp://127.0.0.1/live/',
+    streamKey: 'key',
+    settings: {
+      videoEncoder: 'x264',
+      audioEncoder: 'aac',
+      videoBitrate: 2500,
+      audioBitrate: 128,
+      resolution: { width: 1280, height: 720 },
+      fps: 30,
+      keyframeInterval: 2,
+      preset: 'veryfast',
+      profile: 'main',
+      tune: 'zerolatency'
+    },
+    ...overrides
+  };
+}
+
+const nextTick = () => new Promise(resolve => setImmediate(resolve));
+
+class FakeFfmpeg extends EventEmitter {
+  stdin = new PassThrough();
+  stdout = new PassThrough();
+  stderr = new PassThrough();
+  written: Buffer[] = [];
+
+  constructor(readonly args: string[]) {
+    super();
+    this.stdin.on('data', (chunk: Buffer) => this.written.push(chunk));
+    this.stdin.on('finish', () => this.emit('close', 0));
+  }
+
+  kill() {
+    this.emit('close', null);
+    return true;
+  }
+}
+
+// An ffmpeg input that takes nothing until released
+class StalledStdin extends Writable {
+  written: Buffer[] = [];
+  private held: (() => void)[] = [];
+
+  constructor() {
+    super({
+      write: (chunk: Buffer, _encoding, callback) => {
+        this.written.push(chunk);
+        this.held.push(callback);
+      }
+    });
+  }
+
+  release() {
+    const held = this.held;
+    this.held = [];
+    held.forEach(callback => callback());
+  }
+}
+
+describe('buildEgressUrl', () => {
+  it('should append the stream key to RTMP URLs', () => {
+    expect(buildEgressUrl(destination())).toBe('rtmp://127.0.0.1/live/key');
+  });
+
+  it('should pass the stream key to SRT as stream id', () => {
+    const url = buildEgressUrl(destination({ protocol: 'srt', url: 'srt://127.0.0.1:9000' }));
+
+    expect(url).toBe('srt://127.0.0.1:9000?streamid=key&pkt_size=1316');
+  });
+
+  it('should reject protocols the gateway cannot publish', () => {
+    expect(() => buildEgressUrl(destination({ protocol: 'hls' }))).toThrow(
+      'Protocol hls is not supported by the egress gateway'
+    );
+  });
+
+  it('should reject URLs that do not match the protocol', () => {
+    expect(() => buildEgressUrl(destination({ protocol: 'rtmps' }))).toThrow('must start with rtmps://');
+  });
+});
+
+describe('buildFfmpegArgs', () => {
+  it('should encode per the destination settings and mux FLV for RTMP', () => {
+    const args = buildFfmpegArgs(destination());
+
+    expect(args).toEqual(expect.arrayContaining(['-c:v', 'libx264', '-b:v', '2500k', '-g', '60']));
+    expect(args.slice(-3)).toEqual(['-f', 'flv', 'rtmp://127.0.0.1/live/key']);
+  });
+
+  it('should mux MPEG-TS for SRT', () => {
+    const args = buildFfmpegArgs(destination({ protocol: 'srt', url: 'srt://127.0.0.1:9000' }));
+
+    expect(args[args.length - 2]).toBe('mpegts');
+  });
+});
+
+describe('buildEncoderArgs', () => {
+  it('should encode to MPEG-TS on stdout keeping the input timeline', () => {
+    const args = buildEncoderArgs(destination().settings);
+
+    expect(args).toEqual(expect.arrayContaining(['-copyts', '-b:v', '2500k', '-vf', 'scale=1280:720,fps=30']));
+    expect(args.slice(-3)).toEqual(['-f', 'mpegts', 'pipe:1']);
+  });
+});
+
+describe('buildPublisherArgs', () => {
+  it('should copy the encoded stream to the destination', () => {
+    const args = buildPublisherArgs(destination());
+
+    expect(args).toEqual(expect.arrayContaining(['-f', 'mpegts', '-i', 'pipe:0', '-c', 'copy']));
+    expect(args.slice(-3)).toEqual(['-f', 'flv', 'rtmp://127.0.0.1/live/key']);
+  });
+});
+
+describe('buildHlsArgs', () => {
+  const playlistUrl = 'http://127.0.0.1:3333/api/hls/ingest/token/index.m3u8';
+
+  it('should upload fMP4 segments of the configured duration', () => {
+    const args = buildHlsArgs(destination({ protocol: 'hls' }), playlistUrl);
+
+    expect(args).toEqual(expect.arrayContaining(['-g', '60', '-f', 'hls', '-hls_time', '2', '-hls_segment_type', 'fmp4']));
+    expect(args.slice(-5)).toEqual(['-method', 'PUT', '-http_persistent', '1', playlistUrl]);
+  });
+
+  it('should start every part with a keyframe for low latency', () => {
+    const base = destination();
+    const args = buildHlsArgs(
+      destination({ protocol: 'hls', settings: { ...base.settings, hls: { lowLatency: true, segmentDuration: 2 } } }),
+      playlistUrl
+    );
+
+    expect(args).toEqual(expect.arrayContaining(['-g', '15', '-hls_time', '0.5']));
+  });
+});
+
+describe('parseFfmpegProgress', () => {
+  it('should read frame counts and bitrate', () => {
+    expect(parseFfmpegProgress({ frame: '120', fps: '29.97', bitrate: '2480.5kbits/s', drop_frames: '2' })).toEqual({
+      frames: 120,
+      droppedFrames: 2,
+      fps: 29.97,
+      bitrate: 2480.5
+    });
+  });
+
+  it('should treat N/A as zero', () => {
+    expect(parseFfmpegProgress({ frame: '0', bitrate: 'N/A' }).bitrate).toBe(0);
+  });
+});
+
+describe('EgressSession', () => {
+  let processes: FakeFfmpeg[];
+  let statuses: EgressStatus[];
+  let session: EgressSession;
+
+  beforeEach(() => {
+    processes = [];
+    statuses = [];
+    session = new EgressSession(
+      status => statuses.push(status),
+      args => {
+        const ffmpeg = new FakeFfmpeg(args);
+        processes.push(ffmpeg);
+        return ffmpeg as unknown as ChildProcessWithoutNullStreams;
+      }
+    );
+  });
+
+  it('should start one ffmpeg process per destination and fan out chunks', () => {
+    session.connect(destination({ id: 'a' }));
+    session.connect(destination({ id: 'b' }));
+    session.write(Buffer.from([1, 2, 3]));
+
+    expect(processes).toHaveLength(2);
+    expect(processes.map(p => Buffer.concat(p.written))).toEqual([Buffer.from([1, 2, 3]), Buffer.from([1, 2, 3])]);
+    expect(statuses).toEqual([
+      { destinationId: 'a', state: 'connecting' },
+      { destinationId: 'b', state: 'connecting' }
+    ]);
+  });
+
+  it('should replay the stream header to destinations that join later', () => {
+    session.write(Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x1f, 0x43, 0xb6, 0x75, 9]));
+    session.write(Buffer.from([10]));
+    session.connect(destination());
+
+    expect(Buffer.concat(processes[0].written)).toEqual(Buffer.from([0x1a, 0x45, 0xdf, 0xa3]));
+  });
+
+  it('should start a destination joining mid-stream at the next cluster', () => {
+    session.write(Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x1f, 0x43, 0xb6, 0x75, 9]));
+    session.connect(destination());
+    session.write(Buffer.from([10]));
+    session.write(Buffer.from([11, 0x1f, 0x43, 0xb6, 0x75, 12]));
+
+    expect(Buffer.concat(processes[0].written)).toEqual(
+      Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x1f, 0x43, 0xb6, 0x75, 12])
+    );
+  });
+
+  it('should report live once ffmpeg encodes frames', async () => {
+    session.connect(destination());
+    processes[0].stdout.write('frame=30\nfps=30.0\nbitrate=2500.0kbits/s\nprogress=continue\n');
+    await nextTick();
+
+    expect(statuses[statuses.length - 1]).toEqual({
+      destinationId: 'dest-1',
+      state: 'live',
+      stats: { frames: 30, droppedFrames: 0, fps: 30, bitrate: 2500, queuedBytes: 0, droppedBytes: 0 }
+    });
+  });
+
+  it('should drop input while ffmpeg falls behind and resume at the next cluster', async () => {
+    const stdin = new StalledStdin();
+    session = new EgressSession(
+      status => statuses.push(status),
+      args => {
+        const ffmpeg = new FakeFfmpeg(args);
+        ffmpeg.stdin = stdin as unknown as PassThrough;
+        processes.push(ffmpeg);
+        return ffmpeg as unknown as ChildProcessWithoutNullStreams;
+      },
+      undefined,
+      { ...DEFAULT_EGRESS_LIMITS, maxQueuedBytes: 8 }
+    );
+    session.connect(destination());
+
+    session.write(Buffer.from([1, 2, 3, 4, 5, 6]));
+    session.write(Buffer.from([7, 8, 9]));
+    stdin.release();
+    session.write(Buffer.from([10, 0x1f, 0x43, 0xb6, 0x75, 11]));
+    processes[0].stdout.write('frame=30\nprogress=continue\n');
+    await nextTick();
+
+    expect(Buffer.concat(stdin.written)).toEqual(Buffer.from([1, 2, 3, 4, 5, 6, 0x1f, 0x43, 0xb6, 0x75, 11]));
+    expect(statuses[statuses.length - 1].stats).toEqual(expect.objectContaining({ queuedBytes: 5, droppedBytes: 4 }));
+  });
+
+  it('should refuse destinations beyond the limit', () => {
+    session = new EgressSession(
+      status => statuses.push(status),
+      args => {
+        const ffmpeg = new FakeFfmpeg(args);
+        processes.push(ffmpeg);
+        return ffmpeg as unknown as ChildProcessWithoutNullStreams;
+      },
+      undefined,
+      { ...DEFAULT_EGRESS_LIMITS, maxDestinations: 1 }
+    );
+
+    session.connect(destination({ id: 'a' }));
+    session.connect(destination({ id: 'b' }));
+
+    expect(processes).toHaveLength(1);
+    expect(statuses[statuses.length - 1]).toEqual({
+      destinationId: 'b',
+      state: 'error',
+      error: 'At most 1 destinations can be connected at once'
+    });
+  });
+
+  it('should report the ffmpeg error when the process exits unexpectedly', async () => {
+    session.connect(destination());
+    processes[0].stderr.write('Connection refused\n');
+    await nextTick();
+    processes[0].emit('close', 1);
+
+    expect(statuses[statuses.length - 1]).toEqual({
+      destinationId: 'dest-1',
+      state: 'error',
+      error: 'Connection refused'
+    });
+    expect(session.destinationIds).toEqual([]);
+  });
+
+  it('should report unsupported destinations without starting ffmpeg', () => {
+    session.connect(destination({ protocol: 'webrtc' }));
+
+    expect(processes).toHaveLength(0);
+    expect(statuses[0].state).toBe('error');
+  });
+
+  it('should report HLS destinations when the gateway has no HLS output', () => {
+    session.connect(destination({ protocol: 'hls' }));
+
+    expect(processes).toHaveLength(0);
+    expect(statuses[0]).toEqual({
+      destinationId: 'dest-1',
+      state: 'error',
+      error: 'HLS output is not available on this gateway'
+    });
+  });
+
+  it('should report stopped after a requested stop', async () => {
+    session.connect(destination());
+    session.stop();
+    await nextTick();
+
+    expect(statuses[statuses.length - 1]).toEqual({ destinationId: 'dest-1', state: 'stopped' });
+  });
+});
+
+describe('EgressSession with HLS', () => {
+  it('should serve HLS destinations under their stream key', () => {
+    const open = jest.fn(() => 'http://127.0.0.1:3333/api/hls/ingest/token/index.m3u8');
+    const processes: FakeFfmpeg[] = [];
+    const session = new EgressSession(
+      () => undefined,
+      args => {
+        const ffmpeg = new FakeFfmpeg(args);
+        processes.push(ffmpeg);
+        return ffmpeg as unknown as ChildProcessWithoutNullStreams;
+      },
+      { open }
+    );
+    const base = destination();
+    const hls = { lowLatency: false, segmentDuration: 2, linkToken: 'link-token-0123456789' };
+
+    session.connect(destination({
+      protocol: 'hls',
+      streamKey: 'lobby',
+      settings: { ...base.settings, adaptiveBitrate: { enabled: true }, hls }
+    }));
+
+    expect(open).toHaveBeenCalledWith('lobby', hls, 'link-token-0123456789');
+    // Encoded in one process; there is no connection to adapt to
+    expect(processes).toHaveLength(1);
+    expect(processes[0].args[processes[0].args.length - 1]).toBe('http://127.0.0.1:3333/api/hls/ingest/token/index.m3u8');
+  });
+});
+
+describe('EgressSession with adaptive bitrate', () => {
+  let processes: FakeFfmpeg[];
+  let statuses: EgressStatus[];
+  let session: EgressSession;
+
+  const adaptive = (videoBitrate = 2500) => {
+    const settings = destination().settings;
+    return destination({ settings: { ...settings, videoBitrate, adaptiveBitrate: { enabled: true } } });
+  };
+  const isEncoder = (ffmpeg: FakeFfmpeg) => ffmpeg.args.includes('-copyts');
+
+  beforeEach(() => {
+    processes = [];
+    statuses = [];
+    session = new EgressSession(
+      status => statuses.push(status),
+      args => {
+        const ffmpeg = new FakeFfmpeg(args);
+        processes.push(ffmpeg);
+        return ffmpeg as unknown as ChildProcessWithoutNullStreams;
+      }
+    );
+  });
+
+  it('should encode and publish in separate processes', () => {
+    session.connect(adaptive());
+    session.write(Buffer.from([1, 2, 3]));
+    const [publisher, encoder] = processes;
+    encoder.stdout.write(Buffer.from([7, 8]));
+
+    expect(processes.map(isEncoder)).toEqual([false, true]);
+    expect(Buffer.concat(encoder.written)).toEqual(Buffer.from([1, 2, 3]));
+    expect(Buffer.concat(publisher.written)).toEqual(Buffer.from([7, 8]));
+  });
+
+  it('should swap the encoder on retune while the publisher stays connected', async () => {
+    session.write(Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x1f, 0x43, 0xb6, 0x75, 9]));
+    session.connect(adaptive());
+    const [publisher, first] = processes;
+
+    expect(session.retune('dest-1', adaptive(1500).settings)).toBe(true);
+    const second = processes[2];
+    second.stdout.write(Buffer.from([2]));
+    first.stdout.write(Buffer.from([1]));
+    await nextTick();
+
+    // The new encoder joins at the header; its output follows the old encoder's
+    expect(second.args).toEqual(expect.arrayContaining(['-b:v', '1500k']));
+    expect(Buffer.concat(second.written)).toEqual(Buffer.from([0x1a, 0x45, 0xdf, 0xa3]));
+    expect(Buffer.concat(publisher.written)).toEqual(Buffer.from([1, 2]));
+    expect(processes).toHaveLength(3);
+    expect(statuses.map(status => status.state)).toEqual(['connecting']);
+  });
+
+  it('should publish a new resolution over RTMP through a new connection', async () => {
+    session.connect(adaptive());
+    const [publisher, first] = processes;
+    const settings = { ...adaptive().settings, resolution: { width: 854, height: 480 }, fps: 30 };
+
+    session.retune('dest-1', settings);
+    const second = processes[2];
+    second.stdout.write(Buffer.from([2]));
+    first.stdout.write(Buffer.from([1]));
+    await nextTick();
+    await nextTick();
+
+    // The old connection gets the old encoder's output, the new one the new encoder's
+    const reconnected = processes[3];
+    expect(reconnected.args).toEqual(buildPublisherArgs(adaptive()));
+    expect(Buffer.concat(publisher.written)).toEqual(Buffer.from([1]));
+    expect(publisher.stdin.writableEnded).toBe(true);
+    expect(Buffer.concat(reconnected.written)).toEqual(Buffer.from([2]));
+
+    // Only the new connection reports, once it is live
+    publisher.stdout.write('frame=30\nprogress=continue\n');
+    reconnected.stdout.write('frame=0\nprogress=continue\nframe=5\nprogress=continue\n');
+    await nextTick();
+    expect(statuses.map(status => status.state)).toEqual(['connecting', 'live']);
+  });
+
+  it('should keep the SRT connection for a new resolution', async () => {
+    const srt = adaptive();
+    session.connect({ ...srt, protocol: 'srt', url: 'srt://127.0.0.1:9000' });
+
+    session.retune('dest-1', { ...srt.settings, resolution: { width: 854, height: 480 } });
+    await nextTick();
+
+    expect(processes.filter(ffmpeg => !isEncoder(ffmpeg))).toHaveLength(1);
+  });
+
+  it('should not retune destinations without adaptive bitrate', () => {
+    session.connect(destination());
+
+    expect(session.retune('dest-1', adaptive(1500).settings)).toBe(false);
+    expect(processes).toHaveLength(1);
+  });
+
+  it('should report how much is queued for the publisher', async () => {
+    session.connect(adaptive());
+    processes[0].stdout.write('frame=30\nfps=30.0\nbitrate=2500.0kbits/s\nprogress=continue\n');
+    await nextTick();
+
+    expect(statuses[statuses.length - 1].stats).toEqual(expect.objectContaining({ frames: 30, queuedBytes: 0 }));
+  });
+
+  it('should report the encoder error when it exits unexpectedly', async () => {
+    session.connect(adaptive());
+    processes[1].stderr.write('Unknown encoder\n');
+    await nextTick();
+    processes[1].emit('close', 1);
+
+    expect(statuses[statuses.length - 1]).toEqual({ destinationId: 'dest-1', state: 'error', error: 'Unknown encoder' });
+  });
+
+  it('should stop the publisher once the encoder has flushed', async () => {
+    session.connect(adaptive());
+    session.stop();
+    await nextTick();
+    await nextTick();
+
+    expect(statuses[statuses.length - 1]).toEqual({ destinationId: 'dest-1', state: 'stopped' });
+  });
+});
+
+describe('EgressService', () => {
+  let httpServer: HttpServer;
+  let io: Server;
+  let baseUrl: string;
+  let processes: FakeFfmpeg[];
+  let clients: ClientSocket[];
+
+  // Let socket.io messages arrive
+  const settle = () => new Promise(resolve => setTimeout(resolve, 50));
+
+  const studio = async () => {
+    const client = connect(baseUrl, { transports: ['websocket'] });
+    clients.push(client);
+    await new Promise<void>(resolve => client.on('connect', () => resolve()));
+    return client;
+  };
+
+  const statusesOf = (client: ClientSocket) => {
+    const statuses: EgressStatus[] = [];
+    client.on('egress:status', (status: EgressStatus) => statuses.push(status));
+    return statuses;
+  };
+
+  beforeEach(async () => {
+    httpServer = createHttpServer();
+    io = new Server(httpServer);
+    processes = [];
+    clients = [];
+    new EgressService(io, undefined, args => {
+      const ffmpeg = new FakeFfmpeg(args);
+      processes.push(ffmpeg);
+      return ffmpeg as unknown as ChildProcessWithoutNullStreams;
+    }, { ...DEFAULT_EGRESS_LIMITS, maxSessions: 1 });
+
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    clients.forEach(client => client.disconnect());
+    io.close();
+    await new Promise(resolve => httpServer.close(resolve));
+  });
+
+  it('should connect destinations of a started stream', async () => {
+    const client = await studio();
+    const statuses = statusesOf(client);
+
+    client.emit('egress:start');
+    client.emit('egress:connect', destination());
+    await settle();
+
+    expect(processes).toHaveLength(1);
+    expect(statuses).toEqual([{ destinationId: 'dest-1', state: 'connecting' }]);
+  });
+
+  it('should report a missing destination instead of failing', async () => {
+    const client = await studio();
+    const statuses = statusesOf(client);
+
+    client.emit('egress:start');
+    client.emit('egress:connect');
+    client.emit('egress:connect', { id: 'dest-1' });
+    await settle();
+
+    expect(processes).toHaveLength(0);
+    expect(statuses).toEqual([
+      { destinationId: '', state: 'error', error: 'Destination is missing' },
+      { destinationId: 'dest-1', state: 'error', error: 'Destination name must be a string' }
+    ]);
+  });
+
+  it.each([
+    ['odd resolutions', { resolution: { width: 1281, height: 720 } }, /Resolution/],
+    ['frame rates out of range', { fps: 1000 }, /Frame rate/],
+    ['frame rates that are not numbers', { fps: '30,drawtext=text=x' }, /Frame rate/],
+    ['unknown presets', { preset: 'veryfast -f null' }, /preset/],
+    ['unknown tunes', { tune: 'film;' }, /tune/],
+    ['unknown profiles', { profile: 'high -y' }, /profile/]
+  ])('should refuse %s before starting ffmpeg', async (_name, settings, error) => {
+    const client = await studio();
+    const statuses = statusesOf(client);
+    const base = destination();
+
+    client.emit('egress:start');
+    client.emit('egress:connect', { ...base, settings: { ...base.settings, ...settings } });
+    await settle();
+
+    expect(processes).toHaveLength(0);
+    expect(statuses).toEqual([{ destinationId: 'dest-1', state: 'error', error: expect.stringMatching(error) }]);
+  });
+
+  it('should report retunes with invalid settings', async () => {
+    const client = await studio();
+    const statuses = statusesOf(client);
+
+    client.emit('egress:start');
+    client.emit('egress:retune');
+    client.emit('egress:retune', { destinationId: 'dest-1', settings: { ...destination().settings, preset: '$(reboot)' } });
+    await settle();
+
+    expect(statuses).toEqual([
+      { destinationId: '', state: 'error', error: 'Encoder settings are missing' },
+      { destinationId: 'dest-1', state: 'error', error: expect.stringMatching(/preset/) }
+    ]);
+  });
+
+  it('should tell the studio when its stream is refused', async () => {
+    const first = await studio();
+    first.emit('egress:start');
+    await settle();
+
+    const second = await studio();
+    const refusals: { error: string }[] = [];
+    second.on('egress:refused', (refusal: { error: string }) => refusals.push(refusal));
+    const statuses = statusesOf(second);
+    second.emit('egress:start');
+    second.emit('egress:connect', destination());
+    await settle();
+
+    expect(refusals).toEqual([{ error: 'The streaming server is handling too many streams' }]);
+    expect(statuses).toEqual([
+      { destinationId: 'dest-1', state: 'error', error: 'The streaming server is handling too many streams' }
+    ]);
+    expect(processes).toHaveLength(0);
+  });
+});
+
+// Publishes a generated WebM stream to ffmpeg acting as a local RTMP server
+const hasFfmpeg = spawnSync(process.env.FFMPEG_PATH || 'ffmpeg', ['-version']).status === 0;
+
+(hasFfmpeg ? describe : describe.skip)('EgressSession with ffmpeg', () => {
+  const ffmpeg = process.env.FFMPEG_PATH || 'ffmpeg';
+
+  function freePort(): Promise<number> {
+    return new Promise(resolve => {
+      const server = createServer().listen(0, () => {
+        const { port } = server.address() as { port: number };
+        server.close(() => resolve(port));
+      });
+    });
+  }
+
+  function generateWebm(): Buffer {
+    return spawnSync(ffmpeg, [
+      '-hide_banner', '-loglevel', 'error',
+      '-f', 'lavfi', '-i', 'testsrc=size=320x240:rate=30',
+      '-f', 'lavfi', '-i', 'sine=frequency=440:sample_rate=48000',
+      '-t', '3', '-c:v', 'libvpx', '-deadline', 'realtime', '-c:a', 'libopus',
+      '-f', 'webm', 'pipe:1'
+    ], { maxBuffer: 64 * 1024 * 1024 }).stdout;
+  }
+
+  it('should publish to a local RTMP server', async () => {
+    const port = await freePort();
+    const server = spawn(ffmpeg, [
+      '-loglevel', 'error',
+      '-listen', '1', '-f', 'flv', '-i', `rtmp://127.0.0.1:${port}/live/key`,
+      '-f', 'null', '-'
+    ]);
+    await new Promise(resolve => setTimeout(resolve, 1000));
+
+    const statuses: EgressStatus[] = [];
+    const session = new EgressSession(status => statuses.push(status));
+    const settings = { ...destination().settings, resolution: { width: 320, height: 240 } };
+    session.connect(destination({ url: `rtmp://127.0.0.1:${port}/live/`, settings }));
+
+    const webm = generateWebm();
+    for (let offset = 0; offset < webm.length; offset += 16384) {
+      session.write(webm.subarray(offset, offset + 16384));
+    }
+
+    await new Promise<void>(resolve => {
+      const check = setInterval(() => {
+        if (statuses.some(status => status.state !== 'connecting')) {
+          clearInterval(check);
+          resolve();
+        }
+      }, 100);
+    });
+    session.stop();
+    server.kill();
+
+    expect(statuses.find(status => status.state !== 'connecting')?.state).toBe('live');
+  }, 30000);
+});
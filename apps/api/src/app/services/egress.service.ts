@@ -0,0 +1,946 @@
+/**
+ * Egress Service
+ * Receives the program stream from the studio as WebM chunks over socket.io
+ * and forwards it to each streaming destination through its own ffmpeg
+ * process (RTMP, RTMPS or SRT). Per-destination status is reported back to
+ * the studio that owns the stream. Destinations with adaptive bitrate are
+ * encoded and published by separate processes, so the studio can retune the
+ * encoder without dropping the connection. HLS destinations are encoded to
+ * fMP4 and served by the HLS service rather than published.
+ *
+ * Each ffmpeg input is bounded: while a process falls behind, the stream is
+ * dropped up to the next cluster and the dropped bytes are reported.
+ *
+ * ffmpeg must be on the PATH, or set FFMPEG_PATH.
+ */
+
+import { spawn as spawnProcess, ChildProcessWithoutNullStreams } from 'child_process';
+import { Writable } from 'stream';
+import { Server, Socket } from 'socket.io';
+import { DEFAULT_HLS_OPTIONS, HLS_PART_DURATION, HlsOptions, HlsService } from './hls.service';
+
+export type EgressProtocol = 'rtmp' | 'rtmps' | 'srt';
+
+export type EgressState = 'connecting' | 'live' | 'error' | 'stopped';
+
+export interface EgressEncoderSettings {
+  videoEncoder: string;
+  audioEncoder: string;
+  videoBitrate: number; // kbps
+  audioBitrate: number; // kbps
+  resolution: { width: number; height: number };
+  fps: number;
+  keyframeInterval: number; // seconds
+  preset: string;
+  profile: string;
+  tune: string;
+  // Encoded in a process of its own so the bitrate can be retuned live
+  adaptiveBitrate?: { enabled: boolean };
+  // Players need the link token to watch
+  hls?: HlsOptions & { linkToken?: string };
+}
+
+export interface EgressDestination {
+  id: string;
+  name: string;
+  protocol: string;
+  url: string;
+  streamKey: string;
+  settings: EgressEncoderSettings;
+}
+
+export interface EgressStats {
+  frames: number;
+  droppedFrames: number;
+  fps: number;
+  bitrate: number; // kbps
+  queuedBytes?: number; // waiting for ffmpeg; encoded but not yet published, with adaptive bitrate
+  droppedBytes?: number; // input dropped while ffmpeg fell behind
+}
+
+export interface EgressStatus {
+  destinationId: string;
+  state: EgressState;
+  error?: string;
+  stats?: EgressStats;
+}
+
+export type SpawnFfmpeg = (args: string[]) => ChildProcessWithoutNullStreams;
+
+// Where HLS destinations are served from
+export type HlsOutput = Pick<HlsService, 'open'>;
+
+export interface EgressLimits {
+  // Program streams the gateway takes at once
+  maxSessions: number;
+  // Destinations per stream
+  maxDestinations: number;
+  // Bytes buffered for one ffmpeg input before the stream is dropped
+  maxQueuedBytes: number;
+}
+
+export const DEFAULT_EGRESS_LIMITS: EgressLimits = {
+  maxSessions: 4,
+  maxDestinations: 8,
+  maxQueuedBytes: 16 * 1024 * 1024
+};
+
+const SUPPORTED_PROTOCOLS: EgressProtocol[] = ['rtmp', 'rtmps', 'srt'];
+
+const VIDEO_ENCODERS: Record<string, string> = {
+  x264: 'libx264',
+  x265: 'libx265',
+  nvenc: 'h264_nvenc',
+  qsv: 'h264_qsv',
+  amf: 'h264_amf',
+  apple_vt: 'h264_videotoolbox',
+  av1: 'libsvtav1'
+};
+
+const AUDIO_ENCODERS: Record<string, string> = {
+  aac: 'aac',
+  opus: 'libopus',
+  mp3: 'libmp3lame',
+  flac: 'flac'
+};
+
+// Matroska Cluster element ID; everything before the first one is the header
+const CLUSTER_ID = Buffer.from([0x1f, 0x43, 0xb6, 0x75]);
+
+// How long ffmpeg gets to flush and close the connection before it is killed
+const STOP_TIMEOUT = 5000;
+
+// Number of ffmpeg log lines kept to explain a failure
+const LOG_LINES = 5;
+
+// Encoder options that reach ffmpeg's arguments, so only values it knows get through
+const PRESETS = ['ultrafast', 'superfast', 'veryfast', 'faster', 'fast', 'medium', 'slow', 'slower', 'veryslow', 'placebo'];
+const TUNES = ['film', 'animation', 'grain', 'stillimage', 'fastdecode', 'zerolatency', 'psnr', 'ssim'];
+const PROFILES = ['baseline', 'main', 'high', 'high10', 'high422', 'high444'];
+const MAX_RESOLUTION = 7680;
+const MAX_FPS = 240;
+const MAX_HLS_SEGMENT_DURATION = 30;
+
+const TOO_MANY_STREAMS = 'The streaming server is handling too many streams';
+
+type Payload = Record<string, unknown>;
+
+function isPayload(value: unknown): value is Payload {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPositive(value: unknown, max = Infinity): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 && value <= max;
+}
+
+function isOption(value: unknown, options: string[]): value is string {
+  return value === '' || (typeof value === 'string' && options.includes(value));
+}
+
+/**
+ * Check encoder settings sent by the studio before they are turned into
+ * ffmpeg arguments
+ */
+function parseEncoderSettings(value: unknown): EgressEncoderSettings {
+  if (!isPayload(value)) {
+    throw new Error('Encoder settings are missing');
+  }
+  const { resolution, adaptiveBitrate, hls } = value;
+  if (typeof value['videoEncoder'] !== 'string' || typeof value['audioEncoder'] !== 'string') {
+    throw new Error('Encoders must be named');
+  }
+  if (!isPositive(value['videoBitrate']) || !isPositive(value['audioBitrate'])) {
+    throw new Error('Bitrates must be positive');
+  }
+  const dimensions = isPayload(resolution) ? [resolution['width'], resolution['height']] : [];
+  if (dimensions.length === 0 || !dimensions.every(size => isPositive(size, MAX_RESOLUTION) && Number.isInteger(size) && size % 2 === 0)) {
+    throw new Error(`Resolution must be even numbers of pixels up to ${MAX_RESOLUTION}`);
+  }
+  if (!isPositive(value['fps'], MAX_FPS)) {
+    throw new Error(`Frame rate must be positive and at most ${MAX_FPS}`);
+  }
+  if (!isPositive(value['keyframeInterval'])) {
+    throw new Error('Keyframe interval must be positive');
+  }
+  if (!isOption(value['preset'], PRESETS)) {
+    throw new Error(`Unknown encoder preset ${String(value['preset'])}`);
+  }
+  if (!isOption(value['tune'], TUNES)) {
+    throw new Error(`Unknown encoder tune ${String(value['tune'])}`);
+  }
+  if (!isOption(value['profile'], PROFILES)) {
+    throw new Error(`Unknown encoder profile ${String(value['profile'])}`);
+  }
+  if (adaptiveBitrate !== undefined && (!isPayload(adaptiveBitrate) || typeof adaptiveBitrate['enabled'] !== 'boolean')) {
+    throw new Error('Adaptive bitrate must be turned on or off');
+  }
+  if (hls !== undefined && (!isPayload(hls) || typeof hls['lowLatency'] !== 'boolean'
+    || !isPositive(hls['segmentDuration'], MAX_HLS_SEGMENT_DURATION)
+    || (hls['linkToken'] !== undefined && typeof hls['linkToken'] !== 'string'))) {
+    throw new Error(`HLS segments must be up to ${MAX_HLS_SEGMENT_DURATION} seconds long`);
+  }
+  return value as unknown as EgressEncoderSettings;
+}
+
+/**
+ * Check a destination sent by the studio
+ */
+function parseDestination(value: unknown): EgressDestination {
+  if (!isPayload(value)) {
+    throw new Error('Destination is missing');
+  }
+  const fields = ['id', 'name', 'protocol', 'url', 'streamKey'];
+  const missing = fields.find(field => typeof value[field] !== 'string');
+  if (missing) {
+    throw new Error(`Destination ${missing} must be a string`);
+  }
+  parseEncoderSettings(value['settings']);
+  return value as unknown as EgressDestination;
+}
+
+/**
+ * The destination a payload is about, if it names one, to report errors against
+ */
+function destinationIdOf(value: unknown): string {
+  const id = isPayload(value) ? value['id'] ?? value['destinationId'] : undefined;
+  return typeof id === 'string' ? id : '';
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Full output URL for a destination, with the stream key applied the way
+ * the protocol expects it
+ */
+export function buildEgressUrl(destination: EgressDestination): string {
+  const protocol = destination.protocol as EgressProtocol;
+  if (!SUPPORTED_PROTOCOLS.includes(protocol)) {
+    throw new Error(`Protocol ${destination.protocol} is not supported by the egress gateway`);
+  }
+  if (!destination.url.startsWith(`${protocol}://`)) {
+    throw new Error(`Stream URL for ${destination.name} must start with ${protocol}://`);
+  }
+
+  if (protocol === 'srt') {
+    const url = new URL(destination.url);
+    if (destination.streamKey && !url.searchParams.has('streamid')) {
+      url.searchParams.set('streamid', destination.streamKey);
+    }
+    // One MPEG-TS packet group per SRT packet
+    if (!url.searchParams.has('pkt_size')) {
+      url.searchParams.set('pkt_size', '1316');
+    }
+    return url.toString();
+  }
+
+  if (!destination.streamKey) {
+    return destination.url;
+  }
+  return `${destination.url.replace(/\/+$/, '')}/${destination.streamKey}`;
+}
+
+/**
+ * ffmpeg arguments that read WebM from stdin, encode it per the destination
+ * settings and publish it. Progress is written to stdout as key=value lines.
+ */
+export function buildFfmpegArgs(destination: EgressDestination): string[] {
+  const { settings } = destination;
+
+  return [
+    '-hide_banner',
+    '-loglevel', 'warning',
+    '-nostats',
+    '-progress', 'pipe:1',
+    '-fflags', '+genpts',
+    '-f', 'matroska',
+    '-i', 'pipe:0',
+    ...encodingArgs(settings, [
+      '-vf', `scale=${settings.resolution.width}:${settings.resolution.height}`,
+      '-r', String(settings.fps)
+    ]),
+    '-f', destination.protocol === 'srt' ? 'mpegts' : 'flv',
+    buildEgressUrl(destination)
+  ];
+}
+
+/**
+ * ffmpeg arguments that read WebM from stdin and write it encoded per the
+ * settings to stdout as MPEG-TS. Input timestamps are kept, so an encoder
+ * replacing another one continues the same timeline.
+ */
+export function buildEncoderArgs(settings: EgressEncoderSettings): string[] {
+  return [
+    '-hide_banner',
+    '-loglevel', 'warning',
+    '-nostats',
+    '-fflags', '+genpts',
+    '-f', 'matroska',
+    '-i', 'pipe:0',
+    '-copyts',
+    ...encodingArgs(settings, [
+      '-vf', `scale=${settings.resolution.width}:${settings.resolution.height},fps=${settings.fps}`,
+      '-fps_mode', 'passthrough'
+    ]),
+    '-f', 'mpegts',
+    'pipe:1'
+  ];
+}
+
+/**
+ * ffmpeg arguments that publish the MPEG-TS stream of an encoder as it is.
+ * Progress is written to stdout as key=value lines.
+ */
+export function buildPublisherArgs(destination: EgressDestination): string[] {
+  return [
+    '-hide_banner',
+    '-loglevel', 'warning',
+    '-nostats',
+    '-progress', 'pipe:1',
+    '-f', 'mpegts',
+    '-i', 'pipe:0',
+    '-c', 'copy',
+    '-f', destination.protocol === 'srt' ? 'mpegts' : 'flv',
+    buildEgressUrl(destination)
+  ];
+}
+
+/**
+ * ffmpeg arguments that read WebM from stdin, encode it per the destination
+ * settings and upload it as fMP4 HLS to a playlist URL. For low latency every
+ * chunk starts with a keyframe, so each can be served as an independent part.
+ */
+export function buildHlsArgs(destination: EgressDestination, playlistUrl: string): string[] {
+  const options = destination.settings.hls ?? DEFAULT_HLS_OPTIONS;
+  const settings = options.lowLatency
+    ? { ...destination.settings, keyframeInterval: HLS_PART_DURATION }
+    : destination.settings;
+
+  return [
+    '-hide_banner',
+    '-loglevel', 'warning',
+    '-nostats',
+    '-progress', 'pipe:1',
+    '-fflags', '+genpts',
+    '-f', 'matroska',
+    '-i', 'pipe:0',
+    ...encodingArgs(settings, [
+      '-vf', `scale=${settings.resolution.width}:${settings.resolution.height}`,
+      '-r', String(settings.fps)
+    ]),
+    '-f', 'hls',
+    '-hls_time', String(options.lowLatency ? HLS_PART_DURATION : options.segmentDuration),
+    '-hls_list_size', '10',
+    '-hls_segment_type', 'fmp4',
+    '-hls_fmp4_init_filename', 'init.mp4',
+    '-hls_flags', 'independent_segments',
+    '-method', 'PUT',
+    '-http_persistent', '1',
+    playlistUrl
+  ];
+}
+
+function encodingArgs(settings: EgressEncoderSettings, scaling: string[]): string[] {
+  const videoEncoder = VIDEO_ENCODERS[settings.videoEncoder] ?? 'libx264';
+  const audioEncoder = AUDIO_ENCODERS[settings.audioEncoder] ?? 'aac';
+  const gop = String(Math.max(1, Math.round(settings.fps * settings.keyframeInterval)));
+
+  const video = [
+    '-c:v', videoEncoder,
+    '-b:v', `${settings.videoBitrate}k`,
+    '-maxrate', `${settings.videoBitrate}k`,
+    '-bufsize', `${settings.videoBitrate * 2}k`,
+    ...scaling,
+    '-g', gop,
+    '-keyint_min', gop,
+    '-pix_fmt', 'yuv420p'
+  ];
+  if (videoEncoder === 'libx264' || videoEncoder === 'libx265') {
+    if (settings.preset) video.push('-preset', settings.preset);
+    if (settings.tune) video.push('-tune', settings.tune);
+  }
+  if (videoEncoder.startsWith('h264') || videoEncoder === 'libx264') {
+    if (settings.profile) video.push('-profile:v', settings.profile);
+  }
+
+  return [
+    ...video,
+    '-c:a', audioEncoder,
+    '-b:a', `${settings.audioBitrate}k`,
+    '-ar', '48000'
+  ];
+}
+
+/**
+ * Parse one block of `-progress` output into stats
+ */
+export function parseFfmpegProgress(block: Record<string, string>): EgressStats {
+  const bitrate = parseFloat(block['bitrate'] ?? '');
+  return {
+    frames: parseInt(block['frame'] ?? '0', 10) || 0,
+    droppedFrames: parseInt(block['drop_frames'] ?? '0', 10) || 0,
+    fps: parseFloat(block['fps'] ?? '0') || 0,
+    // Reported as "2500.1kbits/s", or "N/A" before the first packet
+    bitrate: Number.isFinite(bitrate) ? bitrate : 0
+  };
+}
+
+/**
+ * The stdin of an ffmpeg process, holding at most `maxQueuedBytes` that
+ * ffmpeg hasn't taken yet. Chunks beyond that are dropped; with a resync
+ * marker, writing resumes where it next occurs so ffmpeg can pick up the
+ * stream again, otherwise with the next chunk that fits.
+ */
+class BoundedInput {
+  droppedBytes = 0;
+  private dropping = false;
+  // Waiting for the marker without having dropped anything, e.g. after joining
+  private skipping = false;
+
+  constructor(
+    private readonly stdin: Writable,
+    private readonly maxQueuedBytes: number,
+    private readonly resyncMarker?: Buffer
+  ) {}
+
+  get queuedBytes(): number {
+    return this.stdin.writableLength;
+  }
+
+  get writable(): boolean {
+    return this.stdin.writable;
+  }
+
+  write(chunk: Buffer): void {
+    if ((this.dropping || this.skipping) && this.resyncMarker) {
+      const resync = chunk.indexOf(this.resyncMarker);
+      if (this.dropping) this.droppedBytes += resync < 0 ? chunk.length : resync;
+      if (resync < 0) return;
+      this.skipping = false;
+      chunk = chunk.subarray(resync);
+    }
+
+    this.dropping = this.stdin.writableLength + chunk.length > this.maxQueuedBytes;
+    if (this.dropping) {
+      this.droppedBytes += chunk.length;
+      return;
+    }
+    this.stdin.write(chunk);
+  }
+
+  /**
+   * Continue where the resync marker next occurs
+   */
+  skipToResync(): void {
+    this.skipping = this.resyncMarker !== undefined;
+  }
+
+  end(): void {
+    this.stdin.end();
+  }
+}
+
+/**
+ * A destination the program stream is published to
+ */
+interface Egress {
+  write(chunk: Buffer): void;
+  // Continue the stream at the next cluster, which starts on a keyframe
+  skipToCluster(): void;
+  stop(): void;
+}
+
+/**
+ * One ffmpeg process publishing to one destination
+ */
+class EgressProcess implements Egress {
+  private progress: Record<string, string> = {};
+  private log: string[] = [];
+  private stopping = false;
+  private state: EgressState = 'connecting';
+  private readonly input: BoundedInput;
+
+  /**
+   * @param resyncMarker Where the input format can be resumed after a drop
+   */
+  constructor(
+    readonly destination: EgressDestination,
+    private readonly process: ChildProcessWithoutNullStreams,
+    private readonly report: (status: EgressStatus) => void,
+    maxQueuedBytes: number,
+    resyncMarker?: Buffer
+  ) {
+    this.input = new BoundedInput(process.stdin, maxQueuedBytes, resyncMarker);
+    readLines(process.stdout, line => this.onProgressLine(line));
+    readLines(process.stderr, line => {
+      this.log = [...this.log, line].slice(-LOG_LINES);
+    });
+
+    // The connection dropping shows up as EPIPE on stdin; the exit reports it
+    process.stdin.on('error', () => undefined);
+    process.on('error', error => this.fail(error.message));
+    process.on('close', code => {
+      if (this.state === 'error') return;
+      if (this.stopping) {
+        this.setState('stopped');
+      } else {
+        this.fail(this.log.join('\n') || `ffmpeg exited with code ${code}`);
+      }
+    });
+  }
+
+  // Bytes written but not yet taken by ffmpeg
+  get queuedBytes(): number {
+    return this.input.queuedBytes;
+  }
+
+  get droppedBytes(): number {
+    return this.input.droppedBytes;
+  }
+
+  write(chunk: Buffer): void {
+    if (this.stopping || !this.input.writable) return;
+    this.input.write(chunk);
+  }
+
+  skipToCluster(): void {
+    this.input.skipToResync();
+  }
+
+  /**
+   * Close the input so ffmpeg flushes and disconnects; kill it if it hangs
+   */
+  stop(): void {
+    if (this.stopping) return;
+    this.stopping = true;
+
+    this.input.end();
+    const timeout = setTimeout(() => this.process.kill('SIGKILL'), STOP_TIMEOUT);
+    this.process.once('close', () => clearTimeout(timeout));
+  }
+
+  private onProgressLine(line: string): void {
+    const separator = line.indexOf('=');
+    if (separator < 0) return;
+
+    const key = line.slice(0, separator).trim();
+    this.progress[key] = line.slice(separator + 1).trim();
+
+    // "progress" ends each block
+    if (key !== 'progress') return;
+
+    const stats = parseFfmpegProgress(this.progress);
+    this.progress = {};
+    if (stats.frames > 0 && this.state === 'connecting') {
+      this.state = 'live';
+    }
+    this.report({
+      destinationId: this.destination.id,
+      state: this.state,
+      stats: { ...stats, queuedBytes: this.queuedBytes, droppedBytes: this.droppedBytes }
+    });
+  }
+
+  private setState(state: EgressState, error?: string): void {
+    this.state = state;
+    this.report({ destinationId: this.destination.id, state, error });
+  }
+
+  fail(error: string): void {
+    if (this.state === 'error' || this.state === 'stopped') return;
+    this.stopping = true;
+    this.setState('error', error);
+  }
+}
+
+function changesVideoFormat(from: EgressEncoderSettings, to: EgressEncoderSettings): boolean {
+  return from.fps !== to.fps
+    || from.resolution.width !== to.resolution.width
+    || from.resolution.height !== to.resolution.height;
+}
+
+interface EncoderProcess {
+  process: ChildProcessWithoutNullStreams;
+  input: BoundedInput;
+  // Output held back while the encoder it replaces finishes; null once published
+  pending: Buffer[] | null;
+  successor?: EncoderProcess;
+  // Published through a new connection, as its video format differs
+  reconnects?: boolean;
+}
+
+/**
+ * A destination encoded by its own ffmpeg process and published by another
+ * that copies the encoded stream. Retuning swaps the encoder while the
+ * publisher keeps the connection to the destination. FLV announces the
+ * video format only once, so over RTMP a new resolution or frame rate is
+ * published through a new connection.
+ */
+class AdaptiveEgress implements Egress {
+  private publisher: EgressProcess;
+  private encoder: EncoderProcess;
+  private settings: EgressEncoderSettings;
+  private stopping = false;
+  // Dropped by encoders and publishers that were replaced
+  private retiredDroppedBytes = 0;
+
+  constructor(
+    readonly destination: EgressDestination,
+    publisher: ChildProcessWithoutNullStreams,
+    private readonly spawn: SpawnFfmpeg,
+    private readonly report: (status: EgressStatus) => void,
+    private readonly maxQueuedBytes: number
+  ) {
+    this.publisher = this.startPublisher(publisher);
+    this.settings = destination.settings;
+    this.encoder = this.startEncoder(destination.settings, null);
+  }
+
+  write(chunk: Buffer): void {
+    const { input } = this.encoder;
+    if (this.stopping || !input.writable) return;
+    input.write(chunk);
+  }
+
+  skipToCluster(): void {
+    this.encoder.input.skipToResync();
+  }
+
+  /**
+   * Continue with an encoder for the new settings. The current one flushes
+   * what it has before the new one's output is published.
+   */
+  retune(settings: EgressEncoderSettings, header: Buffer[]): void {
+    if (this.stopping) return;
+
+    const previous = this.encoder;
+    this.encoder = this.startEncoder(settings, []);
+    this.encoder.reconnects = this.destination.protocol !== 'srt' && changesVideoFormat(this.settings, settings);
+    this.settings = settings;
+    previous.successor = this.encoder;
+    header.forEach(chunk => this.write(chunk));
+    this.retiredDroppedBytes += previous.input.droppedBytes;
+    previous.input.end();
+  }
+
+  stop(): void {
+    if (this.stopping) return;
+    this.stopping = true;
+
+    // The publisher stops once the encoder has flushed
+    const { process, input } = this.encoder;
+    input.end();
+    const timeout = setTimeout(() => process.kill('SIGKILL'), STOP_TIMEOUT);
+    process.once('close', () => clearTimeout(timeout));
+  }
+
+  private startEncoder(settings: EgressEncoderSettings, pending: Buffer[] | null): EncoderProcess {
+    const process = this.spawn(buildEncoderArgs(settings));
+    const encoder: EncoderProcess = {
+      process,
+      input: new BoundedInput(process.stdin, this.maxQueuedBytes, CLUSTER_ID),
+      pending
+    };
+    let log: string[] = [];
+
+    encoder.process.stdout.on('data', (chunk: Buffer) => {
+      if (encoder.pending) {
+        encoder.pending.push(chunk);
+      } else {
+        this.publisher.write(chunk);
+      }
+    });
+    readLines(encoder.process.stderr, line => {
+      log = [...log, line].slice(-LOG_LINES);
+    });
+    encoder.process.stdin.on('error', () => undefined);
+    encoder.process.on('error', error => this.publisher.fail(error.message));
+    encoder.process.on('close', code => {
+      if (encoder.successor) {
+        this.publish(encoder.successor);
+      } else if (this.stopping) {
+        this.publisher.stop();
+      } else {
+        this.publisher.fail(log.join('\n') || `Encoder exited with code ${code}`);
+      }
+    });
+
+    return encoder;
+  }
+
+  private publish(encoder: EncoderProcess): void {
+    if (encoder.reconnects) {
+      this.reconnectPublisher();
+    }
+    encoder.pending?.forEach(chunk => this.publisher.write(chunk));
+    encoder.pending = null;
+  }
+
+  private startPublisher(process: ChildProcessWithoutNullStreams, replacing = false): EgressProcess {
+    // The encoded MPEG-TS resyncs by itself, so whole chunks are dropped
+    const publisher: EgressProcess = new EgressProcess(this.destination, process, status => {
+      // A replaced publisher disconnects without the studio hearing of it, and
+      // its replacement reports once it is live, so the stream stays live throughout
+      if (publisher !== this.publisher || (replacing && status.state === 'connecting')) return;
+      this.onPublisherStatus(status);
+    }, this.maxQueuedBytes);
+    return publisher;
+  }
+
+  /**
+   * Let the current publisher finish and publish from here on through a new connection
+   */
+  private reconnectPublisher(): void {
+    const previous = this.publisher;
+    this.retiredDroppedBytes += previous.droppedBytes;
+    this.publisher = this.startPublisher(this.spawn(buildPublisherArgs(this.destination)), true);
+    previous.stop();
+  }
+
+  private onPublisherStatus(status: EgressStatus): void {
+    if (status.state === 'error' && !this.stopping) {
+      this.stopping = true;
+      this.encoder.process.kill();
+    }
+
+    this.report(status.stats
+      ? {
+          ...status,
+          stats: {
+            ...status.stats,
+            droppedBytes: this.retiredDroppedBytes + this.encoder.input.droppedBytes + this.publisher.droppedBytes
+          }
+        }
+      : status);
+  }
+}
+
+/**
+ * The program stream of one studio and the destinations it is published to.
+ * The stream header is kept so destinations can join after it was sent.
+ */
+export class EgressSession {
+  private processes = new Map<string, Egress>();
+  private header: Buffer[] = [];
+  private headerComplete = false;
+
+  constructor(
+    private readonly report: (status: EgressStatus) => void,
+    private readonly spawn: SpawnFfmpeg = defaultSpawn,
+    private readonly hls?: HlsOutput,
+    private readonly limits: EgressLimits = DEFAULT_EGRESS_LIMITS
+  ) {}
+
+  get destinationIds(): string[] {
+    return [...this.processes.keys()];
+  }
+
+  /**
+   * Start publishing to a destination, replacing a running process for it
+   */
+  connect(destination: EgressDestination): void {
+    this.disconnect(destination.id);
+
+    const others = [...this.processes.keys()].filter(id => id !== destination.id);
+    if (others.length >= this.limits.maxDestinations) {
+      this.report({
+        destinationId: destination.id,
+        state: 'error',
+        error: `At most ${this.limits.maxDestinations} destinations can be connected at once`
+      });
+      return;
+    }
+
+    const isHls = destination.protocol === 'hls';
+    // HLS is served locally, so there is no connection to adapt to
+    const adaptive = destination.settings.adaptiveBitrate?.enabled === true && !isHls;
+    let args: string[];
+    try {
+      if (isHls) {
+        args = buildHlsArgs(destination, this.openHls(destination));
+      } else {
+        args = adaptive ? buildPublisherArgs(destination) : buildFfmpegArgs(destination);
+      }
+    } catch (error) {
+      this.report({
+        destinationId: destination.id,
+        state: 'error',
+        error: errorMessage(error)
+      });
+      return;
+    }
+
+    const report = (status: EgressStatus) => {
+      // Drop finished processes so the destination can be connected again
+      const finished = status.state === 'error' || status.state === 'stopped';
+      if (finished && this.processes.get(status.destinationId) === egress) {
+        this.processes.delete(status.destinationId);
+      }
+      this.report(status);
+    };
+    const { maxQueuedBytes } = this.limits;
+    const egress: Egress = adaptive
+      ? new AdaptiveEgress(destination, this.spawn(args), this.spawn, report, maxQueuedBytes)
+      : new EgressProcess(destination, this.spawn(args), report, maxQueuedBytes, CLUSTER_ID);
+    this.processes.set(destination.id, egress);
+    this.report({ destinationId: destination.id, state: 'connecting' });
+
+    // Joining mid-stream: ffmpeg gets the header, then the stream from the next
+    // cluster on, so it decodes from a keyframe instead of resyncing on garbage
+    this.header.forEach(chunk => egress.write(chunk));
+    if (this.headerComplete) egress.skipToCluster();
+  }
+
+  disconnect(destinationId: string): void {
+    this.processes.get(destinationId)?.stop();
+  }
+
+  /**
+   * Start serving an HLS destination under its stream key, or its ID without one
+   */
+  private openHls(destination: EgressDestination): string {
+    if (!this.hls) {
+      throw new Error('HLS output is not available on this gateway');
+    }
+    const { hls } = destination.settings;
+    return this.hls.open(destination.streamKey || destination.id, hls ?? DEFAULT_HLS_OPTIONS, hls?.linkToken ?? '');
+  }
+
+  /**
+   * Encode a destination with new settings without reconnecting it. Only
+   * destinations connected with adaptive bitrate can be retuned.
+   */
+  retune(destinationId: string, settings: EgressEncoderSettings): boolean {
+    const egress = this.processes.get(destinationId);
+    if (!(egress instanceof AdaptiveEgress)) return false;
+
+    egress.retune(settings, this.header);
+    if (this.headerComplete) egress.skipToCluster();
+    return true;
+  }
+
+  write(chunk: Buffer): void {
+    if (!this.headerComplete) {
+      const clusterStart = chunk.indexOf(CLUSTER_ID);
+      this.header.push(clusterStart < 0 ? chunk : chunk.subarray(0, clusterStart));
+      this.headerComplete = clusterStart >= 0;
+    }
+
+    this.processes.forEach(egress => egress.write(chunk));
+  }
+
+  stop(): void {
+    this.processes.forEach(egress => egress.stop());
+  }
+}
+
+export class EgressService {
+  private io: Server;
+  private sessions = new Map<string, EgressSession>();
+
+  constructor(
+    io: Server,
+    private readonly hls?: HlsOutput,
+    private readonly spawn: SpawnFfmpeg = defaultSpawn,
+    private readonly limits: EgressLimits = DEFAULT_EGRESS_LIMITS
+  ) {
+    this.io = io;
+    this.setupSocketListeners();
+  }
+
+  private setupSocketListeners() {
+    this.io.on('connection', (socket: Socket) => {
+      // A new program stream; destinations connected before are stopped
+      socket.on('egress:start', () => {
+        this.stopSession(socket.id);
+        if (this.sessions.size >= this.limits.maxSessions) {
+          console.warn(`Egress ${socket.id}: refused, ${this.sessions.size} streams running`);
+          socket.emit('egress:refused', { error: TOO_MANY_STREAMS });
+          return;
+        }
+        this.sessions.set(socket.id, this.createSession(socket));
+      });
+
+      socket.on('egress:connect', (payload: unknown) => {
+        this.handle(socket, payload, () => {
+          const destination = parseDestination(payload);
+          const session = this.sessions.get(socket.id);
+          if (!session) {
+            throw new Error(this.sessions.size >= this.limits.maxSessions ? TOO_MANY_STREAMS : 'Stream has not been started');
+          }
+          console.log(`Egress ${socket.id}: connecting ${destination.name} via ${destination.protocol}`);
+          session.connect(destination);
+        });
+      });
+
+      socket.on('egress:disconnect', (destinationId: unknown) => {
+        if (typeof destinationId === 'string') {
+          this.sessions.get(socket.id)?.disconnect(destinationId);
+        }
+      });
+
+      socket.on('egress:retune', (payload: unknown) => {
+        this.handle(socket, payload, () => {
+          const destinationId = destinationIdOf(payload);
+          const settings = parseEncoderSettings(isPayload(payload) ? payload['settings'] : undefined);
+          if (!this.sessions.get(socket.id)?.retune(destinationId, settings)) {
+            console.warn(`Egress ${socket.id}: ${destinationId} cannot be retuned`);
+          }
+        });
+      });
+
+      // Acknowledged so the studio can measure upload throughput and backlog
+      socket.on('egress:chunk', (chunk: Buffer | ArrayBuffer, ack?: () => void) => {
+        this.sessions.get(socket.id)?.write(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+        ack?.();
+      });
+
+      socket.on('egress:stop', () => this.stopSession(socket.id));
+      socket.on('disconnect', () => this.stopSession(socket.id));
+    });
+  }
+
+  /**
+   * Run a handler for a studio request, reporting what goes wrong to the
+   * studio instead of letting it escape the socket
+   */
+  private handle(socket: Socket, payload: unknown, handler: () => void): void {
+    try {
+      handler();
+    } catch (error) {
+      socket.emit('egress:status', {
+        destinationId: destinationIdOf(payload),
+        state: 'error',
+        error: errorMessage(error)
+      } satisfies EgressStatus);
+    }
+  }
+
+  private createSession(socket: Socket): EgressSession {
+    return new EgressSession(status => {
+      if (status.state === 'error') {
+        console.error(`Egress ${socket.id}: ${status.destinationId} failed: ${status.error}`);
+      }
+      socket.emit('egress:status', status);
+    }, this.spawn, this.hls, this.limits);
+  }
+
+  private stopSession(socketId: string) {
+    this.sessions.get(socketId)?.stop();
+    this.sessions.delete(socketId);
+  }
+}
+
+function defaultSpawn(args: string[]): ChildProcessWithoutNullStreams {
+  return spawnProcess(process.env.FFMPEG_PATH || 'ffmpeg', args, { stdio: 'pipe' });
+}
+
+function readLines(stream: NodeJS.ReadableStream, onLine: (line: string) => void): void {
+  let buffered = '';
+  stream.on('data', (data: Buffer | string) => {
+    const lines = (buffered + data.toString()).split(/\r?\n/);
+    buffered = lines.pop() ?? '';
+    lines.filter(line => line.trim()).forEach(onLine);
+  });
+}
@@ -0,0 +1,249 @@
+import express from 'express';
+import { createServer, Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import { HlsService, HlsStream, parseHlsPlaylist } from './hls.service';
+
+const TOKEN = 'link-token-0123456789';
+
+describe('parseHlsPlaylist', () => {
+  it('should read the entries and the end of the list', () => {
+    expect(parseHlsPlaylist([
+      '#EXTM3U',
+      '#EXT-X-MAP:URI="init.mp4"',
+      '#EXTINF:2.000000,',
+      'index0.m4s',
+      '#EXTINF:1.966667,',
+      'index1.m4s',
+      '#EXT-X-ENDLIST'
+    ].join('\n'))).toEqual({
+      entries: [{ uri: 'index0.m4s', duration: 2 }, { uri: 'index1.m4s', duration: 1.966667 }],
+      ended: true
+    });
+  });
+});
+
+describe('HlsStream', () => {
+  const chunk = (value: number) => Buffer.from([value]);
+
+  it('should list each chunk as a segment', () => {
+    const stream = new HlsStream({ lowLatency: false, segmentDuration: 2 });
+    stream.setInit(Buffer.from('init'));
+    stream.addChunk(2, chunk(0));
+    stream.addChunk(2.5, chunk(1));
+
+    expect(stream.playlist()).toBe([
+      '#EXTM3U',
+      '#EXT-X-VERSION:7',
+      '#EXT-X-TARGETDURATION:3',
+      '#EXT-X-MEDIA-SEQUENCE:0',
+      '#EXT-X-INDEPENDENT-SEGMENTS',
+      '#EXT-X-MAP:URI="init.mp4"',
+      '#EXTINF:2.000,',
+      'segment0.m4s',
+      '#EXTINF:2.500,',
+      'segment1.m4s',
+      ''
+    ].join('\n'));
+    expect(stream.getSegment(1)).toEqual(chunk(1));
+  });
+
+  it('should build low-latency segments from parts', () => {
+    const stream = new HlsStream({ lowLatency: true, segmentDuration: 1 });
+    [0, 1, 2].forEach(i => stream.addChunk(0.5, chunk(i)));
+
+    expect(stream.playlist()).toBe([
+      '#EXTM3U',
+      '#EXT-X-VERSION:9',
+      '#EXT-X-TARGETDURATION:1',
+      '#EXT-X-MEDIA-SEQUENCE:0',
+      '#EXT-X-INDEPENDENT-SEGMENTS',
+      '#EXT-X-SERVER-CONTROL:CAN-BLOCK-RELOAD=YES,PART-HOLD-BACK=1.500',
+      '#EXT-X-PART-INF:PART-TARGET=0.500',
+      '#EXT-X-MAP:URI="init.mp4"',
+      '#EXT-X-PART:DURATION=0.500,URI="part0.0.m4s",INDEPENDENT=YES',
+      '#EXT-X-PART:DURATION=0.500,URI="part0.1.m4s",INDEPENDENT=YES',
+      '#EXTINF:1.000,',
+      'segment0.m4s',
+      '#EXT-X-PART:DURATION=0.500,URI="part1.0.m4s",INDEPENDENT=YES',
+      '#EXT-X-PRELOAD-HINT:TYPE=PART,URI="part1.1.m4s"',
+      ''
+    ].join('\n'));
+    expect(stream.getSegment(0)).toEqual(Buffer.from([0, 1]));
+    expect(stream.getSegment(1)).toBeNull();
+    expect(stream.getPart(1, 0)).toEqual(chunk(2));
+  });
+
+  it('should drop old segments from the playlist', () => {
+    const stream = new HlsStream({ lowLatency: false, segmentDuration: 2 });
+    for (let i = 0; i < 20; i++) {
+      stream.addChunk(2, chunk(i));
+    }
+
+    expect(stream.playlist()).toContain('#EXT-X-MEDIA-SEQUENCE:14');
+    expect(stream.getSegment(9)).toBeNull();
+    expect(stream.getSegment(10)).toEqual(chunk(10));
+  });
+
+  it('should end the playlist, completing the open segment', () => {
+    const stream = new HlsStream({ lowLatency: true, segmentDuration: 2 });
+    stream.addChunk(0.5, chunk(0));
+    stream.end();
+
+    expect(stream.playlist()).toContain('#EXTINF:0.500,\nsegment0.m4s\n#EXT-X-ENDLIST\n');
+  });
+});
+
+describe('HlsService', () => {
+  let httpServer: HttpServer;
+  let baseUrl: string;
+  let hls: HlsService;
+
+  // What ffmpeg's HLS muxer uploads: the init segment, then each chunk followed
+  // by the playlist. Continues from a chunk when given.
+  const upload = async (
+    playlistUrl: string,
+    chunks: { uri: string; duration: number; data: Buffer }[],
+    { from = 0, ended = false } = {}
+  ) => {
+    const dir = playlistUrl.slice(0, playlistUrl.lastIndexOf('/'));
+    if (from === 0) {
+      await fetch(`${dir}/init.mp4`, { method: 'PUT', body: 'init' });
+    }
+    for (const [i, chunk] of chunks.entries()) {
+      if (i < from) continue;
+      await fetch(`${dir}/${chunk.uri}`, { method: 'PUT', body: new Uint8Array(chunk.data) });
+      const playlist = ['#EXTM3U', '#EXT-X-MAP:URI="init.mp4"'];
+      chunks.slice(0, i + 1).forEach(c => playlist.push(`#EXTINF:${c.duration},`, c.uri));
+      if (ended && i === chunks.length - 1) playlist.push('#EXT-X-ENDLIST');
+      await fetch(playlistUrl, { method: 'PUT', body: playlist.join('\n') });
+    }
+  };
+
+  const chunks = (count: number, duration: number) =>
+    Array.from({ length: count }, (_, i) => ({ uri: `index${i}.m4s`, duration, data: Buffer.from([i]) }));
+
+  // Streams that time out quickly, served next to the others
+  let quick: HlsService;
+  let quickUrl: string;
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  beforeEach(async () => {
+    const app = express();
+    httpServer = createServer(app);
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/api/hls`;
+    hls = new HlsService(baseUrl);
+    app.use('/api/hls', hls.router);
+    quickUrl = baseUrl.replace('/api/hls', '/api/quick');
+    quick = new HlsService(quickUrl, 400, 100);
+    app.use('/api/quick', quick.router);
+  });
+
+  afterEach(async () => {
+    httpServer.closeAllConnections();
+    await new Promise(resolve => httpServer.close(resolve));
+  });
+
+  it('should serve the stream ffmpeg uploads', async () => {
+    await upload(hls.open('lobby', { lowLatency: false, segmentDuration: 2 }, TOKEN), chunks(2, 2));
+
+    const playlist = await fetch(`${baseUrl}/lobby/${TOKEN}/index.m3u8`);
+    expect(playlist.status).toBe(200);
+    expect(playlist.headers.get('content-type')).toContain('application/vnd.apple.mpegurl');
+    expect(await playlist.text()).toContain('#EXTINF:2.000,\nsegment0.m4s\n#EXTINF:2.000,\nsegment1.m4s\n');
+
+    const init = await fetch(`${baseUrl}/lobby/${TOKEN}/init.mp4`);
+    expect(Buffer.from(await init.arrayBuffer()).toString()).toBe('init');
+    const segment = await fetch(`${baseUrl}/lobby/${TOKEN}/segment1.m4s`);
+    expect(Buffer.from(await segment.arrayBuffer())).toEqual(Buffer.from([1]));
+  });
+
+  it('should not serve streams that have not started', async () => {
+    hls.open('lobby', { lowLatency: false, segmentDuration: 2 }, TOKEN);
+
+    expect((await fetch(`${baseUrl}/lobby/${TOKEN}/index.m3u8`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/missing/${TOKEN}/index.m3u8`)).status).toBe(404);
+  });
+
+  it('should only accept uploads to the ingest URL of a running stream', async () => {
+    const first = hls.open('lobby', { lowLatency: false, segmentDuration: 2 }, TOKEN);
+    hls.open('lobby', { lowLatency: false, segmentDuration: 2 }, TOKEN);
+
+    expect((await fetch(first, { method: 'PUT', body: '#EXTM3U' })).status).toBe(404);
+    expect((await fetch(`${baseUrl}/ingest/guess/index.m3u8`, { method: 'PUT', body: '#EXTM3U' })).status).toBe(404);
+  });
+
+  it('should reject stream names that are not URL safe', () => {
+    expect(() => hls.open('../lobby', { lowLatency: false, segmentDuration: 2 }, TOKEN)).toThrow('HLS stream name');
+  });
+
+  it('should only serve players with the link token', async () => {
+    await upload(hls.open('lobby', { lowLatency: false, segmentDuration: 2 }, TOKEN), chunks(1, 2));
+
+    expect((await fetch(`${baseUrl}/lobby/index.m3u8`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/lobby/link-token-guessed!!/index.m3u8`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/lobby/link-token-012345678/segment0.m4s`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/lobby/${TOKEN}/segment0.m4s`)).status).toBe(200);
+  });
+
+  it('should reject link tokens that are too short to be secret', () => {
+    expect(() => hls.open('lobby', { lowLatency: false, segmentDuration: 2 }, '')).toThrow('HLS link token');
+    expect(() => hls.open('lobby', { lowLatency: false, segmentDuration: 2 }, 'short')).toThrow('HLS link token');
+  });
+
+  it('should hold a blocking playlist reload until the part arrives', async () => {
+    const playlistUrl = hls.open('preview', { lowLatency: true, segmentDuration: 1 }, TOKEN);
+    const parts = chunks(3, 0.5);
+    await upload(playlistUrl, parts.slice(0, 2));
+
+    const reload = fetch(`${baseUrl}/preview/${TOKEN}/index.m3u8?_HLS_msn=1&_HLS_part=0`).then(response => response.text());
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await upload(playlistUrl, parts, { from: 2 });
+
+    expect(await reload).toContain('URI="part1.0.m4s"');
+    const part = await fetch(`${baseUrl}/preview/${TOKEN}/part1.0.m4s`);
+    expect(Buffer.from(await part.arrayBuffer())).toEqual(Buffer.from([2]));
+  });
+
+  it('should refuse reloads too far ahead of the stream', async () => {
+    await upload(hls.open('preview', { lowLatency: true, segmentDuration: 1 }, TOKEN), chunks(2, 0.5));
+
+    expect((await fetch(`${baseUrl}/preview/${TOKEN}/index.m3u8?_HLS_msn=5`)).status).toBe(400);
+  });
+
+  it('should end the playlist when ffmpeg finishes', async () => {
+    await upload(hls.open('lobby', { lowLatency: false, segmentDuration: 2 }, TOKEN), chunks(1, 2), { ended: true });
+
+    expect(await (await fetch(`${baseUrl}/lobby/${TOKEN}/index.m3u8`)).text()).toContain('#EXT-X-ENDLIST');
+  });
+
+  it('should stop serving a stream a while after it ended', async () => {
+    await upload(quick.open('lobby', { lowLatency: false, segmentDuration: 2 }, TOKEN), chunks(1, 2), { ended: true });
+    expect(quick.getStream('lobby')).toBeDefined();
+
+    await wait(200);
+    expect(quick.getStream('lobby')).toBeUndefined();
+    expect((await fetch(`${quickUrl}/lobby/${TOKEN}/index.m3u8`)).status).toBe(404);
+  });
+
+  it('should end a stream ffmpeg stopped uploading to', async () => {
+    const playlistUrl = quick.open('lobby', { lowLatency: false, segmentDuration: 2 }, TOKEN);
+    await upload(playlistUrl, chunks(1, 2));
+
+    await wait(450);
+    expect(quick.getStream('lobby')?.playlist()).toContain('#EXT-X-ENDLIST');
+    expect((await fetch(playlistUrl, { method: 'PUT', body: '#EXTM3U' })).status).toBe(404);
+
+    await wait(200);
+    expect(quick.getStream('lobby')).toBeUndefined();
+  });
+
+  it('should keep a stream that replaced an ended one', async () => {
+    await upload(quick.open('lobby', { lowLatency: false, segmentDuration: 2 }, TOKEN), chunks(1, 2), { ended: true });
+    const playlistUrl = quick.open('lobby', { lowLatency: false, segmentDuration: 2 }, TOKEN);
+    await upload(playlistUrl, chunks(1, 2));
+
+    await wait(150);
+    expect(quick.getStream('lobby')?.playlist()).not.toContain('#EXT-X-ENDLIST');
+  });
+});
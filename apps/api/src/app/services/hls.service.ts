@@ -0,0 +1,453 @@
+/**
+ * HLS Service
+ * Serves the program output as HLS, optionally low-latency HLS with parts
+ * and blocking playlist reload. The egress gateway encodes each HLS
+ * destination with ffmpeg, which PUTs its fMP4 output to a private ingest
+ * URL; the chunks are kept in memory and served under the stream name and
+ * the link token the studio chose for it, so only those given the link can
+ * watch. A stream is dropped a while after ffmpeg ends it or stops uploading.
+ *
+ *   GET /api/hls/:stream/:token/index.m3u8       Media playlist (_HLS_msn/_HLS_part to block)
+ *   GET /api/hls/:stream/:token/init.mp4         Initialization segment
+ *   GET /api/hls/:stream/:token/segment<n>.m4s   Media segment
+ *   GET /api/hls/:stream/:token/part<n>.<i>.m4s  Part of a media segment (low latency)
+ */
+
+import express, { Request, Response, Router } from 'express';
+import { randomUUID, timingSafeEqual } from 'crypto';
+
+export interface HlsOptions {
+  lowLatency: boolean;
+  segmentDuration: number; // seconds
+}
+
+interface HlsPart {
+  duration: number;
+  data: Buffer;
+}
+
+interface HlsSegment {
+  sequence: number;
+  parts: HlsPart[];
+  duration: number;
+  complete: boolean;
+}
+
+// Duration ffmpeg cuts chunks at for low latency; every chunk is a part
+export const HLS_PART_DURATION = 0.5;
+
+export const DEFAULT_HLS_OPTIONS: HlsOptions = { lowLatency: false, segmentDuration: 2 };
+
+// Segments listed in the playlist, and kept after they drop out of it for
+// players still fetching them
+const PLAYLIST_SEGMENTS = 6;
+const KEPT_SEGMENTS = 10;
+// Recent segments whose parts are listed in low-latency playlists
+const PART_SEGMENTS = 3;
+// Chunks ffmpeg uploaded that its playlist has not listed yet
+const MAX_PENDING_CHUNKS = 20;
+
+// Uploads stop this long before a stream counts as ended
+const INGEST_TIMEOUT = 30000;
+// Ended streams stay available this long for players to finish
+const ENDED_STREAM_TIMEOUT = 60000;
+
+const STREAM_NAME = /^[A-Za-z0-9_-]+$/;
+const LINK_TOKEN = /^[A-Za-z0-9_-]{16,128}$/;
+const SEGMENT_FILE = /^segment(\d+)\.m4s$/;
+const PART_FILE = /^part(\d+)\.(\d+)\.m4s$/;
+
+/**
+ * Entries of an HLS media playlist, in order, and whether it has ended
+ */
+export function parseHlsPlaylist(playlist: string): { entries: { uri: string; duration: number }[]; ended: boolean } {
+  const entries: { uri: string; duration: number }[] = [];
+  let duration: number | null = null;
+  let ended = false;
+
+  playlist.split(/\r?\n/).map(line => line.trim()).forEach(line => {
+    if (line.startsWith('#EXTINF:')) {
+      duration = parseFloat(line.slice('#EXTINF:'.length));
+    } else if (line === '#EXT-X-ENDLIST') {
+      ended = true;
+    } else if (line && !line.startsWith('#') && duration !== null) {
+      entries.push({ uri: line, duration });
+      duration = null;
+    }
+  });
+
+  return { entries, ended };
+}
+
+/**
+ * The segments of one stream and its playlist
+ */
+export class HlsStream {
+  private init: Buffer | null = null;
+  private segments: HlsSegment[] = [];
+  private nextSequence = 0;
+  private ended = false;
+  private waiters = new Set<() => void>();
+
+  constructor(readonly options: HlsOptions) {}
+
+  get started(): boolean {
+    return this.init !== null && this.segments.some(segment => segment.parts.length > 0);
+  }
+
+  setInit(data: Buffer): void {
+    this.init = data;
+  }
+
+  getInit(): Buffer | null {
+    return this.init;
+  }
+
+  /**
+   * Add a chunk encoded by ffmpeg: a segment, or with low latency a part
+   * that segments are built from
+   */
+  addChunk(duration: number, data: Buffer): void {
+    if (this.ended) return;
+
+    let segment = this.segments[this.segments.length - 1];
+    if (!segment || segment.complete) {
+      segment = { sequence: this.nextSequence++, parts: [], duration: 0, complete: false };
+      this.segments.push(segment);
+    }
+    segment.parts.push({ duration, data });
+    segment.duration += duration;
+    // Parts are rounded to frames, so allow a little short of the target
+    segment.complete = !this.options.lowLatency || segment.duration >= this.options.segmentDuration - 0.05;
+
+    const complete = this.segments.filter(s => s.complete);
+    if (complete.length > KEPT_SEGMENTS) {
+      this.segments = this.segments.filter(s => s.sequence > complete[complete.length - KEPT_SEGMENTS - 1].sequence);
+    }
+    this.notify();
+  }
+
+  /**
+   * End the stream; the playlist is final from here on
+   */
+  end(): void {
+    const last = this.segments[this.segments.length - 1];
+    if (last && !last.complete) {
+      last.complete = true;
+    }
+    this.ended = true;
+    this.notify();
+  }
+
+  getSegment(sequence: number): Buffer | null {
+    const segment = this.segments.find(s => s.sequence === sequence && s.complete);
+    return segment ? Buffer.concat(segment.parts.map(part => part.data)) : null;
+  }
+
+  getPart(sequence: number, index: number): Buffer | null {
+    return this.segments.find(s => s.sequence === sequence)?.parts[index]?.data ?? null;
+  }
+
+  /**
+   * Whether a segment, or a part of it, is available. An ended stream has
+   * everything it will ever have.
+   */
+  has(sequence: number, part?: number): boolean {
+    if (this.ended) return true;
+
+    const segment = this.segments.find(s => s.sequence === sequence);
+    if (!segment) return sequence < (this.segments[0]?.sequence ?? 0);
+    return part === undefined ? segment.complete : segment.parts.length > part || segment.complete;
+  }
+
+  /**
+   * Sequence number of the newest segment, complete or not
+   */
+  get lastSequence(): number {
+    return this.nextSequence - 1;
+  }
+
+  /**
+   * Resolve once a segment or part is available, or false after the timeout
+   */
+  waitFor(sequence: number, part: number | undefined, timeout: number): Promise<boolean> {
+    if (this.has(sequence, part)) return Promise.resolve(true);
+
+    return new Promise(resolve => {
+      const check = () => {
+        if (!this.has(sequence, part)) return;
+        clearTimeout(timer);
+        this.waiters.delete(check);
+        resolve(true);
+      };
+      const timer = setTimeout(() => {
+        this.waiters.delete(check);
+        resolve(false);
+      }, timeout);
+      this.waiters.add(check);
+    });
+  }
+
+  get targetDuration(): number {
+    const durations = this.segments.filter(s => s.complete).map(s => s.duration);
+    return Math.ceil(Math.max(this.options.segmentDuration, ...durations));
+  }
+
+  playlist(): string {
+    const { lowLatency } = this.options;
+    const segments = this.visibleSegments();
+    const partTarget = Math.max(HLS_PART_DURATION, ...segments.flatMap(s => s.parts.map(part => part.duration)));
+    const lines = [
+      '#EXTM3U',
+      `#EXT-X-VERSION:${lowLatency ? 9 : 7}`,
+      `#EXT-X-TARGETDURATION:${this.targetDuration}`,
+      `#EXT-X-MEDIA-SEQUENCE:${segments[0]?.sequence ?? 0}`,
+      '#EXT-X-INDEPENDENT-SEGMENTS'
+    ];
+    if (lowLatency) {
+      lines.push(
+        `#EXT-X-SERVER-CONTROL:CAN-BLOCK-RELOAD=YES,PART-HOLD-BACK=${(partTarget * 3).toFixed(3)}`,
+        `#EXT-X-PART-INF:PART-TARGET=${partTarget.toFixed(3)}`
+      );
+    }
+    lines.push('#EXT-X-MAP:URI="init.mp4"');
+
+    const partsFrom = segments.length - PART_SEGMENTS;
+    segments.forEach((segment, i) => {
+      if (lowLatency && i >= partsFrom) {
+        segment.parts.forEach((part, index) => {
+          lines.push(`#EXT-X-PART:DURATION=${part.duration.toFixed(3)},URI="part${segment.sequence}.${index}.m4s",INDEPENDENT=YES`);
+        });
+      }
+      if (segment.complete) {
+        lines.push(`#EXTINF:${segment.duration.toFixed(3)},`, `segment${segment.sequence}.m4s`);
+      }
+    });
+
+    if (this.ended) {
+      lines.push('#EXT-X-ENDLIST');
+    } else if (lowLatency) {
+      const next = this.nextPart();
+      lines.push(`#EXT-X-PRELOAD-HINT:TYPE=PART,URI="part${next.sequence}.${next.index}.m4s"`);
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * The part ffmpeg uploads next
+   */
+  nextPart(): { sequence: number; index: number } {
+    const last = this.segments[this.segments.length - 1];
+    return last && !last.complete
+      ? { sequence: last.sequence, index: last.parts.length }
+      : { sequence: this.nextSequence, index: 0 };
+  }
+
+  private visibleSegments(): HlsSegment[] {
+    const complete = this.segments.filter(s => s.complete);
+    const first = complete[Math.max(0, complete.length - PLAYLIST_SEGMENTS)]?.sequence ?? 0;
+    return this.segments.filter(s => s.sequence >= first);
+  }
+
+  private notify(): void {
+    [...this.waiters].forEach(check => check());
+  }
+}
+
+interface HlsIngest {
+  name: string;
+  stream: HlsStream;
+  // Chunks uploaded by ffmpeg, by file name, until its playlist lists them
+  pending: Map<string, Buffer>;
+  added: Set<string>;
+  timeout?: NodeJS.Timeout;
+}
+
+interface ServedStream {
+  stream: HlsStream;
+  linkToken: Buffer;
+}
+
+export class HlsService {
+  readonly router = Router();
+  private streams = new Map<string, ServedStream>();
+  private ingests = new Map<string, HlsIngest>();
+
+  /**
+   * @param ingestBaseUrl where this router is reachable for ffmpeg, e.g. http://127.0.0.1:3333/api/hls
+   */
+  constructor(
+    private readonly ingestBaseUrl: string,
+    private readonly ingestTimeout = INGEST_TIMEOUT,
+    private readonly endedStreamTimeout = ENDED_STREAM_TIMEOUT
+  ) {
+    this.setupRoutes();
+  }
+
+  /**
+   * Start a stream under a name, replacing one that had it, for players with
+   * its link token. Returns the playlist URL ffmpeg uploads the stream to.
+   */
+  open(name: string, options: HlsOptions, linkToken: string): string {
+    if (!STREAM_NAME.test(name)) {
+      throw new Error('HLS stream name may only contain letters, digits, - and _');
+    }
+    if (!LINK_TOKEN.test(linkToken)) {
+      throw new Error('HLS link token must be 16 to 128 letters, digits, - and _');
+    }
+
+    [...this.ingests].filter(([, ingest]) => ingest.name === name).forEach(([token, ingest]) => {
+      clearTimeout(ingest.timeout);
+      this.ingests.delete(token);
+    });
+    const stream = new HlsStream(options);
+    this.streams.set(name, { stream, linkToken: Buffer.from(linkToken) });
+
+    const token = randomUUID();
+    const ingest: HlsIngest = { name, stream, pending: new Map(), added: new Set() };
+    this.ingests.set(token, ingest);
+    this.keepAlive(token, ingest);
+    console.log(`HLS: serving ${name}${options.lowLatency ? ' with low latency' : ''}`);
+    return `${this.ingestBaseUrl}/ingest/${token}/index.m3u8`;
+  }
+
+  getStream(name: string): HlsStream | undefined {
+    return this.streams.get(name)?.stream;
+  }
+
+  /**
+   * End the stream of an ingest if ffmpeg stops uploading to it
+   */
+  private keepAlive(token: string, ingest: HlsIngest): void {
+    clearTimeout(ingest.timeout);
+    ingest.timeout = setTimeout(() => this.finish(token, ingest), this.ingestTimeout);
+    ingest.timeout.unref();
+  }
+
+  /**
+   * Stop taking uploads for a stream, and stop serving it once players had
+   * time to finish it
+   */
+  private finish(token: string, ingest: HlsIngest): void {
+    clearTimeout(ingest.timeout);
+    this.ingests.delete(token);
+    ingest.stream.end();
+
+    setTimeout(() => {
+      if (this.streams.get(ingest.name)?.stream === ingest.stream) {
+        this.streams.delete(ingest.name);
+        console.log(`HLS: stopped serving ${ingest.name}`);
+      }
+    }, this.endedStreamTimeout).unref();
+  }
+
+  /**
+   * The stream a player asked for, if it gave the right link token
+   */
+  private findStream(req: Request): HlsStream | undefined {
+    const served = this.streams.get(req.params.name);
+    const given = Buffer.from(req.params.token);
+    if (!served || given.length !== served.linkToken.length || !timingSafeEqual(given, served.linkToken)) {
+      return undefined;
+    }
+    return served.stream;
+  }
+
+  private setupRoutes() {
+    // Uploads from ffmpeg; the token keeps anyone else from writing streams
+    this.router.put(
+      '/ingest/:token/:file',
+      express.raw({ type: () => true, limit: '50mb' }),
+      (req: Request, res: Response) => {
+        const ingest = this.ingests.get(req.params.token);
+        if (!ingest) {
+          return res.sendStatus(404);
+        }
+        this.keepAlive(req.params.token, ingest);
+        this.ingest(req.params.token, ingest, req.params.file, Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0));
+        res.sendStatus(201);
+      }
+    );
+
+    this.router.get('/:name/:token/index.m3u8', (req: Request, res: Response) => this.sendPlaylist(req, res));
+
+    this.router.get('/:name/:token/:file', (req: Request, res: Response) => this.sendMedia(req, res));
+  }
+
+  private ingest(token: string, ingest: HlsIngest, file: string, data: Buffer): void {
+    if (file === 'init.mp4') {
+      ingest.stream.setInit(data);
+      return;
+    }
+    if (!file.endsWith('.m3u8')) {
+      ingest.pending.set(file, data);
+      if (ingest.pending.size > MAX_PENDING_CHUNKS) {
+        ingest.pending.delete(ingest.pending.keys().next().value as string);
+      }
+      return;
+    }
+
+    // The playlist follows each chunk and gives its duration
+    const { entries, ended } = parseHlsPlaylist(data.toString());
+    entries.forEach(({ uri, duration }) => {
+      const chunk = ingest.pending.get(uri);
+      if (ingest.added.has(uri) || !chunk) return;
+      ingest.pending.delete(uri);
+      ingest.stream.addChunk(duration, chunk);
+    });
+    ingest.added = new Set(entries.map(entry => entry.uri));
+    if (ended) {
+      this.finish(token, ingest);
+    }
+  }
+
+  private async sendPlaylist(req: Request, res: Response) {
+    const stream = this.findStream(req);
+    if (!stream || !stream.started) {
+      return res.status(404).send('Stream has not started');
+    }
+
+    // Blocking playlist reload: answer once the requested segment or part exists
+    const msn = req.query['_HLS_msn'] !== undefined ? Number(req.query['_HLS_msn']) : undefined;
+    const part = req.query['_HLS_part'] !== undefined ? Number(req.query['_HLS_part']) : undefined;
+    if (msn !== undefined && stream.options.lowLatency) {
+      if (!Number.isInteger(msn) || (part !== undefined && !Number.isInteger(part)) || msn > stream.lastSequence + 2) {
+        return res.status(400).send('Invalid _HLS_msn or _HLS_part');
+      }
+      if (!(await stream.waitFor(msn, part, stream.targetDuration * 3000))) {
+        return res.status(503).send('Segment did not become available');
+      }
+    }
+
+    res
+      .set({ 'Content-Type': 'application/vnd.apple.mpegurl', 'Cache-Control': 'no-cache' })
+      .send(stream.playlist());
+  }
+
+  private async sendMedia(req: Request, res: Response) {
+    const stream = this.findStream(req);
+    const { file } = req.params;
+    let data: Buffer | null = null;
+
+    if (stream && file === 'init.mp4') {
+      data = stream.getInit();
+    } else if (stream && SEGMENT_FILE.test(file)) {
+      data = stream.getSegment(Number((SEGMENT_FILE.exec(file) ?? [])[1]));
+    } else if (stream && PART_FILE.test(file)) {
+      const [sequence, index] = (PART_FILE.exec(file) ?? []).slice(1).map(Number);
+      // The preload hint is requested before it exists; hold it until it does
+      const next = stream.nextPart();
+      if (next.sequence === sequence && next.index === index) {
+        await stream.waitFor(sequence, index, stream.targetDuration * 3000);
+      }
+      data = stream.getPart(sequence, index);
+    }
+
+    if (!data) {
+      return res.sendStatus(404);
+    }
+    res
+      .set({ 'Content-Type': file.endsWith('.mp4') ? 'video/mp4' : 'video/iso.segment', 'Cache-Control': 'max-age=60' })
+      .send(data);
+  }
+}
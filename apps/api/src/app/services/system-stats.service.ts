@@ -0,0 +1,52 @@
+import * as si from 'systeminformation';
+import { Server } from 'socket.io';
+
+/**
+ * System Stats Service
+ * Broadcasts host CPU and memory usage to connected studios
+ */
+
+export interface SystemStats {
+  cpuUsage: number; // percentage
+  memoryUsed: number; // MB
+  memoryTotal: number; // MB
+  timestamp: number;
+}
+
+export class SystemStatsService {
+  private io: Server;
+  private checkInterval: NodeJS.Timeout | null = null;
+
+  constructor(io: Server) {
+    this.io = io;
+    this.startMonitoring();
+  }
+
+  private startMonitoring() {
+    // Check every second, only while a studio is connected
+    this.checkInterval = setInterval(async () => {
+      if (this.io.engine.clientsCount === 0) return;
+      await this.emitStats();
+    }, 1000);
+  }
+
+  private async emitStats() {
+    try {
+      this.io.emit('system:stats', await this.getStats());
+    } catch (error) {
+      console.error('Error reading system stats:', error);
+    }
+  }
+
+  public async getStats(): Promise<SystemStats> {
+    const [load, mem] = await Promise.all([si.currentLoad(), si.mem()]);
+
+    return {
+      cpuUsage: load.currentLoad,
+      // "active" excludes buffers and cache the OS can reclaim
+      memoryUsed: mem.active / 1024 / 1024,
+      memoryTotal: mem.total / 1024 / 1024,
+      timestamp: Date.now()
+    };
+  }
+}
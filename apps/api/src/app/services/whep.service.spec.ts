@@ -0,0 +1,198 @@
+import express from 'express';
+import { createServer, Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import { Server } from 'socket.io';
+import { io as connect, Socket as ClientSocket } from 'socket.io-client';
+import { authenticateSocket } from '../routes/auth.routes';
+import { WhepAnswer, WhepOffer, WhepService, WhepShareResult } from './whep.service';
+
+const OFFER = 'v=0\r\no=- 1 2 IN IP4 127.0.0.1\r\ns=viewer\r\n';
+const ANSWER = 'v=0\r\no=- 3 4 IN IP4 127.0.0.1\r\ns=studio\r\n';
+const TOKEN = 'studio-token';
+const VIEWER_TOKEN = 'viewer-token';
+
+// Let socket.io messages arrive
+const settle = () => new Promise(resolve => setTimeout(resolve, 50));
+
+describe('WhepService', () => {
+  let httpServer: HttpServer;
+  let io: Server;
+  let baseUrl: string;
+  let studio: ClientSocket;
+  let closed: string[];
+
+  // The studio side of the loopback: answers every offer it is sent
+  const shareFeed = async (answer: (offer: WhepOffer) => WhepAnswer | null = () => ({ sdp: ANSWER })) => {
+    studio = connect(baseUrl, { transports: ['websocket'], auth: { token: TOKEN } });
+    studio.on('whep:offer', (offer: WhepOffer, ack: (answer: WhepAnswer) => void) => {
+      const reply = answer(offer);
+      if (reply) ack(reply);
+    });
+    studio.on('whep:close', (sessionId: string) => closed.push(sessionId));
+    await new Promise<void>(resolve => studio.on('connect', () => resolve()));
+    studio.emit('whep:share');
+    await settle();
+  };
+
+  const postOffer = (sdp = OFFER, authorization = `Bearer ${VIEWER_TOKEN}`) =>
+    fetch(`${baseUrl}/api/whep`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/sdp', Authorization: authorization },
+      body: sdp
+    });
+
+  beforeEach(async () => {
+    const app = express();
+    httpServer = createServer(app);
+    io = new Server(httpServer);
+    io.use(authenticateSocket(TOKEN));
+    const whep = new WhepService(io, 200, { maxViewers: 2, offersPerMinute: 3 }, VIEWER_TOKEN);
+    app.use('/api/whep', whep.router);
+    closed = [];
+
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    studio?.disconnect();
+    io.close();
+    await new Promise(resolve => httpServer.close(resolve));
+  });
+
+  it('should refuse viewers while no feed is shared', async () => {
+    const response = await postOffer();
+
+    expect(response.status).toBe(503);
+  });
+
+  it('should relay the offer to the studio and return its answer', async () => {
+    const offers: WhepOffer[] = [];
+    await shareFeed(offer => {
+      offers.push(offer);
+      return { sdp: ANSWER };
+    });
+
+    const response = await postOffer();
+
+    expect(response.status).toBe(201);
+    expect(response.headers.get('content-type')).toContain('application/sdp');
+    expect(await response.text()).toBe(ANSWER);
+    expect(offers).toEqual([{ sessionId: expect.any(String), sdp: OFFER }]);
+    expect(response.headers.get('location')).toBe(`/api/whep/${offers[0].sessionId}`);
+    expect(response.headers.get('access-control-expose-headers')).toBe('Location');
+  });
+
+  it('should close the session on the studio when the viewer deletes it', async () => {
+    await shareFeed();
+    const location = (await postOffer()).headers.get('location');
+
+    const response = await fetch(`${baseUrl}${location}`, { method: 'DELETE' });
+    await settle();
+
+    expect(response.status).toBe(200);
+    expect(closed).toEqual([location?.split('/').pop()]);
+    expect((await fetch(`${baseUrl}${location}`, { method: 'DELETE' })).status).toBe(404);
+  });
+
+  it('should fail when the studio cannot answer', async () => {
+    await shareFeed(() => ({ error: 'Program output is not running' }));
+
+    const response = await postOffer();
+
+    expect(response.status).toBe(502);
+    expect(await response.text()).toBe('Program output is not running');
+  });
+
+  it('should time out when the studio does not answer', async () => {
+    await shareFeed(() => null);
+
+    const response = await postOffer();
+
+    expect(response.status).toBe(504);
+  });
+
+  it('should reject bodies that are not SDP', async () => {
+    await shareFeed();
+
+    const response = await fetch(`${baseUrl}/api/whep`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${VIEWER_TOKEN}` },
+      body: JSON.stringify({ sdp: OFFER })
+    });
+
+    expect(response.status).toBe(415);
+  });
+
+  it('should refuse viewers without the viewer token', async () => {
+    await shareFeed();
+
+    const missing = await postOffer(OFFER, '');
+    const wrong = await postOffer(OFFER, 'Bearer wrong-token');
+
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+    expect(wrong.status).toBe(401);
+  });
+
+  it('should refuse viewers beyond the maximum', async () => {
+    await shareFeed();
+    await postOffer();
+    await postOffer();
+
+    const response = await postOffer();
+
+    expect(response.status).toBe(503);
+    expect(await response.text()).toBe('The program feed has its maximum of 2 viewers');
+  });
+
+  it('should count a viewer no longer once its connection closed on the studio', async () => {
+    await shareFeed();
+    const location = (await postOffer()).headers.get('location');
+    await postOffer();
+
+    studio.emit('whep:closed', location?.split('/').pop());
+    await settle();
+
+    expect((await postOffer()).status).toBe(201);
+  });
+
+  it('should limit the offers one address can make', async () => {
+    await shareFeed(() => ({ error: 'Program output is not running' }));
+    for (let i = 0; i < 3; i++) {
+      expect((await postOffer()).status).toBe(502);
+    }
+
+    const response = await postOffer();
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toBe('60');
+  });
+
+  it('should stop serving viewers once the studio stops sharing', async () => {
+    await shareFeed();
+    studio.emit('whep:unshare');
+    await settle();
+
+    expect((await postOffer()).status).toBe(503);
+  });
+
+  it('should refuse a second studio while one is sharing', async () => {
+    await shareFeed();
+    const other = connect(baseUrl, { transports: ['websocket'], auth: { token: TOKEN } });
+
+    const result = await new Promise<WhepShareResult>(resolve => other.emit('whep:share', resolve));
+    other.disconnect();
+
+    expect(result).toEqual({ error: 'Another studio is already sharing its program feed' });
+    expect((await postOffer()).status).toBe(201);
+  });
+
+  it('should turn down sockets without the studio token', async () => {
+    const other = connect(baseUrl, { transports: ['websocket'], auth: { token: 'wrong' } });
+    const error = await new Promise<Error>(resolve => other.on('connect_error', resolve));
+    other.disconnect();
+
+    expect(error.message).toBe('Unauthorized');
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * WHEP Service
+ * Lets a browser watch the studio's program feed over WebRTC (RFC 9725 style
+ * WHEP). The studio shares its feed over socket.io; each viewer's SDP offer is
+ * relayed to it and answered with a peer connection the studio opens for that
+ * viewer, so media flows from the studio to the viewer directly. Only an
+ * authenticated studio socket can share, and only one at a time.
+ *
+ * Every viewer costs the studio a peer connection, so viewers are capped,
+ * offers are rate limited per address, and a viewer token can be required
+ * as a bearer token.
+ *
+ *   POST   /api/whep              SDP offer in, SDP answer out (201)
+ *   DELETE /api/whep/:sessionId   End a viewer session
+ */
+
+import express, { Request, Response, Router } from 'express';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { Server, Socket } from 'socket.io';
+
+// How long the studio has to answer an offer
+const ANSWER_TIMEOUT = 10000;
+const RATE_WINDOW = 60000;
+
+export interface WhepLimits {
+  // Viewers connected or being answered at once
+  maxViewers: number;
+  // Offers one address can make per minute
+  offersPerMinute: number;
+}
+
+export const DEFAULT_WHEP_LIMITS: WhepLimits = {
+  maxViewers: 10,
+  offersPerMinute: 10
+};
+
+export interface WhepOffer {
+  sessionId: string;
+  sdp: string;
+}
+
+export interface WhepAnswer {
+  sdp?: string;
+  error?: string;
+}
+
+export interface WhepShareResult {
+  error?: string;
+}
+
+export class WhepService {
+  readonly router = Router();
+  private io: Server;
+  // The studio socket sharing its program feed
+  private studio: Socket | null = null;
+  private sessions = new Set<string>();
+  // Offers still waiting for the studio's answer
+  private pending = new Set<string>();
+  // Times of recent offers by address
+  private offers = new Map<string, number[]>();
+
+  constructor(
+    io: Server,
+    private readonly answerTimeout = ANSWER_TIMEOUT,
+    private readonly limits: WhepLimits = DEFAULT_WHEP_LIMITS,
+    private readonly viewerToken?: string
+  ) {
+    this.io = io;
+    this.setupSocketListeners();
+    this.setupRoutes();
+  }
+
+  private setupSocketListeners() {
+    this.io.on('connection', (socket: Socket) => {
+      socket.on('whep:share', (ack?: (result: WhepShareResult) => void) => {
+        if (socket.data.authenticated !== true) {
+          console.warn(`WHEP: refused to let unauthenticated ${socket.id} share`);
+          ack?.({ error: 'Not authorized to share the program feed' });
+          return;
+        }
+        if (this.studio && this.studio.id !== socket.id) {
+          ack?.({ error: 'Another studio is already sharing its program feed' });
+          return;
+        }
+        this.studio = socket;
+        console.log(`WHEP: ${socket.id} is sharing its program feed`);
+        ack?.({});
+      });
+
+      // A viewer's connection failed or was closed on the studio
+      socket.on('whep:closed', (sessionId: string) => {
+        if (this.studio?.id === socket.id) this.sessions.delete(sessionId);
+      });
+
+      socket.on('whep:unshare', () => {
+        if (this.studio?.id === socket.id) this.unshare();
+      });
+      socket.on('disconnect', () => {
+        if (this.studio?.id === socket.id) this.unshare();
+      });
+    });
+  }
+
+  private setupRoutes() {
+    this.router.post('/', express.text({ type: 'application/sdp' }), (req: Request, res: Response) => this.offer(req, res));
+
+    this.router.delete('/:sessionId', (req: Request, res: Response) => {
+      const { sessionId } = req.params;
+      if (!this.sessions.delete(sessionId)) {
+        return res.status(404).send('Unknown WHEP session');
+      }
+      this.studio?.emit('whep:close', sessionId);
+      res.sendStatus(200);
+    });
+
+    // ICE candidates are all in the offer and answer; trickle ICE is not supported
+    this.router.patch('/:sessionId', (req: Request, res: Response) => {
+      res.sendStatus(405);
+    });
+  }
+
+  private offer(req: Request, res: Response) {
+    const studio = this.studio;
+    if (!studio) {
+      return res.status(503).send('The program feed is not shared');
+    }
+    if (!this.isViewerAuthorized(req)) {
+      return res.status(401).set('WWW-Authenticate', 'Bearer').send('A valid viewer token is required');
+    }
+    if (!this.allowOffer(req.ip ?? req.socket.remoteAddress ?? '')) {
+      return res.status(429).set('Retry-After', String(RATE_WINDOW / 1000)).send('Too many offers, try again later');
+    }
+    if (this.sessions.size + this.pending.size >= this.limits.maxViewers) {
+      return res.status(503).send(`The program feed has its maximum of ${this.limits.maxViewers} viewers`);
+    }
+    if (!req.is('application/sdp') || typeof req.body !== 'string' || !req.body) {
+      return res.status(415).send('Expected an application/sdp offer');
+    }
+
+    const sessionId = randomUUID();
+    const offer: WhepOffer = { sessionId, sdp: req.body };
+    this.pending.add(sessionId);
+
+    studio.timeout(this.answerTimeout).emit('whep:offer', offer, (err: Error | null, answer?: WhepAnswer) => {
+      this.pending.delete(sessionId);
+      // The studio stopped sharing while answering
+      if (this.studio !== studio) {
+        studio.emit('whep:close', sessionId);
+        return res.status(503).send('The program feed is not shared');
+      }
+      if (err || !answer?.sdp) {
+        console.error(`WHEP: ${sessionId} was not answered: ${err?.message ?? answer?.error}`);
+        // Close a viewer answered too late
+        studio.emit('whep:close', sessionId);
+        return res.status(err ? 504 : 502).send(answer?.error ?? 'The studio did not answer the offer');
+      }
+
+      this.sessions.add(sessionId);
+      res
+        .status(201)
+        .set({
+          'Content-Type': 'application/sdp',
+          Location: `${req.baseUrl}/${sessionId}`,
+          'Access-Control-Expose-Headers': 'Location'
+        })
+        .send(answer.sdp);
+    });
+  }
+
+  private isViewerAuthorized(req: Request): boolean {
+    if (!this.viewerToken) return true;
+    const expected = Buffer.from(this.viewerToken);
+    const given = Buffer.from((req.get('Authorization') ?? '').replace(/^Bearer\s+/i, ''));
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+
+  /**
+   * Count an offer from an address, false once it made too many this minute
+   */
+  private allowOffer(address: string): boolean {
+    const now = Date.now();
+    // Forget addresses that have not made an offer for a while
+    this.offers.forEach((times, key) => {
+      const recent = times.filter(time => now - time < RATE_WINDOW);
+      if (recent.length > 0) {
+        this.offers.set(key, recent);
+      } else {
+        this.offers.delete(key);
+      }
+    });
+
+    const times = this.offers.get(address) ?? [];
+    if (times.length >= this.limits.offersPerMinute) return false;
+    this.offers.set(address, [...times, now]);
+    return true;
+  }
+
+  private unshare() {
+    console.log(`WHEP: ${this.studio?.id} stopped sharing its program feed`);
+    this.studio = null;
+    this.sessions.clear();
+  }
+}
@@ -1,25 +1,41 @@
 import express from 'express';
 import { createServer } from 'http';
+import { randomBytes } from 'crypto';
 import { Server } from 'socket.io';
 import cookieParser from 'cookie-parser'; // Import cookie-parser
 import { ProductsService } from '@org/api/products';
 import { GameProcessService } from './app/services/game-process.service';
 import { HardwareHubService } from './app/services/hardware-hub.service';
+import { EgressService } from './app/services/egress.service';
+import { SystemStatsService } from './app/services/system-stats.service';
+import { DEFAULT_WHEP_LIMITS, WhepService } from './app/services/whep.service';
+import { HlsService } from './app/services/hls.service';
 import { FirebaseAdminService } from './app/services/firebase.service';
-import authRouter, { authenticateFirebaseToken } from './app/routes/auth.routes';
+import authRouter, { authenticateSocket } from './app/routes/auth.routes';
 import paymentRouter from './app/routes/payment.routes'; // Import payment router
 import { ApiResponse, Product, ProductFilter, PaginatedResponse } from '@org/models';
 
 const host = process.env.HOST ?? 'localhost';
 const port = process.env.PORT ? Number(process.env.PORT) : 3333;
 
+// Sockets control ffmpeg and the shared program feed, so clients need this token
+const studioToken = process.env.STUDIO_TOKEN || randomBytes(24).toString('hex');
+const studioOrigins = (process.env.STUDIO_ORIGINS ?? 'http://localhost:4200').split(',');
+// WHEP viewers of the program feed; WHEP_VIEWER_TOKEN makes them present it as a bearer token
+const whepLimits = {
+  maxViewers: Number(process.env.WHEP_MAX_VIEWERS) || DEFAULT_WHEP_LIMITS.maxViewers,
+  offersPerMinute: Number(process.env.WHEP_OFFERS_PER_MINUTE) || DEFAULT_WHEP_LIMITS.offersPerMinute
+};
+
 const app = express();
 const httpServer = createServer(app);
 const io = new Server(httpServer, {
   cors: {
-    origin: '*',
+    origin: studioOrigins,
     methods: ['GET', 'POST']
-  }
+  },
+  // Program stream chunks for the egress gateway exceed the 1 MB default at high bitrates
+  maxHttpBufferSize: 1e7
 });
 
 const productsService = new ProductsService();
@@ -32,7 +48,7 @@ app.use(cookieParser()); // Use cookie-parser middleware
 app.use((req, res, next) => {
   res.header('Access-Control-Allow-Origin', '*');
   res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept');
+  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
   if (req.method === 'OPTIONS') {
     res.sendStatus(200);
   } else {
@@ -51,6 +67,11 @@ app.use('/api/auth', authRouter);
 app.use('/api/payment', paymentRouter);
 
 // --- WebSocket Gateway ---
+io.use(authenticateSocket(studioToken));
+if (!process.env.STUDIO_TOKEN) {
+  console.log(`Studio token: ${studioToken} (set STUDIO_TOKEN to keep it across restarts)`);
+}
+
 io.on('connection', (socket) => {
   console.log(`Client connected: ${socket.id}`);
 
@@ -65,8 +86,19 @@ export { io };
 // Initialize Hardware & System Services
 new GameProcessService(io);
 new HardwareHubService(io);
+// ffmpeg uploads HLS output to this server
+const hlsService = new HlsService(`http://${host}:${port}/api/hls`);
+new EgressService(io, hlsService);
+new SystemStatsService(io);
+const whepService = new WhepService(io, undefined, whepLimits, process.env.WHEP_VIEWER_TOKEN || undefined);
 FirebaseAdminService.getInstance(); // Initialize Firebase Admin SDK
 
+// WHEP playback of the studio's program feed
+app.use('/api/whep', whepService.router);
+
+// HLS output of streaming destinations
+app.use('/api/hls', hlsService.router);
+
 // Products endpoints
 app.get('/api/products', (req, res) => {
   try {
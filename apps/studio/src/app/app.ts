@@ -2,8 +2,12 @@ import { Component, signal, inject } from '@angular/core';
 import { RouterModule } from '@angular/router';
 import {
   SceneListComponent,
+  HistoryPanelComponent,
   StreamingControlsComponent,
   VideoPreviewComponent,
+  StudioModeComponent,
+  StudioModeService,
+  BrowserSourceService,
   AudioMixerComponent,
   SourcesManagerComponent,
   ChatIntegration,
@@ -63,8 +67,10 @@ import {
   imports: [
     RouterModule,
     SceneListComponent,
+    HistoryPanelComponent,
     StreamingControlsComponent,
     VideoPreviewComponent,
+    StudioModeComponent,
     AudioMixerComponent,
     SourcesManagerComponent,
     ChatIntegration,
@@ -94,6 +100,8 @@ export class App {
   >('sources');
 
   // Inject core services
+  protected studioMode = inject(StudioModeService);
+  protected browserSources = inject(BrowserSourceService);
   protected firebase = inject(FirebaseService);
   protected ai = inject(AIService);
   protected music = inject(MusicLibraryService);
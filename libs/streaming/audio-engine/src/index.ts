@@ -1 +1,6 @@
 export * from './lib/audio-engine/audio-engine';
+export * from './lib/mixer/audio-levels';
+export * from './lib/mixer/audio-meter';
+export * from './lib/mixer/audio-filter-units';
+export * from './lib/mixer/mixer-channel';
+export * from './lib/mixer/audio-mixer-engine';
@@ -0,0 +1,349 @@
+import { buildGainCurve, dbToGain, expanderGainDb } from './audio-levels';
+
+/**
+ * Audio Filter Units
+ * Web Audio node graphs for track filters. Each unit exposes an input and an
+ * output node so units can be chained, and reconfigures itself in place.
+ */
+
+export interface AudioFilterSettings {
+  [key: string]: unknown;
+}
+
+export interface AudioFilterConfig {
+  id: string;
+  type: string;
+  enabled: boolean;
+  settings: AudioFilterSettings;
+}
+
+export interface AudioFilterUnit {
+  readonly type: string;
+  readonly input: AudioNode;
+  readonly output: AudioNode;
+  update(settings: AudioFilterSettings): void;
+  dispose(): void;
+}
+
+/**
+ * Read a number setting; numeric strings from form inputs count
+ */
+function numberSetting(settings: AudioFilterSettings, key: string, fallback: number): number {
+  const value = settings[key];
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : fallback;
+}
+
+/**
+ * Time constant (seconds) for AudioParam ramps, from a setting in ms
+ */
+function seconds(settings: AudioFilterSettings, key: string, fallback: number): number {
+  return Math.max(0.0001, numberSetting(settings, key, fallback) / 1000);
+}
+
+class CompressorUnit implements AudioFilterUnit {
+  readonly input: DynamicsCompressorNode;
+  readonly output: GainNode;
+
+  constructor(
+    private readonly context: BaseAudioContext,
+    readonly type: string
+  ) {
+    this.input = context.createDynamicsCompressor();
+    this.output = context.createGain();
+    this.input.connect(this.output);
+  }
+
+  update(settings: AudioFilterSettings): void {
+    const now = this.context.currentTime;
+    const limiter = this.type === 'limiter';
+
+    this.input.threshold.setValueAtTime(numberSetting(settings, 'threshold', limiter ? -6 : -18), now);
+    this.input.ratio.setValueAtTime(limiter ? 20 : numberSetting(settings, 'ratio', 3), now);
+    this.input.knee.setValueAtTime(limiter ? 0 : numberSetting(settings, 'knee', 6), now);
+    this.input.attack.setValueAtTime(limiter ? 0.001 : seconds(settings, 'attack', 6), now);
+    this.input.release.setValueAtTime(seconds(settings, 'release', 60), now);
+    this.output.gain.setValueAtTime(dbToGain(numberSetting(settings, 'outputGain', 0)), now);
+  }
+
+  dispose(): void {
+    this.input.disconnect();
+    this.output.disconnect();
+  }
+}
+
+/**
+ * Gate, expander and noise suppression: the signal envelope drives a gain
+ * through a WaveShaper curve, so everything runs on the audio thread.
+ */
+class ExpanderUnit implements AudioFilterUnit {
+  readonly input: GainNode;
+  readonly output: GainNode;
+  private readonly highpass: BiquadFilterNode;
+  private readonly rectifier: WaveShaperNode;
+  private readonly envelope: BiquadFilterNode;
+  private readonly shaper: WaveShaperNode;
+
+  constructor(
+    private readonly context: BaseAudioContext,
+    readonly type: string
+  ) {
+    this.input = context.createGain();
+    this.highpass = context.createBiquadFilter();
+    this.output = context.createGain();
+
+    // Signal path: input -> highpass -> output (gain driven by sidechain)
+    this.highpass.type = 'highpass';
+    this.input.connect(this.highpass);
+    this.highpass.connect(this.output);
+    this.output.gain.value = 0;
+
+    // Sidechain: |x| -> smoothing -> gain curve -> output.gain
+    this.rectifier = context.createWaveShaper();
+    this.rectifier.curve = new Float32Array([1, 0, 1]);
+    this.envelope = context.createBiquadFilter();
+    this.envelope.type = 'lowpass';
+    this.shaper = context.createWaveShaper();
+
+    this.input.connect(this.rectifier);
+    this.rectifier.connect(this.envelope);
+    this.envelope.connect(this.shaper);
+    this.shaper.connect(this.output.gain);
+  }
+
+  update(settings: AudioFilterSettings): void {
+    const now = this.context.currentTime;
+    let threshold: number;
+    let ratio: number;
+
+    switch (this.type) {
+      case 'noise_gate':
+        threshold = numberSetting(settings, 'threshold', -30);
+        ratio = 100;
+        break;
+      case 'noise_suppression':
+        threshold = numberSetting(settings, 'level', -30);
+        ratio = 4;
+        break;
+      default:
+        threshold = numberSetting(settings, 'threshold', -40);
+        ratio = numberSetting(settings, 'ratio', 2);
+    }
+
+    // Only noise suppression also removes low-frequency rumble
+    this.highpass.frequency.setValueAtTime(this.type === 'noise_suppression' ? 80 : 10, now);
+
+    // The envelope follows at the release speed; attack is bounded by it
+    const release = seconds(settings, 'release', 150);
+    this.envelope.frequency.setValueAtTime(1 / (2 * Math.PI * release), now);
+
+    this.shaper.curve = buildGainCurve(levelDb => dbToGain(expanderGainDb(levelDb, threshold, ratio)));
+  }
+
+  dispose(): void {
+    [this.input, this.highpass, this.rectifier, this.envelope, this.shaper, this.output].forEach(node =>
+      node.disconnect()
+    );
+  }
+}
+
+class GainUnit implements AudioFilterUnit {
+  readonly type = 'gain';
+  readonly input: GainNode;
+
+  constructor(private readonly context: BaseAudioContext) {
+    this.input = context.createGain();
+  }
+
+  get output(): AudioNode {
+    return this.input;
+  }
+
+  update(settings: AudioFilterSettings): void {
+    this.input.gain.setValueAtTime(dbToGain(numberSetting(settings, 'db', 0)), this.context.currentTime);
+  }
+
+  dispose(): void {
+    this.input.disconnect();
+  }
+}
+
+/**
+ * Three band EQ: low shelf, peaking mid, high shelf. Gains in dB.
+ */
+class EqUnit implements AudioFilterUnit {
+  readonly type = 'eq';
+  private readonly low: BiquadFilterNode;
+  private readonly mid: BiquadFilterNode;
+  private readonly high: BiquadFilterNode;
+
+  constructor(private readonly context: BaseAudioContext) {
+    this.low = context.createBiquadFilter();
+    this.mid = context.createBiquadFilter();
+    this.high = context.createBiquadFilter();
+    this.low.type = 'lowshelf';
+    this.mid.type = 'peaking';
+    this.high.type = 'highshelf';
+    this.low.connect(this.mid);
+    this.mid.connect(this.high);
+  }
+
+  get input(): AudioNode {
+    return this.low;
+  }
+
+  get output(): AudioNode {
+    return this.high;
+  }
+
+  update(settings: AudioFilterSettings): void {
+    const now = this.context.currentTime;
+    this.low.frequency.setValueAtTime(numberSetting(settings, 'lowFrequency', 250), now);
+    this.low.gain.setValueAtTime(numberSetting(settings, 'low', 0), now);
+    this.mid.frequency.setValueAtTime(numberSetting(settings, 'midFrequency', 1000), now);
+    this.mid.Q.setValueAtTime(numberSetting(settings, 'midQ', 1), now);
+    this.mid.gain.setValueAtTime(numberSetting(settings, 'mid', 0), now);
+    this.high.frequency.setValueAtTime(numberSetting(settings, 'highFrequency', 4000), now);
+    this.high.gain.setValueAtTime(numberSetting(settings, 'high', 0), now);
+  }
+
+  dispose(): void {
+    [this.low, this.mid, this.high].forEach(node => node.disconnect());
+  }
+}
+
+/**
+ * Dry/wet mix around an effect node
+ */
+abstract class SendUnit implements AudioFilterUnit {
+  abstract readonly type: string;
+  readonly input: GainNode;
+  readonly output: GainNode;
+  protected readonly dry: GainNode;
+  protected readonly wet: GainNode;
+
+  constructor(protected readonly context: BaseAudioContext) {
+    this.input = context.createGain();
+    this.output = context.createGain();
+    this.dry = context.createGain();
+    this.wet = context.createGain();
+    this.input.connect(this.dry);
+    this.dry.connect(this.output);
+    this.wet.connect(this.output);
+  }
+
+  abstract update(settings: AudioFilterSettings): void;
+
+  protected setMix(mix: number): void {
+    const now = this.context.currentTime;
+    const wet = Math.min(1, Math.max(0, mix));
+    this.dry.gain.setValueAtTime(1 - wet, now);
+    this.wet.gain.setValueAtTime(wet, now);
+  }
+
+  dispose(): void {
+    [this.input, this.output, this.dry, this.wet].forEach(node => node.disconnect());
+  }
+}
+
+class DelayUnit extends SendUnit {
+  readonly type = 'delay';
+  private readonly delay: DelayNode;
+  private readonly feedback: GainNode;
+
+  constructor(context: BaseAudioContext) {
+    super(context);
+    this.delay = context.createDelay(5);
+    this.feedback = context.createGain();
+    this.input.connect(this.delay);
+    this.delay.connect(this.feedback);
+    this.feedback.connect(this.delay);
+    this.delay.connect(this.wet);
+  }
+
+  update(settings: AudioFilterSettings): void {
+    const now = this.context.currentTime;
+    this.delay.delayTime.setValueAtTime(Math.min(5, seconds(settings, 'delayMs', 250)), now);
+    this.feedback.gain.setValueAtTime(Math.min(0.95, Math.max(0, numberSetting(settings, 'feedback', 0.3))), now);
+    this.setMix(numberSetting(settings, 'mix', 0.3));
+  }
+
+  override dispose(): void {
+    super.dispose();
+    this.delay.disconnect();
+    this.feedback.disconnect();
+  }
+}
+
+class ReverbUnit extends SendUnit {
+  readonly type = 'reverb';
+  private readonly convolver: ConvolverNode;
+  private impulseKey = '';
+
+  constructor(context: BaseAudioContext) {
+    super(context);
+    this.convolver = context.createConvolver();
+    this.input.connect(this.convolver);
+    this.convolver.connect(this.wet);
+  }
+
+  update(settings: AudioFilterSettings): void {
+    const decay = Math.min(10, Math.max(0.1, numberSetting(settings, 'decay', 2)));
+    const key = String(decay);
+
+    if (key !== this.impulseKey) {
+      this.impulseKey = key;
+      this.convolver.buffer = this.createImpulse(decay);
+    }
+
+    this.setMix(numberSetting(settings, 'mix', 0.3));
+  }
+
+  /**
+   * Exponentially decaying stereo noise as a synthetic room response
+   */
+  private createImpulse(decay: number): AudioBuffer {
+    const length = Math.floor(this.context.sampleRate * decay);
+    const impulse = this.context.createBuffer(2, length, this.context.sampleRate);
+
+    for (let channel = 0; channel < 2; channel++) {
+      const data = impulse.getChannelData(channel);
+      for (let i = 0; i < length; i++) {
+        data[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / length, 3);
+      }
+    }
+
+    return impulse;
+  }
+
+  override dispose(): void {
+    super.dispose();
+    this.convolver.disconnect();
+  }
+}
+
+/**
+ * Create the node graph for a filter type. Returns null for types that have
+ * no Web Audio implementation (e.g. VST), which are then bypassed.
+ */
+export function createAudioFilterUnit(context: BaseAudioContext, type: string): AudioFilterUnit | null {
+  switch (type) {
+    case 'compressor':
+    case 'limiter':
+      return new CompressorUnit(context, type);
+    case 'noise_gate':
+    case 'noise_suppression':
+    case 'expander':
+      return new ExpanderUnit(context, type);
+    case 'gain':
+      return new GainUnit(context);
+    case 'eq':
+      return new EqUnit(context);
+    case 'delay':
+      return new DelayUnit(context);
+    case 'reverb':
+      return new ReverbUnit(context);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,53 @@
+import { buildGainCurve, dbToGain, expanderGainDb, gainToDb, measureLevels } from './audio-levels';
+
+describe('measureLevels', () => {
+  it('should report silence as zero', () => {
+    expect(measureLevels(new Float32Array(128))).toEqual({ peak: 0, magnitude: 0 });
+  });
+
+  it('should measure peak and RMS of a square wave', () => {
+    const samples = new Float32Array(128).map((_, i) => (i % 2 === 0 ? 0.5 : -0.5));
+
+    const levels = measureLevels(samples);
+
+    expect(levels.peak).toBeCloseTo(0.5);
+    expect(levels.magnitude).toBeCloseTo(0.5);
+  });
+
+  it('should measure RMS below peak for a sine wave', () => {
+    const samples = new Float32Array(480).map((_, i) => Math.sin((2 * Math.PI * i) / 48));
+
+    const levels = measureLevels(samples);
+
+    expect(levels.peak).toBeCloseTo(1, 2);
+    expect(levels.magnitude).toBeCloseTo(Math.SQRT1_2, 2);
+  });
+});
+
+describe('dB conversion', () => {
+  it('should convert between gain and dB', () => {
+    expect(dbToGain(0)).toBe(1);
+    expect(dbToGain(-20)).toBeCloseTo(0.1);
+    expect(gainToDb(0.1)).toBeCloseTo(-20);
+    expect(gainToDb(0)).toBe(-Infinity);
+  });
+});
+
+describe('expanderGainDb', () => {
+  it('should not reduce signals above the threshold', () => {
+    expect(expanderGainDb(-10, -30, 2)).toBe(0);
+  });
+
+  it('should reduce signals below the threshold by the ratio', () => {
+    expect(expanderGainDb(-40, -30, 2)).toBe(-10);
+    expect(expanderGainDb(-40, -30, 4)).toBe(-30);
+  });
+});
+
+describe('buildGainCurve', () => {
+  it('should map the envelope symmetrically around zero', () => {
+    const curve = buildGainCurve(levelDb => (levelDb > -20 ? 1 : 0), 5);
+
+    expect(Array.from(curve)).toEqual([1, 1, 0, 1, 1]);
+  });
+});
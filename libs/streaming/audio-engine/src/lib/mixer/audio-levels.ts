@@ -0,0 +1,65 @@
+/**
+ * Audio Levels
+ * Level math shared by meters and dynamics filters. Levels are linear
+ * amplitudes (0-1) unless the name says dB.
+ */
+
+export interface ChannelLevels {
+  peak: number;
+  magnitude: number; // RMS
+}
+
+/**
+ * Measure peak and RMS of a block of samples
+ */
+export function measureLevels(samples: Float32Array): ChannelLevels {
+  let peak = 0;
+  let sumSquares = 0;
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = samples[i];
+    const abs = Math.abs(sample);
+    if (abs > peak) peak = abs;
+    sumSquares += sample * sample;
+  }
+
+  return {
+    peak: Math.min(1, peak),
+    magnitude: samples.length > 0 ? Math.min(1, Math.sqrt(sumSquares / samples.length)) : 0
+  };
+}
+
+export function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+export function gainToDb(gain: number): number {
+  return gain > 0 ? 20 * Math.log10(gain) : -Infinity;
+}
+
+/**
+ * Gain reduction (dB, <= 0) of a downward expander. A very high ratio
+ * behaves like a noise gate.
+ */
+export function expanderGainDb(levelDb: number, thresholdDb: number, ratio: number): number {
+  if (levelDb >= thresholdDb) return 0;
+  return Math.max(-120, (levelDb - thresholdDb) * (ratio - 1));
+}
+
+/**
+ * Build a WaveShaper curve mapping a signal envelope (0-1) to a gain.
+ * WaveShaper input spans -1..1, so the curve is mirrored around zero.
+ */
+export function buildGainCurve(
+  gainForLevelDb: (levelDb: number) => number,
+  size = 2049
+): Float32Array<ArrayBuffer> {
+  const curve = new Float32Array(size);
+
+  for (let i = 0; i < size; i++) {
+    const level = Math.abs((i / (size - 1)) * 2 - 1);
+    curve[i] = gainForLevelDb(gainToDb(level));
+  }
+
+  return curve;
+}
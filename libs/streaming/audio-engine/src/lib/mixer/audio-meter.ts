@@ -0,0 +1,59 @@
+import { measureLevels } from './audio-levels';
+
+/**
+ * Audio Meter
+ * Taps a node and measures per-channel peak and RMS from the live signal.
+ */
+
+export interface MeterReading {
+  peak: number[];
+  magnitude: number[];
+}
+
+export class AudioMeter {
+  private readonly splitter: ChannelSplitterNode;
+  private readonly analysers: AnalyserNode[] = [];
+  private readonly buffer: Float32Array<ArrayBuffer>;
+
+  constructor(context: BaseAudioContext, channels = 2) {
+    this.splitter = context.createChannelSplitter(channels);
+
+    for (let channel = 0; channel < channels; channel++) {
+      const analyser = context.createAnalyser();
+      // ~43ms at 48kHz, which covers the 50ms UI polling interval well enough
+      analyser.fftSize = 2048;
+      this.splitter.connect(analyser, channel);
+      this.analysers.push(analyser);
+    }
+
+    this.buffer = new Float32Array(this.analysers[0]?.fftSize ?? 2048);
+  }
+
+  /**
+   * The node to connect the measured signal to
+   */
+  get input(): AudioNode {
+    return this.splitter;
+  }
+
+  /**
+   * Measure the most recent block of samples
+   */
+  read(): MeterReading {
+    const reading: MeterReading = { peak: [], magnitude: [] };
+
+    for (const analyser of this.analysers) {
+      analyser.getFloatTimeDomainData(this.buffer);
+      const levels = measureLevels(this.buffer);
+      reading.peak.push(levels.peak);
+      reading.magnitude.push(levels.magnitude);
+    }
+
+    return reading;
+  }
+
+  dispose(): void {
+    this.splitter.disconnect();
+    this.analysers.forEach(analyser => analyser.disconnect());
+  }
+}
@@ -0,0 +1,322 @@
+import { AudioFilterConfig } from './audio-filter-units';
+import { AudioMeter, MeterReading } from './audio-meter';
+import { MixerChannel, resolveChannelRouting } from './mixer-channel';
+
+/**
+ * Audio Mixer Engine
+ * Web Audio graph behind the mixer: one channel per track, a master bus that
+ * feeds the program stream, and a monitor bus that plays locally. Output
+ * buses render extra mixes of selected sources, e.g. recording stems.
+ */
+
+/**
+ * Track state as managed by the mixer UI. Structurally matches
+ * `AudioTrackMixer` of streaming-core.
+ */
+export interface MixerTrackConfig {
+  id: string;
+  sourceIds: string[];
+  volume: number;
+  muted: boolean;
+  solo: boolean;
+  pan: number;
+  monitoring: string;
+  filters: AudioFilterConfig[];
+}
+
+export interface MixerConfig {
+  tracks: MixerTrackConfig[];
+  masterVolume: number;
+  masterMuted: boolean;
+}
+
+export interface TrackLevels {
+  peak: number[];
+  magnitude: number[];
+  inputPeak: number[];
+  inputMagnitude: number[];
+}
+
+interface MixerSource {
+  stream: MediaStream;
+  node: MediaStreamAudioSourceNode;
+  /** Per-source delay ahead of all channels and buses, to line audio up with video */
+  delay: DelayNode;
+  /** Per-source gain ahead of all channels and buses, e.g. for scene crossfades */
+  gain: GainNode;
+  /** Keys of the channels and buses the source is connected to */
+  connectedTo: Map<string, AudioNode>;
+}
+
+interface OutputBus {
+  sourceIds: string[];
+  input: GainNode;
+  destination: MediaStreamAudioDestinationNode;
+}
+
+// Longest per-source delay the graph can hold
+export const MAX_SOURCE_DELAY_SECONDS = 5;
+
+export class AudioMixerEngine {
+  private readonly masterInput: GainNode;
+  private readonly masterFader: GainNode;
+  private readonly masterMeter: AudioMeter;
+  private readonly programDestination: MediaStreamAudioDestinationNode;
+  private readonly monitorInput: GainNode;
+  private channels = new Map<string, MixerChannel>();
+  private sources = new Map<string, MixerSource>();
+  private trackSources = new Map<string, string[]>();
+  private outputBuses = new Map<string, OutputBus>();
+  private sourceGains = new Map<string, number>();
+  private sourceDelays = new Map<string, number>();
+
+  constructor(private readonly context: AudioContext) {
+    this.masterInput = context.createGain();
+    this.masterFader = context.createGain();
+    this.masterMeter = new AudioMeter(context);
+    this.programDestination = context.createMediaStreamDestination();
+    this.monitorInput = context.createGain();
+
+    this.masterInput.connect(this.masterFader);
+    this.masterFader.connect(this.masterMeter.input);
+    this.masterFader.connect(this.programDestination);
+    this.monitorInput.connect(context.destination);
+  }
+
+  /**
+   * The mixed program audio
+   */
+  getProgramStream(): MediaStream {
+    return this.programDestination.stream;
+  }
+
+  /**
+   * Apply the mixer state: create/remove channels, faders, routing and filters
+   */
+  sync(config: MixerConfig): void {
+    const now = this.context.currentTime;
+    this.masterFader.gain.setTargetAtTime(config.masterMuted ? 0 : config.masterVolume, now, 0.01);
+
+    const soloActive = config.tracks.some(track => track.solo);
+    const trackIds = new Set(config.tracks.map(track => track.id));
+
+    this.channels.forEach((channel, trackId) => {
+      if (!trackIds.has(trackId)) {
+        this.disconnectTarget(`track:${trackId}`);
+        channel.dispose();
+        this.channels.delete(trackId);
+        this.trackSources.delete(trackId);
+      }
+    });
+
+    for (const track of config.tracks) {
+      let channel = this.channels.get(track.id);
+      if (!channel) {
+        channel = new MixerChannel(this.context, this.masterInput, this.monitorInput);
+        this.channels.set(track.id, channel);
+      }
+
+      channel.setState({
+        volume: track.volume,
+        muted: track.muted,
+        pan: track.pan,
+        routing: resolveChannelRouting(track.monitoring, soloActive, track.solo)
+      });
+      channel.setFilters(track.filters);
+
+      this.trackSources.set(track.id, [...track.sourceIds]);
+    }
+
+    this.routeSources();
+  }
+
+  /**
+   * Provide (or remove, with null) the audio stream of a source
+   */
+  setSourceStream(sourceId: string, stream: MediaStream | null): void {
+    const existing = this.sources.get(sourceId);
+    if (existing?.stream === stream) return;
+
+    if (existing) {
+      existing.node.disconnect();
+      existing.delay.disconnect();
+      existing.gain.disconnect();
+      this.sources.delete(sourceId);
+    }
+
+    if (stream && stream.getAudioTracks().length > 0) {
+      const node = this.context.createMediaStreamSource(stream);
+      const delay = this.context.createDelay(MAX_SOURCE_DELAY_SECONDS);
+      delay.delayTime.value = this.sourceDelays.get(sourceId) ?? 0;
+      const gain = this.context.createGain();
+      gain.gain.value = this.sourceGains.get(sourceId) ?? 1;
+      node.connect(delay);
+      delay.connect(gain);
+      this.sources.set(sourceId, { stream, node, delay, gain, connectedTo: new Map() });
+    }
+
+    this.routeSources();
+  }
+
+  hasSourceStream(sourceId: string): boolean {
+    return this.sources.has(sourceId);
+  }
+
+  getSourceStream(sourceId: string): MediaStream | null {
+    return this.sources.get(sourceId)?.stream ?? null;
+  }
+
+  /**
+   * Set the gain of a source in every channel and bus, ramping linearly over
+   * the given time. The gain is kept for streams provided later.
+   */
+  setSourceGain(sourceId: string, gain: number, rampSeconds = 0): void {
+    this.sourceGains.set(sourceId, gain);
+
+    const source = this.sources.get(sourceId);
+    if (!source) return;
+
+    const param = source.gain.gain;
+    const now = this.context.currentTime;
+    param.cancelScheduledValues(now);
+    if (rampSeconds > 0) {
+      param.setValueAtTime(param.value, now);
+      param.linearRampToValueAtTime(gain, now + rampSeconds);
+    } else {
+      param.setValueAtTime(gain, now);
+    }
+  }
+
+  /**
+   * Delay a source in every channel and bus, e.g. to line it up with late video.
+   * The delay is kept for streams provided later.
+   */
+  setSourceDelay(sourceId: string, seconds: number): void {
+    const delay = Math.max(0, Math.min(MAX_SOURCE_DELAY_SECONDS, seconds));
+    this.sourceDelays.set(sourceId, delay);
+
+    const source = this.sources.get(sourceId);
+    if (source) {
+      source.delay.delayTime.setValueAtTime(delay, this.context.currentTime);
+    }
+  }
+
+  /**
+   * Render a separate mix of the given sources, independent of the mixer
+   * faders. Creating a bus with an existing ID replaces its sources.
+   */
+  createOutputBus(busId: string, sourceIds: string[]): MediaStream {
+    let bus = this.outputBuses.get(busId);
+    if (!bus) {
+      const input = this.context.createGain();
+      const destination = this.context.createMediaStreamDestination();
+      input.connect(destination);
+      bus = { sourceIds: [], input, destination };
+      this.outputBuses.set(busId, bus);
+    }
+
+    bus.sourceIds = [...sourceIds];
+    this.routeSources();
+    return bus.destination.stream;
+  }
+
+  removeOutputBus(busId: string): void {
+    const bus = this.outputBuses.get(busId);
+    if (!bus) return;
+
+    this.disconnectTarget(`bus:${busId}`);
+    bus.input.disconnect();
+    this.outputBuses.delete(busId);
+  }
+
+  /**
+   * Measure a track's levels from the live signal
+   */
+  readTrackLevels(trackId: string): TrackLevels | null {
+    const channel = this.channels.get(trackId);
+    if (!channel) return null;
+
+    const { input, output } = channel.readLevels();
+    return {
+      peak: output.peak,
+      magnitude: output.magnitude,
+      inputPeak: input.peak,
+      inputMagnitude: input.magnitude
+    };
+  }
+
+  /**
+   * Measure the master bus
+   */
+  readMasterLevels(): MeterReading {
+    return this.masterMeter.read();
+  }
+
+  /**
+   * Play the monitor bus on a specific output device, where supported
+   */
+  async setMonitorDevice(deviceId: string): Promise<void> {
+    const context = this.context as AudioContext & { setSinkId?: (id: string) => Promise<void> };
+    if (typeof context.setSinkId === 'function') {
+      await context.setSinkId(deviceId === 'default' ? '' : deviceId);
+    }
+  }
+
+  dispose(): void {
+    this.sources.forEach(source => {
+      source.node.disconnect();
+      source.delay.disconnect();
+      source.gain.disconnect();
+    });
+    this.sources.clear();
+    this.sourceGains.clear();
+    this.sourceDelays.clear();
+    this.channels.forEach(channel => channel.dispose());
+    this.channels.clear();
+    this.trackSources.clear();
+    this.outputBuses.forEach(bus => bus.input.disconnect());
+    this.outputBuses.clear();
+    [this.masterInput, this.masterFader, this.monitorInput].forEach(node => node.disconnect());
+    this.masterMeter.dispose();
+  }
+
+  /**
+   * Connect each source node to the channels and buses it belongs to
+   */
+  private routeSources(): void {
+    const targets = new Map<string, { input: AudioNode; sourceIds: string[] }>();
+    this.trackSources.forEach((sourceIds, trackId) => {
+      const channel = this.channels.get(trackId);
+      if (channel) targets.set(`track:${trackId}`, { input: channel.input, sourceIds });
+    });
+    this.outputBuses.forEach((bus, busId) => {
+      targets.set(`bus:${busId}`, { input: bus.input, sourceIds: bus.sourceIds });
+    });
+
+    this.sources.forEach((source, sourceId) => {
+      source.connectedTo.forEach((input, key) => {
+        if (!targets.get(key)?.sourceIds.includes(sourceId)) {
+          source.gain.disconnect(input);
+          source.connectedTo.delete(key);
+        }
+      });
+
+      targets.forEach((target, key) => {
+        if (target.sourceIds.includes(sourceId) && !source.connectedTo.has(key)) {
+          source.gain.connect(target.input);
+          source.connectedTo.set(key, target.input);
+        }
+      });
+    });
+  }
+
+  private disconnectTarget(key: string): void {
+    this.sources.forEach(source => {
+      const input = source.connectedTo.get(key);
+      if (input) {
+        source.gain.disconnect(input);
+        source.connectedTo.delete(key);
+      }
+    });
+  }
+}
@@ -0,0 +1,26 @@
+import { resolveChannelRouting } from './mixer-channel';
+
+describe('resolveChannelRouting', () => {
+  it('should send unmonitored tracks to the output only', () => {
+    expect(resolveChannelRouting('none', false, false)).toEqual({ output: true, monitor: false });
+  });
+
+  it('should keep monitor-only tracks out of the output', () => {
+    expect(resolveChannelRouting('monitor_only', false, false)).toEqual({ output: false, monitor: true });
+  });
+
+  it('should send monitor-and-output tracks to both buses', () => {
+    expect(resolveChannelRouting('monitor_and_output', false, false)).toEqual({
+      output: true,
+      monitor: true
+    });
+  });
+
+  it('should silence tracks that are not soloed while a solo is active', () => {
+    expect(resolveChannelRouting('monitor_and_output', true, false)).toEqual({
+      output: false,
+      monitor: false
+    });
+    expect(resolveChannelRouting('none', true, true)).toEqual({ output: true, monitor: false });
+  });
+});
@@ -0,0 +1,181 @@
+import { AudioMeter, MeterReading } from './audio-meter';
+import { AudioFilterConfig, AudioFilterUnit, createAudioFilterUnit } from './audio-filter-units';
+
+/**
+ * Mixer Channel
+ * The node chain of one mixer track:
+ * sources -> input -> filters -> fader -> panner -> output send / monitor send.
+ * The input meter taps before the filters, the output meter after the panner.
+ */
+
+export interface MixerChannelRouting {
+  output: boolean;
+  monitor: boolean;
+}
+
+export interface MixerChannelState {
+  volume: number;
+  muted: boolean;
+  pan: number;
+  routing: MixerChannelRouting;
+}
+
+/**
+ * Where a track is heard for a monitoring type. While any track is soloed,
+ * only soloed tracks are heard.
+ */
+export function resolveChannelRouting(
+  monitoring: string,
+  soloActive: boolean,
+  solo: boolean
+): MixerChannelRouting {
+  if (soloActive && !solo) {
+    return { output: false, monitor: false };
+  }
+
+  switch (monitoring) {
+    case 'monitor_only':
+      return { output: false, monitor: true };
+    case 'monitor_and_output':
+      return { output: true, monitor: true };
+    default:
+      return { output: true, monitor: false };
+  }
+}
+
+interface ChannelFilter {
+  id: string;
+  type: string;
+  unit: AudioFilterUnit;
+  settingsKey: string;
+}
+
+export class MixerChannel {
+  readonly input: GainNode;
+  private readonly fader: GainNode;
+  private readonly panner: StereoPannerNode;
+  private readonly outputSend: GainNode;
+  private readonly monitorSend: GainNode;
+  private readonly inputMeter: AudioMeter;
+  private readonly outputMeter: AudioMeter;
+  private filters: ChannelFilter[] = [];
+
+  constructor(
+    private readonly context: BaseAudioContext,
+    outputBus: AudioNode,
+    monitorBus: AudioNode
+  ) {
+    this.input = context.createGain();
+    // Up-mix mono sources so both meter channels see them
+    this.input.channelCount = 2;
+    this.input.channelCountMode = 'explicit';
+    this.input.channelInterpretation = 'speakers';
+
+    this.fader = context.createGain();
+    this.panner = context.createStereoPanner();
+    this.outputSend = context.createGain();
+    this.monitorSend = context.createGain();
+    this.inputMeter = new AudioMeter(context);
+    this.outputMeter = new AudioMeter(context);
+
+    this.input.connect(this.inputMeter.input);
+    this.connectFilters();
+    this.fader.connect(this.panner);
+    this.panner.connect(this.outputMeter.input);
+    this.panner.connect(this.outputSend);
+    this.panner.connect(this.monitorSend);
+    this.outputSend.connect(outputBus);
+    this.monitorSend.connect(monitorBus);
+  }
+
+  /**
+   * Apply fader, pan and routing
+   */
+  setState(state: MixerChannelState): void {
+    const now = this.context.currentTime;
+    // Short ramps avoid zipper noise when moving faders
+    this.fader.gain.setTargetAtTime(state.muted ? 0 : state.volume, now, 0.01);
+    this.panner.pan.setTargetAtTime(state.pan, now, 0.01);
+    this.outputSend.gain.setTargetAtTime(state.routing.output ? 1 : 0, now, 0.01);
+    this.monitorSend.gain.setTargetAtTime(state.routing.monitor ? 1 : 0, now, 0.01);
+  }
+
+  /**
+   * Sync the filter chain with the track's filter list
+   */
+  setFilters(configs: AudioFilterConfig[]): void {
+    const previous = new Map(this.filters.map(filter => [filter.id, filter]));
+    const next: ChannelFilter[] = [];
+
+    for (const config of configs) {
+      if (!config.enabled) continue;
+
+      let filter = previous.get(config.id);
+      if (filter && filter.type !== config.type) {
+        filter.unit.dispose();
+        filter = undefined;
+      }
+
+      if (!filter) {
+        const unit = createAudioFilterUnit(this.context, config.type);
+        if (!unit) continue;
+        filter = { id: config.id, type: config.type, unit, settingsKey: '' };
+      }
+      previous.delete(config.id);
+
+      const settingsKey = JSON.stringify(config.settings ?? {});
+      if (settingsKey !== filter.settingsKey) {
+        filter.unit.update(config.settings ?? {});
+        filter.settingsKey = settingsKey;
+      }
+      next.push(filter);
+    }
+
+    previous.forEach(filter => filter.unit.dispose());
+
+    const structureChanged =
+      next.length !== this.filters.length || next.some((filter, i) => filter !== this.filters[i]);
+    this.filters = next;
+
+    if (structureChanged) {
+      this.connectFilters();
+    }
+  }
+
+  /**
+   * Measure input (pre-filter) and output (post-fader) levels
+   */
+  readLevels(): { input: MeterReading; output: MeterReading } {
+    return {
+      input: this.inputMeter.read(),
+      output: this.outputMeter.read()
+    };
+  }
+
+  dispose(): void {
+    this.filters.forEach(filter => filter.unit.dispose());
+    this.filters = [];
+    [this.input, this.fader, this.panner, this.outputSend, this.monitorSend].forEach(node =>
+      node.disconnect()
+    );
+    this.inputMeter.dispose();
+    this.outputMeter.dispose();
+  }
+
+  /**
+   * Rewire input -> filters -> fader
+   */
+  private connectFilters(): void {
+    this.input.disconnect();
+    this.filters.forEach(filter => filter.unit.output.disconnect());
+
+    this.input.connect(this.inputMeter.input);
+
+    let previous: AudioNode = this.input;
+    for (const filter of this.filters) {
+      previous.connect(filter.unit.input);
+      previous = filter.unit.output;
+    }
+    previous.connect(this.fader);
+  }
+}
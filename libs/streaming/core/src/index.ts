@@ -10,19 +10,34 @@ export * from './lib/models/virtual-camera.model';
 
 // Services
 export * from './lib/services/scene.service';
+export * from './lib/services/scene-graph';
+export * from './lib/services/scene-migration';
+export * from './lib/services/obs-import';
+export * from './lib/services/transform-editing';
 export * from './lib/services/source.service';
 export * from './lib/services/streaming.service';
+export * from './lib/services/whip-client';
+export * from './lib/services/whep-feed.service';
 export * from './lib/services/recording.service';
 export * from './lib/services/audio.service';
+export * from './lib/services/sync-calibration.service';
 export * from './lib/services/settings.service';
 export * from './lib/services/hotkey.service';
+export * from './lib/services/history.service';
 export * from './lib/services/plugin.service';
 export * from './lib/services/studio-mode.service';
 export * from './lib/services/virtual-camera.service';
+export * from './lib/services/compositor.service';
+export * from './lib/services/browser-source';
+export * from './lib/services/browser-source.service';
+export * from './lib/services/transition.service';
+export * from './lib/services/program-output.service';
+export * from './lib/services/system-stats.service';
 export * from './lib/services/ai.service';
 export * from './lib/services/firebase.service';
 export * from './lib/services/firebase-enhanced.service';
 export * from './lib/services/music-library.service';
+export * from './lib/services/adaptive-bitrate';
 export * from './lib/services/stream-health-monitor.service';
 export * from './lib/services/voice-commands.service';
 export * from './lib/services/chat-moderation.service';
@@ -71,9 +86,11 @@ export * from './lib/services/card-game-duels.service';
 
 // Components
 export * from './lib/components/scene-list/scene-list.component';
+export * from './lib/components/history-panel/history-panel.component';
 export * from './lib/components/streaming-controls/streaming-controls.component';
 export * from './lib/components/audio-mixer/audio-mixer.component';
 export * from './lib/components/video-preview/video-preview.component';
+export * from './lib/components/studio-mode/studio-mode.component';
 export * from './lib/components/source-properties/source-properties.component';
 export * from './lib/components/scene-transitions/scene-transitions.component';
 export * from './lib/components/hotkey-config/hotkey-config.component';
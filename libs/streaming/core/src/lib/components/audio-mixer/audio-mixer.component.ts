@@ -742,21 +742,11 @@ export class AudioMixerComponent {
       const newMetering = new Map<string, number[]>();
 
       // Master metering
-      newMetering.set('master', [
-        Math.random() * this.masterVolume(),
-        Math.random() * this.masterVolume()
-      ]);
+      newMetering.set('master', this.audioService.readMasterMetering());
 
-      // Track metering
+      // Track metering, measured post-fader so muted tracks read silent
       this.audioTracks().forEach((track) => {
-        if (!track.muted) {
-          newMetering.set(track.id, [
-            Math.random() * track.volume,
-            Math.random() * track.volume
-          ]);
-        } else {
-          newMetering.set(track.id, [0, 0]);
-        }
+        newMetering.set(track.id, this.audioService.readTrackMetering(track.id).peak);
       });
 
       this.meteringDataSignal.set(newMetering);
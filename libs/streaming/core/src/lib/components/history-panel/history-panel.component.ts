@@ -0,0 +1,131 @@
+import { Component, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatListModule } from '@angular/material/list';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatCardModule } from '@angular/material/card';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { HistoryEntry, HistoryService, REDO_HOTKEY, UNDO_HOTKEY } from '../../services/history.service';
+import { HotkeyService } from '../../services/hotkey.service';
+
+@Component({
+  selector: 'lib-history-panel',
+  standalone: true,
+  imports: [CommonModule, MatListModule, MatButtonModule, MatIconModule, MatCardModule, MatTooltipModule],
+  template: `
+    <mat-card class="history-panel">
+      <mat-card-header>
+        <mat-card-title>History</mat-card-title>
+        <div class="history-actions">
+          <button
+            mat-icon-button
+            (click)="history.undo()"
+            [disabled]="!history.canUndo()"
+            [matTooltip]="'Undo (' + undoHotkey + ')'"
+          >
+            <mat-icon>undo</mat-icon>
+          </button>
+          <button
+            mat-icon-button
+            (click)="history.redo()"
+            [disabled]="!history.canRedo()"
+            [matTooltip]="'Redo (' + redoHotkey + ')'"
+          >
+            <mat-icon>redo</mat-icon>
+          </button>
+          <button
+            mat-icon-button
+            (click)="history.clear()"
+            [disabled]="!history.canUndo() && !history.canRedo()"
+            matTooltip="Clear history"
+          >
+            <mat-icon>delete_sweep</mat-icon>
+          </button>
+        </div>
+      </mat-card-header>
+
+      <mat-card-content>
+        <mat-list class="history-items">
+          <mat-list-item
+            class="history-item"
+            [class.current]="!history.canUndo()"
+            (click)="history.goTo(null)"
+            (keyup.enter)="history.goTo(null)"
+            tabindex="0"
+            role="button"
+          >
+            <div matListItemTitle>Start</div>
+          </mat-list-item>
+          @for (entry of entries(); track entry.id) {
+            <mat-list-item
+              class="history-item"
+              [class.undone]="isUndone(entry)"
+              [class.current]="entry.id === currentId()"
+              (click)="history.goTo(entry.id)"
+              (keyup.enter)="history.goTo(entry.id)"
+              tabindex="0"
+              role="button"
+            >
+              <div matListItemTitle>{{ entry.label }}</div>
+              <div matListItemLine>{{ entry.timestamp | date: 'mediumTime' }}</div>
+            </mat-list-item>
+          }
+        </mat-list>
+      </mat-card-content>
+    </mat-card>
+  `,
+  styles: [`
+    .history-panel {
+      height: 100%;
+    }
+
+    mat-card-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      padding: 1rem;
+    }
+
+    .history-actions {
+      display: flex;
+      gap: 0.25rem;
+    }
+
+    .history-items {
+      max-height: 300px;
+      overflow-y: auto;
+    }
+
+    .history-item {
+      cursor: pointer;
+      transition: background 0.2s;
+    }
+
+    .history-item.current {
+      background: rgba(63, 81, 181, 0.2);
+    }
+
+    .history-item.undone {
+      opacity: 0.5;
+    }
+  `]
+})
+export class HistoryPanelComponent {
+  readonly history = inject(HistoryService);
+  private hotkeyService = inject(HotkeyService);
+
+  readonly undoHotkey = this.hotkeyService.getHotkeyString(UNDO_HOTKEY);
+  readonly redoHotkey = this.hotkeyService.getHotkeyString(REDO_HOTKEY);
+
+  // Applied steps first, then the undone ones in the order they would be redone
+  readonly entries = computed(() => [...this.history.undoStack(), ...[...this.history.redoStack()].reverse()]);
+
+  readonly currentId = computed(() => {
+    const stack = this.history.undoStack();
+    return stack.length > 0 ? stack[stack.length - 1].id : null;
+  });
+
+  isUndone(entry: HistoryEntry): boolean {
+    return this.history.redoStack().includes(entry);
+  }
+}
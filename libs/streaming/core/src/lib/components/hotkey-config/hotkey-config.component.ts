@@ -9,6 +9,7 @@ import { MatCardModule } from '@angular/material/card';
 import { MatDividerModule } from '@angular/material/divider';
 import { MatChipsModule } from '@angular/material/chips';
 import { HotkeyService, HotkeyBinding } from '../../services/hotkey.service';
+import { REDO_HOTKEY, UNDO_HOTKEY } from '../../services/history.service';
 import { Hotkey } from '../../models/settings.model';
 
 interface HotkeyCategory {
@@ -87,6 +88,13 @@ export class HotkeyConfigComponent {
         { id: 'scene.4', name: 'Switch to Scene 4', description: 'Activate scene 4' },
       ]
     },
+    {
+      name: 'Edit',
+      actions: [
+        { id: 'edit.undo', name: 'Undo', description: 'Undo the last scene, source or filter edit', defaultHotkey: UNDO_HOTKEY },
+        { id: 'edit.redo', name: 'Redo', description: 'Redo the last undone edit', defaultHotkey: REDO_HOTKEY },
+      ]
+    },
     {
       name: 'Audio',
       actions: [
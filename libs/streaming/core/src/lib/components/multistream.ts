@@ -1,31 +1,40 @@
 import {
   ChangeDetectionStrategy,
   Component,
-  OnDestroy,
   signal,
   computed,
-  effect,
+  inject,
 } from '@angular/core';
-
-export type PlatformType = 'twitch' | 'youtube' | 'facebook' | 'kick' | 'tiktok' | 'custom';
+import {
+  AdaptiveBitrateSettings,
+  DestinationConnectionState,
+  DestinationStatus,
+  HlsSettings,
+  StreamingDestination,
+  StreamingPlatform,
+  StreamingProtocol,
+  StreamingSettings,
+} from '../models/streaming.model';
+import {
+  DEFAULT_HLS_SETTINGS,
+  StreamingService,
+  hlsPlaylistUrl,
+  protocolFromUrl
+} from '../services/streaming.service';
+import { getAdaptiveBitrateSettings } from '../services/adaptive-bitrate';
+import { WhepFeedService } from '../services/whep-feed.service';
 
 export type StreamStatus = 'disconnected' | 'connecting' | 'live' | 'error' | 'stopping';
 
-interface Platform {
-  id: string;
-  type: PlatformType;
-  name: string;
-  enabled: boolean;
-  streamKey: string;
-  streamUrl: string;
+/**
+ * A destination with its state in the current stream
+ */
+interface DestinationView {
+  destination: StreamingDestination;
   status: StreamStatus;
-  bitrate: number;
-  resolution: string;
-  fps: number;
-  viewerCount: number;
-  uploadSpeed: number;
-  droppedFrames: number;
+  stats?: DestinationStatus['stats'];
   lastError?: string;
+  reconnectAttempt?: number;
 }
 
 interface StreamPreset {
@@ -43,12 +52,20 @@ interface StreamPreset {
   styleUrl: './multistream.css',
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
-export class Multistream implements OnDestroy {
-  readonly platforms = signal<Platform[]>([]);
+export class Multistream {
+  private streamingService = inject(StreamingService);
+  private whepFeed = inject(WhepFeedService);
+
   readonly selectedPlatformId = signal<string | null>(null);
   readonly showAddDialog = signal(false);
   readonly showPresetsDialog = signal(false);
-  readonly isStreamingAny = signal(false);
+  readonly isStreamingAny = this.streamingService.isStreaming;
+  readonly feedShared = this.whepFeed.sharing;
+  readonly feedViewers = this.whepFeed.viewerCount;
+  readonly feedShareError = this.whepFeed.shareError;
+  readonly whepEndpoint = this.whepFeed.endpoint;
+
+  readonly platformTypes = Object.values(StreamingPlatform);
 
   readonly streamPresets: StreamPreset[] = [
     { name: '1080p 60fps High', resolution: '1920x1080', fps: 60, bitrate: 6000, description: 'High quality for fast internet' },
@@ -58,223 +75,230 @@ export class Multistream implements OnDestroy {
     { name: '480p 30fps Ultra Low', resolution: '854x480', fps: 30, bitrate: 1000, description: 'Slow connections' },
   ];
 
+  readonly platforms = computed<DestinationView[]>(() => {
+    const statuses = this.streamingService.destinationStatuses();
+    return this.streamingService.destinations().map(destination => {
+      const status = statuses[destination.id];
+      return {
+        destination,
+        status: this.toStreamStatus(status?.state),
+        stats: status?.stats,
+        lastError: status?.state === DestinationConnectionState.ERROR ? status.error : undefined,
+        reconnectAttempt: status?.reconnectAttempt,
+      };
+    });
+  });
+
   readonly selectedPlatform = computed(() => {
     const id = this.selectedPlatformId();
-    return this.platforms().find(p => p.id === id);
+    return this.platforms().find(p => p.destination.id === id);
   });
 
   readonly enabledPlatforms = computed(() =>
-    this.platforms().filter(p => p.enabled)
+    this.platforms().filter(p => p.destination.enabled)
   );
 
   readonly livePlatforms = computed(() =>
-    this.platforms().filter(p => p.status === 'live')
+    this.platforms().filter(p => p.status === 'live' || p.status === 'connecting')
   );
 
-  readonly totalViewers = computed(() =>
-    this.platforms().reduce((sum, p) => sum + (p.status === 'live' ? p.viewerCount : 0), 0)
+  readonly totalUpload = computed(() =>
+    this.platforms().reduce((sum, p) => sum + (p.status === 'live' ? p.stats?.bitrate ?? 0 : 0), 0)
   );
 
-  private statsInterval?: number;
-
-  constructor() {
-    // Load from localStorage
-    const saved = localStorage.getItem('multistream_platforms');
-    if (saved) {
-      this.platforms.set(JSON.parse(saved));
-    }
-
-    // Start stats simulator
-    this.startStatsSimulator();
-
-    // Update isStreamingAny
-    effect(() => {
-      this.isStreamingAny.set(this.livePlatforms().length > 0);
-    });
-  }
-
-  ngOnDestroy(): void {
-    if (this.statsInterval) {
-      clearInterval(this.statsInterval);
-    }
-  }
-
-  addPlatform(type: PlatformType): void {
-    const newPlatform: Platform = {
-      id: `platform-${Date.now()}-${Math.random()}`,
-      type,
+  addPlatform(type: StreamingPlatform): void {
+    const preset = this.streamingService.createPresetForPlatform(type);
+    const destination = this.streamingService.addDestination({
       name: this.getPlatformName(type),
-      enabled: false,
+      platform: type,
+      protocol: preset.protocol ?? StreamingProtocol.RTMP,
+      url: preset.url ?? '',
       streamKey: '',
-      streamUrl: this.getDefaultStreamUrl(type),
-      status: 'disconnected',
-      bitrate: 4500,
-      resolution: '1920x1080',
-      fps: 30,
-      viewerCount: 0,
-      uploadSpeed: 0,
-      droppedFrames: 0,
-    };
+      enabled: false,
+      settings: preset.settings as StreamingSettings,
+    });
 
-    this.platforms.update(platforms => [...platforms, newPlatform]);
-    this.selectedPlatformId.set(newPlatform.id);
+    this.selectedPlatformId.set(destination.id);
     this.showAddDialog.set(false);
-    this.saveToStorage();
   }
 
   addPlatformByType(type: string): void {
-    this.addPlatform(type as PlatformType);
+    this.addPlatform(type as StreamingPlatform);
   }
 
   removePlatform(id: string): void {
-    const platform = this.platforms().find(p => p.id === id);
+    const platform = this.platforms().find(p => p.destination.id === id);
     if (platform?.status === 'live') {
       alert('Stop streaming to this platform before removing it.');
       return;
     }
 
     if (confirm('Remove this platform?')) {
-      this.platforms.update(platforms => platforms.filter(p => p.id !== id));
+      this.streamingService.removeDestination(id);
       if (this.selectedPlatformId() === id) {
         this.selectedPlatformId.set(null);
       }
-      this.saveToStorage();
     }
   }
 
-  updatePlatform(id: string, updates: Partial<Platform>): void {
-    this.platforms.update(platforms =>
-      platforms.map(p => (p.id === id ? { ...p, ...updates } : p))
-    );
-    this.saveToStorage();
+  updatePlatform(id: string, updates: Partial<StreamingDestination>): void {
+    this.streamingService.updateDestination(id, updates);
+  }
+
+  /**
+   * Change the stream URL, and the protocol with its scheme. HLS output
+   * keeps its protocol; its URL is where players reach the API.
+   */
+  updateStreamUrl(id: string, url: string): void {
+    const destination = this.platforms().find(p => p.destination.id === id)?.destination;
+    const protocol = destination && this.isHls(destination) ? null : protocolFromUrl(url);
+    this.updatePlatform(id, protocol ? { url, protocol } : { url });
+  }
+
+  isHls(destination: StreamingDestination): boolean {
+    return destination.protocol === StreamingProtocol.HLS;
+  }
+
+  getHlsPlaylistUrl(destination: StreamingDestination): string {
+    return hlsPlaylistUrl(destination);
+  }
+
+  getHls(settings: StreamingSettings): HlsSettings {
+    return settings.hls ?? DEFAULT_HLS_SETTINGS;
+  }
+
+  updateHls(id: string, updates: Partial<HlsSettings>): void {
+    const platform = this.platforms().find(p => p.destination.id === id);
+    if (!platform) return;
+
+    this.updateSettings(id, { hls: { ...this.getHls(platform.destination.settings), ...updates } });
+  }
+
+  isWhip(destination: StreamingDestination): boolean {
+    return destination.protocol === StreamingProtocol.WebRTC;
+  }
+
+  toggleFeedSharing(): void {
+    if (this.whepFeed.sharing()) {
+      this.whepFeed.stopSharing();
+    } else {
+      this.whepFeed.share();
+    }
+  }
+
+  updateSettings(id: string, updates: Partial<StreamingSettings>): void {
+    const platform = this.platforms().find(p => p.destination.id === id);
+    if (!platform) return;
+
+    this.updatePlatform(id, { settings: { ...platform.destination.settings, ...updates } });
+  }
+
+  updateResolution(id: string, resolution: string): void {
+    const [width, height] = resolution.split('x').map(Number);
+    this.updateSettings(id, { resolution: { width, height } });
+  }
+
+  getAdaptiveBitrate(settings: StreamingSettings): AdaptiveBitrateSettings {
+    return getAdaptiveBitrateSettings(settings);
+  }
+
+  updateAdaptiveBitrate(id: string, updates: Partial<AdaptiveBitrateSettings>): void {
+    const platform = this.platforms().find(p => p.destination.id === id);
+    if (!platform) return;
+
+    const adaptiveBitrate = { ...getAdaptiveBitrateSettings(platform.destination.settings), ...updates };
+    this.updateSettings(id, { adaptiveBitrate });
   }
 
   togglePlatform(id: string): void {
-    const platform = this.platforms().find(p => p.id === id);
+    const platform = this.platforms().find(p => p.destination.id === id);
     if (!platform) return;
 
-    if (platform.enabled && platform.status === 'live') {
+    if (platform.destination.enabled && platform.status === 'live') {
       alert('Stop streaming before disabling this platform.');
       return;
     }
 
-    this.updatePlatform(id, { enabled: !platform.enabled });
+    this.streamingService.toggleDestination(id, !platform.destination.enabled);
   }
 
-  startStreaming(id: string): void {
-    const platform = this.platforms().find(p => p.id === id);
+  async startStreaming(id: string): Promise<void> {
+    const platform = this.platforms().find(p => p.destination.id === id);
     if (!platform) return;
 
-    if (!platform.streamKey.trim()) {
+    if (this.needsStreamKey(platform.destination)) {
       alert('Please enter a stream key first!');
       return;
     }
 
-    // Simulate connection process
-    this.updatePlatform(id, { status: 'connecting', lastError: undefined });
-
-    setTimeout(() => {
-      const success = Math.random() > 0.1; // 90% success rate
-      if (success) {
-        this.updatePlatform(id, { status: 'live', viewerCount: Math.floor(Math.random() * 50) });
-      } else {
-        this.updatePlatform(id, {
-          status: 'error',
-          lastError: 'Failed to connect. Check your stream key and internet connection.',
-        });
-      }
-    }, 2000);
+    try {
+      await this.streamingService.startDestination(id);
+    } catch (error) {
+      alert('Failed to start streaming: ' + error);
+    }
   }
 
-  stopStreaming(id: string): void {
-    const platform = this.platforms().find(p => p.id === id);
-    if (!platform) return;
-
-    this.updatePlatform(id, { status: 'stopping' });
-
-    setTimeout(() => {
-      this.updatePlatform(id, {
-        status: 'disconnected',
-        viewerCount: 0,
-        uploadSpeed: 0,
-        droppedFrames: 0,
-      });
-    }, 1000);
+  async stopStreaming(id: string): Promise<void> {
+    await this.streamingService.stopDestination(id);
   }
 
-  startAllStreaming(): void {
+  async startAllStreaming(): Promise<void> {
     const enabled = this.enabledPlatforms();
     if (enabled.length === 0) {
       alert('Please enable at least one platform first!');
       return;
     }
 
-    const notConfigured = enabled.filter(p => !p.streamKey.trim());
+    const notConfigured = enabled.filter(p => this.needsStreamKey(p.destination));
     if (notConfigured.length > 0) {
-      alert(`Please configure stream keys for: ${notConfigured.map(p => p.name).join(', ')}`);
+      alert(`Please configure stream keys for: ${notConfigured.map(p => p.destination.name).join(', ')}`);
       return;
     }
 
-    enabled.forEach(p => {
-      if (p.status === 'disconnected') {
-        this.startStreaming(p.id);
+    try {
+      if (!this.streamingService.isStreaming()) {
+        await this.streamingService.startStreaming();
+        return;
       }
-    });
+
+      for (const platform of enabled) {
+        if (platform.status === 'disconnected' || platform.status === 'error') {
+          await this.streamingService.startDestination(platform.destination.id);
+        }
+      }
+    } catch (error) {
+      alert('Failed to start streaming: ' + error);
+    }
   }
 
-  stopAllStreaming(): void {
+  async stopAllStreaming(): Promise<void> {
     const live = this.livePlatforms();
     if (live.length === 0) return;
 
     if (confirm(`Stop streaming to all ${live.length} platform(s)?`)) {
-      live.forEach(p => this.stopStreaming(p.id));
+      await this.streamingService.stopStreaming();
     }
   }
 
   applyPreset(platformId: string, preset: StreamPreset): void {
-    this.updatePlatform(platformId, {
-      resolution: preset.resolution,
+    const [width, height] = preset.resolution.split('x').map(Number);
+    this.updateSettings(platformId, {
+      resolution: { width, height },
       fps: preset.fps,
-      bitrate: preset.bitrate,
+      videoBitrate: preset.bitrate,
     });
     this.showPresetsDialog.set(false);
   }
 
-  testConnection(id: string): void {
-    const platform = this.platforms().find(p => p.id === id);
-    if (!platform) return;
-
-    if (!platform.streamKey.trim()) {
-      alert('Please enter a stream key first!');
-      return;
-    }
-
-    this.updatePlatform(id, { status: 'connecting' });
-
-    setTimeout(() => {
-      const success = Math.random() > 0.2; // 80% success rate
-      if (success) {
-        alert('Connection test successful!');
-        this.updatePlatform(id, { status: 'disconnected', lastError: undefined });
-      } else {
-        alert('Connection test failed. Check your stream key and URL.');
-        this.updatePlatform(id, {
-          status: 'error',
-          lastError: 'Connection test failed',
-        });
-      }
-    }, 1500);
+  formatResolution(settings: StreamingSettings): string {
+    return `${settings.resolution.width}x${settings.resolution.height}`;
   }
 
   exportConfig(): void {
     // Remove sensitive data before export
-    const exportData = this.platforms().map(p => ({
-      ...p,
+    const exportData = this.streamingService.destinations().map(d => ({
+      ...d,
       streamKey: '', // Don't export stream keys
-      viewerCount: 0,
-      uploadSpeed: 0,
-      droppedFrames: 0,
-      status: 'disconnected' as StreamStatus,
     }));
 
     const data = JSON.stringify(exportData, null, 2);
@@ -294,6 +318,9 @@ export class Multistream implements OnDestroy {
       facebook: '👥',
       kick: '⚡',
       tiktok: '🎵',
+      twitter: '🐦',
+      linkedin: '💼',
+      hls: '🖥️',
       custom: '🌐',
     };
     return icons[type];
@@ -306,6 +333,9 @@ export class Multistream implements OnDestroy {
       facebook: 'Facebook Gaming',
       kick: 'Kick',
       tiktok: 'TikTok',
+      twitter: 'X (Twitter)',
+      linkedin: 'LinkedIn',
+      hls: 'HLS Output',
       custom: 'Custom RTMP',
     };
     return names[type];
@@ -318,6 +348,9 @@ export class Multistream implements OnDestroy {
       facebook: '#1877F2',
       kick: '#53FC18',
       tiktok: '#FE2C55',
+      twitter: '#1DA1F2',
+      linkedin: '#0A66C2',
+      hls: '#F5A623',
       custom: '#6C757D',
     };
     return colors[type];
@@ -345,36 +378,27 @@ export class Multistream implements OnDestroy {
     return labels[status];
   }
 
-  private getDefaultStreamUrl(type: PlatformType): string {
-    const urls: Record<PlatformType, string> = {
-      twitch: 'rtmp://live.twitch.tv/app/',
-      youtube: 'rtmp://a.rtmp.youtube.com/live2/',
-      facebook: 'rtmps://live-api-s.facebook.com:443/rtmp/',
-      kick: 'rtmp://stream.kick.com/live/',
-      tiktok: 'rtmp://live.tiktok.com/live/',
-      custom: 'rtmp://',
-    };
-    return urls[type];
-  }
-
-  private startStatsSimulator(): void {
-    this.statsInterval = window.setInterval(() => {
-      this.platforms.update(platforms =>
-        platforms.map(p => {
-          if (p.status !== 'live') return p;
-
-          return {
-            ...p,
-            viewerCount: Math.max(0, p.viewerCount + Math.floor(Math.random() * 10 - 4)),
-            uploadSpeed: p.bitrate + Math.random() * 500 - 250,
-            droppedFrames: p.droppedFrames + (Math.random() > 0.9 ? 1 : 0),
-          };
-        })
-      );
-    }, 3000);
+  private toStreamStatus(state?: DestinationConnectionState): StreamStatus {
+    switch (state) {
+      case DestinationConnectionState.CONNECTING:
+        return 'connecting';
+      case DestinationConnectionState.LIVE:
+        return 'live';
+      case DestinationConnectionState.STOPPING:
+        return 'stopping';
+      case DestinationConnectionState.ERROR:
+        return 'error';
+      default:
+        return 'disconnected';
+    }
   }
 
-  private saveToStorage(): void {
-    localStorage.setItem('multistream_platforms', JSON.stringify(this.platforms()));
+  /**
+   * Platforms need a key; custom servers may not, and HLS output falls back to its ID
+   */
+  private needsStreamKey(destination: StreamingDestination): boolean {
+    return destination.platform !== StreamingPlatform.CUSTOM &&
+      destination.platform !== StreamingPlatform.HLS &&
+      !destination.streamKey.trim();
   }
 }
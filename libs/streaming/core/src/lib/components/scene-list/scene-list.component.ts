@@ -6,8 +6,11 @@ import { MatIconModule } from '@angular/material/icon';
 import { MatCardModule } from '@angular/material/card';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatSelectModule } from '@angular/material/select';
+import { MatFormFieldModule } from '@angular/material/form-field';
 import { Scene } from '../../models/scene.model';
 import { SceneService } from '../../services/scene.service';
+import { StudioModeService } from '../../services/studio-mode.service';
 
 @Component({
   selector: 'lib-scene-list',
@@ -19,7 +22,9 @@ import { SceneService } from '../../services/scene.service';
     MatIconModule,
     MatCardModule,
     MatProgressSpinnerModule,
-    MatTooltipModule
+    MatTooltipModule,
+    MatSelectModule,
+    MatFormFieldModule
   ],
   template: `
     <mat-card class="scene-list">
@@ -32,11 +37,49 @@ import { SceneService } from '../../services/scene.service';
       </mat-card-header>
 
       <mat-card-content>
+        <div class="collection-bar">
+          <mat-form-field appearance="outline" class="collection-select">
+            <mat-label>Scene Collection</mat-label>
+            <mat-select
+              [value]="sceneService.activeCollectionId()"
+              (selectionChange)="onCollectionChange($event.value)"
+            >
+              @for (collection of sceneService.sceneCollections(); track collection.id) {
+                <mat-option [value]="collection.id">{{ collection.name }}</mat-option>
+              }
+            </mat-select>
+          </mat-form-field>
+          <button mat-icon-button (click)="onAddCollection()" matTooltip="New collection">
+            <mat-icon>library_add</mat-icon>
+          </button>
+          <button
+            mat-icon-button
+            (click)="onExportCollection()"
+            [disabled]="!sceneService.activeCollectionId() && sceneService.scenes().length === 0"
+            matTooltip="Export collection"
+          >
+            <mat-icon>file_download</mat-icon>
+          </button>
+          <button mat-icon-button (click)="importInput.click()" matTooltip="Import collection or OBS scene collection">
+            <mat-icon>file_upload</mat-icon>
+          </button>
+          <input #importInput type="file" accept=".json,application/json" hidden (change)="onImportCollection($event)" />
+        </div>
+
+        @if (sceneService.saveError(); as saveError) {
+          <div class="save-error" role="alert">
+            <mat-icon color="warn">error</mat-icon>
+            <span>{{ saveError }}</span>
+            <button mat-button (click)="sceneService.saveNow()">Retry</button>
+          </div>
+        }
+
         <mat-list class="scene-items">
           @for (scene of sceneService.scenes(); track scene.id) {
             <mat-list-item
               class="scene-item"
               [class.active]="scene.id === sceneService.activeSceneId()"
+              [class.preview]="scene.id === sceneService.previewSceneId()"
               (click)="onSceneClick(scene)"
               (keyup.enter)="onSceneClick(scene)"
               (keyup.space)="onSceneClick(scene)"
@@ -92,6 +135,24 @@ import { SceneService } from '../../services/scene.service';
       padding: 1rem;
     }
 
+    .collection-bar {
+      display: flex;
+      align-items: center;
+      gap: 0.25rem;
+    }
+
+    .collection-select {
+      flex: 1;
+    }
+
+    .save-error {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+      padding: 0.5rem 0;
+      color: #ff4c4c;
+    }
+
     .scene-items {
       max-height: 500px;
       overflow-y: auto;
@@ -106,6 +167,10 @@ import { SceneService } from '../../services/scene.service';
       background: rgba(63, 81, 181, 0.2);
     }
 
+    .scene-item.preview {
+      box-shadow: inset 3px 0 0 #4caf50;
+    }
+
     .scene-actions {
       display: flex;
       gap: 0.25rem;
@@ -149,6 +214,7 @@ export class SceneListComponent {
   readonly sceneDeleted = output<Scene>();
 
   readonly sceneService = inject(SceneService);
+  private studioModeService = inject(StudioModeService);
 
   constructor() {
     // Using effect for side effects
@@ -158,7 +224,12 @@ export class SceneListComponent {
   }
 
   onSceneClick(scene: Scene): void {
-    this.sceneService.setActiveScene(scene.id);
+    // In studio mode scenes are picked for the preview and go on air from there
+    if (this.studioModeService.studioMode().enabled) {
+      this.studioModeService.setPreviewScene(scene.id);
+    } else {
+      this.sceneService.transitionToScene(scene.id);
+    }
     this.sceneSelected.emit(scene);
   }
 
@@ -182,6 +253,49 @@ export class SceneListComponent {
     this.sceneService.duplicateScene(scene.id);
   }
 
+  onCollectionChange(collectionId: string): void {
+    this.sceneService.loadSceneCollection(collectionId);
+  }
+
+  onAddCollection(): void {
+    const name = prompt('Enter collection name:');
+    if (name) {
+      this.sceneService.createSceneCollection(name);
+    }
+  }
+
+  onExportCollection(): void {
+    const collectionId = this.sceneService.activeCollectionId() ?? this.sceneService.createSceneCollection('Default').id;
+    const collection = this.sceneService.sceneCollections().find((c) => c.id === collectionId);
+    const json = this.sceneService.exportSceneCollection(collectionId);
+    const blob = new Blob([json], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${collection?.name ?? 'scene-collection'}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  async onImportCollection(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    try {
+      const { collections, warnings } = this.sceneService.importSceneCollectionFile(await file.text());
+      if (collections.length > 0) {
+        this.sceneService.loadSceneCollection(collections[0].id);
+      }
+      if (warnings.length > 0) {
+        alert(`Imported with warnings:\n${warnings.join('\n')}`);
+      }
+    } catch (error) {
+      alert(`Failed to import scene collection: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
   onDeleteScene(scene: Scene, event: Event): void {
     event.stopPropagation();
     if (confirm(`Delete scene "${scene.name}"?`)) {
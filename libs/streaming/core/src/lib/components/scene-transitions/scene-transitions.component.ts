@@ -1,4 +1,4 @@
-import { Component, signal, computed } from '@angular/core';
+import { Component, computed } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { MatButtonModule } from '@angular/material/button';
@@ -14,6 +14,13 @@ import { MatTooltipModule } from '@angular/material/tooltip';
 import { TransitionType, Transition } from '../../models/scene.model';
 import { SceneService } from '../../services/scene.service';
 
+const EASING_SETTING = {
+  key: 'easing',
+  label: 'Easing',
+  type: 'select',
+  options: ['linear', 'ease-in', 'ease-out', 'ease-in-out'],
+};
+
 @Component({
   selector: 'streaming-scene-transitions',
   standalone: true,
@@ -35,14 +42,8 @@ import { SceneService } from '../../services/scene.service';
   styleUrls: ['./scene-transitions.component.css'],
 })
 export class SceneTransitionsComponent {
-  // Current transition settings
-  private currentTransitionSignal = signal<Transition>({
-    type: TransitionType.FADE,
-    duration: 300,
-    settings: {},
-  });
-
-  readonly currentTransition = this.currentTransitionSignal.asReadonly();
+  // The default transition of the scene service drives every scene switch
+  readonly currentTransition = computed(() => this.sceneService.defaultTransition());
 
   // Available transition types
   readonly transitionTypes = Object.values(TransitionType);
@@ -99,7 +100,7 @@ export class SceneTransitionsComponent {
   constructor(public sceneService: SceneService) {}
 
   updateTransitionType(type: TransitionType): void {
-    this.currentTransitionSignal.update((t) => ({
+    this.updateTransition((t) => ({
       ...t,
       type,
       settings: this.getDefaultSettings(type),
@@ -107,14 +108,14 @@ export class SceneTransitionsComponent {
   }
 
   updateDuration(duration: number): void {
-    this.currentTransitionSignal.update((t) => ({
+    this.updateTransition((t) => ({
       ...t,
       duration: Math.max(0, Math.min(5000, duration)),
     }));
   }
 
   updateSetting(key: string, value: any): void {
-    this.currentTransitionSignal.update((t) => ({
+    this.updateTransition((t) => ({
       ...t,
       settings: {
         ...t.settings,
@@ -123,19 +124,37 @@ export class SceneTransitionsComponent {
     }));
   }
 
+  /**
+   * Use a local file for a file setting
+   */
+  selectFile(key: string, event: Event): void {
+    const file = (event.target as HTMLInputElement).files?.[0];
+    if (!file) return;
+
+    const previous = this.currentTransition().settings[key];
+    if (typeof previous === 'string' && previous.startsWith('blob:')) {
+      URL.revokeObjectURL(previous);
+    }
+
+    this.updateSetting(key, URL.createObjectURL(file));
+  }
+
   applyPreset(preset: (typeof this.presets)[0]): void {
-    this.currentTransitionSignal.set({
+    this.sceneService.setDefaultTransition({
       type: preset.type,
       duration: preset.duration,
-      settings: preset.settings || {},
+      settings: { ...this.getDefaultSettings(preset.type), ...preset.settings },
     });
   }
 
+  /**
+   * Play the transition on the program without changing scenes
+   */
   previewTransition(): void {
-    const transition = this.currentTransition();
-    console.log('Previewing transition:', transition);
-    // In a real app, this would trigger a visual preview
-    // For now, we'll just log it
+    const sceneId = this.sceneService.activeSceneId();
+    if (!sceneId) return;
+
+    this.sceneService.transitionToScene(sceneId, this.currentTransition());
   }
 
   getTransitionName(type: TransitionType): string {
@@ -152,6 +171,10 @@ export class SceneTransitionsComponent {
     return names[type] || type;
   }
 
+  private updateTransition(update: (transition: Transition) => Transition): void {
+    this.sceneService.setDefaultTransition(update(this.currentTransition()));
+  }
+
   getTransitionInfo(type: TransitionType): {
     description: string;
     icon: string;
@@ -160,6 +183,7 @@ export class SceneTransitionsComponent {
       label: string;
       type: string;
       options?: any[];
+      accept?: string;
     }>;
   } {
     const info: Record<TransitionType, any> = {
@@ -171,7 +195,7 @@ export class SceneTransitionsComponent {
       [TransitionType.FADE]: {
         description: 'Smooth fade between scenes',
         icon: '🌓',
-        settings: [],
+        settings: [EASING_SETTING],
       },
       [TransitionType.SWIPE]: {
         description: 'Swipe from one scene to another',
@@ -183,6 +207,7 @@ export class SceneTransitionsComponent {
             type: 'select',
             options: ['left', 'right', 'up', 'down'],
           },
+          EASING_SETTING,
         ],
       },
       [TransitionType.SLIDE]: {
@@ -195,13 +220,14 @@ export class SceneTransitionsComponent {
             type: 'select',
             options: ['left', 'right', 'up', 'down'],
           },
+          EASING_SETTING,
         ],
       },
       [TransitionType.STINGER]: {
         description: 'Use a video stinger for transitions',
         icon: '🎬',
         settings: [
-          { key: 'videoPath', label: 'Stinger Video', type: 'file' },
+          { key: 'videoPath', label: 'Stinger Video', type: 'file', accept: 'video/*' },
           {
             key: 'transitionPoint',
             label: 'Transition Point (ms)',
@@ -212,7 +238,10 @@ export class SceneTransitionsComponent {
       [TransitionType.FADE_TO_COLOR]: {
         description: 'Fade through a solid color',
         icon: '🎨',
-        settings: [{ key: 'color', label: 'Color', type: 'color' }],
+        settings: [
+          { key: 'color', label: 'Color', type: 'color' },
+          EASING_SETTING,
+        ],
       },
       [TransitionType.WIPE]: {
         description: 'Wipe across the screen',
@@ -224,14 +253,17 @@ export class SceneTransitionsComponent {
             type: 'select',
             options: ['left', 'right', 'up', 'down'],
           },
+          EASING_SETTING,
         ],
       },
       [TransitionType.LUMA_WIPE]: {
         description: 'Use a luma matte for transition',
         icon: '🖼️',
         settings: [
-          { key: 'imagePath', label: 'Luma Image', type: 'file' },
+          { key: 'imagePath', label: 'Luma Image', type: 'file', accept: 'image/*' },
+          { key: 'softness', label: 'Softness', type: 'number' },
           { key: 'invert', label: 'Invert', type: 'checkbox' },
+          EASING_SETTING,
         ],
       },
     };
@@ -242,13 +274,13 @@ export class SceneTransitionsComponent {
   private getDefaultSettings(type: TransitionType): any {
     const defaults: Record<TransitionType, any> = {
       [TransitionType.CUT]: {},
-      [TransitionType.FADE]: {},
-      [TransitionType.SWIPE]: { direction: 'left' },
-      [TransitionType.SLIDE]: { direction: 'left' },
+      [TransitionType.FADE]: { easing: 'linear' },
+      [TransitionType.SWIPE]: { direction: 'left', easing: 'ease-in-out' },
+      [TransitionType.SLIDE]: { direction: 'left', easing: 'ease-in-out' },
       [TransitionType.STINGER]: { videoPath: '', transitionPoint: 0 },
-      [TransitionType.FADE_TO_COLOR]: { color: '#000000' },
-      [TransitionType.WIPE]: { direction: 'left' },
-      [TransitionType.LUMA_WIPE]: { imagePath: '', invert: false },
+      [TransitionType.FADE_TO_COLOR]: { color: '#000000', easing: 'linear' },
+      [TransitionType.WIPE]: { direction: 'left', easing: 'linear' },
+      [TransitionType.LUMA_WIPE]: { imagePath: '', softness: 0.1, invert: false, easing: 'linear' },
     };
     return defaults[type] || {};
   }
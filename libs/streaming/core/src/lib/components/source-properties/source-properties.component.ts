@@ -12,8 +12,28 @@ import { MatSelectModule } from '@angular/material/select';
 import { MatListModule } from '@angular/material/list';
 import { MatBadgeModule } from '@angular/material/badge';
 import { MatTooltipModule } from '@angular/material/tooltip';
-import { Source, Transform, Filter, FilterType } from '../../models/source.model';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import {
+  BrowserSourceSettings,
+  DEFAULT_BROWSER_CSS,
+  MAX_SYNC_OFFSET_MS,
+  SourceType,
+  Transform,
+  Filter,
+  FilterType
+} from '../../models/source.model';
 import { SourceService } from '../../services/source.service';
+import { SceneService } from '../../services/scene.service';
+import { SyncCalibrationResult, SyncCalibrationService } from '../../services/sync-calibration.service';
+import { BrowserSourceService } from '../../services/browser-source.service';
+import { DEFAULT_BROWSER_SIZE, isBrowserPageReadable } from '../../services/browser-source';
+import { CompositorService } from '../../services/compositor.service';
+
+const DISPLAY_CAPTURE_TYPES = new Set<SourceType>([
+  SourceType.SCREEN_CAPTURE,
+  SourceType.WINDOW_CAPTURE,
+  SourceType.GAME_CAPTURE
+]);
 
 @Component({
   selector: 'streaming-source-properties',
@@ -31,7 +51,8 @@ import { SourceService } from '../../services/source.service';
     MatSelectModule,
     MatListModule,
     MatBadgeModule,
-    MatTooltipModule
+    MatTooltipModule,
+    MatCheckboxModule
   ],
   templateUrl: './source-properties.component.html',
   styleUrls: ['./source-properties.component.css']
@@ -39,6 +60,8 @@ import { SourceService } from '../../services/source.service';
 export class SourcePropertiesComponent {
   // Input for the selected source
   readonly sourceId = input<string | null>(null);
+  // Scene item to edit in the active scene; defaults to the first item showing the source
+  readonly sceneItemId = input<string | null>(null);
 
   // Events
   readonly propertyChanged = output<{ sourceId: string; property: string; value: any }>();
@@ -61,13 +84,65 @@ export class SourcePropertiesComponent {
     return src && src.filters && src.filters.length > 0;
   });
 
-  readonly transform = computed(() => this.source()?.transform);
+  readonly sceneItem = computed(() => {
+    const items = this.sceneService.editingScene()?.sources ?? [];
+    const itemId = this.sceneItemId();
+    const sourceId = this.sourceId();
+
+    return (
+      items.find(item => item.id === itemId) ??
+      items.find(item => item.sourceId === sourceId) ??
+      null
+    );
+  });
+
+  readonly transform = computed(() => this.sceneItem()?.transform);
   readonly filters = computed(() => this.source()?.filters || []);
 
   // Available filter types for dropdown
   readonly filterTypes = Object.values(FilterType);
 
-  constructor(private sourceService: SourceService) {}
+  // Audio sync
+  readonly maxSyncOffset = MAX_SYNC_OFFSET_MS;
+  readonly canCalibrateSync = computed(() => {
+    const type = this.source()?.type;
+    return type !== undefined && type !== SourceType.AUDIO_INPUT && type !== SourceType.AUDIO_OUTPUT;
+  });
+  readonly microphones = computed(() =>
+    this.sourceService.sources().filter(s => s.type === SourceType.AUDIO_INPUT)
+  );
+  readonly calibrationMicId = signal<string | null>(null);
+  readonly calibrationResult = signal<SyncCalibrationResult | null>(null);
+  readonly calibrationError = signal<string | null>(null);
+
+  // Browser page
+  readonly defaultBrowserSize = DEFAULT_BROWSER_SIZE;
+  readonly defaultBrowserCss = DEFAULT_BROWSER_CSS;
+  readonly browserSettings = computed(() => {
+    const src = this.source();
+    return src?.type === SourceType.BROWSER ? (src.settings as BrowserSourceSettings) : null;
+  });
+  // Captured pages get no mixer audio, custom CSS or transparency
+  readonly browserPageReadable = computed(() => {
+    const settings = this.browserSettings();
+    return settings ? isBrowserPageReadable(settings) : true;
+  });
+  readonly browserError = signal<string | null>(null);
+
+  // Screen and window capture
+  readonly isDisplayCapture = computed(() => {
+    const type = this.source()?.type;
+    return type !== undefined && DISPLAY_CAPTURE_TYPES.has(type);
+  });
+  readonly captureError = signal<string | null>(null);
+
+  constructor(
+    private sourceService: SourceService,
+    private sceneService: SceneService,
+    readonly syncCalibration: SyncCalibrationService,
+    readonly browserSourceService: BrowserSourceService,
+    private compositor: CompositorService
+  ) {}
 
   selectTab(tab: 'transform' | 'filters' | 'audio' | 'advanced'): void {
     this.selectedTabSignal.set(tab);
@@ -76,66 +151,46 @@ export class SourcePropertiesComponent {
   // Transform controls
   updatePosition(axis: 'x' | 'y', value: number): void {
     const src = this.source();
-    if (!src) return;
-
-    const newTransform: Transform = {
-      ...src.transform,
-      position: { ...src.transform.position, [axis]: value }
-    };
+    const item = this.sceneItem();
+    if (!src || !item) return;
 
-    this.sourceService.updateSource(src.id, { transform: newTransform });
+    this.updateTransform({ position: { ...item.transform.position, [axis]: value } });
     this.propertyChanged.emit({ sourceId: src.id, property: `position.${axis}`, value });
   }
 
   updateScale(axis: 'x' | 'y', value: number): void {
     const src = this.source();
-    if (!src) return;
-
-    const newTransform: Transform = {
-      ...src.transform,
-      scale: { ...src.transform.scale, [axis]: value }
-    };
+    const item = this.sceneItem();
+    if (!src || !item) return;
 
-    this.sourceService.updateSource(src.id, { transform: newTransform });
+    this.updateTransform({ scale: { ...item.transform.scale, [axis]: value } });
     this.propertyChanged.emit({ sourceId: src.id, property: `scale.${axis}`, value });
   }
 
   updateRotation(value: number): void {
     const src = this.source();
-    if (!src) return;
+    const item = this.sceneItem();
+    if (!src || !item) return;
 
-    const newTransform: Transform = {
-      ...src.transform,
-      rotation: value
-    };
-
-    this.sourceService.updateSource(src.id, { transform: newTransform });
+    this.updateTransform({ rotation: value });
     this.propertyChanged.emit({ sourceId: src.id, property: 'rotation', value });
   }
 
   updateCrop(edge: 'top' | 'bottom' | 'left' | 'right', value: number): void {
     const src = this.source();
-    if (!src) return;
-
-    const newTransform: Transform = {
-      ...src.transform,
-      crop: { ...src.transform.crop, [edge]: value }
-    };
+    const item = this.sceneItem();
+    if (!src || !item) return;
 
-    this.sourceService.updateSource(src.id, { transform: newTransform });
+    this.updateTransform({ crop: { ...item.transform.crop, [edge]: value } });
     this.propertyChanged.emit({ sourceId: src.id, property: `crop.${edge}`, value });
   }
 
   updateBoundsType(type: 'none' | 'stretch' | 'scale' | 'crop'): void {
     const src = this.source();
-    if (!src) return;
-
-    const newTransform: Transform = {
-      ...src.transform,
-      boundsType: type
-    };
+    const item = this.sceneItem();
+    if (!src || !item) return;
 
-    this.sourceService.updateSource(src.id, { transform: newTransform });
+    this.updateTransform({ boundsType: type });
     this.propertyChanged.emit({ sourceId: src.id, property: 'boundsType', value: type });
   }
 
@@ -156,21 +211,121 @@ export class SourcePropertiesComponent {
     this.propertyChanged.emit({ sourceId: src.id, property: 'muted', value: !src.muted });
   }
 
+  updateSyncOffset(value: number): void {
+    const src = this.source();
+    if (!src) return;
+
+    this.sourceService.setSyncOffset(src.id, value);
+    this.propertyChanged.emit({ sourceId: src.id, property: 'syncOffset', value });
+  }
+
+  /**
+   * Flash and beep, and measure how far this source lags behind the microphone
+   */
+  async calibrateSync(): Promise<void> {
+    const src = this.source();
+    const micId = this.calibrationMicId();
+    if (!src || !micId) return;
+
+    this.calibrationResult.set(null);
+    this.calibrationError.set(null);
+    try {
+      this.calibrationResult.set(await this.syncCalibration.calibrate(src.id, micId));
+    } catch (error) {
+      this.calibrationError.set(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  applySyncCalibration(): void {
+    const result = this.calibrationResult();
+    const micId = this.calibrationMicId();
+    if (!result || !micId) return;
+
+    this.syncCalibration.applyResult(micId, result);
+    this.calibrationResult.set(null);
+  }
+
+  // Browser page controls
+  updateBrowserSettings(changes: Partial<BrowserSourceSettings>): void {
+    const src = this.source();
+    const settings = this.browserSettings();
+    if (!src || !settings) return;
+
+    this.sourceService.updateSourceSettings(src.id, { ...settings, ...changes });
+    this.propertyChanged.emit({ sourceId: src.id, property: 'settings', value: changes });
+  }
+
+  updateBrowserUrl(url: string): void {
+    this.updateBrowserSettings({ url: url.trim(), file: undefined, html: undefined });
+  }
+
+  /**
+   * Show a local HTML file. Its contents are stored with the source.
+   */
+  async pickBrowserFile(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    this.updateBrowserSettings({ url: undefined, file: file.name, html: await file.text() });
+  }
+
+  refreshBrowserPage(): void {
+    const src = this.source();
+    if (src) this.browserSourceService.refresh(src.id);
+  }
+
+  async captureBrowserPage(): Promise<void> {
+    const src = this.source();
+    if (!src) return;
+
+    this.browserError.set(null);
+    try {
+      await this.browserSourceService.capture(src.id);
+    } catch (error) {
+      this.browserError.set(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Pick the screen or window to show. Must run from the click itself.
+   */
+  async captureDisplay(): Promise<void> {
+    const src = this.source();
+    if (!src) return;
+
+    this.captureError.set(null);
+    try {
+      await this.compositor.captureDisplay(src);
+    } catch (error) {
+      this.captureError.set(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  isCapturing(sourceId: string): boolean {
+    return !!this.compositor.getSourceStream(sourceId);
+  }
+
   // Visibility controls
   toggleVisibility(): void {
     const src = this.source();
-    if (!src) return;
+    const item = this.sceneItem();
+    const scene = this.sceneService.editingScene();
+    if (!src || !item || !scene) return;
 
-    this.sourceService.updateSource(src.id, { visible: !src.visible });
-    this.propertyChanged.emit({ sourceId: src.id, property: 'visible', value: !src.visible });
+    this.sceneService.setSceneItemVisible(scene.id, item.id, !item.visible);
+    this.propertyChanged.emit({ sourceId: src.id, property: 'visible', value: !item.visible });
   }
 
   toggleLock(): void {
     const src = this.source();
-    if (!src) return;
+    const item = this.sceneItem();
+    const scene = this.sceneService.editingScene();
+    if (!src || !item || !scene) return;
 
-    this.sourceService.updateSource(src.id, { locked: !src.locked });
-    this.propertyChanged.emit({ sourceId: src.id, property: 'locked', value: !src.locked });
+    this.sceneService.setSceneItemLocked(scene.id, item.id, !item.locked);
+    this.propertyChanged.emit({ sourceId: src.id, property: 'locked', value: !item.locked });
   }
 
   // Filter management
@@ -235,8 +390,7 @@ export class SourcePropertiesComponent {
   }
 
   resetTransform(): void {
-    const src = this.source();
-    if (!src) return;
+    if (!this.sceneItem()) return;
 
     const defaultTransform: Transform = {
       position: { x: 0, y: 0 },
@@ -249,7 +403,15 @@ export class SourcePropertiesComponent {
       bounds: { x: 0, y: 0 }
     };
 
-    this.sourceService.updateSource(src.id, { transform: defaultTransform });
+    this.updateTransform(defaultTransform);
+  }
+
+  private updateTransform(transform: Partial<Transform>): void {
+    const item = this.sceneItem();
+    const scene = this.sceneService.editingScene();
+    if (!item || !scene) return;
+
+    this.sceneService.updateSceneItemTransform(scene.id, item.id, transform);
   }
 
   getFilterName(type: FilterType): string {
@@ -13,6 +13,15 @@ import { MatChipsModule } from '@angular/material/chips';
 import { SceneService } from '../../services/scene.service';
 import { SourceService } from '../../services/source.service';
 import { SourceType, Source } from '../../models/source.model';
+import { SceneItem } from '../../models/scene.model';
+import { flattenSceneItems, getChildItems } from '../../services/scene-graph';
+
+interface SceneItemEntry {
+  item: SceneItem;
+  source: Source;
+  depth: number;
+  sceneCount: number;
+}
 
 interface SourceTypeOption {
   type: SourceType;
@@ -48,19 +57,20 @@ export class SourcesManagerComponent {
 
   // UI state
   private showAddDialogSignal = signal<boolean>(false);
-  private selectedSourceIdSignal = signal<string | null>(null);
-  private draggedSourceIdSignal = signal<string | null>(null);
+  private draggedItemIdSignal = signal<string | null>(null);
 
   readonly showAddDialog = this.showAddDialogSignal.asReadonly();
-  readonly selectedSourceId = this.selectedSourceIdSignal.asReadonly();
-  readonly draggedSourceId = this.draggedSourceIdSignal.asReadonly();
+  readonly selectedItemId = computed(() => this.sceneService.selectedItemId());
+  readonly draggedItemId = this.draggedItemIdSignal.asReadonly();
 
   // Add source form
   private newSourceNameSignal = signal<string>('');
   private selectedSourceTypeSignal = signal<SourceType>(SourceType.VIDEO_CAPTURE);
+  private nestedSceneIdSignal = signal<string | null>(null);
 
   readonly newSourceName = this.newSourceNameSignal.asReadonly();
   readonly selectedSourceType = this.selectedSourceTypeSignal.asReadonly();
+  readonly nestedSceneId = this.nestedSceneIdSignal.asReadonly();
 
   // Available source types
   readonly sourceTypes: SourceTypeOption[] = [
@@ -127,6 +137,20 @@ export class SourcesManagerComponent {
       icon: '🎨',
       category: 'other'
     },
+    {
+      type: SourceType.SCENE,
+      name: 'Scene',
+      description: 'Another scene as a source',
+      icon: '🎬',
+      category: 'other'
+    },
+    {
+      type: SourceType.GROUP,
+      name: 'Group',
+      description: 'Move, show and lock sources together',
+      icon: '📁',
+      category: 'other'
+    },
     {
       type: SourceType.AUDIO_INPUT,
       name: 'Audio Input Capture',
@@ -144,25 +168,56 @@ export class SourcesManagerComponent {
   ];
 
   // Computed values
-  readonly activeScene = computed(() => this.sceneService.activeScene());
+  // In studio mode the sources of the preview scene are edited, not those on air
+  readonly activeScene = computed(() => this.sceneService.editingScene());
 
-  readonly sceneSources = computed(() => {
+  // Items in hierarchy order; children of a group follow it, indented by depth
+  readonly sceneItems = computed<SceneItemEntry[]>(() => {
     const scene = this.activeScene();
     if (!scene) return [];
 
-    return scene.sources
-      .sort((a, b) => a.order - b.order)
-      .map(item => item.source);
+    const sources = new Map(this.sourceService.sources().map(source => [source.id, source]));
+    const scenes = this.sceneService.scenes();
+
+    return flattenSceneItems(scene).flatMap(({ item, depth }) => {
+      const source = sources.get(item.sourceId);
+      if (!source) return [];
+
+      const sceneCount = scenes.filter(candidate =>
+        candidate.sources.some(other => other.sourceId === item.sourceId)
+      ).length;
+      return [{ item, source, depth, sceneCount }];
+    });
+  });
+
+  readonly sceneSources = computed(() => this.sceneItems().map(({ source }) => source));
+
+  // Sources of other scenes that can be shared into the active scene
+  readonly existingSources = computed(() => {
+    const scene = this.activeScene();
+    const inScene = new Set(scene?.sources.map(item => item.sourceId) ?? []);
+
+    return this.sourceService
+      .sources()
+      .filter(source => !inScene.has(source.id) && source.type !== SourceType.GROUP)
+      .filter(source => source.type !== SourceType.SCENE || source.settings['sceneId'] !== scene?.id);
   });
 
-  readonly hasSelectedSource = computed(() => this.selectedSourceId() !== null);
+  // Scenes that can be nested into the active scene
+  readonly nestableScenes = computed(() => {
+    const scene = this.activeScene();
+    return this.sceneService.scenes().filter(candidate => candidate.id !== scene?.id);
+  });
 
-  readonly selectedSource = computed(() => {
-    const id = this.selectedSourceId();
-    if (!id) return null;
-    return this.sceneSources().find(s => s.id === id) || null;
+  readonly hasSelectedSource = computed(() => this.selectedEntry() !== null);
+
+  readonly selectedEntry = computed(() => {
+    const id = this.selectedItemId();
+    return this.sceneItems().find(entry => entry.item.id === id) ?? null;
   });
 
+  readonly selectedSource = computed(() => this.selectedEntry()?.source ?? null);
+
   readonly categorizedSourceTypes = computed(() => {
     const categories: Record<string, SourceTypeOption[]> = {
       video: [],
@@ -184,9 +239,9 @@ export class SourcesManagerComponent {
   ) {}
 
   // Source selection
-  selectSource(sourceId: string): void {
-    this.selectedSourceIdSignal.set(sourceId);
-    const source = this.sceneSources().find(s => s.id === sourceId);
+  selectSource(itemId: string): void {
+    this.sceneService.selectSceneItem(itemId);
+    const source = this.findEntry(itemId)?.source;
     if (source) {
       this.onSourceSelected.emit(source);
     }
@@ -197,6 +252,7 @@ export class SourcesManagerComponent {
     this.showAddDialogSignal.set(true);
     this.newSourceNameSignal.set('');
     this.selectedSourceTypeSignal.set(SourceType.VIDEO_CAPTURE);
+    this.nestedSceneIdSignal.set(null);
   }
 
   closeAddDialog(): void {
@@ -211,19 +267,50 @@ export class SourcesManagerComponent {
     this.selectedSourceTypeSignal.set(type);
   }
 
+  selectNestedScene(sceneId: string): void {
+    this.nestedSceneIdSignal.set(sceneId || null);
+
+    const nested = this.sceneService.getScene(sceneId);
+    if (nested && !this.newSourceName().trim()) {
+      this.newSourceNameSignal.set(nested.name);
+    }
+  }
+
   addSource(): void {
     const name = this.newSourceName();
     const type = this.selectedSourceType();
+    const scene = this.activeScene();
 
     if (!name.trim()) {
       alert('Please enter a source name');
       return;
     }
 
+    if (type === SourceType.SCENE || type === SourceType.GROUP) {
+      if (!scene) return;
+
+      try {
+        const item =
+          type === SourceType.SCENE
+            ? this.addNestedScene(scene.id, name)
+            : this.sceneService.createGroup(scene.id, name);
+        const source = item ? this.sourceService.getSource(item.sourceId) : null;
+
+        if (source) {
+          this.onSourceAdded.emit(source);
+        }
+      } catch (error) {
+        alert((error as Error).message);
+        return;
+      }
+
+      this.closeAddDialog();
+      return;
+    }
+
     const source = this.sourceService.createSource(name, type);
 
     // Add to active scene
-    const scene = this.activeScene();
     if (scene) {
       this.sceneService.addSourceToScene(scene.id, source);
     }
@@ -232,47 +319,111 @@ export class SourcesManagerComponent {
     this.closeAddDialog();
   }
 
+  // Share a source that another scene already uses
+  addExistingSource(sourceId: string): void {
+    const scene = this.activeScene();
+    const source = this.sourceService.getSource(sourceId);
+    if (!scene || !source) return;
+
+    try {
+      this.sceneService.addSourceToScene(scene.id, source);
+    } catch (error) {
+      alert((error as Error).message);
+      return;
+    }
+
+    this.onSourceAdded.emit(source);
+    this.closeAddDialog();
+  }
+
+  private addNestedScene(sceneId: string, name: string): SceneItem | null {
+    const nestedSceneId = this.nestedSceneId();
+    if (!nestedSceneId) {
+      throw new Error('Please select a scene');
+    }
+
+    const item = this.sceneService.addSceneToScene(sceneId, nestedSceneId);
+    if (item && this.sourceService.getSource(item.sourceId)?.name !== name) {
+      this.sourceService.updateSource(item.sourceId, { name });
+    }
+    return item;
+  }
+
   // Source management
-  removeSource(sourceId: string): void {
-    if (confirm('Are you sure you want to remove this source?')) {
+  removeSource(itemId: string): void {
+    const entry = this.findEntry(itemId);
+    const message = entry && this.isGroup(entry.source)
+      ? 'Are you sure you want to remove this group and its sources?'
+      : 'Are you sure you want to remove this source?';
+
+    if (confirm(message)) {
       const scene = this.activeScene();
-      if (scene) {
-        this.sceneService.removeSourceFromScene(scene.id, sourceId);
+      if (scene && entry) {
+        this.sceneService.removeSourceFromScene(scene.id, itemId);
       }
 
-      if (this.selectedSourceId() === sourceId) {
-        this.selectedSourceIdSignal.set(null);
+      if (this.selectedItemId() === itemId) {
+        this.sceneService.selectSceneItem(null);
       }
     }
   }
 
-  duplicateSource(sourceId: string): void {
-    const duplicated = this.sourceService.duplicateSource(sourceId);
-    if (duplicated) {
-      const scene = this.activeScene();
-      if (scene) {
-        this.sceneService.addSourceToScene(scene.id, duplicated);
-      }
+  duplicateSource(itemId: string): void {
+    const scene = this.activeScene();
+    if (!scene) return;
+
+    const duplicate = this.sceneService.duplicateSceneItem(scene.id, itemId);
+    if (duplicate) {
+      this.selectSource(duplicate.id);
     }
   }
 
-  toggleSourceVisibility(sourceId: string): void {
-    this.sourceService.toggleVisibility(sourceId);
+  toggleSourceVisibility(itemId: string): void {
+    const scene = this.activeScene();
+    const item = this.findEntry(itemId)?.item;
+    if (scene && item) {
+      this.sceneService.setSceneItemVisible(scene.id, itemId, !item.visible);
+    }
   }
 
-  toggleSourceLock(sourceId: string): void {
-    const source = this.sceneSources().find(s => s.id === sourceId);
-    if (source) {
-      this.sourceService.updateSource(sourceId, { locked: !source.locked });
+  toggleSourceLock(itemId: string): void {
+    const scene = this.activeScene();
+    const item = this.findEntry(itemId)?.item;
+    if (scene && item) {
+      this.sceneService.setSceneItemLocked(scene.id, itemId, !item.locked);
+    }
+  }
+
+  // Groups
+  groupSource(itemId: string): void {
+    const scene = this.activeScene();
+    if (!scene || !this.findEntry(itemId)) return;
+
+    const name = prompt('Enter group name:', 'Group');
+    if (name && name.trim()) {
+      this.sceneService.createGroup(scene.id, name.trim(), [itemId]);
     }
   }
 
+  ungroup(itemId: string): void {
+    const scene = this.activeScene();
+    const entry = this.findEntry(itemId);
+    if (!scene || !entry || !this.isGroup(entry.source)) return;
+
+    this.sceneService.ungroup(scene.id, itemId);
+    this.sceneService.selectSceneItem(null);
+  }
+
+  isGroup(source: Source): boolean {
+    return source.type === SourceType.GROUP;
+  }
+
   // Drag and drop
-  onDragStart(sourceId: string, event: DragEvent): void {
-    this.draggedSourceIdSignal.set(sourceId);
+  onDragStart(itemId: string, event: DragEvent): void {
+    this.draggedItemIdSignal.set(itemId);
     if (event.dataTransfer) {
       event.dataTransfer.effectAllowed = 'move';
-      event.dataTransfer.setData('text/plain', sourceId);
+      event.dataTransfer.setData('text/plain', itemId);
     }
   }
 
@@ -283,89 +434,100 @@ export class SourcesManagerComponent {
     }
   }
 
-  onDrop(targetSourceId: string, event: DragEvent): void {
+  onDrop(targetItemId: string, event: DragEvent): void {
     event.preventDefault();
+    event.stopPropagation();
 
-    const draggedId = this.draggedSourceId();
-    if (!draggedId || draggedId === targetSourceId) {
-      this.draggedSourceIdSignal.set(null);
-      return;
-    }
+    const draggedId = this.draggedItemId();
+    this.draggedItemIdSignal.set(null);
+    if (!draggedId || draggedId === targetItemId) return;
 
     const scene = this.activeScene();
-    if (!scene) return;
-
-    // Get current order
-    const sources = [...scene.sources];
-    const draggedIndex = sources.findIndex(s => s.source.id === draggedId);
-    const targetIndex = sources.findIndex(s => s.source.id === targetSourceId);
-
-    if (draggedIndex === -1 || targetIndex === -1) return;
+    const dragged = this.findEntry(draggedId)?.item;
+    const target = this.findEntry(targetItemId);
+    if (!scene || !dragged || !target) return;
+
+    try {
+      if (this.isGroup(target.source) && dragged.groupId !== target.item.id) {
+        // Dropping onto a group moves the item into it
+        this.sceneService.moveSceneItemToGroup(scene.id, dragged.id, target.item.id);
+      } else if (dragged.groupId !== target.item.groupId) {
+        this.sceneService.moveSceneItemToGroup(
+          scene.id,
+          dragged.id,
+          target.item.groupId ?? null,
+          this.siblingIndex(target.item)
+        );
+      } else {
+        this.sceneService.reorderSceneItem(scene.id, dragged.id, this.siblingIndex(target.item));
+      }
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  }
 
-    // Reorder
-    const [removed] = sources.splice(draggedIndex, 1);
-    sources.splice(targetIndex, 0, removed);
+  onDragEnd(): void {
+    this.draggedItemIdSignal.set(null);
+  }
 
-    // Update orders
-    sources.forEach((item, index) => {
-      item.order = index;
-    });
+  // Move sources up/down among the items of their group
+  moveSourceUp(itemId: string): void {
+    this.moveSource(itemId, index => index - 1);
+  }
 
-    // Update scene (in a real implementation, would call sceneService.updateSourceOrder)
-    console.log('Reordered sources:', sources);
+  moveSourceDown(itemId: string): void {
+    this.moveSource(itemId, index => index + 1);
+  }
 
-    this.draggedSourceIdSignal.set(null);
+  moveToTop(itemId: string): void {
+    this.moveSource(itemId, () => 0);
   }
 
-  onDragEnd(): void {
-    this.draggedSourceIdSignal.set(null);
+  moveToBottom(itemId: string): void {
+    this.moveSource(itemId, (_, count) => count - 1);
   }
 
-  // Move sources up/down
-  moveSourceUp(sourceId: string): void {
+  moveOutOfGroup(itemId: string): void {
     const scene = this.activeScene();
-    if (!scene) return;
-
-    const sources = [...scene.sources].sort((a, b) => a.order - b.order);
-    const index = sources.findIndex(s => s.source.id === sourceId);
+    const item = this.findEntry(itemId)?.item;
+    const group = item?.groupId ? scene?.sources.find(candidate => candidate.id === item.groupId) : null;
+    if (!scene || !item || !group) return;
 
-    if (index > 0) {
-      [sources[index - 1], sources[index]] = [sources[index], sources[index - 1]];
-      sources.forEach((item, i) => item.order = i);
-      console.log('Moved source up');
-    }
+    // Place the item right after its former group
+    this.sceneService.moveSceneItemToGroup(scene.id, item.id, group.groupId ?? null, this.siblingIndex(group) + 1);
   }
 
-  moveSourceDown(sourceId: string): void {
+  private moveSource(itemId: string, position: (index: number, count: number) => number): void {
     const scene = this.activeScene();
-    if (!scene) return;
+    const item = this.findEntry(itemId)?.item;
+    if (!scene || !item) return;
 
-    const sources = [...scene.sources].sort((a, b) => a.order - b.order);
-    const index = sources.findIndex(s => s.source.id === sourceId);
+    const count = getChildItems(scene, item.groupId).length;
+    const index = position(this.siblingIndex(item), count);
 
-    if (index < sources.length - 1) {
-      [sources[index], sources[index + 1]] = [sources[index + 1], sources[index]];
-      sources.forEach((item, i) => item.order = i);
-      console.log('Moved source down');
+    if (index >= 0 && index < count) {
+      this.sceneService.reorderSceneItem(scene.id, item.id, index);
     }
   }
 
-  moveToTop(sourceId: string): void {
-    console.log('Move to top:', sourceId);
+  private siblingIndex(item: SceneItem): number {
+    const scene = this.activeScene();
+    return scene ? getChildItems(scene, item.groupId).findIndex(sibling => sibling.id === item.id) : -1;
   }
 
-  moveToBottom(sourceId: string): void {
-    console.log('Move to bottom:', sourceId);
+  private findEntry(itemId: string): SceneItemEntry | null {
+    return this.sceneItems().find(entry => entry.item.id === itemId) ?? null;
   }
 
   // Context menu actions
-  renameSource(sourceId: string): void {
-    const source = this.sceneSources().find(s => s.id === sourceId);
+  renameSource(itemId: string): void {
+    const source = this.findEntry(itemId)?.source;
     if (!source) return;
 
+    // Sources are shared, so the new name shows in every scene using it
     const newName = prompt('Enter new name:', source.name);
     if (newName && newName.trim()) {
-      this.sourceService.updateSource(sourceId, { name: newName.trim() });
+      this.sourceService.updateSource(source.id, { name: newName.trim() });
     }
   }
 
@@ -8,6 +8,8 @@ import { MatGridListModule } from '@angular/material/grid-list';
 import { MatDividerModule } from '@angular/material/divider';
 import { StreamingService } from '../../services/streaming.service';
 import { RecordingService } from '../../services/recording.service';
+import { ProgramOutputService } from '../../services/program-output.service';
+import { SystemStatsService } from '../../services/system-stats.service';
 
 interface Stat {
   label: string;
@@ -154,7 +156,9 @@ export class StatsDashboardComponent implements OnDestroy {
 
   constructor(
     private streamingService: StreamingService,
-    private recordingService: RecordingService
+    private recordingService: RecordingService,
+    private programOutput: ProgramOutputService,
+    private systemStats: SystemStatsService
   ) {
     this.startMonitoring();
 
@@ -183,19 +187,17 @@ export class StatsDashboardComponent implements OnDestroy {
   }
 
   private updateStats(): void {
-    // Simulate real-time stats (in production, these would come from actual measurements)
-    this.fpsSignal.set(Math.round(58 + Math.random() * 4)); // 58-62 FPS
-    this.cpuUsageSignal.set(Math.round(30 + Math.random() * 30)); // 30-60%
-    this.memoryUsageSignal.set(Math.round(45 + Math.random() * 20)); // 45-65%
-    this.currentBitrateSignal.set(Math.round(5000 + Math.random() * 2000)); // 5-7 Mbps
-
-    // Randomly add dropped/skipped frames
-    if (Math.random() < 0.1) {
-      this.droppedFramesSignal.update(v => v + 1);
-    }
-    if (Math.random() < 0.05) {
-      this.skippedFramesSignal.update(v => v + 1);
-    }
+    const state = this.streamingService.streamingState();
+    const output = this.programOutput.stats();
+
+    this.fpsSignal.set(output.fps);
+    this.cpuUsageSignal.set(Math.round(this.systemStats.cpuUsage()));
+    this.memoryUsageSignal.set(Math.round(this.systemStats.memoryPercentage()));
+    this.currentBitrateSignal.set(Math.round(state.bitrate));
+
+    // Dropped while streaming; skipped when the program output renders too slowly
+    this.droppedFramesSignal.set(state.droppedFrames);
+    this.skippedFramesSignal.set(output.droppedFrames);
 
     // Update uptime
     if (this.isStreaming() || this.isRecording()) {
@@ -11,6 +11,7 @@ import { StreamingService } from '../../services/streaming.service';
 import { RecordingService } from '../../services/recording.service';
 import { VirtualCameraService } from '../../services/virtual-camera.service';
 import { StudioModeService } from '../../services/studio-mode.service';
+import { SocketService } from '../../services/socket.service';
 
 @Component({
   selector: 'lib-streaming-controls',
@@ -67,6 +68,17 @@ import { StudioModeService } from '../../services/studio-mode.service';
                   {{ dropPercentage() | number : '1.2-2' }}% dropped
                 </mat-chip>
               </mat-chip-set>
+              <mat-chip-set class="destination-status">
+                @for (destination of streamingDestinations(); track destination.id) {
+                  @let status = destinationStatuses()[destination.id];
+                  <mat-chip
+                    [class]="'state-' + (status?.state ?? 'connecting')"
+                    [matTooltip]="status?.error ?? ''"
+                  >
+                    {{ destination.name }}: {{ status?.state ?? 'connecting' }}
+                  </mat-chip>
+                }
+              </mat-chip-set>
             }
           </div>
 
@@ -195,6 +207,45 @@ import { StudioModeService } from '../../services/studio-mode.service';
             </button>
           </div>
         </div>
+
+        @if (socketUnauthorized()) {
+          <div class="recovery-row">
+            <mat-icon>key</mat-icon>
+            <span class="recovery-name">The streaming server needs the studio token it printed on startup</span>
+            <input #studioToken type="password" placeholder="Studio token" aria-label="Studio token" />
+            <button mat-button color="primary" (click)="setStudioToken(studioToken.value)">
+              Connect
+            </button>
+          </div>
+        }
+
+        @if (recordingError(); as error) {
+          <div class="recovery-row">
+            <mat-icon>error</mat-icon>
+            <span class="recovery-name">{{ error }}</span>
+            <button mat-button (click)="clearRecordingError()">
+              Dismiss
+            </button>
+          </div>
+        }
+
+        <!-- Unfinished recordings from a previous session -->
+        @for (recording of orphanedRecordings(); track recording.id) {
+          <div class="recovery-row">
+            <mat-icon>restore</mat-icon>
+            <span class="recovery-name">
+              {{ recording.filename }} ({{ recording.size / 1048576 | number : '1.0-1' }} MB{{
+                recording.incomplete ? ', incomplete' : ''
+              }})
+            </span>
+            <button mat-button color="primary" (click)="recoverRecording(recording.id)">
+              Recover
+            </button>
+            <button mat-button (click)="discardRecording(recording.id)">
+              Discard
+            </button>
+          </div>
+        }
       </mat-card-content>
     </mat-card>
   `,
@@ -220,6 +271,26 @@ import { StudioModeService } from '../../services/studio-mode.service';
         gap: 0.5rem;
       }
 
+      .destination-status .state-live {
+        color: #28a745;
+      }
+
+      .destination-status .state-error {
+        color: #dc3545;
+      }
+
+      .recovery-row {
+        display: flex;
+        align-items: center;
+        gap: 0.5rem;
+        color: #ffc107;
+      }
+
+      .recovery-name {
+        flex: 1;
+        color: #fff;
+      }
+
       .btn-control {
         display: flex;
         align-items: center;
@@ -386,12 +457,13 @@ export class StreamingControlsComponent {
   private readonly recordingService = inject(RecordingService);
   private readonly virtualCameraService = inject(VirtualCameraService);
   private readonly studioModeService = inject(StudioModeService);
+  private readonly socketService = inject(SocketService);
 
   // Signals
   private readonly recordingStartTime = signal<Date | null>(null);
   readonly virtualCameraActive = signal(false);
-  readonly studioModeEnabled = signal(false);
-  readonly inTransition = signal(false);
+  readonly studioModeEnabled = computed(() => this.studioModeService.studioModeState().inStudioMode);
+  readonly inTransition = computed(() => this.studioModeService.studioModeState().inTransition);
   readonly connectedApps = signal<string[]>([]);
   readonly replayBufferEnabled = signal(false);
 
@@ -402,6 +474,10 @@ export class StreamingControlsComponent {
 
   readonly isRecording = computed(() => this.recordingService.isRecording());
 
+  readonly orphanedRecordings = this.recordingService.orphanedRecordings;
+  readonly recordingError = this.recordingService.recordingError;
+  readonly socketUnauthorized = this.socketService.unauthorized;
+
   readonly streamStats = computed(() => this.streamingService.streamingState());
 
   readonly dropPercentage = computed(() => {
@@ -426,10 +502,9 @@ export class StreamingControlsComponent {
     )}:${String(seconds).padStart(2, '0')}`;
   });
 
-  readonly streamingDestinations = computed(() => {
-    // In real implementation, this would come from streaming service
-    return [];
-  });
+  readonly streamingDestinations = this.streamingService.enabledDestinations;
+
+  readonly destinationStatuses = this.streamingService.destinationStatuses;
 
   constructor() {
     // Monitor recording state changes
@@ -477,11 +552,44 @@ export class StreamingControlsComponent {
     }
   }
 
+  setStudioToken(token: string): void {
+    if (token.trim()) {
+      this.socketService.setToken(token);
+    }
+  }
+
+  clearRecordingError(): void {
+    this.recordingService.clearRecordingError();
+  }
+
+  async recoverRecording(id: string): Promise<void> {
+    try {
+      this.recordingService.clearRecordingError();
+      await this.recordingService.recoverRecording(id);
+    } catch (error) {
+      alert('Failed to recover recording: ' + error);
+    }
+  }
+
+  async discardRecording(id: string): Promise<void> {
+    if (confirm('Discard this recording? It cannot be recovered afterwards.')) {
+      try {
+        await this.recordingService.discardRecording(id);
+      } catch (error) {
+        alert('Failed to discard recording: ' + error);
+      }
+    }
+  }
+
   enableReplayBuffer(): void {
     const duration = prompt('Enter replay buffer duration (seconds):', '30');
     if (duration) {
-      this.recordingService.enableReplayBuffer(parseInt(duration, 10));
-      this.replayBufferEnabled.set(true);
+      try {
+        this.recordingService.enableReplayBuffer(parseInt(duration, 10));
+        this.replayBufferEnabled.set(true);
+      } catch (error) {
+        alert('Failed to start replay buffer: ' + error);
+      }
     }
   }
 
@@ -513,23 +621,15 @@ export class StreamingControlsComponent {
   }
 
   toggleStudioMode(): void {
-    const enabled = this.studioModeEnabled();
-    if (!enabled) {
-      this.studioModeService.enableStudioMode('scene-1');
-      this.studioModeEnabled.set(true);
+    if (!this.studioModeEnabled()) {
+      this.studioModeService.enableStudioMode();
     } else {
       this.studioModeService.disableStudioMode();
-      this.studioModeEnabled.set(false);
     }
   }
 
   async transitionToPreview(): Promise<void> {
-    this.inTransition.set(true);
-    try {
-      await this.studioModeService.transitionToPreview();
-    } finally {
-      this.inTransition.set(false);
-    }
+    await this.studioModeService.transitionToPreview();
   }
 
   async openSettings(): Promise<void> {
@@ -0,0 +1,219 @@
+import { Component, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { QuickTransition } from '../../models/studio-mode.model';
+import { SceneService } from '../../services/scene.service';
+import { StudioModeService } from '../../services/studio-mode.service';
+import { TransitionService } from '../../services/transition.service';
+import { VideoPreviewComponent } from '../video-preview/video-preview.component';
+
+// Steps of the T-bar; its value is the transition progress times this
+const T_BAR_STEPS = 1000;
+
+@Component({
+  selector: 'streaming-studio-mode',
+  standalone: true,
+  imports: [CommonModule, MatButtonModule, MatIconModule, MatTooltipModule, MatCheckboxModule, VideoPreviewComponent],
+  template: `
+    <div class="studio-mode" [class.vertical]="studioMode().verticalLayout">
+      <section class="studio-view">
+        <div class="view-header">
+          <span class="view-label">Preview</span>
+          <span class="scene-name">{{ sceneService.previewScene()?.name }}</span>
+        </div>
+        <streaming-video-preview mode="edit"></streaming-video-preview>
+      </section>
+
+      <section class="studio-controls">
+        <button
+          mat-raised-button
+          color="primary"
+          (click)="onTransition()"
+          [disabled]="state().inTransition && !transitionService.isManual()"
+          matTooltip="Put the preview on air"
+        >
+          <mat-icon>arrow_forward</mat-icon>
+          Transition
+        </button>
+
+        <input
+          type="range"
+          class="t-bar"
+          min="0"
+          [max]="tBarSteps"
+          step="1"
+          [value]="tBarValue()"
+          [disabled]="state().inTransition && !transitionService.isManual()"
+          (input)="onTBarInput($event)"
+          (change)="onTBarRelease()"
+          aria-label="T-bar"
+        />
+
+        <div class="quick-transitions">
+          @for (quick of studioMode().quickTransitions; track quick.id) {
+            <button
+              mat-stroked-button
+              (click)="onQuickTransition(quick)"
+              [disabled]="state().inTransition"
+            >
+              {{ getQuickTransitionLabel(quick) }}
+            </button>
+          }
+        </div>
+
+        <mat-checkbox
+          [checked]="studioMode().duplicateScene"
+          (change)="studioModeService.setDuplicateScene($event.checked)"
+          matTooltip="Put a copy of the preview on air, so editing it stays off air"
+        >
+          Duplicate scene
+        </mat-checkbox>
+
+        <div class="layout-actions">
+          <button mat-icon-button (click)="studioModeService.swapScenes()" matTooltip="Swap preview and program">
+            <mat-icon>swap_horiz</mat-icon>
+          </button>
+          <button mat-icon-button (click)="studioModeService.toggleLayout()" matTooltip="Toggle layout">
+            <mat-icon>{{ studioMode().verticalLayout ? 'view_column' : 'view_agenda' }}</mat-icon>
+          </button>
+        </div>
+      </section>
+
+      <section class="studio-view">
+        <div class="view-header">
+          <span class="view-label program">Program</span>
+          <span class="scene-name">{{ sceneService.programScene()?.name }}</span>
+        </div>
+        <streaming-video-preview mode="program"></streaming-video-preview>
+      </section>
+    </div>
+  `,
+  styles: [`
+    .studio-mode {
+      display: flex;
+      height: 100%;
+      gap: 0.5rem;
+      background: #000;
+    }
+
+    .studio-mode.vertical {
+      flex-direction: column;
+    }
+
+    .studio-view {
+      flex: 1;
+      display: flex;
+      flex-direction: column;
+      min-width: 0;
+      min-height: 0;
+    }
+
+    .view-header {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+      padding: 0.25rem 0.75rem;
+      background: #1a1a1a;
+      font-size: 0.85rem;
+    }
+
+    .view-label {
+      font-weight: 600;
+      text-transform: uppercase;
+      color: #4caf50;
+    }
+
+    .view-label.program {
+      color: #dc3545;
+    }
+
+    .scene-name {
+      color: #aaa;
+    }
+
+    .studio-controls {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      justify-content: center;
+      gap: 0.75rem;
+      padding: 0.75rem;
+      background: #1a1a1a;
+    }
+
+    .vertical .studio-controls {
+      flex-direction: row;
+      flex-wrap: wrap;
+    }
+
+    .t-bar {
+      writing-mode: vertical-lr;
+      direction: rtl;
+      height: 160px;
+    }
+
+    .vertical .t-bar {
+      writing-mode: horizontal-tb;
+      direction: ltr;
+      height: auto;
+      width: 200px;
+    }
+
+    .quick-transitions {
+      display: flex;
+      flex-direction: column;
+      gap: 0.25rem;
+    }
+
+    .vertical .quick-transitions {
+      flex-direction: row;
+    }
+
+    .layout-actions {
+      display: flex;
+      gap: 0.25rem;
+    }
+  `]
+})
+export class StudioModeComponent {
+  readonly sceneService = inject(SceneService);
+  readonly studioModeService = inject(StudioModeService);
+  readonly transitionService = inject(TransitionService);
+
+  readonly tBarSteps = T_BAR_STEPS;
+
+  readonly studioMode = this.studioModeService.studioMode;
+  readonly state = this.studioModeService.studioModeState;
+
+  readonly tBarValue = computed(() =>
+    this.transitionService.isManual() ? Math.round(this.transitionService.progress() * T_BAR_STEPS) : 0
+  );
+
+  async onTransition(): Promise<void> {
+    await this.studioModeService.transitionToPreview();
+  }
+
+  async onQuickTransition(quick: QuickTransition): Promise<void> {
+    await this.studioModeService.quickTransition(quick.id);
+  }
+
+  onTBarInput(event: Event): void {
+    const value = Number((event.target as HTMLInputElement).value);
+    this.studioModeService.setTransitionProgress(value / T_BAR_STEPS);
+  }
+
+  onTBarRelease(): void {
+    this.studioModeService.releaseTransitionBar();
+  }
+
+  getQuickTransitionLabel(quick: QuickTransition): string {
+    const name = quick.type
+      .split('_')
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+    return quick.duration > 0 ? `${name} (${quick.duration}ms)` : name;
+  }
+}
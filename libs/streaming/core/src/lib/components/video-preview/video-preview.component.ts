@@ -1,4 +1,4 @@
-import { Component, signal, computed, effect, viewChild, ElementRef } from '@angular/core';
+import { Component, signal, computed, effect, input, viewChild, ElementRef, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
@@ -8,6 +8,81 @@ import { MatCardModule } from '@angular/material/card';
 import { SceneService } from '../../services/scene.service';
 import { RecordingService } from '../../services/recording.service';
 import { StreamingService } from '../../services/streaming.service';
+import { CompositorService, Rect } from '../../services/compositor.service';
+import { TransitionService } from '../../services/transition.service';
+import { SourceService } from '../../services/source.service';
+import { SettingsService } from '../../services/settings.service';
+import { HistoryService } from '../../services/history.service';
+import { isSceneItemLocked } from '../../services/scene-graph';
+import {
+  ItemGeometry,
+  Point,
+  ResizeHandle,
+  SnapLines,
+  TransformHandle,
+  cropTransform,
+  getCanvasBounds,
+  getHandlePoints,
+  getSceneGeometries,
+  getSnapLines,
+  getSnapOptions,
+  hitTestHandle,
+  hitTestItems,
+  resizeTransform,
+  rotateTransform,
+  snapPoint,
+  snapRect
+} from '../../services/transform-editing';
+import { GeneralSettings } from '../../models/settings.model';
+import { Transform } from '../../models/source.model';
+import { Scene } from '../../models/scene.model';
+import { Subscription } from 'rxjs';
+
+type DragMode = 'move' | 'resize' | 'crop' | 'rotate';
+
+interface PreviewDrag {
+  mode: DragMode;
+  handle: ResizeHandle | null;
+  pointerId: number;
+  sceneId: string;
+  start: Point;
+  geometry: ItemGeometry;
+  bounds: Rect;
+  snapLines: SnapLines | null;
+  snapDistance: number;
+}
+
+const DRAG_LABELS: Record<DragMode, string> = {
+  move: 'Move',
+  resize: 'Resize',
+  crop: 'Crop',
+  rotate: 'Rotate'
+};
+
+const HANDLE_CURSORS: Record<TransformHandle, string> = {
+  'top-left': 'nwse-resize',
+  'bottom-right': 'nwse-resize',
+  'top-right': 'nesw-resize',
+  'bottom-left': 'nesw-resize',
+  top: 'ns-resize',
+  bottom: 'ns-resize',
+  left: 'ew-resize',
+  right: 'ew-resize',
+  rotate: 'grab'
+};
+
+const NUDGE_OFFSETS: Record<string, Point> = {
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 }
+};
+
+// Handle sizes in screen pixels, scaled to the canvas when drawn
+const HANDLE_SIZE = 8;
+const ROTATE_HANDLE_DISTANCE = 30;
+const ROTATION_STEP = 15;
+const NUDGE_STEP_LARGE = 10;
 
 @Component({
   selector: 'streaming-video-preview',
@@ -27,8 +102,15 @@ import { StreamingService } from '../../services/streaming.service';
         <canvas
           #previewCanvas
           class="preview-canvas"
+          tabindex="0"
           [width]="canvasWidth()"
           [height]="canvasHeight()"
+          [style.cursor]="cursor()"
+          (pointerdown)="onPointerDown($event)"
+          (pointermove)="onPointerMove($event)"
+          (pointerup)="onPointerUp($event)"
+          (pointercancel)="onPointerUp($event)"
+          (keydown)="onKeyDown($event)"
         ></canvas>
 
         <!-- Overlay controls -->
@@ -76,7 +158,7 @@ import { StreamingService } from '../../services/streaming.service';
         </div>
 
         <!-- No Scene Message -->
-        @if (!activeScene()) {
+        @if (!scene()) {
           <div class="no-scene-message">
             <h2>No Active Scene</h2>
             <p>Create a scene to start</p>
@@ -157,6 +239,11 @@ import { StreamingService } from '../../services/streaming.service';
       max-height: 100%;
       background: #0a0a0a;
       border: 1px solid #333;
+      touch-action: none;
+    }
+
+    .preview-canvas:focus {
+      outline: none;
     }
 
     .preview-overlay {
@@ -348,7 +435,7 @@ import { StreamingService } from '../../services/streaming.service';
     }
   `]
 })
-export class VideoPreviewComponent {
+export class VideoPreviewComponent implements OnDestroy {
   // ViewChild for canvas
   readonly canvasRef = viewChild<ElementRef<HTMLCanvasElement>>('previewCanvas');
 
@@ -358,13 +445,21 @@ export class VideoPreviewComponent {
   private showSafeAreasSignal = signal(false);
   private currentFpsSignal = signal(60);
   private isFullscreenSignal = signal(false);
+  private cursorSignal = signal('default');
+
+  // 'edit' shows the scene being edited, 'program' what is on air
+  readonly mode = input<'edit' | 'program'>('edit');
 
   // Canvas dimensions
   readonly canvasWidth = signal(1920);
   readonly canvasHeight = signal(1080);
 
   // Computed signals
-  readonly activeScene = computed(() => this.sceneService.activeScene());
+  readonly scene = computed(() =>
+    this.mode() === 'program' ? this.sceneService.programScene() : this.sceneService.editingScene()
+  );
+  // Outside studio mode the scene being edited is the one on air, transitions included
+  readonly showsProgram = computed(() => this.mode() === 'program' || !this.sceneService.previewSceneId());
   readonly isLive = computed(() => this.streamingService.isStreaming());
   readonly isRecording = computed(() => this.recordingService.isRecording());
   readonly recordingDuration = computed(() => this.recordingService.formattedDuration());
@@ -373,6 +468,7 @@ export class VideoPreviewComponent {
   readonly showGrid = this.showGridSignal.asReadonly();
   readonly showSafeAreas = this.showSafeAreasSignal.asReadonly();
   readonly currentFps = this.currentFpsSignal.asReadonly();
+  readonly cursor = this.cursorSignal.asReadonly();
 
   readonly resolution = computed(() => `${this.canvasWidth()}x${this.canvasHeight()}`);
   readonly targetFps = signal(60);
@@ -417,12 +513,24 @@ export class VideoPreviewComponent {
 
   private animationFrameId: number | null = null;
   private lastFrameTime = 0;
+  private drag: PreviewDrag | null = null;
+  private generalSettings: GeneralSettings | null = null;
+  private settingsSubscription: Subscription;
 
   constructor(
     private sceneService: SceneService,
     private streamingService: StreamingService,
-    private recordingService: RecordingService
+    private recordingService: RecordingService,
+    private compositor: CompositorService,
+    private transitionService: TransitionService,
+    private sourceService: SourceService,
+    private settingsService: SettingsService,
+    private history: HistoryService
   ) {
+    this.settingsSubscription = this.settingsService.settings$.subscribe(settings => {
+      this.generalSettings = settings.general;
+    });
+
     // Start render loop
     effect(() => {
       this.startRenderLoop();
@@ -433,6 +541,103 @@ export class VideoPreviewComponent {
     });
   }
 
+  ngOnDestroy(): void {
+    this.stopRenderLoop();
+    this.settingsSubscription.unsubscribe();
+    this.endDrag();
+  }
+
+  /**
+   * Select the item under the pointer and start moving it, or start
+   * resizing, cropping (Alt) or rotating the selected item from one of its handles
+   */
+  onPointerDown(event: PointerEvent): void {
+    const canvas = this.canvasRef()?.nativeElement;
+    const scene = this.scene();
+    if (!canvas || !scene || event.button !== 0 || !this.isEditable()) return;
+
+    canvas.focus();
+    const { point, scale } = this.toCanvasPoint(canvas, event);
+    const geometries = this.getGeometries(scene);
+    const selected = geometries.find(geometry => geometry.item.id === this.sceneService.selectedItemId());
+    const handle =
+      selected && !isSceneItemLocked(scene, selected.item.id)
+        ? hitTestHandle(selected, point, HANDLE_SIZE * scale, ROTATE_HANDLE_DISTANCE * scale)
+        : null;
+    const target = handle ? selected : hitTestItems(geometries, point);
+
+    this.sceneService.selectSceneItem(target?.item.id ?? null);
+    if (!target || isSceneItemLocked(scene, target.item.id)) return;
+
+    const mode: DragMode = handle === 'rotate' ? 'rotate' : handle ? (event.altKey ? 'crop' : 'resize') : 'move';
+    const snapOptions = this.generalSettings ? getSnapOptions(this.generalSettings, scale) : null;
+    const others = geometries.filter(geometry => geometry !== target).map(getCanvasBounds);
+
+    this.drag = {
+      mode,
+      handle: handle && handle !== 'rotate' ? handle : null,
+      pointerId: event.pointerId,
+      sceneId: scene.id,
+      start: point,
+      geometry: target,
+      bounds: getCanvasBounds(target),
+      snapLines: snapOptions ? getSnapLines(canvas.width, canvas.height, others, snapOptions) : null,
+      snapDistance: snapOptions?.distance ?? 0
+    };
+
+    // Everything one drag does is one step in the history
+    const name = this.sourceService.getSource(target.item.sourceId)?.name ?? 'item';
+    this.history.beginGroup(`${DRAG_LABELS[mode]} "${name}"`);
+    canvas.setPointerCapture(event.pointerId);
+    event.preventDefault();
+  }
+
+  onPointerMove(event: PointerEvent): void {
+    const canvas = this.canvasRef()?.nativeElement;
+    if (!canvas) return;
+
+    const { point, scale } = this.toCanvasPoint(canvas, event);
+    const drag = this.drag;
+
+    if (!drag || drag.pointerId !== event.pointerId) {
+      this.updateCursor(point, scale);
+      return;
+    }
+
+    this.sceneService.updateSceneItemTransform(drag.sceneId, drag.geometry.item.id, this.getDragTransform(drag, point, event));
+  }
+
+  onPointerUp(event: PointerEvent): void {
+    if (this.drag?.pointerId !== event.pointerId) return;
+
+    const canvas = this.canvasRef()?.nativeElement;
+    if (canvas?.hasPointerCapture(event.pointerId)) {
+      canvas.releasePointerCapture(event.pointerId);
+    }
+    this.endDrag();
+  }
+
+  /**
+   * Nudge the selected item with the arrow keys, 10 pixels at a time with Shift
+   */
+  onKeyDown(event: KeyboardEvent): void {
+    const offset = NUDGE_OFFSETS[event.key];
+    const scene = this.scene();
+    const item = this.sceneService.selectedItem();
+    if (!offset || !scene || !item || this.drag || !this.isEditable()) return;
+
+    event.preventDefault();
+    if (isSceneItemLocked(scene, item.id)) return;
+
+    const step = event.shiftKey ? NUDGE_STEP_LARGE : 1;
+    this.sceneService.updateSceneItemTransform(scene.id, item.id, {
+      position: {
+        x: item.transform.position.x + offset.x * step,
+        y: item.transform.position.y + offset.y * step
+      }
+    });
+  }
+
   toggleStats(): void {
     this.showStatsSignal.update(v => !v);
   }
@@ -500,10 +705,14 @@ export class VideoPreviewComponent {
       ctx.fillStyle = '#0a0a0a';
       ctx.fillRect(0, 0, canvas.width, canvas.height);
 
-      // Render active scene
-      const scene = this.activeScene();
-      if (scene) {
-        this.renderScene(ctx, scene, canvas.width, canvas.height);
+      // Render the running transition, or else the active scene
+      const scene = this.scene();
+      const transitioning = this.showsProgram() && this.transitionService.render(ctx, canvas.width, canvas.height);
+      if (!transitioning && scene) {
+        this.compositor.renderScene(ctx, scene, canvas.width, canvas.height);
+        if (this.mode() === 'edit') {
+          this.drawSelection(ctx, canvas, scene);
+        }
       }
 
       this.animationFrameId = requestAnimationFrame(render);
@@ -512,78 +721,146 @@ export class VideoPreviewComponent {
     this.animationFrameId = requestAnimationFrame(render);
   }
 
-  private stopRenderLoop(): void {
-    if (this.animationFrameId) {
-      cancelAnimationFrame(this.animationFrameId);
-      this.animationFrameId = null;
+  /**
+   * Outline the selected item, with handles unless it is locked
+   */
+  private drawSelection(ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, scene: Scene): void {
+    const geometry = this.getGeometries(scene).find(candidate => candidate.item.id === this.sceneService.selectedItemId());
+    if (!geometry) return;
+
+    const scale = canvas.width / (canvas.clientWidth || canvas.width);
+    const points = getHandlePoints(geometry, ROTATE_HANDLE_DISTANCE * scale);
+    const locked = isSceneItemLocked(scene, geometry.item.id);
+    const color = locked ? '#e53935' : '#2a7fff';
+
+    ctx.save();
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+    ctx.lineWidth = 2 * scale;
+
+    ctx.beginPath();
+    ctx.moveTo(points['top-left'].x, points['top-left'].y);
+    ctx.lineTo(points['top-right'].x, points['top-right'].y);
+    ctx.lineTo(points['bottom-right'].x, points['bottom-right'].y);
+    ctx.lineTo(points['bottom-left'].x, points['bottom-left'].y);
+    ctx.closePath();
+    ctx.stroke();
+
+    if (!locked) {
+      const size = HANDLE_SIZE * scale;
+
+      ctx.beginPath();
+      ctx.moveTo(points.top.x, points.top.y);
+      ctx.lineTo(points.rotate.x, points.rotate.y);
+      ctx.stroke();
+
+      ctx.beginPath();
+      ctx.arc(points.rotate.x, points.rotate.y, size / 2, 0, Math.PI * 2);
+      ctx.fill();
+
+      for (const [handle, point] of Object.entries(points)) {
+        if (handle === 'rotate') continue;
+        ctx.fillRect(point.x - size / 2, point.y - size / 2, size, size);
+      }
     }
-  }
-
-  private renderScene(ctx: CanvasRenderingContext2D, scene: any, width: number, height: number): void {
-    // Render each source in the scene
-    if (!scene.sources || scene.sources.length === 0) {
-      // Draw placeholder
-      ctx.fillStyle = '#1a1a1a';
-      ctx.fillRect(0, 0, width, height);
-
-      ctx.fillStyle = '#333';
-      ctx.font = '48px Arial';
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
-      ctx.fillText(scene.name, width / 2, height / 2);
 
-      return;
-    }
+    ctx.restore();
+  }
 
-    // Sort sources by order (z-index)
-    const sortedSources = [...scene.sources].sort((a, b) => a.order - b.order);
+  /**
+   * Items can be edited in the edit view, except while it shows a transition
+   */
+  private isEditable(): boolean {
+    return this.mode() === 'edit' && !(this.showsProgram() && this.transitionService.isTransitioning());
+  }
 
-    sortedSources.forEach(item => {
-      if (!item.visible) return;
+  private getGeometries(scene: Scene): ItemGeometry[] {
+    return getSceneGeometries(
+      scene,
+      sourceId => this.sourceService.getSource(sourceId),
+      sourceId => this.compositor.getSourceSize(sourceId)
+    );
+  }
 
-      const transform = item.source.transform;
+  /**
+   * Map a pointer position to canvas pixels, with the canvas pixels per screen pixel
+   */
+  private toCanvasPoint(canvas: HTMLCanvasElement, event: PointerEvent): { point: Point; scale: number } {
+    const rect = canvas.getBoundingClientRect();
+    const scale = rect.width > 0 ? canvas.width / rect.width : 1;
 
-      // Save context
-      ctx.save();
+    return {
+      point: { x: (event.clientX - rect.left) * scale, y: (event.clientY - rect.top) * scale },
+      scale
+    };
+  }
 
-      // Apply transformations
-      ctx.translate(transform.position.x, transform.position.y);
-      ctx.rotate((transform.rotation * Math.PI) / 180);
-      ctx.scale(transform.scale.x, transform.scale.y);
+  private getDragTransform(drag: PreviewDrag, point: Point, event: PointerEvent): Partial<Transform> {
+    const { geometry, start } = drag;
+    const transform = geometry.item.transform;
+    // Holding Ctrl turns snapping off for the moment
+    const snapLines = event.ctrlKey ? null : drag.snapLines;
+
+    switch (drag.mode) {
+      case 'move': {
+        let dx = point.x - start.x;
+        let dy = point.y - start.y;
+        if (snapLines) {
+          const bounds = drag.bounds;
+          const snap = snapRect({ ...bounds, x: bounds.x + dx, y: bounds.y + dy }, snapLines, drag.snapDistance);
+          dx += snap.x;
+          dy += snap.y;
+        }
+        return { position: { x: transform.position.x + dx, y: transform.position.y + dy } };
+      }
+      case 'rotate':
+        return rotateTransform(geometry, start, point, transform.rotation, event.shiftKey ? ROTATION_STEP : 0);
+      case 'resize':
+      case 'crop': {
+        if (!drag.handle) return {};
+        const target = snapLines ? snapPoint(point, snapLines, drag.snapDistance) : point;
+        return drag.mode === 'crop'
+          ? cropTransform(geometry, drag.handle, target)
+          : resizeTransform(geometry, drag.handle, target, !event.shiftKey);
+      }
+    }
+  }
 
-      // Render based on source type
-      this.renderSource(ctx, item.source);
+  private updateCursor(point: Point, scale: number): void {
+    const scene = this.scene();
+    if (!scene || !this.isEditable()) {
+      this.cursorSignal.set('default');
+      return;
+    }
 
-      // Restore context
-      ctx.restore();
-    });
+    const geometries = this.getGeometries(scene);
+    const selected = geometries.find(geometry => geometry.item.id === this.sceneService.selectedItemId());
+    const handle =
+      selected && !isSceneItemLocked(scene, selected.item.id)
+        ? hitTestHandle(selected, point, HANDLE_SIZE * scale, ROTATE_HANDLE_DISTANCE * scale)
+        : null;
+    const target = hitTestItems(geometries, point);
+
+    if (handle) {
+      this.cursorSignal.set(HANDLE_CURSORS[handle]);
+    } else if (target && !isSceneItemLocked(scene, target.item.id)) {
+      this.cursorSignal.set('move');
+    } else {
+      this.cursorSignal.set('default');
+    }
   }
 
-  private renderSource(ctx: CanvasRenderingContext2D, source: any): void {
-    // Placeholder rendering - in production, this would render actual video/images
-    ctx.fillStyle = this.getSourceColor(source.type);
-    ctx.fillRect(0, 0, 400, 300);
+  private endDrag(): void {
+    if (!this.drag) return;
 
-    ctx.fillStyle = '#fff';
-    ctx.font = '16px Arial';
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    ctx.fillText(source.name, 200, 150);
+    this.drag = null;
+    this.history.endGroup();
   }
 
-  private getSourceColor(type: string): string {
-    const colors: Record<string, string> = {
-      'video_capture': '#2a7fff',
-      'screen_capture': '#28a745',
-      'window_capture': '#17a2b8',
-      'audio_input': '#ffc107',
-      'image': '#6f42c1',
-      'text': '#fd7e14',
-      'browser': '#e83e8c',
-      'media': '#20c997',
-      'color_source': '#6c757d'
-    };
-
-    return colors[type] || '#495057';
+  private stopRenderLoop(): void {
+    if (this.animationFrameId) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
   }
 }
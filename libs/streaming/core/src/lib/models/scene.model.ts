@@ -1,4 +1,4 @@
-import { Source } from './source.model';
+import { Transform } from './source.model';
 
 /**
  * Scene Management Models
@@ -12,10 +12,14 @@ export interface Scene {
   locked: boolean;
 }
 
+/**
+ * A source placed in a scene. The source itself is shared through SourceService;
+ * where and how it appears belongs to the item.
+ */
 export interface SceneItem {
   id: string;
   sourceId: string;
-  source: Source;
+  transform: Transform;
   order: number;
   visible: boolean;
   locked: boolean;
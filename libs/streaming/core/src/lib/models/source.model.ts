@@ -13,13 +13,27 @@ export enum SourceType {
   BROWSER = 'browser',
   MEDIA = 'media',
   GAME_CAPTURE = 'game_capture',
-  COLOR_SOURCE = 'color_source'
+  COLOR_SOURCE = 'color_source',
+  SCENE = 'scene',
+  GROUP = 'group'
 }
 
 export interface SourceSettings {
   [key: string]: any;
 }
 
+/**
+ * Alignment flags used by Transform.alignment and Transform.boundsAlignment.
+ * Horizontal and vertical flags are combined, e.g. LEFT | TOP (5); 0 is centered.
+ */
+export enum Alignment {
+  CENTER = 0,
+  LEFT = 1,
+  RIGHT = 2,
+  TOP = 4,
+  BOTTOM = 8
+}
+
 export interface Transform {
   position: { x: number; y: number };
   scale: { x: number; y: number };
@@ -31,20 +45,86 @@ export interface Transform {
   bounds: { x: number; y: number };
 }
 
+/**
+ * Well-known settings keys per source type, read by the compositor
+ */
+export interface CaptureSourceSettings extends SourceSettings {
+  deviceId?: string;
+  // Audio input recorded with a video capture device, e.g. a capture card's; none by default
+  audioDeviceId?: string;
+  width?: number;
+  height?: number;
+  frameRate?: number;
+}
+
+export interface ImageSourceSettings extends SourceSettings {
+  url?: string;
+  file?: string;
+}
+
+export interface MediaSourceSettings extends SourceSettings {
+  url?: string;
+  file?: string;
+  loop?: boolean;
+  playbackRate?: number;
+}
+
+export interface TextSourceSettings extends SourceSettings {
+  text?: string;
+  fontFamily?: string;
+  fontSize?: number;
+  fontWeight?: string;
+  fontStyle?: string;
+  color?: string;
+  backgroundColor?: string;
+  outlineColor?: string;
+  outlineWidth?: number;
+  align?: 'left' | 'center' | 'right';
+  lineHeight?: number;
+  padding?: number;
+}
+
+export interface ColorSourceSettings extends SourceSettings {
+  color?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface BrowserSourceSettings extends SourceSettings {
+  url?: string;
+  file?: string; // name of a picked local HTML file
+  html?: string; // contents of the local file
+  width?: number;
+  height?: number;
+  css?: string;
+  fps?: number;
+  transparent?: boolean; // false paints a white page background
+  routeAudio?: boolean; // play the page's audio through the mixer instead of directly
+  refreshWhenActive?: boolean; // reload when a scene showing it goes on air
+  shutdownWhenHidden?: boolean; // unload when no scene shows it
+}
+
+export const DEFAULT_BROWSER_CSS = 'body { background-color: rgba(0, 0, 0, 0); margin: 0px auto; overflow: hidden; }';
+
+export interface SceneSourceSettings extends SourceSettings {
+  sceneId?: string;
+}
+
 export interface Source {
   id: string;
   name: string;
   type: SourceType;
   enabled: boolean;
   settings: SourceSettings;
-  transform: Transform;
   filters: Filter[];
   volume: number; // 0-1
   muted: boolean;
-  locked: boolean;
-  visible: boolean;
+  syncOffset?: number; // ms, positive plays the source's audio and video later
 }
 
+// Largest sync offset either way (ms)
+export const MAX_SYNC_OFFSET_MS = 1000;
+
 export interface Filter {
   id: string;
   name: string;
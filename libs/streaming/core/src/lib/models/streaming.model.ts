@@ -16,8 +16,10 @@ export enum StreamingPlatform {
   YOUTUBE = 'youtube',
   FACEBOOK = 'facebook',
   TIKTOK = 'tiktok',
+  KICK = 'kick',
   TWITTER = 'twitter',
   LINKEDIN = 'linkedin',
+  HLS = 'hls', // Served by the API for previews, lobby screens and local CDNs
   CUSTOM = 'custom'
 }
 
@@ -43,6 +45,28 @@ export interface StreamingSettings {
   preset: string;
   profile: string;
   tune: string;
+  adaptiveBitrate?: AdaptiveBitrateSettings;
+  hls?: HlsSettings;
+}
+
+/**
+ * HLS output served by the API, for destinations using the HLS protocol
+ */
+export interface HlsSettings {
+  lowLatency: boolean; // Low-latency HLS with parts and blocking playlist reload
+  segmentDuration: number; // seconds
+  linkToken?: string; // Part of the playlist URL, so only those given the link can watch
+}
+
+/**
+ * Live bitrate control of a destination, stepping down when the connection
+ * cannot keep up and back up when it recovers
+ */
+export interface AdaptiveBitrateSettings {
+  enabled: boolean;
+  minBitrate: number; // kbps
+  maxBitrate: number; // kbps
+  allowTierDrop: boolean; // Lower fps and resolution once at the minimum bitrate
 }
 
 export enum VideoEncoder {
@@ -71,8 +95,50 @@ export interface StreamingState {
   totalFrames: number;
   fps: number;
   bitrate: number;
-  cpuUsage: number;
-  memoryUsage: number;
+  cpuUsage: number; // percentage, host
+  memoryUsage: number; // MB, host
+  uploadBitrate: number; // kbps acknowledged by the egress gateway
+  networkLatency: number; // ms, chunk round trip to the egress gateway
+  pendingBytes: number; // sent to the egress gateway, not yet acknowledged
+}
+
+export enum DestinationConnectionState {
+  CONNECTING = 'connecting',
+  LIVE = 'live',
+  STOPPING = 'stopping',
+  ERROR = 'error',
+  STOPPED = 'stopped'
+}
+
+/**
+ * Connection state of one destination, as reported by the egress gateway
+ */
+export interface DestinationStatus {
+  destinationId: string;
+  state: DestinationConnectionState;
+  error?: string;
+  stats?: {
+    frames: number;
+    droppedFrames: number;
+    fps: number;
+    bitrate: number; // kbps
+    queuedBytes?: number; // waiting for the gateway's encoder, or to be published with adaptive bitrate
+    droppedBytes?: number; // program stream dropped by the gateway while its encoder fell behind
+  };
+  reconnectAttempt?: number; // Set while the studio reconnects a dropped destination
+}
+
+/**
+ * One step of reconnecting a dropped destination, kept for the post-stream report
+ */
+export interface ReconnectEvent {
+  destinationId: string;
+  destinationName: string;
+  attempt: number;
+  outcome: 'scheduled' | 'attempting' | 'reconnected' | 'gave-up';
+  delay?: number; // seconds until the attempt
+  error?: string;
+  timestamp: Date;
 }
 
 export enum RecordingFormat {
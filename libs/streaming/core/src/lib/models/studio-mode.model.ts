@@ -8,6 +8,8 @@ export interface StudioMode {
   programSceneId: string;
   transition: StudioTransition;
   verticalLayout: boolean;
+  duplicateScene: boolean; // put a copy of the preview on air, so editing it stays off air
+  quickTransitions: QuickTransition[];
 }
 
 export interface StudioTransition {
@@ -18,6 +20,10 @@ export interface StudioTransition {
   };
 }
 
+export interface QuickTransition extends StudioTransition {
+  id: string;
+}
+
 export interface StudioModeState {
   inStudioMode: boolean;
   inTransition: boolean;
@@ -0,0 +1,146 @@
+import { AudioEncoder, StreamingSettings, VideoEncoder } from '../models/streaming.model';
+import {
+  AdaptiveBitrateController,
+  BitrateSample,
+  getAdaptiveBitrateSettings,
+  getEncoderTiers
+} from './adaptive-bitrate';
+
+function createSettings(overrides: Partial<StreamingSettings> = {}): StreamingSettings {
+  return {
+    videoEncoder: VideoEncoder.X264,
+    audioEncoder: AudioEncoder.AAC,
+    videoBitrate: 6000,
+    audioBitrate: 160,
+    resolution: { width: 1920, height: 1080 },
+    fps: 60,
+    keyframeInterval: 2,
+    preset: 'veryfast',
+    profile: 'high',
+    tune: 'zerolatency',
+    adaptiveBitrate: { enabled: true, minBitrate: 2000, maxBitrate: 6000, allowTierDrop: false },
+    ...overrides
+  };
+}
+
+// Bytes holding the given seconds of video at a bitrate in kbps
+const queued = (seconds: number, bitrate: number) => (seconds * bitrate * 1000) / 8;
+
+describe('getAdaptiveBitrateSettings', () => {
+  it('should default to a quarter of the bitrate up to the bitrate', () => {
+    expect(getAdaptiveBitrateSettings(createSettings({ adaptiveBitrate: undefined }))).toEqual({
+      enabled: false,
+      minBitrate: 1500,
+      maxBitrate: 6000,
+      allowTierDrop: false
+    });
+  });
+});
+
+describe('getEncoderTiers', () => {
+  it('should fall back to 30 fps, then lower resolutions', () => {
+    expect(getEncoderTiers(createSettings())).toEqual([
+      { resolution: { width: 1920, height: 1080 }, fps: 60 },
+      { resolution: { width: 1920, height: 1080 }, fps: 30 },
+      { resolution: { width: 1280, height: 720 }, fps: 30 },
+      { resolution: { width: 854, height: 480 }, fps: 30 },
+      { resolution: { width: 640, height: 360 }, fps: 30 }
+    ]);
+  });
+});
+
+describe('AdaptiveBitrateController', () => {
+  let frames: number;
+  let droppedFrames: number;
+
+  // One second of streaming at 60 fps
+  const sample = (queuedBytes: number, dropped = 0): BitrateSample => {
+    frames += 60 - dropped;
+    droppedFrames += dropped;
+    return { queuedBytes, frames, droppedFrames };
+  };
+
+  beforeEach(() => {
+    frames = 0;
+    droppedFrames = 0;
+  });
+
+  it('should hold the bitrate while the connection keeps up', () => {
+    const controller = new AdaptiveBitrateController(createSettings());
+
+    for (let i = 0; i < 5; i++) {
+      expect(controller.update(sample(queued(0.5, 6000)))).toBeNull();
+    }
+    expect(controller.target.videoBitrate).toBe(6000);
+  });
+
+  it('should step down when the queue builds up, waiting for each step to settle', () => {
+    const controller = new AdaptiveBitrateController(createSettings());
+
+    const decision = controller.update(sample(queued(1.5, 6000)));
+    expect(decision).toEqual({
+      target: { resolution: { width: 1920, height: 1080 }, fps: 60, videoBitrate: 4800 },
+      reason: '1.5 s of video queued; lowering bitrate'
+    });
+
+    expect(controller.update(sample(queued(1.5, 4800)))).toBeNull();
+    expect(controller.update(sample(queued(1.5, 4800)))).toBeNull();
+    expect(controller.update(sample(queued(1.5, 4800)))?.target.videoBitrate).toBe(3850);
+  });
+
+  it('should step down harder on dropped frames and stop at the minimum', () => {
+    const controller = new AdaptiveBitrateController(createSettings());
+
+    expect(controller.update(sample(0))).toBeNull();
+    expect(controller.update(sample(0, 12))?.reason).toBe('20.0% of frames dropped; lowering bitrate');
+    expect(controller.target.videoBitrate).toBe(3600);
+
+    for (let i = 0; i < 20; i++) {
+      controller.update(sample(0, 12));
+    }
+    expect(controller.target.videoBitrate).toBe(2000);
+    expect(controller.target.fps).toBe(60);
+  });
+
+  it('should drop fps and resolution tiers at the minimum when allowed', () => {
+    const controller = new AdaptiveBitrateController(createSettings({
+      videoBitrate: 2000,
+      adaptiveBitrate: { enabled: true, minBitrate: 2000, maxBitrate: 6000, allowTierDrop: true }
+    }));
+
+    expect(controller.update(sample(queued(5, 2000)))?.target).toEqual({
+      resolution: { width: 1920, height: 1080 },
+      fps: 30,
+      videoBitrate: 2000
+    });
+  });
+
+  it('should restore quality, then raise the bitrate after a clear stretch', () => {
+    const controller = new AdaptiveBitrateController(createSettings({
+      videoBitrate: 2000,
+      adaptiveBitrate: { enabled: true, minBitrate: 2000, maxBitrate: 6000, allowTierDrop: true }
+    }));
+    controller.update(sample(queued(5, 2000)));
+
+    const decisions = [];
+    for (let i = 0; i < 20; i++) {
+      const decision = controller.update(sample(0));
+      if (decision) decisions.push(decision);
+    }
+
+    expect(decisions.map(decision => [decision.target.fps, decision.target.videoBitrate])).toEqual([
+      [60, 2000],
+      [60, 2600]
+    ]);
+    expect(decisions[1].reason).toBe('Connection clear for 10 s; raising bitrate');
+  });
+
+  it('should not raise the bitrate past the maximum', () => {
+    const controller = new AdaptiveBitrateController(createSettings({ videoBitrate: 5900 }));
+
+    for (let i = 0; i < 10; i++) {
+      controller.update(sample(0));
+    }
+    expect(controller.target.videoBitrate).toBe(6000);
+  });
+});
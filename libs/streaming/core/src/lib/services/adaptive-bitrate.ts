@@ -0,0 +1,186 @@
+import { AdaptiveBitrateSettings, StreamingSettings } from '../models/streaming.model';
+
+/**
+ * Adaptive Bitrate
+ * Congestion control for one destination. Fed the gateway's reports once a
+ * second, it steps the encoder bitrate down when the egress queue builds up
+ * or frames drop, and back up once the connection has been clear for a while.
+ * At the minimum bitrate, severe congestion can also drop fps and resolution.
+ */
+
+export interface EncoderTier {
+  resolution: { width: number; height: number };
+  fps: number;
+}
+
+export interface EncoderTarget extends EncoderTier {
+  videoBitrate: number; // kbps
+}
+
+/**
+ * What the gateway last reported for a destination
+ */
+export interface BitrateSample {
+  queuedBytes: number;
+  frames: number; // since the destination connected
+  droppedFrames: number; // since the destination connected
+}
+
+export interface BitrateDecision {
+  target: EncoderTarget;
+  reason: string;
+}
+
+// Seconds of video waiting to be published
+const QUEUE_CONGESTED = 1;
+const QUEUE_SEVERE = 4;
+const QUEUE_CLEAR = 0.25;
+
+// Share of frames dropped since the last sample
+const DROPS_CONGESTED = 0.02;
+const DROPS_SEVERE = 0.1;
+
+// Samples to wait after a change before stepping down again, and of clear
+// connection before stepping up
+const HOLD_SAMPLES = 3;
+const CLEAR_SAMPLES = 10;
+
+const STEP_DOWN = 0.8;
+const STEP_DOWN_SEVERE = 0.6;
+const MIN_STEP_UP = 250; // kbps
+
+const TIER_HEIGHTS = [720, 480, 360];
+
+/**
+ * Adaptive bitrate settings for a destination, defaulting to a range from a
+ * quarter of its bitrate up to its bitrate
+ */
+export function getAdaptiveBitrateSettings(settings: StreamingSettings): AdaptiveBitrateSettings {
+  return settings.adaptiveBitrate ?? {
+    enabled: false,
+    minBitrate: Math.max(500, Math.round(settings.videoBitrate / 4 / 100) * 100),
+    maxBitrate: settings.videoBitrate,
+    allowTierDrop: false
+  };
+}
+
+/**
+ * The fps and resolution a destination falls back to, best first: the
+ * configured one, then 30 fps, then lower resolutions at the same aspect ratio
+ */
+export function getEncoderTiers(settings: StreamingSettings): EncoderTier[] {
+  const { resolution, fps } = settings;
+  const tiers: EncoderTier[] = [{ resolution, fps }];
+  const lowFps = Math.min(fps, 30);
+
+  if (lowFps < fps) {
+    tiers.push({ resolution, fps: lowFps });
+  }
+  TIER_HEIGHTS.filter(height => height < resolution.height).forEach(height => {
+    // Encoders want even dimensions
+    const width = Math.round((resolution.width * height) / resolution.height / 2) * 2;
+    tiers.push({ resolution: { width, height }, fps: lowFps });
+  });
+
+  return tiers;
+}
+
+export class AdaptiveBitrateController {
+  private readonly options: AdaptiveBitrateSettings;
+  private readonly tiers: EncoderTier[];
+  private tier = 0;
+  private bitrate: number;
+  private holdSamples = 0;
+  private clearSamples = 0;
+  private previous: BitrateSample | null = null;
+
+  constructor(settings: StreamingSettings) {
+    this.options = getAdaptiveBitrateSettings(settings);
+    this.tiers = getEncoderTiers(settings);
+    this.bitrate = this.clamp(settings.videoBitrate);
+  }
+
+  get target(): EncoderTarget {
+    return { ...this.tiers[this.tier], videoBitrate: this.bitrate };
+  }
+
+  /**
+   * Take a sample, returning the new target when the encoder should change
+   */
+  update(sample: BitrateSample): BitrateDecision | null {
+    const queueSeconds = (sample.queuedBytes * 8) / (this.bitrate * 1000);
+    const drops = this.dropRatio(sample);
+    this.previous = sample;
+
+    const severe = queueSeconds >= QUEUE_SEVERE || drops >= DROPS_SEVERE;
+    const congested = severe || queueSeconds >= QUEUE_CONGESTED || drops >= DROPS_CONGESTED;
+    const clear = queueSeconds < QUEUE_CLEAR && drops === 0;
+
+    if (this.holdSamples > 0) {
+      this.holdSamples--;
+    }
+    this.clearSamples = clear ? this.clearSamples + 1 : 0;
+
+    if (congested) {
+      if (this.holdSamples > 0) return null;
+
+      const cause = queueSeconds >= QUEUE_CONGESTED
+        ? `${queueSeconds.toFixed(1)} s of video queued`
+        : `${(drops * 100).toFixed(1)}% of frames dropped`;
+      return this.stepDown(severe, cause);
+    }
+
+    if (this.clearSamples >= CLEAR_SAMPLES) {
+      return this.stepUp();
+    }
+    return null;
+  }
+
+  private stepDown(severe: boolean, cause: string): BitrateDecision | null {
+    if (this.bitrate > this.options.minBitrate) {
+      const factor = severe ? STEP_DOWN_SEVERE : STEP_DOWN;
+      this.bitrate = this.clamp(Math.round((this.bitrate * factor) / 50) * 50);
+      return this.decide(`${cause}; lowering bitrate`);
+    }
+
+    if (severe && this.options.allowTierDrop && this.tier < this.tiers.length - 1) {
+      this.tier++;
+      return this.decide(`${cause} at the minimum bitrate; lowering quality`);
+    }
+    return null;
+  }
+
+  private stepUp(): BitrateDecision | null {
+    // Quality dropped last comes back first
+    if (this.tier > 0) {
+      this.tier--;
+      return this.decide(`Connection clear for ${CLEAR_SAMPLES} s; restoring quality`);
+    }
+
+    if (this.bitrate < this.options.maxBitrate) {
+      const step = Math.max(MIN_STEP_UP, Math.round(this.options.maxBitrate / 10));
+      this.bitrate = this.clamp(this.bitrate + step);
+      return this.decide(`Connection clear for ${CLEAR_SAMPLES} s; raising bitrate`);
+    }
+    return null;
+  }
+
+  private decide(reason: string): BitrateDecision {
+    this.holdSamples = HOLD_SAMPLES;
+    this.clearSamples = 0;
+    return { target: this.target, reason };
+  }
+
+  private dropRatio(sample: BitrateSample): number {
+    if (!this.previous) return 0;
+
+    const frames = sample.frames - this.previous.frames;
+    const dropped = sample.droppedFrames - this.previous.droppedFrames;
+    if (frames <= 0 || dropped <= 0) return 0;
+    return dropped / (frames + dropped);
+  }
+
+  private clamp(bitrate: number): number {
+    return Math.min(this.options.maxBitrate, Math.max(this.options.minBitrate, bitrate));
+  }
+}
@@ -1,5 +1,6 @@
-import { Injectable, signal } from '@angular/core';
+import { Injectable, effect, signal } from '@angular/core';
 import { BehaviorSubject, Observable, interval } from 'rxjs';
+import { AudioMixerEngine } from '@org/audio-engine';
 import {
   AudioDevice,
   AudioDeviceType,
@@ -9,6 +10,15 @@ import {
   MonitoringType,
   AudioMetering,
 } from '../models/audio.model';
+import { SourceType } from '../models/source.model';
+import { SourceService } from './source.service';
+
+const SILENT_METERING: AudioMetering = {
+  peak: [0, 0],
+  magnitude: [0, 0],
+  inputPeak: [0, 0],
+  inputMagnitude: [0, 0],
+};
 
 @Injectable({
   providedIn: 'root',
@@ -36,8 +46,15 @@ export class AudioService {
   // Signal-based API for reactive components
   public readonly mixer = signal<AudioMixer | null>(null);
 
-  constructor() {
+  private audioContext: AudioContext | null = null;
+  private engine: AudioMixerEngine | null = null;
+  private attachedSourceStreams = new Map<string, MediaStream>();
+  private capturedSourceStreams = new Map<string, Promise<MediaStream | null>>();
+  private outputBusSources = new Map<string, string[]>();
+
+  constructor(private sourceService: SourceService) {
     this.discoverDevices();
+    effect(() => this.applySyncDelays());
   }
 
   /**
@@ -173,6 +190,9 @@ export class AudioService {
     );
     if (device) {
       this.activeOutputDeviceSubject.next(device);
+      this.engine
+        ?.setMonitorDevice(device.id)
+        .catch((error) => console.error('Failed to switch monitoring device:', error));
     }
   }
 
@@ -189,6 +209,7 @@ export class AudioService {
     };
 
     this.updateMixer(mixer);
+    this.ensureEngine();
   }
 
   /**
@@ -429,39 +450,11 @@ export class AudioService {
    * Start metering for a track
    */
   private startMetering(trackId: string): void {
-    const meteringSubject = new BehaviorSubject<AudioMetering>({
-      peak: [0, 0],
-      magnitude: [0, 0],
-      inputPeak: [0, 0],
-      inputMagnitude: [0, 0],
-    });
-
-    this.meteringData.set(trackId, meteringSubject);
-
-    // Simulate metering data updates
-    interval(50).subscribe(() => {
-      const mixer = this.mixerSubject.value;
-      if (!mixer) return;
-
-      const track = mixer.tracks.find((t) => t.id === trackId);
-      if (!track) {
-        this.stopMetering(trackId);
-        return;
-      }
-
-      // Generate simulated metering data
-      const metering: AudioMetering = {
-        peak: [Math.random() * track.volume, Math.random() * track.volume],
-        magnitude: [
-          Math.random() * track.volume * 0.8,
-          Math.random() * track.volume * 0.8,
-        ],
-        inputPeak: [Math.random(), Math.random()],
-        inputMagnitude: [Math.random() * 0.8, Math.random() * 0.8],
-      };
-
-      meteringSubject.next(metering);
-    });
+    if (this.meteringData.has(trackId)) return;
+    this.meteringData.set(
+      trackId,
+      new BehaviorSubject<AudioMetering>(SILENT_METERING)
+    );
   }
 
   /**
@@ -475,6 +468,118 @@ export class AudioService {
     }
   }
 
+  /**
+   * Measure a track's current levels from the audio graph
+   */
+  readTrackMetering(trackId: string): AudioMetering {
+    return this.engine?.readTrackLevels(trackId) ?? SILENT_METERING;
+  }
+
+  /**
+   * Measure the master bus peak levels
+   */
+  readMasterMetering(): number[] {
+    return this.engine?.readMasterLevels().peak ?? [0, 0];
+  }
+
+  /**
+   * Push measured levels to all metering subscribers
+   */
+  private updateMetering(): void {
+    this.meteringData.forEach((subject, trackId) => {
+      subject.next(this.readTrackMetering(trackId));
+    });
+  }
+
+  /**
+   * Feed a source's audio into the mixer, e.g. desktop audio or a browser source
+   */
+  connectSourceAudio(sourceId: string, stream: MediaStream): void {
+    this.attachedSourceStreams.set(sourceId, stream);
+    this.engine?.setSourceStream(sourceId, stream);
+  }
+
+  /**
+   * Stop feeding a source's audio into the mixer
+   */
+  disconnectSourceAudio(sourceId: string): void {
+    this.attachedSourceStreams.delete(sourceId);
+    this.engine?.setSourceStream(sourceId, null);
+    this.syncSourceStreams();
+  }
+
+  /**
+   * Get the raw audio of a source as fed into the mixer, ahead of its sync delay
+   */
+  getSourceAudioStream(sourceId: string): MediaStream | null {
+    return this.engine?.getSourceStream(sourceId) ?? null;
+  }
+
+  /**
+   * Fade sources out and in over the given time, e.g. during a scene transition
+   */
+  crossfadeSources(fadeOutIds: string[], fadeInIds: string[], duration: number): void {
+    const engine = this.ensureEngine();
+    if (!engine) return;
+
+    const seconds = Math.max(0, duration) / 1000;
+    fadeOutIds.forEach((sourceId) => engine.setSourceGain(sourceId, 0, seconds));
+    fadeInIds.forEach((sourceId) => engine.setSourceGain(sourceId, 1, seconds));
+  }
+
+  /**
+   * Hold a crossfade at a position (0-1), e.g. while a transition is scrubbed by hand
+   */
+  setCrossfadePosition(fadeOutIds: string[], fadeInIds: string[], position: number): void {
+    const engine = this.ensureEngine();
+    if (!engine) return;
+
+    const value = Math.max(0, Math.min(1, position));
+    fadeOutIds.forEach((sourceId) => engine.setSourceGain(sourceId, 1 - value));
+    fadeInIds.forEach((sourceId) => engine.setSourceGain(sourceId, value));
+  }
+
+  /**
+   * Render a separate mix of the given sources, e.g. a recording track
+   */
+  createOutputBus(busId: string, sourceIds: string[]): MediaStream | null {
+    const engine = this.ensureEngine();
+    if (!engine) return null;
+
+    this.outputBusSources.set(busId, sourceIds);
+    const stream = engine.createOutputBus(busId, sourceIds);
+    this.syncSourceStreams();
+    return stream;
+  }
+
+  /**
+   * Remove an output bus created with createOutputBus()
+   */
+  removeOutputBus(busId: string): void {
+    this.outputBusSources.delete(busId);
+    this.engine?.removeOutputBus(busId);
+    this.syncSourceStreams();
+  }
+
+  /**
+   * Get the mixed program audio bus as a MediaStream
+   */
+  getProgramAudioStream(): MediaStream | null {
+    return this.ensureEngine()?.getProgramStream() ?? null;
+  }
+
+  /**
+   * Get the shared audio context, created on first use
+   */
+  getAudioContext(): AudioContext | null {
+    if (!this.audioContext) {
+      if (typeof AudioContext === 'undefined') return null;
+      this.audioContext = new AudioContext({ sampleRate: 48000 });
+    }
+
+    return this.audioContext;
+  }
+
   /**
    * Update a track
    */
@@ -504,6 +609,128 @@ export class AudioService {
   private updateMixer(mixer: AudioMixer | null): void {
     this.mixerSubject.next(mixer);
     this.mixer.set(mixer);
+
+    if (this.engine && mixer) {
+      this.engine.sync(mixer);
+      this.syncSourceStreams();
+      this.resumeAudioContext();
+    }
+  }
+
+  /**
+   * Create the mixing graph on first use
+   */
+  private ensureEngine(): AudioMixerEngine | null {
+    if (this.engine) return this.engine;
+
+    const context = this.getAudioContext();
+    if (!context) return null;
+
+    this.engine = new AudioMixerEngine(context);
+    const mixer = this.mixerSubject.value;
+    if (mixer) {
+      this.engine.sync(mixer);
+      this.syncSourceStreams();
+    }
+
+    this.applySyncDelays();
+
+    // 20 updates per second for the meters
+    interval(50).subscribe(() => this.updateMetering());
+    this.resumeAudioContext();
+
+    return this.engine;
+  }
+
+  /**
+   * Provide the engine with the audio of every source used by a track.
+   * Audio input sources are captured here; other sources attach their
+   * streams through connectSourceAudio().
+   */
+  private syncSourceStreams(): void {
+    const engine = this.engine;
+    if (!engine) return;
+
+    const tracks = this.mixerSubject.value?.tracks ?? [];
+    const usedSourceIds = new Set([
+      ...tracks.flatMap((t) => t.sourceIds),
+      ...Array.from(this.outputBusSources.values()).flat(),
+    ]);
+
+    usedSourceIds.forEach((sourceId) => {
+      const attached = this.attachedSourceStreams.get(sourceId);
+      if (attached) {
+        engine.setSourceStream(sourceId, attached);
+        return;
+      }
+
+      const source = this.sourceService.getSource(sourceId);
+      if (
+        source?.type === SourceType.AUDIO_INPUT &&
+        !this.capturedSourceStreams.has(sourceId)
+      ) {
+        const capture = this.captureAudioInput(source.settings['deviceId']);
+        this.capturedSourceStreams.set(sourceId, capture);
+        capture.then((stream) => {
+          if (stream && this.capturedSourceStreams.get(sourceId) === capture) {
+            this.engine?.setSourceStream(sourceId, stream);
+          }
+        });
+      }
+    });
+
+    // Release captures no track uses anymore
+    this.capturedSourceStreams.forEach((capture, sourceId) => {
+      if (!usedSourceIds.has(sourceId)) {
+        this.capturedSourceStreams.delete(sourceId);
+        engine.setSourceStream(sourceId, null);
+        capture.then((stream) => stream?.getTracks().forEach((t) => t.stop()));
+      }
+    });
+  }
+
+  /**
+   * Delay every source's audio by its sync delay, matching the compositor
+   */
+  private applySyncDelays(): void {
+    const sources = this.sourceService.sources();
+    const engine = this.engine;
+    if (!engine) return;
+
+    sources.forEach((source) =>
+      engine.setSourceDelay(source.id, this.sourceService.getSyncDelay(source.id) / 1000)
+    );
+  }
+
+  /**
+   * Open a microphone for an audio input source
+   */
+  private async captureAudioInput(
+    deviceId?: string
+  ): Promise<MediaStream | null> {
+    try {
+      return await navigator.mediaDevices.getUserMedia({
+        audio: {
+          deviceId: deviceId ? { exact: deviceId } : undefined,
+          // The mixer's own filters handle processing
+          echoCancellation: false,
+          noiseSuppression: false,
+          autoGainControl: false,
+        },
+      });
+    } catch (error) {
+      console.error('Failed to capture audio input:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Browsers start audio contexts suspended until a user gesture
+   */
+  private resumeAudioContext(): void {
+    if (this.audioContext?.state === 'suspended') {
+      this.audioContext.resume().catch(() => undefined);
+    }
   }
 
   /**
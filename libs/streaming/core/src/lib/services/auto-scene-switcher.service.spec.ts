@@ -0,0 +1,217 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { AutoSceneSwitcherService, SwitchTrigger } from './auto-scene-switcher.service';
+import { AudioService } from './audio.service';
+import { CompositorService } from './compositor.service';
+import { GameDetectionService, GameInfo } from './game-detection.service';
+import { SceneService } from './scene.service';
+import { Scene, TransitionType } from '../models/scene.model';
+
+describe('AutoSceneSwitcherService', () => {
+  let service: AutoSceneSwitcherService;
+  let sceneService: SceneService;
+  let currentGame: ReturnType<typeof signal<GameInfo | null>>;
+  let micLevel: number;
+  let game: Scene;
+  let facecam: Scene;
+  let brb: Scene;
+
+  const addTrigger = (trigger: Partial<SwitchTrigger> & Pick<SwitchTrigger, 'type' | 'targetScene'>) =>
+    service.addTrigger({ name: trigger.type, enabled: true, conditions: {}, ...trigger });
+
+  // Let a started switch finish
+  const evaluateAt = async (now: number) => {
+    service.evaluate(now);
+    await new Promise(resolve => setTimeout(resolve));
+  };
+
+  const speech = { trackId: 'mic', thresholdDb: -30, holdTime: 2000, releaseTime: 3000 };
+
+  beforeEach(async () => {
+    localStorage.clear();
+    currentGame = signal<GameInfo | null>(null);
+    TestBed.configureTestingModule({
+      providers: [{ provide: GameDetectionService, useValue: { currentGame } }]
+    });
+
+    sceneService = TestBed.inject(SceneService);
+    sceneService.setDefaultTransition({ type: TransitionType.CUT, duration: 0, settings: {} });
+    game = sceneService.createScene('Game');
+    facecam = sceneService.createScene('Facecam');
+    brb = sceneService.createScene('BRB');
+    sceneService.setActiveScene(game.id);
+
+    micLevel = 0;
+    vi.spyOn(TestBed.inject(AudioService), 'readTrackMetering').mockImplementation(() => ({
+      peak: [micLevel, micLevel],
+      magnitude: [micLevel, micLevel],
+      inputPeak: [micLevel, micLevel],
+      inputMagnitude: [micLevel, micLevel]
+    }));
+
+    service = TestBed.inject(AutoSceneSwitcherService);
+    service.stop();
+    service.minSceneDuration.set(0);
+    await evaluateAt(0);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('audio triggers', () => {
+    beforeEach(() => {
+      addTrigger({ type: 'audio', targetScene: facecam.id, conditions: speech });
+    });
+
+    it('should switch after speech lasts the hold time', async () => {
+      micLevel = 0.5;
+      await evaluateAt(1000);
+      await evaluateAt(2500);
+      expect(sceneService.activeSceneId()).toBe(game.id);
+
+      await evaluateAt(3000);
+      expect(sceneService.activeSceneId()).toBe(facecam.id);
+    });
+
+    it('should hand the scene back after the release time', async () => {
+      micLevel = 0.5;
+      await evaluateAt(1000);
+      await evaluateAt(3000);
+
+      micLevel = 0;
+      await evaluateAt(4000);
+      await evaluateAt(6500);
+      expect(sceneService.activeSceneId()).toBe(facecam.id);
+
+      await evaluateAt(7000);
+      expect(sceneService.activeSceneId()).toBe(game.id);
+      expect(service.switchHistory()[0]).toMatchObject({ toScene: game.id, isAutomatic: true });
+    });
+
+    it('should keep counting speech that dips within the hysteresis', async () => {
+      micLevel = 0.5;
+      await evaluateAt(1000);
+      await evaluateAt(3000);
+
+      // -36 dB is under the threshold but within the default 6 dB hysteresis
+      micLevel = 0.016;
+      await evaluateAt(4000);
+      await evaluateAt(8000);
+      expect(sceneService.activeSceneId()).toBe(facecam.id);
+    });
+
+    it('should not fight a manual switch while it stays active', async () => {
+      micLevel = 0.5;
+      await evaluateAt(1000);
+      await evaluateAt(3000);
+
+      sceneService.setActiveScene(brb.id);
+      await evaluateAt(4000);
+      await evaluateAt(10000);
+      expect(sceneService.activeSceneId()).toBe(brb.id);
+    });
+
+    it('should wait the minimum time on a scene', async () => {
+      service.minSceneDuration.set(5000);
+      micLevel = 0.5;
+      await evaluateAt(1000);
+      await evaluateAt(3000);
+      expect(sceneService.activeSceneId()).toBe(game.id);
+
+      await evaluateAt(5000);
+      expect(sceneService.activeSceneId()).toBe(facecam.id);
+    });
+  });
+
+  it('should hold the scene of a detected game', async () => {
+    sceneService.setActiveScene(facecam.id);
+    addTrigger({ type: 'game', targetScene: game.id, conditions: { processName: 'CS2.exe' } });
+    await evaluateAt(1000);
+
+    currentGame.set({
+      id: 'cs2',
+      name: 'Counter-Strike 2',
+      processName: 'cs2.exe',
+      platform: 'Steam',
+      isRunning: true,
+      playtime: 0
+    });
+    await evaluateAt(2000);
+    expect(sceneService.activeSceneId()).toBe(game.id);
+
+    currentGame.set(null);
+    await evaluateAt(3000);
+    expect(sceneService.activeSceneId()).toBe(facecam.id);
+  });
+
+  it('should switch when a media source ends', async () => {
+    addTrigger({ type: 'media', targetScene: brb.id, conditions: { sourceId: 'intro' } });
+
+    TestBed.inject(CompositorService)['mediaEndedSubject'].next('outro');
+    expect(sceneService.activeSceneId()).toBe(game.id);
+
+    TestBed.inject(CompositorService)['mediaEndedSubject'].next('intro');
+    expect(sceneService.activeSceneId()).toBe(brb.id);
+  });
+
+  it('should switch after time on a scene', async () => {
+    addTrigger({ type: 'timer', targetScene: brb.id, conditions: { duration: 60000, fromScene: game.id } });
+
+    await evaluateAt(59000);
+    expect(sceneService.activeSceneId()).toBe(game.id);
+
+    await evaluateAt(60000);
+    expect(sceneService.activeSceneId()).toBe(brb.id);
+  });
+
+  it('should pick the trigger with the highest priority', async () => {
+    addTrigger({ type: 'timer', targetScene: facecam.id, priority: 1, conditions: { duration: 1000 } });
+    addTrigger({ type: 'timer', targetScene: brb.id, priority: 5, conditions: { duration: 1000 } });
+
+    await evaluateAt(1000);
+    expect(sceneService.activeSceneId()).toBe(brb.id);
+  });
+
+  it('should keep an active trigger against a lower priority', async () => {
+    addTrigger({ type: 'audio', targetScene: facecam.id, priority: 2, conditions: speech });
+    const timer = addTrigger({ type: 'timer', targetScene: brb.id, priority: 1, conditions: { duration: 1000 } });
+    micLevel = 0.5;
+    await evaluateAt(0);
+    await evaluateAt(2000);
+    expect(sceneService.activeSceneId()).toBe(facecam.id);
+
+    await evaluateAt(5000);
+    expect(sceneService.activeSceneId()).toBe(facecam.id);
+
+    service.updateTrigger(timer.id, { priority: 3 });
+    await evaluateAt(6000);
+    expect(sceneService.activeSceneId()).toBe(brb.id);
+  });
+
+  it('should respect a trigger cooldown', async () => {
+    const hotkey = addTrigger({ type: 'hotkey', targetScene: brb.id, cooldown: 10000 });
+    const fireAt = async (now: number) => {
+      vi.spyOn(Date, 'now').mockReturnValue(now);
+      service.fireTrigger(hotkey.id);
+      await evaluateAt(now);
+    };
+
+    await fireAt(1000);
+    sceneService.setActiveScene(game.id);
+
+    await fireAt(5000);
+    expect(sceneService.activeSceneId()).toBe(game.id);
+
+    await fireAt(11000);
+    expect(sceneService.activeSceneId()).toBe(brb.id);
+  });
+
+  it('should do nothing while disabled', async () => {
+    addTrigger({ type: 'timer', targetScene: brb.id, conditions: { duration: 0 } });
+    service.isEnabled.set(false);
+
+    await evaluateAt(1000);
+    expect(sceneService.activeSceneId()).toBe(game.id);
+  });
+});
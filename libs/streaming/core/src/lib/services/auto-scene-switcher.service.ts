@@ -1,12 +1,65 @@
-import { Injectable, signal } from '@angular/core';
+import { Injectable, computed, effect, inject, signal } from '@angular/core';
+import { gainToDb } from '@org/audio-engine';
+import { AudioService } from './audio.service';
+import { CompositorService } from './compositor.service';
+import { GameDetectionService, GameInfo } from './game-detection.service';
+import { SceneService } from './scene.service';
+import { TransitionService } from './transition.service';
+
+/**
+ * Auto Scene Switcher Service
+ * Switches scenes by rule: speech on a mixer track, a detected game, a media
+ * source playing to its end or time spent on a scene. Audio and game triggers
+ * hold their scene while they stay active and hand the previous scene back when
+ * they release; the others fire once. The highest priority wins, and cooldowns
+ * plus a minimum time on each scene keep it from flapping.
+ */
+
+export type SwitchTriggerType = 'audio' | 'hotkey' | 'timer' | 'game' | 'media' | 'custom';
 
 export interface SwitchTrigger {
   id: string;
   name: string;
   enabled: boolean;
-  type: 'audio' | 'hotkey' | 'timer' | 'game' | 'media' | 'custom';
-  targetScene: string;
+  type: SwitchTriggerType;
+  targetScene: string; // scene ID
   conditions: Record<string, unknown>;
+  priority?: number; // higher wins, 0 by default
+  cooldown?: number; // ms before the trigger may fire again
+}
+
+/**
+ * Conditions of an audio trigger: speech on a mixer track
+ */
+export interface AudioSwitchConditions {
+  trackId: string;
+  thresholdDb?: number;
+  hysteresisDb?: number; // how far below the threshold still counts as speech once active
+  holdTime?: number; // ms of speech before switching
+  releaseTime?: number; // ms of silence before handing the scene back
+}
+
+/**
+ * Conditions of a game trigger. Any game matches when neither is set.
+ */
+export interface GameSwitchConditions {
+  gameName?: string;
+  processName?: string;
+}
+
+/**
+ * Conditions of a media trigger: the media source played to its end
+ */
+export interface MediaSwitchConditions {
+  sourceId: string;
+}
+
+/**
+ * Conditions of a timer trigger: time on air of the current scene
+ */
+export interface TimerSwitchConditions {
+  duration: number; // ms
+  fromScene?: string; // only from this scene ID
 }
 
 export interface SceneSwitch {
@@ -18,18 +71,95 @@ export interface SceneSwitch {
   isAutomatic: boolean;
 }
 
+interface TriggerState {
+  active: boolean;
+  changingSince: number | null; // when the condition started to disagree with `active`
+  suppressed: boolean; // overridden by a manual switch until it releases
+  lastFired: number | null;
+}
+
+// The automatic switch that put the current scene on air
+interface HeldScene {
+  triggerId: string;
+  sceneId: string;
+  priority: number;
+  returnScene: string | null; // handed back when an audio or game trigger releases, null for one-off triggers
+}
+
+const STATE_TRIGGER_TYPES = new Set<SwitchTriggerType>(['audio', 'game']);
+const EVALUATION_INTERVAL_MS = 250;
+
+const DEFAULT_AUDIO_CONDITIONS = {
+  thresholdDb: -30,
+  hysteresisDb: 6,
+  holdTime: 2000,
+  releaseTime: 3000
+};
+
 @Injectable({
   providedIn: 'root'
 })
 export class AutoSceneSwitcherService {
+  private sceneService = inject(SceneService);
+  private transitionService = inject(TransitionService);
+  private audioService = inject(AudioService);
+  private gameDetection = inject(GameDetectionService);
+  private compositor = inject(CompositorService);
+
   readonly isEnabled = signal(true);
   readonly triggers = signal<SwitchTrigger[]>([]);
   readonly switchHistory = signal<SceneSwitch[]>([]);
-  readonly currentScene = signal('Default');
+  readonly currentScene = computed(() => this.sceneService.activeSceneId() ?? '');
+  // Minimum time on a scene before audio and game triggers switch again (ms)
+  readonly minSceneDuration = signal(3000);
+  readonly activeTriggerIds = signal<string[]>([]);
+
+  private states = new Map<string, TriggerState>();
+  private endedMediaIds = new Set<string>();
+  private firedTriggerIds = new Set<string>();
+  private held: HeldScene | null = null;
+  private lastSceneId: string | null = null;
+  private lastSceneChange = 0;
+  private switching = false;
+  private switchTarget: string | null = null;
+  private evaluationInterval?: ReturnType<typeof setInterval>;
+
+  constructor() {
+    this.compositor.mediaEnded$.subscribe(sourceId => {
+      this.endedMediaIds.add(sourceId);
+      this.evaluate();
+    });
+
+    effect(() => {
+      if (this.isEnabled()) {
+        this.start();
+      } else {
+        this.stop();
+      }
+    });
+  }
+
+  /**
+   * Start evaluating the triggers
+   */
+  start(): void {
+    if (this.evaluationInterval) return;
+    this.evaluationInterval = setInterval(() => this.evaluate(), EVALUATION_INTERVAL_MS);
+  }
+
+  /**
+   * Stop evaluating the triggers
+   */
+  stop(): void {
+    if (this.evaluationInterval) {
+      clearInterval(this.evaluationInterval);
+      this.evaluationInterval = undefined;
+    }
+  }
 
-  switchScene(targetScene: string, triggerName: string, isAutomatic: boolean): void {
+  async switchScene(targetScene: string, triggerName: string, isAutomatic: boolean): Promise<void> {
     const previousScene = this.currentScene();
-    if (previousScene === targetScene) return;
+    if (previousScene === targetScene || !this.sceneService.getScene(targetScene)) return;
 
     const switchEvent: SceneSwitch = {
       id: crypto.randomUUID(),
@@ -40,15 +170,206 @@ export class AutoSceneSwitcherService {
       isAutomatic
     };
 
-    this.currentScene.set(targetScene);
     this.switchHistory.update(h => [switchEvent, ...h].slice(0, 100));
+    await this.sceneService.transitionToScene(targetScene);
   }
 
-  addTrigger(trigger: Omit<SwitchTrigger, 'id'>): void {
-    this.triggers.update(t => [...t, { ...trigger, id: crypto.randomUUID() }]);
+  addTrigger(trigger: Omit<SwitchTrigger, 'id'>): SwitchTrigger {
+    const created: SwitchTrigger = { ...trigger, id: crypto.randomUUID() };
+    this.triggers.update(t => [...t, created]);
+    return created;
+  }
+
+  updateTrigger(id: string, updates: Partial<Omit<SwitchTrigger, 'id'>>): void {
+    this.triggers.update(t => t.map(trigger => (trigger.id === id ? { ...trigger, ...updates } : trigger)));
+    this.states.delete(id);
   }
 
   removeTrigger(id: string): void {
     this.triggers.update(t => t.filter(trigger => trigger.id !== id));
+    this.states.delete(id);
+  }
+
+  /**
+   * Fire a hotkey or custom trigger on the next evaluation
+   */
+  fireTrigger(id: string): void {
+    this.firedTriggerIds.add(id);
+    this.evaluate();
+  }
+
+  /**
+   * Check every trigger and switch to the scene of the winning one
+   */
+  evaluate(now = Date.now()): void {
+    const current = this.sceneService.activeSceneId();
+    if (current !== this.lastSceneId) {
+      this.lastSceneId = current;
+      this.lastSceneChange = now;
+
+      if (current !== this.switchTarget) {
+        // Switched by hand: active triggers wait until they release before switching again
+        this.held = null;
+        this.states.forEach(state => (state.suppressed = state.active));
+      }
+      this.switchTarget = null;
+    }
+
+    const triggers = this.isEnabled() ? this.triggers().filter(t => t.enabled) : [];
+    const met = triggers.filter(trigger => this.isConditionMet(trigger, now));
+    this.activeTriggerIds.set(
+      triggers.filter(t => STATE_TRIGGER_TYPES.has(t.type) && this.getState(t.id).active).map(t => t.id)
+    );
+
+    // Events wait while a switch is under way
+    if (!current || this.switching || this.transitionService.isTransitioning()) return;
+    this.endedMediaIds.clear();
+    this.firedTriggerIds.clear();
+
+    const settled = now - this.lastSceneChange >= this.minSceneDuration();
+    const holder = this.held ? triggers.find(t => t.id === this.held?.triggerId) : undefined;
+    const holderActive = !!holder && this.getState(holder.id).active;
+    const candidates = met
+      .filter(trigger => trigger.targetScene !== current && this.canOverride(trigger, holderActive))
+      .filter(trigger => !this.isCoolingDown(trigger, now))
+      .filter(trigger => settled || !STATE_TRIGGER_TYPES.has(trigger.type))
+      .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+
+    const winner = candidates[0];
+    if (winner) {
+      this.getState(winner.id).lastFired = now;
+      const returnScene = this.held?.returnScene ?? current;
+      this.held = {
+        triggerId: winner.id,
+        sceneId: winner.targetScene,
+        priority: winner.priority ?? 0,
+        returnScene: STATE_TRIGGER_TYPES.has(winner.type) ? returnScene : null
+      };
+      this.runSwitch(winner.targetScene, winner.name);
+      return;
+    }
+
+    // Hand the scene back once the holding trigger releases
+    const held = this.held;
+    if (held?.returnScene && !holderActive && settled) {
+      this.held = null;
+      this.runSwitch(held.returnScene, holder ? `${holder.name} (released)` : 'Trigger removed');
+    }
+  }
+
+  /**
+   * Whether a trigger may replace the scene put on air by the held trigger.
+   * An active audio or game trigger keeps its scene against equal priorities;
+   * a scene from a one-off trigger does not.
+   */
+  private canOverride(trigger: SwitchTrigger, holderActive: boolean): boolean {
+    if (!this.held) return true;
+
+    const priority = trigger.priority ?? 0;
+    if (this.held.returnScene === null) return priority >= this.held.priority;
+    return !holderActive || priority > this.held.priority;
+  }
+
+  private runSwitch(targetScene: string, triggerName: string): void {
+    this.switching = true;
+    this.switchTarget = targetScene;
+    this.switchScene(targetScene, triggerName, true)
+      .catch(error => console.error('Automatic scene switch failed:', error))
+      .finally(() => (this.switching = false));
+  }
+
+  /**
+   * Update a trigger's state and tell whether it wants its scene now
+   */
+  private isConditionMet(trigger: SwitchTrigger, now: number): boolean {
+    switch (trigger.type) {
+      case 'audio':
+        this.updateAudioState(trigger, now);
+        return this.wantsScene(trigger);
+      case 'game':
+        this.getState(trigger.id).active = this.matchesGame(
+          this.gameDetection.currentGame(),
+          trigger.conditions as unknown as GameSwitchConditions
+        );
+        return this.wantsScene(trigger);
+      case 'media': {
+        const conditions = trigger.conditions as unknown as MediaSwitchConditions;
+        return this.endedMediaIds.has(conditions.sourceId);
+      }
+      case 'timer': {
+        const conditions = trigger.conditions as unknown as TimerSwitchConditions;
+        if (conditions.fromScene && conditions.fromScene !== this.lastSceneId) return false;
+        return now - this.lastSceneChange >= conditions.duration;
+      }
+      case 'hotkey':
+      case 'custom':
+        return this.firedTriggerIds.has(trigger.id);
+    }
+  }
+
+  /**
+   * Speech has to last holdTime to activate the trigger and silence releaseTime
+   * to release it. Once active, the level may drop hysteresisDb below the
+   * threshold and still count as speech.
+   */
+  private updateAudioState(trigger: SwitchTrigger, now: number): void {
+    const conditions = {
+      ...DEFAULT_AUDIO_CONDITIONS,
+      ...(trigger.conditions as unknown as AudioSwitchConditions)
+    };
+    const state = this.getState(trigger.id);
+    const metering = this.audioService.readTrackMetering(conditions.trackId);
+    const levelDb = gainToDb(Math.max(0, ...metering.peak));
+    const threshold = state.active ? conditions.thresholdDb - conditions.hysteresisDb : conditions.thresholdDb;
+    const speaking = levelDb >= threshold;
+
+    if (speaking === state.active) {
+      state.changingSince = null;
+      return;
+    }
+
+    if (state.changingSince === null) {
+      state.changingSince = now;
+    }
+
+    const delay = state.active ? conditions.releaseTime : conditions.holdTime;
+    if (now - state.changingSince >= delay) {
+      state.active = speaking;
+      state.changingSince = null;
+    }
+  }
+
+  /**
+   * An active audio or game trigger, unless a manual switch overrode it
+   */
+  private wantsScene(trigger: SwitchTrigger): boolean {
+    const state = this.getState(trigger.id);
+    state.suppressed = state.suppressed && state.active;
+    return state.active && !state.suppressed;
+  }
+
+  private matchesGame(game: GameInfo | null, conditions: GameSwitchConditions): boolean {
+    if (!game) return false;
+    if (conditions.processName && conditions.processName.toLowerCase() !== game.processName.toLowerCase()) {
+      return false;
+    }
+    if (conditions.gameName && conditions.gameName.toLowerCase() !== game.name.toLowerCase()) {
+      return false;
+    }
+    return true;
+  }
+
+  private isCoolingDown(trigger: SwitchTrigger, now: number): boolean {
+    const lastFired = this.getState(trigger.id).lastFired;
+    return lastFired !== null && now - lastFired < (trigger.cooldown ?? 0);
+  }
+
+  private getState(triggerId: string): TriggerState {
+    let state = this.states.get(triggerId);
+    if (!state) {
+      state = { active: false, changingSince: null, suppressed: false, lastFired: null };
+      this.states.set(triggerId, state);
+    }
+    return state;
   }
 }
@@ -0,0 +1,160 @@
+import { TestBed } from '@angular/core/testing';
+import { BrowserSourceService } from './browser-source.service';
+import { AudioService } from './audio.service';
+import { CompositorService } from './compositor.service';
+import { SceneService } from './scene.service';
+import { SourceService } from './source.service';
+import { BrowserSourceSettings, Source, SourceType } from '../models/source.model';
+
+describe('BrowserSourceService', () => {
+  let audioService: AudioService;
+  let compositor: CompositorService;
+  let sceneService: SceneService;
+  let sourceService: SourceService;
+  let elementNodes: { connect: ReturnType<typeof vi.fn>; disconnect: ReturnType<typeof vi.fn> }[];
+
+  const createBrowserSource = (name: string, settings: BrowserSourceSettings = {}) =>
+    sourceService.createSource(name, SourceType.BROWSER, { url: 'https://example.com/alerts', ...settings });
+
+  const emitMedia = (source: Source) =>
+    (compositor as any).browserMediaSubject.next({ sourceId: source.id, element: document.createElement('audio') });
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+
+    audioService = TestBed.inject(AudioService);
+    compositor = TestBed.inject(CompositorService);
+    sceneService = TestBed.inject(SceneService);
+    sourceService = TestBed.inject(SourceService);
+
+    audioService.initializeMixer();
+    // Starts routing and watching scene changes
+    TestBed.inject(BrowserSourceService);
+    TestBed.tick();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('audio', () => {
+    beforeEach(() => {
+      elementNodes = [];
+      vi.spyOn(audioService, 'getAudioContext').mockReturnValue({
+        destination: { id: 'speakers' },
+        createMediaStreamDestination: () => ({ stream: { id: 'page-audio' } }),
+        createMediaElementSource: () => {
+          const node = { connect: vi.fn(), disconnect: vi.fn() };
+          elementNodes.push(node);
+          return node;
+        }
+      } as unknown as AudioContext);
+    });
+
+    it('should route page audio into a track of its own', () => {
+      const connect = vi.spyOn(audioService, 'connectSourceAudio');
+      const source = createBrowserSource('Alerts');
+
+      emitMedia(source);
+
+      expect(connect).toHaveBeenCalledWith(source.id, expect.objectContaining({ id: 'page-audio' }));
+      expect(elementNodes[0].connect).toHaveBeenCalled();
+      expect(audioService.mixer()?.tracks).toEqual([
+        expect.objectContaining({ name: 'Alerts', sourceIds: [source.id] })
+      ]);
+    });
+
+    it('should mix every element of a page into one input', () => {
+      const connect = vi.spyOn(audioService, 'connectSourceAudio');
+      const source = createBrowserSource('Alerts');
+
+      emitMedia(source);
+      emitMedia(source);
+
+      expect(connect).toHaveBeenCalledTimes(1);
+      expect(elementNodes).toHaveLength(2);
+      expect(audioService.mixer()?.tracks).toHaveLength(1);
+    });
+
+    it('should leave the audio alone when not routed', () => {
+      const connect = vi.spyOn(audioService, 'connectSourceAudio');
+      const source = createBrowserSource('Chat', { routeAudio: false });
+
+      emitMedia(source);
+
+      expect(connect).not.toHaveBeenCalled();
+      expect(elementNodes).toHaveLength(0);
+    });
+
+    it('should play routed audio on the speakers while routing is off and route it again when back on', () => {
+      const disconnect = vi.spyOn(audioService, 'disconnectSourceAudio');
+      const connect = vi.spyOn(audioService, 'connectSourceAudio');
+      const source = createBrowserSource('Alerts');
+      emitMedia(source);
+
+      sourceService.updateSource(source.id, { settings: { ...source.settings, routeAudio: false } });
+      TestBed.tick();
+
+      expect(disconnect).toHaveBeenCalledWith(source.id);
+      expect(elementNodes[0].connect).toHaveBeenLastCalledWith({ id: 'speakers' });
+
+      sourceService.updateSource(source.id, { settings: { ...source.settings, routeAudio: true } });
+      TestBed.tick();
+
+      expect(connect).toHaveBeenCalledTimes(2);
+      expect(elementNodes[0].connect).toHaveBeenLastCalledWith(expect.objectContaining({ stream: { id: 'page-audio' } }));
+      // The element keeps its node rather than getting a second one
+      expect(elementNodes).toHaveLength(1);
+    });
+
+    it('should route elements of a page played while routing was off once it is switched on', () => {
+      const source = createBrowserSource('Chat', { routeAudio: false });
+      emitMedia(source);
+
+      sourceService.updateSource(source.id, { settings: { ...source.settings, routeAudio: true } });
+      TestBed.tick();
+
+      expect(elementNodes).toHaveLength(1);
+      expect(elementNodes[0].connect).toHaveBeenCalledWith(expect.objectContaining({ stream: { id: 'page-audio' } }));
+    });
+
+    it('should disconnect the audio of deleted sources', () => {
+      const disconnect = vi.spyOn(audioService, 'disconnectSourceAudio');
+      const source = createBrowserSource('Alerts');
+      emitMedia(source);
+
+      sourceService.deleteSource(source.id);
+      TestBed.tick();
+
+      expect(disconnect).toHaveBeenCalledWith(source.id);
+      expect(elementNodes[0].disconnect).toHaveBeenCalled();
+    });
+  });
+
+  describe('refresh when active', () => {
+    it('should reload pages the new scene puts on air', () => {
+      const reload = vi.spyOn(compositor, 'reloadBrowserSource').mockReturnValue(true);
+      const game = sceneService.createScene('Game');
+      const ending = sceneService.createScene('Ending');
+      const alerts = createBrowserSource('Alerts', { refreshWhenActive: true });
+      const credits = createBrowserSource('Credits', { refreshWhenActive: true });
+      const chat = createBrowserSource('Chat');
+      sceneService.addSourceToScene(game.id, alerts);
+      sceneService.addSourceToScene(ending.id, alerts);
+      sceneService.addSourceToScene(ending.id, credits);
+      sceneService.addSourceToScene(ending.id, chat);
+
+      sceneService.setActiveScene(game.id);
+      TestBed.tick();
+      reload.mockClear();
+
+      sceneService.setActiveScene(ending.id);
+      TestBed.tick();
+
+      // Alerts stayed on air; chat does not refresh
+      expect(reload).toHaveBeenCalledTimes(1);
+      expect(reload).toHaveBeenCalledWith(credits.id);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { Injectable, effect, inject, untracked } from '@angular/core';
+import { BrowserSourceSettings, Source, SourceType } from '../models/source.model';
+import { AudioService } from './audio.service';
+import { BrowserSourceStatus } from './browser-source';
+import { CompositorService } from './compositor.service';
+import { SceneService } from './scene.service';
+import { SourceService } from './source.service';
+
+/**
+ * Browser Source Service
+ * Routes the audio of browser source pages into the mixer, giving each source
+ * its own track, and reloads pages set to refresh when a scene showing them
+ * goes on air.
+ */
+
+interface BrowserAudio {
+  elements: HTMLMediaElement[];
+  // An element's audio cannot leave Web Audio again, so its node is kept
+  nodes: Map<HTMLMediaElement, MediaElementAudioSourceNode>;
+  // Mixer input of the page while its audio is routed
+  destination: MediaStreamAudioDestinationNode | null;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class BrowserSourceService {
+  private audioService = inject(AudioService);
+  private compositor = inject(CompositorService);
+  private sceneService = inject(SceneService);
+  private sourceService = inject(SourceService);
+
+  private pages = new Map<string, BrowserAudio>();
+  private onAirSourceIds = new Set<string>();
+
+  constructor() {
+    this.compositor.browserMedia$.subscribe(({ sourceId, element }) => this.addMediaElement(sourceId, element));
+
+    effect(() => {
+      const sceneId = this.sceneService.activeSceneId();
+      untracked(() => this.handleSceneActivated(sceneId));
+    });
+
+    // Follow routing being switched on or off, and drop the audio of deleted sources
+    effect(() => {
+      const sources = this.sourceService.sources();
+      untracked(() => {
+        this.pages.forEach((page, sourceId) => {
+          const source = sources.find(s => s.id === sourceId);
+          if (!source) {
+            this.removeAudio(sourceId);
+          } else if (this.routesAudio(source) !== (page.destination !== null)) {
+            this.updateRoute(source, page);
+          }
+        });
+      });
+    });
+  }
+
+  /**
+   * Reload a browser source's page. Returns false when it is not loaded.
+   */
+  refresh(sourceId: string): boolean {
+    return this.compositor.reloadBrowserSource(sourceId);
+  }
+
+  /**
+   * Record a page the app cannot read with Element Capture
+   */
+  capture(sourceId: string): Promise<void> {
+    return this.compositor.captureBrowserSource(sourceId);
+  }
+
+  /**
+   * Get the load status of a browser source's page, or null while it is not loaded
+   */
+  getStatus(sourceId: string): BrowserSourceStatus | null {
+    return this.compositor.getBrowserSourceStatus(sourceId);
+  }
+
+  /**
+   * Feed a page's audio or video element into the source's mixer input, if
+   * its audio is routed
+   */
+  private addMediaElement(sourceId: string, element: HTMLMediaElement): void {
+    const source = this.sourceService.getSource(sourceId);
+    if (source?.type !== SourceType.BROWSER) return;
+
+    let page = this.pages.get(sourceId);
+    if (!page) {
+      page = { elements: [], nodes: new Map(), destination: null };
+      this.pages.set(sourceId, page);
+    }
+    page.elements.push(element);
+
+    if (this.routesAudio(source) && !page.destination) {
+      this.updateRoute(source, page);
+    } else {
+      this.connectElement(source, page, element);
+    }
+  }
+
+  /**
+   * Send the page's audio to its mixer input, or back to the speakers
+   */
+  private updateRoute(source: Source, page: BrowserAudio): void {
+    const context = this.audioService.getAudioContext();
+    if (!context) return;
+
+    if (this.routesAudio(source)) {
+      page.destination = context.createMediaStreamDestination();
+      this.audioService.connectSourceAudio(source.id, page.destination.stream);
+      this.ensureTrack(source);
+    } else {
+      page.destination = null;
+      this.audioService.disconnectSourceAudio(source.id);
+    }
+
+    page.elements.forEach(element => this.connectElement(source, page, element));
+  }
+
+  private connectElement(source: Source, page: BrowserAudio, element: HTMLMediaElement): void {
+    const context = this.audioService.getAudioContext();
+    if (!context) return;
+
+    let node = page.nodes.get(element);
+    if (!node) {
+      // Elements never routed still play directly
+      if (!page.destination) return;
+      try {
+        // Takes the element's audio away from the speakers for good
+        node = context.createMediaElementSource(element);
+        page.nodes.set(element, node);
+      } catch (error) {
+        console.warn(`Failed to route audio of browser source "${source.name}":`, error);
+        return;
+      }
+    }
+
+    node.disconnect();
+    node.connect(page.destination ?? context.destination);
+  }
+
+  /**
+   * Give a browser source a mixer track of its own unless one already plays it
+   */
+  private ensureTrack(source: Source): void {
+    if (!this.audioService.mixer()) {
+      this.audioService.initializeMixer();
+    }
+
+    const tracks = this.audioService.mixer()?.tracks ?? [];
+    if (!tracks.some(track => track.sourceIds.includes(source.id))) {
+      this.audioService.createAudioTrack(source.name, [source.id]);
+    }
+  }
+
+  private removeAudio(sourceId: string): void {
+    const page = this.pages.get(sourceId);
+    if (!page) return;
+
+    page.nodes.forEach(node => node.disconnect());
+    this.pages.delete(sourceId);
+    if (page.destination) {
+      this.audioService.disconnectSourceAudio(sourceId);
+    }
+  }
+
+  /**
+   * Reload the pages set to refresh that the new scene puts on air
+   */
+  private handleSceneActivated(sceneId: string | null): void {
+    const scene = sceneId ? this.sceneService.getScene(sceneId) : null;
+    const sourceIds = new Set(scene ? this.compositor.getSceneSourceIds(scene) : []);
+
+    sourceIds.forEach(sourceId => {
+      if (this.onAirSourceIds.has(sourceId)) return;
+
+      const source = this.sourceService.getSource(sourceId);
+      if (source?.type === SourceType.BROWSER && (source.settings as BrowserSourceSettings).refreshWhenActive) {
+        this.refresh(sourceId);
+      }
+    });
+
+    this.onAirSourceIds = sourceIds;
+  }
+
+  private routesAudio(source: Source): boolean {
+    return source.type === SourceType.BROWSER && (source.settings as BrowserSourceSettings).routeAudio !== false;
+  }
+}
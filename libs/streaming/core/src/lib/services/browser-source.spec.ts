@@ -0,0 +1,28 @@
+import { getBrowserSandbox, isBrowserPageReadable } from './browser-source';
+
+describe('getBrowserSandbox', () => {
+  it('should keep the app origin only for local files without scripts', () => {
+    expect(getBrowserSandbox({ html: '<p>Starting soon</p>' })).toBe('allow-same-origin');
+    expect(getBrowserSandbox({ html: '<script>parent.document.body.remove()</script>' })).toBe('allow-scripts');
+    expect(getBrowserSandbox({ html: '<img src="x" onerror="parent.close()">' })).toBe('allow-scripts');
+  });
+
+  it('should run the app URLs with an opaque origin', () => {
+    expect(getBrowserSandbox({ url: '/overlays/alerts.html' })).toBe('allow-scripts');
+    expect(getBrowserSandbox({ url: `${location.origin}/alerts` })).toBe('allow-scripts');
+    expect(getBrowserSandbox({ url: 'about:blank' })).toBe('allow-scripts');
+  });
+
+  it('should let other sites keep their own origin', () => {
+    expect(getBrowserSandbox({ url: 'https://example.com/alerts' })).toBe('allow-scripts allow-same-origin');
+  });
+});
+
+describe('isBrowserPageReadable', () => {
+  it('should only read static local files', () => {
+    expect(isBrowserPageReadable({ html: '<p>Starting soon</p>' })).toBe(true);
+    expect(isBrowserPageReadable({ html: '<script>alert(1)</script>' })).toBe(false);
+    expect(isBrowserPageReadable({ url: '/overlays/alerts.html' })).toBe(false);
+    expect(isBrowserPageReadable({ url: 'https://example.com/alerts' })).toBe(false);
+  });
+});
@@ -0,0 +1,436 @@
+import { BrowserSourceSettings, DEFAULT_BROWSER_CSS } from '../models/source.model';
+
+/**
+ * Browser Source
+ * Hosts a browser source's page in a hidden iframe at the source's size and
+ * turns it into frames for the compositor. Pages never run scripts with the
+ * app's origin, where they could reach into the studio through window.parent.
+ * Local files without scripts keep the origin with scripts disabled, so they
+ * are rasterized from their DOM and get the custom CSS; scripted files, the
+ * app's own URLs and other sites need Element Capture, which records the
+ * iframe itself once the user allows capturing this tab. Element Capture
+ * records video only and the studio cannot reach into those pages, so their
+ * audio plays on the speakers instead of going through the mixer, and custom
+ * CSS and transparent backgrounds do not apply to them.
+ */
+
+export type BrowserSourceStatus = 'loading' | 'ready' | 'capture-required' | 'error';
+
+export const DEFAULT_BROWSER_SIZE = { width: 800, height: 600 };
+
+const DEFAULT_FPS = 30;
+const HOST_ID = 'browser-source-host';
+const MEDIA_SELECTOR = 'audio, video';
+const SCRIPT_PATTERN = /<script|\son[a-z]+\s*=|javascript:/i;
+
+// Element Capture (Chrome 132+) is not in the DOM typings yet
+interface RestrictionTargetConstructor {
+  fromElement(element: Element): Promise<unknown>;
+}
+
+interface RestrictableTrack extends MediaStreamTrack {
+  restrictTo(target: unknown): Promise<void>;
+}
+
+/**
+ * Sandbox of a page: the app's origin without scripts for static local files,
+ * an opaque origin for scripted files and the app's own URLs, and their own
+ * origin for other sites
+ */
+export function getBrowserSandbox(settings: BrowserSourceSettings): string {
+  if (settings.html !== undefined) {
+    return SCRIPT_PATTERN.test(settings.html) ? 'allow-scripts' : 'allow-same-origin';
+  }
+
+  let origin = 'null';
+  try {
+    origin = new URL(settings.url ?? '', location.href).origin;
+  } catch {
+    // Invalid URLs fail to load anyway
+  }
+  // about: URLs would inherit the app's origin
+  return origin === location.origin || origin === 'null' ? 'allow-scripts' : 'allow-scripts allow-same-origin';
+}
+
+/**
+ * Whether the studio can read a page, which it needs to route its audio
+ * through the mixer and to apply custom CSS and transparency
+ */
+export function isBrowserPageReadable(settings: BrowserSourceSettings): boolean {
+  return getBrowserSandbox(settings) === 'allow-same-origin';
+}
+
+/**
+ * Hidden container all browser source iframes live in. It stays laid out so
+ * pages keep animating and Element Capture can record them.
+ */
+function getHost(): HTMLElement {
+  let host = document.getElementById(HOST_ID);
+  if (!host) {
+    host = document.createElement('div');
+    host.id = HOST_ID;
+    host.setAttribute('aria-hidden', 'true');
+    Object.assign(host.style, {
+      position: 'fixed',
+      left: '0',
+      top: '0',
+      width: '0',
+      height: '0',
+      overflow: 'visible',
+      zIndex: '-1',
+      pointerEvents: 'none'
+    });
+    document.body.appendChild(host);
+  }
+  return host;
+}
+
+export class BrowserSourceRenderer {
+  readonly width: number;
+  readonly height: number;
+  private iframe = document.createElement('iframe');
+  private canvas = document.createElement('canvas');
+  private hasFrame = false;
+  private snapshotting = false;
+  private lastSnapshot = 0;
+  private observer: MutationObserver | null = null;
+  private watchedMedia = new WeakSet<HTMLMediaElement>();
+  private inlinedImages = new Map<string, string>();
+  private captureVideo: HTMLVideoElement | null = null;
+  private captureStream: MediaStream | null = null;
+  private disposed = false;
+  private statusValue: BrowserSourceStatus = 'loading';
+  private errorValue: string | null = null;
+
+  constructor(
+    private readonly settings: BrowserSourceSettings,
+    private readonly onMediaElement: (element: HTMLMediaElement) => void
+  ) {
+    this.width = Math.max(1, Math.round(settings.width ?? DEFAULT_BROWSER_SIZE.width));
+    this.height = Math.max(1, Math.round(settings.height ?? DEFAULT_BROWSER_SIZE.height));
+    this.canvas.width = this.width;
+    this.canvas.height = this.height;
+
+    const iframe = this.iframe;
+    iframe.width = String(this.width);
+    iframe.height = String(this.height);
+    iframe.setAttribute('allow', 'autoplay');
+    Object.assign(iframe.style, {
+      position: 'absolute',
+      left: '0',
+      top: '0',
+      border: '0',
+      background: 'transparent',
+      colorScheme: 'normal',
+      isolation: 'isolate'
+    });
+    iframe.onload = () => this.handleLoad();
+    // Set the page first so the initial blank document never counts as loaded
+    this.load();
+    getHost().appendChild(iframe);
+  }
+
+  get status(): BrowserSourceStatus {
+    return this.statusValue;
+  }
+
+  get error(): string | null {
+    return this.errorValue;
+  }
+
+  get isCapturing(): boolean {
+    return this.captureStream !== null;
+  }
+
+  /**
+   * Latest frame of the page, or null until one has been drawn. Readable pages
+   * are re-rasterized at most at the source's frame rate while they are drawn.
+   */
+  getFrame(): { image: CanvasImageSource; width: number; height: number } | null {
+    const video = this.captureVideo;
+    if (video) {
+      if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || video.videoWidth === 0) return null;
+      return { image: video, width: video.videoWidth, height: video.videoHeight };
+    }
+
+    const doc = this.getDocument();
+    const now = performance.now();
+    if (doc && !this.snapshotting && now - this.lastSnapshot >= 1000 / (this.settings.fps || DEFAULT_FPS)) {
+      this.lastSnapshot = now;
+      this.snapshotting = true;
+      this.snapshot(doc)
+        .catch(error => console.warn('Failed to rasterize browser source:', error))
+        .finally(() => (this.snapshotting = false));
+    }
+
+    return this.hasFrame ? { image: this.canvas, width: this.width, height: this.height } : null;
+  }
+
+  /**
+   * Load the page again from scratch
+   */
+  reload(): void {
+    if (this.disposed) return;
+    this.observer?.disconnect();
+    this.observer = null;
+    this.hasFrame = false;
+    this.load();
+  }
+
+  /**
+   * Record the page with Element Capture. Asks the user to share this tab.
+   */
+  async startCapture(): Promise<void> {
+    const restrictionTarget = (globalThis as { RestrictionTarget?: RestrictionTargetConstructor }).RestrictionTarget;
+    if (!restrictionTarget || !navigator.mediaDevices?.getDisplayMedia) {
+      throw new Error('This browser cannot capture pages from other sites (Element Capture is not supported)');
+    }
+    if (this.captureStream) return;
+
+    const stream = await navigator.mediaDevices.getDisplayMedia({
+      video: { frameRate: { ideal: this.settings.fps || DEFAULT_FPS } },
+      audio: false,
+      preferCurrentTab: true
+    } as DisplayMediaStreamOptions);
+
+    const [track] = stream.getVideoTracks() as RestrictableTrack[];
+    try {
+      if (!track) throw new Error('No video was shared');
+      await track.restrictTo(await restrictionTarget.fromElement(this.iframe));
+    } catch (error) {
+      stream.getTracks().forEach(t => t.stop());
+      throw error;
+    }
+
+    if (this.disposed) {
+      stream.getTracks().forEach(t => t.stop());
+      return;
+    }
+
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = stream;
+    video.play().catch(error => console.warn('Failed to play the page capture:', error));
+    track.onended = () => this.stopCapture();
+
+    this.captureStream = stream;
+    this.captureVideo = video;
+    this.setStatus('ready');
+  }
+
+  /**
+   * Go back to rasterizing the page, if it can be read
+   */
+  stopCapture(): void {
+    this.captureStream?.getTracks().forEach(track => track.stop());
+    this.captureStream = null;
+    if (this.captureVideo) {
+      this.captureVideo.srcObject = null;
+      this.captureVideo = null;
+    }
+    if (!this.disposed && this.statusValue !== 'loading') {
+      this.setStatus(this.getDocument() ? 'ready' : 'capture-required');
+    }
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    this.stopCapture();
+    this.observer?.disconnect();
+    this.observer = null;
+    this.iframe.onload = null;
+    this.iframe.remove();
+  }
+
+  private load(): void {
+    const { url, html, file } = this.settings;
+    this.setStatus('loading');
+    // Takes effect with the navigation below
+    this.iframe.setAttribute('sandbox', getBrowserSandbox(this.settings));
+
+    if (html !== undefined) {
+      this.iframe.removeAttribute('src');
+      this.iframe.srcdoc = html;
+    } else if (url) {
+      this.iframe.removeAttribute('srcdoc');
+      this.iframe.src = url;
+    } else {
+      this.setStatus('error', file ? `Pick the local file "${file}" again` : 'No page URL or file configured');
+    }
+  }
+
+  private handleLoad(): void {
+    if (this.disposed || this.statusValue === 'error') return;
+
+    const doc = this.readDocument();
+    if (!doc) {
+      this.setStatus(this.captureStream ? 'ready' : 'capture-required');
+      return;
+    }
+
+    const style = doc.createElement('style');
+    style.textContent = this.settings.css ?? DEFAULT_BROWSER_CSS;
+    (doc.head ?? doc.documentElement).appendChild(style);
+
+    this.watchMediaElements(doc);
+    this.setStatus('ready');
+  }
+
+  /**
+   * Report every audio and video element of the page, including ones created
+   * later and ones played without being added to the document
+   */
+  private watchMediaElements(doc: Document): void {
+    doc.querySelectorAll<HTMLMediaElement>(MEDIA_SELECTOR).forEach(element => this.watchMedia(element));
+
+    this.observer = new MutationObserver(() => {
+      doc.querySelectorAll<HTMLMediaElement>(MEDIA_SELECTOR).forEach(element => this.watchMedia(element));
+    });
+    this.observer.observe(doc.documentElement, { childList: true, subtree: true });
+
+    const view = doc.defaultView as (Window & typeof globalThis) | null;
+    if (view) {
+      const proto = view.HTMLMediaElement.prototype;
+      const play = proto.play;
+      const watch = (element: HTMLMediaElement) => this.watchMedia(element);
+      proto.play = function (this: HTMLMediaElement) {
+        watch(this);
+        return play.call(this);
+      };
+    }
+  }
+
+  private watchMedia(element: HTMLMediaElement): void {
+    if (this.watchedMedia.has(element)) return;
+    this.watchedMedia.add(element);
+    this.onMediaElement(element);
+  }
+
+  /**
+   * Draw the page's DOM through an SVG foreignObject
+   */
+  private async snapshot(doc: Document): Promise<void> {
+    const clone = doc.documentElement.cloneNode(true) as HTMLElement;
+    this.inlineResources(doc, clone);
+
+    const markup = new XMLSerializer().serializeToString(clone);
+    const svg =
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${this.width}" height="${this.height}">` +
+      `<foreignObject width="100%" height="100%">${markup}</foreignObject></svg>`;
+
+    const image = new Image();
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+    await image.decode();
+
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx || this.disposed) return;
+
+    ctx.clearRect(0, 0, this.width, this.height);
+    if (this.settings.transparent === false) {
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, this.width, this.height);
+    }
+    ctx.drawImage(image, 0, 0, this.width, this.height);
+    this.hasFrame = true;
+  }
+
+  /**
+   * An SVG image cannot load anything itself, so copy in the page's styles and
+   * replace images, canvases and videos with data URLs of what they show
+   */
+  private inlineResources(doc: Document, clone: HTMLElement): void {
+    clone.querySelectorAll('script, link[rel="stylesheet"]').forEach(element => element.remove());
+
+    const rules: string[] = [];
+    Array.from(doc.styleSheets).forEach(sheet => {
+      if (!sheet.href) return;
+      try {
+        Array.from(sheet.cssRules).forEach(rule => rules.push(rule.cssText));
+      } catch {
+        // Cross-origin stylesheets cannot be read
+      }
+    });
+    if (rules.length > 0) {
+      const style = doc.createElement('style');
+      style.textContent = rules.join('\n');
+      clone.querySelector('head')?.prepend(style);
+    }
+
+    const originals = doc.documentElement.querySelectorAll<HTMLElement>('img, canvas, video');
+    const copies = clone.querySelectorAll<HTMLElement>('img, canvas, video');
+    originals.forEach((original, index) => {
+      const copy = copies[index];
+      if (!copy) return;
+
+      const dataUrl = this.toDataUrl(original);
+      if (!dataUrl) return;
+
+      if (copy.tagName === 'IMG') {
+        copy.setAttribute('src', dataUrl);
+        copy.removeAttribute('srcset');
+      } else {
+        const image = doc.createElement('img');
+        Array.from(copy.attributes).forEach(attr => image.setAttribute(attr.name, attr.value));
+        image.setAttribute('src', dataUrl);
+        copy.replaceWith(image);
+      }
+    });
+  }
+
+  private toDataUrl(element: HTMLElement): string | null {
+    try {
+      if (element.tagName === 'CANVAS') {
+        return (element as HTMLCanvasElement).toDataURL();
+      }
+
+      const canvas = document.createElement('canvas');
+      if (element.tagName === 'VIDEO') {
+        const video = element as HTMLVideoElement;
+        if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || video.videoWidth === 0) return null;
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        canvas.getContext('2d')?.drawImage(video, 0, 0);
+        return canvas.toDataURL();
+      }
+
+      // Images rarely change, so convert each once
+      const image = element as HTMLImageElement;
+      if (!image.complete || image.naturalWidth === 0) return null;
+      const cached = this.inlinedImages.get(image.currentSrc);
+      if (cached) return cached;
+
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      canvas.getContext('2d')?.drawImage(image, 0, 0);
+      const dataUrl = canvas.toDataURL();
+      this.inlinedImages.set(image.currentSrc, dataUrl);
+      return dataUrl;
+    } catch {
+      // Cross-origin media taint the canvas and cannot be copied
+      return null;
+    }
+  }
+
+  /**
+   * The page's document, or null while it is loading or from another origin
+   */
+  private getDocument(): Document | null {
+    if (this.statusValue === 'loading' || this.statusValue === 'error') return null;
+    return this.readDocument();
+  }
+
+  private readDocument(): Document | null {
+    try {
+      const doc = this.iframe.contentDocument;
+      return doc?.documentElement ? doc : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private setStatus(status: BrowserSourceStatus, error: string | null = null): void {
+    this.statusValue = status;
+    this.errorValue = error;
+  }
+}
@@ -1,34 +1,117 @@
 import { Injectable, signal } from '@angular/core';
+import { FilterType } from '../models/source.model';
+import { SourceService } from './source.service';
+
+/**
+ * Chroma Key Service
+ * Quick chroma key controls for one target source. Settings are kept in sync
+ * with a Chroma Key filter on that source, which the compositor renders.
+ */
 
 export interface ChromaKeySettings {
   enabled: boolean;
   color: string;
-  similarity: number;
-  smoothness: number;
-  spillReduction: number;
+  similarity: number; // 0-1
+  smoothness: number; // 0-1
+  spillReduction: number; // 0-1
 }
 
 @Injectable({
   providedIn: 'root'
 })
 export class ChromaKeyService {
-  readonly settings = signal<ChromaKeySettings>({
+  private settingsSignal = signal<ChromaKeySettings>({
     enabled: false,
     color: '#00FF00',
     similarity: 0.4,
     smoothness: 0.08,
     spillReduction: 0.15
   });
+  private targetSourceIdSignal = signal<string | null>(null);
+
+  // Public readonly signals
+  public readonly settings = this.settingsSignal.asReadonly();
+  public readonly targetSourceId = this.targetSourceIdSignal.asReadonly();
+
+  constructor(private sourceService: SourceService) {}
+
+  /**
+   * Select the source the chroma key applies to
+   */
+  setTarget(sourceId: string | null): void {
+    const previous = this.targetSourceIdSignal();
+    if (previous && previous !== sourceId) {
+      // Leave the filter on the old source but turn it off
+      const filter = this.findFilter(previous);
+      if (filter) {
+        this.sourceService.updateFilter(previous, filter.id, { enabled: false });
+      }
+    }
+
+    this.targetSourceIdSignal.set(sourceId);
+    this.syncFilter();
+  }
 
   enable(): void {
-    this.settings.update(s => ({ ...s, enabled: true }));
+    this.updateSettings({ enabled: true });
   }
 
   disable(): void {
-    this.settings.update(s => ({ ...s, enabled: false }));
+    this.updateSettings({ enabled: false });
   }
 
   setColor(color: string): void {
-    this.settings.update(s => ({ ...s, color }));
+    this.updateSettings({ color });
+  }
+
+  /**
+   * Update key settings and apply them to the target source
+   */
+  updateSettings(updates: Partial<ChromaKeySettings>): void {
+    this.settingsSignal.update(s => ({ ...s, ...updates }));
+    this.syncFilter();
+  }
+
+  /**
+   * Write the current settings into the target source's chroma key filter
+   */
+  private syncFilter(): void {
+    const sourceId = this.targetSourceIdSignal();
+    if (!sourceId || !this.sourceService.getSource(sourceId)) return;
+
+    const settings = this.settingsSignal();
+    // Filter settings use the 0-1000 ranges of the source properties panel
+    const filterSettings = {
+      keyColor: settings.color,
+      similarity: Math.round(settings.similarity * 1000),
+      smoothness: Math.round(settings.smoothness * 1000),
+      spillReduction: Math.round(settings.spillReduction * 1000)
+    };
+
+    const filter = this.findFilter(sourceId);
+    if (filter) {
+      this.sourceService.updateFilter(sourceId, filter.id, {
+        enabled: settings.enabled,
+        settings: filterSettings
+      });
+    } else if (settings.enabled) {
+      this.sourceService.addFilter(sourceId, {
+        id: this.generateId(),
+        name: 'Chroma Key',
+        type: FilterType.CHROMA_KEY,
+        enabled: true,
+        settings: filterSettings
+      });
+    }
+  }
+
+  private findFilter(sourceId: string) {
+    return this.sourceService
+      .getSource(sourceId)
+      ?.filters.find(filter => filter.type === FilterType.CHROMA_KEY);
+  }
+
+  private generateId(): string {
+    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
 }
@@ -0,0 +1,308 @@
+import { TestBed } from '@angular/core/testing';
+import { FilterChain } from '@org/filters';
+import { CompositorService, alignmentOffset, computeItemLayout } from './compositor.service';
+import { AudioService } from './audio.service';
+import { Alignment, SourceType, Transform } from '../models/source.model';
+
+function createTransform(overrides: Partial<Transform> = {}): Transform {
+  return {
+    position: { x: 0, y: 0 },
+    scale: { x: 1, y: 1 },
+    rotation: 0,
+    crop: { top: 0, bottom: 0, left: 0, right: 0 },
+    alignment: Alignment.LEFT | Alignment.TOP,
+    boundsType: 'none',
+    boundsAlignment: Alignment.CENTER,
+    bounds: { x: 0, y: 0 },
+    ...overrides
+  };
+}
+
+describe('CompositorService', () => {
+  describe('alignmentOffset', () => {
+    it('should place the origin at the top left for LEFT | TOP', () => {
+      expect(alignmentOffset(Alignment.LEFT | Alignment.TOP, 100, 50)).toEqual({ x: 0, y: 0 });
+    });
+
+    it('should center the origin for CENTER', () => {
+      expect(alignmentOffset(Alignment.CENTER, 100, 50)).toEqual({ x: 50, y: 25 });
+    });
+
+    it('should place the origin at the bottom right for RIGHT | BOTTOM', () => {
+      expect(alignmentOffset(Alignment.RIGHT | Alignment.BOTTOM, 100, 50)).toEqual({ x: 100, y: 50 });
+    });
+  });
+
+  describe('computeItemLayout', () => {
+    it('should scale the source when no bounds are set', () => {
+      const layout = computeItemLayout(
+        createTransform({ position: { x: 10, y: 20 }, scale: { x: 0.5, y: 2 } }),
+        1920,
+        1080
+      );
+
+      expect(layout?.x).toBe(10);
+      expect(layout?.y).toBe(20);
+      expect(layout?.drawRect).toEqual({ x: 0, y: 0, width: 960, height: 2160 });
+    });
+
+    it('should crop the source before scaling', () => {
+      const layout = computeItemLayout(
+        createTransform({ crop: { top: 10, bottom: 20, left: 30, right: 40 } }),
+        200,
+        100
+      );
+
+      expect(layout?.sourceRect).toEqual({ x: 30, y: 10, width: 130, height: 70 });
+      expect(layout?.drawRect.width).toBe(130);
+      expect(layout?.drawRect.height).toBe(70);
+    });
+
+    it('should return null when the crop removes the whole source', () => {
+      const layout = computeItemLayout(
+        createTransform({ crop: { top: 0, bottom: 0, left: 100, right: 100 } }),
+        200,
+        100
+      );
+
+      expect(layout).toBeNull();
+    });
+
+    it('should offset the drawing by the alignment point', () => {
+      const layout = computeItemLayout(createTransform({ alignment: Alignment.CENTER }), 200, 100);
+
+      expect(layout?.box).toEqual({ x: -100, y: -50, width: 200, height: 100 });
+    });
+
+    it('should stretch the source to the bounds', () => {
+      const layout = computeItemLayout(
+        createTransform({ boundsType: 'stretch', bounds: { x: 300, y: 300 } }),
+        200,
+        100
+      );
+
+      expect(layout?.drawRect).toEqual({ x: 0, y: 0, width: 300, height: 300 });
+      expect(layout?.clip).toBe(false);
+    });
+
+    it('should fit the source inside the bounds and honor boundsAlignment', () => {
+      const centered = computeItemLayout(
+        createTransform({ boundsType: 'scale', bounds: { x: 400, y: 400 } }),
+        200,
+        100
+      );
+      const bottom = computeItemLayout(
+        createTransform({
+          boundsType: 'scale',
+          bounds: { x: 400, y: 400 },
+          boundsAlignment: Alignment.BOTTOM
+        }),
+        200,
+        100
+      );
+
+      expect(centered?.drawRect).toEqual({ x: 0, y: 100, width: 400, height: 200 });
+      expect(bottom?.drawRect).toEqual({ x: 0, y: 200, width: 400, height: 200 });
+    });
+
+    it('should cover the bounds and clip when bounds type is crop', () => {
+      const layout = computeItemLayout(
+        createTransform({ boundsType: 'crop', bounds: { x: 400, y: 400 } }),
+        200,
+        100
+      );
+
+      expect(layout?.drawRect).toEqual({ x: -200, y: 0, width: 800, height: 400 });
+      expect(layout?.box).toEqual({ x: 0, y: 0, width: 400, height: 400 });
+      expect(layout?.clip).toBe(true);
+    });
+
+    it('should convert rotation to radians and flag negative scale as flips', () => {
+      const layout = computeItemLayout(
+        createTransform({ rotation: 90, scale: { x: -1, y: 1 } }),
+        200,
+        100
+      );
+
+      expect(layout?.rotation).toBeCloseTo(Math.PI / 2);
+      expect(layout?.flipX).toBe(true);
+      expect(layout?.flipY).toBe(false);
+      expect(layout?.drawRect.width).toBe(200);
+    });
+  });
+
+  describe('getFrame', () => {
+    let service: CompositorService;
+
+    beforeEach(() => {
+      TestBed.configureTestingModule({});
+      service = TestBed.inject(CompositorService);
+    });
+
+    afterEach(() => {
+      service.releaseAll();
+    });
+
+    it('should describe color sources as a solid fill', () => {
+      const frame = service.getFrame({
+        id: 'color-1',
+        name: 'Background',
+        type: SourceType.COLOR_SOURCE,
+        enabled: true,
+        settings: { color: '#ff0000', width: 640, height: 360 },
+        filters: [],
+        volume: 1,
+        muted: false
+      });
+
+      expect(frame).toEqual({ fill: '#ff0000', width: 640, height: 360 });
+    });
+
+    it('should report image sources without a URL as unavailable', () => {
+      const frame = service.getFrame({
+        id: 'image-1',
+        name: 'Logo',
+        type: SourceType.IMAGE,
+        enabled: true,
+        settings: {},
+        filters: [],
+        volume: 1,
+        muted: false
+      });
+
+      expect(frame).toBeNull();
+      expect(service.getSourceStatus('image-1')).toBe('error');
+    });
+
+    it('should wait for the user to start a screen capture', async () => {
+      const getDisplayMedia = vi.fn().mockResolvedValue({ id: 'display', getTracks: () => [], getVideoTracks: () => [] });
+      vi.stubGlobal('navigator', { mediaDevices: { getDisplayMedia } });
+      const source = {
+        id: 'screen-1',
+        name: 'Screen',
+        type: SourceType.SCREEN_CAPTURE,
+        enabled: true,
+        settings: {},
+        filters: [],
+        volume: 1,
+        muted: false
+      };
+
+      expect(service.getFrame(source)).toBeNull();
+      expect(service.getSourceStatus('screen-1')).toBe('capture-required');
+      expect(getDisplayMedia).not.toHaveBeenCalled();
+
+      await service.captureDisplay(source);
+
+      expect(getDisplayMedia).toHaveBeenCalledTimes(1);
+      expect(getDisplayMedia).toHaveBeenCalledWith(expect.objectContaining({ audio: true }));
+      expect(service.getSourceStream('screen-1')).toEqual(expect.objectContaining({ id: 'display' }));
+      vi.unstubAllGlobals();
+    });
+  });
+
+  describe('source audio', () => {
+    let service: CompositorService;
+    let audioService: AudioService;
+    const audioTrack = { kind: 'audio' } as MediaStreamTrack;
+    const camera = {
+      id: 'camera-1',
+      name: 'Capture Card',
+      type: SourceType.VIDEO_CAPTURE,
+      enabled: true,
+      settings: {},
+      filters: [],
+      volume: 1,
+      muted: false
+    };
+
+    beforeEach(() => {
+      vi.stubGlobal('MediaStream', class {
+        constructor(readonly tracks: MediaStreamTrack[]) {}
+      });
+      vi.spyOn(HTMLMediaElement.prototype, 'play').mockResolvedValue();
+      vi.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => undefined);
+      TestBed.configureTestingModule({});
+      service = TestBed.inject(CompositorService);
+      audioService = TestBed.inject(AudioService);
+      vi.spyOn(audioService, 'connectSourceAudio').mockImplementation(() => undefined);
+      vi.spyOn(audioService, 'disconnectSourceAudio').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      service.releaseAll();
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    });
+
+    it('should feed the audio of a captured stream into the mixer until it is released', async () => {
+      service.attachStream(camera.id, {
+        getTracks: () => [audioTrack],
+        getAudioTracks: () => [audioTrack],
+        getVideoTracks: () => []
+      } as unknown as MediaStream);
+
+      service.getFrame(camera);
+      await Promise.resolve();
+
+      expect(audioService.connectSourceAudio).toHaveBeenCalledWith(camera.id, expect.objectContaining({ tracks: [audioTrack] }));
+
+      service.releaseSource(camera.id);
+
+      expect(audioService.disconnectSourceAudio).toHaveBeenCalledWith(camera.id);
+    });
+
+    it('should leave the mixer alone for streams without audio', async () => {
+      service.attachStream(camera.id, {
+        getTracks: () => [],
+        getAudioTracks: () => [],
+        getVideoTracks: () => []
+      } as unknown as MediaStream);
+
+      service.getFrame(camera);
+      await Promise.resolve();
+      service.releaseSource(camera.id);
+
+      expect(audioService.connectSourceAudio).not.toHaveBeenCalled();
+      expect(audioService.disconnectSourceAudio).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('applyFilters', () => {
+    let service: CompositorService;
+    const source = {
+      id: 'camera-1',
+      name: 'Camera',
+      type: SourceType.VIDEO_CAPTURE,
+      enabled: true,
+      settings: {},
+      filters: [{ id: 'sharpen-1', type: 'sharpen', enabled: true, settings: {} }],
+      volume: 1,
+      muted: false
+    };
+    const frame = { image: document.createElement('canvas'), width: 640, height: 360 };
+
+    beforeEach(() => {
+      TestBed.configureTestingModule({});
+      service = TestBed.inject(CompositorService);
+    });
+
+    afterEach(() => {
+      service.releaseAll();
+      vi.restoreAllMocks();
+    });
+
+    it('should run a source\'s filters once per output frame however many canvases draw it', () => {
+      const process = vi.spyOn(FilterChain.prototype, 'process').mockImplementation(input => input);
+      const now = vi.spyOn(performance, 'now').mockReturnValue(1000);
+
+      service['applyFilters'](source, frame);
+      service['applyFilters'](source, frame);
+      expect(process).toHaveBeenCalledTimes(1);
+
+      now.mockReturnValue(1000 + 1000 / 60);
+      service['applyFilters'](source, frame);
+      expect(process).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,1136 @@
+import { Injectable } from '@angular/core';
+import { Subject } from 'rxjs';
+import { FilterChain, FilterConfig, RenderDelayFilter, VideoFilter, createVideoFilter } from '@org/filters';
+import { Scene, SceneItem } from '../models/scene.model';
+import {
+  Alignment,
+  BrowserSourceSettings,
+  CaptureSourceSettings,
+  ColorSourceSettings,
+  ImageSourceSettings,
+  MAX_SYNC_OFFSET_MS,
+  MediaSourceSettings,
+  SceneSourceSettings,
+  Source,
+  SourceType,
+  TextSourceSettings,
+  Transform
+} from '../models/source.model';
+import { SourceService } from './source.service';
+import { SettingsService } from './settings.service';
+import { AudioService } from './audio.service';
+import { BrowserSourceRenderer, BrowserSourceStatus } from './browser-source';
+import {
+  MAX_SCENE_DEPTH,
+  SceneLookup,
+  SourceLookup,
+  collectSceneSourceIds,
+  getChildItems,
+  isGroupItem
+} from './scene-graph';
+
+/**
+ * Compositor Service
+ * Renders scenes onto a canvas: acquires live media for every shared source and
+ * lays each scene item out according to its full transform (crop, bounds, alignment).
+ * Groups render their children in their own transform; scene sources render
+ * the nested scene at base resolution. The audio of media files and captured
+ * streams is fed into the mixer; their video elements stay muted.
+ */
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A drawable frame of a source. Either an image to sample from or a solid fill.
+ */
+export interface SourceFrame {
+  image?: CanvasImageSource;
+  fill?: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Geometry of a scene item on the canvas. Rects are relative to the
+ * alignment point after translation and rotation have been applied.
+ */
+export interface ItemLayout {
+  x: number;
+  y: number;
+  rotation: number; // radians
+  box: Rect;
+  sourceRect: Rect;
+  drawRect: Rect;
+  clip: boolean;
+  flipX: boolean;
+  flipY: boolean;
+}
+
+type MediaStatus = 'loading' | 'ready' | 'error' | 'capture-required';
+
+/**
+ * An audio or video element found on a browser source's page
+ */
+export interface BrowserMediaElement {
+  sourceId: string;
+  element: HTMLMediaElement;
+}
+
+interface SourceFilters {
+  chain: FilterChain;
+  fillCanvas?: HTMLCanvasElement;
+  lastUsed: number;
+  // Output of the last run, reused by every canvas drawing the same frame
+  output?: SourceFrame;
+  processedAt?: number;
+}
+
+interface SourceMedia {
+  key: string;
+  status: MediaStatus;
+  video?: HTMLVideoElement;
+  image?: HTMLImageElement;
+  canvas?: HTMLCanvasElement;
+  stream?: MediaStream;
+  browser?: BrowserSourceRenderer;
+  ownsStream: boolean;
+  lastUsed: number;
+  error?: string;
+  // Source whose mixer input this media feeds, and the node taking a media file's audio
+  audioSourceId?: string;
+  audioNode?: MediaElementAudioSourceNode;
+}
+
+const PLACEHOLDER_SIZE = { width: 400, height: 300 };
+// Runs ahead of a source's own filters to apply its sync offset
+const SYNC_DELAY_FILTER = 'sync_delay';
+// Highest program frame rate; sync delays hold this many frames per second
+const SYNC_DELAY_FPS = 60;
+// Previews, the program output and transitions all draw sources, but filter
+// chains (and the frames a sync delay holds) advance once per output frame
+const FILTER_FRAME_MS = 1000 / SYNC_DELAY_FPS - 1;
+const IDLE_RELEASE_MS = 10000;
+
+const VISUAL_SOURCE_TYPES = new Set<SourceType>([
+  SourceType.VIDEO_CAPTURE,
+  SourceType.SCREEN_CAPTURE,
+  SourceType.WINDOW_CAPTURE,
+  SourceType.GAME_CAPTURE,
+  SourceType.IMAGE,
+  SourceType.TEXT,
+  SourceType.BROWSER,
+  SourceType.MEDIA,
+  SourceType.COLOR_SOURCE,
+  SourceType.SCENE
+]);
+
+/**
+ * Offset of the alignment point inside a box of the given size
+ */
+export function alignmentOffset(
+  alignment: number,
+  width: number,
+  height: number
+): { x: number; y: number } {
+  let x = width / 2;
+  let y = height / 2;
+
+  if (alignment & Alignment.LEFT) x = 0;
+  else if (alignment & Alignment.RIGHT) x = width;
+
+  if (alignment & Alignment.TOP) y = 0;
+  else if (alignment & Alignment.BOTTOM) y = height;
+
+  return { x, y };
+}
+
+/**
+ * Compute where and how a source of the given size is drawn for a transform.
+ * Returns null when the crop leaves nothing to draw.
+ */
+export function computeItemLayout(
+  transform: Transform,
+  sourceWidth: number,
+  sourceHeight: number
+): ItemLayout | null {
+  const crop = transform.crop;
+  const sourceRect: Rect = {
+    x: crop.left,
+    y: crop.top,
+    width: sourceWidth - crop.left - crop.right,
+    height: sourceHeight - crop.top - crop.bottom
+  };
+
+  if (sourceRect.width <= 0 || sourceRect.height <= 0) return null;
+
+  const flipX = transform.scale.x < 0;
+  const flipY = transform.scale.y < 0;
+  let boxWidth: number;
+  let boxHeight: number;
+  let contentWidth: number;
+  let contentHeight: number;
+
+  if (transform.boundsType === 'none') {
+    boxWidth = contentWidth = sourceRect.width * Math.abs(transform.scale.x);
+    boxHeight = contentHeight = sourceRect.height * Math.abs(transform.scale.y);
+  } else {
+    boxWidth = transform.bounds.x;
+    boxHeight = transform.bounds.y;
+
+    if (transform.boundsType === 'stretch') {
+      contentWidth = boxWidth;
+      contentHeight = boxHeight;
+    } else {
+      const ratioX = boxWidth / sourceRect.width;
+      const ratioY = boxHeight / sourceRect.height;
+      const ratio = transform.boundsType === 'scale'
+        ? Math.min(ratioX, ratioY)
+        : Math.max(ratioX, ratioY);
+      contentWidth = sourceRect.width * ratio;
+      contentHeight = sourceRect.height * ratio;
+    }
+  }
+
+  if (boxWidth <= 0 || boxHeight <= 0) return null;
+
+  const origin = alignmentOffset(transform.alignment, boxWidth, boxHeight);
+  const box: Rect = {
+    x: 0 - origin.x,
+    y: 0 - origin.y,
+    width: boxWidth,
+    height: boxHeight
+  };
+
+  // Place the content inside the bounding box
+  const inner = alignmentOffset(
+    transform.boundsAlignment,
+    boxWidth - contentWidth,
+    boxHeight - contentHeight
+  );
+
+  return {
+    x: transform.position.x,
+    y: transform.position.y,
+    rotation: (transform.rotation * Math.PI) / 180,
+    box,
+    sourceRect,
+    drawRect: {
+      x: box.x + inner.x,
+      y: box.y + inner.y,
+      width: contentWidth,
+      height: contentHeight
+    },
+    clip: transform.boundsType === 'crop',
+    flipX,
+    flipY
+  };
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class CompositorService {
+  private media = new Map<string, SourceMedia>();
+  private attachedStreams = new Map<string, MediaStream>();
+  // Attached streams captured by captureDisplay(), stopped when released
+  private capturedStreams = new Set<MediaStream>();
+  private filters = new Map<string, SourceFilters>();
+  // Size of each source as last drawn, after filters, for hit-testing in the preview
+  private sourceSizes = new Map<string, { width: number; height: number }>();
+  private lastSweep = 0;
+  private resolveScene: SceneLookup = () => null;
+  private baseResolution = { width: 1920, height: 1080 };
+  // Scenes being rendered, outermost first, to stop nesting cycles
+  private sceneStack: string[] = [];
+  private readonly lookupSource: SourceLookup = sourceId => this.sourceService.getSource(sourceId);
+  private mediaEndedSubject = new Subject<string>();
+  private browserMediaSubject = new Subject<BrowserMediaElement>();
+
+  // Source IDs of media sources that played to their end without looping
+  public readonly mediaEnded$ = this.mediaEndedSubject.asObservable();
+  // Media elements of browser source pages, for routing their audio
+  public readonly browserMedia$ = this.browserMediaSubject.asObservable();
+
+  constructor(
+    private sourceService: SourceService,
+    private settingsService: SettingsService,
+    private audioService: AudioService
+  ) {
+    this.settingsService.settings$.subscribe(settings => {
+      this.baseResolution = { ...settings.video.baseResolution };
+    });
+  }
+
+  /**
+   * Provide the lookup used to render scene sources
+   */
+  setSceneResolver(resolver: SceneLookup): void {
+    this.resolveScene = resolver;
+  }
+
+  /**
+   * Source IDs shown by a scene, including those of nested scenes
+   */
+  getSceneSourceIds(scene: Scene): string[] {
+    return collectSceneSourceIds(scene, this.resolveScene, this.lookupSource);
+  }
+
+  /**
+   * Render a scene onto the given context
+   */
+  renderScene(
+    ctx: CanvasRenderingContext2D,
+    scene: Scene,
+    width: number,
+    height: number
+  ): void {
+    if (scene.sources.length === 0) {
+      this.renderEmptyScene(ctx, scene, width, height);
+      return;
+    }
+
+    this.sceneStack.push(scene.id);
+    try {
+      this.renderChildren(ctx, scene);
+    } finally {
+      this.sceneStack.pop();
+    }
+
+    this.releaseIdleMedia();
+  }
+
+  /**
+   * Render the items of a group, or of the scene root
+   */
+  private renderChildren(ctx: CanvasRenderingContext2D, scene: Scene, groupId?: string): void {
+    // Lowest order is drawn first, highest ends up on top
+    for (const item of getChildItems(scene, groupId)) {
+      if (isGroupItem(item, this.lookupSource)) {
+        this.renderGroup(ctx, scene, item);
+      } else {
+        this.renderItem(ctx, item);
+      }
+    }
+  }
+
+  /**
+   * Render a group's children with the group's position, rotation and scale
+   */
+  private renderGroup(ctx: CanvasRenderingContext2D, scene: Scene, group: SceneItem): void {
+    const source = this.lookupSource(group.sourceId);
+    if (!group.visible || !source?.enabled) return;
+
+    const transform = group.transform;
+    ctx.save();
+    ctx.translate(transform.position.x, transform.position.y);
+    ctx.rotate((transform.rotation * Math.PI) / 180);
+    ctx.scale(transform.scale.x, transform.scale.y);
+    this.renderChildren(ctx, scene, group.id);
+    ctx.restore();
+  }
+
+  /**
+   * Render a single scene item
+   */
+  renderItem(ctx: CanvasRenderingContext2D, item: SceneItem): void {
+    const source = this.lookupSource(item.sourceId);
+    if (!source || !item.visible || !source.enabled) return;
+    if (!VISUAL_SOURCE_TYPES.has(source.type)) return;
+
+    const rawFrame = this.getFrame(source);
+    if (!rawFrame) {
+      this.renderPlaceholder(ctx, source, item.transform);
+      return;
+    }
+
+    const frame = this.applyFilters(source, rawFrame);
+    this.sourceSizes.set(source.id, { width: frame.width, height: frame.height });
+
+    const layout = computeItemLayout(item.transform, frame.width, frame.height);
+    if (!layout) return;
+
+    this.drawFrame(ctx, layout, frame);
+  }
+
+  /**
+   * Get the current frame of a source, or null while it is not available
+   */
+  getFrame(source: Source): SourceFrame | null {
+    switch (source.type) {
+      case SourceType.COLOR_SOURCE: {
+        const settings = source.settings as ColorSourceSettings;
+        return {
+          fill: settings.color ?? '#ffffff',
+          width: settings.width ?? 1920,
+          height: settings.height ?? 1080
+        };
+      }
+      case SourceType.TEXT:
+        return this.getTextFrame(source);
+      case SourceType.SCENE:
+        return this.getSceneFrame(source);
+      default:
+        return this.getMediaFrame(source);
+    }
+  }
+
+  /**
+   * Use an externally acquired stream for a capture source,
+   * e.g. one picked by the user from getDisplayMedia()
+   */
+  attachStream(sourceId: string, stream: MediaStream): void {
+    this.releaseSource(sourceId);
+    this.attachedStreams.set(sourceId, stream);
+  }
+
+  /**
+   * Ask the user for a screen or window to show in a capture source.
+   * Browsers only allow this from a user gesture, so call it from a click handler.
+   */
+  async captureDisplay(source: Source): Promise<void> {
+    const settings = source.settings as CaptureSourceSettings;
+    const stream = await navigator.mediaDevices.getDisplayMedia({
+      video: {
+        displaySurface: source.type === SourceType.SCREEN_CAPTURE ? 'monitor' : 'window',
+        frameRate: settings.frameRate ? { ideal: settings.frameRate } : undefined
+      } as MediaTrackConstraints,
+      // Tab or system audio, where the browser offers it for the picked surface
+      audio: true
+    });
+
+    this.attachStream(source.id, stream);
+    this.capturedStreams.add(stream);
+
+    // Sharing stopped from the browser's own controls
+    stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+      if (this.attachedStreams.get(source.id) === stream) this.releaseSource(source.id);
+    });
+  }
+
+  /**
+   * Get the live stream backing a source, if it has one
+   */
+  getSourceStream(sourceId: string): MediaStream | null {
+    return this.attachedStreams.get(sourceId) ?? this.media.get(sourceId)?.stream ?? null;
+  }
+
+  /**
+   * Get the size a source was last drawn at, after filters
+   */
+  getSourceSize(sourceId: string): { width: number; height: number } | null {
+    return this.sourceSizes.get(sourceId) ?? null;
+  }
+
+  /**
+   * Get the load status of a source's media
+   */
+  getSourceStatus(sourceId: string): MediaStatus | null {
+    return this.media.get(sourceId)?.status ?? null;
+  }
+
+  /**
+   * Get the load status of a browser source's page, while it is loaded
+   */
+  getBrowserSourceStatus(sourceId: string): BrowserSourceStatus | null {
+    return this.media.get(sourceId)?.browser?.status ?? null;
+  }
+
+  /**
+   * Reload a browser source's page. Returns false when the page is not loaded.
+   */
+  reloadBrowserSource(sourceId: string): boolean {
+    const browser = this.media.get(sourceId)?.browser;
+    browser?.reload();
+    return !!browser;
+  }
+
+  /**
+   * Record a browser source's page with Element Capture, for pages the app cannot read
+   */
+  async captureBrowserSource(sourceId: string): Promise<void> {
+    const browser = this.media.get(sourceId)?.browser;
+    if (!browser) {
+      throw new Error(`Browser source is not loaded: ${sourceId}`);
+    }
+    await browser.startCapture();
+  }
+
+  /**
+   * Release all media held for a source
+   */
+  releaseSource(sourceId: string): void {
+    const media = this.media.get(sourceId);
+    if (media) {
+      this.releaseMedia(media);
+      this.media.delete(sourceId);
+    }
+    this.stopCapture(this.attachedStreams.get(sourceId));
+    this.attachedStreams.delete(sourceId);
+    this.filters.get(sourceId)?.chain.dispose();
+    this.filters.delete(sourceId);
+    this.sourceSizes.delete(sourceId);
+  }
+
+  /**
+   * Release all media held by the compositor
+   */
+  releaseAll(): void {
+    this.media.forEach(media => this.releaseMedia(media));
+    this.media.clear();
+    this.attachedStreams.forEach(stream => this.stopCapture(stream));
+    this.attachedStreams.clear();
+    this.filters.forEach(entry => entry.chain.dispose());
+    this.filters.clear();
+    this.sourceSizes.clear();
+  }
+
+  /**
+   * Run a frame through the source's video filters
+   */
+  private applyFilters(source: Source, frame: SourceFrame): SourceFrame {
+    const configs: FilterConfig[] = [...this.getSyncDelayFilters(source), ...(source.filters ?? [])];
+    let entry = this.filters.get(source.id);
+
+    if (!entry) {
+      if (configs.length === 0) return frame;
+      entry = { chain: new FilterChain(type => this.createFilter(type)), lastUsed: 0 };
+      this.filters.set(source.id, entry);
+    }
+
+    const now = performance.now();
+    entry.lastUsed = now;
+    entry.chain.update(configs);
+    if (!entry.chain.hasActiveFilters()) return frame;
+    if (entry.output && entry.processedAt !== undefined && now - entry.processedAt < FILTER_FRAME_MS) {
+      return entry.output;
+    }
+
+    const image = frame.image ?? this.rasterizeFill(entry, frame);
+    if (!image) return frame;
+
+    entry.output = entry.chain.process({ image, width: frame.width, height: frame.height }, now);
+    entry.processedAt = now;
+    return entry.output;
+  }
+
+  /**
+   * Live video is held back by its sync delay; stills look the same either way
+   */
+  private getSyncDelayFilters(source: Source): FilterConfig[] {
+    const delayMs = this.sourceService.getSyncDelay(source.id);
+    if (delayMs <= 0 || !this.media.get(source.id)?.video) return [];
+
+    return [{ id: SYNC_DELAY_FILTER, type: SYNC_DELAY_FILTER, enabled: true, settings: { delayMs } }];
+  }
+
+  private createFilter(type: string): VideoFilter | null {
+    // Offsets of opposite signs add up
+    return type === SYNC_DELAY_FILTER ? new RenderDelayFilter(MAX_SYNC_OFFSET_MS * 2, SYNC_DELAY_FPS) : createVideoFilter(type);
+  }
+
+  /**
+   * Filters work on pixels, so solid fills are drawn to a canvas first
+   */
+  private rasterizeFill(entry: SourceFilters, frame: SourceFrame): HTMLCanvasElement | null {
+    const canvas = entry.fillCanvas ?? document.createElement('canvas');
+    entry.fillCanvas = canvas;
+
+    if (canvas.width !== frame.width || canvas.height !== frame.height) {
+      canvas.width = frame.width;
+      canvas.height = frame.height;
+    }
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    ctx.fillStyle = frame.fill ?? '#ffffff';
+    ctx.fillRect(0, 0, frame.width, frame.height);
+    return canvas;
+  }
+
+  private drawFrame(ctx: CanvasRenderingContext2D, layout: ItemLayout, frame: SourceFrame): void {
+    const { box, drawRect, sourceRect } = layout;
+
+    ctx.save();
+    ctx.translate(layout.x, layout.y);
+    ctx.rotate(layout.rotation);
+
+    if (layout.flipX || layout.flipY) {
+      const centerX = box.x + box.width / 2;
+      const centerY = box.y + box.height / 2;
+      ctx.translate(centerX, centerY);
+      ctx.scale(layout.flipX ? -1 : 1, layout.flipY ? -1 : 1);
+      ctx.translate(-centerX, -centerY);
+    }
+
+    if (layout.clip) {
+      ctx.beginPath();
+      ctx.rect(box.x, box.y, box.width, box.height);
+      ctx.clip();
+    }
+
+    if (frame.image) {
+      ctx.drawImage(
+        frame.image,
+        sourceRect.x,
+        sourceRect.y,
+        sourceRect.width,
+        sourceRect.height,
+        drawRect.x,
+        drawRect.y,
+        drawRect.width,
+        drawRect.height
+      );
+    } else if (frame.fill) {
+      ctx.fillStyle = frame.fill;
+      ctx.fillRect(drawRect.x, drawRect.y, drawRect.width, drawRect.height);
+    }
+
+    ctx.restore();
+  }
+
+  private renderEmptyScene(
+    ctx: CanvasRenderingContext2D,
+    scene: Scene,
+    width: number,
+    height: number
+  ): void {
+    ctx.fillStyle = '#1a1a1a';
+    ctx.fillRect(0, 0, width, height);
+
+    ctx.fillStyle = '#333';
+    ctx.font = '48px Arial';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(scene.name, width / 2, height / 2);
+  }
+
+  /**
+   * Draw a labelled box for sources whose media is loading or unavailable
+   */
+  private renderPlaceholder(ctx: CanvasRenderingContext2D, source: Source, transform: Transform): void {
+    this.sourceSizes.set(source.id, { ...PLACEHOLDER_SIZE });
+    const layout = computeItemLayout(
+      transform,
+      PLACEHOLDER_SIZE.width,
+      PLACEHOLDER_SIZE.height
+    );
+    if (!layout) return;
+
+    this.drawFrame(ctx, layout, {
+      fill: this.getSourceColor(source.type),
+      ...PLACEHOLDER_SIZE
+    });
+
+    const media = this.media.get(source.id);
+    const status = media?.browser?.status ?? media?.status;
+    const label = status === 'error'
+      ? `${source.name} (unavailable)`
+      : status === 'capture-required' ? `${source.name} (needs capture)` : source.name;
+
+    ctx.save();
+    ctx.translate(layout.x, layout.y);
+    ctx.rotate(layout.rotation);
+    ctx.fillStyle = '#fff';
+    ctx.font = '16px Arial';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(
+      label,
+      layout.drawRect.x + layout.drawRect.width / 2,
+      layout.drawRect.y + layout.drawRect.height / 2
+    );
+    ctx.restore();
+  }
+
+  private getMediaFrame(source: Source): SourceFrame | null {
+    const media = this.ensureMedia(source);
+    if (!media || media.status !== 'ready') return null;
+
+    if (media.browser) {
+      return media.browser.getFrame();
+    }
+
+    if (media.video) {
+      const video = media.video;
+      if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || video.videoWidth === 0) {
+        return null;
+      }
+      return { image: video, width: video.videoWidth, height: video.videoHeight };
+    }
+
+    if (media.image) {
+      return {
+        image: media.image,
+        width: media.image.naturalWidth,
+        height: media.image.naturalHeight
+      };
+    }
+
+    return null;
+  }
+
+  private getTextFrame(source: Source): SourceFrame | null {
+    const settings = source.settings as TextSourceSettings;
+    const key = this.getMediaKey(source);
+    let media = this.media.get(source.id);
+
+    if (!media || media.key !== key) {
+      if (media) this.releaseMedia(media);
+      media = {
+        key,
+        status: 'ready',
+        canvas: this.renderText(settings),
+        ownsStream: false,
+        lastUsed: performance.now()
+      };
+      this.media.set(source.id, media);
+    }
+
+    media.lastUsed = performance.now();
+    const canvas = media.canvas;
+    if (!canvas) return null;
+
+    return { image: canvas, width: canvas.width, height: canvas.height };
+  }
+
+  /**
+   * Render a nested scene into the source's canvas
+   */
+  private getSceneFrame(source: Source): SourceFrame | null {
+    const settings = source.settings as SceneSourceSettings;
+    const scene = settings.sceneId ? this.resolveScene(settings.sceneId) : null;
+    if (!scene) return null;
+
+    if (this.sceneStack.includes(scene.id) || this.sceneStack.length >= MAX_SCENE_DEPTH) {
+      console.warn(`Not rendering scene "${scene.name}" inside itself`);
+      return null;
+    }
+
+    const key = this.getMediaKey(source);
+    let media = this.media.get(source.id);
+    if (!media || media.key !== key) {
+      if (media) this.releaseMedia(media);
+      media = {
+        key,
+        status: 'ready',
+        canvas: document.createElement('canvas'),
+        ownsStream: false,
+        lastUsed: performance.now()
+      };
+      this.media.set(source.id, media);
+    }
+
+    media.lastUsed = performance.now();
+    const canvas = media.canvas;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return null;
+
+    const { width, height } = this.baseResolution;
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    } else {
+      ctx.clearRect(0, 0, width, height);
+    }
+
+    // Empty nested scenes stay transparent instead of showing the empty scene label
+    if (scene.sources.length > 0) {
+      this.renderScene(ctx, scene, width, height);
+    }
+
+    return { image: canvas, width, height };
+  }
+
+  /**
+   * Rasterize a text source into its own canvas
+   */
+  private renderText(settings: TextSourceSettings): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+
+    const fontSize = settings.fontSize ?? 48;
+    const lineHeight = fontSize * (settings.lineHeight ?? 1.2);
+    const outlineWidth = settings.outlineColor ? settings.outlineWidth ?? 2 : 0;
+    const padding = (settings.padding ?? 0) + outlineWidth;
+    const font = [
+      settings.fontStyle ?? 'normal',
+      settings.fontWeight ?? 'normal',
+      `${fontSize}px`,
+      settings.fontFamily ?? 'Arial'
+    ].join(' ');
+    const lines = String(settings.text ?? '').split('\n');
+
+    if (!ctx) return canvas;
+
+    ctx.font = font;
+    const textWidth = Math.max(...lines.map(line => ctx.measureText(line).width));
+
+    canvas.width = Math.max(1, Math.ceil(textWidth + padding * 2));
+    canvas.height = Math.max(1, Math.ceil(lines.length * lineHeight + padding * 2));
+
+    // Resizing resets the context state
+    ctx.font = font;
+    ctx.textBaseline = 'middle';
+    ctx.textAlign = settings.align ?? 'left';
+
+    if (settings.backgroundColor) {
+      ctx.fillStyle = settings.backgroundColor;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+
+    const x = ctx.textAlign === 'center'
+      ? canvas.width / 2
+      : ctx.textAlign === 'right' ? canvas.width - padding : padding;
+
+    lines.forEach((line, index) => {
+      const y = padding + lineHeight * index + lineHeight / 2;
+
+      if (outlineWidth > 0 && settings.outlineColor) {
+        ctx.strokeStyle = settings.outlineColor;
+        ctx.lineWidth = outlineWidth * 2;
+        ctx.lineJoin = 'round';
+        ctx.strokeText(line, x, y);
+      }
+
+      ctx.fillStyle = settings.color ?? '#ffffff';
+      ctx.fillText(line, x, y);
+    });
+
+    return canvas;
+  }
+
+  /**
+   * Get or (re)create the media element backing a source
+   */
+  private ensureMedia(source: Source): SourceMedia | null {
+    const key = this.getMediaKey(source);
+    let media = this.media.get(source.id);
+
+    if (media && media.key !== key) {
+      this.releaseMedia(media);
+      this.media.delete(source.id);
+      media = undefined;
+    }
+
+    if (!media) {
+      const created = this.createMedia(source, key);
+      if (!created) return null;
+      media = created;
+      this.media.set(source.id, media);
+    }
+
+    media.lastUsed = performance.now();
+    return media;
+  }
+
+  private createMedia(source: Source, key: string): SourceMedia | null {
+    const attached = this.attachedStreams.get(source.id);
+    if (attached) {
+      return this.createStreamMedia(key, source.id, () => Promise.resolve(attached), false);
+    }
+
+    switch (source.type) {
+      case SourceType.VIDEO_CAPTURE: {
+        const settings = source.settings as CaptureSourceSettings;
+        return this.createStreamMedia(key, source.id, () =>
+          navigator.mediaDevices.getUserMedia({
+            video: {
+              deviceId: settings.deviceId ? { exact: settings.deviceId } : undefined,
+              width: settings.width ? { ideal: settings.width } : undefined,
+              height: settings.height ? { ideal: settings.height } : undefined,
+              frameRate: settings.frameRate ? { ideal: settings.frameRate } : undefined
+            },
+            audio: settings.audioDeviceId
+              ? {
+                  deviceId: { exact: settings.audioDeviceId },
+                  // The mixer's own filters handle processing
+                  echoCancellation: false,
+                  noiseSuppression: false,
+                  autoGainControl: false
+                }
+              : false
+          })
+        );
+      }
+      case SourceType.SCREEN_CAPTURE:
+      case SourceType.WINDOW_CAPTURE:
+      case SourceType.GAME_CAPTURE:
+        // Waits for captureDisplay(), which needs a user gesture
+        return {
+          key,
+          status: 'capture-required',
+          ownsStream: false,
+          lastUsed: performance.now()
+        };
+      case SourceType.IMAGE: {
+        const settings = source.settings as ImageSourceSettings;
+        return this.createImageMedia(key, settings.url ?? settings.file);
+      }
+      case SourceType.MEDIA:
+        return this.createPlaybackMedia(key, source.id, source.settings as MediaSourceSettings);
+      case SourceType.BROWSER:
+        return this.createBrowserMedia(key, source.id, source.settings as BrowserSourceSettings);
+      default:
+        // No renderer for this source type yet
+        return null;
+    }
+  }
+
+  private createStreamMedia(
+    key: string,
+    sourceId: string,
+    acquire: () => Promise<MediaStream>,
+    ownsStream = true
+  ): SourceMedia {
+    const video = this.createVideoElement();
+    const media: SourceMedia = {
+      key,
+      status: 'loading',
+      video,
+      ownsStream,
+      lastUsed: performance.now()
+    };
+
+    acquire()
+      .then(stream => {
+        // The source may have been released or changed while we waited
+        if (!this.isCurrent(media)) {
+          if (ownsStream) stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+
+        media.stream = stream;
+        video.srcObject = stream;
+        video.play().catch(error => console.warn('Failed to play source stream:', error));
+        media.status = 'ready';
+
+        const audioTracks = stream.getAudioTracks();
+        if (audioTracks.length > 0) {
+          media.audioSourceId = sourceId;
+          this.audioService.connectSourceAudio(sourceId, new MediaStream(audioTracks));
+        }
+      })
+      .catch(error => {
+        console.error('Failed to acquire source stream:', error);
+        media.status = 'error';
+        media.error = error instanceof Error ? error.message : String(error);
+      });
+
+    return media;
+  }
+
+  private createImageMedia(key: string, url?: string): SourceMedia {
+    const image = new Image();
+    const media: SourceMedia = {
+      key,
+      status: 'loading',
+      image,
+      ownsStream: false,
+      lastUsed: performance.now()
+    };
+
+    if (!url) {
+      media.status = 'error';
+      media.error = 'No image URL configured';
+      return media;
+    }
+
+    image.crossOrigin = 'anonymous';
+    image.onload = () => (media.status = 'ready');
+    image.onerror = () => {
+      media.status = 'error';
+      media.error = `Failed to load image: ${url}`;
+    };
+    image.src = url;
+
+    return media;
+  }
+
+  private createPlaybackMedia(key: string, sourceId: string, settings: MediaSourceSettings): SourceMedia {
+    const video = this.createVideoElement();
+    const media: SourceMedia = {
+      key,
+      status: 'loading',
+      video,
+      ownsStream: false,
+      lastUsed: performance.now()
+    };
+
+    const url = settings.url ?? settings.file;
+    if (!url) {
+      media.status = 'error';
+      media.error = 'No media URL configured';
+      return media;
+    }
+
+    video.crossOrigin = 'anonymous';
+    video.loop = settings.loop ?? true;
+    video.playbackRate = settings.playbackRate ?? 1;
+    video.onloadeddata = () => {
+      media.status = 'ready';
+      this.routeMediaAudio(media, sourceId, video);
+      video.play().catch(error => console.warn(`Failed to play media: ${url}`, error));
+    };
+    video.onended = () => {
+      if (this.isCurrent(media)) this.mediaEndedSubject.next(sourceId);
+    };
+    video.onerror = () => {
+      media.status = 'error';
+      media.error = `Failed to load media: ${url}`;
+    };
+    video.src = url;
+
+    return media;
+  }
+
+  private createBrowserMedia(key: string, sourceId: string, settings: BrowserSourceSettings): SourceMedia {
+    const media: SourceMedia = {
+      key,
+      status: 'ready',
+      ownsStream: false,
+      lastUsed: performance.now()
+    };
+
+    media.browser = new BrowserSourceRenderer(settings, element => {
+      if (this.isCurrent(media)) this.browserMediaSubject.next({ sourceId, element });
+    });
+
+    return media;
+  }
+
+  /**
+   * Take a media file's audio away from the speakers and into the mixer
+   */
+  private routeMediaAudio(media: SourceMedia, sourceId: string, video: HTMLVideoElement): void {
+    if (media.audioNode || !this.isCurrent(media)) return;
+    const context = this.audioService.getAudioContext();
+    if (!context) return;
+
+    try {
+      media.audioNode = context.createMediaElementSource(video);
+    } catch (error) {
+      console.warn('Failed to route media audio into the mixer:', error);
+      return;
+    }
+    const destination = context.createMediaStreamDestination();
+    media.audioNode.connect(destination);
+    // Muted elements feed silence into Web Audio; nothing reaches the speakers either way
+    video.muted = false;
+    media.audioSourceId = sourceId;
+    this.audioService.connectSourceAudio(sourceId, destination.stream);
+  }
+
+  private createVideoElement(): HTMLVideoElement {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.autoplay = true;
+    return video;
+  }
+
+  private stopCapture(stream?: MediaStream): void {
+    if (stream && this.capturedStreams.delete(stream)) {
+      stream.getTracks().forEach(track => track.stop());
+    }
+  }
+
+  private releaseMedia(media: SourceMedia): void {
+    if (media.stream && media.ownsStream) {
+      media.stream.getTracks().forEach(track => track.stop());
+    }
+
+    if (media.video) {
+      media.video.pause();
+      media.video.srcObject = null;
+      media.video.removeAttribute('src');
+    }
+
+    if (media.image) {
+      media.image.onload = null;
+      media.image.onerror = null;
+      media.image.removeAttribute('src');
+    }
+
+    media.browser?.dispose();
+    media.browser = undefined;
+
+    media.audioNode?.disconnect();
+    media.audioNode = undefined;
+    if (media.audioSourceId) {
+      this.audioService.disconnectSourceAudio(media.audioSourceId);
+      media.audioSourceId = undefined;
+    }
+
+    media.stream = undefined;
+    media.status = 'loading';
+  }
+
+  /**
+   * Release media of sources that have not been rendered for a while
+   */
+  private releaseIdleMedia(): void {
+    const now = performance.now();
+    if (now - this.lastSweep < 1000) return;
+    this.lastSweep = now;
+
+    this.media.forEach((media, sourceId) => {
+      if (
+        now - media.lastUsed > IDLE_RELEASE_MS &&
+        !this.attachedStreams.has(sourceId) &&
+        !this.keepsRunning(sourceId, media)
+      ) {
+        this.releaseMedia(media);
+        this.media.delete(sourceId);
+      }
+    });
+
+    this.filters.forEach((entry, sourceId) => {
+      if (now - entry.lastUsed > IDLE_RELEASE_MS) {
+        entry.chain.dispose();
+        this.filters.delete(sourceId);
+      }
+    });
+  }
+
+  /**
+   * Browser pages keep running while hidden unless told to shut down,
+   * so their state and audio survive scene switches
+   */
+  private keepsRunning(sourceId: string, media: SourceMedia): boolean {
+    if (!media.browser) return false;
+    const source = this.lookupSource(sourceId);
+    return !!source && !(source.settings as BrowserSourceSettings).shutdownWhenHidden;
+  }
+
+  private isCurrent(media: SourceMedia): boolean {
+    return Array.from(this.media.values()).includes(media);
+  }
+
+  private getMediaKey(source: Source): string {
+    const attached = this.attachedStreams.get(source.id);
+    if (attached) return `attached:${attached.id}`;
+    return `${source.type}:${JSON.stringify(source.settings)}`;
+  }
+
+  private getSourceColor(type: SourceType): string {
+    const colors: Partial<Record<SourceType, string>> = {
+      [SourceType.VIDEO_CAPTURE]: '#2a7fff',
+      [SourceType.SCREEN_CAPTURE]: '#28a745',
+      [SourceType.WINDOW_CAPTURE]: '#17a2b8',
+      [SourceType.IMAGE]: '#6f42c1',
+      [SourceType.TEXT]: '#fd7e14',
+      [SourceType.BROWSER]: '#e83e8c',
+      [SourceType.MEDIA]: '#20c997',
+      [SourceType.COLOR_SOURCE]: '#6c757d',
+      [SourceType.SCENE]: '#343a40'
+    };
+
+    return colors[type] || '#495057';
+  }
+}
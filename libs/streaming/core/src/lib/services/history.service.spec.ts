@@ -0,0 +1,176 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { HistoryService, applyChanges, diffById } from './history.service';
+import { HotkeyService } from './hotkey.service';
+
+interface Item {
+  id: string;
+  value: number;
+}
+
+describe('HistoryService', () => {
+  let service: HistoryService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(HistoryService);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('diffById', () => {
+    it('should find added, removed and replaced entities', () => {
+      const a = { id: 'a', value: 1 };
+      const b = { id: 'b', value: 2 };
+      const c = { id: 'c', value: 3 };
+      const changed = { id: 'b', value: 20 };
+
+      const changes = diffById([a, b], [changed, c]);
+      expect(changes.map((change) => change.id).sort()).toEqual(['a', 'b', 'c']);
+
+      expect(applyChanges([changed, c], changes, 'before')).toEqual([a, b]);
+      expect(applyChanges([a, b], changes, 'after')).toEqual([changed, c]);
+    });
+
+    it('should leave untouched entities as they are now', () => {
+      const changes = diffById<Item>([{ id: 'a', value: 1 }], []);
+      const restored = applyChanges<Item>([{ id: 'b', value: 5 }], changes, 'before');
+
+      expect(restored).toEqual([
+        { id: 'a', value: 1 },
+        { id: 'b', value: 5 }
+      ]);
+    });
+  });
+
+  describe('Undo and redo', () => {
+    let items: ReturnType<typeof signal<Item[]>>;
+
+    beforeEach(() => {
+      items = signal<Item[]>([{ id: 'a', value: 1 }]);
+    });
+
+    function setValue(id: string, value: number, mergeKey?: string): void {
+      service.track(
+        `Set ${id}`,
+        items,
+        () => items.update((list) => list.map((item) => (item.id === id ? { ...item, value } : item))),
+        mergeKey
+      );
+    }
+
+    it('should undo and redo a tracked change', () => {
+      setValue('a', 2);
+
+      expect(service.canUndo()).toBe(true);
+      service.undo();
+      expect(items()).toEqual([{ id: 'a', value: 1 }]);
+      expect(service.canRedo()).toBe(true);
+
+      service.redo();
+      expect(items()).toEqual([{ id: 'a', value: 2 }]);
+    });
+
+    it('should not record changes that changed nothing', () => {
+      service.track('Nothing', items, () => undefined);
+      expect(service.canUndo()).toBe(false);
+    });
+
+    it('should clear the redo stack on a new change', () => {
+      setValue('a', 2);
+      service.undo();
+      setValue('a', 3);
+
+      expect(service.canRedo()).toBe(false);
+    });
+
+    it('should group changes into one step', () => {
+      service.transact('Drag', () => {
+        setValue('a', 2);
+        setValue('a', 3);
+      });
+
+      expect(service.undoStack().map((entry) => entry.label)).toEqual(['Drag']);
+      service.undo();
+      expect(items()).toEqual([{ id: 'a', value: 1 }]);
+    });
+
+    it('should keep a group open until it ends', () => {
+      service.beginGroup('Drag');
+      setValue('a', 2);
+      setValue('a', 3);
+      expect(service.canUndo()).toBe(false);
+      service.endGroup();
+
+      expect(service.undoStack()).toHaveLength(1);
+    });
+
+    it('should merge quick edits with the same merge key', () => {
+      vi.useFakeTimers();
+      setValue('a', 2, 'value:a');
+      vi.advanceTimersByTime(200);
+      setValue('a', 3, 'value:a');
+      vi.advanceTimersByTime(2000);
+      setValue('a', 4, 'value:a');
+
+      expect(service.undoStack()).toHaveLength(2);
+      service.undo();
+      expect(items()).toEqual([{ id: 'a', value: 3 }]);
+      service.undo();
+      expect(items()).toEqual([{ id: 'a', value: 1 }]);
+    });
+
+    it('should only record the outermost change to a list', () => {
+      service.track('Outer', items, () => {
+        setValue('a', 2);
+        items.update((list) => [...list, { id: 'b', value: 1 }]);
+      });
+
+      service.undo();
+      expect(items()).toEqual([{ id: 'a', value: 1 }]);
+      service.redo();
+      expect(items()).toEqual([
+        { id: 'a', value: 2 },
+        { id: 'b', value: 1 }
+      ]);
+    });
+
+    it('should jump to a step from the history', () => {
+      setValue('a', 2);
+      setValue('a', 3);
+      setValue('a', 4);
+      const [first, second] = service.undoStack();
+
+      service.goTo(first.id);
+      expect(items()[0].value).toBe(2);
+      service.goTo(second.id);
+      expect(items()[0].value).toBe(3);
+      service.goTo(null);
+      expect(items()[0].value).toBe(1);
+    });
+  });
+
+  describe('Hotkeys', () => {
+    it('should register undo and redo with the hotkey service', async () => {
+      const hotkeys = TestBed.inject(HotkeyService);
+      const bindings = await new Promise<string[]>((resolve) =>
+        hotkeys.bindings$.subscribe((list) => resolve(list.map((binding) => binding.action)))
+      );
+
+      expect(bindings).toEqual(expect.arrayContaining(['edit.undo', 'edit.redo']));
+    });
+
+    it('should undo on Ctrl+Z', () => {
+      const items = signal<Item[]>([{ id: 'a', value: 1 }]);
+      service.track('Add', items, () => items.update((list) => [...list, { id: 'b', value: 2 }]));
+
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'z', ctrlKey: true }));
+      expect(items()).toEqual([{ id: 'a', value: 1 }]);
+
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'y', ctrlKey: true }));
+      expect(items()).toHaveLength(2);
+    });
+  });
+});
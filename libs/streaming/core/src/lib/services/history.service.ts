@@ -0,0 +1,295 @@
+import { Injectable, WritableSignal, computed, inject, signal } from '@angular/core';
+import { Hotkey } from '../models/settings.model';
+import { HotkeyService } from './hotkey.service';
+
+/**
+ * Edit History
+ * Undo and redo for edits to scenes, sources and filters. Only edits are
+ * recorded: going live, recording and other actions that cannot be taken
+ * back never enter the history, and undo never switches the program scene.
+ */
+
+export interface HistoryCommand {
+  label: string;
+  undo(): void;
+  redo(): void;
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: number;
+  mergeKey?: string;
+  commands: HistoryCommand[];
+}
+
+interface EntityChange<T> {
+  id: string;
+  before?: T;
+  after?: T;
+  beforeIndex: number;
+  afterIndex: number;
+}
+
+interface HistoryGroup {
+  label: string;
+  mergeKey?: string;
+  depth: number;
+  commands: HistoryCommand[];
+}
+
+const MAX_HISTORY = 100;
+
+// Edits with the same merge key this close together form one step, e.g. typing a value
+const MERGE_WINDOW_MS = 1000;
+
+export const UNDO_HOTKEY: Hotkey = { key: 'z', modifiers: { ctrl: true, alt: false, shift: false, meta: false } };
+export const REDO_HOTKEY: Hotkey = { key: 'y', modifiers: { ctrl: true, alt: false, shift: false, meta: false } };
+
+/**
+ * Entities added, removed or replaced between two versions of a list
+ */
+export function diffById<T extends { id: string }>(before: T[], after: T[]): EntityChange<T>[] {
+  const beforeIndex = new Map(before.map((entity, index) => [entity.id, index]));
+  const afterIndex = new Map(after.map((entity, index) => [entity.id, index]));
+  const changes: EntityChange<T>[] = [];
+
+  before.forEach((entity, index) => {
+    const next = afterIndex.has(entity.id) ? after[afterIndex.get(entity.id) as number] : undefined;
+    if (next !== entity) {
+      changes.push({
+        id: entity.id,
+        before: entity,
+        after: next,
+        beforeIndex: index,
+        afterIndex: afterIndex.get(entity.id) ?? index
+      });
+    }
+  });
+
+  after.forEach((entity, index) => {
+    if (!beforeIndex.has(entity.id)) {
+      changes.push({ id: entity.id, after: entity, beforeIndex: index, afterIndex: index });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Put the entities of one side of a diff back into a list, leaving the
+ * entities the diff did not touch as they are now
+ */
+export function applyChanges<T extends { id: string }>(
+  list: T[],
+  changes: EntityChange<T>[],
+  side: 'before' | 'after'
+): T[] {
+  const result = [...list];
+
+  for (const change of changes) {
+    const entity = change[side];
+    const index = result.findIndex((candidate) => candidate.id === change.id);
+
+    if (!entity) {
+      if (index >= 0) result.splice(index, 1);
+    } else if (index >= 0) {
+      result[index] = entity;
+    } else {
+      const position = side === 'before' ? change.beforeIndex : change.afterIndex;
+      result.splice(Math.min(position, result.length), 0, entity);
+    }
+  }
+
+  return result;
+}
+
+function last<T>(items: T[]): T | undefined {
+  return items[items.length - 1];
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class HistoryService {
+  private hotkeyService = inject(HotkeyService);
+
+  private undoStackSignal = signal<HistoryEntry[]>([]);
+  private redoStackSignal = signal<HistoryEntry[]>([]);
+  private group: HistoryGroup | null = null;
+  private tracking = new Set<WritableSignal<unknown>>();
+  private applying = false;
+
+  // Public readonly signals
+  public readonly undoStack = this.undoStackSignal.asReadonly();
+  public readonly redoStack = this.redoStackSignal.asReadonly();
+  public readonly canUndo = computed(() => this.undoStackSignal().length > 0);
+  public readonly canRedo = computed(() => this.redoStackSignal().length > 0);
+
+  constructor() {
+    this.hotkeyService.registerHotkey('edit.undo', UNDO_HOTKEY, () => this.undo());
+    this.hotkeyService.registerHotkey('edit.redo', REDO_HOTKEY, () => this.redo());
+  }
+
+  /**
+   * Record a command that has already been applied
+   */
+  record(command: HistoryCommand, mergeKey?: string): void {
+    if (this.applying) return;
+
+    if (this.group) {
+      this.group.commands.push(command);
+      return;
+    }
+
+    this.push(command.label, [command], mergeKey);
+  }
+
+  /**
+   * Run a change to a list signal and record it. Undo and redo only restore the
+   * entities the change touched, so later edits to other entities survive.
+   */
+  track<T extends { id: string }, R>(
+    label: string,
+    list: WritableSignal<T[]>,
+    change: () => R,
+    mergeKey?: string
+  ): R {
+    // The outermost change to a list records everything nested changes did
+    if (this.applying || this.tracking.has(list as WritableSignal<unknown>)) {
+      return change();
+    }
+
+    const before = list();
+    this.tracking.add(list as WritableSignal<unknown>);
+
+    return this.transact(label, () => {
+      try {
+        return change();
+      } finally {
+        this.tracking.delete(list as WritableSignal<unknown>);
+
+        const changes = diffById(before, list());
+        if (changes.length > 0) {
+          this.record({
+            label,
+            undo: () => list.update((items) => applyChanges(items, changes, 'before')),
+            redo: () => list.update((items) => applyChanges(items, changes, 'after'))
+          });
+        }
+      }
+    }, mergeKey);
+  }
+
+  /**
+   * Run several changes as one step, e.g. everything a drag does
+   */
+  transact<R>(label: string, change: () => R, mergeKey?: string): R {
+    this.beginGroup(label, mergeKey);
+    try {
+      return change();
+    } finally {
+      this.endGroup();
+    }
+  }
+
+  /**
+   * Start a step that lasts until the matching endGroup, e.g. on pointer down
+   */
+  beginGroup(label: string, mergeKey?: string): void {
+    if (this.group) {
+      this.group.depth++;
+      return;
+    }
+
+    this.group = { label, mergeKey, depth: 1, commands: [] };
+  }
+
+  endGroup(): void {
+    const group = this.group;
+    if (!group || --group.depth > 0) return;
+
+    this.group = null;
+    if (group.commands.length > 0) {
+      this.push(group.label, group.commands, group.mergeKey);
+    }
+  }
+
+  /**
+   * Undo the last step
+   */
+  undo(): void {
+    const entry = last(this.undoStackSignal());
+    if (!entry || this.group) return;
+
+    this.apply(() => [...entry.commands].reverse().forEach((command) => command.undo()));
+    this.undoStackSignal.update((stack) => stack.slice(0, -1));
+    this.redoStackSignal.update((stack) => [...stack, entry]);
+  }
+
+  /**
+   * Redo the last undone step
+   */
+  redo(): void {
+    const entry = last(this.redoStackSignal());
+    if (!entry || this.group) return;
+
+    this.apply(() => entry.commands.forEach((command) => command.redo()));
+    this.redoStackSignal.update((stack) => stack.slice(0, -1));
+    this.undoStackSignal.update((stack) => [...stack, entry]);
+  }
+
+  /**
+   * Undo or redo until the given step is the last one applied, or until
+   * nothing is applied for null
+   */
+  goTo(entryId: string | null): void {
+    if (entryId !== null && this.redoStackSignal().some((entry) => entry.id === entryId)) {
+      while (last(this.undoStackSignal())?.id !== entryId && this.canRedo()) this.redo();
+      return;
+    }
+
+    if (entryId !== null && !this.undoStackSignal().some((entry) => entry.id === entryId)) return;
+
+    while ((last(this.undoStackSignal())?.id ?? null) !== entryId && this.canUndo()) this.undo();
+  }
+
+  /**
+   * Forget all steps, e.g. after switching scene collections
+   */
+  clear(): void {
+    this.undoStackSignal.set([]);
+    this.redoStackSignal.set([]);
+  }
+
+  private push(label: string, commands: HistoryCommand[], mergeKey?: string): void {
+    const now = Date.now();
+    const previous = last(this.undoStackSignal());
+
+    if (mergeKey && previous?.mergeKey === mergeKey && now - previous.timestamp < MERGE_WINDOW_MS) {
+      const merged = { ...previous, timestamp: now, commands: [...previous.commands, ...commands] };
+      this.undoStackSignal.update((stack) => [...stack.slice(0, -1), merged]);
+    } else {
+      const entry: HistoryEntry = { id: this.generateId(), label, timestamp: now, mergeKey, commands };
+      this.undoStackSignal.update((stack) => [...stack, entry].slice(-MAX_HISTORY));
+    }
+
+    this.redoStackSignal.set([]);
+  }
+
+  private apply(change: () => void): void {
+    this.applying = true;
+    try {
+      change();
+    } finally {
+      this.applying = false;
+    }
+  }
+
+  /**
+   * Generate a unique ID
+   */
+  private generateId(): string {
+    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
@@ -0,0 +1,174 @@
+import { FilterType, SourceType } from '../models/source.model';
+import {
+  ObsSceneCollection,
+  importObsSceneCollection,
+  isObsSceneCollection,
+  mapObsSourceKind,
+  obsColorToHex
+} from './obs-import';
+
+describe('OBS Import', () => {
+  const obsCollection: ObsSceneCollection = {
+    name: 'Streaming',
+    current_scene: 'Gameplay',
+    current_program_scene: 'Gameplay',
+    scene_order: [{ name: 'Starting' }, { name: 'Gameplay' }],
+    sources: [
+      {
+        id: 'scene',
+        name: 'Gameplay',
+        uuid: 'scene-gameplay',
+        settings: {
+          items: [
+            {
+              name: 'Game',
+              source_uuid: 'game',
+              pos: { x: 0, y: 0 },
+              scale: { x: 0.5, y: 0.5 },
+              rot: 90,
+              align: 5,
+              bounds_type: 3,
+              bounds_align: 0,
+              bounds: { x: 1920, y: 1080 },
+              crop_left: 10,
+              crop_top: 20,
+              crop_right: 30,
+              crop_bottom: 40
+            },
+            { name: 'Overlay', source_uuid: 'group-overlay', visible: false, locked: true },
+            { name: 'Starting', source_uuid: 'scene-starting' }
+          ]
+        }
+      },
+      {
+        id: 'scene',
+        name: 'Starting',
+        uuid: 'scene-starting',
+        settings: { items: [{ name: 'Background' }, { name: 'Plugin Thing' }] }
+      },
+      {
+        id: 'game_capture',
+        name: 'Game',
+        uuid: 'game',
+        volume: 0.5,
+        muted: true,
+        sync: 120000000,
+        filters: [
+          {
+            id: 'chroma_key_filter_v2',
+            name: 'Key',
+            settings: { key_color_type: 'custom', key_color: 0xff0000ff, similarity: 350 }
+          },
+          { id: 'color_filter_v2', name: 'Color', enabled: false, settings: { gamma: 0.2, hue_shift: 45 } },
+          { id: 'shader_filter', name: 'Shader' }
+        ]
+      },
+      { id: 'color_source_v3', name: 'Background', settings: { color: 0xff332211, width: 1280, height: 720 } },
+      {
+        id: 'text_gdiplus_v3',
+        name: 'Title',
+        uuid: 'title',
+        settings: { text: 'Live', font: { face: 'Inter', size: 64, flags: 1 }, color: 0xffffffff }
+      },
+      { id: 'wasapi_input_capture', name: 'Mic', filters: [{ id: 'noise_gate_filter', name: 'Gate', settings: { close_threshold: -40 } }] },
+      { id: 'obs_plugin_thing', name: 'Plugin Thing' }
+    ],
+    groups: [
+      {
+        id: 'group',
+        name: 'Overlay',
+        uuid: 'group-overlay',
+        settings: { items: [{ name: 'Title', source_uuid: 'title', pos: { x: 5, y: 6 } }] }
+      }
+    ]
+  };
+
+  it('should recognize OBS scene collections', () => {
+    expect(isObsSceneCollection(obsCollection)).toBe(true);
+    expect(isObsSceneCollection({ version: 2, collections: [], sources: [] })).toBe(false);
+  });
+
+  it('should map OBS source kinds', () => {
+    expect(mapObsSourceKind('dshow_input')).toBe(SourceType.VIDEO_CAPTURE);
+    expect(mapObsSourceKind('monitor_capture')).toBe(SourceType.SCREEN_CAPTURE);
+    expect(mapObsSourceKind('window_capture')).toBe(SourceType.WINDOW_CAPTURE);
+    expect(mapObsSourceKind('browser_source')).toBe(SourceType.BROWSER);
+    expect(mapObsSourceKind('ffmpeg_source')).toBe(SourceType.MEDIA);
+    expect(mapObsSourceKind('text_ft2_source_v2')).toBe(SourceType.TEXT);
+    expect(mapObsSourceKind('pulse_output_capture')).toBe(SourceType.AUDIO_OUTPUT);
+    expect(mapObsSourceKind('unknown')).toBeNull();
+  });
+
+  it('should convert OBS colors', () => {
+    expect(obsColorToHex(0xff0000ff)).toBe('#FF0000');
+    expect(obsColorToHex(0xff332211)).toBe('#112233');
+  });
+
+  it('should import scenes in OBS order with the current scene active', () => {
+    const { collections } = importObsSceneCollection(obsCollection);
+    const [collection] = collections;
+
+    expect(collection.name).toBe('Streaming');
+    expect(collection.scenes.map((scene) => scene.name)).toEqual(['Starting', 'Gameplay']);
+    expect(collection.activeSceneId).toBe(collection.scenes[1].id);
+  });
+
+  it('should map transforms onto scene items', () => {
+    const { collections, sources } = importObsSceneCollection(obsCollection);
+    const gameplay = collections[0].scenes[1];
+    const game = gameplay.sources.find((item) => sources.find((s) => s.id === item.sourceId)?.name === 'Game');
+
+    expect(game?.transform).toEqual({
+      position: { x: 0, y: 0 },
+      scale: { x: 0.5, y: 0.5 },
+      rotation: 90,
+      crop: { top: 20, bottom: 40, left: 10, right: 30 },
+      alignment: 5,
+      boundsType: 'crop',
+      boundsAlignment: 0,
+      bounds: { x: 1920, y: 1080 }
+    });
+  });
+
+  it('should map sources, groups and nested scenes', () => {
+    const { collections, sources } = importObsSceneCollection(obsCollection);
+    const [starting, gameplay] = collections[0].scenes;
+    const byName = (name: string) => sources.find((source) => source.name === name);
+
+    expect(byName('Game')).toMatchObject({
+      type: SourceType.GAME_CAPTURE,
+      volume: 0.5,
+      muted: true,
+      syncOffset: 120
+    });
+    expect(byName('Background')?.settings).toEqual({ color: '#112233', width: 1280, height: 720 });
+    expect(byName('Title')?.settings).toMatchObject({ text: 'Live', fontFamily: 'Inter', fontSize: 64, fontWeight: 'bold' });
+    expect(byName('Starting')?.settings).toEqual({ sceneId: starting.id });
+
+    const group = gameplay.sources.find((item) => item.sourceId === byName('Overlay')?.id);
+    expect(byName('Overlay')?.type).toBe(SourceType.GROUP);
+    expect(group).toMatchObject({ visible: false, locked: true });
+
+    const title = gameplay.sources.find((item) => item.sourceId === byName('Title')?.id);
+    expect(title?.groupId).toBe(group?.id);
+    expect(title?.transform.position).toEqual({ x: 5, y: 6 });
+  });
+
+  it('should map filters and report what it skipped', () => {
+    const { sources, warnings } = importObsSceneCollection(obsCollection);
+    const game = sources.find((source) => source.name === 'Game');
+
+    expect(game?.filters.map((filter) => filter.type)).toEqual([FilterType.CHROMA_KEY, FilterType.COLOR_CORRECTION]);
+    expect(game?.filters[0].settings).toMatchObject({ keyColor: '#FF0000', similarity: 350, smoothness: 80 });
+    expect(game?.filters[1]).toMatchObject({ enabled: false, settings: { gamma: 0.2, hueShift: 45 } });
+    expect(sources.find((source) => source.name === 'Mic')?.filters[0].settings).toMatchObject({ threshold: -40 });
+
+    expect(sources.some((source) => source.name === 'Plugin Thing')).toBe(false);
+    expect(warnings).toContain('Filter "Shader" on "Game" of kind "shader_filter" is not supported and was skipped');
+    expect(warnings).toContain('Source "Plugin Thing" of kind "obs_plugin_thing" is not supported and was skipped');
+  });
+
+  it('should reject other JSON', () => {
+    expect(() => importObsSceneCollection({ sources: [] } as ObsSceneCollection)).toThrow('Not an OBS scene collection');
+  });
+});
@@ -0,0 +1,447 @@
+import { Scene, SceneCollection, SceneItem } from '../models/scene.model';
+import {
+  Filter,
+  FilterType,
+  MAX_SYNC_OFFSET_MS,
+  Source,
+  SourceSettings,
+  SourceType,
+  Transform
+} from '../models/source.model';
+import { SceneCollectionImport } from './scene-migration';
+
+/**
+ * OBS Import
+ * Converts OBS Studio scene collection JSON (the files in
+ * obs-studio/basic/scenes) into a scene collection and its shared sources.
+ * Source kinds, transforms and filters are mapped onto ours; anything
+ * without a counterpart is skipped and reported as a warning.
+ */
+
+export interface ObsSceneItem {
+  name: string;
+  source_uuid?: string;
+  visible?: boolean;
+  locked?: boolean;
+  pos?: { x: number; y: number };
+  scale?: { x: number; y: number };
+  rot?: number;
+  align?: number;
+  bounds_type?: number;
+  bounds_align?: number;
+  bounds?: { x: number; y: number };
+  crop_left?: number;
+  crop_top?: number;
+  crop_right?: number;
+  crop_bottom?: number;
+}
+
+export interface ObsFilter {
+  id: string;
+  name: string;
+  enabled?: boolean;
+  settings?: SourceSettings;
+}
+
+export interface ObsSource {
+  id: string;
+  name: string;
+  uuid?: string;
+  enabled?: boolean;
+  muted?: boolean;
+  volume?: number;
+  sync?: number; // audio sync offset in ns
+  settings?: SourceSettings;
+  filters?: ObsFilter[];
+}
+
+export interface ObsSceneCollection {
+  name?: string;
+  current_scene?: string;
+  current_program_scene?: string;
+  scene_order?: Array<{ name: string }>;
+  sources: ObsSource[];
+  groups?: ObsSource[];
+}
+
+export interface ObsImportResult extends SceneCollectionImport {
+  sources: Source[];
+}
+
+// OBS bounds types: none, stretch, scale inner, scale outer, to width, to height, max only
+const BOUNDS_TYPES: Transform['boundsType'][] = ['none', 'stretch', 'scale', 'crop', 'scale', 'scale', 'scale'];
+
+const SOURCE_KINDS: Array<[RegExp, SourceType]> = [
+  [/^(dshow_input|av_capture_input|v4l2_input|macos_avcapture)/, SourceType.VIDEO_CAPTURE],
+  [/^(monitor_capture|display_capture|xshm_input|screen_capture|pipewire-desktop-capture-source)/, SourceType.SCREEN_CAPTURE],
+  [/^(window_capture|xcomposite_input|pipewire-window-capture-source)/, SourceType.WINDOW_CAPTURE],
+  [/^game_capture/, SourceType.GAME_CAPTURE],
+  [/^browser_source/, SourceType.BROWSER],
+  [/^(image_source|slideshow)/, SourceType.IMAGE],
+  [/^(ffmpeg_source|vlc_source)/, SourceType.MEDIA],
+  [/^(text_gdiplus|text_ft2_source)/, SourceType.TEXT],
+  [/^color_source/, SourceType.COLOR_SOURCE],
+  [/_input_capture$/, SourceType.AUDIO_INPUT],
+  [/_output_capture$/, SourceType.AUDIO_OUTPUT],
+  [/^scene$/, SourceType.SCENE],
+  [/^group$/, SourceType.GROUP]
+];
+
+const FILTER_KINDS: Array<[RegExp, FilterType]> = [
+  [/^chroma_key_filter/, FilterType.CHROMA_KEY],
+  [/^color_filter/, FilterType.COLOR_CORRECTION],
+  [/^sharpness_filter/, FilterType.SHARPEN],
+  [/^clut_filter/, FilterType.LUT],
+  [/^mask_filter/, FilterType.MASK],
+  [/^scale_filter/, FilterType.SCALING],
+  [/^scroll_filter/, FilterType.SCROLL],
+  [/^gpu_delay/, FilterType.RENDER_DELAY],
+  [/^noise_suppress_filter/, FilterType.NOISE_SUPPRESSION],
+  [/^noise_gate_filter/, FilterType.NOISE_GATE],
+  [/^compressor_filter/, FilterType.COMPRESSOR],
+  [/^gain_filter/, FilterType.GAIN],
+  [/^limiter_filter/, FilterType.LIMITER],
+  [/^expander_filter/, FilterType.EXPANDER],
+  [/^vst_filter/, FilterType.VST]
+];
+
+const CHROMA_KEY_COLORS: Record<string, string> = {
+  green: '#00FF00',
+  blue: '#0000FF',
+  magenta: '#FF00FF'
+};
+
+/**
+ * Whether parsed JSON looks like an OBS scene collection rather than ours
+ */
+export function isObsSceneCollection(data: unknown): data is ObsSceneCollection {
+  const candidate = data as ObsSceneCollection | null;
+  return (
+    !!candidate &&
+    typeof candidate === 'object' &&
+    Array.isArray(candidate.sources) &&
+    (Array.isArray(candidate.scene_order) || typeof candidate.current_scene === 'string')
+  );
+}
+
+export function mapObsSourceKind(kind: string): SourceType | null {
+  return SOURCE_KINDS.find(([pattern]) => pattern.test(kind))?.[1] ?? null;
+}
+
+export function mapObsFilterKind(kind: string): FilterType | null {
+  return FILTER_KINDS.find(([pattern]) => pattern.test(kind))?.[1] ?? null;
+}
+
+/**
+ * Convert an OBS color (0xAABBGGRR) to a hex color
+ */
+export function obsColorToHex(color: number): string {
+  const value = color >>> 0;
+  const channels = [value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff];
+  return `#${channels.map(channel => channel.toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+}
+
+export function mapObsTransform(item: ObsSceneItem): Transform {
+  return {
+    position: { x: item.pos?.x ?? 0, y: item.pos?.y ?? 0 },
+    scale: { x: item.scale?.x ?? 1, y: item.scale?.y ?? 1 },
+    rotation: item.rot ?? 0,
+    crop: {
+      top: item.crop_top ?? 0,
+      bottom: item.crop_bottom ?? 0,
+      left: item.crop_left ?? 0,
+      right: item.crop_right ?? 0
+    },
+    // OBS uses the same alignment flags
+    alignment: item.align ?? 5,
+    boundsType: BOUNDS_TYPES[item.bounds_type ?? 0] ?? 'scale',
+    boundsAlignment: item.bounds_align ?? 0,
+    bounds: { x: item.bounds?.x ?? 0, y: item.bounds?.y ?? 0 }
+  };
+}
+
+/**
+ * Map the settings of an OBS source onto the keys our sources read
+ */
+export function mapObsSourceSettings(type: SourceType, obs: SourceSettings = {}): SourceSettings {
+  switch (type) {
+    case SourceType.IMAGE:
+      return { file: obs['file'] ?? obs['files']?.[0]?.value ?? '' };
+    case SourceType.MEDIA: {
+      const file = obs['local_file'] ?? obs['playlist']?.[0]?.value;
+      const isLocal = obs['is_local_file'] ?? !obs['input'];
+      return {
+        ...(isLocal ? { file: file ?? '' } : { url: obs['input'] ?? '' }),
+        loop: obs['looping'] ?? obs['loop'] ?? false,
+        playbackRate: (obs['speed_percent'] ?? 100) / 100
+      };
+    }
+    case SourceType.TEXT: {
+      const font = obs['font'] ?? {};
+      const color = obs['color'] ?? obs['color1'];
+      const outline = obs['outline'] === true;
+      return {
+        text: obs['text'] ?? '',
+        fontFamily: font['face'] ?? 'Arial',
+        fontSize: font['size'] ?? 48,
+        fontWeight: (font['flags'] ?? 0) & 1 ? 'bold' : 'normal',
+        fontStyle: (font['flags'] ?? 0) & 2 ? 'italic' : 'normal',
+        color: color !== undefined ? obsColorToHex(color) : '#FFFFFF',
+        ...(obs['bk_opacity'] ? { backgroundColor: obsColorToHex(obs['bk_color'] ?? 0) } : {}),
+        ...(outline
+          ? { outlineColor: obsColorToHex(obs['outline_color'] ?? 0xff000000), outlineWidth: obs['outline_size'] ?? 2 }
+          : {}),
+        align: obs['align'] ?? 'left'
+      };
+    }
+    case SourceType.COLOR_SOURCE:
+      return {
+        color: obsColorToHex(obs['color'] ?? 0xffffffff),
+        width: obs['width'] ?? 1920,
+        height: obs['height'] ?? 1080
+      };
+    case SourceType.BROWSER:
+      return {
+        ...(obs['is_local_file'] ? { file: obs['local_file'] ?? '' } : { url: obs['url'] ?? '' }),
+        width: obs['width'] ?? 800,
+        height: obs['height'] ?? 600,
+        css: obs['css'] ?? '',
+        fps: obs['fps'] ?? 30,
+        routeAudio: obs['reroute_audio'] ?? false,
+        refreshWhenActive: obs['restart_when_active'] ?? false,
+        shutdownWhenHidden: obs['shutdown'] ?? false
+      };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Map the settings of an OBS filter onto the keys our filters read
+ */
+export function mapObsFilterSettings(type: FilterType, obs: SourceSettings = {}): SourceSettings {
+  switch (type) {
+    case FilterType.CHROMA_KEY: {
+      const keyType = obs['key_color_type'] ?? 'green';
+      return {
+        keyColor:
+          keyType === 'custom' ? obsColorToHex(obs['key_color'] ?? 0xff00ff00) : CHROMA_KEY_COLORS[keyType] ?? '#00FF00',
+        similarity: obs['similarity'] ?? 400,
+        smoothness: obs['smoothness'] ?? 80,
+        spillReduction: obs['spill'] ?? 100
+      };
+    }
+    case FilterType.COLOR_CORRECTION:
+      return {
+        gamma: obs['gamma'] ?? 0,
+        contrast: obs['contrast'] ?? 0,
+        brightness: obs['brightness'] ?? 0,
+        saturation: obs['saturation'] ?? 0,
+        hueShift: obs['hue_shift'] ?? 0
+      };
+    case FilterType.SHARPEN:
+      return { amount: obs['sharpness'] ?? 0.08 };
+    case FilterType.LUT:
+      return { lutFile: obs['image_path'] ?? '', amount: obs['clut_amount'] ?? 1 };
+    case FilterType.MASK:
+      return {
+        imagePath: obs['image_path'] ?? '',
+        type: String(obs['type'] ?? '').includes('alpha') ? 'alpha' : 'luma'
+      };
+    case FilterType.SCALING: {
+      const resolution = obs['resolution'];
+      return {
+        resolution: /^\d+x\d+$/.test(resolution ?? '') ? resolution : 'source',
+        filter: obs['sampling'] ?? 'bicubic'
+      };
+    }
+    case FilterType.SCROLL:
+      return { horizontal: obs['speed_x'] ?? 0, vertical: obs['speed_y'] ?? 0, loop: obs['loop'] ?? true };
+    case FilterType.RENDER_DELAY:
+      return { delayMs: obs['delay_ms'] ?? 0 };
+    case FilterType.NOISE_SUPPRESSION:
+      return { level: obs['suppress_level'] ?? -30 };
+    case FilterType.NOISE_GATE:
+      return {
+        threshold: obs['close_threshold'] ?? -32,
+        attack: obs['attack_time'] ?? 25,
+        hold: obs['hold_time'] ?? 200,
+        release: obs['release_time'] ?? 150
+      };
+    case FilterType.COMPRESSOR:
+      return {
+        threshold: obs['threshold'] ?? -18,
+        ratio: obs['ratio'] ?? 10,
+        attack: obs['attack_time'] ?? 6,
+        release: obs['release_time'] ?? 60,
+        outputGain: obs['output_gain'] ?? 0
+      };
+    case FilterType.GAIN:
+      return { db: obs['db'] ?? 0 };
+    case FilterType.LIMITER:
+      return { threshold: obs['threshold'] ?? -6, release: obs['release_time'] ?? 60 };
+    case FilterType.EXPANDER:
+      return {
+        ratio: obs['ratio'] ?? 2,
+        threshold: obs['threshold'] ?? -40,
+        attack: obs['attack_time'] ?? 10,
+        release: obs['release_time'] ?? 50
+      };
+    case FilterType.VST:
+      return { plugin: obs['plugin_path'] ?? '', preset: '' };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Convert an OBS scene collection. Every import gets fresh IDs, so the same
+ * file can be imported more than once.
+ */
+export function importObsSceneCollection(data: ObsSceneCollection): ObsImportResult {
+  if (!isObsSceneCollection(data)) {
+    throw new Error('Not an OBS scene collection');
+  }
+
+  const warnings: string[] = [];
+  const obsSources = [...data.sources, ...(data.groups ?? [])];
+  const byUuid = new Map(obsSources.filter(obs => obs.uuid).map(obs => [obs.uuid as string, obs]));
+  const byName = new Map(obsSources.map(obs => [obs.name, obs]));
+  const findObsSource = (item: ObsSceneItem) =>
+    (item.source_uuid ? byUuid.get(item.source_uuid) : undefined) ?? byName.get(item.name) ?? null;
+
+  // Scenes in the order OBS lists them, then any it left out
+  const obsScenes = data.sources.filter(obs => obs.id === 'scene');
+  const order = (data.scene_order ?? []).map(entry => entry.name);
+  obsScenes.sort((a, b) => rank(order, a.name) - rank(order, b.name));
+
+  const sceneIds = new Map(obsScenes.map(obs => [obs, generateId()]));
+  const sceneIdsByName = new Map(obsScenes.map(obs => [obs.name, sceneIds.get(obs) as string]));
+  const sources = new Map<ObsSource, Source>();
+
+  const getSource = (obs: ObsSource): Source | null => {
+    const existing = sources.get(obs);
+    if (existing) return existing;
+
+    const type = mapObsSourceKind(obs.id);
+    if (!type) {
+      warnings.push(`Source "${obs.name}" of kind "${obs.id}" is not supported and was skipped`);
+      return null;
+    }
+
+    if (type === SourceType.VIDEO_CAPTURE) {
+      warnings.push(`Select the capture device for "${obs.name}" again`);
+    }
+    if (type === SourceType.BROWSER && obs.settings?.['is_local_file']) {
+      warnings.push(`Pick the local file for "${obs.name}" again`);
+    }
+
+    const source: Source = {
+      id: generateId(),
+      name: obs.name,
+      type,
+      enabled: obs.enabled ?? true,
+      settings:
+        type === SourceType.SCENE
+          ? { sceneId: sceneIdsByName.get(obs.name) }
+          : mapObsSourceSettings(type, obs.settings),
+      filters: mapFilters(obs, warnings),
+      volume: Math.min(1, Math.max(0, obs.volume ?? 1)),
+      muted: obs.muted ?? false
+    };
+    if (obs.sync) {
+      source.syncOffset = Math.max(-MAX_SYNC_OFFSET_MS, Math.min(MAX_SYNC_OFFSET_MS, Math.round(obs.sync / 1e6)));
+    }
+    sources.set(obs, source);
+    return source;
+  };
+
+  const mapItems = (items: ObsSceneItem[], groupId?: string): SceneItem[] =>
+    items.flatMap((obsItem, index) => {
+      const obs = findObsSource(obsItem);
+      if (!obs) {
+        warnings.push(`Scene item "${obsItem.name}" refers to a missing source and was skipped`);
+        return [];
+      }
+
+      const source = getSource(obs);
+      if (!source) return [];
+
+      const item: SceneItem = {
+        id: generateId(),
+        sourceId: source.id,
+        transform: mapObsTransform(obsItem),
+        order: index,
+        visible: obsItem.visible ?? true,
+        locked: obsItem.locked ?? false,
+        groupId
+      };
+
+      // Group children are listed on the group, relative to it
+      const children = source.type === SourceType.GROUP && !groupId ? obsItems(obs) : [];
+      return [item, ...mapItems(children, item.id)];
+    });
+
+  const scenes = obsScenes.map((obs): Scene => ({
+    id: sceneIds.get(obs) as string,
+    name: obs.name,
+    sources: mapItems(obsItems(obs)),
+    enabled: true,
+    locked: false
+  }));
+
+  // Sources outside any scene, such as global audio devices, stay available
+  const globalAudio = Object.entries(data)
+    .filter(([key, value]) => /^(DesktopAudioDevice|AuxAudioDevice)\d+$/.test(key) && value)
+    .map(([, value]) => value as ObsSource);
+  [...data.sources, ...globalAudio]
+    .filter(obs => obs.id !== 'scene' && !sources.has(obs))
+    .forEach(obs => getSource(obs));
+
+  const currentScene = data.current_program_scene ?? data.current_scene;
+  const collection: SceneCollection = {
+    id: generateId(),
+    name: data.name ?? 'OBS Import',
+    scenes,
+    activeSceneId: sceneIdsByName.get(currentScene ?? '') ?? scenes[0]?.id ?? ''
+  };
+
+  return {
+    collections: [collection],
+    sources: Array.from(sources.values()),
+    warnings
+  };
+}
+
+function mapFilters(obs: ObsSource, warnings: string[]): Filter[] {
+  return (obs.filters ?? []).flatMap(obsFilter => {
+    const type = mapObsFilterKind(obsFilter.id);
+    if (!type) {
+      warnings.push(`Filter "${obsFilter.name}" on "${obs.name}" of kind "${obsFilter.id}" is not supported and was skipped`);
+      return [];
+    }
+
+    return [
+      {
+        id: generateId(),
+        name: obsFilter.name,
+        type,
+        enabled: obsFilter.enabled ?? true,
+        settings: mapObsFilterSettings(type, obsFilter.settings)
+      }
+    ];
+  });
+}
+
+function obsItems(obs: ObsSource): ObsSceneItem[] {
+  return Array.isArray(obs.settings?.['items']) ? obs.settings['items'] : [];
+}
+
+function rank(order: string[], name: string): number {
+  const index = order.indexOf(name);
+  return index === -1 ? order.length : index;
+}
+
+function generateId(): string {
+  return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
@@ -0,0 +1,266 @@
+import { Injectable, signal, computed } from '@angular/core';
+import { SceneService } from './scene.service';
+import { CompositorService } from './compositor.service';
+import { SettingsService } from './settings.service';
+import { AudioService } from './audio.service';
+import { TransitionService } from './transition.service';
+import { VideoSettings } from '../models/settings.model';
+
+/**
+ * Program Output Service
+ * Composites the program scene into an offscreen canvas and exposes it, together
+ * with the mixed audio bus, as the single MediaStream used by recording, the
+ * replay buffer, streaming destinations and the virtual camera.
+ */
+
+// Posts a message every interval. Browsers throttle timers of hidden pages to
+// 1 Hz or less, but not those of dedicated workers.
+const FRAME_TICKER_SOURCE =
+  'let id; onmessage = e => { clearInterval(id); id = setInterval(() => postMessage(0), e.data); };';
+
+export type ProgramOutputConsumer = 'recording' | 'replay-buffer' | 'streaming' | 'virtual-camera' | 'whep' | string;
+
+/**
+ * Keyframe interval for recorders that consumers cut or join mid-stream, in ms
+ */
+export const PROGRAM_KEYFRAME_INTERVAL = 1000;
+
+/**
+ * MediaRecorder options, with the keyframe interval Chromium supports
+ */
+export interface ProgramRecorderOptions extends MediaRecorderOptions {
+  videoKeyFrameIntervalDuration?: number; // ms
+}
+
+export interface ProgramOutputStats {
+  frameCount: number;
+  droppedFrames: number;
+  fps: number;
+  renderTime: number; // ms, last frame
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ProgramOutputService {
+  private consumersSignal = signal<ProgramOutputConsumer[]>([]);
+  private statsSignal = signal<ProgramOutputStats>({
+    frameCount: 0,
+    droppedFrames: 0,
+    fps: 0,
+    renderTime: 0
+  });
+  private resolutionSignal = signal<{ width: number; height: number }>({
+    width: 1920,
+    height: 1080
+  });
+
+  // Public readonly signals
+  public readonly consumers = this.consumersSignal.asReadonly();
+  public readonly stats = this.statsSignal.asReadonly();
+  public readonly resolution = this.resolutionSignal.asReadonly();
+  public readonly isActive = computed(() => this.consumersSignal().length > 0);
+
+  private canvas: HTMLCanvasElement | null = null;
+  private stream: MediaStream | null = null;
+  private renderIntervalId: number | null = null;
+  private frameTicker: { worker: Worker; url: string } | null = null;
+  private lastFrameTime = 0;
+  private fpsWindowStart = 0;
+  private fpsWindowFrames = 0;
+  private videoSettings: VideoSettings | null = null;
+
+  constructor(
+    private sceneService: SceneService,
+    private compositor: CompositorService,
+    private settingsService: SettingsService,
+    private audioService: AudioService,
+    private transitionService: TransitionService
+  ) {
+    this.settingsService.settings$.subscribe(settings => {
+      const previous = this.videoSettings;
+      this.videoSettings = settings.video;
+
+      if (
+        this.canvas &&
+        previous &&
+        (previous.outputResolution.width !== settings.video.outputResolution.width ||
+          previous.outputResolution.height !== settings.video.outputResolution.height ||
+          previous.fps !== settings.video.fps)
+      ) {
+        this.restartRenderLoop();
+      }
+    });
+  }
+
+  /**
+   * Get the program stream for a consumer, starting the output if needed
+   */
+  acquire(consumer: ProgramOutputConsumer): MediaStream {
+    const stream = this.stream ?? this.start();
+
+    if (!this.consumersSignal().includes(consumer)) {
+      this.consumersSignal.update(consumers => [...consumers, consumer]);
+    }
+
+    return stream;
+  }
+
+  /**
+   * Release a consumer; the output stops once nobody uses it
+   */
+  release(consumer: ProgramOutputConsumer): void {
+    this.consumersSignal.update(consumers => consumers.filter(c => c !== consumer));
+
+    if (this.consumersSignal().length === 0) {
+      this.stop();
+    }
+  }
+
+  /**
+   * Get the program stream if the output is running
+   */
+  getStream(): MediaStream | null {
+    return this.stream;
+  }
+
+  /**
+   * Get the program canvas if the output is running
+   */
+  getCanvas(): HTMLCanvasElement | null {
+    return this.canvas;
+  }
+
+  /**
+   * Start compositing and capturing the program output
+   */
+  private start(): MediaStream {
+    const canvas = document.createElement('canvas');
+    if (typeof canvas.captureStream !== 'function') {
+      throw new Error('Canvas capture is not supported in this environment');
+    }
+
+    this.canvas = canvas;
+    this.applyResolution();
+    this.startRenderLoop();
+
+    const fps = this.videoSettings?.fps ?? 60;
+    const videoTracks = canvas.captureStream(fps).getVideoTracks();
+    const audioTracks = this.audioService.getProgramAudioStream()?.getAudioTracks() ?? [];
+
+    this.stream = new MediaStream([...videoTracks, ...audioTracks]);
+    this.statsSignal.set({ frameCount: 0, droppedFrames: 0, fps: 0, renderTime: 0 });
+
+    console.log('Program output started');
+    return this.stream;
+  }
+
+  /**
+   * Stop compositing and end the program stream
+   */
+  private stop(): void {
+    this.stopRenderLoop();
+
+    if (this.stream) {
+      // Audio tracks belong to the audio bus and stay alive
+      this.stream.getVideoTracks().forEach(track => track.stop());
+      this.stream = null;
+    }
+
+    this.canvas = null;
+    console.log('Program output stopped');
+  }
+
+  private applyResolution(): void {
+    if (!this.canvas) return;
+
+    const output = this.videoSettings?.outputResolution ?? { width: 1920, height: 1080 };
+    this.canvas.width = output.width;
+    this.canvas.height = output.height;
+    this.resolutionSignal.set({ ...output });
+  }
+
+  private startRenderLoop(): void {
+    const fps = this.videoSettings?.fps ?? 60;
+    const frameInterval = 1000 / fps;
+
+    this.lastFrameTime = performance.now();
+    this.fpsWindowStart = this.lastFrameTime;
+    this.fpsWindowFrames = 0;
+
+    // Ticks from a worker keep rendering at full rate while the studio window is hidden.
+    // Without workers, a hidden window renders about once a second.
+    if (typeof Worker === 'undefined') {
+      this.renderIntervalId = window.setInterval(() => this.renderFrame(frameInterval), frameInterval);
+      return;
+    }
+
+    const url = URL.createObjectURL(new Blob([FRAME_TICKER_SOURCE], { type: 'text/javascript' }));
+    const worker = new Worker(url);
+    worker.onmessage = () => this.renderFrame(frameInterval);
+    worker.postMessage(frameInterval);
+    this.frameTicker = { worker, url };
+  }
+
+  private stopRenderLoop(): void {
+    if (this.renderIntervalId !== null) {
+      clearInterval(this.renderIntervalId);
+      this.renderIntervalId = null;
+    }
+
+    if (this.frameTicker) {
+      this.frameTicker.worker.terminate();
+      URL.revokeObjectURL(this.frameTicker.url);
+      this.frameTicker = null;
+    }
+  }
+
+  private restartRenderLoop(): void {
+    this.stopRenderLoop();
+    this.applyResolution();
+    this.startRenderLoop();
+  }
+
+  private renderFrame(frameInterval: number): void {
+    const canvas = this.canvas;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const start = performance.now();
+
+    // Frames we could not render in time since the last tick count as dropped
+    const missed = Math.max(0, Math.round((start - this.lastFrameTime) / frameInterval) - 1);
+    this.lastFrameTime = start;
+
+    const base = this.videoSettings?.baseResolution ?? { width: canvas.width, height: canvas.height };
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    // Scenes are laid out in base resolution and scaled to the output resolution
+    ctx.setTransform(canvas.width / base.width, 0, 0, canvas.height / base.height, 0, 0);
+
+    const scene = this.sceneService.programScene();
+    if (!this.transitionService.render(ctx, base.width, base.height) && scene) {
+      this.compositor.renderScene(ctx, scene, base.width, base.height);
+    }
+
+    const end = performance.now();
+    this.fpsWindowFrames++;
+
+    let fps = this.statsSignal().fps;
+    if (end - this.fpsWindowStart >= 1000) {
+      fps = Math.round((this.fpsWindowFrames * 1000) / (end - this.fpsWindowStart));
+      this.fpsWindowStart = end;
+      this.fpsWindowFrames = 0;
+    }
+
+    this.statsSignal.update(stats => ({
+      frameCount: stats.frameCount + 1,
+      droppedFrames: stats.droppedFrames + missed,
+      fps,
+      renderTime: end - start
+    }));
+  }
+}
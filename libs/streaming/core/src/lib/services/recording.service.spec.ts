@@ -1,4 +1,5 @@
 import { TestBed, fakeAsync, tick, flush } from '@angular/core/testing';
+import { RecordingStore } from '@org/recording-engine';
 import { RecordingService } from './recording.service';
 import { RecordingFormat, VideoEncoder, AudioEncoder } from '../models/streaming.model';
 
@@ -441,31 +442,6 @@ describe('RecordingService', () => {
       const mimeType = (service as any).getMimeType(RecordingFormat.MKV);
       expect(mimeType).toBe('video/x-matroska');
     });
-
-    it('should fallback to WebM VP9 when format not supported', () => {
-      (MediaRecorder.isTypeSupported as jasmine.Spy).and.callFake((type: string) => {
-        return type.includes('webm') && type.includes('vp9');
-      });
-
-      const mimeType = (service as any).getMimeType(RecordingFormat.MP4);
-      expect(mimeType).toBe('video/webm;codecs=vp9');
-    });
-
-    it('should fallback to WebM VP8 when VP9 not supported', () => {
-      (MediaRecorder.isTypeSupported as jasmine.Spy).and.callFake((type: string) => {
-        return type.includes('webm') && type.includes('vp8');
-      });
-
-      const mimeType = (service as any).getMimeType(RecordingFormat.MP4);
-      expect(mimeType).toBe('video/webm;codecs=vp8');
-    });
-
-    it('should fallback to generic WebM when nothing else supported', () => {
-      (MediaRecorder.isTypeSupported as jasmine.Spy).and.returnValue(false);
-
-      const mimeType = (service as any).getMimeType(RecordingFormat.MP4);
-      expect(mimeType).toBe('video/webm');
-    });
   });
 
   describe('Cleanup', () => {
@@ -567,3 +543,101 @@ describe('RecordingService', () => {
     });
   });
 });
+
+describe('RecordingService formats', () => {
+  let service: RecordingService;
+
+  beforeEach(() => {
+    vi.stubGlobal('MediaRecorder', class {
+      static isTypeSupported = (type: string) => type !== '';
+    });
+    vi.spyOn(MediaRecorder, 'isTypeSupported');
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(RecordingService);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should record WebM VP9 for remuxing when MP4 is not supported', () => {
+    vi.mocked(MediaRecorder.isTypeSupported).mockImplementation((type: string) => type.includes('webm') && type.includes('vp9'));
+
+    expect(service['getMimeType'](RecordingFormat.MP4)).toBe('video/webm;codecs=vp9,opus');
+  });
+
+  it('should fail when only codecs MP4 cannot store are supported', () => {
+    vi.mocked(MediaRecorder.isTypeSupported).mockImplementation((type: string) => type.includes('webm') && type.includes('vp8'));
+
+    expect(() => service['getMimeType'](RecordingFormat.MP4)).toThrow('Recording mp4 is not supported by this browser');
+  });
+
+  it('should fail for formats that cannot be remuxed', () => {
+    vi.mocked(MediaRecorder.isTypeSupported).mockImplementation((type: string) => type.includes('webm'));
+
+    expect(() => service['getMimeType'](RecordingFormat.FLV)).toThrow(
+      'Recording format flv is not supported by this browser'
+    );
+  });
+});
+
+describe('RecordingService storage failures', () => {
+  let service: RecordingService;
+  let recorders: FakeRecorder[];
+
+  class FakeRecorder {
+    static isTypeSupported = () => true;
+    state: RecordingState = 'inactive';
+    ondataavailable: ((event: { data: Blob }) => void) | null = null;
+    onstop: (() => void) | null = null;
+    stop = vi.fn(() => {
+      this.state = 'inactive';
+      this.onstop?.();
+    });
+
+    constructor() {
+      recorders.push(this);
+    }
+
+    start(): void {
+      this.state = 'recording';
+    }
+  }
+
+  beforeEach(() => {
+    recorders = [];
+    vi.stubGlobal('MediaRecorder', FakeRecorder);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(RecordingStore.prototype, 'appendChunk').mockRejectedValue(new Error('Quota exceeded'));
+
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(RecordingService);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should stop and keep the recording as incomplete when a chunk cannot be stored', async () => {
+    const download = vi.spyOn(service as unknown as { downloadRecording: () => Promise<void> }, 'downloadRecording');
+    await service.startRecording({ getTracks: () => [] } as unknown as MediaStream);
+    const [recorder] = recorders;
+
+    recorder.ondataavailable?.({ data: new Blob(['frame']) });
+    recorder.ondataavailable?.({ data: new Blob(['frame']) });
+    await vi.waitFor(() => expect(service.orphanedRecordings()).toHaveLength(1));
+
+    expect(recorder.stop).toHaveBeenCalledTimes(1);
+    expect(service.isRecording()).toBe(false);
+    expect(service.recordingError()).toContain('could not be stored: Quota exceeded');
+    expect(service.orphanedRecordings()[0].incomplete).toContain('Quota exceeded');
+    // Only the first failed chunk was attempted, so what is stored has no gaps
+    expect(RecordingStore.prototype.appendChunk).toHaveBeenCalledTimes(1);
+    expect(download).not.toHaveBeenCalled();
+  });
+});
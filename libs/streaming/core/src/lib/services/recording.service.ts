@@ -1,11 +1,62 @@
 import { Injectable, signal, computed, effect } from '@angular/core';
+import {
+  ContainerFormat,
+  RecordingStore,
+  ReplayBuffer as ReplayFrameBuffer,
+  StoredRecording
+} from '@org/recording-engine';
 import {
   RecordingSettings,
   RecordingFormat,
   ReplayBuffer,
   VideoEncoder,
-  AudioEncoder
+  AudioEncoder,
+  AudioTrack
 } from '../models/streaming.model';
+import { AudioOutputSettings, ReplayBufferSettings } from '../models/settings.model';
+import { PROGRAM_KEYFRAME_INTERVAL, ProgramOutputService, ProgramRecorderOptions } from './program-output.service';
+import { AudioService } from './audio.service';
+import { SettingsService } from './settings.service';
+
+// Output settings define six audio tracks
+const MAX_AUDIO_TRACKS = 6;
+// Chunk interval of the replay buffer recorder, in ms
+const REPLAY_TIMESLICE = 500;
+// Replay memory cap as a multiple of the configured bitrate over the buffer
+// duration; leaves room for encoder overshoot and post-roll
+const REPLAY_BYTE_HEADROOM = 3;
+
+// Formats a WebM recording can be remuxed into
+const REMUX_FORMATS: Partial<Record<RecordingFormat, ContainerFormat>> = {
+  [RecordingFormat.MP4]: 'mp4',
+  [RecordingFormat.MKV]: 'mkv'
+};
+
+// WebM types whose codecs can be stored in MP4
+const MP4_COMPATIBLE_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=av1,opus'];
+
+/**
+ * A recorder for one additional audio track of a multitrack recording
+ */
+interface TrackRecorder {
+  recorder: MediaRecorder;
+  busId: string;
+  stopped: Promise<void>;
+}
+
+/**
+ * Recorders of one recording and the stored recording they write to
+ */
+interface RecordingOutput {
+  recording: StoredRecording;
+  trackRecorders: TrackRecorder[];
+  busIds: string[];
+  /** Pending writes to the recording store, in order */
+  writes: Promise<void>;
+  chunkCounts: Map<string, number>;
+  /** First failed write; later writes are skipped so the stored data has no gaps */
+  writeError?: Error;
+}
 
 @Injectable({
   providedIn: 'root'
@@ -33,7 +84,8 @@ export class RecordingService {
   });
   private currentRecordingPathSignal = signal<string | null>(null);
   private recordingStartTimeSignal = signal<Date | null>(null);
-  private recordedChunksSignal = signal<Blob[]>([]);
+  private orphanedRecordingsSignal = signal<StoredRecording[]>([]);
+  private recordingErrorSignal = signal<string | null>(null);
 
   // Public readonly signals
   public readonly isRecording = this.isRecordingSignal.asReadonly();
@@ -43,6 +95,8 @@ export class RecordingService {
   public readonly replayBuffer = this.replayBufferSignal.asReadonly();
   public readonly currentRecordingPath = this.currentRecordingPathSignal.asReadonly();
   public readonly recordingStartTime = this.recordingStartTimeSignal.asReadonly();
+  public readonly orphanedRecordings = this.orphanedRecordingsSignal.asReadonly();
+  public readonly recordingError = this.recordingErrorSignal.asReadonly();
 
   // Computed signals
   public readonly recordingDuration = computed(() => {
@@ -61,10 +115,32 @@ export class RecordingService {
 
   private mediaRecorder: MediaRecorder | null = null;
   private mediaStream: MediaStream | null = null;
-  private replayBufferData: Blob[] = [];
-  private replayBufferInterval: number | null = null;
+  private usesProgramOutput = false;
+  private replayRecorder: MediaRecorder | null = null;
+  private replayFrames: ReplayFrameBuffer | null = null;
+  private replayChunks: Promise<void> = Promise.resolve();
+  private replayBufferSettings: ReplayBufferSettings | null = null;
+  private output: RecordingOutput | null = null;
+  private outputCount = 0;
+  private recordingStore = new RecordingStore();
+  private activeRecordingIds = new Set<string>();
+  private audioOutputSettings: AudioOutputSettings | null = null;
+
+  constructor(
+    private programOutput: ProgramOutputService,
+    private audioService: AudioService,
+    private settingsService: SettingsService
+  ) {
+    this.settingsService.settings$.subscribe(settings => {
+      this.audioOutputSettings = settings.output.audio;
+      this.replayBufferSettings = settings.output.replayBuffer;
+    });
+
+    // Offer recordings left behind by a crash or closed tab
+    this.loadOrphanedRecordings().catch(error => {
+      console.error('Failed to look for unfinished recordings:', error);
+    });
 
-  constructor() {
     // Auto-cleanup
     effect((onCleanup) => {
       onCleanup(() => {
@@ -81,45 +157,67 @@ export class RecordingService {
       throw new Error('Already recording');
     }
 
-    // Get or use provided media stream
-    this.mediaStream = stream || await this.getDisplayMedia();
+    // Record the program output unless a stream is provided
+    this.usesProgramOutput = !stream;
+    this.mediaStream = stream || this.programOutput.acquire('recording');
 
     const settings = this.recordingSettingsSignal();
+    const multitrack = settings.multitrack && settings.tracks.length > 0;
     const filename = this.generateFilename(settings.filename);
     const fullPath = `${settings.path}/${filename}.${settings.format}`;
 
-    // Determine MIME type based on format
-    const mimeType = this.getMimeType(settings.format);
-
-    // Create MediaRecorder
-    const options: MediaRecorderOptions = {
-      mimeType,
-      videoBitsPerSecond: settings.videoBitrate * 1000,
-      audioBitsPerSecond: settings.audioBitrate * 1000
+    const output: RecordingOutput = {
+      recording: {
+        id: this.generateId(),
+        filename: `${filename}.${settings.format}`,
+        mimeType: '',
+        remuxFormat: null,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        size: 0,
+        parts: [{ id: 'main' }]
+      },
+      trackRecorders: [],
+      busIds: [],
+      writes: Promise.resolve(),
+      chunkCounts: new Map()
     };
 
-    this.mediaRecorder = new MediaRecorder(this.mediaStream, options);
-    this.recordedChunksSignal.set([]);
+    try {
+      this.mediaRecorder = multitrack
+        ? this.createMultitrackRecorders(this.mediaStream, settings, output)
+        : this.createRecorder(this.mediaStream, settings, output);
+    } catch (error) {
+      this.removeTrackOutputs(output);
+      this.releaseProgramOutput();
+      throw error;
+    }
+    this.output = output;
+    this.activeRecordingIds.add(output.recording.id);
+
+    // Chunks go to the recording store as they arrive
+    const recording = { ...output.recording };
+    this.persist(output, () => this.recordingStore.create(recording));
 
     // Handle data available
     this.mediaRecorder.ondataavailable = (event) => {
       if (event.data && event.data.size > 0) {
-        this.recordedChunksSignal.update(chunks => [...chunks, event.data]);
-
-        // Update replay buffer if enabled
-        if (this.replayBufferSignal().enabled) {
-          this.updateReplayBuffer(event.data);
-        }
+        this.persistChunk(output, 'main', event.data);
       }
     };
 
     // Handle stop
     this.mediaRecorder.onstop = () => {
-      this.finalizeRecording(fullPath);
+      this.finalizeRecording(output);
+    };
+
+    this.mediaRecorder.onstart = () => {
+      this.setPartStart(output, 'main');
     };
 
     // Start recording
     this.mediaRecorder.start(1000); // Capture in 1-second chunks
+    output.trackRecorders.forEach(track => track.recorder.start(1000));
 
     this.isRecordingSignal.set(true);
     this.recordingStartTimeSignal.set(new Date());
@@ -142,10 +240,12 @@ export class RecordingService {
     if (this.mediaRecorder && this.mediaRecorder.state !== 'inactive') {
       this.mediaRecorder.stop();
     }
+    this.stopTrackRecorders();
 
     this.isRecordingSignal.set(false);
     this.isPausedSignal.set(false);
     this.recordingStartTimeSignal.set(null);
+    this.releaseProgramOutput();
 
     console.log(`Stopped recording: ${recordingPath}`);
     return recordingPath;
@@ -161,6 +261,7 @@ export class RecordingService {
 
     if (this.mediaRecorder && this.mediaRecorder.state === 'recording') {
       this.mediaRecorder.pause();
+      this.output?.trackRecorders.forEach(track => track.recorder.pause());
       this.isPausedSignal.set(true);
       console.log('Recording paused');
     }
@@ -176,6 +277,7 @@ export class RecordingService {
 
     if (this.mediaRecorder && this.mediaRecorder.state === 'paused') {
       this.mediaRecorder.resume();
+      this.output?.trackRecorders.forEach(track => track.recorder.resume());
       this.isPausedSignal.set(false);
       console.log('Recording resumed');
     }
@@ -192,16 +294,25 @@ export class RecordingService {
   }
 
   /**
-   * Enable replay buffer
+   * Enable replay buffer. It records the program output on its own,
+   * independent of recording and streaming.
    */
-  enableReplayBuffer(duration: number): void {
+  enableReplayBuffer(duration = this.replayBufferSettings?.duration ?? 30): void {
     this.replayBufferSignal.set({
       enabled: true,
       duration
     });
 
-    // Start buffer cleanup interval
-    this.startReplayBufferCleanup();
+    if (this.replayFrames) {
+      this.replayFrames.setDuration(duration * 1000, this.replayByteCap(duration));
+    } else {
+      try {
+        this.startReplayCapture(duration);
+      } catch (error) {
+        this.replayBufferSignal.set({ enabled: false, duration: 0 });
+        throw error;
+      }
+    }
 
     console.log(`Replay buffer enabled: ${duration} seconds`);
   }
@@ -215,37 +326,35 @@ export class RecordingService {
       duration: 0
     });
 
-    this.stopReplayBufferCleanup();
-    this.replayBufferData = [];
+    this.stopReplayCapture();
 
     console.log('Replay buffer disabled');
   }
 
   /**
-   * Save replay buffer
+   * Save replay buffer, optionally including `postRoll` seconds after now.
+   * The clip starts on the keyframe at or before the buffer start.
    */
-  async saveReplayBuffer(): Promise<string> {
+  async saveReplayBuffer(postRoll = 0): Promise<string> {
     const replayBuffer = this.replayBufferSignal();
 
-    if (!replayBuffer.enabled) {
+    if (!replayBuffer.enabled || !this.replayFrames) {
       throw new Error('Replay buffer is not enabled');
     }
 
-    if (this.replayBufferData.length === 0) {
-      throw new Error('Replay buffer is empty');
-    }
+    // Include chunks that are still being read
+    await this.replayChunks;
+    const blob = await this.replayFrames.saveClip(postRoll * 1000);
 
     const settings = this.recordingSettingsSignal();
-    const filename = `replay-${this.generateFilename(settings.filename)}`;
-    const fullPath = `${settings.path}/${filename}.${settings.format}`;
-
-    // Create blob from replay buffer
-    const blob = new Blob(this.replayBufferData, {
-      type: this.getMimeType(settings.format)
-    });
+    const prefix = this.replayBufferSettings?.prefix || 'replay';
+    const suffix = this.replayBufferSettings?.suffix ? `-${this.replayBufferSettings.suffix}` : '';
+    const filename = `${prefix}-${this.generateFilename(settings.filename)}${suffix}`;
+    const extension = blob.type === 'video/webm' ? 'webm' : RecordingFormat.MKV;
+    const fullPath = `${settings.path}/${filename}.${extension}`;
 
     // Download the replay
-    await this.downloadRecording(blob, `${filename}.${settings.format}`);
+    await this.downloadRecording(blob, `${filename}.${extension}`);
 
     console.log(`Saved replay buffer to: ${fullPath}`);
     return fullPath;
@@ -255,37 +364,245 @@ export class RecordingService {
    * Split recording into chunks
    */
   async splitRecording(): Promise<void> {
-    if (!this.isRecordingSignal()) {
+    const stream = this.mediaStream;
+    if (!this.isRecordingSignal() || !stream) {
       throw new Error('Not currently recording');
     }
 
     const currentPath = this.currentRecordingPathSignal();
     console.log(`Splitting recording at: ${currentPath}`);
 
+    const usesProgramOutput = this.usesProgramOutput;
+
+    // Keep the program output running across the split
+    this.usesProgramOutput = false;
+
     // Stop current recording and start new one
     await this.stopRecording();
-    await this.startRecording(this.mediaStream!);
+    await this.startRecording(stream);
+    this.usesProgramOutput = usesProgramOutput;
   }
 
   /**
-   * Get display media stream
+   * Release the program output if this recording was using it
    */
-  private async getDisplayMedia(): Promise<MediaStream> {
-    try {
-      const stream = await navigator.mediaDevices.getDisplayMedia({
-        video: {
-          width: { ideal: 1920 },
-          height: { ideal: 1080 },
-          frameRate: { ideal: 60 }
-        },
-        audio: true
+  private releaseProgramOutput(): void {
+    if (this.usesProgramOutput) {
+      this.programOutput.release('recording');
+      this.usesProgramOutput = false;
+      this.mediaStream = null;
+    }
+  }
+
+  /**
+   * Set up a single-track recording, in WebM if the browser cannot record
+   * the format directly
+   */
+  private createRecorder(stream: MediaStream, settings: RecordingSettings, output: RecordingOutput): MediaRecorder {
+    const mimeType = this.getMimeType(settings.format);
+    output.recording.mimeType = mimeType;
+    if (mimeType.startsWith('video/webm')) {
+      output.recording.remuxFormat = this.getRemuxFormat(settings.format);
+    }
+
+    return new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: settings.videoBitrate * 1000,
+      audioBitsPerSecond: settings.audioBitrate * 1000
+    });
+  }
+
+  /**
+   * Set up a multitrack recording. Browsers record one audio track per
+   * MediaRecorder, so the main recorder takes the video and the first audio
+   * track, and every other track gets an audio-only recorder. The parts are
+   * merged into one file when the recording stops.
+   */
+  private createMultitrackRecorders(
+    stream: MediaStream,
+    settings: RecordingSettings,
+    output: RecordingOutput
+  ): MediaRecorder {
+    const remuxFormat = this.getRemuxFormat(settings.format);
+    output.recording.remuxFormat = remuxFormat;
+
+    let tracks = settings.tracks;
+    if (tracks.length > MAX_AUDIO_TRACKS) {
+      console.warn(`Only the first ${MAX_AUDIO_TRACKS} audio tracks are recorded`);
+      tracks = tracks.slice(0, MAX_AUDIO_TRACKS);
+    }
+
+    const busPrefix = `recording-${++this.outputCount}`;
+    const outputs = tracks.map((track, index) => {
+      const trackOutput = this.createTrackOutput(track, index + 1, `${busPrefix}-track-${index + 1}`, settings);
+      output.busIds.push(trackOutput.busId);
+      return trackOutput;
+    });
+
+    output.recording.parts = [
+      { id: 'main', audioName: outputs[0].name },
+      ...outputs.slice(1).map((trackOutput, index) => ({
+        id: `track-${index + 2}`,
+        kind: 'audio' as const,
+        audioName: trackOutput.name
+      }))
+    ];
+    const mainStream = new MediaStream([
+      ...stream.getVideoTracks(),
+      ...outputs[0].stream.getAudioTracks()
+    ]);
+    output.recording.mimeType = this.getWebmMimeType(remuxFormat);
+    const recorder = new MediaRecorder(mainStream, {
+      mimeType: output.recording.mimeType,
+      videoBitsPerSecond: settings.videoBitrate * 1000,
+      audioBitsPerSecond: outputs[0].bitrate * 1000
+    });
+
+    output.trackRecorders = outputs.slice(1).map((trackOutput, index) => {
+      const partId = `track-${index + 2}`;
+      const trackRecorder = new MediaRecorder(trackOutput.stream, {
+        mimeType: 'audio/webm;codecs=opus',
+        audioBitsPerSecond: trackOutput.bitrate * 1000
       });
 
-      return stream;
-    } catch (error) {
-      console.error('Failed to get display media:', error);
-      throw new Error('Failed to access screen/window capture');
+      trackRecorder.onstart = () => {
+        this.setPartStart(output, partId);
+      };
+      trackRecorder.ondataavailable = event => {
+        if (event.data && event.data.size > 0) {
+          this.persistChunk(output, partId, event.data);
+        }
+      };
+
+      return {
+        recorder: trackRecorder,
+        busId: trackOutput.busId,
+        stopped: new Promise<void>(resolve => {
+          trackRecorder.onstop = () => resolve();
+        })
+      };
+    });
+
+    return recorder;
+  }
+
+  /**
+   * Render one recording track from its sources, named and encoded per the
+   * audio output settings of that track number
+   */
+  private createTrackOutput(
+    track: AudioTrack,
+    trackNumber: number,
+    busId: string,
+    settings: RecordingSettings
+  ): { busId: string; stream: MediaStream; name: string; bitrate: number } {
+    const stream = this.audioService.createOutputBus(busId, track.sourceIds);
+    if (!stream) {
+      throw new Error('Multitrack recording requires Web Audio support');
+    }
+
+    const output = this.audioOutputSettings;
+    const name = output?.[`track${trackNumber}Name` as keyof AudioOutputSettings];
+    const bitrate = output?.[`track${trackNumber}Bitrate` as keyof AudioOutputSettings];
+
+    return {
+      busId,
+      stream,
+      name: (name as string | undefined) || track.name,
+      bitrate: (bitrate as number | undefined) ?? settings.audioBitrate
+    };
+  }
+
+  private stopTrackRecorders(): void {
+    this.output?.trackRecorders.forEach(track => {
+      if (track.recorder.state !== 'inactive') {
+        track.recorder.stop();
+      }
+    });
+  }
+
+  /**
+   * Remove the audio buses rendered for multitrack recording
+   */
+  private removeTrackOutputs(output: RecordingOutput): void {
+    output.busIds.forEach(busId => this.audioService.removeOutputBus(busId));
+    output.busIds = [];
+  }
+
+  /**
+   * Queue a write to the recording store after the previous ones
+   */
+  private persist(output: RecordingOutput, write: () => Promise<void>): void {
+    output.writes = output.writes
+      .then(() => (output.writeError ? undefined : write()))
+      .catch(error => this.handleWriteError(output, error as Error));
+  }
+
+  /**
+   * Stop a recording that can no longer be stored (e.g. the storage quota is
+   * used up) and mark it incomplete, so it is not finalized as if whole
+   */
+  private async handleWriteError(output: RecordingOutput, error: Error): Promise<void> {
+    if (output.writeError) return;
+    output.writeError = error;
+    console.error('Failed to store recording data:', error);
+
+    const reason = `Recording stopped because it could not be stored: ${error.message}`;
+    output.recording.incomplete = reason;
+    this.recordingErrorSignal.set(`${output.recording.filename}: ${reason}`);
+
+    if (this.output === output && this.isRecordingSignal()) {
+      await this.stopRecording().catch(stopError => console.error('Failed to stop recording:', stopError));
+    }
+
+    await this.recordingStore.update(output.recording.id, { incomplete: reason }).catch(updateError => {
+      console.error('Failed to mark recording as incomplete:', updateError);
+    });
+  }
+
+  private persistChunk(output: RecordingOutput, partId: string, data: Blob): void {
+    const index = output.chunkCounts.get(partId) ?? 0;
+    output.chunkCounts.set(partId, index + 1);
+    this.persist(output, () => this.recordingStore.appendChunk(output.recording.id, partId, index, data));
+  }
+
+  /**
+   * Store when a part's recorder started, to align the parts when merging
+   */
+  private setPartStart(output: RecordingOutput, partId: string): void {
+    const parts = output.recording.parts.map(part =>
+      part.id === partId ? { ...part, startedAt: performance.now() } : part
+    );
+    output.recording.parts = parts;
+    this.persist(output, () => this.recordingStore.update(output.recording.id, { parts }));
+  }
+
+  /**
+   * Pick a WebM type to record, with codecs the target container can store
+   */
+  private getWebmMimeType(target?: ContainerFormat | null): string {
+    const candidates =
+      target === 'mp4'
+        ? MP4_COMPATIBLE_TYPES
+        : ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+    const mimeType = candidates.find(type => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) {
+      throw new Error(`Recording ${target ?? 'webm'} is not supported by this browser`);
+    }
+    return mimeType;
+  }
+
+  /**
+   * Container to remux WebM into for a format; throws for formats that
+   * cannot be produced that way
+   */
+  private getRemuxFormat(format: RecordingFormat): ContainerFormat {
+    const target = REMUX_FORMATS[format];
+    if (!target) {
+      throw new Error(`Recording format ${format} is not supported by this browser`);
     }
+    return target;
   }
 
   /**
@@ -300,48 +617,101 @@ export class RecordingService {
       [RecordingFormat.TS]: 'video/mp2t'
     };
 
-    // Fallback to WebM if format not supported
     const preferredType = mimeTypes[format];
     if (MediaRecorder.isTypeSupported(preferredType)) {
       return preferredType;
     }
 
-    // Try WebM as fallback
-    if (MediaRecorder.isTypeSupported('video/webm;codecs=vp9')) {
-      console.warn(`Format ${format} not supported, using WebM VP9`);
-      return 'video/webm;codecs=vp9';
+    // Record WebM and remux it into the format when the recording stops
+    const webmType = this.getWebmMimeType(this.getRemuxFormat(format));
+    console.log(`Format ${format} not supported by MediaRecorder, recording ${webmType} for remuxing`);
+    return webmType;
+  }
+
+  /**
+   * Finalize recording and download
+   */
+  private async finalizeRecording(output: RecordingOutput): Promise<void> {
+    let failed = false;
+    try {
+      await Promise.all(output.trackRecorders.map(track => track.stopped));
+      await output.writes;
+      // What was stored before the failure stays recoverable from the list
+      if (output.writeError) {
+        failed = true;
+      } else {
+        await this.saveStoredRecording(output.recording.id);
+      }
+    } catch (error) {
+      failed = true;
+      console.error('Failed to finalize recording:', error);
+      this.recordingErrorSignal.set(`Failed to save ${output.recording.filename}: ${(error as Error).message}`);
+    } finally {
+      this.removeTrackOutputs(output);
+      this.activeRecordingIds.delete(output.recording.id);
     }
 
-    if (MediaRecorder.isTypeSupported('video/webm;codecs=vp8')) {
-      console.warn(`Format ${format} not supported, using WebM VP8`);
-      return 'video/webm;codecs=vp8';
+    this.currentRecordingPathSignal.set(null);
+
+    // The recording stays stored, so it can be recovered from the list
+    if (failed) {
+      await this.loadOrphanedRecordings().catch(error => {
+        console.error('Failed to look for unfinished recordings:', error);
+      });
     }
+  }
 
-    console.warn(`Format ${format} not supported, using default`);
-    return 'video/webm';
+  clearRecordingError(): void {
+    this.recordingErrorSignal.set(null);
   }
 
   /**
-   * Finalize recording and download
+   * Find recordings that were never finalized, e.g. after a crash
    */
-  private async finalizeRecording(path: string): Promise<void> {
-    const chunks = this.recordedChunksSignal();
-    if (chunks.length === 0) {
-      console.warn('No recorded data to save');
-      return;
-    }
+  async loadOrphanedRecordings(): Promise<StoredRecording[]> {
+    const recordings = (await this.recordingStore.list()).filter(
+      recording => !this.activeRecordingIds.has(recording.id)
+    );
+    this.orphanedRecordingsSignal.set(recordings);
+    return recordings;
+  }
 
-    const settings = this.recordingSettingsSignal();
-    const blob = new Blob(chunks, {
-      type: this.getMimeType(settings.format)
-    });
+  /**
+   * Finalize and download a recording left behind by a previous session
+   */
+  async recoverRecording(id: string): Promise<string> {
+    const filename = await this.saveStoredRecording(id);
+    this.orphanedRecordingsSignal.update(recordings => recordings.filter(r => r.id !== id));
+    return filename;
+  }
 
-    // Download the recording
-    const filename = path.split('/').pop() || 'recording';
-    await this.downloadRecording(blob, filename);
+  /**
+   * Delete a recording left behind by a previous session
+   */
+  async discardRecording(id: string): Promise<void> {
+    await this.recordingStore.delete(id);
+    this.orphanedRecordingsSignal.update(recordings => recordings.filter(r => r.id !== id));
+  }
 
-    this.recordedChunksSignal.set([]);
-    this.currentRecordingPathSignal.set(null);
+  /**
+   * Assemble a stored recording into its final file, download it and remove
+   * it from the store. If it cannot be written in its format it stays stored.
+   */
+  private async saveStoredRecording(id: string): Promise<string> {
+    const recording = await this.recordingStore.get(id);
+    if (!recording) {
+      throw new Error('Recording not found');
+    }
+
+    if (recording.size === 0) {
+      console.warn('No recorded data to save');
+    } else {
+      const blob = await this.recordingStore.assemble(recording);
+      await this.downloadRecording(blob, recording.filename);
+    }
+
+    await this.recordingStore.delete(id);
+    return recording.filename;
   }
 
   /**
@@ -364,41 +734,75 @@ export class RecordingService {
   }
 
   /**
-   * Update replay buffer
+   * Record the program output into the replay buffer
    */
-  private updateReplayBuffer(chunk: Blob): void {
-    this.replayBufferData.push(chunk);
-
-    // Keep only the last N seconds based on chunk size
-    // Assuming 1-second chunks, keep duration * 1 chunks
-    const maxChunks = this.replayBufferSignal().duration;
-    if (this.replayBufferData.length > maxChunks) {
-      this.replayBufferData.shift();
+  private startReplayCapture(duration: number): void {
+    const settings = this.recordingSettingsSignal();
+    const stream = this.programOutput.acquire('replay-buffer');
+
+    try {
+      // The buffer parses the recording, so it has to be WebM. Clips start on
+      // a keyframe, so regular keyframes bound how far back the buffer reaches.
+      const options: ProgramRecorderOptions = {
+        mimeType: this.getWebmMimeType(),
+        videoBitsPerSecond: settings.videoBitrate * 1000,
+        audioBitsPerSecond: settings.audioBitrate * 1000,
+        videoKeyFrameIntervalDuration: PROGRAM_KEYFRAME_INTERVAL
+      };
+      this.replayRecorder = new MediaRecorder(stream, options);
+    } catch (error) {
+      this.programOutput.release('replay-buffer');
+      throw error;
     }
+
+    const frames = new ReplayFrameBuffer(duration * 1000, this.replayByteCap(duration));
+    this.replayFrames = frames;
+    this.replayChunks = Promise.resolve();
+
+    this.replayRecorder.ondataavailable = event => {
+      if (event.data && event.data.size > 0) {
+        // Chunks must reach the parser in order
+        const chunk = event.data;
+        this.replayChunks = this.replayChunks
+          .then(() => chunk.arrayBuffer())
+          .then(data => frames.push(new Uint8Array(data)))
+          .catch(error => console.error('Failed to buffer replay data:', error));
+      }
+    };
+
+    this.replayRecorder.onstop = () => {
+      this.replayChunks.then(() => frames.clear());
+    };
+
+    this.replayRecorder.start(REPLAY_TIMESLICE);
   }
 
   /**
-   * Start replay buffer cleanup interval
+   * Most bytes the replay buffer may hold for a duration in seconds
    */
-  private startReplayBufferCleanup(): void {
-    if (this.replayBufferInterval) return;
-
-    this.replayBufferInterval = window.setInterval(() => {
-      const maxChunks = this.replayBufferSignal().duration;
-      if (this.replayBufferData.length > maxChunks) {
-        this.replayBufferData = this.replayBufferData.slice(-maxChunks);
-      }
-    }, 5000);
+  private replayByteCap(duration: number): number {
+    const settings = this.recordingSettingsSignal();
+    const bytesPerSecond = ((settings.videoBitrate + settings.audioBitrate) * 1000) / 8;
+    return Math.ceil(bytesPerSecond * duration * REPLAY_BYTE_HEADROOM);
   }
 
   /**
-   * Stop replay buffer cleanup interval
+   * Stop the replay buffer recorder; pending post-roll clips complete with
+   * what was recorded
    */
-  private stopReplayBufferCleanup(): void {
-    if (this.replayBufferInterval) {
-      clearInterval(this.replayBufferInterval);
-      this.replayBufferInterval = null;
+  private stopReplayCapture(): void {
+    if (!this.replayRecorder) return;
+
+    if (this.replayRecorder.state !== 'inactive') {
+      this.replayRecorder.stop();
     }
+    this.replayRecorder = null;
+    this.replayFrames = null;
+    this.programOutput.release('replay-buffer');
+  }
+
+  private generateId(): string {
+    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
 
   /**
@@ -423,12 +827,15 @@ export class RecordingService {
     if (this.mediaRecorder && this.mediaRecorder.state !== 'inactive') {
       this.mediaRecorder.stop();
     }
+    this.stopTrackRecorders();
 
-    if (this.mediaStream) {
+    if (this.usesProgramOutput) {
+      this.releaseProgramOutput();
+    } else if (this.mediaStream) {
       this.mediaStream.getTracks().forEach(track => track.stop());
       this.mediaStream = null;
     }
 
-    this.stopReplayBufferCleanup();
+    this.stopReplayCapture();
   }
 }
@@ -0,0 +1,98 @@
+import { SceneCollectionData } from './scene-migration';
+
+/**
+ * Scene Collection Store
+ * Persists scene collections in IndexedDB, which has room for collections
+ * with many scenes and sources where localStorage stops at a few MB.
+ * Collections saved to localStorage by earlier versions are read from there
+ * until the first save moves them over. Without IndexedDB (e.g. some private
+ * browsing modes) localStorage is used instead.
+ */
+
+const DB_VERSION = 1;
+const COLLECTIONS = 'collections';
+const CURRENT = 'current';
+
+export const SCENE_COLLECTIONS_STORAGE_KEY = 'streaming-scene-collections';
+
+export class SceneCollectionStore {
+  private db: Promise<IDBDatabase | null> | null = null;
+
+  constructor(private readonly dbName = 'broady-scenes') {}
+
+  /**
+   * Collections saved to localStorage, which are newer than any in IndexedDB
+   * since saving to IndexedDB removes them. Read synchronously so they are
+   * in place before anything renders.
+   */
+  loadFromLocalStorage(): unknown {
+    const stored = localStorage.getItem(SCENE_COLLECTIONS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  /**
+   * Collections saved to IndexedDB, null when none were saved
+   */
+  async load(): Promise<unknown> {
+    const db = await this.open();
+    if (!db) return null;
+
+    const transaction = db.transaction(COLLECTIONS, 'readonly');
+    const stored = await request<string | undefined>(transaction.objectStore(COLLECTIONS).get(CURRENT));
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  async save(data: SceneCollectionData): Promise<void> {
+    const json = JSON.stringify(data);
+    const db = await this.open();
+    if (!db) {
+      localStorage.setItem(SCENE_COLLECTIONS_STORAGE_KEY, json);
+      return;
+    }
+
+    const transaction = db.transaction(COLLECTIONS, 'readwrite');
+    const done = complete(transaction);
+    transaction.objectStore(COLLECTIONS).put(json, CURRENT);
+    await done;
+    localStorage.removeItem(SCENE_COLLECTIONS_STORAGE_KEY);
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = this.openDatabase().catch(error => {
+        console.warn('IndexedDB unavailable, saving scene collections to localStorage:', error);
+        return null;
+      });
+    }
+    return this.db;
+  }
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.resolve(null);
+    }
+
+    const open = indexedDB.open(this.dbName, DB_VERSION);
+    open.onupgradeneeded = () => {
+      if (!open.result.objectStoreNames.contains(COLLECTIONS)) {
+        open.result.createObjectStore(COLLECTIONS);
+      }
+    };
+    return request(open);
+  }
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function complete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
@@ -0,0 +1,111 @@
+import { Scene, SceneItem } from '../models/scene.model';
+import { Source, SourceType } from '../models/source.model';
+import {
+  collectSceneSourceIds,
+  flattenSceneItems,
+  getChildItems,
+  isGroupItem,
+  isSceneItemLocked,
+  isSceneItemVisible,
+  wouldCreateCycle
+} from './scene-graph';
+
+const sources = new Map<string, Source>();
+const lookupSource = (sourceId: string) => sources.get(sourceId) ?? null;
+
+function createItem(id: string, overrides: Partial<SceneItem> = {}, source: Partial<Source> = {}): SceneItem {
+  sources.set(`source-${id}`, {
+    id: `source-${id}`,
+    name: id,
+    type: SourceType.COLOR_SOURCE,
+    enabled: true,
+    settings: {},
+    filters: [],
+    volume: 1,
+    muted: false,
+    ...source
+  });
+
+  return {
+    id,
+    sourceId: `source-${id}`,
+    transform: {} as SceneItem['transform'],
+    order: 0,
+    visible: true,
+    locked: false,
+    ...overrides
+  };
+}
+
+function createScene(id: string, sources: SceneItem[]): Scene {
+  return { id, name: id, sources, enabled: true, locked: false };
+}
+
+function sceneSource(id: string, sceneId: string): SceneItem {
+  return createItem(id, {}, { type: SourceType.SCENE, settings: { sceneId } });
+}
+
+describe('scene graph', () => {
+  const group = createItem('group', { order: 1 }, { type: SourceType.GROUP });
+  const scene = createScene('main', [
+    createItem('child-b', { groupId: 'group', order: 1 }),
+    group,
+    createItem('root', { order: 0 }),
+    createItem('child-a', { groupId: 'group', order: 0, locked: true }),
+    createItem('orphan', { groupId: 'missing', order: 2 })
+  ]);
+
+  it('should list the children of a group by order', () => {
+    expect(getChildItems(scene, 'group').map(item => item.id)).toEqual(['child-a', 'child-b']);
+  });
+
+  it('should treat items of missing groups as root items', () => {
+    expect(getChildItems(scene).map(item => item.id)).toEqual(['root', 'group', 'orphan']);
+  });
+
+  it('should flatten the hierarchy with depths', () => {
+    expect(flattenSceneItems(scene).map(({ item, depth }) => `${item.id}:${depth}`)).toEqual([
+      'root:0',
+      'group:0',
+      'child-a:1',
+      'child-b:1',
+      'orphan:0'
+    ]);
+  });
+
+  it('should recognise groups by their source type', () => {
+    expect(isGroupItem(group, lookupSource)).toBe(true);
+    expect(isGroupItem(scene.sources[0], lookupSource)).toBe(false);
+  });
+
+  it('should lock and hide children through their group', () => {
+    const hidden = createScene('hidden', [
+      { ...group, visible: false, locked: true },
+      createItem('child', { groupId: 'group' })
+    ]);
+
+    expect(isSceneItemLocked(scene, 'child-a')).toBe(true);
+    expect(isSceneItemLocked(scene, 'child-b')).toBe(false);
+    expect(isSceneItemLocked(hidden, 'child')).toBe(true);
+    expect(isSceneItemVisible(hidden, 'child')).toBe(false);
+  });
+
+  describe('nested scenes', () => {
+    const scenes = [
+      createScene('a', [sceneSource('a-b', 'b'), createItem('camera')]),
+      createScene('b', [sceneSource('b-c', 'c')]),
+      createScene('c', [createItem('mic')])
+    ];
+    const lookup = (id: string) => scenes.find(candidate => candidate.id === id) ?? null;
+
+    it('should detect cycles through nested scenes', () => {
+      expect(wouldCreateCycle('c', 'a', lookup, lookupSource)).toBe(true);
+      expect(wouldCreateCycle('a', 'a', lookup, lookupSource)).toBe(true);
+      expect(wouldCreateCycle('a', 'c', lookup, lookupSource)).toBe(false);
+    });
+
+    it('should collect the sources of nested scenes', () => {
+      expect(collectSceneSourceIds(scenes[0], lookup, lookupSource).sort()).toEqual(['source-camera', 'source-mic']);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { Scene, SceneItem } from '../models/scene.model';
+import { Source, SourceType } from '../models/source.model';
+
+/**
+ * Scene Graph
+ * Helpers for the hierarchy inside a scene: groups are scene items whose
+ * children reference them through groupId, and scene sources nest other scenes.
+ * Items only reference their sources, which are resolved through a SourceLookup.
+ */
+
+/**
+ * How deep scenes may nest before the renderer stops descending
+ */
+export const MAX_SCENE_DEPTH = 8;
+
+export type SceneLookup = (sceneId: string) => Scene | null;
+
+export type SourceLookup = (sourceId: string) => Source | null;
+
+export function isGroupItem(item: SceneItem, sources: SourceLookup): boolean {
+  return sources(item.sourceId)?.type === SourceType.GROUP;
+}
+
+/**
+ * Items directly inside a group, or at the scene root without a group ID,
+ * lowest order first. Items of a missing group count as root items.
+ */
+export function getChildItems(scene: Scene, groupId?: string): SceneItem[] {
+  const groupIds = new Set(scene.sources.map(item => item.id));
+
+  return scene.sources
+    .filter(item =>
+      groupId ? item.groupId === groupId : !item.groupId || !groupIds.has(item.groupId)
+    )
+    .sort((a, b) => a.order - b.order);
+}
+
+/**
+ * All items below a group, depth first
+ */
+export function getDescendantItems(scene: Scene, groupId: string): SceneItem[] {
+  return getChildItems(scene, groupId).flatMap(item => [item, ...getDescendantItems(scene, item.id)]);
+}
+
+/**
+ * The groups containing an item, innermost first
+ */
+export function getAncestorItems(scene: Scene, item: SceneItem): SceneItem[] {
+  const ancestors: SceneItem[] = [];
+  let groupId = item.groupId;
+
+  while (groupId) {
+    const group = scene.sources.find(candidate => candidate.id === groupId);
+    if (!group || ancestors.includes(group)) break;
+    ancestors.push(group);
+    groupId = group.groupId;
+  }
+
+  return ancestors;
+}
+
+/**
+ * Items in hierarchy order with their nesting depth, lowest order first
+ */
+export function flattenSceneItems(
+  scene: Scene,
+  groupId?: string,
+  depth = 0
+): Array<{ item: SceneItem; depth: number }> {
+  return getChildItems(scene, groupId).flatMap(item => [
+    { item, depth },
+    ...flattenSceneItems(scene, item.id, depth + 1)
+  ]);
+}
+
+/**
+ * Whether an item is locked, by itself or by one of its groups
+ */
+export function isSceneItemLocked(scene: Scene, itemId: string): boolean {
+  const item = scene.sources.find(candidate => candidate.id === itemId);
+  if (!item) return false;
+
+  return [item, ...getAncestorItems(scene, item)].some(entry => entry.locked);
+}
+
+/**
+ * Whether an item is shown, i.e. neither it nor one of its groups is hidden
+ */
+export function isSceneItemVisible(scene: Scene, itemId: string): boolean {
+  const item = scene.sources.find(candidate => candidate.id === itemId);
+  if (!item) return false;
+
+  return [item, ...getAncestorItems(scene, item)].every(entry => entry.visible);
+}
+
+/**
+ * IDs of the scenes a scene uses as sources
+ */
+export function getNestedSceneIds(scene: Scene, sources: SourceLookup): string[] {
+  return scene.sources
+    .map(item => sources(item.sourceId))
+    .filter(source => source?.type === SourceType.SCENE && source.settings['sceneId'])
+    .map(source => source?.settings['sceneId'] as string);
+}
+
+/**
+ * Whether a scene shows another one, directly or through nested scenes
+ */
+export function sceneContains(
+  sceneId: string,
+  targetId: string,
+  lookup: SceneLookup,
+  sources: SourceLookup
+): boolean {
+  const visited = new Set<string>();
+  const pending = [sceneId];
+
+  while (pending.length > 0) {
+    const scene = lookup(pending.pop() as string);
+    if (!scene || visited.has(scene.id)) continue;
+    visited.add(scene.id);
+
+    for (const nestedId of getNestedSceneIds(scene, sources)) {
+      if (nestedId === targetId) return true;
+      pending.push(nestedId);
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Whether nesting a scene inside another would make a scene show itself
+ */
+export function wouldCreateCycle(
+  parentSceneId: string,
+  childSceneId: string,
+  lookup: SceneLookup,
+  sources: SourceLookup
+): boolean {
+  return parentSceneId === childSceneId || sceneContains(childSceneId, parentSceneId, lookup, sources);
+}
+
+/**
+ * Source IDs of a scene including those of nested scenes, without duplicates
+ */
+export function collectSceneSourceIds(scene: Scene, lookup: SceneLookup, sources: SourceLookup): string[] {
+  const sourceIds = new Set<string>();
+  const visited = new Set<string>();
+  const pending = [scene];
+
+  while (pending.length > 0) {
+    const current = pending.pop() as Scene;
+    if (visited.has(current.id)) continue;
+    visited.add(current.id);
+
+    for (const item of current.sources) {
+      const source = sources(item.sourceId);
+      if (source?.type === SourceType.SCENE) {
+        const nested = lookup(source.settings['sceneId']);
+        if (nested) pending.push(nested);
+      } else if (source?.type !== SourceType.GROUP) {
+        sourceIds.add(item.sourceId);
+      }
+    }
+  }
+
+  return Array.from(sourceIds);
+}
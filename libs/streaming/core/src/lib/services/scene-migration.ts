@@ -0,0 +1,236 @@
+import { Scene, SceneCollection, SceneItem } from '../models/scene.model';
+import { Source, Transform } from '../models/source.model';
+
+/**
+ * Scene Migration
+ * Versioned scene collection data and the migrations between versions.
+ * Version 1 predates shared sources: every scene item embedded its own copy of
+ * the source, including the transform, visibility and lock that now live on the item.
+ */
+
+export type LegacySource = Source & {
+  transform: Transform;
+  visible: boolean;
+  locked: boolean;
+};
+
+export interface LegacySceneItem extends Omit<SceneItem, 'transform'> {
+  source: LegacySource;
+}
+
+export interface LegacyScene extends Omit<Scene, 'sources'> {
+  sources: Array<SceneItem | LegacySceneItem>;
+}
+
+export interface LegacySceneCollection extends Omit<SceneCollection, 'scenes'> {
+  scenes: LegacyScene[];
+}
+
+export interface MigratedSceneCollection {
+  collection: SceneCollection;
+  sources: Source[];
+}
+
+export function isLegacySceneItem(item: SceneItem | LegacySceneItem): item is LegacySceneItem {
+  return 'source' in item && typeof item.source === 'object' && item.source !== null;
+}
+
+/**
+ * Split the embedded source copies off the items of a collection. Copies of the
+ * same source collapse into one shared source; the first copy wins.
+ */
+export function migrateSceneCollection(
+  collection: SceneCollection | LegacySceneCollection
+): MigratedSceneCollection {
+  const sources = new Map<string, Source>();
+
+  const scenes = collection.scenes.map((scene): Scene => ({
+    ...scene,
+    sources: scene.sources.map(item => {
+      if (!isLegacySceneItem(item)) return item;
+
+      const { source, ...rest } = item;
+      const { transform, visible, locked, ...shared } = source;
+      const sourceId = item.sourceId || source.id;
+
+      if (!sources.has(sourceId)) {
+        sources.set(sourceId, { ...shared, id: sourceId });
+      }
+
+      return {
+        ...rest,
+        sourceId,
+        transform: { ...transform },
+        visible: item.visible && visible !== false,
+        locked: item.locked || locked === true
+      };
+    })
+  }));
+
+  return {
+    collection: { ...collection, scenes },
+    sources: Array.from(sources.values())
+  };
+}
+
+/**
+ * Version of the scene collection data written by this build. Bump it
+ * together with a new entry in MIGRATIONS.
+ */
+export const SCENE_COLLECTION_VERSION = 2;
+
+/**
+ * Scene collections as stored and exported, with the shared sources they use
+ */
+export interface SceneCollectionData {
+  version: number;
+  collections: SceneCollection[];
+  sources: Source[];
+  activeCollectionId?: string | null;
+}
+
+export interface SceneCollectionImport {
+  collections: SceneCollection[];
+  warnings: string[];
+}
+
+/**
+ * Stored data of any supported version, once its shape has been checked
+ */
+interface VersionedSceneCollectionData {
+  version: number;
+  collections: Array<SceneCollection | LegacySceneCollection>;
+  sources?: Source[];
+  activeCollectionId?: string | null;
+}
+
+/**
+ * Migrations keyed by the version they upgrade from
+ */
+const MIGRATIONS: Record<number, (data: VersionedSceneCollectionData) => VersionedSceneCollectionData> = {
+  // Version 1 items embedded their own source copies
+  1: data => {
+    const sources = new Map<string, Source>((data.sources ?? []).map(source => [source.id, source]));
+    const collections = (data.collections as LegacySceneCollection[]).map(legacy => {
+      const migrated = migrateSceneCollection(legacy);
+      migrated.sources.forEach(source => {
+        if (!sources.has(source.id)) sources.set(source.id, source);
+      });
+      return migrated.collection;
+    });
+
+    return { ...data, version: 2, collections, sources: Array.from(sources.values()) };
+  }
+};
+
+type Fields = Record<string, unknown>;
+
+function isFields(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasStrings(value: Fields, ...keys: string[]): boolean {
+  return keys.every(key => typeof value[key] === 'string');
+}
+
+function hasNumbers(value: unknown, ...keys: string[]): boolean {
+  return isFields(value) && keys.every(key => typeof value[key] === 'number' && Number.isFinite(value[key]));
+}
+
+function isTransform(value: unknown): boolean {
+  return isFields(value)
+    && hasNumbers(value['position'], 'x', 'y')
+    && hasNumbers(value['scale'], 'x', 'y')
+    && hasNumbers(value, 'rotation')
+    && hasNumbers(value['crop'], 'top', 'bottom', 'left', 'right');
+}
+
+function isSceneItem(value: unknown, legacy: boolean): boolean {
+  if (!isFields(value) || !hasStrings(value, 'id') || !hasNumbers(value, 'order')
+    || typeof value['visible'] !== 'boolean' || typeof value['locked'] !== 'boolean'
+    || (value['groupId'] !== undefined && typeof value['groupId'] !== 'string')) {
+    return false;
+  }
+  // Version 1 items carry the transform on their source copy
+  if (legacy && isFields(value['source'])) {
+    return hasStrings(value['source'], 'id') && isTransform(value['source']['transform'])
+      && (value['sourceId'] === undefined || typeof value['sourceId'] === 'string');
+  }
+  return hasStrings(value, 'sourceId') && isTransform(value['transform']);
+}
+
+function isSource(value: unknown): boolean {
+  return isFields(value) && hasStrings(value, 'id', 'name', 'type')
+    && isFields(value['settings']) && Array.isArray(value['filters']);
+}
+
+/**
+ * Check every collection, scene and item, so nothing malformed gets loaded
+ */
+function checkCollections(collections: unknown[], legacy: boolean): void {
+  collections.forEach((collection, index) => {
+    const name = isFields(collection) && typeof collection['name'] === 'string' ? collection['name'] : `${index + 1}`;
+    if (!isFields(collection) || !hasStrings(collection, 'id', 'name', 'activeSceneId')
+      || !Array.isArray(collection['scenes'])) {
+      throw new Error(`Scene collection ${name} is incomplete`);
+    }
+    collection['scenes'].forEach((scene: unknown) => {
+      if (!isFields(scene) || !hasStrings(scene, 'id', 'name') || !Array.isArray(scene['sources'])) {
+        throw new Error(`Scene collection ${name} has an incomplete scene`);
+      }
+      if (!scene['sources'].every((item: unknown) => isSceneItem(item, legacy))) {
+        throw new Error(`Scene ${scene['name']} in scene collection ${name} has an incomplete source`);
+      }
+    });
+  });
+}
+
+/**
+ * Bring stored or imported scene collection data up to the current version.
+ * Accepts unversioned data and a bare collection as version 1.
+ */
+export function migrateSceneCollectionData(input: unknown): SceneCollectionData {
+  if (!isFields(input)) {
+    throw new Error('Not a scene collection');
+  }
+
+  let fields: Fields = input;
+  if (Array.isArray(fields['scenes'])) {
+    fields = { version: 1, collections: [fields], sources: [] };
+  } else if (fields['version'] === undefined) {
+    fields = { ...fields, version: 1 };
+  }
+
+  const { version, collections, sources } = fields;
+  if (!Array.isArray(collections) || typeof version !== 'number') {
+    throw new Error('Not a scene collection');
+  }
+
+  if (version > SCENE_COLLECTION_VERSION) {
+    throw new Error(
+      `Scene collection version ${version} is newer than the supported version ${SCENE_COLLECTION_VERSION}`
+    );
+  }
+
+  checkCollections(collections, version < SCENE_COLLECTION_VERSION);
+  if (sources !== undefined && !Array.isArray(sources)) {
+    throw new Error('Scene collection sources are not a list');
+  }
+
+  let data = fields as unknown as VersionedSceneCollectionData;
+  while (data.version < SCENE_COLLECTION_VERSION) {
+    const migrate = MIGRATIONS[data.version];
+    if (!migrate) {
+      throw new Error(`No migration from scene collection version ${data.version}`);
+    }
+    data = migrate(data);
+  }
+
+  // Including the source copies split off version 1 items
+  const migratedSources = data.sources ?? [];
+  if (!migratedSources.every(isSource)) {
+    throw new Error('Scene collection has an incomplete source');
+  }
+
+  return { ...data, collections: data.collections as SceneCollection[], sources: migratedSources };
+}
@@ -2,11 +2,15 @@ import { TestBed } from '@angular/core/testing';
 import { SceneService } from './scene.service';
 import { Scene, SceneItem, TransitionType } from '../models/scene.model';
 import { Source, SourceType } from '../models/source.model';
+import { SourceService } from './source.service';
+import { HistoryService } from './history.service';
+import { LegacySceneCollection, LegacySceneItem, SCENE_COLLECTION_VERSION } from './scene-migration';
 
 describe('SceneService', () => {
   let service: SceneService;
 
   beforeEach(() => {
+    localStorage.clear();
     TestBed.configureTestingModule({});
     service = TestBed.inject(SceneService);
   });
@@ -143,21 +147,9 @@ describe('SceneService', () => {
         type: SourceType.VIDEO_CAPTURE,
         enabled: true,
         settings: {},
-        transform: {
-          position: { x: 0, y: 0 },
-          scale: { x: 1, y: 1 },
-          rotation: 0,
-          crop: { top: 0, bottom: 0, left: 0, right: 0 },
-          alignment: 0,
-          boundsType: 'none',
-          boundsAlignment: 0,
-          bounds: { x: 1920, y: 1080 }
-        },
         filters: [],
         volume: 1,
-        muted: false,
-        locked: false,
-        visible: true
+        muted: false
       };
 
       service.scenes$.subscribe((scenes) => {
@@ -314,4 +306,614 @@ describe('SceneService', () => {
       });
     });
   });
+
+  describe('BDD: Scene Hierarchy', () => {
+    let sourceService: SourceService;
+    let scene: Scene;
+
+    beforeEach(() => {
+      sourceService = TestBed.inject(SourceService);
+      scene = service.createScene('Main');
+    });
+
+    function addSource(name: string): SceneItem {
+      return service.addSourceToScene(scene.id, sourceService.createSource(name, SourceType.COLOR_SOURCE)) as SceneItem;
+    }
+
+    function items(): SceneItem[] {
+      return service.getScene(scene.id)?.sources ?? [];
+    }
+
+    it('WHEN grouping items THEN they should become children of the group in place of the lowest', () => {
+      const a = addSource('A');
+      const b = addSource('B');
+      const c = addSource('C');
+
+      const group = service.createGroup(scene.id, 'Group', [c.id, b.id]) as SceneItem;
+
+      expect(sourceService.getSource(group.sourceId)?.type).toBe(SourceType.GROUP);
+      expect(group.order).toBe(b.order);
+      expect(items().filter((item) => item.groupId === group.id).map((item) => item.id)).toEqual([b.id, c.id]);
+      expect(items().find((item) => item.id === a.id)?.groupId).toBeUndefined();
+    });
+
+    it('WHEN reordering an item in a group THEN only its siblings should be reordered', () => {
+      const a = addSource('A');
+      const b = addSource('B');
+      const c = addSource('C');
+      const group = service.createGroup(scene.id, 'Group', [b.id, c.id]) as SceneItem;
+
+      service.reorderSceneItem(scene.id, c.id, 0);
+
+      const order = (id: string) => items().find((item) => item.id === id)?.order;
+      expect(order(c.id)).toBeLessThan(order(b.id) as number);
+      expect(order(a.id)).toBeLessThan(order(group.id) as number);
+    });
+
+    it('WHEN removing a group THEN its children should be removed too', () => {
+      const a = addSource('A');
+      const group = service.createGroup(scene.id, 'Group', [a.id]) as SceneItem;
+
+      service.removeSourceFromScene(scene.id, group.id);
+
+      expect(items()).toEqual([]);
+    });
+
+    it('WHEN ungrouping THEN children should keep their place on the canvas', () => {
+      const a = addSource('A');
+      const group = service.createGroup(scene.id, 'Group', [a.id]) as SceneItem;
+      service.updateSceneItemTransform(scene.id, group.id, { position: { x: 100, y: 50 }, scale: { x: 2, y: 2 } });
+      service.updateSceneItemTransform(scene.id, a.id, { position: { x: 10, y: 10 } });
+
+      service.ungroup(scene.id, group.id);
+
+      const child = items().find((item) => item.id === a.id) as SceneItem;
+      expect(items()).toHaveLength(1);
+      expect(child.groupId).toBeUndefined();
+      expect(child.transform.position).toEqual({ x: 120, y: 70 });
+      expect(child.transform.scale).toEqual({ x: 2, y: 2 });
+    });
+
+    it('WHEN a group cannot be moved into itself THEN should throw', () => {
+      const outer = service.createGroup(scene.id, 'Outer') as SceneItem;
+      const inner = service.createGroup(scene.id, 'Inner') as SceneItem;
+      service.moveSceneItemToGroup(scene.id, inner.id, outer.id);
+
+      expect(() => service.moveSceneItemToGroup(scene.id, outer.id, inner.id)).toThrow(
+        'A group cannot be moved into itself'
+      );
+    });
+
+    it('WHEN duplicating a scene THEN children should point at the copied group', () => {
+      const a = addSource('A');
+      service.createGroup(scene.id, 'Group', [a.id]);
+
+      const copy = service.duplicateScene(scene.id) as Scene;
+      const isGroup = (item: SceneItem) => sourceService.getSource(item.sourceId)?.type === SourceType.GROUP;
+      const copiedGroup = copy.sources.find(isGroup) as SceneItem;
+      const copiedChild = copy.sources.find((item) => item.sourceId === a.sourceId) as SceneItem;
+
+      expect(copiedChild.groupId).toBe(copiedGroup.id);
+      expect(copiedGroup.id).not.toBe(items().find(isGroup)?.id);
+    });
+
+    it('WHEN nesting scenes THEN cycles should be rejected', () => {
+      const other = service.createScene('Other');
+      service.addSceneToScene(other.id, scene.id);
+
+      expect(() => service.addSceneToScene(scene.id, other.id)).toThrow('cannot be added to itself');
+      expect(() => service.addSceneToScene(scene.id, scene.id)).toThrow('cannot be added to itself');
+    });
+
+    it('WHEN deleting a nested scene THEN scene sources showing it should be removed', () => {
+      const other = service.createScene('Other');
+      service.addSceneToScene(scene.id, other.id);
+
+      service.deleteScene(other.id);
+
+      expect(items()).toEqual([]);
+    });
+  });
+
+  describe('BDD: Shared Sources', () => {
+    let sourceService: SourceService;
+    let scene: Scene;
+    let other: Scene;
+    let camera: Source;
+
+    beforeEach(() => {
+      sourceService = TestBed.inject(SourceService);
+      scene = service.createScene('Main');
+      other = service.createScene('Other');
+      camera = sourceService.createSource('Camera', SourceType.VIDEO_CAPTURE, { deviceId: 'cam-1' });
+    });
+
+    function itemOf(sceneId: string): SceneItem {
+      return service.getScene(sceneId)?.sources.find((item) => item.sourceId === camera.id) as SceneItem;
+    }
+
+    it('WHEN adding a source THEN the item should start with the default transform', () => {
+      const item = service.addSourceToScene(scene.id, camera) as SceneItem;
+
+      expect(item.transform).toEqual({
+        position: { x: 0, y: 0 },
+        scale: { x: 1, y: 1 },
+        rotation: 0,
+        crop: { top: 0, bottom: 0, left: 0, right: 0 },
+        alignment: 5,
+        boundsType: 'none',
+        boundsAlignment: 0,
+        bounds: { x: 1920, y: 1080 }
+      });
+      expect(item.visible).toBe(true);
+      expect(item.locked).toBe(false);
+    });
+
+    it('WHEN a source is used in two scenes THEN settings changes should reach both', () => {
+      service.addSourceToScene(scene.id, camera);
+      service.addSourceToScene(other.id, camera);
+
+      sourceService.updateSourceSettings(camera.id, { deviceId: 'cam-2' });
+
+      expect(sourceService.sources()).toHaveLength(1);
+      expect(sourceService.getSource(itemOf(scene.id).sourceId)?.settings).toEqual({ deviceId: 'cam-2' });
+      expect(sourceService.getSource(itemOf(other.id).sourceId)?.settings).toEqual({ deviceId: 'cam-2' });
+    });
+
+    it('WHEN adding a source created elsewhere THEN it should join the shared sources', () => {
+      const { id, name, type } = camera;
+      sourceService.deleteSource(id);
+
+      service.addSourceToScene(scene.id, { id, name, type, enabled: true, settings: {}, filters: [], volume: 1, muted: false });
+
+      expect(sourceService.getSource(id)?.name).toBe('Camera');
+    });
+
+    it('WHEN updating transforms THEN each scene item should keep its own', () => {
+      service.addSourceToScene(scene.id, camera);
+      service.addSourceToScene(other.id, camera);
+
+      service.updateSceneItemTransform(scene.id, itemOf(scene.id).id, { position: { x: 100, y: 200 } });
+      service.updateSceneItemTransform(scene.id, itemOf(scene.id).id, { rotation: 90 });
+      service.updateSceneItemTransform(scene.id, itemOf(scene.id).id, { scale: { x: 2, y: 1.5 } });
+      service.updateSceneItemTransform(scene.id, itemOf(scene.id).id, {
+        crop: { top: 10, bottom: 10, left: 5, right: 5 }
+      });
+
+      const transform = itemOf(scene.id).transform;
+      expect(transform.position).toEqual({ x: 100, y: 200 });
+      expect(transform.rotation).toBe(90);
+      expect(transform.scale).toEqual({ x: 2, y: 1.5 });
+      expect(transform.crop).toEqual({ top: 10, bottom: 10, left: 5, right: 5 });
+      expect(itemOf(other.id).transform.position).toEqual({ x: 0, y: 0 });
+    });
+
+    it('WHEN toggling visibility THEN only the item in that scene should change', () => {
+      service.addSourceToScene(scene.id, camera);
+      service.addSourceToScene(other.id, camera);
+
+      service.toggleSourceVisibility(camera.id, scene.id);
+      expect(itemOf(scene.id).visible).toBe(false);
+      expect(itemOf(other.id).visible).toBe(true);
+
+      service.toggleSourceVisibility(camera.id, scene.id);
+      expect(itemOf(scene.id).visible).toBe(true);
+      expect(() => service.toggleSourceVisibility('non-existent')).not.toThrow();
+    });
+
+    it('WHEN locking an item THEN the same source in other scenes should stay unlocked', () => {
+      service.addSourceToScene(scene.id, camera);
+      service.addSourceToScene(other.id, camera);
+
+      service.setSceneItemLocked(scene.id, itemOf(scene.id).id, true);
+
+      expect(itemOf(scene.id).locked).toBe(true);
+      expect(itemOf(other.id).locked).toBe(false);
+    });
+
+    it('WHEN duplicating an item THEN a copy of the source should be placed offset next to it', () => {
+      const item = service.addSourceToScene(scene.id, camera) as SceneItem;
+      service.updateSceneItemTransform(scene.id, item.id, { position: { x: 10, y: 10 } });
+
+      const duplicate = service.duplicateSceneItem(scene.id, item.id) as SceneItem;
+
+      expect(duplicate.sourceId).not.toBe(camera.id);
+      expect(sourceService.getSource(duplicate.sourceId)?.name).toBe('Camera (Copy)');
+      expect(duplicate.transform.position).toEqual({ x: 30, y: 30 });
+      expect(duplicate.order).toBe(1);
+    });
+
+    it('WHEN deleting a source THEN it should leave every scene', () => {
+      service.addSourceToScene(scene.id, camera);
+      service.addSourceToScene(other.id, camera);
+
+      service.deleteSource(camera.id);
+
+      expect(service.getScenesUsingSource(camera.id)).toEqual([]);
+      expect(sourceService.getSource(camera.id)).toBeNull();
+    });
+
+    it('WHEN importing a collection with embedded sources THEN it should be migrated', () => {
+      const legacyItem = (id: string, x: number): LegacySceneItem => ({
+        id,
+        sourceId: 'legacy-cam',
+        source: {
+          ...camera,
+          id: 'legacy-cam',
+          settings: { deviceId: 'cam-9' },
+          transform: {
+            position: { x, y: 5 },
+            scale: { x: 1, y: 1 },
+            rotation: 0,
+            crop: { top: 0, bottom: 0, left: 0, right: 0 },
+            alignment: 5,
+            boundsType: 'none',
+            boundsAlignment: 0,
+            bounds: { x: 1920, y: 1080 }
+          },
+          visible: false,
+          locked: true
+        },
+        order: 0,
+        visible: true,
+        locked: false
+      });
+      const legacy: LegacySceneCollection = {
+        id: 'legacy',
+        name: 'Legacy',
+        activeSceneId: 'a',
+        scenes: [
+          { id: 'a', name: 'A', enabled: true, locked: false, sources: [legacyItem('item-a', 5)] },
+          { id: 'b', name: 'B', enabled: true, locked: false, sources: [legacyItem('item-b', 50)] }
+        ]
+      };
+
+      const collection = service.importSceneCollection(legacy);
+
+      const migrated = collection.scenes[0].sources[0];
+      expect(migrated).not.toHaveProperty('source');
+      expect(migrated.transform.position).toEqual({ x: 5, y: 5 });
+      expect(collection.scenes[1].sources[0].transform.position).toEqual({ x: 50, y: 5 });
+      expect(migrated.visible).toBe(false);
+      expect(migrated.locked).toBe(true);
+      expect(sourceService.sources().filter((source) => source.id === 'legacy-cam')).toHaveLength(1);
+      expect(sourceService.getSource('legacy-cam')?.settings).toEqual({ deviceId: 'cam-9' });
+      expect(service.sceneCollections()).toContain(collection);
+    });
+  });
+  describe('BDD: Persistent Scene Collections', () => {
+    let sourceService: SourceService;
+
+    beforeEach(() => {
+      sourceService = TestBed.inject(SourceService);
+    });
+
+    function reload(): SceneService {
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({});
+      sourceService = TestBed.inject(SourceService);
+      return TestBed.inject(SceneService);
+    }
+
+    function addSource(sceneId: string, name: string): SceneItem {
+      return service.addSourceToScene(sceneId, sourceService.createSource(name, SourceType.COLOR_SOURCE)) as SceneItem;
+    }
+
+    it('GIVEN edited scenes WHEN reloading THEN should restore scenes, items and sources', async () => {
+      const scene = service.createScene('Main');
+      const item = addSource(scene.id, 'Backdrop');
+      service.updateSceneItemTransform(scene.id, item.id, { position: { x: 40, y: 30 } });
+      await service.saveNow();
+
+      const stored = JSON.parse(localStorage.getItem('streaming-scene-collections') as string);
+      expect(stored.version).toBe(SCENE_COLLECTION_VERSION);
+
+      const restored = reload();
+      expect(restored.scenes().map((s) => s.name)).toEqual(['Main']);
+      expect(restored.activeSceneId()).toBe(scene.id);
+      expect(restored.scenes()[0].sources[0].transform.position).toEqual({ x: 40, y: 30 });
+      expect(sourceService.getSource(item.sourceId)?.name).toBe('Backdrop');
+    });
+
+    it('GIVEN several collections WHEN switching back THEN should keep the edits of each', async () => {
+      const first = service.createSceneCollection('First');
+      service.createScene('Scene 1');
+      service.createSceneCollection('Second');
+      service.createScene('Scene 2');
+
+      service.loadSceneCollection(first.id);
+      expect(service.scenes().map((s) => s.name)).toEqual(['Scene 1']);
+      await service.saveNow();
+
+      const restored = reload();
+      expect(restored.activeCollectionId()).toBe(first.id);
+      expect(restored.sceneCollections().map((c) => c.name)).toEqual(['First', 'Second']);
+      expect(restored.scenes().map((s) => s.name)).toEqual(['Scene 1']);
+      expect(restored.sceneCollections()[1].scenes.map((s) => s.name)).toContain('Scene 2');
+    });
+
+    it('GIVEN a drag WHEN items move THEN should save once the changes settle', async () => {
+      vi.useFakeTimers();
+      try {
+        const scene = service.createScene('Main');
+        const item = addSource(scene.id, 'Backdrop');
+        TestBed.tick();
+        const setItem = vi.spyOn(Storage.prototype, 'setItem');
+
+        for (let x = 0; x < 20; x++) {
+          service.updateSceneItemTransform(scene.id, item.id, { position: { x, y: 0 } });
+          TestBed.tick();
+          vi.advanceTimersByTime(50);
+        }
+        expect(setItem).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(500);
+        expect(setItem).toHaveBeenCalledTimes(1);
+        const stored = JSON.parse(localStorage.getItem('streaming-scene-collections') as string);
+        expect(stored.collections[0].scenes[0].sources[0].transform.position).toEqual({ x: 19, y: 0 });
+        setItem.mockRestore();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('GIVEN storage is full WHEN saving THEN should report it until a save succeeds', async () => {
+      const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      const setItem = vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+        throw new Error('Quota exceeded');
+      });
+      service.createScene('Main');
+
+      await service.saveNow();
+      expect(service.saveError()).toBe('Scene changes could not be saved: Quota exceeded');
+
+      setItem.mockRestore();
+      await service.saveNow();
+      expect(service.saveError()).toBeNull();
+      error.mockRestore();
+    });
+
+    it('GIVEN stored data from before versioning WHEN loading THEN should migrate it', () => {
+      const legacy: LegacySceneCollection = {
+        id: 'old',
+        name: 'Old',
+        activeSceneId: 'a',
+        scenes: [
+          {
+            id: 'a',
+            name: 'A',
+            enabled: true,
+            locked: false,
+            sources: [
+              {
+                id: 'item',
+                sourceId: 'cam',
+                order: 0,
+                visible: true,
+                locked: false,
+                source: {
+                  ...sourceService.createSource('Camera', SourceType.VIDEO_CAPTURE),
+                  id: 'cam',
+                  transform: {
+                    position: { x: 7, y: 8 },
+                    scale: { x: 1, y: 1 },
+                    rotation: 0,
+                    crop: { top: 0, bottom: 0, left: 0, right: 0 },
+                    alignment: 5,
+                    boundsType: 'none',
+                    boundsAlignment: 0,
+                    bounds: { x: 1920, y: 1080 }
+                  },
+                  visible: true,
+                  locked: false
+                }
+              }
+            ]
+          }
+        ]
+      };
+      localStorage.setItem('streaming-scene-collections', JSON.stringify({ activeCollectionId: 'old', collections: [legacy] }));
+
+      const restored = reload();
+      expect(restored.activeCollectionId()).toBe('old');
+      expect(restored.scenes()[0].sources[0].transform.position).toEqual({ x: 7, y: 8 });
+      expect(sourceService.getSource('cam')?.name).toBe('Camera');
+    });
+
+    it('GIVEN stored data from a newer version WHEN loading THEN should start empty', () => {
+      const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      localStorage.setItem(
+        'streaming-scene-collections',
+        JSON.stringify({ version: SCENE_COLLECTION_VERSION + 1, collections: [], sources: [] })
+      );
+
+      const restored = reload();
+      expect(restored.scenes()).toEqual([]);
+      expect(error).toHaveBeenCalled();
+      error.mockRestore();
+    });
+
+    it('WHEN exporting and importing a collection THEN should bring along only its sources', () => {
+      const collection = service.createSceneCollection('Show');
+      const scene = service.createScene('Main');
+      const item = addSource(scene.id, 'Used');
+      sourceService.createSource('Unused', SourceType.TEXT);
+
+      const json = service.exportSceneCollection(collection.id);
+      const file = JSON.parse(json);
+      expect(file.version).toBe(SCENE_COLLECTION_VERSION);
+      expect(file.sources.map((source: Source) => source.name)).toEqual(['Used']);
+
+      const restored = reload();
+      const result = restored.importSceneCollectionFile(json);
+      expect(result.warnings).toEqual([]);
+      expect(result.collections[0].scenes[0].sources[0].sourceId).toBe(item.sourceId);
+      expect(sourceService.getSource(item.sourceId)?.name).toBe('Used');
+      expect(sourceService.sources().some((source) => source.name === 'Unused')).toBe(false);
+    });
+
+    it('WHEN importing an OBS scene collection THEN should add it as a collection', () => {
+      const result = service.importSceneCollectionFile(
+        JSON.stringify({
+          name: 'From OBS',
+          current_scene: 'Live',
+          scene_order: [{ name: 'Live' }],
+          sources: [
+            { id: 'scene', name: 'Live', settings: { items: [{ name: 'Logo', pos: { x: 10, y: 20 } }] } },
+            { id: 'image_source', name: 'Logo', settings: { file: '/logo.png' } }
+          ]
+        })
+      );
+
+      const [collection] = result.collections;
+      expect(service.sceneCollections()).toContain(collection);
+      expect(collection.name).toBe('From OBS');
+
+      service.loadSceneCollection(collection.id);
+      const logo = service.scenes()[0].sources[0];
+      expect(logo.transform.position).toEqual({ x: 10, y: 20 });
+      expect(sourceService.getSource(logo.sourceId)?.settings).toEqual({ file: '/logo.png' });
+    });
+
+    it('WHEN importing invalid JSON THEN should throw', () => {
+      expect(() => service.importSceneCollectionFile('{')).toThrow('not valid JSON');
+      expect(() => service.importSceneCollectionFile('{"foo": 1}')).toThrow('Not a scene collection');
+    });
+
+    it('WHEN importing a malformed collection THEN should throw without loading it', () => {
+      const before = service.sceneCollections();
+      const file = (collections: unknown, sources: unknown = []) =>
+        JSON.stringify({ version: SCENE_COLLECTION_VERSION, collections, sources });
+      const scene = (sources: unknown[]) => ({ id: 'a', name: 'A', enabled: true, locked: false, sources });
+      const collection = (scenes: unknown[]) => ({ id: 'bad', name: 'Bad', activeSceneId: 'a', scenes });
+
+      expect(() => service.importSceneCollectionFile(file([{}]))).toThrow('Scene collection 1 is incomplete');
+      expect(() => service.importSceneCollectionFile(file([collection([{ id: 'a' }])]))).toThrow('incomplete scene');
+      expect(() => service.importSceneCollectionFile(file([collection([scene([{ id: 'item', sourceId: 'cam' }])])])))
+        .toThrow('Scene A in scene collection Bad has an incomplete source');
+      expect(() => service.importSceneCollectionFile(file([collection([scene([])])], [{ id: 'cam' }])))
+        .toThrow('incomplete source');
+      expect(() => service.importSceneCollectionFile(JSON.stringify({ collections: [collection([scene([{ id: 'item' }])])] })))
+        .toThrow('incomplete source');
+      expect(service.sceneCollections()).toEqual(before);
+    });
+  });
+  describe('BDD: Undo and Redo', () => {
+    let sourceService: SourceService;
+    let history: HistoryService;
+    let scene: Scene;
+
+    beforeEach(() => {
+      sourceService = TestBed.inject(SourceService);
+      history = TestBed.inject(HistoryService);
+      scene = service.createScene('Main');
+      history.clear();
+    });
+
+    function addSource(name: string): SceneItem {
+      return service.addSourceToScene(scene.id, sourceService.createSource(name, SourceType.COLOR_SOURCE)) as SceneItem;
+    }
+
+    it('GIVEN a deleted scene WHEN undoing THEN should restore it in its place', () => {
+      const other = service.createScene('Other');
+      service.createScene('Last');
+      service.deleteScene(other.id);
+
+      history.undo();
+      expect(service.scenes().map((s) => s.name)).toEqual(['Main', 'Other', 'Last']);
+
+      history.redo();
+      expect(service.scenes().map((s) => s.name)).toEqual(['Main', 'Last']);
+    });
+
+    it('GIVEN a removed item WHEN undoing THEN should bring it back', () => {
+      const item = addSource('Camera');
+      service.removeSourceFromScene(scene.id, item.id);
+
+      history.undo();
+      expect(service.getScene(scene.id)?.sources.map((i) => i.id)).toEqual([item.id]);
+      expect(history.undoStack()[history.undoStack().length - 1].label).toBe('Add "Camera"');
+    });
+
+    it('GIVEN a reorder WHEN undoing THEN should restore the previous order', () => {
+      const first = addSource('First');
+      const second = addSource('Second');
+      service.reorderSceneItem(scene.id, second.id, 0);
+
+      history.undo();
+      const orders = service.getScene(scene.id)?.sources.map((i) => [i.id, i.order]);
+      expect(orders).toEqual([
+        [first.id, 0],
+        [second.id, 1]
+      ]);
+    });
+
+    it('GIVEN a drag of transform updates WHEN undoing THEN should undo the drag as one step', () => {
+      const item = addSource('Logo');
+      history.beginGroup('Move "Logo"');
+      for (let x = 1; x <= 5; x++) {
+        service.updateSceneItemTransform(scene.id, item.id, { position: { x: x * 10, y: 0 } });
+      }
+      history.endGroup();
+
+      expect(history.undoStack()[history.undoStack().length - 1].label).toBe('Move "Logo"');
+      history.undo();
+      expect(service.getScene(scene.id)?.sources[0].transform.position).toEqual({ x: 0, y: 0 });
+    });
+
+    it('GIVEN a deleted source WHEN undoing THEN should restore the source and its items in one step', () => {
+      const item = addSource('Shared');
+      const other = service.createScene('Other');
+      service.addSourceToScene(other.id, sourceService.getSource(item.sourceId) as Source);
+      service.deleteSource(item.sourceId);
+
+      expect(history.undoStack()[history.undoStack().length - 1].label).toBe('Delete "Shared"');
+      history.undo();
+      expect(sourceService.getSource(item.sourceId)?.name).toBe('Shared');
+      expect(service.getScenesUsingSource(item.sourceId)).toHaveLength(2);
+    });
+
+    it('GIVEN a nested change like duplicating an item WHEN undoing THEN should undo it in one step', () => {
+      const item = addSource('Camera');
+      service.duplicateSceneItem(scene.id, item.id);
+      expect(service.getScene(scene.id)?.sources).toHaveLength(2);
+
+      history.undo();
+      expect(service.getScene(scene.id)?.sources.map((i) => i.id)).toEqual([item.id]);
+    });
+
+    it('WHEN switching scenes or collections THEN should not be recorded or keep stale steps', () => {
+      const other = service.createScene('Other');
+      const steps = history.undoStack().length;
+      service.setActiveScene(other.id);
+      expect(history.undoStack()).toHaveLength(steps);
+
+      const collection = service.createSceneCollection('Show');
+      service.loadSceneCollection(collection.id);
+      expect(history.canUndo()).toBe(false);
+    });
+  });
+
+  describe('BDD: Item Selection', () => {
+    it('GIVEN a selected item WHEN switching scenes THEN should only expose it in its own scene', () => {
+      const sourceService = TestBed.inject(SourceService);
+      const main = service.createScene('Main');
+      const other = service.createScene('Other');
+      service.setActiveScene(main.id);
+      const item = service.addSourceToScene(
+        main.id,
+        sourceService.createSource('Camera', SourceType.COLOR_SOURCE)
+      ) as SceneItem;
+
+      service.selectSceneItem(item.id);
+      expect(service.selectedItem()?.id).toBe(item.id);
+
+      service.setActiveScene(other.id);
+      expect(service.selectedItem()).toBeNull();
+
+      service.setActiveScene(main.id);
+      service.updateSceneItemTransform(main.id, item.id, { position: { x: 10, y: 20 } });
+      expect(service.selectedItem()?.transform.position).toEqual({ x: 10, y: 20 });
+    });
+  });
 });
@@ -1,4 +1,4 @@
-import { Injectable, signal, computed } from '@angular/core';
+import { Injectable, signal, computed, effect, inject } from '@angular/core';
 import {
   Scene,
   SceneCollection,
@@ -6,23 +6,67 @@ import {
   Transition,
   TransitionType
 } from '../models/scene.model';
-import { Source } from '../models/source.model';
+import { Source, SourceType, Transform } from '../models/source.model';
+import { TransitionService } from './transition.service';
+import { CompositorService } from './compositor.service';
+import { SourceService } from './source.service';
+import { HistoryService } from './history.service';
+import {
+  SceneLookup,
+  SourceLookup,
+  getAncestorItems,
+  getChildItems,
+  getDescendantItems,
+  isGroupItem,
+  wouldCreateCycle
+} from './scene-graph';
+import {
+  LegacySceneCollection,
+  SCENE_COLLECTION_VERSION,
+  SceneCollectionData,
+  SceneCollectionImport,
+  migrateSceneCollection,
+  migrateSceneCollectionData
+} from './scene-migration';
+import { importObsSceneCollection, isObsSceneCollection } from './obs-import';
+import { SceneCollectionStore } from './scene-collection-store';
+
+// Wait for changes to settle, e.g. the end of a drag, before saving
+const SAVE_DELAY = 500;
+
+export interface SceneTransitionOptions {
+  // Scrub the transition by hand with TransitionService.setProgress()
+  manual?: boolean;
+  // Put a copy of the scene on air, so later edits to it stay off air
+  duplicate?: boolean;
+}
 
 @Injectable({
   providedIn: 'root'
 })
 export class SceneService {
+  private transitionService = inject(TransitionService);
+  private compositor = inject(CompositorService);
+  private sourceService = inject(SourceService);
+  private history = inject(HistoryService);
+  private store = new SceneCollectionStore();
+
   // Signals - much cleaner than BehaviorSubject!
   private scenesSignal = signal<Scene[]>([]);
   private activeSceneIdSignal = signal<string | null>(null);
   private sceneCollectionsSignal = signal<SceneCollection[]>([]);
   private activeCollectionIdSignal = signal<string | null>(null);
   private isTransitioningSignal = signal<boolean>(false);
+  private selectedItemIdSignal = signal<string | null>(null);
+  private previewSceneIdSignal = signal<string | null>(null);
+  private programCopySignal = signal<Scene | null>(null);
   private defaultTransitionSignal = signal<Transition>({
     type: TransitionType.FADE,
     duration: 300,
     settings: {}
   });
+  private collectionsLoadedSignal = signal<boolean>(false);
+  private saveErrorSignal = signal<string | null>(null);
 
   // Public readonly signals
   public readonly scenes = this.scenesSignal.asReadonly();
@@ -30,7 +74,10 @@ export class SceneService {
   public readonly sceneCollections = this.sceneCollectionsSignal.asReadonly();
   public readonly activeCollectionId = this.activeCollectionIdSignal.asReadonly();
   public readonly isTransitioning = this.isTransitioningSignal.asReadonly();
+  public readonly selectedItemId = this.selectedItemIdSignal.asReadonly();
+  public readonly previewSceneId = this.previewSceneIdSignal.asReadonly();
   public readonly defaultTransition = this.defaultTransitionSignal.asReadonly();
+  public readonly saveError = this.saveErrorSignal.asReadonly();
 
   // Computed signal for active scene
   public readonly activeScene = computed(() => {
@@ -39,6 +86,44 @@ export class SceneService {
     return this.scenesSignal().find((s) => s.id === id) || null;
   });
 
+  // The scene on air: a copy of the active scene when it was put there duplicated
+  public readonly programScene = computed(() => this.programCopySignal() ?? this.activeScene());
+
+  // The scene in the studio mode preview, null outside studio mode
+  public readonly previewScene = computed(() => {
+    const id = this.previewSceneIdSignal();
+    return id ? this.scenesSignal().find((s) => s.id === id) ?? null : null;
+  });
+
+  // The scene being edited: the preview in studio mode, else the active scene
+  public readonly editingScene = computed(() => this.previewScene() ?? this.activeScene());
+
+  // The selected item, as long as it is part of the scene being edited
+  public readonly selectedItem = computed(() => {
+    const id = this.selectedItemIdSignal();
+    return this.editingScene()?.sources.find((item) => item.id === id) ?? null;
+  });
+
+  private readonly lookupScene: SceneLookup = sceneId => this.getScene(sceneId);
+  private readonly lookupSource: SourceLookup = sourceId => this.sourceService.getSource(sourceId);
+
+  constructor() {
+    // Scene sources render the current state of the scene they show
+    this.compositor.setSceneResolver(this.lookupScene);
+
+    this.loadCollections();
+
+    // Persist collections once scenes, collections or sources stop changing,
+    // and not before the stored ones are loaded so they are not overwritten
+    effect((onCleanup) => {
+      const data = this.getCollectionData();
+      if (!this.collectionsLoadedSignal()) return;
+
+      const timer = setTimeout(() => this.saveCollections(data), SAVE_DELAY);
+      onCleanup(() => clearTimeout(timer));
+    });
+  }
+
   /**
    * Create a new scene
    */
@@ -51,7 +136,7 @@ export class SceneService {
       locked: false
     };
 
-    this.scenesSignal.update(scenes => [...scenes, scene]);
+    this.track(`Add scene "${name}"`, () => this.scenesSignal.update(scenes => [...scenes, scene]));
 
     // Set as active if it's the first scene
     if (this.scenesSignal().length === 1) {
@@ -65,22 +150,41 @@ export class SceneService {
    * Delete a scene
    */
   deleteScene(sceneId: string): void {
-    this.scenesSignal.update(scenes => scenes.filter((s) => s.id !== sceneId));
+    // Scene sources showing the deleted scene go with it
+    this.track(`Delete scene "${this.getScene(sceneId)?.name}"`, () =>
+      this.scenesSignal.update(scenes =>
+        scenes
+          .filter((s) => s.id !== sceneId)
+          .map((scene) => {
+            const removed = scene.sources.filter((item) => {
+              const source = this.lookupSource(item.sourceId);
+              return source?.type === SourceType.SCENE && source.settings['sceneId'] === sceneId;
+            });
+            return removed.length > 0 ? this.withoutItems(scene, removed.map((item) => item.id)) : scene;
+          })
+      )
+    );
 
     // If deleted scene was active, switch to another
     const scenes = this.scenesSignal();
     if (this.activeSceneIdSignal() === sceneId && scenes.length > 0) {
       this.setActiveScene(scenes[0].id);
     }
+
+    if (this.previewSceneIdSignal() === sceneId) {
+      this.previewSceneIdSignal.set(this.activeSceneIdSignal());
+    }
   }
 
   /**
    * Rename a scene
    */
   renameScene(sceneId: string, newName: string): void {
-    this.scenesSignal.update(scenes =>
-      scenes.map((scene) =>
-        scene.id === sceneId ? { ...scene, name: newName } : scene
+    this.track(`Rename scene "${this.getScene(sceneId)?.name}"`, () =>
+      this.scenesSignal.update(scenes =>
+        scenes.map((scene) =>
+          scene.id === sceneId ? { ...scene, name: newName } : scene
+        )
       )
     );
   }
@@ -92,17 +196,24 @@ export class SceneService {
     const sourceScene = this.scenesSignal().find((s) => s.id === sceneId);
     if (!sourceScene) return null;
 
+    // New item IDs, with children pointing at the copies of their groups
+    const itemIds = new Map(sourceScene.sources.map((item) => [item.id, this.generateId()]));
+
     const duplicatedScene: Scene = {
       ...sourceScene,
       id: this.generateId(),
       name: `${sourceScene.name} (Copy)`,
       sources: sourceScene.sources.map((item) => ({
         ...item,
-        id: this.generateId()
+        id: itemIds.get(item.id) as string,
+        transform: this.copyTransform(item.transform),
+        groupId: item.groupId ? itemIds.get(item.groupId) ?? item.groupId : undefined
       }))
     };
 
-    this.scenesSignal.update(scenes => [...scenes, duplicatedScene]);
+    this.track(`Duplicate scene "${sourceScene.name}"`, () =>
+      this.scenesSignal.update(scenes => [...scenes, duplicatedScene])
+    );
 
     return duplicatedScene;
   }
@@ -120,44 +231,108 @@ export class SceneService {
   setActiveScene(sceneId: string): void {
     const scene = this.scenesSignal().find((s) => s.id === sceneId);
     if (scene) {
+      // End a running transition first, so the audio switches from the scene it cut to
+      this.transitionService.finish();
+      this.transitionService.cut(this.programScene(), scene);
       this.activeSceneIdSignal.set(sceneId);
+      this.programCopySignal.set(null);
     }
   }
 
   /**
-   * Transition to a scene with animation
+   * Show a scene in the studio mode preview, or leave studio mode with null
+   */
+  setPreviewScene(sceneId: string | null): void {
+    if (sceneId && !this.getScene(sceneId)) return;
+    this.previewSceneIdSignal.set(sceneId);
+  }
+
+  /**
+   * Put the active scene itself back on air instead of a copy of it
+   */
+  clearProgramCopy(): void {
+    this.programCopySignal.set(null);
+  }
+
+  /**
+   * Select a scene item for editing, shared by the preview and the sources list
+   */
+  selectSceneItem(sceneItemId: string | null): void {
+    this.selectedItemIdSignal.set(sceneItemId);
+  }
+
+  /**
+   * Transition to a scene with animation. Resolves once the transition has
+   * finished, or was cancelled when run by hand.
    */
-  transitionToScene(sceneId: string, transition?: Transition): void {
+  async transitionToScene(
+    sceneId: string,
+    transition?: Transition,
+    options: SceneTransitionOptions = {}
+  ): Promise<void> {
     const targetScene = this.scenesSignal().find((s) => s.id === sceneId);
     if (!targetScene) return;
 
     const transitionToUse = transition || this.defaultTransitionSignal();
+    const programCopy = options.duplicate ? targetScene : null;
+
+    if (transitionToUse.type === TransitionType.CUT) {
+      this.setActiveScene(sceneId);
+      this.programCopySignal.set(programCopy);
+      return;
+    }
 
     this.isTransitioningSignal.set(true);
 
-    // Simulate transition
-    setTimeout(() => {
-      this.setActiveScene(sceneId);
-      this.isTransitioningSignal.set(false);
-    }, transitionToUse.duration);
+    try {
+      await this.transitionService.run(
+        this.programScene(),
+        programCopy ?? targetScene,
+        transitionToUse,
+        () => {
+          this.activeSceneIdSignal.set(sceneId);
+          this.programCopySignal.set(programCopy);
+        },
+        options.manual
+      );
+    } finally {
+      this.isTransitioningSignal.set(this.transitionService.isTransitioning());
+    }
   }
 
   /**
-   * Add a source to a scene
+   * Add a source to a scene, optionally inside a group. The source is shared:
+   * every scene showing it renders the same instance.
    */
-  addSourceToScene(sceneId: string, source: Source, order?: number): SceneItem | null {
+  addSourceToScene(sceneId: string, source: Source, order?: number, groupId?: string): SceneItem | null {
     const scenes = this.scenesSignal();
     const scene = scenes.find((s) => s.id === sceneId);
 
     if (!scene) return null;
 
+    if (
+      source.type === SourceType.SCENE &&
+      wouldCreateCycle(sceneId, source.settings['sceneId'], this.lookupScene, this.lookupSource)
+    ) {
+      throw new Error(`Scene "${source.name}" cannot be added to itself`);
+    }
+
+    if (groupId && !scene.sources.some((item) => item.id === groupId && isGroupItem(item, this.lookupSource))) {
+      throw new Error('Group not found in scene');
+    }
+
+    // Sources created elsewhere join the shared registry
+    this.sourceService.importSources([source]);
+
+    const siblings = getChildItems(scene, groupId);
     const sceneItem: SceneItem = {
       id: this.generateId(),
       sourceId: source.id,
-      source,
-      order: order !== undefined ? order : scene.sources.length,
+      transform: this.getDefaultTransform(),
+      order: order !== undefined ? order : siblings.length > 0 ? siblings[siblings.length - 1].order + 1 : 0,
       visible: true,
-      locked: false
+      locked: false,
+      groupId
     };
 
     const updatedScene = {
@@ -165,57 +340,124 @@ export class SceneService {
       sources: [...scene.sources, sceneItem].sort((a, b) => a.order - b.order)
     };
 
-    this.scenesSignal.update(scenes =>
-      scenes.map((s) => (s.id === sceneId ? updatedScene : s))
+    this.track(`Add "${source.name}"`, () =>
+      this.scenesSignal.update(scenes =>
+        scenes.map((s) => (s.id === sceneId ? updatedScene : s))
+      )
     );
 
     return sceneItem;
   }
 
   /**
-   * Remove a source from a scene
+   * Show another scene as a source of a scene
+   */
+  addSceneToScene(sceneId: string, nestedSceneId: string, groupId?: string): SceneItem | null {
+    const nestedScene = this.getScene(nestedSceneId);
+    if (!nestedScene || !this.getScene(sceneId)) return null;
+
+    if (wouldCreateCycle(sceneId, nestedSceneId, this.lookupScene, this.lookupSource)) {
+      throw new Error(`Scene "${nestedScene.name}" cannot be added to itself`);
+    }
+
+    const source = this.sourceService.createSource(nestedScene.name, SourceType.SCENE, {
+      sceneId: nestedSceneId
+    });
+    return this.addSourceToScene(sceneId, source, undefined, groupId);
+  }
+
+  /**
+   * Add a copy of an item's source to its scene, next to and slightly offset from the original
+   */
+  duplicateSceneItem(sceneId: string, sceneItemId: string): SceneItem | null {
+    return this.track(`Duplicate "${this.getItemName(sceneId, sceneItemId)}"`, () =>
+      this.duplicateItem(sceneId, sceneItemId)
+    );
+  }
+
+  private duplicateItem(sceneId: string, sceneItemId: string): SceneItem | null {
+    const scene = this.getScene(sceneId);
+    const item = scene?.sources.find((candidate) => candidate.id === sceneItemId);
+    if (!scene || !item || isGroupItem(item, this.lookupSource)) return null;
+
+    const source = this.sourceService.duplicateSource(item.sourceId);
+    if (!source) return null;
+
+    const duplicate = this.addSourceToScene(sceneId, source, undefined, item.groupId);
+    if (!duplicate) return null;
+
+    const transform = this.copyTransform(item.transform);
+    transform.position = { x: transform.position.x + 20, y: transform.position.y + 20 };
+    this.updateSceneItem(sceneId, duplicate.id, { transform, visible: item.visible });
+    this.reorderSceneItem(sceneId, duplicate.id, getChildItems(scene, item.groupId).indexOf(item) + 1);
+
+    return this.getScene(sceneId)?.sources.find((candidate) => candidate.id === duplicate.id) ?? null;
+  }
+
+  /**
+   * Delete a shared source together with its items in every scene
+   */
+  deleteSource(sourceId: string): void {
+    const label = `Delete "${this.lookupSource(sourceId)?.name}"`;
+    this.history.transact(label, () => {
+      this.track(label, () =>
+        this.scenesSignal.update(scenes =>
+          scenes.map((scene) => {
+            const removed = scene.sources.filter((item) => item.sourceId === sourceId);
+            return removed.length > 0 ? this.withoutItems(scene, removed.map((item) => item.id)) : scene;
+          })
+        )
+      );
+      this.sourceService.deleteSource(sourceId);
+    });
+  }
+
+  /**
+   * Scenes showing a source directly
+   */
+  getScenesUsingSource(sourceId: string): Scene[] {
+    return this.scenesSignal().filter((scene) => scene.sources.some((item) => item.sourceId === sourceId));
+  }
+
+  /**
+   * Remove a source from a scene, together with the children of a group.
+   * The shared source itself stays available.
    */
   removeSourceFromScene(sceneId: string, sceneItemId: string): void {
-    this.scenesSignal.update(scenes =>
-      scenes.map(scene => {
-        if (scene.id === sceneId) {
-          return {
-            ...scene,
-            sources: scene.sources.filter((item) => item.id !== sceneItemId)
-          };
-        }
-        return scene;
-      })
+    this.track(`Remove "${this.getItemName(sceneId, sceneItemId)}"`, () =>
+      this.scenesSignal.update(scenes =>
+        scenes.map(scene => (scene.id === sceneId ? this.withoutItems(scene, [sceneItemId]) : scene))
+      )
     );
   }
 
   /**
-   * Reorder a scene item
+   * Reorder a scene item among the items of its group
    */
   reorderSceneItem(sceneId: string, sceneItemId: string, newOrder: number): void {
+    this.track(`Reorder "${this.getItemName(sceneId, sceneItemId)}"`, () => this.reorderItem(sceneId, sceneItemId, newOrder));
+  }
+
+  private reorderItem(sceneId: string, sceneItemId: string, newOrder: number): void {
     this.scenesSignal.update(scenes =>
       scenes.map(scene => {
         if (scene.id === sceneId) {
-          const sources = [...scene.sources];
-          const itemIndex = sources.findIndex((item) => item.id === sceneItemId);
+          const item = scene.sources.find((candidate) => candidate.id === sceneItemId);
+          if (!item) return scene;
 
-          if (itemIndex === -1) return scene;
-
-          // Remove item
-          const [item] = sources.splice(itemIndex, 1);
+          const siblings = getChildItems(scene, item.groupId).filter((sibling) => sibling.id !== sceneItemId);
 
           // Insert at new position
-          sources.splice(newOrder, 0, item);
+          siblings.splice(Math.max(0, Math.min(newOrder, siblings.length)), 0, item);
 
           // Update order values
-          const updatedSources = sources.map((source, index) => ({
-            ...source,
-            order: index
-          }));
+          const orders = new Map(siblings.map((sibling, index) => [sibling.id, index]));
 
           return {
             ...scene,
-            sources: updatedSources
+            sources: scene.sources.map((source) =>
+              orders.has(source.id) ? { ...source, order: orders.get(source.id) as number } : source
+            )
           };
         }
         return scene;
@@ -224,39 +466,191 @@ export class SceneService {
   }
 
   /**
-   * Update scene item transform
+   * Group items of a scene. The items must share a parent; the group takes
+   * the place of the lowest one.
    */
-  updateSceneItemTransform(
-    sceneId: string,
-    sceneItemId: string,
-    transform: Partial<SceneItem['source']['transform']>
-  ): void {
-    this.scenesSignal.update(scenes =>
-      scenes.map(scene => {
-        if (scene.id === sceneId) {
-          const updatedSources = scene.sources.map((item) => {
-            if (item.id === sceneItemId) {
-              return {
-                ...item,
-                source: {
-                  ...item.source,
-                  transform: {
-                    ...item.source.transform,
-                    ...transform
-                  }
-                }
-              };
-            }
-            return item;
-          });
+  createGroup(sceneId: string, name: string, sceneItemIds: string[] = []): SceneItem | null {
+    return this.track(`Group "${name}"`, () => this.groupItems(sceneId, name, sceneItemIds));
+  }
+
+  private groupItems(sceneId: string, name: string, sceneItemIds: string[]): SceneItem | null {
+    const scene = this.getScene(sceneId);
+    if (!scene) return null;
+
+    const items = scene.sources.filter((item) => sceneItemIds.includes(item.id));
+    const parentId = items[0]?.groupId;
+    if (items.some((item) => item.groupId !== parentId)) {
+      throw new Error('Only items of the same group can be grouped');
+    }
+
+    const order = items.length > 0 ? Math.min(...items.map((item) => item.order)) : undefined;
+    const groupSource = this.sourceService.createSource(name, SourceType.GROUP);
+    const group = this.addSourceToScene(sceneId, groupSource, order, parentId);
+    if (!group) return null;
+
+    // Children keep their relative order inside the group
+    const childOrders = new Map(
+      [...items].sort((a, b) => a.order - b.order).map((item, index) => [item.id, index])
+    );
+
+    this.updateScene(sceneId, (current) => ({
+      ...current,
+      sources: current.sources.map((item) =>
+        childOrders.has(item.id)
+          ? { ...item, groupId: group.id, order: childOrders.get(item.id) as number }
+          : item
+      )
+    }));
+
+    return group;
+  }
+
+  /**
+   * Dissolve a group. Its children move to the group's parent and keep
+   * their position on the canvas.
+   */
+  ungroup(sceneId: string, groupItemId: string): void {
+    const scene = this.getScene(sceneId);
+    const group = scene?.sources.find((item) => item.id === groupItemId && isGroupItem(item, this.lookupSource));
+    if (!scene || !group) return;
+
+    const groupTransform = group.transform;
+    const angle = (groupTransform.rotation * Math.PI) / 180;
+    const children = getChildItems(scene, group.id);
+    const childIds = new Set(children.map((item) => item.id));
+    const label = `Ungroup "${this.getItemName(sceneId, groupItemId)}"`;
+
+    // Children take the group's slot in the order of its parent
+    const parentItems = getChildItems(scene, group.groupId).flatMap((item) =>
+      item.id === group.id ? children : [item]
+    );
+    const orders = new Map(parentItems.map((item, index) => [item.id, index]));
+
+    this.track(label, () => this.updateScene(sceneId, (current) => ({
+      ...current,
+      sources: current.sources
+        .filter((item) => item.id !== group.id)
+        .map((item) => {
+          if (!orders.has(item.id)) return item;
+          if (!childIds.has(item.id)) return { ...item, order: orders.get(item.id) as number };
+
+          const transform = item.transform;
+          const x = transform.position.x * groupTransform.scale.x;
+          const y = transform.position.y * groupTransform.scale.y;
 
           return {
-            ...scene,
-            sources: updatedSources
+            ...item,
+            groupId: group.groupId,
+            order: orders.get(item.id) as number,
+            visible: item.visible && group.visible,
+            locked: item.locked || group.locked,
+            transform: {
+              ...transform,
+              position: {
+                x: groupTransform.position.x + x * Math.cos(angle) - y * Math.sin(angle),
+                y: groupTransform.position.y + x * Math.sin(angle) + y * Math.cos(angle)
+              },
+              scale: {
+                x: transform.scale.x * groupTransform.scale.x,
+                y: transform.scale.y * groupTransform.scale.y
+              },
+              rotation: transform.rotation + groupTransform.rotation
+            }
           };
-        }
-        return scene;
-      })
+        })
+    })));
+  }
+
+  /**
+   * Move an item into a group, or to the scene root with null
+   */
+  moveSceneItemToGroup(sceneId: string, sceneItemId: string, groupId: string | null, order?: number): void {
+    this.track(`Move "${this.getItemName(sceneId, sceneItemId)}"`, () =>
+      this.moveItemToGroup(sceneId, sceneItemId, groupId, order)
+    );
+  }
+
+  private moveItemToGroup(sceneId: string, sceneItemId: string, groupId: string | null, order?: number): void {
+    const scene = this.getScene(sceneId);
+    const item = scene?.sources.find((candidate) => candidate.id === sceneItemId);
+    if (!scene || !item) return;
+
+    if (groupId) {
+      const group = scene.sources.find(
+        (candidate) => candidate.id === groupId && isGroupItem(candidate, this.lookupSource)
+      );
+      if (!group) {
+        throw new Error('Group not found in scene');
+      }
+
+      if (group.id === item.id || getAncestorItems(scene, group).some((ancestor) => ancestor.id === item.id)) {
+        throw new Error('A group cannot be moved into itself');
+      }
+    }
+
+    const siblings = getChildItems(scene, groupId ?? undefined);
+    const lastOrder = siblings.length > 0 ? siblings[siblings.length - 1].order + 1 : 0;
+
+    this.updateScene(sceneId, (current) => ({
+      ...current,
+      sources: current.sources.map((candidate) =>
+        candidate.id === sceneItemId
+          ? { ...candidate, groupId: groupId ?? undefined, order: lastOrder }
+          : candidate
+      )
+    }));
+
+    if (order !== undefined) {
+      this.reorderSceneItem(sceneId, sceneItemId, order);
+    }
+  }
+
+  /**
+   * Show or hide a scene item; hiding a group hides its children
+   */
+  setSceneItemVisible(sceneId: string, sceneItemId: string, visible: boolean): void {
+    this.track(`${visible ? 'Show' : 'Hide'} "${this.getItemName(sceneId, sceneItemId)}"`, () =>
+      this.updateSceneItem(sceneId, sceneItemId, { visible })
+    );
+  }
+
+  /**
+   * Lock or unlock a scene item; locking a group locks its children
+   */
+  setSceneItemLocked(sceneId: string, sceneItemId: string, locked: boolean): void {
+    this.track(`${locked ? 'Lock' : 'Unlock'} "${this.getItemName(sceneId, sceneItemId)}"`, () =>
+      this.updateSceneItem(sceneId, sceneItemId, { locked })
+    );
+  }
+
+  /**
+   * Toggle the items showing a source in a scene, the active one by default
+   */
+  toggleSourceVisibility(sourceId: string, sceneId = this.activeSceneIdSignal()): void {
+    const scene = sceneId ? this.getScene(sceneId) : null;
+    if (!scene) return;
+
+    this.track(`Toggle "${this.lookupSource(sourceId)?.name}"`, () =>
+      scene.sources
+        .filter((item) => item.sourceId === sourceId)
+        .forEach((item) => this.updateSceneItem(scene.id, item.id, { visible: !item.visible }))
+    );
+  }
+
+  /**
+   * Update scene item transform
+   */
+  updateSceneItemTransform(sceneId: string, sceneItemId: string, transform: Partial<Transform>): void {
+    this.track(
+      `Transform "${this.getItemName(sceneId, sceneItemId)}"`,
+      () =>
+        this.updateScene(sceneId, (scene) => ({
+          ...scene,
+          sources: scene.sources.map((item) =>
+            item.id === sceneItemId ? { ...item, transform: { ...item.transform, ...transform } } : item
+          )
+        })),
+      `transform:${sceneItemId}`
     );
   }
 
@@ -265,6 +659,7 @@ export class SceneService {
    */
   setDefaultTransition(transition: Transition): void {
     this.defaultTransitionSignal.set(transition);
+    this.transitionService.prepare(transition);
   }
 
   /**
@@ -281,6 +676,8 @@ export class SceneService {
    * Create a scene collection
    */
   createSceneCollection(name: string): SceneCollection {
+    this.syncActiveCollection();
+
     const collection: SceneCollection = {
       id: this.generateId(),
       name,
@@ -294,6 +691,22 @@ export class SceneService {
     return collection;
   }
 
+  /**
+   * Add a scene collection, migrating collections whose items still embed
+   * their own source copies. Replaces a collection with the same ID.
+   */
+  importSceneCollection(data: SceneCollection | LegacySceneCollection): SceneCollection {
+    const { collection, sources } = migrateSceneCollection(data);
+
+    this.sourceService.importSources(sources);
+    this.sceneCollectionsSignal.update(collections => [
+      ...collections.filter((c) => c.id !== collection.id),
+      collection
+    ]);
+
+    return collection;
+  }
+
   /**
    * Load a scene collection
    */
@@ -304,9 +717,15 @@ export class SceneService {
 
     if (!collection) return;
 
+    this.syncActiveCollection();
+    this.history.clear();
     this.scenesSignal.set([...collection.scenes]);
     this.activeSceneIdSignal.set(collection.activeSceneId);
     this.activeCollectionIdSignal.set(collectionId);
+    this.programCopySignal.set(null);
+    if (this.previewSceneIdSignal()) {
+      this.previewSceneIdSignal.set(collection.activeSceneId);
+    }
   }
 
   /**
@@ -318,6 +737,217 @@ export class SceneService {
     );
   }
 
+  /**
+   * Export a scene collection, the active one by default, with the sources it uses
+   */
+  exportSceneCollection(collectionId = this.activeCollectionIdSignal()): string {
+    const data = this.getCollectionData();
+    const collection = data.collections.find((c) => c.id === collectionId);
+    if (!collection) {
+      throw new Error('Scene collection not found');
+    }
+
+    const sourceIds = new Set(collection.scenes.flatMap((scene) => scene.sources.map((item) => item.sourceId)));
+    const exported: SceneCollectionData = {
+      version: SCENE_COLLECTION_VERSION,
+      collections: [collection],
+      sources: data.sources.filter((source) => sourceIds.has(source.id))
+    };
+
+    return JSON.stringify(exported, null, 2);
+  }
+
+  /**
+   * Import an exported scene collection file or an OBS Studio scene collection
+   */
+  importSceneCollectionFile(json: string): SceneCollectionImport {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new Error('Scene collection file is not valid JSON');
+    }
+
+    const { collections, sources, warnings } = isObsSceneCollection(parsed)
+      ? importObsSceneCollection(parsed)
+      : { ...migrateSceneCollectionData(parsed), warnings: [] };
+
+    this.sourceService.importSources(sources);
+    return {
+      collections: collections.map((collection) => this.importSceneCollection(collection)),
+      warnings
+    };
+  }
+
+  /**
+   * Save collections right away rather than once changes settle, e.g. to
+   * retry after a failed save
+   */
+  saveNow(): Promise<void> {
+    if (!this.collectionsLoadedSignal()) return Promise.resolve();
+    return this.saveCollections(this.getCollectionData());
+  }
+
+  /**
+   * Collections as persisted: the active one carries the current scenes. Scenes
+   * created before any collection are kept as a default collection.
+   */
+  private getCollectionData(): SceneCollectionData {
+    const scenes = this.scenesSignal();
+    const activeSceneId = this.activeSceneIdSignal() || '';
+    let activeCollectionId = this.activeCollectionIdSignal();
+    let collections = this.sceneCollectionsSignal();
+
+    if (activeCollectionId) {
+      collections = collections.map((c) => (c.id === activeCollectionId ? { ...c, scenes, activeSceneId } : c));
+    } else if (scenes.length > 0) {
+      activeCollectionId = 'default';
+      collections = [
+        ...collections.filter((c) => c.id !== activeCollectionId),
+        { id: activeCollectionId, name: 'Default', scenes, activeSceneId }
+      ];
+    }
+
+    return {
+      version: SCENE_COLLECTION_VERSION,
+      activeCollectionId,
+      collections,
+      sources: this.sourceService.sources()
+    };
+  }
+
+  /**
+   * Write the current scenes back into the active collection
+   */
+  private syncActiveCollection(): void {
+    const activeCollectionId = this.activeCollectionIdSignal();
+    if (!activeCollectionId) return;
+
+    const scenes = this.scenesSignal();
+    const activeSceneId = this.activeSceneIdSignal() || '';
+    this.sceneCollectionsSignal.update(collections =>
+      collections.map((c) => (c.id === activeCollectionId ? { ...c, scenes, activeSceneId } : c))
+    );
+  }
+
+  /**
+   * Load collections from storage, migrating older versions. Collections
+   * still in localStorage are applied right away, else they are read from
+   * IndexedDB.
+   */
+  private loadCollections(): void {
+    try {
+      const stored = this.store.loadFromLocalStorage();
+      if (stored) {
+        this.applyStoredCollections(stored);
+        this.collectionsLoadedSignal.set(true);
+        return;
+      }
+    } catch (error) {
+      console.error('Failed to load scene collections:', error);
+      this.collectionsLoadedSignal.set(true);
+      return;
+    }
+
+    this.store
+      .load()
+      .then((stored) => stored && this.applyStoredCollections(stored))
+      .catch((error) => console.error('Failed to load scene collections:', error))
+      .finally(() => this.collectionsLoadedSignal.set(true));
+  }
+
+  private applyStoredCollections(stored: unknown): void {
+    const data = migrateSceneCollectionData(stored);
+    this.sourceService.importSources(data.sources);
+    this.sceneCollectionsSignal.set(data.collections);
+
+    const active = data.collections.find((c) => c.id === data.activeCollectionId);
+    if (active) {
+      this.scenesSignal.set([...active.scenes]);
+      this.activeCollectionIdSignal.set(active.id);
+      this.setActiveScene(active.activeSceneId);
+    }
+  }
+
+  /**
+   * Save collections to storage, keeping the failure for the UI to show
+   */
+  private async saveCollections(data: SceneCollectionData): Promise<void> {
+    try {
+      await this.store.save(data);
+      this.saveErrorSignal.set(null);
+    } catch (error) {
+      console.error('Failed to save scene collections:', error);
+      this.saveErrorSignal.set(
+        `Scene changes could not be saved: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  /**
+   * Record the changes to scenes as one undoable step
+   */
+  private track<R>(label: string, change: () => R, mergeKey?: string): R {
+    return this.history.track(label, this.scenesSignal, change, mergeKey);
+  }
+
+  private getItemName(sceneId: string, sceneItemId: string): string {
+    const item = this.getScene(sceneId)?.sources.find((candidate) => candidate.id === sceneItemId);
+    return (item && this.lookupSource(item.sourceId)?.name) ?? 'item';
+  }
+
+  private updateScene(sceneId: string, update: (scene: Scene) => Scene): void {
+    this.scenesSignal.update(scenes => scenes.map(scene => (scene.id === sceneId ? update(scene) : scene)));
+  }
+
+  private updateSceneItem(sceneId: string, sceneItemId: string, updates: Partial<SceneItem>): void {
+    this.updateScene(sceneId, (scene) => ({
+      ...scene,
+      sources: scene.sources.map((item) => (item.id === sceneItemId ? { ...item, ...updates } : item))
+    }));
+  }
+
+  private copyTransform(transform: Transform): Transform {
+    return {
+      ...transform,
+      position: { ...transform.position },
+      scale: { ...transform.scale },
+      crop: { ...transform.crop },
+      bounds: { ...transform.bounds }
+    };
+  }
+
+  /**
+   * Get default transform
+   */
+  private getDefaultTransform(): Transform {
+    return {
+      position: { x: 0, y: 0 },
+      scale: { x: 1, y: 1 },
+      rotation: 0,
+      crop: { top: 0, bottom: 0, left: 0, right: 0 },
+      alignment: 5,
+      boundsType: 'none',
+      boundsAlignment: 0,
+      bounds: { x: 1920, y: 1080 }
+    };
+  }
+
+  /**
+   * A scene without the given items and, for groups, their descendants
+   */
+  private withoutItems(scene: Scene, sceneItemIds: string[]): Scene {
+    const removed = new Set(sceneItemIds);
+    scene.sources
+      .filter((item) => sceneItemIds.includes(item.id))
+      .forEach((group) => getDescendantItems(scene, group.id).forEach((item) => removed.add(item.id)));
+
+    return {
+      ...scene,
+      sources: scene.sources.filter((item) => !removed.has(item.id))
+    };
+  }
+
   /**
    * Generate a unique ID
    */
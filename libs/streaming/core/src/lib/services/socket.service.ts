@@ -1,20 +1,35 @@
 import { Injectable, signal } from '@angular/core';
 import { io, Socket } from 'socket.io-client';
 
+// The API prints the token on startup unless STUDIO_TOKEN is set
+const STUDIO_TOKEN_KEY = 'studio_token';
+
 @Injectable({
   providedIn: 'root'
 })
 export class SocketService {
   private socket: Socket;
   readonly connected = signal(false);
+  // Set when the server turned the connection down for a missing or wrong token
+  readonly unauthorized = signal(false);
 
   constructor() {
     // In production, this URL should come from environment config
-    this.socket = io('http://localhost:3333');
+    this.socket = io('http://localhost:3333', {
+      auth: callback => callback({ token: localStorage.getItem(STUDIO_TOKEN_KEY) ?? '' })
+    });
 
     this.socket.on('connect', () => {
       console.log('WebSocket connected');
       this.connected.set(true);
+      this.unauthorized.set(false);
+    });
+
+    // Rejected connections are not retried until the token changes
+    this.socket.on('connect_error', error => {
+      if (error.message === 'Unauthorized') {
+        this.unauthorized.set(true);
+      }
     });
 
     this.socket.on('disconnect', () => {
@@ -23,14 +38,27 @@ export class SocketService {
     });
   }
 
-  // Generic listen method
-  on<T>(event: string, callback: (data: T) => void): void {
+  // Generic listen method; the callback gets the acknowledgement the sender asked for
+  on<T>(event: string, callback: (data: T, ack?: (...args: unknown[]) => void) => void): void {
     this.socket.on(event, callback);
   }
 
-  // Generic emit method
-  emit(event: string, data?: any): void {
-    this.socket.emit(event, data);
+  // Generic emit method, optionally with an acknowledgement callback
+  emit<A extends unknown[]>(event: string, data?: unknown, ack?: (...args: A) => void): void {
+    if (ack && data === undefined) {
+      this.socket.emit(event, ack);
+    } else if (ack) {
+      this.socket.emit(event, data, ack);
+    } else {
+      this.socket.emit(event, data);
+    }
+  }
+
+  // Store the studio token and connect again with it
+  setToken(token: string): void {
+    localStorage.setItem(STUDIO_TOKEN_KEY, token.trim());
+    this.unauthorized.set(false);
+    this.socket.disconnect().connect();
   }
 
   // Cleanup
@@ -1,6 +1,7 @@
 import { TestBed } from '@angular/core/testing';
 import { SourceService } from './source.service';
-import { SourceType } from '../models/source.model';
+import { FilterType, SourceType } from '../models/source.model';
+import { HistoryService } from './history.service';
 
 describe('SourceService', () => {
   let service: SourceService;
@@ -32,8 +33,6 @@ describe('SourceService', () => {
       expect(source.name).toBe('Screen Capture');
       expect(source.type).toBe(SourceType.DISPLAY_CAPTURE);
       expect(source.enabled).toBe(true);
-      expect(source.visible).toBe(true);
-      expect(source.locked).toBe(false);
       expect(source.muted).toBe(false);
       expect(source.volume).toBe(1.0);
       expect(source.filters).toEqual([]);
@@ -114,19 +113,25 @@ describe('SourceService', () => {
       expect(service.sources().length).toBe(1);
     });
 
-    it('should initialize with default transform', () => {
+    it('should leave transform, visibility and lock to scene items', () => {
       const source = service.createSource('Test', SourceType.IMAGE);
 
-      expect(source.transform).toEqual({
-        position: { x: 0, y: 0 },
-        scale: { x: 1, y: 1 },
-        rotation: 0,
-        crop: { top: 0, bottom: 0, left: 0, right: 0 },
-        alignment: 5,
-        boundsType: 'none',
-        boundsAlignment: 0,
-        bounds: { x: 1920, y: 1080 }
-      });
+      expect(source).not.toHaveProperty('transform');
+      expect(source).not.toHaveProperty('visible');
+      expect(source).not.toHaveProperty('locked');
+    });
+  });
+
+  describe('Import Sources', () => {
+    it('should add unknown sources and keep known ones', () => {
+      const known = service.createSource('Camera', SourceType.VIDEO_CAPTURE);
+
+      service.importSources([
+        { ...known, name: 'Stale Copy' },
+        { ...known, id: 'imported', name: 'Imported' }
+      ]);
+
+      expect(service.sources().map(source => source.name)).toEqual(['Camera', 'Imported']);
     });
   });
 
@@ -210,69 +215,6 @@ describe('SourceService', () => {
     });
   });
 
-  describe('Update Source Transform', () => {
-    it('should update position', () => {
-      const source = service.createSource('Test', SourceType.IMAGE);
-
-      service.updateSourceTransform(source.id, {
-        position: { x: 100, y: 200 }
-      });
-
-      const updated = service.getSource(source.id);
-      expect(updated?.transform.position).toEqual({ x: 100, y: 200 });
-    });
-
-    it('should update scale', () => {
-      const source = service.createSource('Test', SourceType.IMAGE);
-
-      service.updateSourceTransform(source.id, {
-        scale: { x: 2.0, y: 1.5 }
-      });
-
-      const updated = service.getSource(source.id);
-      expect(updated?.transform.scale).toEqual({ x: 2.0, y: 1.5 });
-    });
-
-    it('should update rotation', () => {
-      const source = service.createSource('Test', SourceType.IMAGE);
-
-      service.updateSourceTransform(source.id, {
-        rotation: 45
-      });
-
-      const updated = service.getSource(source.id);
-      expect(updated?.transform.rotation).toBe(45);
-    });
-
-    it('should update crop', () => {
-      const source = service.createSource('Test', SourceType.IMAGE);
-
-      service.updateSourceTransform(source.id, {
-        crop: { top: 10, bottom: 10, left: 5, right: 5 }
-      });
-
-      const updated = service.getSource(source.id);
-      expect(updated?.transform.crop).toEqual({ top: 10, bottom: 10, left: 5, right: 5 });
-    });
-
-    it('should merge transform updates with existing values', () => {
-      const source = service.createSource('Test', SourceType.IMAGE);
-
-      service.updateSourceTransform(source.id, {
-        position: { x: 100, y: 200 }
-      });
-
-      service.updateSourceTransform(source.id, {
-        rotation: 90
-      });
-
-      const updated = service.getSource(source.id);
-      expect(updated?.transform.position).toEqual({ x: 100, y: 200 });
-      expect(updated?.transform.rotation).toBe(90);
-      expect(updated?.transform.scale).toEqual({ x: 1, y: 1 }); // Unchanged
-    });
-  });
-
   describe('Filters', () => {
     it('should add a filter to source', () => {
       const source = service.createSource('Test', SourceType.IMAGE);
@@ -393,30 +335,6 @@ describe('SourceService', () => {
     });
   });
 
-  describe('Visibility', () => {
-    it('should toggle visibility from true to false', () => {
-      const source = service.createSource('Test', SourceType.IMAGE);
-      expect(source.visible).toBe(true);
-
-      service.toggleVisibility(source.id);
-
-      expect(service.getSource(source.id)?.visible).toBe(false);
-    });
-
-    it('should toggle visibility from false to true', () => {
-      const source = service.createSource('Test', SourceType.IMAGE);
-      service.updateSource(source.id, { visible: false });
-
-      service.toggleVisibility(source.id);
-
-      expect(service.getSource(source.id)?.visible).toBe(true);
-    });
-
-    it('should handle toggling non-existent source', () => {
-      expect(() => service.toggleVisibility('non-existent')).not.toThrow();
-    });
-  });
-
   describe('Volume', () => {
     it('should set volume', () => {
       const source = service.createSource('Audio', SourceType.AUDIO_INPUT);
@@ -459,6 +377,39 @@ describe('SourceService', () => {
     });
   });
 
+  describe('Sync Offset', () => {
+    it('should delay a source by its positive offset', () => {
+      const mic = service.createSource('Mic', SourceType.AUDIO_INPUT);
+      const camera = service.createSource('Camera', SourceType.VIDEO_CAPTURE);
+
+      service.setSyncOffset(mic.id, 150);
+
+      expect(service.getSyncDelay(mic.id)).toBe(150);
+      expect(service.getSyncDelay(camera.id)).toBe(0);
+    });
+
+    it('should delay all other sources for a negative offset', () => {
+      const mic = service.createSource('Mic', SourceType.AUDIO_INPUT);
+      const camera = service.createSource('Camera', SourceType.VIDEO_CAPTURE);
+      const screen = service.createSource('Screen', SourceType.SCREEN_CAPTURE);
+
+      service.setSyncOffset(camera.id, -200);
+      service.setSyncOffset(screen.id, 50);
+
+      expect(service.getSyncDelay(camera.id)).toBe(0);
+      expect(service.getSyncDelay(mic.id)).toBe(200);
+      expect(service.getSyncDelay(screen.id)).toBe(250);
+    });
+
+    it('should clamp the offset', () => {
+      const mic = service.createSource('Mic', SourceType.AUDIO_INPUT);
+
+      service.setSyncOffset(mic.id, 5000);
+
+      expect(service.getSource(mic.id)?.syncOffset).toBe(1000);
+    });
+  });
+
   describe('Mute', () => {
     it('should mute source', () => {
       const source = service.createSource('Audio', SourceType.AUDIO_INPUT);
@@ -480,27 +431,6 @@ describe('SourceService', () => {
     });
   });
 
-  describe('Lock', () => {
-    it('should lock source', () => {
-      const source = service.createSource('Test', SourceType.IMAGE);
-      expect(source.locked).toBe(false);
-
-      service.lock(source.id);
-
-      expect(service.getSource(source.id)?.locked).toBe(true);
-    });
-
-    it('should unlock source', () => {
-      const source = service.createSource('Test', SourceType.IMAGE);
-      service.lock(source.id);
-      expect(service.getSource(source.id)?.locked).toBe(true);
-
-      service.unlock(source.id);
-
-      expect(service.getSource(source.id)?.locked).toBe(false);
-    });
-  });
-
   describe('Duplicate Source', () => {
     it('should duplicate a source', () => {
       const original = service.createSource('Original', SourceType.IMAGE, {
@@ -516,15 +446,6 @@ describe('SourceService', () => {
       expect(duplicate?.settings).toEqual(original.settings);
     });
 
-    it('should offset duplicated source position', () => {
-      const original = service.createSource('Original', SourceType.IMAGE);
-
-      const duplicate = service.duplicateSource(original.id);
-
-      expect(duplicate?.transform.position.x).toBe(original.transform.position.x + 20);
-      expect(duplicate?.transform.position.y).toBe(original.transform.position.y + 20);
-    });
-
     it('should return null for non-existent source', () => {
       const duplicate = service.duplicateSource('non-existent');
       expect(duplicate).toBeNull();
@@ -628,13 +549,10 @@ describe('SourceService', () => {
   describe('Edge Cases', () => {
     it('should handle operations on non-existent sources gracefully', () => {
       expect(() => service.updateSourceSettings('fake-id', {})).not.toThrow();
-      expect(() => service.updateSourceTransform('fake-id', {})).not.toThrow();
       expect(() => service.addFilter('fake-id', { id: '1', type: 'test', enabled: true, settings: {} })).not.toThrow();
       expect(() => service.setVolume('fake-id', 0.5)).not.toThrow();
       expect(() => service.mute('fake-id')).not.toThrow();
       expect(() => service.unmute('fake-id')).not.toThrow();
-      expect(() => service.lock('fake-id')).not.toThrow();
-      expect(() => service.unlock('fake-id')).not.toThrow();
     });
 
     it('should handle creating source with empty settings', () => {
@@ -670,4 +588,52 @@ describe('SourceService', () => {
       expect(service.getSource(source.id)?.volume).toBe(0.99);
     });
   });
+  describe('Undo', () => {
+    let history: HistoryService;
+
+    beforeEach(() => {
+      history = TestBed.inject(HistoryService);
+    });
+
+    function addBlur(sourceId: string): void {
+      service.addFilter(sourceId, {
+        id: 'blur',
+        name: 'Blur',
+        type: FilterType.BLUR,
+        enabled: true,
+        settings: { amount: 1 }
+      });
+    }
+
+    it('should undo deleting a source', () => {
+      const source = service.createSource('Camera', SourceType.VIDEO_CAPTURE);
+      service.createSource('Other', SourceType.IMAGE);
+      service.deleteSource(source.id);
+
+      history.undo();
+      expect(service.sources().map((s) => s.name)).toEqual(['Camera', 'Other']);
+    });
+
+    it('should undo removing and editing filters', () => {
+      const source = service.createSource('Camera', SourceType.VIDEO_CAPTURE);
+      addBlur(source.id);
+      service.updateFilter(source.id, 'blur', { settings: { amount: 4 } });
+      service.removeFilter(source.id, 'blur');
+
+      history.undo();
+      expect(service.getSource(source.id)?.filters[0].settings).toEqual({ amount: 4 });
+
+      history.undo();
+      expect(service.getSource(source.id)?.filters[0].settings).toEqual({ amount: 1 });
+      expect(history.undoStack().map((entry) => entry.label)).toEqual(['Add filter "Blur"']);
+    });
+
+    it('should leave volume and mute out of the history', () => {
+      const source = service.createSource('Mic', SourceType.AUDIO_INPUT);
+      service.setVolume(source.id, 0.5);
+      service.mute(source.id);
+
+      expect(history.canUndo()).toBe(false);
+    });
+  });
 });
@@ -1,16 +1,24 @@
-import { Injectable, signal } from '@angular/core';
-import { Source, SourceType, Filter, Transform } from '../models/source.model';
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { MAX_SYNC_OFFSET_MS, Source, SourceType, Filter } from '../models/source.model';
+import { HistoryService } from './history.service';
 
 @Injectable({
   providedIn: 'root'
 })
 export class SourceService {
+  private history = inject(HistoryService);
+
   // Signals - much cleaner than BehaviorSubject!
   private sourcesSignal = signal<Source[]>([]);
 
   // Public readonly signals
   public readonly sources = this.sourcesSignal.asReadonly();
 
+  // Sources can't play early, so a negative offset delays all other sources instead
+  private readonly minSyncOffset = computed(() =>
+    Math.min(0, ...this.sourcesSignal().map(source => source.syncOffset ?? 0))
+  );
+
   /**
    * Create a new source
    */
@@ -25,12 +33,9 @@ export class SourceService {
       type,
       enabled: true,
       settings,
-      transform: this.getDefaultTransform(),
       filters: [],
       volume: 1.0,
-      muted: false,
-      locked: false,
-      visible: true
+      muted: false
     };
 
     this.sourcesSignal.update(sources => [...sources, source]);
@@ -38,11 +43,26 @@ export class SourceService {
     return source;
   }
 
+  /**
+   * Add existing sources, e.g. from a scene collection. Sources that are
+   * already known keep their current configuration.
+   */
+  importSources(sources: Source[]): void {
+    const known = new Set(this.sourcesSignal().map((s) => s.id));
+    const added = sources.filter((s) => !known.has(s.id));
+
+    if (added.length > 0) {
+      this.sourcesSignal.update(current => [...current, ...added]);
+    }
+  }
+
   /**
    * Delete a source
    */
   deleteSource(sourceId: string): void {
-    this.sourcesSignal.update(sources => sources.filter((s) => s.id !== sourceId));
+    this.track(`Delete "${this.getSource(sourceId)?.name}"`, () =>
+      this.sourcesSignal.update(sources => sources.filter((s) => s.id !== sourceId))
+    );
   }
 
   /**
@@ -59,31 +79,11 @@ export class SourceService {
     this.updateSource(sourceId, { settings });
   }
 
-  /**
-   * Update source transform
-   */
-  updateSourceTransform(sourceId: string, transform: Partial<Transform>): void {
-    this.sourcesSignal.update(sources =>
-      sources.map(source => {
-        if (source.id === sourceId) {
-          return {
-            ...source,
-            transform: {
-              ...source.transform,
-              ...transform
-            }
-          };
-        }
-        return source;
-      })
-    );
-  }
-
   /**
    * Add filter to source
    */
   addFilter(sourceId: string, filter: Filter): void {
-    this.sourcesSignal.update(sources =>
+    this.track(`Add filter "${filter.name}"`, () => this.sourcesSignal.update(sources =>
       sources.map(source => {
         if (source.id === sourceId) {
           return {
@@ -93,14 +93,14 @@ export class SourceService {
         }
         return source;
       })
-    );
+    ));
   }
 
   /**
    * Remove filter from source
    */
   removeFilter(sourceId: string, filterId: string): void {
-    this.sourcesSignal.update(sources =>
+    this.track(`Remove filter "${this.getFilterName(sourceId, filterId)}"`, () => this.sourcesSignal.update(sources =>
       sources.map(source => {
         if (source.id === sourceId) {
           return {
@@ -110,14 +110,15 @@ export class SourceService {
         }
         return source;
       })
-    );
+    ));
   }
 
   /**
    * Update filter settings
    */
   updateFilter(sourceId: string, filterId: string, updates: Partial<Filter>): void {
-    this.sourcesSignal.update(sources =>
+    const label = `Edit filter "${this.getFilterName(sourceId, filterId)}"`;
+    this.track(label, () => this.sourcesSignal.update(sources =>
       sources.map(source => {
         if (source.id === sourceId) {
           return {
@@ -129,54 +130,43 @@ export class SourceService {
         }
         return source;
       })
-    );
-  }
-
-  /**
-   * Toggle source visibility
-   */
-  toggleVisibility(sourceId: string): void {
-    const sources = this.sourcesSignal();
-    const source = sources.find((s) => s.id === sourceId);
-
-    if (!source) return;
-
-    this.updateSource(sourceId, { visible: !source.visible });
+    ), `filter:${filterId}:${Object.keys(updates).sort().join()}`);
   }
 
   /**
    * Set source volume
    */
   setVolume(sourceId: string, volume: number): void {
-    this.updateSource(sourceId, { volume: Math.max(0, Math.min(1, volume)) });
+    this.patchSource(sourceId, { volume: Math.max(0, Math.min(1, volume)) });
   }
 
   /**
    * Mute source
    */
   mute(sourceId: string): void {
-    this.updateSource(sourceId, { muted: true });
+    this.patchSource(sourceId, { muted: true });
   }
 
   /**
    * Unmute source
    */
   unmute(sourceId: string): void {
-    this.updateSource(sourceId, { muted: false });
+    this.patchSource(sourceId, { muted: false });
   }
 
   /**
-   * Lock source
+   * Set the audio/video sync offset of a source (ms, positive plays it later)
    */
-  lock(sourceId: string): void {
-    this.updateSource(sourceId, { locked: true });
+  setSyncOffset(sourceId: string, offsetMs: number): void {
+    const syncOffset = Math.round(Math.max(-MAX_SYNC_OFFSET_MS, Math.min(MAX_SYNC_OFFSET_MS, offsetMs)));
+    this.updateSource(sourceId, { syncOffset });
   }
 
   /**
-   * Unlock source
+   * Delay (ms) to apply to a source's audio and video so all sync offsets line up
    */
-  unlock(sourceId: string): void {
-    this.updateSource(sourceId, { locked: false });
+  getSyncDelay(sourceId: string): number {
+    return (this.getSource(sourceId)?.syncOffset ?? 0) - this.minSyncOffset();
   }
 
   /**
@@ -191,13 +181,8 @@ export class SourceService {
       ...source,
       id: this.generateId(),
       name: `${source.name} (Copy)`,
-      transform: {
-        ...source.transform,
-        position: {
-          x: source.transform.position.x + 20,
-          y: source.transform.position.y + 20
-        }
-      }
+      settings: { ...source.settings },
+      filters: source.filters.map(filter => ({ ...filter, settings: { ...filter.settings } }))
     };
 
     this.sourcesSignal.update(sources => [...sources, duplicatedSource]);
@@ -209,6 +194,28 @@ export class SourceService {
    * Update source
    */
   updateSource(sourceId: string, updates: Partial<Source>): void {
+    this.track(
+      `Edit "${this.getSource(sourceId)?.name}"`,
+      () => this.patchSource(sourceId, updates),
+      `source:${sourceId}:${Object.keys(updates).sort().join()}`
+    );
+  }
+
+  /**
+   * Record the changes to sources as one undoable step
+   */
+  private track<R>(label: string, change: () => R, mergeKey?: string): R {
+    return this.history.track(label, this.sourcesSignal, change, mergeKey);
+  }
+
+  private getFilterName(sourceId: string, filterId: string): string {
+    return this.getSource(sourceId)?.filters.find((f) => f.id === filterId)?.name ?? 'filter';
+  }
+
+  /**
+   * Live mixer changes like volume and mute are not part of the edit history
+   */
+  private patchSource(sourceId: string, updates: Partial<Source>): void {
     this.sourcesSignal.update(sources =>
       sources.map((source) => {
         if (source.id === sourceId) {
@@ -219,22 +226,6 @@ export class SourceService {
     );
   }
 
-  /**
-   * Get default transform
-   */
-  private getDefaultTransform(): Transform {
-    return {
-      position: { x: 0, y: 0 },
-      scale: { x: 1, y: 1 },
-      rotation: 0,
-      crop: { top: 0, bottom: 0, left: 0, right: 0 },
-      alignment: 5,
-      boundsType: 'none',
-      boundsAlignment: 0,
-      bounds: { x: 1920, y: 1080 }
-    };
-  }
-
   /**
    * Generate a unique ID
    */
@@ -12,7 +12,6 @@ import { Injectable, inject } from '@angular/core';
 export class StreamActionsService {
   // Services will be lazily injected to avoid circular dependencies
   private sceneService?: any;
-  private sourceService?: any;
   private streamingService?: any;
   private recordingService?: any;
   private audioService?: any;
@@ -40,16 +39,16 @@ export class StreamActionsService {
   }
 
   /**
-   * Toggle source visibility
+   * Toggle source visibility in the active scene
    */
   async toggleSource(sourceId: string): Promise<void> {
     try {
-      if (!this.sourceService) {
-        const { SourceService } = await import('./source.service');
-        this.sourceService = inject(SourceService);
+      if (!this.sceneService) {
+        const { SceneService } = await import('./scene.service');
+        this.sceneService = inject(SceneService);
       }
 
-      await this.sourceService.toggleVisibility(sourceId);
+      await this.sceneService.toggleSourceVisibility(sourceId);
     } catch (error) {
       console.error('Failed to toggle source:', error);
       throw error;
@@ -0,0 +1,140 @@
+import { TestBed } from '@angular/core/testing';
+import { StreamHealthMonitorService } from './stream-health-monitor.service';
+import { StreamingService } from './streaming.service';
+import { SocketService } from './socket.service';
+import {
+  DestinationConnectionState,
+  StreamingDestination,
+  StreamingPlatform,
+  StreamingProtocol
+} from '../models/streaming.model';
+
+describe('StreamHealthMonitorService', () => {
+  let monitor: StreamHealthMonitorService;
+  let streamingService: StreamingService;
+  let emit: ReturnType<typeof vi.spyOn>;
+
+  const addDestination = (name: string, videoBitrate: number, adaptive = true) => {
+    const preset = streamingService.createPresetForPlatform(StreamingPlatform.TWITCH);
+    return streamingService.addDestination({
+      name,
+      platform: StreamingPlatform.TWITCH,
+      protocol: StreamingProtocol.RTMP,
+      url: 'rtmp://test.com',
+      streamKey: 'key',
+      enabled: true,
+      settings: {
+        ...preset.settings,
+        videoBitrate,
+        adaptiveBitrate: { enabled: adaptive, minBitrate: 1000, maxBitrate: videoBitrate, allowTierDrop: false }
+      } as StreamingDestination['settings']
+    });
+  };
+
+  // The gateway reporting a live destination with bytes waiting to be published
+  const report = (destination: StreamingDestination, queuedBytes: number) =>
+    streamingService['handleDestinationStatus']({
+      destinationId: destination.id,
+      state: DestinationConnectionState.LIVE,
+      stats: { frames: 60, droppedFrames: 0, fps: 60, bitrate: destination.settings.videoBitrate, queuedBytes }
+    });
+
+  const optimize = () => monitor['performAutoOptimization']();
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+    streamingService = TestBed.inject(StreamingService);
+    emit = vi.spyOn(TestBed.inject(SocketService), 'emit').mockImplementation(() => undefined);
+    streamingService['streamingStateSignal'].update(state => ({ ...state, isStreaming: true }));
+
+    monitor = TestBed.inject(StreamHealthMonitorService);
+    monitor.stopMonitoring();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('adaptive bitrate', () => {
+    it('should retune a congested destination and record the adjustment', () => {
+      const twitch = addDestination('Twitch', 6000);
+      // Two seconds of video waiting
+      report(twitch, 1_500_000);
+
+      optimize();
+
+      expect(emit).toHaveBeenCalledWith('egress:retune', {
+        destinationId: twitch.id,
+        settings: expect.objectContaining({ videoBitrate: 4800 })
+      });
+      expect(monitor.bitrateAdjustments()).toEqual([
+        expect.objectContaining({
+          destinationId: twitch.id,
+          destinationName: 'Twitch',
+          from: expect.objectContaining({ videoBitrate: 6000 }),
+          to: expect.objectContaining({ videoBitrate: 4800 }),
+          reason: '2.0 s of video queued; lowering bitrate'
+        })
+      ]);
+    });
+
+    it('should control each destination on its own', () => {
+      const twitch = addDestination('Twitch', 6000);
+      const youtube = addDestination('YouTube', 9000);
+      report(twitch, 1_500_000);
+      report(youtube, 0);
+
+      optimize();
+
+      expect(monitor.bitrateAdjustments().map(adjustment => adjustment.destinationName)).toEqual(['Twitch']);
+      expect(emit).not.toHaveBeenCalledWith('egress:retune', expect.objectContaining({ destinationId: youtube.id }));
+    });
+
+    it('should leave destinations without adaptive bitrate alone', () => {
+      const twitch = addDestination('Twitch', 6000, false);
+      report(twitch, 1_500_000);
+
+      optimize();
+
+      expect(emit).not.toHaveBeenCalledWith('egress:retune', expect.anything());
+      expect(monitor.bitrateAdjustments()).toEqual([]);
+    });
+
+    it('should include the adjustments in the health report', () => {
+      const twitch = addDestination('Twitch', 6000);
+      report(twitch, 1_500_000);
+      optimize();
+
+      const healthReport = JSON.parse(monitor.exportHealthReport());
+
+      expect(healthReport.bitrateAdjustments).toHaveLength(1);
+    });
+  });
+
+  describe('destination alerts', () => {
+    it('should alert when a destination drops and resolve once it is back', () => {
+      const twitch = addDestination('Twitch', 6000);
+      streamingService['handleDestinationStatus']({
+        destinationId: twitch.id,
+        state: DestinationConnectionState.ERROR,
+        error: 'Connection reset'
+      });
+      TestBed.tick();
+
+      expect(monitor.alerts()).toEqual([
+        expect.objectContaining({
+          id: `destination-${twitch.id}`,
+          severity: 'error',
+          message: 'Lost connection to Twitch: Connection reset',
+          resolved: false
+        })
+      ]);
+
+      report(twitch, 0);
+      TestBed.tick();
+
+      expect(monitor.alerts()[0].resolved).toBe(true);
+    });
+  });
+});
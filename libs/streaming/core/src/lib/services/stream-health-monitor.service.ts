@@ -1,4 +1,9 @@
-import { Injectable, signal, computed } from '@angular/core';
+import { Injectable, signal, computed, effect, inject, untracked } from '@angular/core';
+import { DestinationConnectionState, DestinationStatus, ReconnectEvent } from '../models/streaming.model';
+import { AdaptiveBitrateController, EncoderTarget, getAdaptiveBitrateSettings } from './adaptive-bitrate';
+import { StreamingService } from './streaming.service';
+import { ProgramOutputService } from './program-output.service';
+import { SystemStatsService } from './system-stats.service';
 
 /**
  * Stream Health Monitor Service
@@ -38,6 +43,15 @@ export interface StreamAlert {
   resolved: boolean;
 }
 
+export interface BitrateAdjustment {
+  destinationId: string;
+  destinationName: string;
+  from: EncoderTarget;
+  to: EncoderTarget;
+  reason: string;
+  timestamp: Date;
+}
+
 export interface BitrateRecommendation {
   recommended: number;
   min: number;
@@ -49,19 +63,23 @@ export interface BitrateRecommendation {
   providedIn: 'root'
 })
 export class StreamHealthMonitorService {
+  private streamingService = inject(StreamingService);
+  private programOutput = inject(ProgramOutputService);
+  private systemStats = inject(SystemStatsService);
+
   // Current health state
   readonly currentHealth = signal<StreamHealth>({
     status: 'excellent',
-    bitrate: 6000,
-    fps: 60,
+    bitrate: 0,
+    fps: 0,
     droppedFrames: 0,
     totalFrames: 0,
-    cpuUsage: 25,
-    memoryUsage: 512,
-    networkLatency: 20,
-    bandwidth: 10,
-    encodingLag: 5,
-    uploadSpeed: 10,
+    cpuUsage: 0,
+    memoryUsage: 0,
+    networkLatency: 0,
+    bandwidth: 0,
+    encodingLag: 0,
+    uploadSpeed: 0,
     timestamp: new Date()
   });
 
@@ -82,6 +100,10 @@ export class StreamHealthMonitorService {
   // Health history (last 60 data points)
   readonly healthHistory = signal<StreamHealth[]>([]);
 
+  // Encoder changes made by adaptive bitrate in the current or last stream
+  readonly bitrateAdjustments = signal<BitrateAdjustment[]>([]);
+  private bitrateControllers = new Map<string, AdaptiveBitrateController>();
+
   // Auto-optimization settings
   readonly autoOptimize = signal(true);
   readonly autoBitrateAdjustment = signal(true);
@@ -114,8 +136,9 @@ export class StreamHealthMonitorService {
     const health = this.currentHealth();
     const upload = health.uploadSpeed * 1000; // Convert to kbps
 
-    // Use 70% of upload speed for safety
-    const safeUpload = upload * 0.7;
+    // Upload is measured throughput; it only shows the limit once it falls behind the encoder
+    const uploadLimited = health.bitrate > 0 && upload < health.bitrate * 0.9;
+    const safeUpload = uploadLimited ? upload * 0.9 : health.bitrate || 6000;
 
     if (health.networkLatency > 100) {
       return {
@@ -144,16 +167,41 @@ export class StreamHealthMonitorService {
       };
     }
 
+    if (uploadLimited) {
+      return {
+        recommended: safeUpload,
+        min: 1000,
+        max: upload,
+        reason: 'Upload cannot keep up - reducing bitrate'
+      };
+    }
+
     return {
-      recommended: Math.min(6000, safeUpload),
+      recommended: safeUpload,
       min: 3000,
-      max: Math.min(8000, safeUpload),
+      max: Math.max(8000, safeUpload),
       reason: 'Optimal streaming conditions'
     };
   });
 
   constructor() {
     this.startMonitoring();
+
+    // Alert on destinations that drop, and resolve once they are back
+    effect(() => {
+      const statuses = this.streamingService.destinationStatuses();
+      const reconnects = this.streamingService.reconnectLog();
+      untracked(() => this.checkDestinationAlerts(statuses, reconnects));
+    });
+
+    effect(() => {
+      if (this.streamingService.isStreaming()) {
+        untracked(() => {
+          this.bitrateAdjustments.set([]);
+          this.bitrateControllers.clear();
+        });
+      }
+    });
   }
 
   startMonitoring(): void {
@@ -166,7 +214,7 @@ export class StreamHealthMonitorService {
       this.updateHealthMetrics();
       this.checkForAlerts();
 
-      if (this.autoOptimize()) {
+      if (this.autoOptimize() && this.streamingService.isStreaming()) {
         this.performAutoOptimization();
       }
     }, 1000);
@@ -180,21 +228,21 @@ export class StreamHealthMonitorService {
   }
 
   private updateHealthMetrics(): void {
-    const current = this.currentHealth();
+    const state = this.streamingService.streamingState();
+    const output = this.programOutput.stats();
 
-    // Simulate real-time metrics (in production, these would come from actual stream)
     const newHealth: StreamHealth = {
       status: this.calculateHealthStatus(),
-      bitrate: this.simulateBitrate(current.bitrate),
-      fps: this.simulateFps(current.fps),
-      droppedFrames: current.droppedFrames + Math.floor(Math.random() * 3),
-      totalFrames: current.totalFrames + 60,
-      cpuUsage: Math.max(10, Math.min(100, current.cpuUsage + (Math.random() - 0.5) * 10)),
-      memoryUsage: Math.max(256, Math.min(2048, current.memoryUsage + (Math.random() - 0.5) * 50)),
-      networkLatency: Math.max(5, Math.min(200, current.networkLatency + (Math.random() - 0.5) * 10)),
-      bandwidth: Math.max(1, Math.min(50, current.bandwidth + (Math.random() - 0.5) * 2)),
-      encodingLag: Math.max(0, Math.min(50, current.encodingLag + (Math.random() - 0.5) * 5)),
-      uploadSpeed: Math.max(1, Math.min(50, current.uploadSpeed + (Math.random() - 0.5) * 1)),
+      bitrate: state.bitrate,
+      fps: output.fps,
+      droppedFrames: state.droppedFrames,
+      totalFrames: state.totalFrames,
+      cpuUsage: this.systemStats.cpuUsage(),
+      memoryUsage: this.systemStats.memoryUsed(),
+      networkLatency: state.networkLatency,
+      bandwidth: state.bitrate / 1000,
+      encodingLag: output.renderTime,
+      uploadSpeed: state.uploadBitrate / 1000,
       timestamp: new Date()
     };
 
@@ -219,19 +267,6 @@ export class StreamHealthMonitorService {
     return 'critical';
   }
 
-  private simulateBitrate(current: number): number {
-    // Simulate bitrate variations
-    const variance = current * 0.05; // 5% variance
-    return Math.max(1000, Math.min(8000, current + (Math.random() - 0.5) * variance));
-  }
-
-  private simulateFps(current: number): number {
-    // Simulate FPS variations
-    const target = 60;
-    const drift = (Math.random() - 0.5) * 2;
-    return Math.max(30, Math.min(60, current + drift));
-  }
-
   private updateMetrics(): void {
     const history = this.healthHistory();
     if (history.length === 0) return;
@@ -259,8 +294,10 @@ export class StreamHealthMonitorService {
     const health = this.currentHealth();
     const currentAlerts = this.alerts();
 
+    const streaming = this.streamingService.isStreaming();
+
     // Check for dropped frames
-    if (this.dropPercentage() > 5 && !this.hasActiveAlert('dropped-frames')) {
+    if (streaming && this.dropPercentage() > 5 && !this.hasActiveAlert('dropped-frames')) {
       this.addAlert({
         id: 'dropped-frames',
         severity: 'error',
@@ -282,7 +319,7 @@ export class StreamHealthMonitorService {
     }
 
     // Check for network issues
-    if (health.networkLatency > 150 && !this.hasActiveAlert('high-latency')) {
+    if (streaming && health.networkLatency > 150 && !this.hasActiveAlert('high-latency')) {
       this.addAlert({
         id: 'high-latency',
         severity: 'warning',
@@ -293,7 +330,7 @@ export class StreamHealthMonitorService {
     }
 
     // Check for low bitrate
-    if (health.bitrate < 2000 && !this.hasActiveAlert('low-bitrate')) {
+    if (streaming && health.bitrate < 2000 && !this.hasActiveAlert('low-bitrate')) {
       this.addAlert({
         id: 'low-bitrate',
         severity: 'info',
@@ -304,6 +341,41 @@ export class StreamHealthMonitorService {
     }
   }
 
+  private checkDestinationAlerts(statuses: Record<string, DestinationStatus>, reconnects: ReconnectEvent[]): void {
+    this.streamingService.destinations().forEach(destination => {
+      const id = `destination-${destination.id}`;
+      const status = statuses[destination.id];
+
+      if (status?.state === DestinationConnectionState.ERROR) {
+        const last = reconnects.filter(event => event.destinationId === destination.id).pop();
+        const gaveUp = last?.outcome === 'gave-up';
+        this.raiseAlert({
+          id,
+          severity: gaveUp ? 'critical' : 'error',
+          message: gaveUp
+            ? `${destination.name} is offline: gave up reconnecting after ${last.attempt} attempt(s)`
+            : `Lost connection to ${destination.name}: ${status.error ?? 'unknown error'}`,
+          timestamp: new Date(),
+          resolved: false
+        });
+      } else if (status?.state !== DestinationConnectionState.CONNECTING && this.hasActiveAlert(id)) {
+        this.resolveAlert(id);
+      }
+    });
+  }
+
+  /**
+   * Add an alert, or update the active one with its id
+   */
+  private raiseAlert(alert: StreamAlert): void {
+    const active = this.alerts().find(a => a.id === alert.id && !a.resolved);
+    if (!active) {
+      this.addAlert(alert);
+    } else if (active.message !== alert.message || active.severity !== alert.severity) {
+      this.alerts.update(alerts => alerts.map(a => a === active ? alert : a));
+    }
+  }
+
   private hasActiveAlert(id: string): boolean {
     return this.alerts().some(a => a.id === id && !a.resolved);
   }
@@ -322,18 +394,46 @@ export class StreamHealthMonitorService {
     this.alerts.update(alerts => alerts.filter(a => !a.resolved));
   }
 
+  /**
+   * Step the encoder of each live destination with adaptive bitrate
+   */
   private performAutoOptimization(): void {
     if (!this.autoBitrateAdjustment()) return;
 
-    const recommendation = this.bitrateRecommendation();
-    const current = this.currentHealth();
+    const statuses = this.streamingService.destinationStatuses();
+    this.streamingService.destinations().forEach(destination => {
+      const status = statuses[destination.id];
+      // A reconnected destination starts again from its saved settings
+      if (!getAdaptiveBitrateSettings(destination.settings).enabled ||
+          status?.state !== DestinationConnectionState.LIVE || !status.stats) {
+        this.bitrateControllers.delete(destination.id);
+        return;
+      }
 
-    // Auto-adjust bitrate if significantly different
-    const diff = Math.abs(current.bitrate - recommendation.recommended);
-    if (diff > 500) { // Only adjust if difference > 500 kbps
-      console.log(`Auto-adjusting bitrate from ${current.bitrate} to ${recommendation.recommended}`);
-      this.currentHealth.update(h => ({ ...h, bitrate: recommendation.recommended }));
-    }
+      let controller = this.bitrateControllers.get(destination.id);
+      if (!controller) {
+        controller = new AdaptiveBitrateController(destination.settings);
+        this.bitrateControllers.set(destination.id, controller);
+      }
+
+      const from = controller.target;
+      const decision = controller.update({
+        queuedBytes: status.stats.queuedBytes ?? 0,
+        frames: status.stats.frames,
+        droppedFrames: status.stats.droppedFrames
+      });
+      if (!decision) return;
+
+      this.streamingService.retuneDestination(destination.id, decision.target);
+      this.bitrateAdjustments.update(adjustments => [...adjustments, {
+        destinationId: destination.id,
+        destinationName: destination.name,
+        from,
+        to: decision.target,
+        reason: decision.reason,
+        timestamp: new Date()
+      }]);
+    });
   }
 
   manualBitrateAdjust(bitrate: number): void {
@@ -359,6 +459,7 @@ export class StreamHealthMonitorService {
 
     this.healthHistory.set([]);
     this.alerts.set([]);
+    this.bitrateAdjustments.set([]);
   }
 
   exportHealthReport(): string {
@@ -374,6 +475,8 @@ export class StreamHealthMonitorService {
       dropPercentage: this.dropPercentage(),
       recommendation: this.bitrateRecommendation(),
       alerts: this.alerts(),
+      reconnects: this.streamingService.reconnectLog(),
+      bitrateAdjustments: this.bitrateAdjustments(),
       history
     }, null, 2);
   }
@@ -1,11 +1,23 @@
 import { TestBed, fakeAsync, tick, flush } from '@angular/core/testing';
-import { StreamingService } from './streaming.service';
-import { StreamingPlatform, StreamingProtocol, VideoEncoder, AudioEncoder } from '../models/streaming.model';
+import { StreamingService, hlsPlaylistUrl, protocolFromUrl } from './streaming.service';
+import { SettingsService } from './settings.service';
+import { SocketService } from './socket.service';
+import { WhipClient } from './whip-client';
+import {
+  DestinationConnectionState,
+  StreamingDestination,
+  StreamingPlatform,
+  StreamingProtocol,
+  VideoEncoder,
+  AudioEncoder
+} from '../models/streaming.model';
+import { AdvancedSettings } from '../models/settings.model';
 
 describe('StreamingService', () => {
   let service: StreamingService;
 
   beforeEach(() => {
+    localStorage.clear();
     TestBed.configureTestingModule({
       providers: [StreamingService]
     });
@@ -456,6 +468,438 @@ describe('StreamingService', () => {
     });
   });
 
+  describe('Destination Persistence', () => {
+    it('should restore saved destinations', () => {
+      service.addDestination({
+        name: 'Twitch',
+        platform: StreamingPlatform.TWITCH,
+        protocol: StreamingProtocol.RTMP,
+        url: 'rtmp://live.twitch.tv/app/',
+        streamKey: 'key',
+        enabled: true,
+        settings: service.createPresetForPlatform(StreamingPlatform.TWITCH).settings as StreamingDestination['settings']
+      });
+
+      TestBed.resetTestingModule();
+      const restored = TestBed.inject(StreamingService);
+
+      expect(restored.destinations().map(d => d.name)).toEqual(['Twitch']);
+    });
+
+    it('should migrate platforms saved by the Multistream panel', () => {
+      localStorage.setItem('multistream_platforms', JSON.stringify([{
+        id: 'legacy-1',
+        type: 'youtube',
+        name: 'YouTube',
+        enabled: true,
+        streamKey: 'yt-key',
+        streamUrl: 'rtmps://a.rtmp.youtube.com/live2',
+        bitrate: 9000,
+        resolution: '1920x1080',
+        fps: 60
+      }]));
+
+      TestBed.resetTestingModule();
+      const migrated = TestBed.inject(StreamingService);
+
+      expect(migrated.destinations()).toEqual([
+        expect.objectContaining({
+          id: 'legacy-1',
+          platform: StreamingPlatform.YOUTUBE,
+          protocol: StreamingProtocol.RTMPS,
+          streamKey: 'yt-key',
+          settings: expect.objectContaining({ videoBitrate: 9000, resolution: { width: 1920, height: 1080 }, fps: 60 })
+        })
+      ]);
+      expect(localStorage.getItem('multistream_platforms')).toBeNull();
+    });
+  });
+
+  describe('Per-Destination Streaming', () => {
+    let emit: ReturnType<typeof vi.spyOn>;
+
+    const addPlatform = (platform: StreamingPlatform, videoBitrate: number) =>
+      service.addDestination({
+        name: platform,
+        platform,
+        protocol: StreamingProtocol.RTMP,
+        url: 'rtmp://test.com',
+        streamKey: 'key',
+        enabled: true,
+        settings: { ...service.createPresetForPlatform(platform).settings, videoBitrate } as StreamingDestination['settings']
+      });
+
+    const goLive = () => service['streamingStateSignal'].update(state => ({ ...state, isStreaming: true }));
+
+    beforeEach(() => {
+      emit = vi.spyOn(TestBed.inject(SocketService), 'emit').mockImplementation(() => undefined);
+    });
+
+    it('should connect a destination to the running stream with its own settings', async () => {
+      const twitch = addPlatform(StreamingPlatform.TWITCH, 6000);
+      const youtube = addPlatform(StreamingPlatform.YOUTUBE, 9000);
+      goLive();
+
+      await service.startDestination(twitch.id);
+      await service.startDestination(youtube.id);
+
+      expect(emit).toHaveBeenCalledWith('egress:connect', expect.objectContaining({
+        id: twitch.id,
+        settings: expect.objectContaining({ videoBitrate: 6000 })
+      }));
+      expect(emit).toHaveBeenCalledWith('egress:connect', expect.objectContaining({
+        id: youtube.id,
+        settings: expect.objectContaining({ videoBitrate: 9000 })
+      }));
+      expect(service.activeDestinationIds()).toEqual([twitch.id, youtube.id]);
+    });
+
+    it('should send the gateway a keyframe every second so destinations can join mid-stream', () => {
+      const options: MediaRecorderOptions[] = [];
+      vi.stubGlobal('MediaRecorder', class {
+        static isTypeSupported = () => true;
+        start = vi.fn();
+        constructor(_stream: MediaStream, recorderOptions: MediaRecorderOptions) {
+          options.push(recorderOptions);
+        }
+      });
+      TestBed.inject(SocketService).connected.set(true);
+      const twitch = addPlatform(StreamingPlatform.TWITCH, 6000);
+
+      service['startEgress']({} as MediaStream, [twitch]);
+      vi.unstubAllGlobals();
+
+      expect(emit).toHaveBeenCalledWith('egress:start');
+      expect(options[0]).toEqual(expect.objectContaining({ videoKeyFrameIntervalDuration: 1000 }));
+    });
+
+    it('should stop one destination and keep the others live', async () => {
+      const twitch = addPlatform(StreamingPlatform.TWITCH, 6000);
+      const youtube = addPlatform(StreamingPlatform.YOUTUBE, 9000);
+      goLive();
+      await service.startDestination(twitch.id);
+      await service.startDestination(youtube.id);
+
+      await service.stopDestination(twitch.id);
+
+      expect(emit).toHaveBeenCalledWith('egress:disconnect', twitch.id);
+      expect(service.destinationStatuses()[twitch.id].state).toBe(DestinationConnectionState.STOPPING);
+      expect(service.activeDestinationIds()).toEqual([youtube.id]);
+      expect(service.isStreaming()).toBe(true);
+    });
+
+    it('should track the status the gateway reports', () => {
+      const twitch = addPlatform(StreamingPlatform.TWITCH, 6000);
+
+      service['setDestinationStatus']({
+        destinationId: twitch.id,
+        state: DestinationConnectionState.ERROR,
+        error: 'Connection refused'
+      });
+
+      expect(service.destinationStatuses()[twitch.id].error).toBe('Connection refused');
+      expect(service.activeDestinationIds()).toEqual([]);
+    });
+
+    it('should reject unknown destinations', async () => {
+      await expect(service.startDestination('missing')).rejects.toThrow('Destination not found');
+    });
+
+    it('should publish WebRTC destinations over WHIP instead of the gateway', async () => {
+      const publish = vi.spyOn(WhipClient.prototype, 'publish').mockResolvedValue();
+      const stop = vi.spyOn(WhipClient.prototype, 'stop').mockResolvedValue();
+      const whip = service.addDestination({
+        name: 'Co-stream',
+        platform: StreamingPlatform.CUSTOM,
+        protocol: StreamingProtocol.WebRTC,
+        url: 'https://whip.example.com/live',
+        streamKey: 'token',
+        enabled: true,
+        settings: service.createPresetForPlatform(StreamingPlatform.CUSTOM).settings as StreamingDestination['settings']
+      });
+      const stream = {} as MediaStream;
+      service['outputStream'] = stream;
+      goLive();
+
+      await service.startDestination(whip.id);
+
+      expect(publish).toHaveBeenCalledWith(stream, whip.settings);
+      expect(emit).not.toHaveBeenCalledWith('egress:connect', expect.anything());
+      expect(service.destinationStatuses()[whip.id].state).toBe(DestinationConnectionState.CONNECTING);
+
+      await service.stopDestination(whip.id);
+
+      expect(stop).toHaveBeenCalled();
+      expect(emit).not.toHaveBeenCalledWith('egress:disconnect', whip.id);
+      expect(service.destinationStatuses()[whip.id].state).toBe(DestinationConnectionState.STOPPED);
+    });
+  });
+
+  describe('Automatic Reconnect', () => {
+    let emit: ReturnType<typeof vi.spyOn>;
+    let twitch: StreamingDestination;
+    let youtube: StreamingDestination;
+
+    const report = (destinationId: string, state: DestinationConnectionState, error?: string) =>
+      service['handleDestinationStatus']({ destinationId, state, error });
+
+    const connects = (destinationId: string) =>
+      emit.mock.calls.filter(([event, data]) => event === 'egress:connect' && (data as StreamingDestination).id === destinationId).length;
+
+    beforeEach(async () => {
+      vi.useFakeTimers();
+      emit = vi.spyOn(TestBed.inject(SocketService), 'emit').mockImplementation(() => undefined);
+
+      const settings = service.createPresetForPlatform(StreamingPlatform.TWITCH).settings as StreamingDestination['settings'];
+      twitch = service.addDestination({
+        name: 'Twitch', platform: StreamingPlatform.TWITCH, protocol: StreamingProtocol.RTMP,
+        url: 'rtmp://test.com', streamKey: 'key', enabled: true, settings
+      });
+      youtube = service.addDestination({
+        name: 'YouTube', platform: StreamingPlatform.YOUTUBE, protocol: StreamingProtocol.RTMPS,
+        url: 'rtmps://test.com', streamKey: 'key', enabled: true, settings
+      });
+      service['streamingStateSignal'].update(state => ({ ...state, isStreaming: true }));
+      await service.startDestination(twitch.id);
+      await service.startDestination(youtube.id);
+      report(twitch.id, DestinationConnectionState.LIVE);
+      report(youtube.id, DestinationConnectionState.LIVE);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should retry a dropped destination with a doubling delay', () => {
+      report(twitch.id, DestinationConnectionState.ERROR, 'Connection reset');
+      vi.advanceTimersByTime(10_000);
+      expect(connects(twitch.id)).toBe(2);
+      expect(service.destinationStatuses()[twitch.id]).toEqual(expect.objectContaining({
+        state: DestinationConnectionState.CONNECTING,
+        reconnectAttempt: 1
+      }));
+
+      report(twitch.id, DestinationConnectionState.ERROR, 'Connection refused');
+      vi.advanceTimersByTime(19_000);
+      expect(connects(twitch.id)).toBe(2);
+      vi.advanceTimersByTime(1_000);
+      expect(connects(twitch.id)).toBe(3);
+
+      report(twitch.id, DestinationConnectionState.LIVE);
+      expect(service.reconnectLog().map(event => [event.outcome, event.attempt, event.delay])).toEqual([
+        ['scheduled', 1, 10],
+        ['attempting', 1, undefined],
+        ['scheduled', 2, 20],
+        ['attempting', 2, undefined],
+        ['reconnected', 2, undefined]
+      ]);
+    });
+
+    it('should keep the other destinations and the stream running', () => {
+      report(twitch.id, DestinationConnectionState.ERROR, 'Connection reset');
+
+      expect(service.isStreaming()).toBe(true);
+      expect(service.destinationStatuses()[twitch.id]).toEqual(expect.objectContaining({
+        state: DestinationConnectionState.ERROR,
+        reconnectAttempt: 1
+      }));
+      expect(service.destinationStatuses()[youtube.id].state).toBe(DestinationConnectionState.LIVE);
+      expect(emit).not.toHaveBeenCalledWith('egress:stop');
+    });
+
+    it('should give up after the maximum number of retries', () => {
+      TestBed.inject(SettingsService).updateSettings({ advanced: { maxRetries: 1 } as AdvancedSettings });
+
+      report(twitch.id, DestinationConnectionState.ERROR, 'Connection reset');
+      vi.advanceTimersByTime(10_000);
+      report(twitch.id, DestinationConnectionState.ERROR, 'Connection reset');
+      vi.advanceTimersByTime(60_000);
+
+      expect(connects(twitch.id)).toBe(2);
+      expect(service.reconnectLog().pop()).toEqual(expect.objectContaining({ outcome: 'gave-up', attempt: 1 }));
+      expect(service.destinationStatuses()[twitch.id].state).toBe(DestinationConnectionState.ERROR);
+    });
+
+    it('should not reconnect when automatic reconnect is off', () => {
+      TestBed.inject(SettingsService).updateSettings({ advanced: { automaticReconnect: false } as AdvancedSettings });
+
+      report(twitch.id, DestinationConnectionState.ERROR, 'Connection reset');
+      vi.advanceTimersByTime(60_000);
+
+      expect(connects(twitch.id)).toBe(1);
+      expect(service.reconnectLog()).toEqual([]);
+    });
+
+    it('should stop reconnecting a destination stopped by hand', async () => {
+      report(twitch.id, DestinationConnectionState.ERROR, 'Connection reset');
+
+      await service.stopDestination(twitch.id);
+      vi.advanceTimersByTime(60_000);
+
+      expect(connects(twitch.id)).toBe(1);
+      expect(service.destinationStatuses()[twitch.id].state).toBe(DestinationConnectionState.STOPPED);
+      expect(service.isStreaming()).toBe(true);
+    });
+  });
+
+  describe('Streaming Server Connection', () => {
+    let emit: ReturnType<typeof vi.spyOn>;
+    let recorder: { ondataavailable: ((event: { data: Blob }) => void) | null };
+    let twitch: StreamingDestination;
+    const socket = () => TestBed.inject(SocketService);
+    const header = new Uint8Array([0x1a, 0x45, 0xdf, 0xa3, 1, 2]);
+    const cluster = [0x1f, 0x43, 0xb6, 0x75];
+
+    const record = async (bytes: number[]) => {
+      const buffer = new Uint8Array(bytes).buffer;
+      recorder.ondataavailable?.({ data: { size: buffer.byteLength, arrayBuffer: () => Promise.resolve(buffer) } as Blob });
+      await service['egressChunks'];
+    };
+
+    const sentChunks = () => emit.mock.calls
+      .filter(([event]) => event === 'egress:chunk')
+      .map(([, data]) => [...new Uint8Array(data as ArrayBuffer)]);
+
+    const setConnected = async (connected: boolean) => {
+      socket().connected.set(connected);
+      TestBed.tick();
+      await service['egressChunks'];
+    };
+
+    beforeEach(async () => {
+      vi.stubGlobal('MediaRecorder', class {
+        static isTypeSupported = () => true;
+        ondataavailable: ((event: { data: Blob }) => void) | null = null;
+        start = vi.fn();
+        stop = vi.fn();
+        constructor() {
+          // eslint-disable-next-line @typescript-eslint/no-this-alias
+          recorder = this;
+        }
+      });
+      emit = vi.spyOn(socket(), 'emit').mockImplementation(() => undefined);
+      await setConnected(true);
+
+      twitch = service.addDestination({
+        name: 'Twitch', platform: StreamingPlatform.TWITCH, protocol: StreamingProtocol.RTMP,
+        url: 'rtmp://test.com', streamKey: 'key', enabled: true,
+        settings: service.createPresetForPlatform(StreamingPlatform.TWITCH).settings as StreamingDestination['settings']
+      });
+      service['startEgress']({} as MediaStream, [twitch]);
+      service['streamingStateSignal'].update(state => ({ ...state, isStreaming: true }));
+      await service.startDestination(twitch.id);
+      service['handleDestinationStatus']({ destinationId: twitch.id, state: DestinationConnectionState.LIVE });
+      await record([...header, ...cluster, 9]);
+    });
+
+    afterEach(() => {
+      service['mediaRecorder'] = null;
+      vi.unstubAllGlobals();
+    });
+
+    it('should wait for the server with live destinations and stop sending while it is gone', async () => {
+      await setConnected(false);
+      emit.mockClear();
+      await record([...cluster, 10]);
+
+      expect(service.destinationStatuses()[twitch.id]).toEqual(expect.objectContaining({
+        state: DestinationConnectionState.CONNECTING,
+        error: 'Connection to the streaming server was lost'
+      }));
+      expect(service.activeDestinationIds()).toEqual([twitch.id]);
+      expect(emit).not.toHaveBeenCalled();
+      expect(service.streamingState().pendingBytes).toBe(0);
+    });
+
+    it('should start the stream again and continue it from the next cluster', async () => {
+      await setConnected(false);
+      emit.mockClear();
+      await setConnected(true);
+      await record([7, 8, ...cluster, 11]);
+
+      expect(emit.mock.calls.map(([event]) => event)).toEqual([
+        'egress:start', 'egress:chunk', 'egress:connect', 'egress:chunk'
+      ]);
+      expect(emit).toHaveBeenCalledWith('egress:connect', expect.objectContaining({ id: twitch.id }));
+      expect(sentChunks()).toEqual([[...header], [...cluster, 11]]);
+      expect(service.destinationStatuses()[twitch.id].state).toBe(DestinationConnectionState.CONNECTING);
+      expect(service.destinationStatuses()[twitch.id].error).toBeUndefined();
+    });
+
+    it('should not connect a destination stopped while the server was gone', async () => {
+      await setConnected(false);
+      await service.stopDestination(twitch.id);
+      emit.mockClear();
+      await setConnected(true);
+
+      expect(emit).not.toHaveBeenCalledWith('egress:connect', expect.anything());
+      expect(service.destinationStatuses()[twitch.id].state).toBe(DestinationConnectionState.STOPPED);
+    });
+  });
+
+  describe('protocolFromUrl', () => {
+    it('should read the protocol from the URL scheme', () => {
+      expect(protocolFromUrl('rtmps://a.rtmp.youtube.com/live2')).toBe(StreamingProtocol.RTMPS);
+      expect(protocolFromUrl('srt://ingest.example.com:9000')).toBe(StreamingProtocol.SRT);
+      expect(protocolFromUrl('https://whip.example.com/live')).toBe(StreamingProtocol.WebRTC);
+      expect(protocolFromUrl('ftp://example.com')).toBeNull();
+    });
+  });
+
+  describe('hlsPlaylistUrl', () => {
+    it('should serve HLS output under the stream name, or the ID without one', () => {
+      const preset = service.createPresetForPlatform(StreamingPlatform.HLS);
+      const lobby = service.addDestination({
+        name: 'Lobby',
+        platform: StreamingPlatform.HLS,
+        protocol: preset.protocol as StreamingProtocol,
+        url: preset.url as string,
+        streamKey: 'lobby',
+        enabled: true,
+        settings: preset.settings as StreamingDestination['settings']
+      });
+
+      const token = lobby.settings.hls?.linkToken;
+      expect(preset.protocol).toBe(StreamingProtocol.HLS);
+      expect(token).toMatch(/^[A-Za-z0-9-]{16,}$/);
+      expect(hlsPlaylistUrl(lobby)).toBe(`http://localhost:3333/api/hls/lobby/${token}/index.m3u8`);
+      expect(hlsPlaylistUrl({ ...lobby, streamKey: '' })).toBe(`http://localhost:3333/api/hls/${lobby.id}/${token}/index.m3u8`);
+    });
+
+    it('should keep the link token of an HLS destination', () => {
+      const preset = service.createPresetForPlatform(StreamingPlatform.HLS);
+      const lobby = service.addDestination({
+        name: 'Lobby',
+        platform: StreamingPlatform.HLS,
+        protocol: preset.protocol as StreamingProtocol,
+        url: preset.url as string,
+        streamKey: 'lobby',
+        enabled: true,
+        settings: preset.settings as StreamingDestination['settings']
+      });
+      service.updateDestination(lobby.id, { name: 'Lobby screens' });
+
+      TestBed.resetTestingModule();
+      const restored = TestBed.inject(StreamingService);
+
+      expect(hlsPlaylistUrl(restored.destinations()[0])).toBe(hlsPlaylistUrl(lobby));
+    });
+
+    it('should give HLS destinations saved without a link token one', () => {
+      const preset = service.createPresetForPlatform(StreamingPlatform.HLS);
+      localStorage.setItem('streaming_destinations', JSON.stringify([
+        { ...preset, id: 'hls-1', name: 'Lobby', streamKey: 'lobby', enabled: true }
+      ]));
+
+      TestBed.resetTestingModule();
+      const restored = TestBed.inject(StreamingService).destinations()[0];
+      TestBed.resetTestingModule();
+
+      expect(restored.settings.hls?.linkToken).toBeTruthy();
+      expect(TestBed.inject(StreamingService).destinations()[0]).toEqual(restored);
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should handle updating non-existent destination', () => {
       service.updateDestination('non-existent', { name: 'Updated' });
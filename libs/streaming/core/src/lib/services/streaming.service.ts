@@ -1,12 +1,100 @@
-import { Injectable, signal, computed, effect } from '@angular/core';
+import { Injectable, signal, computed, effect, inject, untracked } from '@angular/core';
 import {
+  DestinationConnectionState,
+  DestinationStatus,
+  HlsSettings,
+  ReconnectEvent,
   StreamingDestination,
+  StreamingSettings,
   StreamingState,
   StreamingProtocol,
   StreamingPlatform,
   VideoEncoder,
   AudioEncoder
 } from '../models/streaming.model';
+import { AdvancedSettings } from '../models/settings.model';
+import { PROGRAM_KEYFRAME_INTERVAL, ProgramOutputService, ProgramRecorderOptions } from './program-output.service';
+import { SettingsService } from './settings.service';
+import { SocketService } from './socket.service';
+import { SystemStatsService } from './system-stats.service';
+import { WhipClient } from './whip-client';
+
+// WebM types the program stream is sent to the egress gateway in, by preference
+const EGRESS_MIME_TYPES = [
+  'video/webm;codecs=h264,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm'
+];
+const EGRESS_TIMESLICE = 250;
+const DESTINATIONS_STORAGE_KEY = 'streaming_destinations';
+// Platforms saved by the Multistream panel before it used these destinations
+const LEGACY_PLATFORMS_STORAGE_KEY = 'multistream_platforms';
+const MAX_RECONNECT_DELAY = 300; // seconds
+// Matroska Cluster element ID; everything before the first one is the header
+const CLUSTER_ID = [0x1f, 0x43, 0xb6, 0x75];
+const GATEWAY_LOST_ERROR = 'Connection to the streaming server was lost';
+
+export const DEFAULT_HLS_SETTINGS: HlsSettings = { lowLatency: false, segmentDuration: 2 };
+
+interface LegacyPlatform {
+  id: string;
+  type: string;
+  name: string;
+  enabled: boolean;
+  streamKey: string;
+  streamUrl: string;
+  bitrate: number;
+  resolution: string; // e.g. "1920x1080"
+  fps: number;
+}
+
+/**
+ * Protocol a stream URL is published with, from its scheme
+ */
+export function protocolFromUrl(url: string): StreamingProtocol | null {
+  const scheme = url.trim().toLowerCase().split('://')[0];
+  const protocols: Record<string, StreamingProtocol> = {
+    rtmp: StreamingProtocol.RTMP,
+    rtmps: StreamingProtocol.RTMPS,
+    srt: StreamingProtocol.SRT,
+    rist: StreamingProtocol.RIST,
+    // WHIP endpoints
+    http: StreamingProtocol.WebRTC,
+    https: StreamingProtocol.WebRTC
+  };
+  return protocols[scheme] ?? null;
+}
+
+/**
+ * Offset of the first Matroska cluster in a chunk of the program stream, -1 without one
+ */
+function clusterStart(buffer: ArrayBuffer): number {
+  const bytes = new Uint8Array(buffer);
+  for (let i = 0; i <= bytes.length - CLUSTER_ID.length; i++) {
+    if (CLUSTER_ID.every((byte, offset) => bytes[i + offset] === byte)) return i;
+  }
+  return -1;
+}
+
+/**
+ * Playlist URL of an HLS destination, served under its stream key or its ID
+ * without one, and its link token
+ */
+export function hlsPlaylistUrl(destination: StreamingDestination): string {
+  const name = destination.streamKey || destination.id;
+  return `${destination.url.replace(/\/+$/, '')}/${name}/${destination.settings.hls?.linkToken ?? ''}/index.m3u8`;
+}
+
+/**
+ * An HLS destination with a link token, kept once it has one so shared links keep working
+ */
+function withHlsLinkToken(destination: StreamingDestination): StreamingDestination {
+  const { settings } = destination;
+  if (destination.protocol !== StreamingProtocol.HLS || settings.hls?.linkToken) return destination;
+
+  const linkToken = crypto.randomUUID();
+  return { ...destination, settings: { ...settings, hls: { ...(settings.hls ?? DEFAULT_HLS_SETTINGS), linkToken } } };
+}
 
 @Injectable({
   providedIn: 'root'
@@ -14,6 +102,8 @@ import {
 export class StreamingService {
   // Signals for reactive state
   private destinationsSignal = signal<StreamingDestination[]>([]);
+  private destinationStatusesSignal = signal<Record<string, DestinationStatus>>({});
+  private reconnectLogSignal = signal<ReconnectEvent[]>([]);
   private streamingStateSignal = signal<StreamingState>({
     isStreaming: false,
     isRecording: false,
@@ -22,26 +112,83 @@ export class StreamingService {
     fps: 0,
     bitrate: 0,
     cpuUsage: 0,
-    memoryUsage: 0
+    memoryUsage: 0,
+    uploadBitrate: 0,
+    networkLatency: 0,
+    pendingBytes: 0
   });
 
   // Public readonly signals
   public readonly destinations = this.destinationsSignal.asReadonly();
+  public readonly destinationStatuses = this.destinationStatusesSignal.asReadonly();
+  // Reconnects of dropped destinations in the current or last stream
+  public readonly reconnectLog = this.reconnectLogSignal.asReadonly();
   public readonly streamingState = this.streamingStateSignal.asReadonly();
   public readonly streamingState$ = this.streamingStateSignal.asReadonly(); // Alias for backwards compatibility
   public readonly isStreaming = computed(() => this.streamingStateSignal().isStreaming);
   public readonly enabledDestinations = computed(() =>
     this.destinationsSignal().filter(d => d.enabled)
   );
+  // Destinations connecting or live in the current stream
+  public readonly activeDestinationIds = computed(() =>
+    Object.values(this.destinationStatusesSignal())
+      .filter(status =>
+        status.state === DestinationConnectionState.CONNECTING ||
+        status.state === DestinationConnectionState.LIVE
+      )
+      .map(status => status.destinationId)
+  );
 
   private statsIntervalId: number | null = null;
   private mediaRecorder: MediaRecorder | null = null;
   private streamStartTime: number | null = null;
+  private outputStream: MediaStream | null = null;
+  private egressChunks: Promise<void> = Promise.resolve();
+  private socket = inject(SocketService);
+  private systemStats = inject(SystemStatsService);
+  private settingsService = inject(SettingsService);
+  private advancedSettings: AdvancedSettings | null = null;
+  private reconnects = new Map<string, { attempt: number; timer: ReturnType<typeof setTimeout> | null }>();
+  // WebRTC destinations publish from the studio instead of the gateway
+  private whipClients = new Map<string, WhipClient>();
+  // The gateway stops the stream when the connection to it drops. The header is
+  // kept to start it again, and gateway destinations are connected again then.
+  private egressHeader: ArrayBuffer[] = [];
+  private egressHeaderComplete = false;
+  private egressOffline = false;
+  private skipToCluster = false;
+  private offlineDestinationIds = new Set<string>();
+
+  // Egress measurements since the last stats update
+  private encodedBytes = 0;
+  private acknowledgedBytes = 0;
+  private pendingBytes = 0;
+  private roundTripTimes: number[] = [];
+  private statsWindowStart = 0;
+  private startFrames = { frameCount: 0, droppedFrames: 0 };
+
+  constructor(private programOutput: ProgramOutputService) {
+    this.loadDestinations();
+
+    this.settingsService.settings$.subscribe(settings => {
+      this.advancedSettings = settings.advanced;
+    });
+
+    // Per-destination status from the egress gateway
+    this.socket.on<DestinationStatus>('egress:status', status => this.handleDestinationStatus(status));
+    // Destinations connected to a refused stream report the error themselves
+    this.socket.on<{ error: string }>('egress:refused', ({ error }) => console.error('Streaming server refused the stream:', error));
+
+    // Suspend the egress while the connection to the gateway is down
+    effect(() => {
+      const connected = this.socket.connected();
+      untracked(() => connected ? this.resumeEgress() : this.suspendEgress());
+    });
 
-  constructor() {
     // Auto-cleanup on service destroy
     effect((onCleanup) => {
       onCleanup(() => {
+        this.cancelReconnects();
         this.stopStatsCollection();
         if (this.mediaRecorder) {
           this.mediaRecorder.stop();
@@ -54,12 +201,13 @@ export class StreamingService {
    * Add streaming destination
    */
   addDestination(destination: Omit<StreamingDestination, 'id'>): StreamingDestination {
-    const newDestination: StreamingDestination = {
+    const newDestination = withHlsLinkToken({
       ...destination,
       id: this.generateId()
-    };
+    });
 
     this.destinationsSignal.update(destinations => [...destinations, newDestination]);
+    this.saveDestinations();
     return newDestination;
   }
 
@@ -67,9 +215,17 @@ export class StreamingService {
    * Remove streaming destination
    */
   removeDestination(destinationId: string): void {
+    this.cancelReconnect(destinationId);
+    if (this.isStreaming()) {
+      this.disconnectFromDestination(destinationId);
+    }
     this.destinationsSignal.update(destinations =>
       destinations.filter(d => d.id !== destinationId)
     );
+    this.destinationStatusesSignal.update(statuses =>
+      Object.fromEntries(Object.entries(statuses).filter(([id]) => id !== destinationId))
+    );
+    this.saveDestinations();
   }
 
   /**
@@ -81,9 +237,10 @@ export class StreamingService {
   ): void {
     this.destinationsSignal.update(destinations =>
       destinations.map(dest =>
-        dest.id === destinationId ? { ...dest, ...updates } : dest
+        dest.id === destinationId ? withHlsLinkToken({ ...dest, ...updates }) : dest
       )
     );
+    this.saveDestinations();
   }
 
   /**
@@ -103,6 +260,83 @@ export class StreamingService {
       throw new Error('No streaming destinations enabled');
     }
 
+    await this.startStream(enabled);
+  }
+
+  /**
+   * Start publishing to one destination, starting the stream if it is not running
+   */
+  async startDestination(destinationId: string): Promise<void> {
+    const destination = this.destinationsSignal().find(d => d.id === destinationId);
+    if (!destination) {
+      throw new Error(`Destination not found: ${destinationId}`);
+    }
+
+    // Starting by hand resets the backoff
+    this.cancelReconnect(destinationId);
+    if (this.isStreaming()) {
+      this.connectToDestination(destination);
+    } else {
+      await this.startStream([destination]);
+    }
+  }
+
+  /**
+   * Stop publishing to one destination. The stream ends with its last destination.
+   */
+  async stopDestination(destinationId: string): Promise<void> {
+    if (!this.isStreaming()) return;
+
+    this.cancelReconnect(destinationId);
+    const waitingForGateway = this.offlineDestinationIds.delete(destinationId);
+    if (waitingForGateway || this.destinationStatusesSignal()[destinationId]?.state === DestinationConnectionState.ERROR) {
+      // Nothing runs for a failed destination or one waiting for the gateway
+      this.setDestinationStatus({ destinationId, state: DestinationConnectionState.STOPPED });
+    } else {
+      this.setDestinationStatus({ destinationId, state: DestinationConnectionState.STOPPING });
+      this.disconnectFromDestination(destinationId);
+    }
+
+    // Destinations waiting to reconnect keep the stream running
+    if (this.activeDestinationIds().length === 0 && this.reconnects.size === 0) {
+      await this.stopStreaming();
+    }
+  }
+
+  /**
+   * Encode a live destination at a new bitrate, fps or resolution without
+   * reconnecting it. Its saved settings stay as they are.
+   */
+  retuneDestination(
+    destinationId: string,
+    target: Pick<StreamingSettings, 'videoBitrate' | 'resolution' | 'fps'>
+  ): void {
+    const destination = this.destinationsSignal().find(d => d.id === destinationId);
+    if (!destination || !this.isStreaming() || this.offlineDestinationIds.has(destinationId)) return;
+
+    const whipClient = this.whipClients.get(destinationId);
+    if (whipClient) {
+      whipClient.setEncoding({ ...destination.settings, ...target })
+        .catch(error => console.warn(`Failed to retune ${destination.name}:`, error));
+      return;
+    }
+    this.socket.emit('egress:retune', { destinationId, settings: { ...destination.settings, ...target } });
+  }
+
+  /**
+   * Start the program stream and connect the given destinations to it
+   */
+  private async startStream(destinations: StreamingDestination[]): Promise<void> {
+    // Every destination is fed from the same program output
+    this.outputStream = this.programOutput.acquire('streaming');
+    try {
+      this.startEgress(this.outputStream, destinations);
+    } catch (error) {
+      this.programOutput.release('streaming');
+      this.outputStream = null;
+      throw error;
+    }
+
     // Initialize streaming state
     this.streamingStateSignal.update(state => ({
       ...state,
@@ -115,13 +349,13 @@ export class StreamingService {
     this.streamStartTime = Date.now();
     this.startStatsCollection();
 
-    // In a real implementation, this would set up WebRTC/RTMP connections
-    // For now, we simulate streaming to each destination
-    for (const destination of enabled) {
-      await this.connectToDestination(destination);
+    this.destinationStatusesSignal.set({});
+    this.reconnectLogSignal.set([]);
+    for (const destination of destinations) {
+      this.connectToDestination(destination);
     }
 
-    console.log(`Started streaming to ${enabled.length} destination(s)`);
+    console.log(`Started streaming to ${destinations.length} destination(s)`);
   }
 
   /**
@@ -135,64 +369,407 @@ export class StreamingService {
     }));
 
     this.stopStatsCollection();
+    this.cancelReconnects();
     this.streamStartTime = null;
+    this.egressOffline = false;
+    this.offlineDestinationIds.clear();
 
     if (this.mediaRecorder) {
       this.mediaRecorder.stop();
       this.mediaRecorder = null;
     }
 
+    [...this.whipClients.keys()].forEach(destinationId => this.disconnectFromDestination(destinationId));
+
+    if (this.outputStream) {
+      this.programOutput.release('streaming');
+      this.outputStream = null;
+    }
+
+    // The gateway stops every destination with the stream
+    Object.values(this.destinationStatusesSignal())
+      .filter(status => status.state !== DestinationConnectionState.ERROR)
+      .forEach(status =>
+        this.setDestinationStatus({ destinationId: status.destinationId, state: DestinationConnectionState.STOPPED })
+      );
+
     console.log('Stopped streaming');
   }
 
   /**
-   * Connect to a streaming destination
+   * Send the program output to the egress gateway, which publishes it to
+   * each connected destination
    */
-  private async connectToDestination(
-    destination: StreamingDestination
-  ): Promise<void> {
+  private startEgress(stream: MediaStream, destinations: StreamingDestination[]): void {
+    if (!this.socket.connected()) {
+      throw new Error('Not connected to the streaming server');
+    }
+
+    const mimeType = EGRESS_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) {
+      throw new Error('Streaming is not supported by this browser');
+    }
+
+    // The gateway re-encodes per destination, so send the highest quality needed,
+    // including by enabled destinations that may join later
+    const candidates = [...destinations, ...this.enabledDestinations()];
+    const videoBitrate = Math.max(...candidates.map(d => d.settings.videoBitrate));
+    const audioBitrate = Math.max(...candidates.map(d => d.settings.audioBitrate));
+    // Destinations that join, reconnect or retune start at the next keyframe,
+    // so keep them frequent regardless of what the browser would pick
+    const options: ProgramRecorderOptions = {
+      mimeType,
+      videoBitsPerSecond: videoBitrate * 1000,
+      audioBitsPerSecond: audioBitrate * 1000,
+      videoKeyFrameIntervalDuration: PROGRAM_KEYFRAME_INTERVAL
+    };
+    const recorder = new MediaRecorder(stream, options);
+
+    this.socket.emit('egress:start');
+    this.egressChunks = Promise.resolve();
+    this.egressHeader = [];
+    this.egressHeaderComplete = false;
+    this.egressOffline = false;
+    this.skipToCluster = false;
+    this.offlineDestinationIds.clear();
+
+    // Chunks are read in order so the gateway receives a valid WebM stream
+    recorder.ondataavailable = event => {
+      if (event.data && event.data.size > 0) {
+        const data = event.data;
+        this.encodedBytes += data.size;
+        this.egressChunks = this.egressChunks
+          .then(() => data.arrayBuffer())
+          .then(buffer => {
+            this.keepHeader(buffer);
+            this.sendChunk(buffer);
+          })
+          .catch(error => console.error('Failed to send stream data:', error));
+      }
+    };
+    recorder.onstop = () => {
+      this.egressChunks.then(() => this.socket.emit('egress:stop'));
+    };
+
+    recorder.start(EGRESS_TIMESLICE);
+    this.mediaRecorder = recorder;
+  }
+
+  private keepHeader(buffer: ArrayBuffer): void {
+    if (this.egressHeaderComplete) return;
+    const start = clusterStart(buffer);
+    this.egressHeader.push(start < 0 ? buffer : buffer.slice(0, start));
+    this.egressHeaderComplete = start >= 0;
+  }
+
+  /**
+   * Send a chunk to the egress gateway, measuring its round trip. Nothing is
+   * queued while the connection is down.
+   */
+  private sendChunk(buffer: ArrayBuffer): void {
+    if (this.egressOffline) return;
+    if (this.skipToCluster) {
+      // A restarted stream continues from a keyframe after its header
+      const start = clusterStart(buffer);
+      if (start < 0) return;
+      buffer = buffer.slice(start);
+      this.skipToCluster = false;
+    }
+
+    const sentAt = performance.now();
+    this.pendingBytes += buffer.byteLength;
+
+    this.socket.emit('egress:chunk', buffer, () => {
+      this.pendingBytes -= buffer.byteLength;
+      this.acknowledgedBytes += buffer.byteLength;
+      this.roundTripTimes.push(performance.now() - sentAt);
+    });
+  }
+
+  /**
+   * Stop sending to the gateway after the connection dropped. It stopped the
+   * stream, so its destinations wait for it to come back.
+   */
+  private suspendEgress(): void {
+    if (!this.mediaRecorder || !this.isStreaming() || this.egressOffline) return;
+
+    console.warn('Lost the connection to the streaming server, waiting to reconnect');
+    this.egressOffline = true;
+    // Chunks in flight are never acknowledged
+    this.pendingBytes = 0;
+
+    Object.values(this.destinationStatusesSignal())
+      .filter(status => !this.whipClients.has(status.destinationId))
+      .filter(status =>
+        status.state === DestinationConnectionState.CONNECTING ||
+        status.state === DestinationConnectionState.LIVE ||
+        this.reconnects.has(status.destinationId)
+      )
+      .forEach(status => this.waitForGateway(status.destinationId));
+  }
+
+  private waitForGateway(destinationId: string): void {
+    this.cancelReconnect(destinationId);
+    this.offlineDestinationIds.add(destinationId);
+    this.setDestinationStatus({ destinationId, state: DestinationConnectionState.CONNECTING, error: GATEWAY_LOST_ERROR });
+  }
+
+  /**
+   * Start the stream on the gateway again once it is reachable, with the
+   * header and then from the next cluster, and connect its destinations again
+   */
+  private resumeEgress(): void {
+    if (!this.egressOffline) return;
+
+    this.egressChunks = this.egressChunks.then(() => {
+      if (!this.egressOffline || !this.socket.connected()) return;
+      this.egressOffline = false;
+      const destinationIds = [...this.offlineDestinationIds];
+      this.offlineDestinationIds.clear();
+      if (!this.mediaRecorder || !this.isStreaming()) return;
+
+      console.log('Reconnected to the streaming server, restarting the stream');
+      this.socket.emit('egress:start');
+      this.egressHeader.forEach(chunk => this.sendChunk(chunk));
+      this.skipToCluster = true;
+
+      destinationIds
+        .map(id => this.destinationsSignal().find(d => d.id === id))
+        .filter((destination): destination is StreamingDestination => destination !== undefined)
+        .forEach(destination => this.connectToDestination(destination));
+    });
+  }
+
+  /**
+   * Connect to a streaming destination through the egress gateway, or over
+   * WHIP for WebRTC destinations
+   */
+  private connectToDestination(destination: StreamingDestination, reconnectAttempt?: number): void {
+    if (this.egressOffline && destination.protocol !== StreamingProtocol.WebRTC) {
+      this.waitForGateway(destination.id);
+      return;
+    }
     console.log(`Connecting to ${destination.name} via ${destination.protocol}`);
-    console.log(`Stream URL: ${destination.url}`);
-
-    // In production, implement actual streaming:
-    // - RTMP: Use WebRTC to RTMP bridge or server-side FFmpeg
-    // - WebRTC: Use RTCPeerConnection
-    // - HLS: Use MediaRecorder + chunked upload
-    // - SRT: Use WebTransport or WebSocket proxy
-
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        console.log(`Connected to ${destination.name}`);
-        resolve();
-      }, 1000);
+
+    this.setDestinationStatus({
+      destinationId: destination.id,
+      state: DestinationConnectionState.CONNECTING,
+      reconnectAttempt
     });
+    if (destination.protocol === StreamingProtocol.WebRTC) {
+      this.publishToWhip(destination);
+    } else {
+      this.socket.emit('egress:connect', destination);
+    }
+  }
+
+  /**
+   * Publish the program output to a WHIP endpoint, reporting like the gateway does
+   */
+  private publishToWhip(destination: StreamingDestination): void {
+    if (!this.outputStream) {
+      throw new Error('Program output is not running');
+    }
+
+    const destinationId = destination.id;
+    this.whipClients.get(destinationId)?.stop();
+
+    const report = (status: Omit<DestinationStatus, 'destinationId'>) => {
+      // Ignore a client that was stopped or replaced
+      if (this.whipClients.get(destinationId) !== client) return;
+      if (status.state === DestinationConnectionState.ERROR) {
+        this.whipClients.delete(destinationId);
+        client.stop();
+      }
+      this.handleDestinationStatus({ destinationId, ...status });
+    };
+
+    const client: WhipClient = new WhipClient(
+      destination.url,
+      destination.streamKey,
+      (state, error) => report({
+        state: state === 'connected' ? DestinationConnectionState.LIVE : DestinationConnectionState.ERROR,
+        error
+      }),
+      stats => report({ state: DestinationConnectionState.LIVE, stats })
+    );
+    this.whipClients.set(destinationId, client);
+
+    client.publish(this.outputStream, destination.settings).catch(error =>
+      report({
+        state: DestinationConnectionState.ERROR,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    );
+  }
+
+  /**
+   * Disconnect a destination from the egress gateway or its WHIP endpoint
+   */
+  private disconnectFromDestination(destinationId: string): void {
+    const whipClient = this.whipClients.get(destinationId);
+    if (!whipClient) {
+      this.socket.emit('egress:disconnect', destinationId);
+      return;
+    }
+
+    this.whipClients.delete(destinationId);
+    whipClient.stop();
+    // No gateway to confirm the stop
+    if (this.destinationStatusesSignal()[destinationId]) {
+      this.setDestinationStatus({ destinationId, state: DestinationConnectionState.STOPPED });
+    }
+  }
+
+  private setDestinationStatus(status: DestinationStatus): void {
+    this.destinationStatusesSignal.update(statuses => ({ ...statuses, [status.destinationId]: status }));
+  }
+
+  /**
+   * Track a status from the gateway, reconnecting destinations that dropped
+   */
+  private handleDestinationStatus(status: DestinationStatus): void {
+    const previous = this.destinationStatusesSignal()[status.destinationId];
+    const reconnect = this.reconnects.get(status.destinationId);
+
+    if (status.state === DestinationConnectionState.ERROR) {
+      // Destinations stopped by hand are not reconnected
+      if (previous?.state !== DestinationConnectionState.STOPPING) {
+        this.scheduleReconnect(status.destinationId, status.error);
+      }
+      this.setDestinationStatus({ ...status, reconnectAttempt: this.reconnects.get(status.destinationId)?.attempt });
+      return;
+    }
+
+    if (reconnect && status.state === DestinationConnectionState.LIVE) {
+      const destination = this.destinationsSignal().find(d => d.id === status.destinationId);
+      if (destination) {
+        console.log(`Reconnected to ${destination.name} after ${reconnect.attempt} attempt(s)`);
+        this.logReconnect(destination, reconnect.attempt, 'reconnected');
+      }
+      this.reconnects.delete(status.destinationId);
+      this.setDestinationStatus(status);
+      return;
+    }
+
+    this.setDestinationStatus(reconnect ? { ...status, reconnectAttempt: reconnect.attempt } : status);
+  }
+
+  /**
+   * Retry a dropped destination after a delay that doubles with every attempt
+   */
+  private scheduleReconnect(destinationId: string, error?: string): void {
+    const destination = this.destinationsSignal().find(d => d.id === destinationId);
+    const settings = this.advancedSettings;
+    if (!destination || !settings?.automaticReconnect || !this.isStreaming()) return;
+
+    const attempt = (this.reconnects.get(destinationId)?.attempt ?? 0) + 1;
+    if (attempt > settings.maxRetries) {
+      this.reconnects.delete(destinationId);
+      console.warn(`Gave up reconnecting to ${destination.name} after ${attempt - 1} attempt(s)`);
+      this.logReconnect(destination, attempt - 1, 'gave-up', { error });
+      return;
+    }
+
+    const delay = Math.min(settings.reconnectDelay * 2 ** (attempt - 1), MAX_RECONNECT_DELAY);
+    const timer = setTimeout(() => this.reconnect(destinationId), delay * 1000);
+    this.reconnects.set(destinationId, { attempt, timer });
+
+    console.log(`Reconnecting to ${destination.name} in ${delay}s (attempt ${attempt}/${settings.maxRetries})`);
+    this.logReconnect(destination, attempt, 'scheduled', { delay, error });
+  }
+
+  private reconnect(destinationId: string): void {
+    const reconnect = this.reconnects.get(destinationId);
+    const destination = this.destinationsSignal().find(d => d.id === destinationId);
+    if (!reconnect || !destination || !this.isStreaming()) {
+      this.reconnects.delete(destinationId);
+      return;
+    }
+
+    reconnect.timer = null;
+    this.logReconnect(destination, reconnect.attempt, 'attempting');
+    this.connectToDestination(destination, reconnect.attempt);
+  }
+
+  private cancelReconnect(destinationId: string): void {
+    const timer = this.reconnects.get(destinationId)?.timer;
+    if (timer) {
+      clearTimeout(timer);
+    }
+    this.reconnects.delete(destinationId);
+  }
+
+  private cancelReconnects(): void {
+    [...this.reconnects.keys()].forEach(destinationId => this.cancelReconnect(destinationId));
+  }
+
+  private logReconnect(
+    destination: StreamingDestination,
+    attempt: number,
+    outcome: ReconnectEvent['outcome'],
+    details: Pick<ReconnectEvent, 'delay' | 'error'> = {}
+  ): void {
+    this.reconnectLogSignal.update(log => [
+      ...log,
+      { destinationId: destination.id, destinationName: destination.name, attempt, outcome, ...details, timestamp: new Date() }
+    ]);
   }
 
   /**
    * Start collecting streaming statistics
    */
   private startStatsCollection(): void {
-    this.statsIntervalId = window.setInterval(() => {
-      const now = Date.now();
-      const elapsed = this.streamStartTime ? (now - this.streamStartTime) / 1000 : 0;
-
-      this.streamingStateSignal.update(state => {
-        // Simulate realistic streaming stats
-        const targetFps = 60;
-        const actualFrames = state.totalFrames + targetFps;
-        const dropped = Math.random() > 0.95 ? Math.floor(Math.random() * 3) : 0;
-
-        return {
-          ...state,
-          totalFrames: actualFrames,
-          droppedFrames: state.droppedFrames + dropped,
-          fps: targetFps - (dropped > 0 ? Math.random() * 2 : 0),
-          bitrate: 2500 + Math.random() * 500 - 250, // 2250-2750 kbps
-          cpuUsage: 30 + Math.random() * 20, // 30-50%
-          memoryUsage: 500 + Math.random() * 100 // 500-600 MB
-        };
-      });
-    }, 1000);
+    const output = this.programOutput.stats();
+    this.startFrames = { frameCount: output.frameCount, droppedFrames: output.droppedFrames };
+    this.encodedBytes = 0;
+    this.acknowledgedBytes = 0;
+    this.pendingBytes = 0;
+    this.roundTripTimes = [];
+    this.statsWindowStart = performance.now();
+
+    this.statsIntervalId = window.setInterval(() => this.updateStats(), 1000);
+  }
+
+  /**
+   * Update the streaming state from the program output, the encoder output,
+   * the egress gateway and the host
+   */
+  private updateStats(): void {
+    const now = performance.now();
+    const seconds = (now - this.statsWindowStart) / 1000;
+    if (seconds <= 0) return;
+
+    const output = this.programOutput.stats();
+
+    // Every destination gets the same frames, so the worst one counts
+    const egressDropped = Math.max(
+      0,
+      ...Object.values(this.destinationStatusesSignal()).map(status => status.stats?.droppedFrames ?? 0)
+    );
+
+    const roundTrips = this.roundTripTimes;
+    const state = this.streamingStateSignal();
+
+    this.streamingStateSignal.set({
+      ...state,
+      totalFrames: output.frameCount - this.startFrames.frameCount,
+      droppedFrames: output.droppedFrames - this.startFrames.droppedFrames + egressDropped,
+      fps: output.fps,
+      bitrate: (this.encodedBytes * 8) / 1000 / seconds,
+      uploadBitrate: (this.acknowledgedBytes * 8) / 1000 / seconds,
+      networkLatency: roundTrips.length > 0
+        ? roundTrips.reduce((sum, time) => sum + time, 0) / roundTrips.length
+        : state.networkLatency,
+      pendingBytes: this.pendingBytes,
+      cpuUsage: this.systemStats.cpuUsage(),
+      memoryUsage: this.systemStats.memoryUsed()
+    });
+
+    this.encodedBytes = 0;
+    this.acknowledgedBytes = 0;
+    this.roundTripTimes = [];
+    this.statsWindowStart = now;
   }
 
   /**
@@ -295,6 +872,23 @@ export class StreamingService {
           tune: 'zerolatency'
         }
       },
+      [StreamingPlatform.KICK]: {
+        platform: StreamingPlatform.KICK,
+        protocol: StreamingProtocol.RTMP,
+        url: 'rtmp://stream.kick.com/live/',
+        settings: {
+          videoEncoder: VideoEncoder.X264,
+          audioEncoder: AudioEncoder.AAC,
+          videoBitrate: 6000,
+          audioBitrate: 160,
+          resolution: { width: 1920, height: 1080 },
+          fps: 60,
+          keyframeInterval: 2,
+          preset: 'veryfast',
+          profile: 'high',
+          tune: 'zerolatency'
+        }
+      },
       [StreamingPlatform.TWITTER]: {
         platform: StreamingPlatform.TWITTER,
         protocol: StreamingProtocol.RTMP,
@@ -329,6 +923,25 @@ export class StreamingService {
           tune: 'film'
         }
       },
+      [StreamingPlatform.HLS]: {
+        platform: StreamingPlatform.HLS,
+        protocol: StreamingProtocol.HLS,
+        // Where players reach the API; use its LAN address to share the link
+        url: 'http://localhost:3333/api/hls/',
+        settings: {
+          videoEncoder: VideoEncoder.X264,
+          audioEncoder: AudioEncoder.AAC,
+          videoBitrate: 4500,
+          audioBitrate: 128,
+          resolution: { width: 1920, height: 1080 },
+          fps: 30,
+          keyframeInterval: 2,
+          preset: 'veryfast',
+          profile: 'high',
+          tune: 'zerolatency',
+          hls: DEFAULT_HLS_SETTINGS
+        }
+      },
       [StreamingPlatform.CUSTOM]: {
         platform: StreamingPlatform.CUSTOM,
         protocol: StreamingProtocol.RTMP,
@@ -351,6 +964,55 @@ export class StreamingService {
     return presets[platform];
   }
 
+  private saveDestinations(): void {
+    localStorage.setItem(DESTINATIONS_STORAGE_KEY, JSON.stringify(this.destinationsSignal()));
+  }
+
+  private loadDestinations(): void {
+    const saved = localStorage.getItem(DESTINATIONS_STORAGE_KEY);
+    if (saved) {
+      const destinations: StreamingDestination[] = JSON.parse(saved);
+      this.destinationsSignal.set(destinations.map(withHlsLinkToken));
+      if (this.destinationsSignal().some((destination, i) => destination !== destinations[i])) {
+        this.saveDestinations();
+      }
+      return;
+    }
+
+    const legacy = localStorage.getItem(LEGACY_PLATFORMS_STORAGE_KEY);
+    if (legacy) {
+      const platforms: LegacyPlatform[] = JSON.parse(legacy);
+      this.destinationsSignal.set(platforms.map(platform => this.fromLegacyPlatform(platform)));
+      this.saveDestinations();
+      localStorage.removeItem(LEGACY_PLATFORMS_STORAGE_KEY);
+    }
+  }
+
+  /**
+   * Turn a platform saved by the old Multistream panel into a destination
+   */
+  private fromLegacyPlatform(platform: LegacyPlatform): StreamingDestination {
+    const type = Object.values(StreamingPlatform).find(p => p === platform.type) ?? StreamingPlatform.CUSTOM;
+    const preset = this.createPresetForPlatform(type);
+    const [width, height] = platform.resolution.split('x').map(Number);
+
+    return {
+      id: platform.id,
+      name: platform.name,
+      platform: type,
+      protocol: protocolFromUrl(platform.streamUrl) ?? StreamingProtocol.RTMP,
+      url: platform.streamUrl,
+      streamKey: platform.streamKey,
+      enabled: platform.enabled,
+      settings: {
+        ...(preset.settings as StreamingSettings),
+        videoBitrate: platform.bitrate,
+        resolution: { width, height },
+        fps: platform.fps
+      }
+    };
+  }
+
   /**
    * Generate a unique ID
    */
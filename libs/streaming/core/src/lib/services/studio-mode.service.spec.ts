@@ -0,0 +1,149 @@
+import { TestBed } from '@angular/core/testing';
+import { StudioModeService } from './studio-mode.service';
+import { SceneService } from './scene.service';
+import { SourceService } from './source.service';
+import { TransitionService } from './transition.service';
+import { Scene, SceneItem, TransitionType } from '../models/scene.model';
+import { SourceType } from '../models/source.model';
+
+describe('StudioModeService', () => {
+  let service: StudioModeService;
+  let sceneService: SceneService;
+  let transitionService: TransitionService;
+  let live: Scene;
+  let next: Scene;
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(StudioModeService);
+    sceneService = TestBed.inject(SceneService);
+    transitionService = TestBed.inject(TransitionService);
+
+    live = sceneService.createScene('Live');
+    next = sceneService.createScene('Next');
+    sceneService.setActiveScene(live.id);
+  });
+
+  afterEach(() => {
+    transitionService.finish();
+  });
+
+  it('should preview the program scene when enabled', () => {
+    service.enableStudioMode();
+
+    expect(service.studioModeState()).toMatchObject({
+      inStudioMode: true,
+      previewScene: live.id,
+      programScene: live.id
+    });
+  });
+
+  it('should edit the preview scene without touching the program', () => {
+    service.enableStudioMode();
+    service.setPreviewScene(next.id);
+
+    expect(sceneService.editingScene()?.id).toBe(next.id);
+    expect(sceneService.programScene()?.id).toBe(live.id);
+  });
+
+  it('should refuse to set a preview outside studio mode', () => {
+    expect(() => service.setPreviewScene(next.id)).toThrow('Studio mode is not enabled');
+  });
+
+  it('should put the preview on air', async () => {
+    service.enableStudioMode(next.id);
+    service.setTransition(TransitionType.FADE, 20);
+
+    await service.transitionToPreview();
+
+    expect(sceneService.activeSceneId()).toBe(next.id);
+    expect(service.studioMode().programSceneId).toBe(next.id);
+  });
+
+  it('should keep edits to a duplicated scene off air', async () => {
+    const item = sceneService.addSourceToScene(
+      next.id,
+      TestBed.inject(SourceService).createSource('Camera', SourceType.COLOR_SOURCE)
+    ) as SceneItem;
+    service.enableStudioMode(next.id);
+    await service.quickTransition('cut');
+
+    sceneService.updateSceneItemTransform(next.id, item.id, { rotation: 45 });
+
+    expect(sceneService.programScene()?.sources[0].transform.rotation).toBe(0);
+    expect(sceneService.editingScene()?.sources[0].transform.rotation).toBe(45);
+  });
+
+  it('should put the live scene on air without duplicating', async () => {
+    service.setDuplicateScene(false);
+    service.enableStudioMode(next.id);
+    await service.quickTransition('cut');
+
+    expect(sceneService.programScene()).toBe(sceneService.getScene(next.id));
+  });
+
+  describe('T-bar', () => {
+    beforeEach(() => {
+      service.enableStudioMode(next.id);
+    });
+
+    it('should scrub the transition and cut at the end', () => {
+      service.setTransitionProgress(0.5);
+      expect(service.studioModeState()).toMatchObject({ inTransition: true, transitionProgress: 0.5 });
+      expect(sceneService.activeSceneId()).toBe(live.id);
+
+      service.setTransitionProgress(1);
+      expect(sceneService.activeSceneId()).toBe(next.id);
+      expect(service.studioModeState().inTransition).toBe(false);
+    });
+
+    it('should not start again until released', () => {
+      service.setTransitionProgress(1);
+      service.setPreviewScene(live.id);
+
+      service.setTransitionProgress(1);
+      expect(sceneService.activeSceneId()).toBe(next.id);
+
+      service.releaseTransitionBar();
+      service.setTransitionProgress(1);
+      expect(sceneService.activeSceneId()).toBe(live.id);
+    });
+
+    it('should call the transition off when released at the start', () => {
+      service.setTransitionProgress(0.3);
+      service.setTransitionProgress(0);
+      service.releaseTransitionBar();
+
+      expect(transitionService.isTransitioning()).toBe(false);
+      expect(sceneService.activeSceneId()).toBe(live.id);
+    });
+
+    it('should finish a scrubbed transition with the transition button', async () => {
+      service.setTransition(TransitionType.FADE, 20);
+      service.setTransitionProgress(0.5);
+
+      await service.transitionToPreview();
+
+      expect(sceneService.activeSceneId()).toBe(next.id);
+    });
+  });
+
+  it('should manage quick transitions', () => {
+    const quick = service.addQuickTransition({ type: TransitionType.SWIPE, duration: 500, settings: {} });
+    expect(service.studioMode().quickTransitions).toContainEqual(quick);
+
+    service.removeQuickTransition(quick.id);
+    expect(service.studioMode().quickTransitions.map(q => q.id)).toEqual(['cut', 'fade', 'fade-to-black']);
+  });
+
+  it('should leave the preview and program copy when disabled', async () => {
+    service.enableStudioMode(next.id);
+    await service.quickTransition('cut');
+    service.disableStudioMode();
+
+    expect(sceneService.previewSceneId()).toBeNull();
+    expect(sceneService.programScene()).toBe(sceneService.activeScene());
+    expect(service.studioModeState().inStudioMode).toBe(false);
+  });
+});
@@ -1,198 +1,265 @@
-import { Injectable } from '@angular/core';
-import { BehaviorSubject, Observable } from 'rxjs';
-import { StudioMode, StudioModeState } from '../models/studio-mode.model';
-import { TransitionType } from '../models/scene.model';
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
+import { QuickTransition, StudioMode, StudioModeState, StudioTransition } from '../models/studio-mode.model';
+import { Transition, TransitionType } from '../models/scene.model';
+import { SceneService } from './scene.service';
+import { TransitionService } from './transition.service';
+
+/**
+ * Studio Mode Service
+ * Edits a preview scene while the program scene stays on air. The preview goes
+ * on air with a transition that runs by itself or is scrubbed by hand with the T-bar.
+ */
+
+type StudioModeConfig = Omit<StudioMode, 'previewSceneId' | 'programSceneId'>;
+
+const DEFAULT_QUICK_TRANSITIONS: QuickTransition[] = [
+  { id: 'cut', type: TransitionType.CUT, duration: 0, settings: {} },
+  { id: 'fade', type: TransitionType.FADE, duration: 300, settings: {} },
+  { id: 'fade-to-black', type: TransitionType.FADE_TO_COLOR, duration: 300, settings: { color: '#000000' } }
+];
 
 @Injectable({
   providedIn: 'root'
 })
 export class StudioModeService {
-  private studioModeSubject = new BehaviorSubject<StudioMode>({
+  private sceneService = inject(SceneService);
+  private transitionService = inject(TransitionService);
+
+  private configSignal = signal<StudioModeConfig>({
     enabled: false,
-    previewSceneId: '',
-    programSceneId: '',
     transition: {
       type: 'fade',
       duration: 300,
       settings: {}
     },
-    verticalLayout: false
+    verticalLayout: false,
+    duplicateScene: true,
+    quickTransitions: DEFAULT_QUICK_TRANSITIONS
   });
 
-  private studioModeStateSubject = new BehaviorSubject<StudioModeState>({
-    inStudioMode: false,
-    inTransition: false,
-    transitionProgress: 0,
-    previewScene: '',
-    programScene: ''
+  // The transition being scrubbed with the T-bar
+  private manualTransition: Promise<void> | null = null;
+  // Set once the T-bar has reached the end, until it is let go
+  private transitionBarSpent = false;
+
+  // Public readonly signals
+  public readonly studioMode = computed(
+    (): StudioMode => ({
+      ...this.configSignal(),
+      previewSceneId: this.sceneService.previewSceneId() ?? '',
+      programSceneId: this.sceneService.activeSceneId() ?? ''
+    })
+  );
+
+  public readonly studioModeState = computed((): StudioModeState => {
+    const enabled = this.configSignal().enabled;
+    const inTransition = enabled && this.transitionService.isTransitioning();
+
+    return {
+      inStudioMode: enabled,
+      inTransition,
+      transitionProgress: inTransition ? this.transitionService.progress() : 0,
+      previewScene: enabled ? this.sceneService.previewSceneId() ?? '' : '',
+      programScene: this.sceneService.activeSceneId() ?? ''
+    };
   });
 
-  public readonly studioMode$ = this.studioModeSubject.asObservable();
-  public readonly studioModeState$ = this.studioModeStateSubject.asObservable();
+  public readonly studioMode$ = toObservable(this.studioMode);
+  public readonly studioModeState$ = toObservable(this.studioModeState);
 
   /**
-   * Enable studio mode
+   * Enable studio mode, previewing the program scene unless another one is given
    */
-  enableStudioMode(programSceneId: string, previewSceneId?: string): void {
-    const studioMode = this.studioModeSubject.value;
-
-    this.studioModeSubject.next({
-      ...studioMode,
-      enabled: true,
-      programSceneId,
-      previewSceneId: previewSceneId || programSceneId
-    });
-
-    this.studioModeStateSubject.next({
-      inStudioMode: true,
-      inTransition: false,
-      transitionProgress: 0,
-      previewScene: previewSceneId || programSceneId,
-      programScene: programSceneId
-    });
+  enableStudioMode(previewSceneId?: string): void {
+    this.configSignal.update(config => ({ ...config, enabled: true }));
+    this.sceneService.setPreviewScene(previewSceneId || this.sceneService.activeSceneId());
   }
 
   /**
    * Disable studio mode
    */
   disableStudioMode(): void {
-    const studioMode = this.studioModeSubject.value;
-
-    this.studioModeSubject.next({
-      ...studioMode,
-      enabled: false
-    });
+    if (this.transitionService.isManual()) {
+      this.transitionService.cancel();
+    }
 
-    this.studioModeStateSubject.next({
-      inStudioMode: false,
-      inTransition: false,
-      transitionProgress: 0,
-      previewScene: '',
-      programScene: studioMode.programSceneId
-    });
+    this.configSignal.update(config => ({ ...config, enabled: false }));
+    this.sceneService.setPreviewScene(null);
+    this.sceneService.clearProgramCopy();
   }
 
   /**
    * Set preview scene
    */
   setPreviewScene(sceneId: string): void {
-    const studioMode = this.studioModeSubject.value;
-    const state = this.studioModeStateSubject.value;
+    this.assertEnabled();
+    this.sceneService.setPreviewScene(sceneId);
+  }
 
-    if (!studioMode.enabled) {
-      throw new Error('Studio mode is not enabled');
+  /**
+   * Transition to preview (go live), with the studio transition unless another
+   * one is given. Finishes a transition started with the T-bar instead.
+   */
+  async transitionToPreview(transition?: StudioTransition): Promise<void> {
+    this.assertEnabled();
+
+    if (this.manualTransition) {
+      const running = this.manualTransition;
+      this.transitionService.resume();
+      await running;
+      return;
     }
 
-    this.studioModeSubject.next({
-      ...studioMode,
-      previewSceneId: sceneId
-    });
+    const previewSceneId = this.sceneService.previewSceneId();
+    if (!previewSceneId) return;
 
-    this.studioModeStateSubject.next({
-      ...state,
-      previewScene: sceneId
-    });
+    await this.sceneService.transitionToScene(
+      previewSceneId,
+      this.toTransition(transition ?? this.configSignal().transition),
+      { duplicate: this.configSignal().duplicateScene }
+    );
   }
 
   /**
-   * Transition to preview (go live)
+   * Transition to preview with one of the quick transitions
    */
-  async transitionToPreview(): Promise<void> {
-    const studioMode = this.studioModeSubject.value;
-    const state = this.studioModeStateSubject.value;
+  async quickTransition(quickTransitionId: string): Promise<void> {
+    const quick = this.configSignal().quickTransitions.find(candidate => candidate.id === quickTransitionId);
+    if (!quick) return;
 
-    if (!studioMode.enabled) {
-      throw new Error('Studio mode is not enabled');
-    }
+    await this.transitionToPreview(quick);
+  }
+
+  /**
+   * Scrub the transition to preview by hand (0-1), starting it on the first move.
+   * The preview goes on air when the T-bar reaches the end.
+   */
+  setTransitionProgress(progress: number): void {
+    this.assertEnabled();
+    if (this.transitionBarSpent) return;
+
+    if (!this.manualTransition) {
+      const previewSceneId = this.sceneService.previewSceneId();
+      if (!previewSceneId || progress <= 0 || this.transitionService.isTransitioning()) return;
 
-    // Start transition
-    this.studioModeStateSubject.next({
-      ...state,
-      inTransition: true,
-      transitionProgress: 0
-    });
-
-    // Simulate transition progress
-    const duration = studioMode.transition.duration;
-    const steps = 60;
-    const stepDuration = duration / steps;
-
-    for (let i = 0; i <= steps; i++) {
-      await new Promise((resolve) => setTimeout(resolve, stepDuration));
-
-      const progress = i / steps;
-      this.studioModeStateSubject.next({
-        ...this.studioModeStateSubject.value,
-        transitionProgress: progress
+      const running = this.sceneService.transitionToScene(
+        previewSceneId,
+        this.toTransition(this.configSignal().transition),
+        { manual: true, duplicate: this.configSignal().duplicateScene }
+      );
+      this.manualTransition = running;
+      running.finally(() => {
+        if (this.manualTransition === running) this.manualTransition = null;
       });
     }
 
-    // Complete transition
-    const newProgramScene = studioMode.previewSceneId;
+    this.transitionService.setProgress(progress);
 
-    this.studioModeSubject.next({
-      ...studioMode,
-      programSceneId: newProgramScene
-    });
+    if (!this.transitionService.isTransitioning()) {
+      this.manualTransition = null;
+      this.transitionBarSpent = true;
+    }
+  }
 
-    this.studioModeStateSubject.next({
-      inStudioMode: true,
-      inTransition: false,
-      transitionProgress: 1,
-      previewScene: newProgramScene,
-      programScene: newProgramScene
-    });
+  /**
+   * Let go of the T-bar. Released at the start, the transition is called off;
+   * anywhere else it waits there until it is moved again.
+   */
+  releaseTransitionBar(): void {
+    if (this.manualTransition && this.transitionService.progress() === 0) {
+      this.transitionService.cancel();
+      this.manualTransition = null;
+    }
+    this.transitionBarSpent = false;
   }
 
   /**
    * Swap preview and program scenes
    */
   swapScenes(): void {
-    const studioMode = this.studioModeSubject.value;
-    const state = this.studioModeStateSubject.value;
+    this.assertEnabled();
 
-    if (!studioMode.enabled) {
-      throw new Error('Studio mode is not enabled');
-    }
+    const previewSceneId = this.sceneService.previewSceneId();
+    const programSceneId = this.sceneService.activeSceneId();
+    if (!previewSceneId || !programSceneId) return;
 
-    this.studioModeSubject.next({
-      ...studioMode,
-      previewSceneId: studioMode.programSceneId,
-      programSceneId: studioMode.previewSceneId
-    });
-
-    this.studioModeStateSubject.next({
-      ...state,
-      previewScene: studioMode.programSceneId,
-      programScene: studioMode.previewSceneId
-    });
+    this.sceneService.setActiveScene(previewSceneId);
+    this.sceneService.setPreviewScene(programSceneId);
   }
 
   /**
    * Set transition type
    */
   setTransition(type: string, duration: number, settings: any = {}): void {
-    const studioMode = this.studioModeSubject.value;
-
-    this.studioModeSubject.next({
-      ...studioMode,
+    this.configSignal.update(config => ({
+      ...config,
       transition: {
         type,
         duration,
         settings
       }
-    });
+    }));
+  }
+
+  /**
+   * Turn putting a copy of the preview on air on or off
+   */
+  setDuplicateScene(duplicateScene: boolean): void {
+    this.configSignal.update(config => ({ ...config, duplicateScene }));
+
+    if (!duplicateScene) {
+      this.sceneService.clearProgramCopy();
+    }
+  }
+
+  /**
+   * Add a quick transition button
+   */
+  addQuickTransition(transition: StudioTransition): QuickTransition {
+    const quick: QuickTransition = { ...transition, id: this.generateId() };
+    this.configSignal.update(config => ({ ...config, quickTransitions: [...config.quickTransitions, quick] }));
+    return quick;
+  }
+
+  /**
+   * Remove a quick transition button
+   */
+  removeQuickTransition(quickTransitionId: string): void {
+    this.configSignal.update(config => ({
+      ...config,
+      quickTransitions: config.quickTransitions.filter(quick => quick.id !== quickTransitionId)
+    }));
   }
 
   /**
    * Toggle layout orientation
    */
   toggleLayout(): void {
-    const studioMode = this.studioModeSubject.value;
+    this.configSignal.update(config => ({
+      ...config,
+      verticalLayout: !config.verticalLayout
+    }));
+  }
+
+  private toTransition(transition: StudioTransition): Transition {
+    return {
+      type: transition.type as TransitionType,
+      duration: transition.duration,
+      settings: transition.settings
+    };
+  }
 
-    this.studioModeSubject.next({
-      ...studioMode,
-      verticalLayout: !studioMode.verticalLayout
-    });
+  private assertEnabled(): void {
+    if (!this.configSignal().enabled) {
+      throw new Error('Studio mode is not enabled');
+    }
+  }
+
+  /**
+   * Generate a unique ID
+   */
+  private generateId(): string {
+    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
 }
@@ -0,0 +1,62 @@
+import { LevelSample, estimateVideoLag, findOnset } from './sync-calibration.service';
+
+// A level sampled every 10 ms that steps up for 100 ms at each onset
+function pulses(onsets: number[], low: number, high: number, until = 5000): LevelSample[] {
+  const samples: LevelSample[] = [];
+  for (let time = 0; time < until; time += 10) {
+    const on = onsets.some(onset => time >= onset && time < onset + 100);
+    samples.push({ time, value: on ? high : low });
+  }
+  return samples;
+}
+
+describe('Sync calibration', () => {
+  describe('findOnset', () => {
+    it('should find where the level rises after a pulse', () => {
+      const samples = pulses([1120], 0.1, 0.9);
+
+      expect(findOnset(samples, 1000, 0.2)).toBe(1120);
+    });
+
+    it('should ignore a rise smaller than the minimum', () => {
+      const samples = pulses([1120], 0.1, 0.2);
+
+      expect(findOnset(samples, 1000, 0.2)).toBeNull();
+    });
+
+    it('should not look past the detection window', () => {
+      const samples = pulses([2000], 0.1, 0.9);
+
+      expect(findOnset(samples, 1000, 0.2)).toBeNull();
+    });
+  });
+
+  describe('estimateVideoLag', () => {
+    const pulseTimes = [1000, 2000, 3000];
+
+    it('should measure how late the flash arrives after the beep', () => {
+      const video = pulses([1180, 2190, 3180], 0.1, 0.9);
+      const audio = pulses([1030, 2030, 3040], 0, 0.5);
+
+      expect(estimateVideoLag(video, audio, pulseTimes)).toEqual({ lagMs: 150, pulses: 3 });
+    });
+
+    it('should report audio arriving after video as a negative lag', () => {
+      const video = pulses([1020, 2020, 3020], 0.1, 0.9);
+      const audio = pulses([1100, 2100, 3100], 0, 0.5);
+
+      expect(estimateVideoLag(video, audio, pulseTimes)?.lagMs).toBe(-80);
+    });
+
+    it('should skip pulses missing on one side', () => {
+      const video = pulses([1180, 3180], 0.1, 0.9);
+      const audio = pulses([1030, 2030, 3030], 0, 0.5);
+
+      expect(estimateVideoLag(video, audio, pulseTimes)).toEqual({ lagMs: 150, pulses: 2 });
+    });
+
+    it('should return null without any pulse found', () => {
+      expect(estimateVideoLag(pulses([], 0.1, 0.9), pulses([], 0, 0.5), pulseTimes)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { MAX_SYNC_OFFSET_MS } from '../models/source.model';
+import { AudioService } from './audio.service';
+import { CompositorService } from './compositor.service';
+import { SourceService } from './source.service';
+
+/**
+ * Sync Calibration Service
+ * Measures how far a camera lags behind a microphone. The screen flashes white
+ * with a beep a few times while the camera looks at the screen and the
+ * microphone hears the speakers; the delay between seeing the flash and hearing
+ * the beep is the offset that lines both sources up.
+ */
+
+export interface LevelSample {
+  time: number; // ms
+  value: number; // 0-1
+}
+
+export interface SyncCalibrationResult {
+  videoLagMs: number; // median time the flash arrived after the beep
+  pulses: number; // pulses seen on both sources
+  suggestedOffset: number; // sync offset for the audio source
+}
+
+const PULSE_COUNT = 5;
+const PULSE_INTERVAL_MS = 1000;
+const PULSE_LENGTH_MS = 100;
+const LEAD_IN_MS = 1000;
+const BASELINE_MS = 200;
+const DETECTION_WINDOW_MS = 800;
+const BEEP_FREQUENCY = 1000;
+const SAMPLE_SIZE = { width: 32, height: 18 };
+
+/**
+ * Time a level first rose halfway from its baseline to its peak within
+ * `windowMs` after `from`, or null when it did not rise by at least `minRise`
+ */
+export function findOnset(samples: LevelSample[], from: number, minRise: number, windowMs = DETECTION_WINDOW_MS): number | null {
+  const before = samples.filter(s => s.time >= from - BASELINE_MS && s.time < from);
+  const window = samples.filter(s => s.time >= from && s.time < from + windowMs);
+  if (before.length === 0 || window.length === 0) return null;
+
+  const baseline = before.reduce((sum, s) => sum + s.value, 0) / before.length;
+  const peak = Math.max(...window.map(s => s.value));
+  if (peak - baseline < minRise) return null;
+
+  const halfway = baseline + (peak - baseline) / 2;
+  return window.find(s => s.value >= halfway)?.time ?? null;
+}
+
+/**
+ * Median delay of the flashes behind the beeps over all pulses found on both
+ */
+export function estimateVideoLag(
+  video: LevelSample[],
+  audio: LevelSample[],
+  pulseTimes: number[]
+): { lagMs: number; pulses: number } | null {
+  const lags: number[] = [];
+
+  for (const pulse of pulseTimes) {
+    const flash = findOnset(video, pulse, 0.2);
+    const beep = findOnset(audio, pulse, 0.05);
+    if (flash !== null && beep !== null) {
+      lags.push(flash - beep);
+    }
+  }
+
+  if (lags.length === 0) return null;
+
+  lags.sort((a, b) => a - b);
+  const middle = Math.floor(lags.length / 2);
+  const lagMs = lags.length % 2 === 1 ? lags[middle] : (lags[middle - 1] + lags[middle]) / 2;
+
+  return { lagMs: Math.round(lagMs), pulses: lags.length };
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class SyncCalibrationService {
+  private audioService = inject(AudioService);
+  private compositor = inject(CompositorService);
+  private sourceService = inject(SourceService);
+
+  private isCalibratingSignal = signal(false);
+  private flashVisibleSignal = signal(false);
+
+  // Public readonly signals
+  public readonly isCalibrating = this.isCalibratingSignal.asReadonly();
+  // Shown full screen as the flash
+  public readonly flashVisible = this.flashVisibleSignal.asReadonly();
+
+  /**
+   * Flash and beep, and measure the camera's lag behind the microphone
+   */
+  async calibrate(videoSourceId: string, audioSourceId: string): Promise<SyncCalibrationResult> {
+    if (this.isCalibratingSignal()) {
+      throw new Error('Sync calibration is already running');
+    }
+
+    const videoSource = this.sourceService.getSource(videoSourceId);
+    if (!videoSource) {
+      throw new Error(`Source not found: ${videoSourceId}`);
+    }
+
+    const context = this.audioService.getAudioContext();
+    const stream = this.audioService.getSourceAudioStream(audioSourceId);
+    if (!context || !stream) {
+      throw new Error('The audio source has no live audio');
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = SAMPLE_SIZE.width;
+    canvas.height = SAMPLE_SIZE.height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+      throw new Error('Canvas 2D is not available');
+    }
+
+    const input = context.createMediaStreamSource(stream);
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 512;
+    input.connect(analyser);
+    const buffer = new Float32Array(analyser.fftSize);
+
+    const video: LevelSample[] = [];
+    const audio: LevelSample[] = [];
+    const pulseTimes: number[] = [];
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    let frame = 0;
+
+    const sample = () => {
+      const time = performance.now();
+      const image = this.compositor.getFrame(videoSource)?.image;
+      if (image) {
+        ctx.drawImage(image, 0, 0, SAMPLE_SIZE.width, SAMPLE_SIZE.height);
+        video.push({ time, value: this.measureBrightness(ctx) });
+      }
+
+      analyser.getFloatTimeDomainData(buffer);
+      audio.push({ time, value: buffer.reduce((peak, value) => Math.max(peak, Math.abs(value)), 0) });
+      frame = requestAnimationFrame(sample);
+    };
+
+    this.isCalibratingSignal.set(true);
+    try {
+      frame = requestAnimationFrame(sample);
+
+      await new Promise<void>(resolve => {
+        for (let i = 0; i < PULSE_COUNT; i++) {
+          timers.push(setTimeout(() => {
+            pulseTimes.push(performance.now());
+            this.pulse(context);
+          }, LEAD_IN_MS + i * PULSE_INTERVAL_MS));
+        }
+        timers.push(setTimeout(resolve, LEAD_IN_MS + PULSE_COUNT * PULSE_INTERVAL_MS));
+      });
+    } finally {
+      timers.forEach(timer => clearTimeout(timer));
+      cancelAnimationFrame(frame);
+      input.disconnect();
+      this.flashVisibleSignal.set(false);
+      this.isCalibratingSignal.set(false);
+    }
+
+    const lag = estimateVideoLag(video, audio, pulseTimes);
+    if (!lag) {
+      throw new Error('No flash or beep detected. Point the camera at the screen and turn the speakers up.');
+    }
+
+    const videoOffset = videoSource.syncOffset ?? 0;
+    return {
+      videoLagMs: lag.lagMs,
+      pulses: lag.pulses,
+      suggestedOffset: Math.max(-MAX_SYNC_OFFSET_MS, Math.min(MAX_SYNC_OFFSET_MS, videoOffset + lag.lagMs))
+    };
+  }
+
+  /**
+   * Give the audio source the measured offset
+   */
+  applyResult(audioSourceId: string, result: SyncCalibrationResult): void {
+    this.sourceService.setSyncOffset(audioSourceId, result.suggestedOffset);
+  }
+
+  /**
+   * Flash the screen and beep at the same moment
+   */
+  private pulse(context: AudioContext): void {
+    this.flashVisibleSignal.set(true);
+    setTimeout(() => this.flashVisibleSignal.set(false), PULSE_LENGTH_MS);
+
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.frequency.value = BEEP_FREQUENCY;
+    gain.gain.value = 0.5;
+    oscillator.connect(gain);
+    gain.connect(context.destination);
+    oscillator.onended = () => gain.disconnect();
+    oscillator.start();
+    oscillator.stop(context.currentTime + PULSE_LENGTH_MS / 1000);
+  }
+
+  /**
+   * Mean luma (0-1) of the downscaled camera frame
+   */
+  private measureBrightness(ctx: CanvasRenderingContext2D): number {
+    const { data } = ctx.getImageData(0, 0, SAMPLE_SIZE.width, SAMPLE_SIZE.height);
+    let sum = 0;
+    for (let i = 0; i < data.length; i += 4) {
+      sum += 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2];
+    }
+    return sum / (data.length / 4) / 255;
+  }
+}
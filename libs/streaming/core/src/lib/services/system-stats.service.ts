@@ -0,0 +1,36 @@
+import { Injectable, signal, computed, inject } from '@angular/core';
+import { SocketService } from './socket.service';
+
+/**
+ * System Stats Service
+ * Host CPU and memory usage, as measured by the API
+ */
+
+export interface SystemStats {
+  cpuUsage: number; // percentage
+  memoryUsed: number; // MB
+  memoryTotal: number; // MB
+  timestamp: number;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class SystemStatsService {
+  private socket = inject(SocketService);
+
+  private statsSignal = signal<SystemStats | null>(null);
+
+  // Public readonly signals
+  public readonly stats = this.statsSignal.asReadonly();
+  public readonly cpuUsage = computed(() => this.statsSignal()?.cpuUsage ?? 0);
+  public readonly memoryUsed = computed(() => this.statsSignal()?.memoryUsed ?? 0);
+  public readonly memoryPercentage = computed(() => {
+    const stats = this.statsSignal();
+    return stats && stats.memoryTotal > 0 ? (stats.memoryUsed / stats.memoryTotal) * 100 : 0;
+  });
+
+  constructor() {
+    this.socket.on<SystemStats>('system:stats', stats => this.statsSignal.set(stats));
+  }
+}
@@ -0,0 +1,229 @@
+import { Scene, SceneItem } from '../models/scene.model';
+import { GeneralSettings } from '../models/settings.model';
+import { Alignment, Source, SourceType, Transform } from '../models/source.model';
+import {
+  cropTransform,
+  getCanvasBounds,
+  getItemGeometry,
+  getSceneGeometries,
+  getSnapLines,
+  getSnapOptions,
+  hitTestHandle,
+  hitTestItems,
+  resizeTransform,
+  rotateTransform,
+  snapPoint,
+  snapRect
+} from './transform-editing';
+
+const sources = new Map<string, Source>();
+const lookupSource = (sourceId: string) => sources.get(sourceId) ?? null;
+const lookupSize = () => ({ width: 400, height: 300 });
+
+function createTransform(overrides: Partial<Transform> = {}): Transform {
+  return {
+    position: { x: 0, y: 0 },
+    scale: { x: 1, y: 1 },
+    rotation: 0,
+    crop: { top: 0, bottom: 0, left: 0, right: 0 },
+    alignment: Alignment.LEFT | Alignment.TOP,
+    boundsType: 'none',
+    boundsAlignment: 0,
+    bounds: { x: 0, y: 0 },
+    ...overrides
+  };
+}
+
+function createItem(
+  id: string,
+  transform: Partial<Transform> = {},
+  overrides: Partial<SceneItem> = {},
+  type = SourceType.COLOR_SOURCE
+): SceneItem {
+  sources.set(`source-${id}`, {
+    id: `source-${id}`,
+    name: id,
+    type,
+    enabled: true,
+    settings: {},
+    filters: [],
+    volume: 1,
+    muted: false
+  });
+
+  return {
+    id,
+    sourceId: `source-${id}`,
+    transform: createTransform(transform),
+    order: 0,
+    visible: true,
+    locked: false,
+    ...overrides
+  };
+}
+
+function createScene(items: SceneItem[]): Scene {
+  return { id: 'scene', name: 'Scene', sources: items, enabled: true, locked: false };
+}
+
+function geometryOf(item: SceneItem, scene = createScene([item])) {
+  const geometry = getItemGeometry(scene, item, lookupSource, lookupSize);
+  if (!geometry) throw new Error(`No geometry for ${item.id}`);
+  return geometry;
+}
+
+describe('Transform Editing', () => {
+  describe('Hit-testing', () => {
+    it('should pick the top-most visible item', () => {
+      const below = createItem('below', {}, { order: 0 });
+      const above = createItem('above', { position: { x: 200, y: 0 } }, { order: 1 });
+      const hidden = createItem('hidden', {}, { order: 2, visible: false });
+      const geometries = getSceneGeometries(createScene([below, above, hidden]), lookupSource, lookupSize);
+
+      expect(hitTestItems(geometries, { x: 300, y: 100 })?.item.id).toBe('above');
+      expect(hitTestItems(geometries, { x: 100, y: 100 })?.item.id).toBe('below');
+      expect(hitTestItems(geometries, { x: 700, y: 100 })).toBeNull();
+    });
+
+    it('should follow rotation', () => {
+      const geometry = geometryOf(createItem('rotated', { position: { x: 500, y: 500 }, rotation: 90 }));
+
+      expect(hitTestItems([geometry], { x: 450, y: 600 })).not.toBeNull();
+      expect(hitTestItems([geometry], { x: 600, y: 550 })).toBeNull();
+      const bounds = getCanvasBounds(geometry);
+      expect(bounds.x).toBeCloseTo(200);
+      expect(bounds.y).toBeCloseTo(500);
+      expect(bounds.width).toBeCloseTo(300);
+      expect(bounds.height).toBeCloseTo(400);
+    });
+
+    it('should pick a group by its children', () => {
+      const group = createItem('group', { position: { x: 100, y: 100 }, scale: { x: 0.5, y: 0.5 } }, {}, SourceType.GROUP);
+      const child = createItem('child', { position: { x: 200, y: 0 } }, { groupId: 'group' });
+      const scene = createScene([group, child]);
+      const [geometry] = getSceneGeometries(scene, lookupSource, lookupSize);
+
+      expect(geometry.item.id).toBe('group');
+      expect(getCanvasBounds(geometry)).toEqual({ x: 200, y: 100, width: 200, height: 150 });
+    });
+
+    it('should find handles near the pointer', () => {
+      const geometry = geometryOf(createItem('item', { position: { x: 100, y: 100 } }));
+
+      expect(hitTestHandle(geometry, { x: 503, y: 398 }, 8, 40)).toBe('bottom-right');
+      expect(hitTestHandle(geometry, { x: 300, y: 60 }, 8, 40)).toBe('rotate');
+      expect(hitTestHandle(geometry, { x: 300, y: 250 }, 8, 40)).toBeNull();
+    });
+  });
+
+  describe('Resizing', () => {
+    it('should keep the aspect ratio and the opposite corner on corners', () => {
+      const geometry = geometryOf(createItem('item', { position: { x: 100, y: 100 } }));
+      const result = resizeTransform(geometry, 'bottom-right', { x: 600, y: 500 }, true);
+
+      expect(result.position).toEqual({ x: 100, y: 100 });
+      expect(result.scale?.x).toBeCloseTo(4 / 3);
+      expect(result.scale?.y).toBeCloseTo(4 / 3);
+    });
+
+    it('should move the alignment point to keep the opposite edge still', () => {
+      const geometry = geometryOf(createItem('item', { position: { x: 300, y: 250 }, alignment: Alignment.CENTER }));
+      const result = resizeTransform(geometry, 'top-left', { x: 0, y: 0 }, false);
+
+      expect(result.position).toEqual({ x: 250, y: 200 });
+      expect(result.scale?.x).toBeCloseTo(1.25);
+      expect(result.scale?.y).toBeCloseTo(4 / 3);
+    });
+
+    it('should resize the bounding box of bounded items', () => {
+      const geometry = geometryOf(createItem('item', { boundsType: 'scale', bounds: { x: 800, y: 600 } }));
+
+      expect(resizeTransform(geometry, 'right', { x: 1000, y: 300 }, true)).toEqual({
+        position: { x: 0, y: 0 },
+        bounds: { x: 1000, y: 600 }
+      });
+    });
+
+    it('should scale groups around the opposite edge', () => {
+      const group = createItem('group', { position: { x: 100, y: 100 } }, {}, SourceType.GROUP);
+      const child = createItem('child', { position: { x: 0, y: 0 } }, { groupId: 'group' });
+      const [geometry] = getSceneGeometries(createScene([group, child]), lookupSource, lookupSize);
+      const result = resizeTransform(geometry, 'top-left', { x: 300, y: 250 }, false);
+
+      expect(result.scale).toEqual({ x: 0.5, y: 0.5 });
+      expect(result.position).toEqual({ x: 300, y: 250 });
+    });
+  });
+
+  describe('Cropping', () => {
+    it('should crop in source pixels and keep the picture in place', () => {
+      const geometry = geometryOf(createItem('item', { scale: { x: 2, y: 2 } }));
+      const result = cropTransform(geometry, 'left', { x: 50, y: 300 });
+
+      expect(result.crop).toEqual({ top: 0, bottom: 0, left: 25, right: 0 });
+      expect(result.position).toEqual({ x: 50, y: 0 });
+    });
+
+    it('should not crop the picture away entirely', () => {
+      const geometry = geometryOf(createItem('item'));
+      const result = cropTransform(geometry, 'bottom', { x: 0, y: -500 });
+
+      expect(result.crop?.bottom).toBe(299);
+    });
+
+    it('should crop the other side of flipped items', () => {
+      const geometry = geometryOf(createItem('item', { scale: { x: -1, y: 1 } }));
+
+      expect(cropTransform(geometry, 'left', { x: 40, y: 0 }).crop).toMatchObject({ left: 0, right: 40 });
+    });
+  });
+
+  describe('Rotating', () => {
+    it('should rotate by the angle swept around the position', () => {
+      const geometry = geometryOf(createItem('item', { position: { x: 100, y: 100 } }));
+
+      expect(rotateTransform(geometry, { x: 200, y: 100 }, { x: 100, y: 200 }, 0).rotation).toBeCloseTo(90);
+      expect(rotateTransform(geometry, { x: 200, y: 100 }, { x: 100, y: 0 }, 0).rotation).toBeCloseTo(270);
+    });
+
+    it('should rotate in steps', () => {
+      const geometry = geometryOf(createItem('item'));
+
+      expect(rotateTransform(geometry, { x: 100, y: 0 }, { x: 100, y: 30 }, 10, 15).rotation).toBe(30);
+    });
+  });
+
+  describe('Snapping', () => {
+    const settings = {
+      snappingEnabled: true,
+      screenSnapping: true,
+      sourceSnapping: true,
+      centerSnapping: false,
+      snapDistance: 10
+    } as GeneralSettings;
+
+    it('should follow the general settings', () => {
+      expect(getSnapOptions({ ...settings, snappingEnabled: false })).toBeNull();
+      expect(getSnapOptions(settings, 2)).toEqual({ screen: true, sources: true, center: false, distance: 20 });
+    });
+
+    it('should snap to the screen and to other sources', () => {
+      const options = getSnapOptions(settings);
+      if (!options) throw new Error('Snapping is disabled');
+      const lines = getSnapLines(1920, 1080, [{ x: 500, y: 500, width: 100, height: 100 }], options);
+
+      expect(snapRect({ x: 6, y: 200, width: 100, height: 100 }, lines, options.distance)).toEqual({ x: -6, y: 0 });
+      expect(snapRect({ x: 604, y: 395, width: 100, height: 100 }, lines, options.distance)).toEqual({ x: -4, y: 5 });
+      expect(snapPoint({ x: 1915, y: 300 }, lines, options.distance)).toEqual({ x: 1920, y: 300 });
+      expect(lines.x).not.toContain(960);
+    });
+
+    it('should snap to the center when enabled', () => {
+      const options = getSnapOptions({ ...settings, centerSnapping: true });
+      if (!options) throw new Error('Snapping is disabled');
+      const lines = getSnapLines(1920, 1080, [], options);
+
+      expect(snapRect({ x: 905, y: 0, width: 100, height: 100 }, lines, options.distance)).toEqual({ x: 5, y: 0 });
+    });
+  });
+});
@@ -0,0 +1,514 @@
+import { Scene, SceneItem } from '../models/scene.model';
+import { GeneralSettings } from '../models/settings.model';
+import { Transform } from '../models/source.model';
+import { Rect, alignmentOffset, computeItemLayout } from './compositor.service';
+import { SourceLookup, getChildItems, isGroupItem } from './scene-graph';
+
+/**
+ * Transform Editing
+ * Geometry behind editing scene items in the preview: hit-testing, handles,
+ * snapping and the transforms that moving, resizing, cropping and rotating produce.
+ * Points are in canvas coordinates; an item's local space is its canvas space
+ * after translation and rotation (and scale, for groups).
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * A 2D affine matrix in the same layout as CanvasRenderingContext2D.setTransform
+ */
+export interface Matrix {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+/**
+ * Where an item is on the canvas: its local box and the matrix placing it
+ */
+export interface ItemGeometry {
+  item: SceneItem;
+  matrix: Matrix;
+  box: Rect;
+  group: boolean;
+}
+
+export type ResizeHandle =
+  | 'top-left'
+  | 'top'
+  | 'top-right'
+  | 'right'
+  | 'bottom-right'
+  | 'bottom'
+  | 'bottom-left'
+  | 'left';
+
+export type TransformHandle = ResizeHandle | 'rotate';
+
+export type SizeLookup = (sourceId: string) => { width: number; height: number } | null;
+
+export interface SnapOptions {
+  screen: boolean;
+  sources: boolean;
+  center: boolean;
+  distance: number;
+}
+
+/**
+ * Lines an edge can snap to, per axis
+ */
+export interface SnapLines {
+  x: number[];
+  y: number[];
+}
+
+export const RESIZE_HANDLES: ResizeHandle[] = [
+  'top-left',
+  'top',
+  'top-right',
+  'right',
+  'bottom-right',
+  'bottom',
+  'bottom-left',
+  'left'
+];
+
+// Smallest size an item can be resized or cropped to, in canvas pixels
+const MIN_SIZE = 1;
+
+export const IDENTITY: Matrix = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+
+export function multiply(m: Matrix, n: Matrix): Matrix {
+  return {
+    a: m.a * n.a + m.c * n.b,
+    b: m.b * n.a + m.d * n.b,
+    c: m.a * n.c + m.c * n.d,
+    d: m.b * n.c + m.d * n.d,
+    e: m.a * n.e + m.c * n.f + m.e,
+    f: m.b * n.e + m.d * n.f + m.f
+  };
+}
+
+export function invert(m: Matrix): Matrix {
+  const det = m.a * m.d - m.b * m.c;
+  if (det === 0) return IDENTITY;
+
+  return {
+    a: m.d / det,
+    b: -m.b / det,
+    c: -m.c / det,
+    d: m.a / det,
+    e: (m.c * m.f - m.d * m.e) / det,
+    f: (m.b * m.e - m.a * m.f) / det
+  };
+}
+
+export function applyToPoint(m: Matrix, point: Point): Point {
+  return {
+    x: m.a * point.x + m.c * point.y + m.e,
+    y: m.b * point.x + m.d * point.y + m.f
+  };
+}
+
+/**
+ * Matrix of a transform's position and rotation, plus its scale for groups
+ */
+export function transformMatrix(transform: Transform, withScale = false): Matrix {
+  const angle = (transform.rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const sx = withScale ? transform.scale.x : 1;
+  const sy = withScale ? transform.scale.y : 1;
+
+  return {
+    a: cos * sx,
+    b: sin * sx,
+    c: -sin * sy,
+    d: cos * sy,
+    e: transform.position.x,
+    f: transform.position.y
+  };
+}
+
+function rectCorners(rect: Rect): Point[] {
+  return [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y + rect.height },
+    { x: rect.x, y: rect.y + rect.height }
+  ];
+}
+
+function boundingRect(points: Point[]): Rect {
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * Geometry of an item relative to its parent, or null when it has nothing to show.
+ * A group's box surrounds its visible children.
+ */
+export function getItemGeometry(
+  scene: Scene,
+  item: SceneItem,
+  sources: SourceLookup,
+  sizes: SizeLookup
+): ItemGeometry | null {
+  const source = sources(item.sourceId);
+  if (!source || !item.visible || !source.enabled) return null;
+
+  if (isGroupItem(item, sources)) {
+    const corners = getChildItems(scene, item.id)
+      .map(child => getItemGeometry(scene, child, sources, sizes))
+      .filter((child): child is ItemGeometry => child !== null)
+      .flatMap(child => rectCorners(child.box).map(corner => applyToPoint(child.matrix, corner)));
+
+    if (corners.length === 0) return null;
+
+    return { item, matrix: transformMatrix(item.transform, true), box: boundingRect(corners), group: true };
+  }
+
+  const size = sizes(item.sourceId);
+  const layout = size ? computeItemLayout(item.transform, size.width, size.height) : null;
+  if (!layout) return null;
+
+  return { item, matrix: transformMatrix(item.transform), box: layout.box, group: false };
+}
+
+/**
+ * Geometry of the items at the scene root that can be picked in the preview,
+ * lowest order first
+ */
+export function getSceneGeometries(scene: Scene, sources: SourceLookup, sizes: SizeLookup): ItemGeometry[] {
+  return getChildItems(scene)
+    .map(item => getItemGeometry(scene, item, sources, sizes))
+    .filter((geometry): geometry is ItemGeometry => geometry !== null);
+}
+
+/**
+ * Whether a canvas point lies on an item
+ */
+export function containsPoint(geometry: ItemGeometry, point: Point): boolean {
+  const local = applyToPoint(invert(geometry.matrix), point);
+  const { box } = geometry;
+
+  return (
+    local.x >= box.x && local.x <= box.x + box.width && local.y >= box.y && local.y <= box.y + box.height
+  );
+}
+
+/**
+ * The top-most item under a canvas point
+ */
+export function hitTestItems(geometries: ItemGeometry[], point: Point): ItemGeometry | null {
+  for (let i = geometries.length - 1; i >= 0; i--) {
+    if (containsPoint(geometries[i], point)) return geometries[i];
+  }
+  return null;
+}
+
+/**
+ * Axis-aligned canvas rect around an item
+ */
+export function getCanvasBounds(geometry: ItemGeometry): Rect {
+  return boundingRect(rectCorners(geometry.box).map(corner => applyToPoint(geometry.matrix, corner)));
+}
+
+function handleEdges(handle: ResizeHandle): { left: boolean; right: boolean; top: boolean; bottom: boolean } {
+  return {
+    left: handle.endsWith('left'),
+    right: handle.endsWith('right'),
+    top: handle.startsWith('top'),
+    bottom: handle.startsWith('bottom')
+  };
+}
+
+function handleLocalPoint(box: Rect, handle: ResizeHandle): Point {
+  const edges = handleEdges(handle);
+  return {
+    x: edges.left ? box.x : edges.right ? box.x + box.width : box.x + box.width / 2,
+    y: edges.top ? box.y : edges.bottom ? box.y + box.height : box.y + box.height / 2
+  };
+}
+
+/**
+ * Canvas positions of the resize handles and of the rotate handle, which sits
+ * the given distance above the top edge
+ */
+export function getHandlePoints(geometry: ItemGeometry, rotateDistance: number): Record<TransformHandle, Point> {
+  const points = {} as Record<TransformHandle, Point>;
+  for (const handle of RESIZE_HANDLES) {
+    points[handle] = applyToPoint(geometry.matrix, handleLocalPoint(geometry.box, handle));
+  }
+
+  // "Up" in the item's local space, as a canvas direction
+  const { matrix } = geometry;
+  const length = Math.hypot(matrix.c, matrix.d) || 1;
+  const top = points.top;
+  points.rotate = {
+    x: top.x - (matrix.c / length) * rotateDistance,
+    y: top.y - (matrix.d / length) * rotateDistance
+  };
+
+  return points;
+}
+
+/**
+ * The handle within the given radius of a canvas point
+ */
+export function hitTestHandle(
+  geometry: ItemGeometry,
+  point: Point,
+  radius: number,
+  rotateDistance: number
+): TransformHandle | null {
+  const points = getHandlePoints(geometry, rotateDistance);
+  const handles: TransformHandle[] = ['rotate', ...RESIZE_HANDLES];
+
+  return (
+    handles.find(handle => Math.hypot(points[handle].x - point.x, points[handle].y - point.y) <= radius) ?? null
+  );
+}
+
+export function isCornerHandle(handle: ResizeHandle): boolean {
+  return handle.includes('-');
+}
+
+/**
+ * Snap options from the general settings, or null with snapping turned off.
+ * The distance is given in screen pixels and scaled to the canvas.
+ */
+export function getSnapOptions(settings: GeneralSettings, canvasPerScreenPixel = 1): SnapOptions | null {
+  if (!settings.snappingEnabled) return null;
+
+  return {
+    screen: settings.screenSnapping,
+    sources: settings.sourceSnapping,
+    center: settings.centerSnapping,
+    distance: settings.snapDistance * canvasPerScreenPixel
+  };
+}
+
+/**
+ * Lines to snap to: the canvas edges, its center and the edges of other items
+ */
+export function getSnapLines(width: number, height: number, others: Rect[], options: SnapOptions): SnapLines {
+  const lines: SnapLines = { x: [], y: [] };
+
+  if (options.screen) {
+    lines.x.push(0, width);
+    lines.y.push(0, height);
+  }
+
+  if (options.center) {
+    lines.x.push(width / 2);
+    lines.y.push(height / 2);
+  }
+
+  if (options.sources) {
+    for (const rect of others) {
+      lines.x.push(rect.x, rect.x + rect.width);
+      lines.y.push(rect.y, rect.y + rect.height);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Smallest offset that moves one of the values onto a line, or 0 when none is in range
+ */
+function snapAxis(values: number[], lines: number[], distance: number): number {
+  let best = 0;
+  let bestDistance = distance;
+
+  for (const value of values) {
+    for (const line of lines) {
+      const offset = line - value;
+      if (Math.abs(offset) <= bestDistance) {
+        best = offset;
+        bestDistance = Math.abs(offset);
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Offset that snaps a moved rect's edges or center onto the nearest lines
+ */
+export function snapRect(rect: Rect, lines: SnapLines, distance: number): Point {
+  return {
+    x: snapAxis([rect.x, rect.x + rect.width / 2, rect.x + rect.width], lines.x, distance),
+    y: snapAxis([rect.y, rect.y + rect.height / 2, rect.y + rect.height], lines.y, distance)
+  };
+}
+
+/**
+ * Snap a dragged point, e.g. a resize handle, onto the nearest lines
+ */
+export function snapPoint(point: Point, lines: SnapLines, distance: number): Point {
+  return {
+    x: point.x + snapAxis([point.x], lines.x, distance),
+    y: point.y + snapAxis([point.y], lines.y, distance)
+  };
+}
+
+/**
+ * Resize an item by dragging a handle to a canvas point, keeping the opposite
+ * edge in place. Corners keep the aspect ratio when asked to.
+ */
+export function resizeTransform(
+  geometry: ItemGeometry,
+  handle: ResizeHandle,
+  point: Point,
+  keepAspectRatio: boolean
+): Partial<Transform> {
+  const { box, matrix, item } = geometry;
+  const transform = item.transform;
+  const local = applyToPoint(invert(matrix), point);
+  const edges = handleEdges(handle);
+
+  let x0 = box.x;
+  let x1 = box.x + box.width;
+  let y0 = box.y;
+  let y1 = box.y + box.height;
+
+  if (edges.left) x0 = Math.min(local.x, x1 - MIN_SIZE);
+  if (edges.right) x1 = Math.max(local.x, x0 + MIN_SIZE);
+  if (edges.top) y0 = Math.min(local.y, y1 - MIN_SIZE);
+  if (edges.bottom) y1 = Math.max(local.y, y0 + MIN_SIZE);
+
+  let width = x1 - x0;
+  let height = y1 - y0;
+
+  if (keepAspectRatio && isCornerHandle(handle)) {
+    const factor = Math.max(width / box.width, height / box.height);
+    width = box.width * factor;
+    height = box.height * factor;
+    if (edges.left) x0 = x1 - width;
+    else x1 = x0 + width;
+    if (edges.top) y0 = y1 - height;
+    else y1 = y0 + height;
+  }
+
+  const factorX = width / box.width;
+  const factorY = height / box.height;
+
+  if (geometry.group) {
+    // Groups scale around their position, so move it to keep the opposite edge still
+    const anchor = { x: edges.left ? x1 : x0, y: edges.top ? y1 : y0 };
+    const scale = { x: transform.scale.x * factorX, y: transform.scale.y * factorY };
+    const scaled = transformMatrix({ ...transform, scale }, true);
+    const fixed = applyToPoint(matrix, anchor);
+    const moved = applyToPoint(scaled, anchor);
+
+    return {
+      scale,
+      position: {
+        x: transform.position.x + fixed.x - moved.x,
+        y: transform.position.y + fixed.y - moved.y
+      }
+    };
+  }
+
+  const origin = alignmentOffset(transform.alignment, width, height);
+  const position = applyToPoint(matrix, { x: x0 + origin.x, y: y0 + origin.y });
+
+  if (transform.boundsType === 'none') {
+    return {
+      position,
+      scale: { x: transform.scale.x * factorX, y: transform.scale.y * factorY }
+    };
+  }
+
+  return { position, bounds: { x: width, y: height } };
+}
+
+/**
+ * Crop an item by dragging a handle to a canvas point, keeping the rest of
+ * the picture in place. Only items without a bounding box can be cropped this way.
+ */
+export function cropTransform(geometry: ItemGeometry, handle: ResizeHandle, point: Point): Partial<Transform> {
+  const { box, matrix, item } = geometry;
+  const transform = item.transform;
+  if (geometry.group || transform.boundsType !== 'none') return {};
+
+  const local = applyToPoint(invert(matrix), point);
+  const edges = handleEdges(handle);
+  const scaleX = Math.abs(transform.scale.x);
+  const scaleY = Math.abs(transform.scale.y);
+  if (scaleX === 0 || scaleY === 0) return {};
+
+  // Flipped items show the opposite side of the source on each edge
+  const leftKey = transform.scale.x < 0 ? 'right' : 'left';
+  const rightKey = transform.scale.x < 0 ? 'left' : 'right';
+  const topKey = transform.scale.y < 0 ? 'bottom' : 'top';
+  const bottomKey = transform.scale.y < 0 ? 'top' : 'bottom';
+
+  const crop = { ...transform.crop };
+  let x0 = box.x;
+  let x1 = box.x + box.width;
+  let y0 = box.y;
+  let y1 = box.y + box.height;
+
+  // Whole source pixels, never uncropping past the source or cropping it away
+  const cropBy = (current: number, pixels: number, remaining: number) =>
+    Math.min(Math.max(Math.round(current + pixels), 0), current + remaining - 1);
+
+  if (edges.left) {
+    const next = cropBy(crop[leftKey], (local.x - x0) / scaleX, box.width / scaleX);
+    x0 += (next - crop[leftKey]) * scaleX;
+    crop[leftKey] = next;
+  }
+  if (edges.right) {
+    const next = cropBy(crop[rightKey], (x1 - local.x) / scaleX, (x1 - x0) / scaleX);
+    x1 -= (next - crop[rightKey]) * scaleX;
+    crop[rightKey] = next;
+  }
+  if (edges.top) {
+    const next = cropBy(crop[topKey], (local.y - y0) / scaleY, box.height / scaleY);
+    y0 += (next - crop[topKey]) * scaleY;
+    crop[topKey] = next;
+  }
+  if (edges.bottom) {
+    const next = cropBy(crop[bottomKey], (y1 - local.y) / scaleY, (y1 - y0) / scaleY);
+    y1 -= (next - crop[bottomKey]) * scaleY;
+    crop[bottomKey] = next;
+  }
+
+  const origin = alignmentOffset(transform.alignment, x1 - x0, y1 - y0);
+  return { crop, position: applyToPoint(matrix, { x: x0 + origin.x, y: y0 + origin.y }) };
+}
+
+/**
+ * Rotate an item around its position by the angle the pointer swept since
+ * the drag started, optionally in steps of the given degrees
+ */
+export function rotateTransform(
+  geometry: ItemGeometry,
+  start: Point,
+  point: Point,
+  startRotation: number,
+  step = 0
+): Partial<Transform> {
+  const origin = { x: geometry.matrix.e, y: geometry.matrix.f };
+  const swept =
+    Math.atan2(point.y - origin.y, point.x - origin.x) - Math.atan2(start.y - origin.y, start.x - origin.x);
+
+  let rotation = startRotation + (swept * 180) / Math.PI;
+  if (step > 0) rotation = Math.round(rotation / step) * step;
+
+  return { rotation: ((rotation % 360) + 360) % 360 };
+}
@@ -0,0 +1,217 @@
+import { TestBed } from '@angular/core/testing';
+import {
+  TransitionService,
+  directionOffset,
+  easeProgress,
+  lumaAlpha,
+  lumaRamp,
+  wipeRect
+} from './transition.service';
+import { Scene, TransitionType } from '../models/scene.model';
+
+function createScene(id: string): Scene {
+  return { id, name: id, sources: [], enabled: true, locked: false };
+}
+
+describe('TransitionService', () => {
+  describe('easeProgress', () => {
+    it('should keep linear progress unchanged', () => {
+      expect(easeProgress('linear', 0.25)).toBe(0.25);
+    });
+
+    it('should start slow with ease-in and fast with ease-out', () => {
+      expect(easeProgress('ease-in', 0.5)).toBeLessThan(0.5);
+      expect(easeProgress('ease-out', 0.5)).toBeGreaterThan(0.5);
+    });
+
+    it('should be symmetric with ease-in-out', () => {
+      expect(easeProgress('ease-in-out', 0.5)).toBeCloseTo(0.5);
+      expect(easeProgress('ease-in-out', 0.25) + easeProgress('ease-in-out', 0.75)).toBeCloseTo(1);
+    });
+
+    it('should clamp progress to 0-1', () => {
+      expect(easeProgress('ease-in', -1)).toBe(0);
+      expect(easeProgress('ease-out', 2)).toBe(1);
+    });
+  });
+
+  describe('directionOffset', () => {
+    it('should move content left by default', () => {
+      expect(directionOffset(undefined, 0.5, 1920, 1080)).toEqual({ x: -960, y: 0 });
+    });
+
+    it('should move content down', () => {
+      expect(directionOffset('down', 0.5, 1920, 1080)).toEqual({ x: 0, y: 540 });
+    });
+  });
+
+  describe('wipeRect', () => {
+    it('should reveal from the right edge when wiping left', () => {
+      expect(wipeRect('left', 0.25, 100, 50)).toEqual({ x: 75, y: 0, width: 25, height: 50 });
+    });
+
+    it('should reveal from the top edge when wiping down', () => {
+      expect(wipeRect('down', 0.5, 100, 50)).toEqual({ x: 0, y: 0, width: 100, height: 25 });
+    });
+  });
+
+  describe('lumaAlpha', () => {
+    it('should reveal dark pixels before bright ones', () => {
+      expect(lumaAlpha(0.2, 0.5)).toBe(1);
+      expect(lumaAlpha(0.8, 0.5)).toBe(0);
+    });
+
+    it('should reveal bright pixels first when inverted', () => {
+      expect(lumaAlpha(0.8, 0.5, 0, true)).toBe(1);
+    });
+
+    it('should blend across the soft edge', () => {
+      const alpha = lumaAlpha(0.5, 0.5, 0.2);
+      expect(alpha).toBeGreaterThan(0);
+      expect(alpha).toBeLessThan(1);
+    });
+
+    it('should show the whole incoming scene at the end', () => {
+      expect(lumaAlpha(1, 1)).toBe(1);
+      expect(lumaAlpha(0, 0, 0.5)).toBe(0);
+    });
+  });
+
+  describe('lumaRamp', () => {
+    it('should give the same opacity as lumaAlpha', () => {
+      for (const softness of [0, 0.1, 0.5, 1]) {
+        for (const progress of [0, 0.25, 0.5, 0.9, 1]) {
+          const { threshold, scale } = lumaRamp(progress, softness);
+          for (const luma of [0, 0.3, 0.5, 0.7, 1]) {
+            const alpha = Math.max(0, Math.min(1, (1 - luma - threshold) * scale));
+            expect(alpha).toBeCloseTo(lumaAlpha(luma, progress, softness));
+          }
+        }
+      }
+    });
+  });
+
+  describe('run', () => {
+    let service: TransitionService;
+
+    beforeEach(() => {
+      TestBed.configureTestingModule({});
+      service = TestBed.inject(TransitionService);
+    });
+
+    it('should cut at the end of the transition', async () => {
+      let cutAt = 0;
+      const start = performance.now();
+
+      await service.run(
+        createScene('a'),
+        createScene('b'),
+        { type: TransitionType.FADE, duration: 50, settings: {} },
+        () => (cutAt = performance.now())
+      );
+
+      expect(cutAt - start).toBeGreaterThanOrEqual(40);
+      expect(service.isTransitioning()).toBe(false);
+      expect(service.progress()).toBe(1);
+    });
+
+    it('should cut a stinger at its transition point', async () => {
+      let cutAt = 0;
+      const start = performance.now();
+
+      await service.run(
+        createScene('a'),
+        createScene('b'),
+        { type: TransitionType.STINGER, duration: 200, settings: { transitionPoint: 50 } },
+        () => (cutAt = performance.now())
+      );
+
+      expect(cutAt - start).toBeLessThan(180);
+      expect(performance.now() - start).toBeGreaterThanOrEqual(190);
+    });
+
+    it('should cut immediately when a new transition starts', () => {
+      let cuts = 0;
+      service.run(createScene('a'), createScene('b'), { type: TransitionType.FADE, duration: 1000, settings: {} }, () => cuts++);
+
+      expect(service.activeTransition()?.toSceneId).toBe('b');
+
+      service.run(createScene('b'), createScene('c'), { type: TransitionType.FADE, duration: 1000, settings: {} }, () => cuts++);
+
+      expect(cuts).toBe(1);
+      expect(service.activeTransition()?.toSceneId).toBe('c');
+      service.finish();
+      expect(cuts).toBe(2);
+    });
+  });
+
+  describe('manual progress', () => {
+    let service: TransitionService;
+    const fade = { type: TransitionType.FADE, duration: 300, settings: {} };
+
+    beforeEach(() => {
+      TestBed.configureTestingModule({});
+      service = TestBed.inject(TransitionService);
+    });
+
+    it('should wait for its progress to be set and cut at the end', async () => {
+      let cuts = 0;
+      const done = service.run(createScene('a'), createScene('b'), fade, () => cuts++, true);
+
+      await new Promise(resolve => setTimeout(resolve, 350));
+      expect(service.isManual()).toBe(true);
+      expect(service.progress()).toBe(0);
+
+      service.setProgress(0.6);
+      expect(service.progress()).toBe(0.6);
+      expect(cuts).toBe(0);
+
+      service.setProgress(1);
+      await done;
+      expect(cuts).toBe(1);
+      expect(service.isTransitioning()).toBe(false);
+    });
+
+    it('should cut a scrubbed stinger at its transition point', () => {
+      let cuts = 0;
+      service.run(
+        createScene('a'),
+        createScene('b'),
+        { type: TransitionType.STINGER, duration: 200, settings: { transitionPoint: 50 } },
+        () => cuts++,
+        true
+      );
+
+      service.setProgress(0.2);
+      expect(cuts).toBe(0);
+      service.setProgress(0.3);
+      expect(cuts).toBe(1);
+      expect(service.isTransitioning()).toBe(true);
+    });
+
+    it('should cancel without cutting', async () => {
+      let cuts = 0;
+      const done = service.run(createScene('a'), createScene('b'), fade, () => cuts++, true);
+
+      service.setProgress(0.4);
+      service.cancel();
+      await done;
+
+      expect(cuts).toBe(0);
+      expect(service.progress()).toBe(0);
+      expect(service.isTransitioning()).toBe(false);
+    });
+
+    it('should run on by itself when resumed', async () => {
+      let cuts = 0;
+      const done = service.run(createScene('a'), createScene('b'), fade, () => cuts++, true);
+
+      service.setProgress(0.9);
+      service.resume();
+      expect(service.isManual()).toBe(false);
+      await done;
+
+      expect(cuts).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,702 @@
+import { Injectable, signal, computed } from '@angular/core';
+import { Scene, SceneTransition, Transition, TransitionType } from '../models/scene.model';
+import { CompositorService, Rect } from './compositor.service';
+import { AudioService } from './audio.service';
+
+/**
+ * Transition Service
+ * Renders the transition between the outgoing and incoming program scene and
+ * crossfades the audio of their sources. Scenes switch at the cut point: the
+ * end of the transition, or the transition point of a stinger. Manual
+ * transitions do not run on a timer; their progress is set by hand, e.g. with a T-bar.
+ */
+
+export type TransitionEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+export type TransitionDirection = 'left' | 'right' | 'up' | 'down';
+
+interface RunningTransition {
+  transition: Transition;
+  from: Scene | null;
+  to: Scene;
+  startTime: number;
+  duration: number; // ms
+  cutPoint: number; // ms
+  cut: boolean;
+  onCut: () => void;
+  resolve: () => void;
+  stinger: HTMLVideoElement | null;
+  manualProgress: number | null; // 0-1 while scrubbed by hand
+  fadeOutIds: string[];
+  fadeInIds: string[];
+}
+
+interface TransitionBuffers {
+  from: HTMLCanvasElement;
+  to: HTMLCanvasElement;
+  work: HTMLCanvasElement;
+  mask: HTMLCanvasElement;
+}
+
+interface LumaMatte {
+  url: string;
+  image: HTMLImageElement;
+  ready: boolean;
+  // 1 - value of the matte in the alpha channel, at the mask size
+  canvas?: HTMLCanvasElement;
+  invert?: boolean;
+  width: number;
+  height: number;
+}
+
+const TICK_INTERVAL = 1000 / 60;
+const MAX_MASK_WIDTH = 480;
+
+/**
+ * Apply an easing curve to linear progress (0-1)
+ */
+export function easeProgress(easing: TransitionEasing | undefined, t: number): number {
+  const x = Math.max(0, Math.min(1, t));
+
+  switch (easing) {
+    case 'ease-in':
+      return x * x * x;
+    case 'ease-out':
+      return 1 - Math.pow(1 - x, 3);
+    case 'ease-in-out':
+      return x < 0.5 ? 4 * x * x * x : 1 - Math.pow(-2 * x + 2, 3) / 2;
+    default:
+      return x;
+  }
+}
+
+/**
+ * Offset of content that has moved the given fraction of the canvas in a direction
+ */
+export function directionOffset(
+  direction: TransitionDirection | undefined,
+  amount: number,
+  width: number,
+  height: number
+): { x: number; y: number } {
+  switch (direction) {
+    case 'right':
+      return { x: amount * width, y: 0 };
+    case 'up':
+      return { x: 0, y: -amount * height };
+    case 'down':
+      return { x: 0, y: amount * height };
+    default:
+      return { x: -amount * width, y: 0 };
+  }
+}
+
+/**
+ * Area showing the incoming scene while the wipe edge travels in a direction
+ */
+export function wipeRect(
+  direction: TransitionDirection | undefined,
+  progress: number,
+  width: number,
+  height: number
+): Rect {
+  switch (direction) {
+    case 'right':
+      return { x: 0, y: 0, width: width * progress, height };
+    case 'up':
+      return { x: 0, y: height * (1 - progress), width, height: height * progress };
+    case 'down':
+      return { x: 0, y: 0, width, height: height * progress };
+    default:
+      return { x: width * (1 - progress), y: 0, width: width * progress, height };
+  }
+}
+
+/**
+ * Opacity of the incoming scene at a pixel of the luma matte. Dark pixels
+ * reveal first; softness (0-1) widens the blended edge.
+ */
+export function lumaAlpha(luma: number, progress: number, softness = 0, invert = false): number {
+  if (progress >= 1) return 1;
+
+  const value = invert ? 1 - luma : luma;
+  const edge = Math.max(softness, 0.001);
+  return Math.max(0, Math.min(1, (progress * (1 + edge) - value) / edge));
+}
+
+/**
+ * lumaAlpha() as a ramp over the complement of the matte value: the opacity
+ * is (1 - value - threshold) * scale, clamped to 0-1. This maps onto canvas
+ * compositing, so the mask needs no per-pixel work each frame.
+ */
+export function lumaRamp(progress: number, softness = 0): { threshold: number; scale: number } {
+  const edge = Math.max(softness, 0.001);
+  return { threshold: 1 - Math.min(1, progress) * (1 + edge), scale: 1 / edge };
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class TransitionService {
+  private activeSignal = signal<RunningTransition | null>(null);
+  private progressSignal = signal(0);
+
+  // Public readonly signals
+  public readonly progress = this.progressSignal.asReadonly();
+  public readonly isTransitioning = computed(() => this.activeSignal() !== null);
+  public readonly isManual = computed(() => this.activeSignal()?.manualProgress != null);
+  public readonly activeTransition = computed((): SceneTransition | null => {
+    const running = this.activeSignal();
+    if (!running) return null;
+
+    return {
+      ...running.transition,
+      fromSceneId: running.from?.id ?? '',
+      toSceneId: running.to.id
+    };
+  });
+
+  private tickIntervalId: number | null = null;
+  private buffers = new WeakMap<HTMLCanvasElement, TransitionBuffers>();
+  private stingers = new Map<string, HTMLVideoElement>();
+  private lumaMattes = new Map<string, LumaMatte>();
+
+  constructor(
+    private compositor: CompositorService,
+    private audioService: AudioService
+  ) {}
+
+  /**
+   * Load the media a transition needs, so it is ready when the transition runs
+   */
+  prepare(transition: Transition): void {
+    if (transition.type === TransitionType.STINGER && transition.settings['videoPath']) {
+      this.getStinger(transition.settings['videoPath']);
+    }
+
+    if (transition.type === TransitionType.LUMA_WIPE && transition.settings['imagePath']) {
+      this.getLumaMatte(transition.settings['imagePath']);
+    }
+  }
+
+  /**
+   * Run a transition from the current program scene to another one. onCut is
+   * called when the program switches scenes; the promise resolves once the
+   * transition has finished or was cancelled. A manual transition waits at
+   * the start until its progress is set.
+   */
+  run(
+    from: Scene | null,
+    to: Scene,
+    transition: Transition,
+    onCut: () => void,
+    manual = false
+  ): Promise<void> {
+    this.finish();
+
+    const stinger =
+      transition.type === TransitionType.STINGER && transition.settings['videoPath']
+        ? this.getStinger(transition.settings['videoPath'])
+        : null;
+
+    // A stinger runs as long as its video, once the metadata is known
+    const duration =
+      stinger && Number.isFinite(stinger.duration) ? stinger.duration * 1000 : Math.max(0, transition.duration);
+    const { fadeOutIds, fadeInIds } = this.getAudioChanges(from, to);
+    const cutPoint =
+      transition.type === TransitionType.STINGER
+        ? Math.max(0, Math.min(duration, Number(transition.settings['transitionPoint']) || 0))
+        : duration;
+
+    if (manual) {
+      this.audioService.setCrossfadePosition(fadeOutIds, fadeInIds, 0);
+    } else {
+      this.audioService.crossfadeSources(fadeOutIds, fadeInIds, duration);
+    }
+
+    if (duration === 0 && !manual) {
+      onCut();
+      return Promise.resolve();
+    }
+
+    return new Promise<void>(resolve => {
+      if (stinger && manual) {
+        stinger.pause();
+        stinger.currentTime = 0;
+      } else if (stinger) {
+        stinger.currentTime = 0;
+        stinger.play().catch(error => console.warn('Stinger playback failed:', error));
+      }
+
+      this.activeSignal.set({
+        transition,
+        from,
+        to,
+        startTime: performance.now(),
+        duration,
+        cutPoint,
+        cut: false,
+        onCut,
+        resolve,
+        stinger,
+        manualProgress: manual ? 0 : null,
+        fadeOutIds,
+        fadeInIds
+      });
+      this.progressSignal.set(0);
+      if (!manual) {
+        this.startTicking();
+      }
+    });
+  }
+
+  /**
+   * Move a manual transition to the given progress (0-1). The scenes switch
+   * at the cut point and the transition finishes at 1.
+   */
+  setProgress(progress: number): void {
+    const running = this.activeSignal();
+    if (!running || running.manualProgress === null) return;
+
+    const value = Math.max(0, Math.min(1, progress));
+    const elapsed = value * running.duration;
+    const next = { ...running, manualProgress: value };
+    this.activeSignal.set(next);
+    this.progressSignal.set(value);
+    this.audioService.setCrossfadePosition(next.fadeOutIds, next.fadeInIds, value);
+
+    if (next.stinger) {
+      next.stinger.currentTime = elapsed / 1000;
+    }
+
+    // Without a stinger the cut point is the end
+    if (!next.cut && next.cutPoint < next.duration && elapsed >= next.cutPoint) {
+      next.cut = true;
+      next.onCut();
+    }
+
+    if (value >= 1) {
+      this.finish();
+    }
+  }
+
+  /**
+   * Let a manual transition run on by itself from where it was left
+   */
+  resume(): void {
+    const running = this.activeSignal();
+    if (!running || running.manualProgress === null) return;
+
+    if (running.duration === 0) {
+      this.finish();
+      return;
+    }
+
+    const elapsed = running.manualProgress * running.duration;
+    const remaining = running.duration - elapsed;
+    this.activeSignal.set({ ...running, manualProgress: null, startTime: performance.now() - elapsed });
+    this.audioService.crossfadeSources(running.fadeOutIds, running.fadeInIds, remaining);
+
+    if (running.stinger) {
+      running.stinger.play().catch(error => console.warn('Stinger playback failed:', error));
+    }
+
+    this.startTicking();
+  }
+
+  /**
+   * Abort a transition that has not cut yet, keeping the outgoing scene
+   */
+  cancel(): void {
+    const running = this.activeSignal();
+    if (!running || running.cut) return;
+
+    this.stopTicking();
+    this.activeSignal.set(null);
+    this.progressSignal.set(0);
+    running.stinger?.pause();
+    this.audioService.setCrossfadePosition(running.fadeOutIds, running.fadeInIds, 0);
+    running.resolve();
+  }
+
+  /**
+   * Switch scenes without a transition, ending a running one
+   */
+  cut(from: Scene | null, to: Scene): void {
+    this.finish();
+    this.crossfadeAudio(from, to, 0);
+  }
+
+  /**
+   * Complete a running transition immediately
+   */
+  finish(): void {
+    const running = this.activeSignal();
+    if (!running) return;
+
+    this.stopTicking();
+    this.activeSignal.set(null);
+    this.progressSignal.set(1);
+
+    if (running.stinger) {
+      running.stinger.pause();
+    }
+
+    if (!running.cut) {
+      running.cut = true;
+      running.onCut();
+    }
+
+    running.resolve();
+  }
+
+  /**
+   * Render the running transition onto the context, in the same coordinate
+   * space as CompositorService.renderScene(). Returns false when no
+   * transition is running.
+   */
+  render(ctx: CanvasRenderingContext2D, width: number, height: number): boolean {
+    const running = this.activeSignal();
+    if (!running) return false;
+
+    const canvas = ctx.canvas;
+    const buffers = this.getBuffers(canvas);
+    const transform = ctx.getTransform();
+
+    this.renderSceneBuffer(buffers.from, running.from, transform, width, height);
+    this.renderSceneBuffer(buffers.to, running.to, transform, width, height);
+
+    const elapsed = this.getElapsed(running);
+    const linear =
+      running.manualProgress ?? (running.duration > 0 ? Math.min(1, elapsed / running.duration) : 1);
+    const progress = easeProgress(running.transition.settings['easing'], linear);
+
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    this.composite(ctx, running, buffers, progress, elapsed, canvas.width, canvas.height);
+    ctx.restore();
+
+    return true;
+  }
+
+  private composite(
+    ctx: CanvasRenderingContext2D,
+    running: RunningTransition,
+    buffers: TransitionBuffers,
+    progress: number,
+    elapsed: number,
+    width: number,
+    height: number
+  ): void {
+    const settings = running.transition.settings;
+
+    switch (running.transition.type) {
+      case TransitionType.FADE_TO_COLOR: {
+        // Fade out to the color through the first half, in from it through the second
+        const toColor = progress < 0.5;
+        ctx.drawImage(toColor ? buffers.from : buffers.to, 0, 0);
+        ctx.globalAlpha = toColor ? progress * 2 : 2 - progress * 2;
+        ctx.fillStyle = settings['color'] || '#000000';
+        ctx.fillRect(0, 0, width, height);
+        break;
+      }
+      case TransitionType.SWIPE: {
+        const offset = directionOffset(settings['direction'], 1 - progress, width, height);
+        ctx.drawImage(buffers.from, 0, 0);
+        ctx.drawImage(buffers.to, -offset.x, -offset.y);
+        break;
+      }
+      case TransitionType.SLIDE: {
+        const outgoing = directionOffset(settings['direction'], progress, width, height);
+        const incoming = directionOffset(settings['direction'], 1 - progress, width, height);
+        ctx.drawImage(buffers.from, outgoing.x, outgoing.y);
+        ctx.drawImage(buffers.to, -incoming.x, -incoming.y);
+        break;
+      }
+      case TransitionType.WIPE: {
+        const rect = wipeRect(settings['direction'], progress, width, height);
+        ctx.drawImage(buffers.from, 0, 0);
+        if (rect.width > 0 && rect.height > 0) {
+          ctx.drawImage(buffers.to, rect.x, rect.y, rect.width, rect.height, rect.x, rect.y, rect.width, rect.height);
+        }
+        break;
+      }
+      case TransitionType.LUMA_WIPE: {
+        ctx.drawImage(buffers.from, 0, 0);
+        if (this.renderLumaMask(buffers, settings, progress, width, height)) {
+          ctx.drawImage(buffers.work, 0, 0);
+        } else {
+          // Without a matte the luma wipe degrades to a fade
+          ctx.globalAlpha = progress;
+          ctx.drawImage(buffers.to, 0, 0);
+        }
+        break;
+      }
+      case TransitionType.STINGER: {
+        ctx.drawImage(elapsed < running.cutPoint ? buffers.from : buffers.to, 0, 0);
+        const video = running.stinger;
+        if (video && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+          ctx.drawImage(video, 0, 0, width, height);
+        }
+        break;
+      }
+      default:
+        ctx.drawImage(buffers.from, 0, 0);
+        ctx.globalAlpha = progress;
+        ctx.drawImage(buffers.to, 0, 0);
+    }
+
+    ctx.globalAlpha = 1;
+  }
+
+  /**
+   * Build the incoming scene masked by the luma matte in the work buffer
+   */
+  private renderLumaMask(
+    buffers: TransitionBuffers,
+    settings: Transition['settings'],
+    progress: number,
+    width: number,
+    height: number
+  ): boolean {
+    const matte = settings['imagePath'] ? this.getLumaMatte(settings['imagePath']) : null;
+    if (!matte?.ready) return false;
+
+    // The mask is computed at a reduced size and scaled up; the soft edge hides the difference
+    const maskWidth = Math.min(width, MAX_MASK_WIDTH);
+    const maskHeight = Math.max(1, Math.round((height * maskWidth) / width));
+    const matteCanvas = this.getMatteCanvas(matte, maskWidth, maskHeight, !!settings['invert']);
+    if (!matteCanvas) return false;
+
+    const mask = buffers.mask;
+    if (mask.width !== maskWidth || mask.height !== maskHeight) {
+      mask.width = maskWidth;
+      mask.height = maskHeight;
+    }
+
+    const maskCtx = mask.getContext('2d');
+    const workCtx = buffers.work.getContext('2d');
+    if (!maskCtx || !workCtx) return false;
+
+    // Alpha-only arithmetic: 'xor' with an opaque fill complements, 'lighter' adds (clamped at 1)
+    const { threshold, scale } = lumaRamp(progress, Number(settings['softness']) || 0);
+    maskCtx.globalCompositeOperation = 'copy';
+    maskCtx.drawImage(matteCanvas, 0, 0);
+    maskCtx.fillStyle = '#ffffff';
+    if (threshold > 0) {
+      // a - t = 1 - ((1 - a) + t), where the addition clamps negative results to 0
+      maskCtx.globalCompositeOperation = 'xor';
+      maskCtx.fillRect(0, 0, maskWidth, maskHeight);
+      this.addMaskAlpha(maskCtx, threshold, maskWidth, maskHeight);
+      maskCtx.globalCompositeOperation = 'xor';
+      maskCtx.fillRect(0, 0, maskWidth, maskHeight);
+    } else if (threshold < 0) {
+      this.addMaskAlpha(maskCtx, -threshold, maskWidth, maskHeight);
+    }
+
+    // Scale by drawing the mask onto itself: by the fraction first, then doubling
+    maskCtx.globalCompositeOperation = 'lighter';
+    let factor = scale;
+    let doublings = 0;
+    while (factor >= 2) {
+      factor /= 2;
+      doublings++;
+    }
+    if (factor > 1) {
+      maskCtx.globalAlpha = factor - 1;
+      maskCtx.drawImage(mask, 0, 0);
+      maskCtx.globalAlpha = 1;
+    }
+    for (let i = 0; i < doublings; i++) {
+      maskCtx.drawImage(mask, 0, 0);
+    }
+    maskCtx.globalCompositeOperation = 'source-over';
+
+    workCtx.globalCompositeOperation = 'copy';
+    workCtx.drawImage(mask, 0, 0, width, height);
+    workCtx.globalCompositeOperation = 'source-in';
+    workCtx.drawImage(buffers.to, 0, 0);
+    workCtx.globalCompositeOperation = 'source-over';
+
+    return true;
+  }
+
+  private addMaskAlpha(ctx: CanvasRenderingContext2D, alpha: number, width: number, height: number): void {
+    ctx.globalCompositeOperation = 'lighter';
+    ctx.globalAlpha = alpha;
+    ctx.fillRect(0, 0, width, height);
+    ctx.globalAlpha = 1;
+  }
+
+  private renderSceneBuffer(
+    buffer: HTMLCanvasElement,
+    scene: Scene | null,
+    transform: DOMMatrix,
+    width: number,
+    height: number
+  ): void {
+    const ctx = buffer.getContext('2d');
+    if (!ctx) return;
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, buffer.width, buffer.height);
+    if (!scene) return;
+
+    ctx.setTransform(transform);
+    this.compositor.renderScene(ctx, scene, width, height);
+  }
+
+  private getBuffers(canvas: HTMLCanvasElement): TransitionBuffers {
+    let buffers = this.buffers.get(canvas);
+    if (!buffers) {
+      buffers = {
+        from: document.createElement('canvas'),
+        to: document.createElement('canvas'),
+        work: document.createElement('canvas'),
+        mask: document.createElement('canvas')
+      };
+      this.buffers.set(canvas, buffers);
+    }
+
+    for (const buffer of [buffers.from, buffers.to, buffers.work]) {
+      if (buffer.width !== canvas.width || buffer.height !== canvas.height) {
+        buffer.width = canvas.width;
+        buffer.height = canvas.height;
+      }
+    }
+
+    return buffers;
+  }
+
+  private getElapsed(running: RunningTransition): number {
+    if (running.manualProgress !== null) {
+      return running.manualProgress * running.duration;
+    }
+
+    const video = running.stinger;
+    if (video && !video.paused && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+      return video.currentTime * 1000;
+    }
+
+    return performance.now() - running.startTime;
+  }
+
+  private tick(): void {
+    const running = this.activeSignal();
+    if (!running || running.manualProgress !== null) return;
+
+    const elapsed = this.getElapsed(running);
+    this.progressSignal.set(Math.min(1, elapsed / running.duration));
+
+    if (!running.cut && elapsed >= running.cutPoint) {
+      running.cut = true;
+      running.onCut();
+    }
+
+    if (elapsed >= running.duration || running.stinger?.ended) {
+      this.finish();
+    }
+  }
+
+  private startTicking(): void {
+    this.stopTicking();
+    // A timer keeps the transition running while the studio window is hidden
+    this.tickIntervalId = window.setInterval(() => this.tick(), TICK_INTERVAL);
+  }
+
+  private stopTicking(): void {
+    if (this.tickIntervalId !== null) {
+      clearInterval(this.tickIntervalId);
+      this.tickIntervalId = null;
+    }
+  }
+
+  /**
+   * Fade out the audio of sources only in the outgoing scene and fade in
+   * those only in the incoming scene
+   */
+  private crossfadeAudio(from: Scene | null, to: Scene, duration: number): void {
+    const { fadeOutIds, fadeInIds } = this.getAudioChanges(from, to);
+    this.audioService.crossfadeSources(fadeOutIds, fadeInIds, duration);
+  }
+
+  private getAudioChanges(from: Scene | null, to: Scene): { fadeOutIds: string[]; fadeInIds: string[] } {
+    const fromIds = new Set(from ? this.compositor.getSceneSourceIds(from) : []);
+    const toIds = new Set(this.compositor.getSceneSourceIds(to));
+
+    return {
+      fadeOutIds: Array.from(fromIds).filter(id => !toIds.has(id)),
+      fadeInIds: Array.from(toIds).filter(id => !fromIds.has(id))
+    };
+  }
+
+  private getStinger(url: string): HTMLVideoElement {
+    let video = this.stingers.get(url);
+    if (video) return video;
+
+    // Only the current stinger is kept loaded
+    this.stingers.forEach(existing => existing.removeAttribute('src'));
+    this.stingers.clear();
+
+    video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.crossOrigin = 'anonymous';
+    video.onerror = () => console.error(`Failed to load stinger: ${url}`);
+    video.src = url;
+
+    this.stingers.set(url, video);
+    return video;
+  }
+
+  private getLumaMatte(url: string): LumaMatte {
+    let matte = this.lumaMattes.get(url);
+    if (matte) return matte;
+
+    this.lumaMattes.clear();
+
+    const image = new Image();
+    const created: LumaMatte = { url, image, ready: false, width: 0, height: 0 };
+    image.crossOrigin = 'anonymous';
+    image.onload = () => (created.ready = true);
+    image.onerror = () => console.error(`Failed to load luma image: ${url}`);
+    image.src = url;
+
+    matte = created;
+    this.lumaMattes.set(url, matte);
+    return matte;
+  }
+
+  /**
+   * The matte scaled to the mask size with 1 - its luminance as alpha, built
+   * once per transition rather than every frame
+   */
+  private getMatteCanvas(matte: LumaMatte, width: number, height: number, invert: boolean): HTMLCanvasElement | null {
+    if (matte.canvas && matte.width === width && matte.height === height && matte.invert === invert) {
+      return matte.canvas;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    ctx.drawImage(matte.image, 0, 0, width, height);
+    const pixels = ctx.getImageData(0, 0, width, height);
+    const data = pixels.data;
+    for (let i = 0; i < data.length; i += 4) {
+      const luma = (0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]) / 255;
+      data[i] = data[i + 1] = data[i + 2] = 255;
+      data[i + 3] = (invert ? luma : 1 - luma) * 255;
+    }
+    ctx.putImageData(pixels, 0, 0);
+
+    matte.canvas = canvas;
+    matte.invert = invert;
+    matte.width = width;
+    matte.height = height;
+    return canvas;
+  }
+}
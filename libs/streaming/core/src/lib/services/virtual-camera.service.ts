@@ -1,6 +1,7 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject, Observable, interval } from 'rxjs';
 import { VirtualCamera, VirtualCameraState, VideoFormat } from '../models/virtual-camera.model';
+import { ProgramOutputService } from './program-output.service';
 
 @Injectable({
   providedIn: 'root'
@@ -25,6 +26,9 @@ export class VirtualCameraService {
   public readonly virtualCameraState$ = this.virtualCameraStateSubject.asObservable();
 
   private frameInterval: any;
+  private stream: MediaStream | null = null;
+
+  constructor(private programOutput: ProgramOutputService) {}
 
   /**
    * Start virtual camera
@@ -36,6 +40,8 @@ export class VirtualCameraService {
       throw new Error('Virtual camera is already running');
     }
 
+    this.stream = this.programOutput.acquire('virtual-camera');
+
     this.virtualCameraSubject.next({
       ...camera,
       enabled: true
@@ -76,6 +82,8 @@ export class VirtualCameraService {
     });
 
     this.stopFrameCounter();
+    this.programOutput.release('virtual-camera');
+    this.stream = null;
 
     console.log('Virtual camera stopped');
   }
@@ -96,6 +104,13 @@ export class VirtualCameraService {
     });
   }
 
+  /**
+   * Get the stream exposed by the virtual camera while it is running
+   */
+  getStream(): MediaStream | null {
+    return this.stream;
+  }
+
   /**
    * Get connected applications
    */
@@ -135,16 +150,17 @@ export class VirtualCameraService {
    * Start frame counter
    */
   private startFrameCounter(): void {
-    const camera = this.virtualCameraSubject.value;
-    const frameTime = 1000 / camera.fps;
+    const initial = this.programOutput.stats();
 
-    this.frameInterval = interval(frameTime).subscribe(() => {
+    // Frames are counted from the program output since the camera started
+    this.frameInterval = interval(1000).subscribe(() => {
       const state = this.virtualCameraStateSubject.value;
+      const stats = this.programOutput.stats();
 
       this.virtualCameraStateSubject.next({
         ...state,
-        frameCount: state.frameCount + 1,
-        droppedFrames: state.droppedFrames + (Math.random() > 0.98 ? 1 : 0)
+        frameCount: stats.frameCount - initial.frameCount,
+        droppedFrames: stats.droppedFrames - initial.droppedFrames
       });
     });
   }
@@ -0,0 +1,144 @@
+import { TestBed } from '@angular/core/testing';
+import { WhepFeedService } from './whep-feed.service';
+import { ProgramOutputService } from './program-output.service';
+import { SocketService } from './socket.service';
+
+// Answers a viewer's offer with gathering already complete
+class FakePeerConnection extends EventTarget {
+  connectionState: RTCPeerConnectionState = 'new';
+  iceGatheringState: RTCIceGatheringState = 'complete';
+  localDescription: RTCSessionDescriptionInit | null = null;
+  remoteDescription: RTCSessionDescriptionInit | null = null;
+  tracks: MediaStreamTrack[] = [];
+  closed = false;
+
+  async setRemoteDescription(description: RTCSessionDescriptionInit) {
+    this.remoteDescription = description;
+  }
+
+  addTrack(track: MediaStreamTrack) {
+    this.tracks.push(track);
+  }
+
+  async createAnswer() {
+    return { type: 'answer' as const, sdp: `answer to ${this.remoteDescription?.sdp}` };
+  }
+
+  async setLocalDescription(description: RTCSessionDescriptionInit) {
+    this.localDescription = description;
+  }
+
+  close() {
+    this.closed = true;
+  }
+}
+
+describe('WhepFeedService', () => {
+  let service: WhepFeedService;
+  let emit: ReturnType<typeof vi.spyOn>;
+  let listeners: Record<string, (data: unknown, ack?: (...args: unknown[]) => void) => void>;
+  let programOutput: ProgramOutputService;
+
+  const track = { kind: 'video' } as MediaStreamTrack;
+
+  // The API relaying a viewer's offer, resolving with the studio's answer
+  const offer = (sessionId: string) =>
+    new Promise(resolve => listeners['whep:offer']({ sessionId, sdp: `offer ${sessionId}` }, resolve));
+
+  beforeEach(() => {
+    vi.stubGlobal('RTCPeerConnection', FakePeerConnection);
+    listeners = {};
+    const socket = TestBed.inject(SocketService);
+    vi.spyOn(socket, 'on').mockImplementation((event, callback) => {
+      listeners[event] = callback;
+    });
+    emit = vi.spyOn(socket, 'emit').mockImplementation(() => undefined);
+
+    programOutput = TestBed.inject(ProgramOutputService);
+    vi.spyOn(programOutput, 'acquire').mockReturnValue({ getTracks: () => [track] } as unknown as MediaStream);
+    vi.spyOn(programOutput, 'release').mockImplementation(() => undefined);
+
+    service = TestBed.inject(WhepFeedService);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should share the feed with the API', () => {
+    service.share();
+
+    expect(emit).toHaveBeenCalledWith('whep:share', undefined, expect.any(Function));
+    expect(service.sharing()).toBe(true);
+  });
+
+  it('should stop sharing when the API refuses the feed', () => {
+    service.share();
+    const ack = emit.mock.calls[0][2] as (result: { error?: string }) => void;
+    ack({ error: 'Another studio is already sharing its program feed' });
+
+    expect(service.sharing()).toBe(false);
+    expect(service.shareError()).toBe('Another studio is already sharing its program feed');
+  });
+
+  it('should refuse viewers while not sharing', async () => {
+    expect(await offer('viewer-1')).toEqual({ error: 'The program feed is not shared' });
+    expect(programOutput.acquire).not.toHaveBeenCalled();
+  });
+
+  it('should answer a viewer with the program output', async () => {
+    service.share();
+
+    expect(await offer('viewer-1')).toEqual({ sdp: 'answer to offer viewer-1' });
+    expect(programOutput.acquire).toHaveBeenCalledWith('whep');
+    expect(service.viewerCount()).toBe(1);
+  });
+
+  it('should release the program output once the last viewer leaves', async () => {
+    service.share();
+    await offer('viewer-1');
+    await offer('viewer-2');
+
+    listeners['whep:close']('viewer-1');
+    expect(programOutput.release).not.toHaveBeenCalled();
+
+    listeners['whep:close']('viewer-2');
+    expect(programOutput.release).toHaveBeenCalledWith('whep');
+    expect(service.viewerCount()).toBe(0);
+  });
+
+  it('should refuse viewers beyond the maximum', async () => {
+    service.share();
+    for (let i = 0; i < 10; i++) {
+      await offer(`viewer-${i}`);
+    }
+
+    expect(await offer('viewer-10')).toEqual({ error: 'The program feed has its maximum of 10 viewers' });
+    expect(service.viewerCount()).toBe(10);
+  });
+
+  it('should drop a viewer whose connection failed and tell the API', async () => {
+    service.share();
+    await offer('viewer-1');
+    const connection = service['viewers'].get('viewer-1') as unknown as FakePeerConnection;
+
+    connection.connectionState = 'failed';
+    connection.dispatchEvent(new Event('connectionstatechange'));
+
+    expect(emit).toHaveBeenCalledWith('whep:closed', 'viewer-1');
+    expect(connection.closed).toBe(true);
+    expect(service.viewerCount()).toBe(0);
+  });
+
+  it('should disconnect every viewer when sharing stops', async () => {
+    service.share();
+    await offer('viewer-1');
+
+    service.stopSharing();
+
+    expect(emit).toHaveBeenCalledWith('whep:unshare');
+    expect(service.viewerCount()).toBe(0);
+    expect(programOutput.release).toHaveBeenCalledWith('whep');
+  });
+});
@@ -0,0 +1,153 @@
+import { Injectable, effect, inject, signal, untracked } from '@angular/core';
+import { ProgramOutputService } from './program-output.service';
+import { SocketService } from './socket.service';
+import { waitForIceGathering } from './whip-client';
+
+// Each viewer costs a peer connection and an encoder, so the studio caps them too
+const MAX_VIEWERS = 10;
+
+interface WhepOffer {
+  sessionId: string;
+  sdp: string;
+}
+
+interface WhepAnswer {
+  sdp?: string;
+  error?: string;
+}
+
+interface WhepShareResult {
+  error?: string;
+}
+
+/**
+ * WHEP Feed Service
+ * Shares the program output with browsers through the API's WHEP endpoint.
+ * The API relays each viewer's offer here and this service answers it with a
+ * send-only peer connection, so viewers get the feed with sub-second latency.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class WhepFeedService {
+  // In production, this URL should come from environment config
+  readonly endpoint = 'http://localhost:3333/api/whep';
+
+  private sharingSignal = signal(false);
+  private viewerCountSignal = signal(0);
+  private shareErrorSignal = signal<string | null>(null);
+
+  // Public readonly signals
+  public readonly sharing = this.sharingSignal.asReadonly();
+  public readonly viewerCount = this.viewerCountSignal.asReadonly();
+  public readonly shareError = this.shareErrorSignal.asReadonly();
+
+  private socket = inject(SocketService);
+  private programOutput = inject(ProgramOutputService);
+  private viewers = new Map<string, RTCPeerConnection>();
+
+  constructor() {
+    this.socket.on<WhepOffer>('whep:offer', (offer, ack) => {
+      this.answer(offer).then(answer => ack?.(answer));
+    });
+    this.socket.on<string>('whep:close', sessionId => this.closeViewer(sessionId));
+
+    // The API forgets the feed when the socket drops, so share it again on reconnect
+    effect(() => {
+      if (this.socket.connected() && untracked(() => this.sharingSignal())) {
+        this.requestShare();
+      }
+    });
+  }
+
+  /**
+   * Make the program feed watchable at the WHEP endpoint
+   */
+  share(): void {
+    this.sharingSignal.set(true);
+    this.shareErrorSignal.set(null);
+    this.requestShare();
+  }
+
+  /**
+   * Stop sharing the program feed, disconnecting every viewer
+   */
+  stopSharing(): void {
+    this.sharingSignal.set(false);
+    this.shareErrorSignal.set(null);
+    this.socket.emit('whep:unshare');
+    [...this.viewers.keys()].forEach(sessionId => this.closeViewer(sessionId));
+  }
+
+  /**
+   * Ask the API to serve the feed; it refuses while another studio shares
+   */
+  private requestShare(): void {
+    this.socket.emit('whep:share', undefined, (result?: WhepShareResult) => {
+      if (!result?.error) return;
+      console.warn('Failed to share the program feed:', result.error);
+      this.sharingSignal.set(false);
+      this.shareErrorSignal.set(result.error);
+    });
+  }
+
+  /**
+   * Open a connection for a viewer's offer and return the answer for the API
+   */
+  private async answer(offer: WhepOffer): Promise<WhepAnswer> {
+    if (!this.sharingSignal()) {
+      return { error: 'The program feed is not shared' };
+    }
+    if (this.viewers.size >= MAX_VIEWERS) {
+      return { error: `The program feed has its maximum of ${MAX_VIEWERS} viewers` };
+    }
+
+    let stream: MediaStream;
+    try {
+      // Viewers share one program output, held while any is connected
+      stream = this.programOutput.acquire('whep');
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const connection = new RTCPeerConnection();
+    this.addViewer(offer.sessionId, connection);
+    connection.addEventListener('connectionstatechange', () => {
+      if (connection.connectionState === 'failed' || connection.connectionState === 'closed') {
+        // The API keeps counting the viewer until it is told
+        if (this.viewers.get(offer.sessionId) === connection) {
+          this.socket.emit('whep:closed', offer.sessionId);
+        }
+        this.closeViewer(offer.sessionId);
+      }
+    });
+
+    try {
+      await connection.setRemoteDescription({ type: 'offer', sdp: offer.sdp });
+      stream.getTracks().forEach(track => connection.addTrack(track, stream));
+      await connection.setLocalDescription(await connection.createAnswer());
+      await waitForIceGathering(connection);
+      return { sdp: connection.localDescription?.sdp };
+    } catch (error) {
+      this.closeViewer(offer.sessionId);
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private addViewer(sessionId: string, connection: RTCPeerConnection): void {
+    this.viewers.set(sessionId, connection);
+    this.viewerCountSignal.set(this.viewers.size);
+  }
+
+  private closeViewer(sessionId: string): void {
+    const connection = this.viewers.get(sessionId);
+    if (!connection) return;
+
+    this.viewers.delete(sessionId);
+    this.viewerCountSignal.set(this.viewers.size);
+    connection.close();
+    if (this.viewers.size === 0) {
+      this.programOutput.release('whep');
+    }
+  }
+}
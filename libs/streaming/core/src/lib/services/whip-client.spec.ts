@@ -0,0 +1,171 @@
+import { WhipClient, WhipEncoding } from './whip-client';
+
+const OFFER = 'v=0\r\ns=offer\r\n';
+const ANSWER = 'v=0\r\ns=answer\r\n';
+
+// Enough of a peer connection to negotiate against the loopback endpoint
+class FakePeerConnection extends EventTarget {
+  static instances: FakePeerConnection[] = [];
+
+  connectionState: RTCPeerConnectionState = 'new';
+  iceGatheringState: RTCIceGatheringState = 'new';
+  localDescription: RTCSessionDescriptionInit | null = null;
+  remoteDescription: RTCSessionDescriptionInit | null = null;
+  senders: { track: MediaStreamTrack; parameters: RTCRtpSendParameters }[] = [];
+  transceivers: { track: MediaStreamTrack; init: RTCRtpTransceiverInit }[] = [];
+  closed = false;
+
+  constructor() {
+    super();
+    FakePeerConnection.instances.push(this);
+  }
+
+  addTransceiver(track: MediaStreamTrack, init: RTCRtpTransceiverInit) {
+    this.transceivers.push({ track, init });
+    this.senders.push({ track, parameters: { encodings: [{}] } as RTCRtpSendParameters });
+  }
+
+  getSenders() {
+    return this.senders.map(sender => ({
+      track: sender.track,
+      getParameters: () => sender.parameters,
+      setParameters: async (parameters: RTCRtpSendParameters) => {
+        sender.parameters = parameters;
+      }
+    }));
+  }
+
+  async createOffer() {
+    return { type: 'offer' as const, sdp: OFFER };
+  }
+
+  async setLocalDescription(description: RTCSessionDescriptionInit) {
+    this.localDescription = description;
+    // Gathering finishes after the description is set
+    setTimeout(() => this.setIceGatheringState('complete'));
+  }
+
+  async setRemoteDescription(description: RTCSessionDescriptionInit) {
+    this.remoteDescription = description;
+  }
+
+  async getStats() {
+    return new Map<string, unknown>([
+      ['out', { type: 'outbound-rtp', kind: 'video', bytesSent: 125000, framesSent: 58, framesEncoded: 58, framesPerSecond: 30 }],
+      ['source', { type: 'media-source', kind: 'video', frames: 60 }]
+    ]);
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  setIceGatheringState(state: RTCIceGatheringState) {
+    this.iceGatheringState = state;
+    this.dispatchEvent(new Event('icegatheringstatechange'));
+  }
+
+  setConnectionState(state: RTCPeerConnectionState) {
+    this.connectionState = state;
+    this.dispatchEvent(new Event('connectionstatechange'));
+  }
+}
+
+describe('WhipClient', () => {
+  const endpoint = 'http://127.0.0.1:8889/whip/program';
+  const encoding: WhipEncoding = { videoBitrate: 2500, resolution: { width: 1280, height: 720 }, fps: 30 };
+  const video = { kind: 'video', getSettings: () => ({ height: 1080 }) } as unknown as MediaStreamTrack;
+  const audio = { kind: 'audio', getSettings: () => ({}) } as unknown as MediaStreamTrack;
+  const stream = { getTracks: () => [video, audio] } as unknown as MediaStream;
+
+  let requests: { url: string; init: RequestInit }[];
+  let respond: () => Response;
+  let states: [string, string | undefined][];
+
+  // The local WHIP endpoint: answers offers and ends sessions
+  const fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+    requests.push({ url, init });
+    if (init.method === 'DELETE') return new Response(null, { status: 200 });
+    return respond();
+  });
+
+  const createClient = (onStats = vi.fn()) =>
+    new WhipClient(endpoint, 'secret', (state, error) => states.push([state, error]), onStats);
+
+  const connection = () => FakePeerConnection.instances[FakePeerConnection.instances.length - 1];
+
+  beforeEach(() => {
+    FakePeerConnection.instances = [];
+    requests = [];
+    states = [];
+    respond = () => new Response(ANSWER, { status: 201, headers: { Location: '/whip/program/session-1' } });
+    vi.stubGlobal('RTCPeerConnection', FakePeerConnection);
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should post the offer and apply the answer', async () => {
+    await createClient().publish(stream, encoding);
+
+    expect(connection().transceivers.map(t => t.init.direction)).toEqual(['sendonly', 'sendonly']);
+    expect(requests).toEqual([{
+      url: endpoint,
+      init: {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/sdp', Authorization: 'Bearer secret' },
+        body: OFFER
+      }
+    }]);
+    expect(connection().remoteDescription).toEqual({ type: 'answer', sdp: ANSWER });
+  });
+
+  it('should cap the video encoding', async () => {
+    await createClient().publish(stream, encoding);
+
+    expect(connection().senders[0].parameters.encodings).toEqual([
+      { maxBitrate: 2500000, maxFramerate: 30, scaleResolutionDownBy: 1.5 }
+    ]);
+    // Audio is left alone
+    expect(connection().senders[1].parameters.encodings).toEqual([{}]);
+  });
+
+  it('should fail when the endpoint refuses the offer', async () => {
+    respond = () => new Response('Unauthorized', { status: 401, statusText: 'Unauthorized' });
+
+    await expect(createClient().publish(stream, encoding)).rejects.toThrow('WHIP endpoint answered 401 Unauthorized');
+  });
+
+  it('should end the session on the endpoint when stopped', async () => {
+    const client = createClient();
+    await client.publish(stream, encoding);
+
+    await client.stop();
+
+    expect(connection().closed).toBe(true);
+    expect(requests[1]).toEqual({
+      url: 'http://127.0.0.1:8889/whip/program/session-1',
+      init: { method: 'DELETE', headers: { Authorization: 'Bearer secret' } }
+    });
+  });
+
+  it('should report the connection state and stats while connected', async () => {
+    const onStats = vi.fn();
+    const client = createClient(onStats);
+    await client.publish(stream, encoding);
+    vi.useFakeTimers();
+
+    connection().setConnectionState('connected');
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(states).toEqual([['connected', undefined]]);
+    expect(onStats).toHaveBeenCalledWith({ frames: 58, droppedFrames: 2, fps: 30, bitrate: 0 });
+
+    connection().setConnectionState('failed');
+    expect(states[1]).toEqual(['failed', 'WebRTC connection failed']);
+    await client.stop();
+  });
+});
@@ -0,0 +1,213 @@
+import { StreamingSettings } from '../models/streaming.model';
+
+/**
+ * WHIP Client
+ * Publishes a MediaStream over WebRTC to a WHIP endpoint (RFC 9725). The SDP
+ * offer is POSTed with its ICE candidates already gathered, so no trickle ICE
+ * is needed; the answer comes back with the session URL that is DELETEd to stop.
+ */
+
+export type WhipState = 'connected' | 'failed';
+
+export interface WhipStats {
+  frames: number;
+  droppedFrames: number;
+  fps: number;
+  bitrate: number; // kbps
+}
+
+export type WhipEncoding = Pick<StreamingSettings, 'videoBitrate' | 'resolution' | 'fps'>;
+
+const ICE_GATHERING_TIMEOUT = 2000;
+const STATS_INTERVAL = 1000;
+
+/**
+ * Wait until a connection has gathered its ICE candidates, or the timeout passed
+ */
+export function waitForIceGathering(connection: RTCPeerConnection, timeout = ICE_GATHERING_TIMEOUT): Promise<void> {
+  if (connection.iceGatheringState === 'complete') return Promise.resolve();
+
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      connection.removeEventListener('icegatheringstatechange', check);
+      resolve();
+    };
+    const check = () => {
+      if (connection.iceGatheringState === 'complete') done();
+    };
+    const timer = setTimeout(done, timeout);
+    connection.addEventListener('icegatheringstatechange', check);
+  });
+}
+
+/**
+ * Hold a video sender to a bitrate, frame rate and output height
+ */
+export function applyEncoding(sender: RTCRtpSender, encoding: WhipEncoding): Promise<void> {
+  const parameters = sender.getParameters();
+  const height = sender.track?.getSettings().height;
+  const encodings = parameters.encodings?.length ? parameters.encodings : [{}];
+
+  parameters.encodings = encodings.map(current => ({
+    ...current,
+    maxBitrate: encoding.videoBitrate * 1000,
+    maxFramerate: encoding.fps,
+    scaleResolutionDownBy: height ? Math.max(1, height / encoding.resolution.height) : 1
+  }));
+  return sender.setParameters(parameters);
+}
+
+export class WhipClient {
+  private connection: RTCPeerConnection | null = null;
+  private resourceUrl: string | null = null;
+  private statsTimer: ReturnType<typeof setInterval> | null = null;
+  private lastSample: { bytes: number; time: number } | null = null;
+
+  constructor(
+    private readonly endpoint: string,
+    private readonly token: string,
+    private readonly onStateChange: (state: WhipState, error?: string) => void,
+    private readonly onStats: (stats: WhipStats) => void = () => undefined
+  ) {}
+
+  /**
+   * Offer the stream to the endpoint. Resolves once the answer is applied;
+   * the connection state is reported as ICE completes.
+   */
+  async publish(stream: MediaStream, encoding: WhipEncoding): Promise<void> {
+    const connection = new RTCPeerConnection();
+    this.connection = connection;
+    connection.addEventListener('connectionstatechange', () => this.handleConnectionState(connection));
+
+    stream.getTracks().forEach(track => {
+      connection.addTransceiver(track, { direction: 'sendonly', streams: [stream] });
+    });
+    await this.setEncoding(encoding);
+
+    await connection.setLocalDescription(await connection.createOffer());
+    await waitForIceGathering(connection);
+
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/sdp', ...this.authorization() },
+      body: connection.localDescription?.sdp
+    });
+    if (response.status !== 201) {
+      throw new Error(`WHIP endpoint answered ${response.status} ${response.statusText}`.trim());
+    }
+
+    const location = response.headers.get('Location');
+    const resourceUrl = location ? new URL(location, this.endpoint).toString() : null;
+    const answer = await response.text();
+
+    // Stopped while the endpoint was answering
+    if (this.connection !== connection) {
+      if (resourceUrl) await this.deleteResource(resourceUrl);
+      return;
+    }
+
+    this.resourceUrl = resourceUrl;
+    await connection.setRemoteDescription({ type: 'answer', sdp: answer });
+  }
+
+  /**
+   * Change the video bitrate, frame rate or resolution of a running connection
+   */
+  async setEncoding(encoding: WhipEncoding): Promise<void> {
+    const sender = this.connection?.getSenders().find(s => s.track?.kind === 'video');
+    if (sender) {
+      await applyEncoding(sender, encoding);
+    }
+  }
+
+  /**
+   * Close the connection and end the session on the endpoint
+   */
+  async stop(): Promise<void> {
+    this.stopStats();
+    this.connection?.close();
+    this.connection = null;
+
+    const resourceUrl = this.resourceUrl;
+    this.resourceUrl = null;
+    if (resourceUrl) {
+      await this.deleteResource(resourceUrl);
+    }
+  }
+
+  private handleConnectionState(connection: RTCPeerConnection): void {
+    if (connection !== this.connection) return;
+
+    if (connection.connectionState === 'connected') {
+      this.startStats();
+      this.onStateChange('connected');
+    } else if (connection.connectionState === 'failed') {
+      this.stopStats();
+      this.onStateChange('failed', 'WebRTC connection failed');
+    }
+  }
+
+  private async deleteResource(url: string): Promise<void> {
+    try {
+      await fetch(url, { method: 'DELETE', headers: this.authorization() });
+    } catch (error) {
+      console.warn('Failed to end WHIP session:', error);
+    }
+  }
+
+  private authorization(): Record<string, string> {
+    return this.token ? { Authorization: `Bearer ${this.token}` } : {};
+  }
+
+  private startStats(): void {
+    this.stopStats();
+    this.statsTimer = setInterval(() => {
+      this.collectStats().catch(error => console.warn('Failed to read WebRTC stats:', error));
+    }, STATS_INTERVAL);
+  }
+
+  private stopStats(): void {
+    if (this.statsTimer) {
+      clearInterval(this.statsTimer);
+      this.statsTimer = null;
+    }
+    this.lastSample = null;
+  }
+
+  private async collectStats(): Promise<void> {
+    const report = await this.connection?.getStats();
+    if (!report) return;
+
+    let bytes = 0;
+    let frames = 0;
+    let encodedFrames = 0;
+    let sourceFrames = 0;
+    let fps = 0;
+    report.forEach(stat => {
+      if (stat.type === 'outbound-rtp') {
+        bytes += stat.bytesSent ?? 0;
+        if (stat.kind === 'video') {
+          frames += stat.framesSent ?? 0;
+          encodedFrames += stat.framesEncoded ?? 0;
+          fps = stat.framesPerSecond ?? fps;
+        }
+      } else if (stat.type === 'media-source' && stat.kind === 'video') {
+        sourceFrames = stat.frames ?? sourceFrames;
+      }
+    });
+
+    const time = performance.now();
+    // Bits per millisecond are kilobits per second
+    const bitrate = this.lastSample ? ((bytes - this.lastSample.bytes) * 8) / (time - this.lastSample.time) : 0;
+    this.lastSample = { bytes, time };
+
+    this.onStats({
+      frames,
+      // Frames the encoder skipped to keep up with the network or CPU
+      droppedFrames: Math.max(0, sourceFrames - encodedFrames),
+      fps,
+      bitrate
+    });
+  }
+}
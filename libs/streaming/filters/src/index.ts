@@ -1 +1,14 @@
 export * from './lib/filters/filters';
+export * from './lib/video-filters/video-filter';
+export * from './lib/video-filters/chroma-key.filter';
+export * from './lib/video-filters/color-correction.filter';
+export * from './lib/video-filters/color-grade.filter';
+export * from './lib/video-filters/cube-lut';
+export * from './lib/video-filters/lut.filter';
+export * from './lib/video-filters/sharpen.filter';
+export * from './lib/video-filters/blur.filter';
+export * from './lib/video-filters/scroll.filter';
+export * from './lib/video-filters/mask.filter';
+export * from './lib/video-filters/render-delay.filter';
+export * from './lib/video-filters/scaling.filter';
+export * from './lib/video-filters/filter-chain';
@@ -0,0 +1,87 @@
+import { FilterFrame, FilterSettings, FilterSurface, VideoFilter, numberSetting } from './video-filter';
+
+/**
+ * Blur
+ * Gaussian blur through the canvas filter pipeline, with a box blur
+ * fallback where `ctx.filter` is unavailable. `amount` is the radius in px.
+ */
+
+/**
+ * Box blur pixels in place (separable, single pass per axis)
+ */
+export function boxBlurPixels(data: Uint8ClampedArray, width: number, height: number, radius: number): void {
+  const r = Math.round(radius);
+  if (r < 1) return;
+
+  const temp = new Float32Array(data.length);
+  const span = r * 2 + 1;
+
+  // Horizontal pass
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < 4; c++) {
+        let sum = 0;
+        for (let k = -r; k <= r; k++) {
+          const sx = Math.min(width - 1, Math.max(0, x + k));
+          sum += data[(y * width + sx) * 4 + c];
+        }
+        temp[(y * width + x) * 4 + c] = sum / span;
+      }
+    }
+  }
+
+  // Vertical pass
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < 4; c++) {
+        let sum = 0;
+        for (let k = -r; k <= r; k++) {
+          const sy = Math.min(height - 1, Math.max(0, y + k));
+          sum += temp[(sy * width + x) * 4 + c];
+        }
+        data[(y * width + x) * 4 + c] = sum / span;
+      }
+    }
+  }
+}
+
+/**
+ * Whether the context supports CSS filters (not available in Safari)
+ */
+function supportsCanvasFilter(ctx: CanvasRenderingContext2D): boolean {
+  return typeof (ctx as { filter?: unknown }).filter === 'string';
+}
+
+export class BlurFilter implements VideoFilter {
+  readonly type = 'blur';
+  private readonly surface = new FilterSurface(true);
+  private amount = 1;
+
+  configure(settings: FilterSettings): void {
+    this.amount = Math.max(0, numberSetting(settings, 'amount', 1));
+  }
+
+  apply(frame: FilterFrame): FilterFrame {
+    if (this.amount <= 0) return frame;
+
+    const ctx = this.surface.prepare(frame.width, frame.height);
+    if (!ctx) return frame;
+
+    if (supportsCanvasFilter(ctx)) {
+      ctx.filter = `blur(${this.amount}px)`;
+      ctx.drawImage(frame.image, 0, 0, frame.width, frame.height);
+      ctx.filter = 'none';
+    } else {
+      ctx.drawImage(frame.image, 0, 0, frame.width, frame.height);
+      const image = ctx.getImageData(0, 0, frame.width, frame.height);
+      boxBlurPixels(image.data, frame.width, frame.height, this.amount);
+      ctx.putImageData(image, 0, 0);
+    }
+
+    return this.surface.toFrame();
+  }
+
+  dispose(): void {
+    this.surface.dispose();
+  }
+}
@@ -0,0 +1,34 @@
+import { chromaKeyPixels } from './chroma-key.filter';
+
+const GREEN_KEY = {
+  keyColor: { r: 0, g: 255, b: 0 },
+  similarity: 0.4,
+  smoothness: 0.08,
+  spillReduction: 0.1
+};
+
+describe('chromaKeyPixels', () => {
+  it('should make the key color transparent', () => {
+    const data = new Uint8ClampedArray([0, 255, 0, 255]);
+    chromaKeyPixels(data, GREEN_KEY);
+
+    expect(data[3]).toBe(0);
+  });
+
+  it('should keep colors far from the key opaque', () => {
+    const data = new Uint8ClampedArray([255, 0, 255, 255]);
+    chromaKeyPixels(data, GREEN_KEY);
+
+    expect(data[3]).toBe(255);
+    expect(Array.from(data.slice(0, 3))).toEqual([255, 0, 255]);
+  });
+
+  it('should key more colors as similarity grows', () => {
+    const loose = new Uint8ClampedArray([60, 200, 60, 255]);
+    const strict = new Uint8ClampedArray([60, 200, 60, 255]);
+    chromaKeyPixels(loose, { ...GREEN_KEY, similarity: 0.4 });
+    chromaKeyPixels(strict, { ...GREEN_KEY, similarity: 0.05 });
+
+    expect(loose[3]).toBeLessThan(strict[3]);
+  });
+});
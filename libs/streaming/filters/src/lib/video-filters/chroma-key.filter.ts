@@ -0,0 +1,74 @@
+import { FilterSettings, PixelFilter, Rgb, clamp, numberSetting, parseHexColor, stringSetting } from './video-filter';
+
+/**
+ * Chroma Key
+ * Keys out a color by its distance in the CbCr plane (BT.709). Settings use
+ * the 0-1000 ranges of the source properties panel.
+ */
+
+export interface ChromaKeyParams {
+  keyColor: Rgb;
+  similarity: number; // 0-1
+  smoothness: number; // 0-1
+  spillReduction: number; // 0-1
+}
+
+function toCbCr(r: number, g: number, b: number): [number, number] {
+  const y = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  return [(b - y) / 1.8556, (r - y) / 1.5748];
+}
+
+/**
+ * Key out pixels in place. Components are 0-255, chroma is computed on 0-1.
+ */
+export function chromaKeyPixels(data: Uint8ClampedArray, params: ChromaKeyParams): void {
+  const [keyCb, keyCr] = toCbCr(
+    params.keyColor.r / 255,
+    params.keyColor.g / 255,
+    params.keyColor.b / 255
+  );
+  const smoothness = Math.max(params.smoothness, 0.0001);
+  const spill = Math.max(params.spillReduction, 0.0001);
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i] / 255;
+    const g = data[i + 1] / 255;
+    const b = data[i + 2] / 255;
+    const [cb, cr] = toCbCr(r, g, b);
+
+    const distance = Math.hypot(cb - keyCb, cr - keyCr);
+    const baseMask = distance - params.similarity;
+    const alpha = Math.pow(clamp(baseMask / smoothness, 0, 1), 1.5);
+    const spillAmount = Math.pow(clamp(baseMask / spill, 0, 1), 1.5);
+
+    // Pull remaining key color towards gray to hide spill on edges
+    const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    data[i] = (luma + (r - luma) * spillAmount) * 255;
+    data[i + 1] = (luma + (g - luma) * spillAmount) * 255;
+    data[i + 2] = (luma + (b - luma) * spillAmount) * 255;
+    data[i + 3] = data[i + 3] * alpha;
+  }
+}
+
+export class ChromaKeyFilter extends PixelFilter {
+  readonly type = 'chroma_key';
+  private params: ChromaKeyParams = {
+    keyColor: { r: 0, g: 255, b: 0 },
+    similarity: 0.4,
+    smoothness: 0.08,
+    spillReduction: 0.1
+  };
+
+  configure(settings: FilterSettings): void {
+    this.params = {
+      keyColor: parseHexColor(stringSetting(settings, 'keyColor', '#00FF00')),
+      similarity: numberSetting(settings, 'similarity', 400) / 1000,
+      smoothness: numberSetting(settings, 'smoothness', 80) / 1000,
+      spillReduction: numberSetting(settings, 'spillReduction', 100) / 1000
+    };
+  }
+
+  protected process(image: ImageData): void {
+    chromaKeyPixels(image.data, this.params);
+  }
+}
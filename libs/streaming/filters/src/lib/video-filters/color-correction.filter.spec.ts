@@ -0,0 +1,34 @@
+import { colorCorrectPixels } from './color-correction.filter';
+
+const NEUTRAL = { gamma: 0, contrast: 0, brightness: 0, saturation: 0, hueShift: 0 };
+
+describe('colorCorrectPixels', () => {
+  it('should leave pixels unchanged with neutral settings', () => {
+    const data = new Uint8ClampedArray([10, 128, 240, 255]);
+    colorCorrectPixels(data, NEUTRAL);
+
+    expect(Array.from(data)).toEqual([10, 128, 240, 255]);
+  });
+
+  it('should brighten pixels', () => {
+    const data = new Uint8ClampedArray([100, 100, 100, 255]);
+    colorCorrectPixels(data, { ...NEUTRAL, brightness: 0.2 });
+
+    expect(data[0]).toBe(151);
+  });
+
+  it('should desaturate to gray with saturation -1', () => {
+    const data = new Uint8ClampedArray([255, 0, 0, 255]);
+    colorCorrectPixels(data, { ...NEUTRAL, saturation: -1 });
+
+    expect(data[0]).toBe(data[1]);
+    expect(data[1]).toBe(data[2]);
+  });
+
+  it('should rotate hue by 120 degrees', () => {
+    const data = new Uint8ClampedArray([255, 0, 0, 255]);
+    colorCorrectPixels(data, { ...NEUTRAL, hueShift: 120 });
+
+    expect(Array.from(data.slice(0, 3))).toEqual([0, 255, 0]);
+  });
+});
@@ -0,0 +1,99 @@
+import { FilterSettings, PixelFilter, clamp, numberSetting } from './video-filter';
+
+/**
+ * Color Correction
+ * Gamma, contrast, brightness, saturation and hue shift, following the
+ * ranges used by OBS (gamma/contrast/brightness -1..1, saturation -1..5).
+ */
+
+export interface ColorCorrectionParams {
+  gamma: number;
+  contrast: number;
+  brightness: number;
+  saturation: number;
+  hueShift: number; // degrees
+}
+
+/**
+ * Build a 3x3 matrix rotating colors around the gray axis
+ */
+function hueRotationMatrix(degrees: number): number[] {
+  const angle = (degrees * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const third = 1 / 3;
+  const root = Math.sqrt(third);
+
+  const a = cos + (1 - cos) * third;
+  const b = (1 - cos) * third - root * sin;
+  const c = (1 - cos) * third + root * sin;
+
+  return [a, b, c, c, a, b, b, c, a];
+}
+
+/**
+ * Color-correct pixels in place
+ */
+export function colorCorrectPixels(data: Uint8ClampedArray, params: ColorCorrectionParams): void {
+  const gammaExponent = params.gamma < 0 ? 1 - params.gamma : 1 / (1 + params.gamma);
+  const contrast = params.contrast + 1;
+  const saturation = params.saturation + 1;
+  const hue = params.hueShift !== 0 ? hueRotationMatrix(params.hueShift) : null;
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = Math.pow(data[i] / 255, gammaExponent);
+    let g = Math.pow(data[i + 1] / 255, gammaExponent);
+    let b = Math.pow(data[i + 2] / 255, gammaExponent);
+
+    r = (r - 0.5) * contrast + 0.5 + params.brightness;
+    g = (g - 0.5) * contrast + 0.5 + params.brightness;
+    b = (b - 0.5) * contrast + 0.5 + params.brightness;
+
+    const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    r = luma + (r - luma) * saturation;
+    g = luma + (g - luma) * saturation;
+    b = luma + (b - luma) * saturation;
+
+    if (hue) {
+      const hr = r * hue[0] + g * hue[1] + b * hue[2];
+      const hg = r * hue[3] + g * hue[4] + b * hue[5];
+      const hb = r * hue[6] + g * hue[7] + b * hue[8];
+      r = hr;
+      g = hg;
+      b = hb;
+    }
+
+    data[i] = clamp(r, 0, 1) * 255;
+    data[i + 1] = clamp(g, 0, 1) * 255;
+    data[i + 2] = clamp(b, 0, 1) * 255;
+  }
+}
+
+export class ColorCorrectionFilter extends PixelFilter {
+  readonly type = 'color_correction';
+  private params: ColorCorrectionParams = {
+    gamma: 0,
+    contrast: 0,
+    brightness: 0,
+    saturation: 0,
+    hueShift: 0
+  };
+
+  configure(settings: FilterSettings): void {
+    this.params = {
+      gamma: numberSetting(settings, 'gamma', 0),
+      contrast: numberSetting(settings, 'contrast', 0),
+      brightness: numberSetting(settings, 'brightness', 0),
+      saturation: numberSetting(settings, 'saturation', 0),
+      hueShift: numberSetting(settings, 'hueShift', 0)
+    };
+  }
+
+  protected override isNeutral(): boolean {
+    return Object.values(this.params).every(value => value === 0);
+  }
+
+  protected process(image: ImageData): void {
+    colorCorrectPixels(image.data, this.params);
+  }
+}
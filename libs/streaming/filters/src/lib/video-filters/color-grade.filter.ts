@@ -0,0 +1,85 @@
+import { FilterSettings, PixelFilter, Rgb, clamp } from './video-filter';
+
+/**
+ * Color Grade
+ * Lift/gamma/gain style grading: per-channel offsets (-1..1) applied to
+ * shadows, midtones and highlights weighted by pixel luminance.
+ */
+
+export interface ColorGradeParams {
+  shadows: Rgb;
+  midtones: Rgb;
+  highlights: Rgb;
+}
+
+const NEUTRAL: Rgb = { r: 0, g: 0, b: 0 };
+
+/**
+ * Grade pixels in place
+ */
+export function colorGradePixels(data: Uint8ClampedArray, params: ColorGradeParams): void {
+  const { shadows, midtones, highlights } = params;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i] / 255;
+    const g = data[i + 1] / 255;
+    const b = data[i + 2] / 255;
+    const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+    const shadowWeight = (1 - luma) * (1 - luma);
+    const highlightWeight = luma * luma;
+    const midWeight = 1 - shadowWeight - highlightWeight;
+
+    data[i] =
+      clamp(r + shadows.r * shadowWeight + midtones.r * midWeight + highlights.r * highlightWeight, 0, 1) * 255;
+    data[i + 1] =
+      clamp(g + shadows.g * shadowWeight + midtones.g * midWeight + highlights.g * highlightWeight, 0, 1) * 255;
+    data[i + 2] =
+      clamp(b + shadows.b * shadowWeight + midtones.b * midWeight + highlights.b * highlightWeight, 0, 1) * 255;
+  }
+}
+
+function rgbSetting(settings: FilterSettings, key: string): Rgb {
+  const value = settings[key];
+  if (typeof value !== 'object' || value === null) return NEUTRAL;
+
+  const color = value as Partial<Record<keyof Rgb, unknown>>;
+  return {
+    r: typeof color.r === 'number' ? color.r : 0,
+    g: typeof color.g === 'number' ? color.g : 0,
+    b: typeof color.b === 'number' ? color.b : 0
+  };
+}
+
+function isNeutralRgb(color: Rgb): boolean {
+  return color.r === 0 && color.g === 0 && color.b === 0;
+}
+
+export class ColorGradeFilter extends PixelFilter {
+  readonly type = 'color_grade';
+  private params: ColorGradeParams = {
+    shadows: NEUTRAL,
+    midtones: NEUTRAL,
+    highlights: NEUTRAL
+  };
+
+  configure(settings: FilterSettings): void {
+    this.params = {
+      shadows: rgbSetting(settings, 'shadows'),
+      midtones: rgbSetting(settings, 'midtones'),
+      highlights: rgbSetting(settings, 'highlights')
+    };
+  }
+
+  protected override isNeutral(): boolean {
+    return (
+      isNeutralRgb(this.params.shadows) &&
+      isNeutralRgb(this.params.midtones) &&
+      isNeutralRgb(this.params.highlights)
+    );
+  }
+
+  protected process(image: ImageData): void {
+    colorGradePixels(image.data, this.params);
+  }
+}
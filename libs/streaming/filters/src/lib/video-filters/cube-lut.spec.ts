@@ -0,0 +1,69 @@
+import { applyCubeLut, parseCubeLut } from './cube-lut';
+
+const IDENTITY_2 = `
+TITLE "identity"
+# comment
+LUT_3D_SIZE 2
+0 0 0
+1 0 0
+0 1 0
+1 1 0
+0 0 1
+1 0 1
+0 1 1
+1 1 1
+`;
+
+const INVERT_2 = `
+LUT_3D_SIZE 2
+1 1 1
+0 1 1
+1 0 1
+0 0 1
+1 1 0
+0 1 0
+1 0 0
+0 0 0
+`;
+
+describe('parseCubeLut', () => {
+  it('should parse size, domain and table', () => {
+    const lut = parseCubeLut(IDENTITY_2);
+
+    expect(lut.size).toBe(2);
+    expect(lut.domainMin).toEqual([0, 0, 0]);
+    expect(lut.domainMax).toEqual([1, 1, 1]);
+    expect(lut.table.length).toBe(24);
+  });
+
+  it('should reject files without a 3D size', () => {
+    expect(() => parseCubeLut('0 0 0')).toThrow('missing LUT_3D_SIZE');
+  });
+
+  it('should reject tables with the wrong number of entries', () => {
+    expect(() => parseCubeLut('LUT_3D_SIZE 2\n0 0 0')).toThrow('expected 8 entries');
+  });
+});
+
+describe('applyCubeLut', () => {
+  it('should keep colors with an identity LUT', () => {
+    const data = new Uint8ClampedArray([10, 128, 240, 255]);
+    applyCubeLut(data, parseCubeLut(IDENTITY_2));
+
+    expect(Array.from(data)).toEqual([10, 128, 240, 255]);
+  });
+
+  it('should interpolate between table entries', () => {
+    const data = new Uint8ClampedArray([0, 51, 255, 255]);
+    applyCubeLut(data, parseCubeLut(INVERT_2));
+
+    expect(Array.from(data)).toEqual([255, 204, 0, 255]);
+  });
+
+  it('should blend with the original by amount', () => {
+    const data = new Uint8ClampedArray([0, 0, 0, 255]);
+    applyCubeLut(data, parseCubeLut(INVERT_2), 0.5);
+
+    expect(Array.from(data.slice(0, 3))).toEqual([128, 128, 128]);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Cube LUT
+ * Parser and sampler for Adobe/Resolve `.cube` 3D lookup tables.
+ */
+
+export interface CubeLut {
+  size: number;
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  /** RGB triplets, red varying fastest */
+  table: Float32Array;
+}
+
+/**
+ * Parse the text of a .cube file
+ */
+export function parseCubeLut(text: string): CubeLut {
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  const values: number[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const parts = line.split(/\s+/);
+    const keyword = parts[0].toUpperCase();
+
+    if (keyword === 'LUT_3D_SIZE') {
+      size = parseInt(parts[1], 10);
+    } else if (keyword === 'DOMAIN_MIN') {
+      domainMin = [Number(parts[1]), Number(parts[2]), Number(parts[3])];
+    } else if (keyword === 'DOMAIN_MAX') {
+      domainMax = [Number(parts[1]), Number(parts[2]), Number(parts[3])];
+    } else if (keyword === 'LUT_1D_SIZE') {
+      throw new Error('1D LUTs are not supported');
+    } else if (/^[-+.\d]/.test(keyword)) {
+      values.push(Number(parts[0]), Number(parts[1]), Number(parts[2]));
+    }
+    // TITLE and unknown keywords are ignored
+  }
+
+  if (!size || size < 2) {
+    throw new Error('Invalid LUT: missing LUT_3D_SIZE');
+  }
+
+  if (values.length !== size * size * size * 3) {
+    throw new Error(`Invalid LUT: expected ${size ** 3} entries, found ${values.length / 3}`);
+  }
+
+  return { size, domainMin, domainMax, table: new Float32Array(values) };
+}
+
+/**
+ * Map pixels through a LUT in place with trilinear interpolation.
+ * `amount` blends between the original (0) and the graded color (1).
+ */
+export function applyCubeLut(data: Uint8ClampedArray, lut: CubeLut, amount = 1): void {
+  const { size, table, domainMin, domainMax } = lut;
+  const max = size - 1;
+  const rgb = [0, 0, 0];
+  const out = [0, 0, 0];
+
+  const index = (r: number, g: number, b: number) => (r + g * size + b * size * size) * 3;
+
+  for (let i = 0; i < data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const normalized = (data[i + c] / 255 - domainMin[c]) / (domainMax[c] - domainMin[c]);
+      rgb[c] = Math.min(max, Math.max(0, normalized * max));
+    }
+
+    const r0 = Math.floor(rgb[0]);
+    const g0 = Math.floor(rgb[1]);
+    const b0 = Math.floor(rgb[2]);
+    const r1 = Math.min(max, r0 + 1);
+    const g1 = Math.min(max, g0 + 1);
+    const b1 = Math.min(max, b0 + 1);
+    const fr = rgb[0] - r0;
+    const fg = rgb[1] - g0;
+    const fb = rgb[2] - b0;
+
+    for (let c = 0; c < 3; c++) {
+      const c00 = table[index(r0, g0, b0) + c] * (1 - fr) + table[index(r1, g0, b0) + c] * fr;
+      const c10 = table[index(r0, g1, b0) + c] * (1 - fr) + table[index(r1, g1, b0) + c] * fr;
+      const c01 = table[index(r0, g0, b1) + c] * (1 - fr) + table[index(r1, g0, b1) + c] * fr;
+      const c11 = table[index(r0, g1, b1) + c] * (1 - fr) + table[index(r1, g1, b1) + c] * fr;
+      const c0 = c00 * (1 - fg) + c10 * fg;
+      const c1 = c01 * (1 - fg) + c11 * fg;
+      out[c] = c0 * (1 - fb) + c1 * fb;
+    }
+
+    for (let c = 0; c < 3; c++) {
+      const original = data[i + c] / 255;
+      data[i + c] = (original + (out[c] - original) * amount) * 255;
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import { FilterChain, createVideoFilter } from './filter-chain';
+import { FilterFrame, FilterSettings, VideoFilter } from './video-filter';
+
+class FakeFilter implements VideoFilter {
+  configured: FilterSettings[] = [];
+  disposed = false;
+
+  constructor(readonly type: string) {}
+
+  configure(settings: FilterSettings): void {
+    this.configured.push(settings);
+  }
+
+  apply(frame: FilterFrame): FilterFrame {
+    return { ...frame, width: frame.width + 1 };
+  }
+
+  dispose(): void {
+    this.disposed = true;
+  }
+}
+
+describe('FilterChain', () => {
+  let created: FakeFilter[];
+  let chain: FilterChain;
+  const frame = { image: {} as CanvasImageSource, width: 10, height: 10 };
+
+  beforeEach(() => {
+    created = [];
+    chain = new FilterChain(type => {
+      if (type === 'gain') return null;
+      const filter = new FakeFilter(type);
+      created.push(filter);
+      return filter;
+    });
+  });
+
+  it('should run enabled filters in order and skip disabled ones', () => {
+    chain.update([
+      { id: 'a', type: 'blur', enabled: true, settings: {} },
+      { id: 'b', type: 'sharpen', enabled: false, settings: {} },
+      { id: 'c', type: 'mask', enabled: true, settings: {} }
+    ]);
+
+    expect(chain.process(frame, 0).width).toBe(12);
+  });
+
+  it('should ignore filter types without a video implementation', () => {
+    chain.update([{ id: 'a', type: 'gain', enabled: true, settings: {} }]);
+
+    expect(chain.hasActiveFilters()).toBe(false);
+  });
+
+  it('should reuse instances and only reconfigure on settings changes', () => {
+    chain.update([{ id: 'a', type: 'blur', enabled: true, settings: { amount: 1 } }]);
+    chain.update([{ id: 'a', type: 'blur', enabled: true, settings: { amount: 1 } }]);
+    chain.update([{ id: 'a', type: 'blur', enabled: true, settings: { amount: 2 } }]);
+
+    expect(created.length).toBe(1);
+    expect(created[0].configured).toEqual([{ amount: 1 }, { amount: 2 }]);
+  });
+
+  it('should dispose filters removed from the list', () => {
+    chain.update([{ id: 'a', type: 'blur', enabled: true, settings: {} }]);
+    chain.update([]);
+
+    expect(created[0].disposed).toBe(true);
+  });
+});
+
+describe('createVideoFilter', () => {
+  it('should create filters for video types only', () => {
+    expect(createVideoFilter('chroma_key')?.type).toBe('chroma_key');
+    expect(createVideoFilter('compressor')).toBeNull();
+  });
+});
@@ -0,0 +1,123 @@
+import { FilterConfig, FilterFrame, VideoFilter } from './video-filter';
+import { ChromaKeyFilter } from './chroma-key.filter';
+import { ColorCorrectionFilter } from './color-correction.filter';
+import { ColorGradeFilter } from './color-grade.filter';
+import { LutFilter } from './lut.filter';
+import { SharpenFilter } from './sharpen.filter';
+import { BlurFilter } from './blur.filter';
+import { ScrollFilter } from './scroll.filter';
+import { MaskFilter } from './mask.filter';
+import { RenderDelayFilter } from './render-delay.filter';
+import { ScalingFilter } from './scaling.filter';
+
+/**
+ * Filter Chain
+ * Runs a source's enabled video filters in order and keeps filter instances
+ * (and their buffers) alive across frames while settings change.
+ */
+
+const VIDEO_FILTERS: Record<string, () => VideoFilter> = {
+  chroma_key: () => new ChromaKeyFilter(),
+  color_correction: () => new ColorCorrectionFilter(),
+  color_grade: () => new ColorGradeFilter(),
+  lut: () => new LutFilter(),
+  sharpen: () => new SharpenFilter(),
+  blur: () => new BlurFilter(),
+  scroll: () => new ScrollFilter(),
+  mask: () => new MaskFilter(),
+  render_delay: () => new RenderDelayFilter(),
+  scaling: () => new ScalingFilter()
+};
+
+/**
+ * Create a video filter for a filter type; audio and unknown types return null
+ */
+export function createVideoFilter(type: string): VideoFilter | null {
+  const factory = VIDEO_FILTERS[type];
+  return factory ? factory() : null;
+}
+
+export function isVideoFilterType(type: string): boolean {
+  return type in VIDEO_FILTERS;
+}
+
+interface ChainEntry {
+  id: string;
+  enabled: boolean;
+  settingsKey: string;
+  filter: VideoFilter;
+}
+
+export class FilterChain {
+  private entries: ChainEntry[] = [];
+
+  constructor(private readonly factory: (type: string) => VideoFilter | null = createVideoFilter) {}
+
+  /**
+   * Sync the chain with a source's filter list
+   */
+  update(configs: FilterConfig[]): void {
+    const previous = new Map(this.entries.map(entry => [entry.id, entry]));
+    const next: ChainEntry[] = [];
+
+    for (const config of configs) {
+      let entry = previous.get(config.id);
+
+      if (entry && entry.filter.type !== config.type) {
+        entry.filter.dispose();
+        entry = undefined;
+      }
+
+      if (!entry) {
+        const filter = this.factory(config.type);
+        if (!filter) continue;
+        entry = { id: config.id, enabled: config.enabled, settingsKey: '', filter };
+      }
+
+      previous.delete(config.id);
+
+      const settingsKey = JSON.stringify(config.settings ?? {});
+      if (settingsKey !== entry.settingsKey) {
+        entry.filter.configure(config.settings ?? {});
+        entry.settingsKey = settingsKey;
+      }
+      entry.enabled = config.enabled;
+      next.push(entry);
+    }
+
+    previous.forEach(entry => entry.filter.dispose());
+    this.entries = next;
+  }
+
+  /**
+   * Whether any filter in the chain would touch the frame
+   */
+  hasActiveFilters(): boolean {
+    return this.entries.some(entry => entry.enabled);
+  }
+
+  /**
+   * Run a frame through all enabled filters
+   */
+  process(frame: FilterFrame, time: number): FilterFrame {
+    let output = frame;
+
+    for (const entry of this.entries) {
+      if (!entry.enabled) continue;
+
+      try {
+        output = entry.filter.apply(output, time);
+      } catch (error) {
+        // A broken filter must not take the whole source down
+        console.error(`Filter ${entry.filter.type} failed:`, error);
+      }
+    }
+
+    return output;
+  }
+
+  dispose(): void {
+    this.entries.forEach(entry => entry.filter.dispose());
+    this.entries = [];
+  }
+}
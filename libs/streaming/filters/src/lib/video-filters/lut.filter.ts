@@ -0,0 +1,54 @@
+import { FilterSettings, PixelFilter, clamp, numberSetting, stringSetting } from './video-filter';
+import { CubeLut, applyCubeLut, parseCubeLut } from './cube-lut';
+
+/**
+ * Apply LUT
+ * Loads a .cube file and maps colors through it. Frames pass through
+ * unchanged until the LUT has loaded.
+ */
+export class LutFilter extends PixelFilter {
+  readonly type = 'lut';
+  private lut: CubeLut | null = null;
+  private lutFile = '';
+  private amount = 1;
+
+  configure(settings: FilterSettings): void {
+    this.amount = clamp(numberSetting(settings, 'amount', 1), 0, 1);
+
+    const lutFile = stringSetting(settings, 'lutFile', '');
+    if (lutFile !== this.lutFile) {
+      this.lutFile = lutFile;
+      this.lut = null;
+      if (lutFile) {
+        this.loadLut(lutFile);
+      }
+    }
+  }
+
+  protected override isNeutral(): boolean {
+    return !this.lut || this.amount === 0;
+  }
+
+  protected process(image: ImageData): void {
+    if (this.lut) {
+      applyCubeLut(image.data, this.lut, this.amount);
+    }
+  }
+
+  private async loadLut(url: string): Promise<void> {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const lut = parseCubeLut(await response.text());
+      // Ignore results for a file that has since been replaced
+      if (this.lutFile === url) {
+        this.lut = lut;
+      }
+    } catch (error) {
+      console.error(`Failed to load LUT ${url}:`, error);
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import { FilterFrame, FilterSettings, FilterSurface, VideoFilter, loadFilterImage, stringSetting } from './video-filter';
+
+/**
+ * Image Mask
+ * Masks the source with an image. `alpha` uses the mask's alpha channel,
+ * `luma` uses its brightness (white keeps, black removes).
+ */
+export class MaskFilter implements VideoFilter {
+  readonly type = 'mask';
+  private readonly surface = new FilterSurface();
+  private readonly maskSurface = new FilterSurface(true);
+  private imagePath = '';
+  private maskType = 'alpha';
+  private maskImage: HTMLImageElement | null = null;
+  private preparedMask: FilterFrame | null = null;
+
+  configure(settings: FilterSettings): void {
+    const maskType = stringSetting(settings, 'type', 'alpha');
+    if (maskType !== this.maskType) {
+      this.maskType = maskType;
+      this.preparedMask = null;
+    }
+
+    const imagePath = stringSetting(settings, 'imagePath', '');
+    if (imagePath !== this.imagePath) {
+      this.imagePath = imagePath;
+      this.maskImage = null;
+      this.preparedMask = null;
+      if (imagePath) {
+        loadFilterImage(imagePath)
+          .then(image => {
+            if (this.imagePath === imagePath) {
+              this.maskImage = image;
+            }
+          })
+          .catch(error => console.error(error));
+      }
+    }
+  }
+
+  apply(frame: FilterFrame): FilterFrame {
+    const mask = this.getMask(frame.width, frame.height);
+    if (!mask) return frame;
+
+    const ctx = this.surface.prepare(frame.width, frame.height);
+    if (!ctx) return frame;
+
+    ctx.drawImage(frame.image, 0, 0, frame.width, frame.height);
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.drawImage(mask.image, 0, 0, frame.width, frame.height);
+    ctx.globalCompositeOperation = 'source-over';
+
+    return this.surface.toFrame();
+  }
+
+  dispose(): void {
+    this.surface.dispose();
+    this.maskSurface.dispose();
+    this.maskImage = null;
+    this.preparedMask = null;
+  }
+
+  /**
+   * Get the mask as an alpha image, converting luma masks once per size
+   */
+  private getMask(width: number, height: number): FilterFrame | null {
+    if (!this.maskImage) return null;
+
+    if (this.maskType === 'alpha') {
+      return { image: this.maskImage, width, height };
+    }
+
+    if (this.preparedMask?.width === width && this.preparedMask.height === height) {
+      return this.preparedMask;
+    }
+
+    const ctx = this.maskSurface.prepare(width, height);
+    if (!ctx) return null;
+
+    ctx.drawImage(this.maskImage, 0, 0, width, height);
+    const image = ctx.getImageData(0, 0, width, height);
+    const data = image.data;
+    for (let i = 0; i < data.length; i += 4) {
+      const luma = 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2];
+      data[i + 3] = (luma * data[i + 3]) / 255;
+    }
+    ctx.putImageData(image, 0, 0);
+
+    this.preparedMask = this.maskSurface.toFrame();
+    return this.preparedMask;
+  }
+}
@@ -0,0 +1,87 @@
+import { RenderDelayFilter } from './render-delay.filter';
+import { FilterFrame } from './video-filter';
+
+// Canvases are named after the frame drawn into them last
+const frameAt = (time: number, width = 640, height = 360): FilterFrame => {
+  const image = document.createElement('canvas');
+  image.title = String(time);
+  return { image, width, height };
+};
+
+const timeOf = (frame: FilterFrame) => Number((frame.image as HTMLCanvasElement).title);
+
+describe('RenderDelayFilter', () => {
+  beforeEach(() => {
+    const getContext = function (this: HTMLCanvasElement) {
+      return {
+        setTransform: vi.fn(),
+        clearRect: vi.fn(),
+        drawImage: (image: HTMLCanvasElement) => {
+          this.title = image.title;
+        }
+      };
+    };
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(
+      getContext as unknown as typeof HTMLCanvasElement.prototype.getContext
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // Apply frames at 60 Hz, as a preview and the program output together would.
+  // Output canvases are reused, so which frame each shows is read right away.
+  const run = (filter: RenderDelayFilter, seconds: number, size?: { width: number; height: number }) => {
+    const outputs: { time: number; shown: number; frame: FilterFrame }[] = [];
+    for (let time = 0; time <= seconds * 1000; time += 1000 / 60) {
+      const frame = filter.apply(frameAt(time, size?.width, size?.height), time);
+      outputs.push({ time, shown: timeOf(frame), frame });
+    }
+    return outputs;
+  };
+
+  it.each([1000, 1500, 2000])('should hold frames back by %i ms', delayMs => {
+    const filter = new RenderDelayFilter(2000);
+    filter.configure({ delayMs });
+
+    const outputs = run(filter, 4).filter(({ time }) => time >= delayMs + 100);
+
+    expect(outputs.length).toBeGreaterThan(0);
+    for (const { time, shown } of outputs) {
+      // Stored at 30 fps, so at most one stored frame late
+      expect(time - shown).toBeGreaterThanOrEqual(delayMs);
+      expect(time - shown).toBeLessThan(delayMs + 1000 / 30 + 1);
+    }
+  });
+
+  it('should store frames at its frame rate however often it is applied', () => {
+    const filter = new RenderDelayFilter(2000, 30);
+    filter.configure({ delayMs: 2000 });
+
+    run(filter, 4);
+
+    expect(filter['buffer'].length).toBeLessThanOrEqual(62);
+    expect(filter['buffer'].length).toBeGreaterThanOrEqual(60);
+  });
+
+  it('should scale long delays down and return frames at full size', () => {
+    const filter = new RenderDelayFilter(2000);
+    filter.configure({ delayMs: 2000 });
+
+    const outputs = run(filter, 3, { width: 1920, height: 1080 });
+    const stored = filter['buffer'][0].surface.canvas;
+
+    expect(stored.width).toBeLessThan(1920);
+    expect(stored.width * stored.height * filter['buffer'].length).toBeLessThanOrEqual(32 * 1920 * 1080);
+    expect(outputs[outputs.length - 1].frame).toEqual(expect.objectContaining({ width: 1920, height: 1080 }));
+  });
+
+  it('should pass frames through without a delay', () => {
+    const filter = new RenderDelayFilter();
+    filter.configure({ delayMs: 0 });
+    const frame = frameAt(0);
+
+    expect(filter.apply(frame, 0)).toBe(frame);
+  });
+});
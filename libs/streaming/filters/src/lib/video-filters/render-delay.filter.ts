@@ -0,0 +1,127 @@
+import { FilterFrame, FilterSettings, FilterSurface, VideoFilter, clamp, numberSetting } from './video-filter';
+
+/**
+ * Render Delay
+ * Holds frames back by `delayMs` (up to 500 ms unless constructed with another
+ * limit) using a ring of canvases. The ring holds `fps` frames per second of
+ * delay, however often the filter is applied, and frames are scaled down to
+ * keep long delays within a fixed memory budget.
+ */
+
+const MAX_DELAY_MS = 500;
+const DEFAULT_FPS = 30;
+// As many pixels as 32 1080p frames
+const MAX_BUFFERED_PIXELS = 32 * 1920 * 1080;
+// Frames arriving this early still count as the next one, so jitter does not halve the rate
+const FRAME_TOLERANCE_MS = 2;
+
+interface BufferedFrame {
+  surface: FilterSurface;
+  time: number;
+}
+
+export class RenderDelayFilter implements VideoFilter {
+  readonly type = 'render_delay';
+  private delayMs = 0;
+  private buffer: BufferedFrame[] = [];
+  private spare: FilterSurface[] = [];
+  private nextStoreTime = 0;
+  // Scaled-down frames are drawn back at full size here
+  private output = new FilterSurface();
+
+  constructor(
+    private readonly maxDelayMs = MAX_DELAY_MS,
+    private readonly fps = DEFAULT_FPS
+  ) {}
+
+  configure(settings: FilterSettings): void {
+    this.delayMs = clamp(numberSetting(settings, 'delayMs', 0), 0, this.maxDelayMs);
+    if (this.delayMs === 0) {
+      this.clear();
+    }
+  }
+
+  apply(frame: FilterFrame, time: number): FilterFrame {
+    if (this.delayMs === 0) return frame;
+
+    if (this.buffer.length === 0 || time >= this.nextStoreTime - FRAME_TOLERANCE_MS) {
+      if (!this.store(frame, time)) return frame;
+    }
+
+    // Drop frames older than the newest one that is due
+    while (this.buffer.length > 1 && time - this.buffer[1].time >= this.delayMs) {
+      this.recycle(this.buffer.shift());
+    }
+    while (this.buffer.length > this.capacity()) {
+      this.recycle(this.buffer.shift());
+    }
+
+    return this.toFullSize(this.buffer[0].surface, frame);
+  }
+
+  dispose(): void {
+    this.clear();
+    this.spare.forEach(surface => surface.dispose());
+    this.spare = [];
+    this.output.dispose();
+  }
+
+  /**
+   * Frames needed to cover the delay at the stored frame rate
+   */
+  private capacity(): number {
+    return Math.ceil((this.delayMs * this.fps) / 1000) + 2;
+  }
+
+  /**
+   * Copy the incoming frame; live sources reuse their image every frame
+   */
+  private store(frame: FilterFrame, time: number): boolean {
+    const scale = Math.min(1, Math.sqrt(MAX_BUFFERED_PIXELS / (this.capacity() * frame.width * frame.height)));
+    const width = Math.max(1, Math.round(frame.width * scale));
+    const height = Math.max(1, Math.round(frame.height * scale));
+
+    const surface = this.spare.pop() ?? new FilterSurface();
+    const ctx = surface.prepare(width, height);
+    if (!ctx) {
+      this.spare.push(surface);
+      return false;
+    }
+    ctx.drawImage(frame.image, 0, 0, width, height);
+    this.buffer.push({ surface, time });
+
+    // Keep to the frame rate; after a pause, start counting from this frame
+    const interval = 1000 / this.fps;
+    this.nextStoreTime += interval;
+    if (this.nextStoreTime <= time) {
+      this.nextStoreTime = time + interval;
+    }
+    return true;
+  }
+
+  /**
+   * The delayed frame at the size of the incoming one, so crops and later
+   * filters see the same frame size either way
+   */
+  private toFullSize(surface: FilterSurface, frame: FilterFrame): FilterFrame {
+    const stored = surface.toFrame();
+    if (stored.width === frame.width && stored.height === frame.height) return stored;
+
+    const ctx = this.output.prepare(frame.width, frame.height);
+    if (!ctx) return stored;
+    ctx.drawImage(stored.image, 0, 0, frame.width, frame.height);
+    return this.output.toFrame();
+  }
+
+  private clear(): void {
+    this.buffer.forEach(entry => this.recycle(entry));
+    this.buffer = [];
+    this.nextStoreTime = 0;
+  }
+
+  private recycle(entry: BufferedFrame | undefined): void {
+    if (entry) {
+      this.spare.push(entry.surface);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { FilterFrame, FilterSettings, FilterSurface, VideoFilter, stringSetting } from './video-filter';
+
+/**
+ * Scaling/Aspect Ratio
+ * Rescales the source to a fixed `WIDTHxHEIGHT` resolution. The scale
+ * filter picks the canvas smoothing quality.
+ */
+
+/**
+ * Parse a resolution like "1280x720"; returns null for "source" or invalid input
+ */
+export function parseResolution(value: string): { width: number; height: number } | null {
+  const match = /^\s*(\d+)\s*[xX]\s*(\d+)\s*$/.exec(value ?? '');
+  if (!match) return null;
+
+  const width = parseInt(match[1], 10);
+  const height = parseInt(match[2], 10);
+  return width > 0 && height > 0 ? { width, height } : null;
+}
+
+export class ScalingFilter implements VideoFilter {
+  readonly type = 'scaling';
+  private readonly surface = new FilterSurface();
+  private resolution: { width: number; height: number } | null = null;
+  private scaleFilter = 'bicubic';
+
+  configure(settings: FilterSettings): void {
+    this.resolution = parseResolution(stringSetting(settings, 'resolution', 'source'));
+    this.scaleFilter = stringSetting(settings, 'filter', 'bicubic');
+  }
+
+  apply(frame: FilterFrame): FilterFrame {
+    if (!this.resolution) return frame;
+
+    const { width, height } = this.resolution;
+    const ctx = this.surface.prepare(width, height);
+    if (!ctx) return frame;
+
+    if (this.scaleFilter === 'point') {
+      ctx.imageSmoothingEnabled = false;
+    } else {
+      ctx.imageSmoothingEnabled = true;
+      ctx.imageSmoothingQuality = this.scaleFilter === 'bilinear' ? 'low' : this.scaleFilter === 'bicubic' ? 'medium' : 'high';
+    }
+
+    ctx.drawImage(frame.image, 0, 0, width, height);
+    return this.surface.toFrame();
+  }
+
+  dispose(): void {
+    this.surface.dispose();
+  }
+}
@@ -0,0 +1,65 @@
+import { FilterFrame, FilterSettings, FilterSurface, VideoFilter, booleanSetting, numberSetting } from './video-filter';
+
+/**
+ * Scroll
+ * Scrolls the source by `horizontal`/`vertical` pixels per second. With
+ * `loop` the content wraps around, otherwise it scrolls out once.
+ */
+
+/**
+ * Offset of the scrolled content after `elapsed` ms, wrapped to the frame
+ */
+export function scrollOffset(speed: number, elapsed: number, size: number, loop: boolean): number {
+  const distance = (speed * elapsed) / 1000;
+  if (!loop || size <= 0) return distance;
+
+  const wrapped = distance % size;
+  return wrapped < 0 ? wrapped + size : wrapped;
+}
+
+export class ScrollFilter implements VideoFilter {
+  readonly type = 'scroll';
+  private readonly surface = new FilterSurface();
+  private horizontal = 0;
+  private vertical = 0;
+  private loop = true;
+  private startTime: number | null = null;
+
+  configure(settings: FilterSettings): void {
+    this.horizontal = numberSetting(settings, 'horizontal', 0);
+    this.vertical = numberSetting(settings, 'vertical', 0);
+    this.loop = booleanSetting(settings, 'loop', true);
+  }
+
+  apply(frame: FilterFrame, time: number): FilterFrame {
+    if (this.horizontal === 0 && this.vertical === 0) {
+      this.startTime = null;
+      return frame;
+    }
+
+    const ctx = this.surface.prepare(frame.width, frame.height);
+    if (!ctx) return frame;
+
+    this.startTime ??= time;
+    const elapsed = time - this.startTime;
+    const dx = scrollOffset(this.horizontal, elapsed, frame.width, this.loop);
+    const dy = scrollOffset(this.vertical, elapsed, frame.height, this.loop);
+
+    if (this.loop) {
+      // Draw the tiles needed to cover the frame after wrapping
+      for (const ox of [dx - frame.width, dx]) {
+        for (const oy of [dy - frame.height, dy]) {
+          ctx.drawImage(frame.image, ox, oy, frame.width, frame.height);
+        }
+      }
+    } else {
+      ctx.drawImage(frame.image, dx, dy, frame.width, frame.height);
+    }
+
+    return this.surface.toFrame();
+  }
+
+  dispose(): void {
+    this.surface.dispose();
+  }
+}
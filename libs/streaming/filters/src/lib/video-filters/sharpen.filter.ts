@@ -0,0 +1,48 @@
+import { FilterSettings, PixelFilter, clamp, numberSetting } from './video-filter';
+
+/**
+ * Sharpen
+ * Unsharp-style Laplacian sharpening; `amount` ranges 0..1.
+ */
+
+/**
+ * Sharpen pixels in place
+ */
+export function sharpenPixels(data: Uint8ClampedArray, width: number, height: number, amount: number): void {
+  const source = new Uint8ClampedArray(data);
+  const rowStride = width * 4;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * rowStride + x * 4;
+
+      for (let c = 0; c < 3; c++) {
+        const center = source[i + c];
+        const laplacian =
+          4 * center -
+          source[i - 4 + c] -
+          source[i + 4 + c] -
+          source[i - rowStride + c] -
+          source[i + rowStride + c];
+        data[i + c] = center + laplacian * amount;
+      }
+    }
+  }
+}
+
+export class SharpenFilter extends PixelFilter {
+  readonly type = 'sharpen';
+  private amount = 0.5;
+
+  configure(settings: FilterSettings): void {
+    this.amount = clamp(numberSetting(settings, 'amount', 0.5), 0, 1);
+  }
+
+  protected override isNeutral(): boolean {
+    return this.amount === 0;
+  }
+
+  protected process(image: ImageData): void {
+    sharpenPixels(image.data, image.width, image.height, this.amount);
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Video Filter Types
+ * Shared contracts for per-source video filters and the chain that runs them.
+ */
+
+/**
+ * A frame flowing through the filter chain
+ */
+export interface FilterFrame {
+  image: CanvasImageSource;
+  width: number;
+  height: number;
+}
+
+/**
+ * Filter configuration as stored on a source. Structurally matches the
+ * `Filter` model of streaming-core so sources can be passed in directly.
+ */
+export interface FilterConfig {
+  id: string;
+  type: string;
+  enabled: boolean;
+  settings: FilterSettings;
+}
+
+export interface FilterSettings {
+  [key: string]: unknown;
+}
+
+export interface VideoFilter {
+  readonly type: string;
+
+  /**
+   * Apply new settings; called whenever the filter's settings change
+   */
+  configure(settings: FilterSettings): void;
+
+  /**
+   * Process a frame. `time` is a monotonic timestamp in milliseconds.
+   */
+  apply(frame: FilterFrame, time: number): FilterFrame;
+
+  /**
+   * Release any resources held by the filter
+   */
+  dispose(): void;
+}
+
+export interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+/**
+ * Parse a #rgb / #rrggbb color into 0-255 components
+ */
+export function parseHexColor(color: string): Rgb {
+  let hex = color.trim().replace(/^#/, '');
+  if (hex.length === 3) {
+    hex = hex.split('').map(c => c + c).join('');
+  }
+
+  const value = parseInt(hex.slice(0, 6), 16);
+  if (Number.isNaN(value)) {
+    return { r: 0, g: 0, b: 0 };
+  }
+
+  return {
+    r: (value >> 16) & 0xff,
+    g: (value >> 8) & 0xff,
+    b: value & 0xff
+  };
+}
+
+export function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Read a number setting; numeric strings from form inputs count
+ */
+export function numberSetting(settings: FilterSettings, key: string, fallback: number): number {
+  const value = settings[key];
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : fallback;
+}
+
+export function stringSetting(settings: FilterSettings, key: string, fallback: string): string {
+  const value = settings[key];
+  return typeof value === 'string' ? value : fallback;
+}
+
+export function booleanSetting(settings: FilterSettings, key: string, fallback: boolean): boolean {
+  const value = settings[key];
+  return typeof value === 'boolean' ? value : fallback;
+}
+
+/**
+ * A reusable canvas owned by a filter for its output
+ */
+export class FilterSurface {
+  readonly canvas: HTMLCanvasElement = document.createElement('canvas');
+  private context: CanvasRenderingContext2D | null = null;
+
+  constructor(private readonly willReadFrequently = false) {}
+
+  /**
+   * Resize the surface (clearing it) and return its context
+   */
+  prepare(width: number, height: number): CanvasRenderingContext2D | null {
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+      this.context = null;
+    }
+
+    if (!this.context) {
+      this.context = this.canvas.getContext('2d', {
+        willReadFrequently: this.willReadFrequently
+      });
+    }
+
+    this.context?.setTransform(1, 0, 0, 1, 0, 0);
+    this.context?.clearRect(0, 0, width, height);
+    return this.context;
+  }
+
+  toFrame(): FilterFrame {
+    return { image: this.canvas, width: this.canvas.width, height: this.canvas.height };
+  }
+
+  dispose(): void {
+    this.canvas.width = 0;
+    this.canvas.height = 0;
+    this.context = null;
+  }
+}
+
+/**
+ * Base class for filters that rewrite pixels on the CPU
+ */
+export abstract class PixelFilter implements VideoFilter {
+  abstract readonly type: string;
+  protected readonly surface = new FilterSurface(true);
+
+  abstract configure(settings: FilterSettings): void;
+
+  /**
+   * Rewrite the pixels of a frame in place
+   */
+  protected abstract process(image: ImageData): void;
+
+  /**
+   * Filters with neutral settings can skip the pixel pass
+   */
+  protected isNeutral(): boolean {
+    return false;
+  }
+
+  apply(frame: FilterFrame): FilterFrame {
+    if (this.isNeutral()) return frame;
+
+    const ctx = this.surface.prepare(frame.width, frame.height);
+    if (!ctx) return frame;
+
+    ctx.drawImage(frame.image, 0, 0, frame.width, frame.height);
+    const image = ctx.getImageData(0, 0, frame.width, frame.height);
+    this.process(image);
+    ctx.putImageData(image, 0, 0);
+
+    return this.surface.toFrame();
+  }
+
+  dispose(): void {
+    this.surface.dispose();
+  }
+}
+
+/**
+ * Load an image for filters that sample external files (masks, LUT images)
+ */
+export function loadFilterImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Failed to load filter image: ${url}`));
+    image.src = url;
+  });
+}
@@ -1 +1,10 @@
 export * from './lib/recording-engine/recording-engine';
+export * from './lib/container/ebml';
+export * from './lib/container/webm-demuxer';
+export * from './lib/container/matroska-muxer';
+export * from './lib/container/mp4-muxer';
+export * from './lib/container/remux';
+export * from './lib/container/merge-tracks';
+export * from './lib/container/webm-stream-parser';
+export * from './lib/replay/replay-buffer';
+export * from './lib/storage/recording-store';
@@ -0,0 +1,236 @@
+/**
+ * EBML
+ * Minimal reader/writer for the Extensible Binary Meta Language used by
+ * Matroska and WebM.
+ */
+
+export const EbmlId = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Void: 0xec,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  FlagDefault: 0x88,
+  DefaultDuration: 0x23e383,
+  Name: 0x536e,
+  Language: 0x22b59c,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  CodecDelay: 0x56aa,
+  SeekPreRoll: 0x56bb,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  BitDepth: 0x6264,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  Position: 0xa7,
+  PrevSize: 0xab,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  BlockDuration: 0x9b,
+  ReferenceBlock: 0xfb,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+  Tags: 0x1254c367,
+  Chapters: 0x1043a770,
+  Attachments: 0x1941a469
+} as const;
+
+export interface EbmlHeader {
+  id: number;
+  /** Size of the element data, or null when the size is unknown (live streams) */
+  size: number | null;
+  /** Offset of the element data */
+  dataOffset: number;
+}
+
+/**
+ * Read an element ID (marker bits included, as IDs are written in specs)
+ */
+export function readElementId(bytes: Uint8Array, offset: number): { id: number; length: number } {
+  const first = bytes[offset];
+  if (first === undefined) {
+    throw new Error('Unexpected end of EBML data');
+  }
+
+  const length = Math.clz32(first) - 23;
+  if (length < 1 || length > 4) {
+    throw new Error(`Invalid EBML element ID at offset ${offset}`);
+  }
+
+  let id = 0;
+  for (let i = 0; i < length; i++) {
+    id = id * 256 + bytes[offset + i];
+  }
+
+  return { id, length };
+}
+
+/**
+ * Read a variable size integer (marker bit removed). `unknown` is set for
+ * the all-ones value that marks an unknown size.
+ */
+export function readVint(
+  bytes: Uint8Array,
+  offset: number
+): { value: number; length: number; unknown: boolean } {
+  const first = bytes[offset];
+  if (first === undefined) {
+    throw new Error('Unexpected end of EBML data');
+  }
+
+  const length = Math.clz32(first) - 23;
+  if (length < 1 || length > 8) {
+    throw new Error(`Invalid EBML size at offset ${offset}`);
+  }
+
+  let value = first & (0xff >> length);
+  let allOnes = value === 0xff >> length;
+
+  for (let i = 1; i < length; i++) {
+    const byte = bytes[offset + i];
+    value = value * 256 + byte;
+    allOnes = allOnes && byte === 0xff;
+  }
+
+  return { value, length, unknown: allOnes };
+}
+
+export function readElementHeader(bytes: Uint8Array, offset: number): EbmlHeader {
+  const id = readElementId(bytes, offset);
+  const size = readVint(bytes, offset + id.length);
+
+  return {
+    id: id.id,
+    size: size.unknown ? null : size.value,
+    dataOffset: offset + id.length + size.length
+  };
+}
+
+export function readUint(bytes: Uint8Array, offset: number, size: number): number {
+  let value = 0;
+  for (let i = 0; i < size; i++) {
+    value = value * 256 + bytes[offset + i];
+  }
+  return value;
+}
+
+export function readFloat(bytes: Uint8Array, offset: number, size: number): number {
+  const view = new DataView(bytes.buffer, bytes.byteOffset + offset, size);
+  return size === 4 ? view.getFloat32(0) : view.getFloat64(0);
+}
+
+export function readString(bytes: Uint8Array, offset: number, size: number): string {
+  return new TextDecoder().decode(bytes.subarray(offset, offset + size)).replace(/\0+$/, '');
+}
+
+/**
+ * Encode an element ID
+ */
+export function encodeId(id: number): Uint8Array {
+  const bytes: number[] = [];
+  let value = id;
+  while (value > 0) {
+    bytes.unshift(value & 0xff);
+    value = Math.floor(value / 256);
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Encode a size as a variable size integer, optionally with a fixed length
+ */
+export function encodeVint(value: number, length?: number): Uint8Array {
+  let size = length ?? 1;
+  // The all-ones value of each length is reserved for "unknown"
+  while (!length && value >= Math.pow(2, 7 * size) - 1) {
+    size++;
+  }
+
+  if (size > 8) {
+    throw new Error(`EBML size ${value} is too large`);
+  }
+
+  const bytes = new Uint8Array(size);
+  let remaining = value;
+  for (let i = size - 1; i >= 0; i--) {
+    bytes[i] = remaining & 0xff;
+    remaining = Math.floor(remaining / 256);
+  }
+  bytes[0] |= 0x80 >> (size - 1);
+
+  return bytes;
+}
+
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Build an element from its payload
+ */
+export function element(id: number, payload: Uint8Array | Uint8Array[]): Uint8Array {
+  const data = Array.isArray(payload) ? concatBytes(payload) : payload;
+  return concatBytes([encodeId(id), encodeVint(data.length), data]);
+}
+
+export function uintElement(id: number, value: number, length?: number): Uint8Array {
+  let size = length ?? 1;
+  while (!length && value >= Math.pow(2, 8 * size)) {
+    size++;
+  }
+
+  const data = new Uint8Array(size);
+  let remaining = value;
+  for (let i = size - 1; i >= 0; i--) {
+    data[i] = remaining & 0xff;
+    remaining = Math.floor(remaining / 256);
+  }
+
+  return element(id, data);
+}
+
+export function floatElement(id: number, value: number): Uint8Array {
+  const data = new Uint8Array(8);
+  new DataView(data.buffer).setFloat64(0, value);
+  return element(id, data);
+}
+
+export function stringElement(id: number, value: string): Uint8Array {
+  return element(id, new TextEncoder().encode(value));
+}
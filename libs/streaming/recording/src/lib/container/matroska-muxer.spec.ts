@@ -0,0 +1,155 @@
+import { EbmlId, concatBytes, element, encodeId, uintElement } from './ebml';
+import { muxMatroska } from './matroska-muxer';
+import { MediaTrack, demuxWebm } from './webm-demuxer';
+import { mergeRecordedTracks } from './merge-tracks';
+
+const VIDEO: MediaTrack = {
+  number: 1,
+  type: 'video',
+  codecId: 'V_VP8',
+  video: { width: 1280, height: 720 }
+};
+
+const AUDIO: MediaTrack = {
+  number: 2,
+  type: 'audio',
+  codecId: 'A_OPUS',
+  codecPrivate: new Uint8Array([1, 2, 3]),
+  audio: { samplingFrequency: 48000, channels: 2 }
+};
+
+function bytes(...values: number[]): Uint8Array {
+  return new Uint8Array(values);
+}
+
+describe('muxMatroska', () => {
+  it('should round-trip tracks and frames through the demuxer', () => {
+    const file = concatBytes(
+      muxMatroska({
+        docType: 'webm',
+        tracks: [VIDEO, AUDIO],
+        frames: [
+          { track: 1, timestamp: 0, keyframe: true, data: bytes(1) },
+          { track: 2, timestamp: 0, keyframe: true, data: bytes(2) },
+          { track: 2, timestamp: 20, keyframe: true, data: bytes(3) },
+          { track: 1, timestamp: 33, keyframe: false, data: bytes(4) }
+        ]
+      })
+    );
+
+    const media = demuxWebm(file);
+
+    expect(media.docType).toBe('webm');
+    expect(media.tracks.map(t => [t.number, t.type, t.codecId])).toEqual([
+      [1, 'video', 'V_VP8'],
+      [2, 'audio', 'A_OPUS']
+    ]);
+    expect(media.tracks[0].video).toEqual({ width: 1280, height: 720 });
+    expect(Array.from(media.tracks[1].codecPrivate ?? [])).toEqual([1, 2, 3]);
+    expect(media.frames.map(f => [f.track, f.timestamp, f.keyframe, f.data[0]])).toEqual([
+      [1, 0, true, 1],
+      [2, 0, true, 2],
+      [2, 20, true, 3],
+      [1, 33, false, 4]
+    ]);
+    expect(media.duration).toBe(33);
+  });
+
+  it('should start a new cluster at video keyframes', () => {
+    const file = concatBytes(
+      muxMatroska({
+        docType: 'webm',
+        tracks: [VIDEO],
+        frames: [
+          { track: 1, timestamp: 0, keyframe: true, data: bytes(1) },
+          { track: 1, timestamp: 1000, keyframe: true, data: bytes(2) }
+        ]
+      })
+    );
+
+    const clusterId = encodeId(EbmlId.Cluster);
+    let clusters = 0;
+    for (let i = 0; i < file.length - 3; i++) {
+      if (clusterId.every((b, j) => file[i + j] === b)) clusters++;
+    }
+
+    expect(clusters).toBe(2);
+  });
+});
+
+describe('demuxWebm', () => {
+  it('should read live recordings with unknown-size segments and clusters', () => {
+    const unknownSize = bytes(0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff);
+    const tracks = element(EbmlId.Tracks, [
+      element(EbmlId.TrackEntry, [
+        uintElement(EbmlId.TrackNumber, 1),
+        uintElement(EbmlId.TrackType, 2),
+        element(EbmlId.CodecID, new TextEncoder().encode('A_OPUS'))
+      ])
+    ]);
+    const cluster = (timecode: number, payload: number) =>
+      concatBytes([
+        encodeId(EbmlId.Cluster),
+        unknownSize,
+        uintElement(EbmlId.Timecode, timecode),
+        element(EbmlId.SimpleBlock, [bytes(0x81, 0, 10, 0x80), bytes(payload)])
+      ]);
+
+    const file = concatBytes([
+      element(EbmlId.EBML, [element(EbmlId.DocType, new TextEncoder().encode('webm'))]),
+      encodeId(EbmlId.Segment),
+      unknownSize,
+      tracks,
+      cluster(0, 7),
+      cluster(1000, 8)
+    ]);
+
+    const media = demuxWebm(file);
+
+    expect(media.tracks[0].type).toBe('audio');
+    expect(media.frames.map(f => [f.timestamp, f.data[0]])).toEqual([
+      [10, 7],
+      [1010, 8]
+    ]);
+  });
+
+  it('should reject files that are not WebM', () => {
+    expect(() => demuxWebm(element(EbmlId.Cues, []))).toThrow('Not a WebM file');
+  });
+});
+
+describe('mergeRecordedTracks', () => {
+  it('should combine video and separately recorded audio tracks', async () => {
+    const videoFile = concatBytes(
+      muxMatroska({
+        docType: 'webm',
+        tracks: [VIDEO, AUDIO],
+        frames: [
+          { track: 1, timestamp: 0, keyframe: true, data: bytes(1) },
+          { track: 2, timestamp: 0, keyframe: true, data: bytes(2) }
+        ]
+      })
+    );
+    const stemFile = concatBytes(
+      muxMatroska({
+        docType: 'webm',
+        tracks: [{ ...AUDIO, number: 1 }],
+        frames: [{ track: 1, timestamp: 0, keyframe: true, data: bytes(3) }]
+      })
+    );
+
+    const blob = await mergeRecordedTracks([
+      { data: videoFile, offset: 0, audioNames: ['Game'] },
+      { data: stemFile, offset: 15, kind: 'audio', audioNames: ['Mic'] }
+    ]);
+    const media = demuxWebm(new Uint8Array(await blob.arrayBuffer()));
+
+    expect(blob.type).toBe('video/webm');
+    expect(media.tracks.map(t => [t.number, t.type, t.name])).toEqual([
+      [1, 'video', undefined],
+      [2, 'audio', 'Game'],
+      [3, 'audio', 'Mic']
+    ]);
+    expect(media.frames.find(f => f.track === 3)?.timestamp).toBe(15);
+  });
+});
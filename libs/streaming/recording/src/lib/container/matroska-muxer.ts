@@ -0,0 +1,227 @@
+import {
+  EbmlId,
+  concatBytes,
+  element,
+  encodeId,
+  encodeVint,
+  floatElement,
+  stringElement,
+  uintElement
+} from './ebml';
+import { MediaFrame, MediaTrack } from './webm-demuxer';
+
+/**
+ * Matroska Muxer
+ * Writes tracks and frames into a seekable Matroska/WebM file with cues.
+ */
+
+export interface MuxOptions {
+  docType: 'webm' | 'matroska';
+  tracks: MediaTrack[];
+  /** Frames sorted by timestamp; `track` refers to MediaTrack.number */
+  frames: MediaFrame[];
+  writingApp?: string;
+}
+
+// Timestamps are written in milliseconds
+const TIMECODE_SCALE = 1000000;
+// Relative block timecodes are int16, so clusters must stay below ~32s
+const MAX_CLUSTER_DURATION = 30000;
+const AUDIO_ONLY_CLUSTER_DURATION = 5000;
+
+const WEBM_CODECS = new Set(['V_VP8', 'V_VP9', 'V_AV1', 'A_OPUS', 'A_VORBIS']);
+
+/**
+ * Whether all tracks can be stored in a WebM (rather than Matroska) file
+ */
+export function isWebmCompatible(tracks: MediaTrack[]): boolean {
+  return tracks.every(track => WEBM_CODECS.has(track.codecId));
+}
+
+/**
+ * Mux into a complete file, returned as parts suitable for a Blob
+ */
+export function muxMatroska(options: MuxOptions): Uint8Array[] {
+  const writer = new MatroskaWriter(options, bytes => bytes);
+  options.frames.forEach(frame => writer.addFrame(frame));
+  return writer.finish();
+}
+
+/**
+ * Writes a Matroska/WebM file a frame at a time. Each finished cluster is
+ * handed to `store`, e.g. to move it into a Blob, so only the open cluster
+ * is held in memory. Header and cues are written by `finish()`, once sizes
+ * and positions are known.
+ */
+export class MatroskaWriter<Part = Uint8Array> {
+  private readonly hasVideo: boolean;
+  private readonly cueTrack?: MediaTrack;
+  private readonly clusters: Part[] = [];
+  private readonly cuePoints: { time: number; position: number }[] = [];
+  private clusterFrames: MediaFrame[] = [];
+  private clusterStart = 0;
+  private clustersSize = 0;
+  private lastTimestamp = 0;
+
+  constructor(
+    private readonly options: Omit<MuxOptions, 'frames'>,
+    private readonly store: (bytes: Uint8Array) => Part
+  ) {
+    this.hasVideo = options.tracks.some(track => track.type === 'video');
+    this.cueTrack = options.tracks.find(track => track.type === 'video') ?? options.tracks[0];
+  }
+
+  /**
+   * Add the next frame; frames come sorted by timestamp
+   */
+  addFrame(frame: MediaFrame): void {
+    const timestamp = Math.max(0, Math.round(frame.timestamp));
+    const elapsed = timestamp - this.clusterStart;
+    const startsCluster =
+      this.clusterFrames.length === 0 ||
+      elapsed >= MAX_CLUSTER_DURATION ||
+      (this.hasVideo
+        ? frame.keyframe && frame.track === this.cueTrack?.number
+        : elapsed >= AUDIO_ONLY_CLUSTER_DURATION);
+
+    if (startsCluster) {
+      this.flushCluster();
+      this.clusterStart = timestamp;
+    }
+    this.clusterFrames.push({ ...frame, timestamp });
+    this.lastTimestamp = Math.round(frame.timestamp);
+  }
+
+  /**
+   * Complete the file and return its parts in order
+   */
+  finish(): (Uint8Array | Part)[] {
+    this.flushCluster();
+
+    const info = element(EbmlId.Info, [
+      uintElement(EbmlId.TimecodeScale, TIMECODE_SCALE),
+      floatElement(EbmlId.Duration, this.lastTimestamp),
+      stringElement(EbmlId.MuxingApp, 'broady'),
+      stringElement(EbmlId.WritingApp, this.options.writingApp ?? 'broady')
+    ]);
+    const tracksElement = element(EbmlId.Tracks, this.options.tracks.map(buildTrackEntry));
+
+    // SeekHead has a fixed size (8 byte positions) so offsets can be computed up front
+    const seekHeadSize = buildSeekHead(0, 0, 0).length;
+    const infoPosition = seekHeadSize;
+    const tracksPosition = infoPosition + info.length;
+    const clustersPosition = tracksPosition + tracksElement.length;
+    const cuesPosition = clustersPosition + this.clustersSize;
+
+    const cues = element(
+      EbmlId.Cues,
+      this.cuePoints.map(cue =>
+        element(EbmlId.CuePoint, [
+          uintElement(EbmlId.CueTime, cue.time),
+          element(EbmlId.CueTrackPositions, [
+            uintElement(EbmlId.CueTrack, this.cueTrack?.number ?? 1),
+            uintElement(EbmlId.CueClusterPosition, clustersPosition + cue.position)
+          ])
+        ])
+      )
+    );
+
+    const seekHead = buildSeekHead(infoPosition, tracksPosition, cuesPosition);
+    const segmentSize = seekHead.length + info.length + tracksElement.length + this.clustersSize + cues.length;
+
+    return [
+      buildEbmlHeader(this.options.docType),
+      concatBytes([encodeId(EbmlId.Segment), encodeVint(segmentSize, 8)]),
+      seekHead,
+      info,
+      tracksElement,
+      ...this.clusters,
+      cues
+    ];
+  }
+
+  private flushCluster(): void {
+    if (this.clusterFrames.length === 0) return;
+
+    const cluster = buildCluster(this.clusterStart, this.clusterFrames);
+    this.cuePoints.push({ time: this.clusterStart, position: this.clustersSize });
+    this.clusters.push(this.store(cluster));
+    this.clustersSize += cluster.length;
+    this.clusterFrames = [];
+  }
+}
+
+function buildEbmlHeader(docType: string): Uint8Array {
+  return element(EbmlId.EBML, [
+    uintElement(EbmlId.EBMLVersion, 1),
+    uintElement(EbmlId.EBMLReadVersion, 1),
+    uintElement(EbmlId.EBMLMaxIDLength, 4),
+    uintElement(EbmlId.EBMLMaxSizeLength, 8),
+    stringElement(EbmlId.DocType, docType),
+    uintElement(EbmlId.DocTypeVersion, 4),
+    uintElement(EbmlId.DocTypeReadVersion, 2)
+  ]);
+}
+
+function buildSeekHead(info: number, tracks: number, cues: number): Uint8Array {
+  const seek = (id: number, position: number) =>
+    element(EbmlId.Seek, [
+      element(EbmlId.SeekID, encodeId(id)),
+      uintElement(EbmlId.SeekPosition, position, 8)
+    ]);
+
+  return element(EbmlId.SeekHead, [
+    seek(EbmlId.Info, info),
+    seek(EbmlId.Tracks, tracks),
+    seek(EbmlId.Cues, cues)
+  ]);
+}
+
+function buildTrackEntry(track: MediaTrack): Uint8Array {
+  const children: Uint8Array[] = [
+    uintElement(EbmlId.TrackNumber, track.number),
+    uintElement(EbmlId.TrackUID, track.number),
+    uintElement(EbmlId.TrackType, track.type === 'video' ? 1 : track.type === 'audio' ? 2 : 0x11),
+    uintElement(EbmlId.FlagDefault, 1),
+    stringElement(EbmlId.CodecID, track.codecId)
+  ];
+
+  if (track.name) children.push(stringElement(EbmlId.Name, track.name));
+  if (track.language) children.push(stringElement(EbmlId.Language, track.language));
+  if (track.codecPrivate) children.push(element(EbmlId.CodecPrivate, track.codecPrivate));
+  if (track.defaultDuration) children.push(uintElement(EbmlId.DefaultDuration, track.defaultDuration));
+  if (track.codecDelay) children.push(uintElement(EbmlId.CodecDelay, track.codecDelay));
+  if (track.seekPreRoll) children.push(uintElement(EbmlId.SeekPreRoll, track.seekPreRoll));
+
+  if (track.video) {
+    children.push(
+      element(EbmlId.Video, [
+        uintElement(EbmlId.PixelWidth, track.video.width),
+        uintElement(EbmlId.PixelHeight, track.video.height)
+      ])
+    );
+  }
+
+  if (track.audio) {
+    const audio = [
+      floatElement(EbmlId.SamplingFrequency, track.audio.samplingFrequency),
+      uintElement(EbmlId.Channels, track.audio.channels)
+    ];
+    if (track.audio.bitDepth) audio.push(uintElement(EbmlId.BitDepth, track.audio.bitDepth));
+    children.push(element(EbmlId.Audio, audio));
+  }
+
+  return element(EbmlId.TrackEntry, children);
+}
+
+function buildCluster(timecode: number, frames: MediaFrame[]): Uint8Array {
+  const blocks = frames.map(frame => {
+    const header = new Uint8Array(3);
+    new DataView(header.buffer).setInt16(0, frame.timestamp - timecode);
+    header[2] = frame.keyframe ? 0x80 : 0;
+
+    return element(EbmlId.SimpleBlock, [encodeVint(frame.track), header, frame.data]);
+  });
+
+  return element(EbmlId.Cluster, [uintElement(EbmlId.Timecode, timecode), ...blocks]);
+}
@@ -0,0 +1,106 @@
+import { MediaFrame, MediaTrack } from './webm-demuxer';
+import { isWebmCompatible } from './matroska-muxer';
+import { ContainerFormat, createContainerWriter } from './remux';
+import { WebmSource, WebmStreamParser, readWebmFrames } from './webm-stream-parser';
+
+/**
+ * Merge Tracks
+ * Combines separately recorded WebM files into one multitrack file. Browsers
+ * record a single audio track per MediaRecorder, so multitrack recordings run
+ * one recorder per track and are merged when they stop.
+ */
+
+export interface RecordedTrackPart {
+  data: WebmSource;
+  /** Start of this recorder relative to the first one, in ms */
+  offset: number;
+  /** Only take tracks of this type from the part */
+  kind?: 'video' | 'audio';
+  /** Names for the part's audio tracks, in order */
+  audioNames?: string[];
+}
+
+interface PartReader {
+  frames: AsyncGenerator<MediaFrame>;
+  /** Next frame, already renumbered and offset */
+  head: MediaFrame | null;
+  /** Source track number to merged track number */
+  numbers: Map<number, number>;
+  offset: number;
+}
+
+/**
+ * Merge recorded parts into a single file; WebM, or Matroska if the codecs
+ * need it, unless a format is given. Parts are read and interleaved frame by
+ * frame, so none of them is loaded at once.
+ */
+export async function mergeRecordedTracks(parts: RecordedTrackPart[], format?: ContainerFormat): Promise<Blob> {
+  const tracks: MediaTrack[] = [];
+  const readers: PartReader[] = [];
+
+  for (const part of parts) {
+    const parser = new WebmStreamParser();
+    const reader: PartReader = {
+      frames: readWebmFrames(part.data, parser),
+      head: null,
+      numbers: new Map(),
+      offset: part.offset
+    };
+    // Tracks are known once the first frame has been read
+    const first = await reader.frames.next();
+    const taken = parser.tracks.filter(track => !part.kind || track.type === part.kind);
+
+    let audioIndex = 0;
+    taken.forEach(track => {
+      const number = tracks.length + 1;
+      const name = track.type === 'audio' ? part.audioNames?.[audioIndex++] : undefined;
+      tracks.push({ ...track, number, name: name ?? track.name });
+      reader.numbers.set(track.number, number);
+    });
+
+    if (!first.done) {
+      reader.head = toMergedFrame(reader, first.value);
+      if (!reader.head) await advance(reader);
+    }
+    readers.push(reader);
+  }
+
+  if (tracks.length === 0) {
+    throw new Error('No tracks to merge');
+  }
+
+  // Recorders start a few ms apart; shift everything so the file starts at 0
+  const start = Math.min(0, ...readers.flatMap(reader => (reader.head ? [reader.head.timestamp] : [])));
+  const writer = createContainerWriter(format ?? (isWebmCompatible(tracks) ? 'webm' : 'mkv'), tracks);
+
+  for (;;) {
+    // Earliest head next; ties keep part order so per-track order holds
+    let next: PartReader | null = null;
+    for (const reader of readers) {
+      if (reader.head && (!next?.head || reader.head.timestamp < next.head.timestamp)) next = reader;
+    }
+    if (!next?.head) break;
+
+    writer.addFrame({ ...next.head, timestamp: next.head.timestamp - start });
+    await advance(next);
+  }
+
+  return writer.finish();
+}
+
+/**
+ * The frame as part of the merged file, or null if its track isn't taken
+ */
+function toMergedFrame(reader: PartReader, frame: MediaFrame): MediaFrame | null {
+  const number = reader.numbers.get(frame.track);
+  return number === undefined ? null : { ...frame, track: number, timestamp: frame.timestamp + reader.offset };
+}
+
+async function advance(reader: PartReader): Promise<void> {
+  reader.head = null;
+  while (!reader.head) {
+    const result = await reader.frames.next();
+    if (result.done) return;
+    reader.head = toMergedFrame(reader, result.value);
+  }
+}
@@ -0,0 +1,144 @@
+import { concatBytes } from './ebml';
+import { muxMatroska } from './matroska-muxer';
+import { muxMp4 } from './mp4-muxer';
+import { remuxRecording } from './remux';
+import { MediaTrack, demuxWebm } from './webm-demuxer';
+
+const VIDEO: MediaTrack = {
+  number: 1,
+  type: 'video',
+  codecId: 'V_VP9',
+  video: { width: 1920, height: 1080 }
+};
+
+// OpusHead: 2 channels, 312 samples pre-skip, 48kHz
+const AUDIO: MediaTrack = {
+  number: 2,
+  type: 'audio',
+  codecId: 'A_OPUS',
+  codecPrivate: new Uint8Array([
+    0x4f, 0x70, 0x75, 0x73, 0x48, 0x65, 0x61, 0x64, 1, 2, 0x38, 0x01, 0x80, 0xbb, 0, 0, 0, 0, 0
+  ]),
+  audio: { samplingFrequency: 48000, channels: 2 }
+};
+
+const FRAMES = [
+  { track: 1, timestamp: 0, keyframe: true, data: new Uint8Array([0x82, 0x49, 0x83, 0x42]) },
+  { track: 2, timestamp: 0, keyframe: true, data: new Uint8Array([1]) },
+  { track: 2, timestamp: 20, keyframe: true, data: new Uint8Array([2]) },
+  { track: 1, timestamp: 33, keyframe: false, data: new Uint8Array([3]) },
+  { track: 1, timestamp: 66, keyframe: true, data: new Uint8Array([4]) }
+];
+
+interface Box {
+  type: string;
+  start: number;
+  data: Uint8Array;
+}
+
+function readBoxes(bytes: Uint8Array, base = 0): Box[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+  const boxes: Box[] = [];
+  for (let offset = 0; offset < bytes.length; ) {
+    const size = view.getUint32(offset);
+    const type = new TextDecoder().decode(bytes.subarray(offset + 4, offset + 8));
+    boxes.push({ type, start: base + offset, data: bytes.subarray(offset + 8, offset + size) });
+    offset += size;
+  }
+  return boxes;
+}
+
+function child(box: Box, path: string[], skip = 0): Box {
+  const found = readBoxes(box.data.subarray(skip), box.start + 8 + skip).find(b => b.type === path[0]);
+  if (!found) throw new Error(`Missing ${path[0]}`);
+  return path.length > 1 ? child(found, path.slice(1)) : found;
+}
+
+describe('muxMp4', () => {
+  it('should write an init segment and one fragment per video keyframe', () => {
+    const file = concatBytes(muxMp4({ tracks: [VIDEO, AUDIO], frames: FRAMES }));
+
+    expect(readBoxes(file).map(box => box.type)).toEqual(['ftyp', 'moov', 'moof', 'mdat', 'moof', 'mdat']);
+  });
+
+  it('should point each track run at its samples in the mdat', () => {
+    const file = concatBytes(muxMp4({ tracks: [VIDEO, AUDIO], frames: FRAMES }));
+    const [moof] = readBoxes(file).filter(box => box.type === 'moof');
+
+    const trafs = readBoxes(moof.data, moof.start + 8).filter(box => box.type === 'traf');
+    const runs = trafs.map(traf => {
+      const trun = child(traf, ['trun']);
+      const view = new DataView(trun.data.buffer, trun.data.byteOffset);
+      const count = view.getUint32(4);
+      const dataOffset = view.getUint32(8);
+      const sizes = Array.from({ length: count }, (_, i) => view.getUint32(12 + i * 12 + 4));
+      return { dataOffset, sizes };
+    });
+
+    // Video: keyframe and delta frame, then both audio frames
+    expect(runs.map(run => run.sizes)).toEqual([[4, 1], [1, 1]]);
+    expect(file[moof.start + runs[0].dataOffset]).toBe(0x82);
+    expect(file[moof.start + runs[1].dataOffset]).toBe(1);
+  });
+
+  it('should describe VP9 and Opus tracks', () => {
+    const file = concatBytes(muxMp4({ tracks: [VIDEO, AUDIO], frames: FRAMES }));
+    const moov = readBoxes(file).find(box => box.type === 'moov') as Box;
+    const [videoTrak, audioTrak] = readBoxes(moov.data, moov.start + 8).filter(box => box.type === 'trak');
+
+    const stsd = (trak: Box) => child(trak, ['mdia', 'minf', 'stbl', 'stsd']);
+    expect(readBoxes(stsd(videoTrak).data.subarray(8)).map(box => box.type)).toEqual(['vp09']);
+
+    const opus = readBoxes(stsd(audioTrak).data.subarray(8))[0];
+    expect(opus.type).toBe('Opus');
+    const dOps = child(opus, ['dOps'], 28);
+    // Channel count, then big-endian pre-skip
+    expect(Array.from(dOps.data.subarray(1, 4))).toEqual([2, 0x01, 0x38]);
+  });
+
+  it('should refuse codecs MP4 cannot carry', () => {
+    expect(() => muxMp4({ tracks: [{ ...VIDEO, codecId: 'V_VP8' }], frames: [] })).toThrow(
+      'Codec V_VP8 cannot be stored in MP4'
+    );
+  });
+});
+
+describe('remuxRecording', () => {
+  const webm = () => concatBytes(muxMatroska({ docType: 'webm', tracks: [VIDEO, AUDIO], frames: FRAMES }));
+
+  it('should rewrite a WebM recording as Matroska', async () => {
+    const blob = await remuxRecording(webm(), 'mkv');
+    const media = demuxWebm(new Uint8Array(await blob.arrayBuffer()));
+
+    expect(blob.type).toBe('video/x-matroska');
+    expect(media.docType).toBe('matroska');
+    expect(media.frames).toHaveLength(FRAMES.length);
+  });
+
+  it('should rewrite a WebM recording as MP4', async () => {
+    const blob = await remuxRecording(webm(), 'mp4');
+
+    expect(blob.type).toBe('video/mp4');
+    expect(readBoxes(new Uint8Array(await blob.arrayBuffer()))[0].type).toBe('ftyp');
+  });
+
+  it('should give the same file when the recording is read in chunks', async () => {
+    const bytes = webm();
+    async function* chunks() {
+      for (let offset = 0; offset < bytes.length; offset += 7) {
+        yield new Blob([bytes.slice(offset, offset + 7)]);
+      }
+    }
+
+    const whole = await remuxRecording(bytes, 'mp4');
+    const chunked = await remuxRecording(chunks(), 'mp4');
+
+    expect(new Uint8Array(await chunked.arrayBuffer())).toEqual(new Uint8Array(await whole.arrayBuffer()));
+  });
+
+  it('should fail on a recording without frames', async () => {
+    const empty = concatBytes(muxMatroska({ docType: 'webm', tracks: [VIDEO, AUDIO], frames: [] }));
+
+    await expect(remuxRecording(empty, 'mkv')).rejects.toThrow('Recording has no frames');
+  });
+});
@@ -0,0 +1,402 @@
+import { concatBytes } from './ebml';
+import { MediaFrame, MediaTrack } from './webm-demuxer';
+
+/**
+ * MP4 Muxer
+ * Writes tracks and frames into a fragmented MP4 (ISO BMFF) file: an empty
+ * moov with the codec configuration, then one moof/mdat pair per fragment.
+ */
+
+export interface Mp4MuxOptions {
+  tracks: MediaTrack[];
+  /** Frames sorted by timestamp; `track` refers to MediaTrack.number */
+  frames: MediaFrame[];
+}
+
+/** Matroska codec IDs that can be stored in MP4 */
+export const MP4_CODECS = new Set(['V_VP9', 'V_AV1', 'V_MPEG4/ISO/AVC', 'A_OPUS']);
+
+const MOVIE_TIMESCALE = 1000;
+const VIDEO_TIMESCALE = 90000;
+const AUDIO_ONLY_FRAGMENT_DURATION = 2000;
+
+const KEYFRAME_FLAGS = 0x02000000;
+const DELTA_FRAME_FLAGS = 0x01010000;
+
+const UNITY_MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+
+interface Mp4Sample {
+  frame: MediaFrame;
+  dts: number;
+  /** Set once the track's next frame (or the end) is known */
+  duration?: number;
+  fragment: PendingFragment;
+}
+
+interface PendingFragment {
+  samples: Mp4Sample[];
+  /** Samples still waiting for their duration */
+  unresolved: number;
+}
+
+interface TrackState {
+  scale: number;
+  last?: Mp4Sample;
+  // Used for the last frame, which has no successor
+  lastDuration: number;
+}
+
+/**
+ * Mux into a fragmented MP4 file, returned as parts suitable for a Blob.
+ * Throws if a track's codec cannot be stored in MP4.
+ */
+export function muxMp4(options: Mp4MuxOptions): Uint8Array[] {
+  const writer = new Mp4Writer(options.tracks, bytes => bytes);
+  options.frames.forEach(frame => writer.addFrame(frame));
+  return writer.finish();
+}
+
+/**
+ * Writes a fragmented MP4 file a frame at a time. A fragment is handed to
+ * `store` as soon as every sample in it has a duration, which needs the
+ * next frame of the same track. The moov is written by `finish()`.
+ */
+export class Mp4Writer<Part = Uint8Array> {
+  private readonly video?: MediaTrack;
+  private readonly states = new Map<number, TrackState>();
+  private readonly firstFrames = new Map<number, MediaFrame>();
+  private readonly parts: Part[] = [];
+  private pending: PendingFragment[] = [];
+  private fragment?: PendingFragment;
+  private fragmentStart = 0;
+  private sequence = 1;
+  private lastTimestamp = 0;
+
+  constructor(
+    private readonly tracks: MediaTrack[],
+    private readonly store: (bytes: Uint8Array) => Part
+  ) {
+    for (const track of tracks) {
+      if (!MP4_CODECS.has(track.codecId)) {
+        throw new Error(`Codec ${track.codecId} cannot be stored in MP4`);
+      }
+      const scale = timescaleOf(track);
+      this.states.set(track.number, {
+        scale,
+        lastDuration: Math.round(((track.type === 'audio' ? 20 : 33) * scale) / 1000)
+      });
+    }
+    this.video = tracks.find(track => track.type === 'video');
+  }
+
+  /**
+   * Add the next frame; frames come sorted by timestamp
+   */
+  addFrame(frame: MediaFrame): void {
+    const state = this.states.get(frame.track);
+    if (!state) return;
+
+    const startsFragment = this.video
+      ? frame.keyframe && frame.track === this.video.number
+      : frame.timestamp - this.fragmentStart >= AUDIO_ONLY_FRAGMENT_DURATION;
+
+    if (!this.fragment || startsFragment) {
+      this.fragment = { samples: [], unresolved: 0 };
+      this.pending.push(this.fragment);
+      this.fragmentStart = frame.timestamp;
+    }
+
+    const dts = Math.round((frame.timestamp * state.scale) / 1000);
+    if (state.last) {
+      const duration = Math.max(0, dts - state.last.dts);
+      this.resolve(state.last, duration);
+      state.lastDuration = duration || state.lastDuration;
+    }
+
+    const sample: Mp4Sample = { frame, dts, fragment: this.fragment };
+    this.fragment.samples.push(sample);
+    this.fragment.unresolved++;
+    state.last = sample;
+
+    if (!this.firstFrames.has(frame.track)) this.firstFrames.set(frame.track, frame);
+    this.lastTimestamp = Math.round(frame.timestamp);
+    this.flushFragments();
+  }
+
+  /**
+   * Complete the file and return its parts in order
+   */
+  finish(): (Uint8Array | Part)[] {
+    for (const state of this.states.values()) {
+      if (state.last) this.resolve(state.last, state.lastDuration);
+      state.last = undefined;
+    }
+    this.fragment = undefined;
+    this.flushFragments();
+
+    return [buildFtyp(), buildMoov(this.tracks, this.firstFrames, this.lastTimestamp), ...this.parts];
+  }
+
+  private resolve(sample: Mp4Sample, duration: number): void {
+    sample.duration = duration;
+    sample.fragment.unresolved--;
+  }
+
+  /**
+   * Write out fragments, in order, whose samples all have durations.
+   * The open fragment stays until the next one starts.
+   */
+  private flushFragments(): void {
+    while (this.pending.length > 0 && this.pending[0] !== this.fragment && this.pending[0].unresolved === 0) {
+      const fragment = this.pending.shift() as PendingFragment;
+      buildFragment(this.sequence++, this.tracks, fragment.samples).forEach(bytes =>
+        this.parts.push(this.store(bytes))
+      );
+    }
+  }
+}
+
+function timescaleOf(track: MediaTrack): number {
+  return track.type === 'audio' ? Math.round(track.audio?.samplingFrequency ?? 48000) : VIDEO_TIMESCALE;
+}
+
+function buildFtyp(): Uint8Array {
+  return box('ftyp', ascii('isom'), u32(0x200), ascii('isom'), ascii('iso6'), ascii('iso2'), ascii('mp41'));
+}
+
+function buildMoov(tracks: MediaTrack[], firstFrames: Map<number, MediaFrame>, duration: number): Uint8Array {
+
+  const mvhd = fullBox(
+    'mvhd', 0, 0,
+    u32(0), u32(0), u32(MOVIE_TIMESCALE), u32(duration),
+    u32(0x00010000), u16(0x0100), new Uint8Array(10),
+    ...UNITY_MATRIX.map(u32),
+    new Uint8Array(24),
+    u32(tracks.length + 1)
+  );
+
+  const trex = tracks.map(track =>
+    fullBox('trex', 0, 0, u32(trackId(track, tracks)), u32(1), u32(0), u32(0), u32(0))
+  );
+
+  const traks = tracks.map(track =>
+    buildTrak(track, tracks, firstFrames.get(track.number))
+  );
+
+  return box('moov', mvhd, ...traks, box('mvex', ...trex));
+}
+
+// Tracks are numbered by position, like in merged recordings
+function trackId(track: MediaTrack, tracks: MediaTrack[]): number {
+  return tracks.indexOf(track) + 1;
+}
+
+function buildTrak(track: MediaTrack, tracks: MediaTrack[], firstFrame?: MediaFrame): Uint8Array {
+  const isVideo = track.type === 'video';
+  const width = track.video?.width ?? 0;
+  const height = track.video?.height ?? 0;
+
+  const tkhd = fullBox(
+    'tkhd', 0, 0x3,
+    u32(0), u32(0), u32(trackId(track, tracks)), u32(0), u32(0),
+    new Uint8Array(8), u16(0), u16(0), u16(isVideo ? 0 : 0x0100), u16(0),
+    ...UNITY_MATRIX.map(u32),
+    u32(width * 0x10000), u32(height * 0x10000)
+  );
+
+  // Language 'und', packed as three 5-bit letters
+  const mdhd = fullBox('mdhd', 0, 0, u32(0), u32(0), u32(timescaleOf(track)), u32(0), u16(0x55c4), u16(0));
+  const hdlr = fullBox(
+    'hdlr', 0, 0,
+    u32(0), ascii(isVideo ? 'vide' : 'soun'), new Uint8Array(12),
+    ascii(`${track.name ?? (isVideo ? 'VideoHandler' : 'SoundHandler')}\0`)
+  );
+
+  const mediaHeader = isVideo ? fullBox('vmhd', 0, 1, new Uint8Array(8)) : fullBox('smhd', 0, 0, u32(0));
+  const dinf = box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1)));
+  const stbl = box(
+    'stbl',
+    fullBox('stsd', 0, 0, u32(1), buildSampleEntry(track, firstFrame)),
+    fullBox('stts', 0, 0, u32(0)),
+    fullBox('stsc', 0, 0, u32(0)),
+    fullBox('stsz', 0, 0, u32(0), u32(0)),
+    fullBox('stco', 0, 0, u32(0))
+  );
+
+  return box('trak', tkhd, box('mdia', mdhd, hdlr, box('minf', mediaHeader, dinf, stbl)));
+}
+
+function buildSampleEntry(track: MediaTrack, firstFrame?: MediaFrame): Uint8Array {
+  if (track.type === 'audio') {
+    const channels = track.audio?.channels ?? 2;
+    const rate = Math.round(track.audio?.samplingFrequency ?? 48000);
+    return box(
+      'Opus',
+      new Uint8Array(6), u16(1),
+      new Uint8Array(8), u16(channels), u16(16), u16(0), u16(0), u32(Math.min(rate, 0xffff) * 0x10000),
+      buildDOps(track)
+    );
+  }
+
+  const width = track.video?.width ?? 0;
+  const height = track.video?.height ?? 0;
+  const [type, config] =
+    track.codecId === 'V_VP9'
+      ? ['vp09', buildVpcC(track, firstFrame?.data)]
+      : track.codecId === 'V_AV1'
+        ? ['av01', box('av1C', requireCodecPrivate(track))]
+        : ['avc1', box('avcC', requireCodecPrivate(track))];
+
+  return box(
+    type,
+    new Uint8Array(6), u16(1),
+    u16(0), u16(0), new Uint8Array(12),
+    u16(width), u16(height), u32(0x00480000), u32(0x00480000), u32(0), u16(1),
+    new Uint8Array(32), u16(0x0018), u16(0xffff),
+    config
+  );
+}
+
+function requireCodecPrivate(track: MediaTrack): Uint8Array {
+  if (!track.codecPrivate) {
+    throw new Error(`${track.codecId} track has no decoder configuration`);
+  }
+  return track.codecPrivate;
+}
+
+/**
+ * Opus configuration, converted from the OpusHead in CodecPrivate
+ */
+function buildDOps(track: MediaTrack): Uint8Array {
+  const head = track.codecPrivate;
+  const channels = track.audio?.channels ?? 2;
+
+  if (!head || head.length < 19) {
+    return box('dOps', u8(0), u8(channels), u16(0), u32(48000), u16(0), u8(0));
+  }
+
+  // OpusHead is little-endian, dOps big-endian
+  const view = new DataView(head.buffer, head.byteOffset, head.length);
+  const family = head[18];
+  return box(
+    'dOps',
+    u8(0), u8(head[9]), u16(view.getUint16(10, true)), u32(view.getUint32(12, true)),
+    u16(view.getUint16(16, true)), u8(family),
+    family !== 0 ? head.subarray(19) : new Uint8Array(0)
+  );
+}
+
+/**
+ * VP9 configuration. MediaRecorder does not write CodecPrivate for VP9, so
+ * the profile and bit depth come from the first frame header and the level
+ * from the picture size.
+ */
+function buildVpcC(track: MediaTrack, first?: Uint8Array): Uint8Array {
+  const profile = first ? ((first[0] >> 5) & 1) | (((first[0] >> 4) & 1) << 1) : 0;
+  const bitDepth = profile >= 2 && first ? readVp9BitDepth(first, profile) : 8;
+  const chroma = profile === 1 || profile === 3 ? 3 : 1;
+  const pixels = (track.video?.width ?? 0) * (track.video?.height ?? 0);
+  const level = VP9_LEVELS.find(([maxPixels]) => pixels <= maxPixels)?.[1] ?? 62;
+
+  // Colour primaries, transfer and matrix are left unspecified (2)
+  return fullBox('vpcC', 1, 0, u8(profile), u8(level), u8((bitDepth << 4) | (chroma << 1)), u8(2), u8(2), u8(2), u16(0));
+}
+
+// [max luma picture size, level]
+const VP9_LEVELS: [number, number][] = [
+  [36864, 10],
+  [73728, 11],
+  [122880, 20],
+  [245760, 21],
+  [552960, 30],
+  [983040, 31],
+  [2228224, 40],
+  [8912896, 50]
+];
+
+function readVp9BitDepth(header: Uint8Array, profile: number): number {
+  // Keyframe header: marker, profile, (reserved), show_existing, frame_type,
+  // show_frame, error_resilient, 24-bit sync code, then ten_or_twelve_bit
+  const bit = (profile === 3 ? 9 : 8) + 24;
+  const byte = header[Math.floor(bit / 8)] ?? 0;
+  return (byte >> (7 - (bit % 8))) & 1 ? 12 : 10;
+}
+
+function buildFragment(sequence: number, tracks: MediaTrack[], samples: Mp4Sample[]): Uint8Array[] {
+  const runs = tracks
+    .map(track => ({ track, samples: samples.filter(sample => sample.frame.track === track.number) }))
+    .filter(run => run.samples.length > 0);
+
+  const build = (dataOffsets: number[]) =>
+    box(
+      'moof',
+      fullBox('mfhd', 0, 0, u32(sequence)),
+      ...runs.map((run, i) => {
+        const tfhd = fullBox('tfhd', 0, 0x020000, u32(trackId(run.track, tracks)));
+        const tfdt = fullBox('tfdt', 1, 0, u64(run.samples[0].dts));
+        const trun = fullBox(
+          'trun', 0, 0x000701,
+          u32(run.samples.length), u32(dataOffsets[i]),
+          ...run.samples.flatMap(sample => [
+            u32(sample.duration ?? 0),
+            u32(sample.frame.data.length),
+            u32(run.track.type !== 'video' || sample.frame.keyframe ? KEYFRAME_FLAGS : DELTA_FRAME_FLAGS)
+          ])
+        );
+        return box('traf', tfhd, tfdt, trun);
+      })
+    );
+
+  // The moof size doesn't depend on the offsets, so build it once to measure
+  const moofSize = build(runs.map(() => 0)).length;
+  const offsets: number[] = [];
+  let offset = moofSize + 8;
+  for (const run of runs) {
+    offsets.push(offset);
+    offset += run.samples.reduce((sum, sample) => sum + sample.frame.data.length, 0);
+  }
+
+  const data = runs.flatMap(run => run.samples.map(sample => sample.frame.data));
+  return [build(offsets), box('mdat', ...data)];
+}
+
+function box(type: string, ...payload: Uint8Array[]): Uint8Array {
+  const data = concatBytes(payload);
+  const result = new Uint8Array(8 + data.length);
+  new DataView(result.buffer).setUint32(0, result.length);
+  result.set(ascii(type), 4);
+  result.set(data, 8);
+  return result;
+}
+
+function fullBox(type: string, version: number, flags: number, ...payload: Uint8Array[]): Uint8Array {
+  return box(type, u8(version), u8(flags >> 16), u16(flags & 0xffff), ...payload);
+}
+
+function ascii(value: string): Uint8Array {
+  return new TextEncoder().encode(value);
+}
+
+function u8(value: number): Uint8Array {
+  return new Uint8Array([value & 0xff]);
+}
+
+function u16(value: number): Uint8Array {
+  const bytes = new Uint8Array(2);
+  new DataView(bytes.buffer).setUint16(0, value);
+  return bytes;
+}
+
+function u32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value >>> 0);
+  return bytes;
+}
+
+function u64(value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, Math.floor(value / 0x100000000));
+  view.setUint32(4, value % 0x100000000);
+  return bytes;
+}
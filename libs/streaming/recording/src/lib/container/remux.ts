@@ -0,0 +1,96 @@
+import { MediaFrame, MediaTrack } from './webm-demuxer';
+import { MatroskaWriter, isWebmCompatible } from './matroska-muxer';
+import { MP4_CODECS, Mp4Writer } from './mp4-muxer';
+import { WebmSource, WebmStreamParser, readWebmFrames } from './webm-stream-parser';
+
+/**
+ * Remux
+ * Rewrites MediaRecorder output into another container without re-encoding,
+ * so recordings can be saved in formats the browser cannot record directly.
+ */
+
+export type ContainerFormat = 'webm' | 'mkv' | 'mp4';
+
+export const CONTAINER_MIME_TYPES: Record<ContainerFormat, string> = {
+  webm: 'video/webm',
+  mkv: 'video/x-matroska',
+  mp4: 'video/mp4'
+};
+
+/**
+ * Whether tracks with these Matroska codec IDs can be written to a format
+ */
+export function canStoreCodecs(format: ContainerFormat, codecIds: string[]): boolean {
+  switch (format) {
+    case 'mkv':
+      return true;
+    case 'webm':
+      return isWebmCompatible(codecIds.map(codecId => ({ number: 0, type: 'other', codecId })));
+    case 'mp4':
+      return codecIds.every(codecId => MP4_CODECS.has(codecId));
+  }
+}
+
+/**
+ * Writes frames into a container as they come. Finished fragments and
+ * clusters are moved into Blobs, so a long recording isn't held twice.
+ */
+export interface ContainerWriter {
+  readonly format: ContainerFormat;
+  /** Add the next frame; frames come sorted by timestamp */
+  addFrame(frame: MediaFrame): void;
+  finish(): Blob;
+}
+
+/**
+ * Create a writer for a container. Throws if a codec cannot be stored in
+ * the format.
+ */
+export function createContainerWriter(format: ContainerFormat, tracks: MediaTrack[]): ContainerWriter {
+  const store = (bytes: Uint8Array) => new Blob([bytes as BlobPart]);
+  let writer: MatroskaWriter<Blob> | Mp4Writer<Blob>;
+
+  if (format === 'mp4') {
+    writer = new Mp4Writer(tracks, store);
+  } else {
+    if (format === 'webm' && !isWebmCompatible(tracks)) {
+      throw new Error(`Codecs ${tracks.map(track => track.codecId).join(', ')} cannot be stored in WebM`);
+    }
+    writer = new MatroskaWriter({ docType: format === 'webm' ? 'webm' : 'matroska', tracks }, store);
+  }
+
+  return {
+    format,
+    addFrame: frame => writer.addFrame(frame),
+    finish: () => new Blob(writer.finish() as BlobPart[], { type: CONTAINER_MIME_TYPES[format] })
+  };
+}
+
+/**
+ * Write tracks and frames into a container. Throws if a codec cannot be
+ * stored in the format.
+ */
+export function writeContainer(format: ContainerFormat, tracks: MediaTrack[], frames: MediaFrame[]): Blob {
+  const writer = createContainerWriter(format, tracks);
+  frames.forEach(frame => writer.addFrame(frame));
+  return writer.finish();
+}
+
+/**
+ * Remux a WebM recording into another container. The recording is read
+ * and written incrementally; pass its chunks to avoid loading it at once.
+ */
+export async function remuxRecording(data: WebmSource, format: ContainerFormat): Promise<Blob> {
+  const parser = new WebmStreamParser();
+  let writer: ContainerWriter | null = null;
+
+  for await (const frame of readWebmFrames(data, parser)) {
+    writer ??= createContainerWriter(format, parser.tracks);
+    writer.addFrame(frame);
+  }
+
+  if (!writer) {
+    throw new Error('Recording has no frames');
+  }
+  return writer.finish();
+}
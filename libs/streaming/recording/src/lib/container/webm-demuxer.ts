@@ -0,0 +1,293 @@
+import {
+  EbmlId,
+  readElementHeader,
+  readFloat,
+  readString,
+  readUint,
+  readVint
+} from './ebml';
+
+/**
+ * WebM Demuxer
+ * Parses WebM/Matroska files as produced by MediaRecorder (including
+ * unknown-size segments and clusters) into tracks and frames.
+ */
+
+export interface MediaTrack {
+  number: number;
+  type: 'video' | 'audio' | 'other';
+  codecId: string;
+  codecPrivate?: Uint8Array;
+  name?: string;
+  language?: string;
+  defaultDuration?: number; // ns
+  codecDelay?: number; // ns
+  seekPreRoll?: number; // ns
+  video?: { width: number; height: number };
+  audio?: { samplingFrequency: number; channels: number; bitDepth?: number };
+}
+
+export interface MediaFrame {
+  track: number;
+  timestamp: number; // ms
+  keyframe: boolean;
+  data: Uint8Array;
+}
+
+export interface DemuxedMedia {
+  docType: string;
+  duration?: number; // ms
+  tracks: MediaTrack[];
+  frames: MediaFrame[];
+}
+
+const CLUSTER_CHILDREN = new Set<number>([
+  EbmlId.Timecode,
+  EbmlId.Position,
+  EbmlId.PrevSize,
+  EbmlId.SimpleBlock,
+  EbmlId.BlockGroup,
+  EbmlId.Void
+]);
+
+/**
+ * Parse a complete WebM/Matroska file
+ */
+export function demuxWebm(bytes: Uint8Array): DemuxedMedia {
+  const result: DemuxedMedia = { docType: 'webm', tracks: [], frames: [] };
+  let timecodeScale = 1000000;
+  let rawDuration: number | undefined;
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const header = readElementHeader(bytes, offset);
+
+    if (header.id === EbmlId.EBML) {
+      const end = header.dataOffset + (header.size ?? 0);
+      forEachChild(bytes, header.dataOffset, end, (id, dataOffset, size) => {
+        if (id === EbmlId.DocType) result.docType = readString(bytes, dataOffset, size);
+      });
+      offset = end;
+      continue;
+    }
+
+    if (header.id !== EbmlId.Segment) {
+      throw new Error(`Not a WebM file: unexpected element 0x${header.id.toString(16)}`);
+    }
+
+    const segmentEnd = header.size === null ? bytes.length : header.dataOffset + header.size;
+    let position = header.dataOffset;
+
+    while (position < segmentEnd) {
+      const child = readElementHeader(bytes, position);
+
+      if (child.id === EbmlId.Cluster) {
+        position = parseCluster(bytes, child, segmentEnd, timecodeScale, result.frames);
+        continue;
+      }
+
+      if (child.size === null) {
+        throw new Error(`Unsupported unknown-size element 0x${child.id.toString(16)}`);
+      }
+
+      const end = child.dataOffset + child.size;
+      if (child.id === EbmlId.Info) {
+        forEachChild(bytes, child.dataOffset, end, (id, dataOffset, size) => {
+          if (id === EbmlId.TimecodeScale) timecodeScale = readUint(bytes, dataOffset, size);
+          if (id === EbmlId.Duration) rawDuration = readFloat(bytes, dataOffset, size);
+        });
+      } else if (child.id === EbmlId.Tracks) {
+        forEachChild(bytes, child.dataOffset, end, (id, dataOffset, size) => {
+          if (id === EbmlId.TrackEntry) {
+            result.tracks.push(parseTrackEntry(bytes, dataOffset, dataOffset + size));
+          }
+        });
+      }
+      position = end;
+    }
+
+    offset = segmentEnd;
+  }
+
+  if (rawDuration !== undefined) {
+    result.duration = (rawDuration * timecodeScale) / 1000000;
+  }
+
+  return result;
+}
+
+/**
+ * Iterate the children of a known-size master element
+ */
+export function forEachChild(
+  bytes: Uint8Array,
+  start: number,
+  end: number,
+  callback: (id: number, dataOffset: number, size: number) => void
+): void {
+  let offset = start;
+  while (offset < end) {
+    const header = readElementHeader(bytes, offset);
+    if (header.size === null) {
+      throw new Error(`Unexpected unknown-size element 0x${header.id.toString(16)}`);
+    }
+    callback(header.id, header.dataOffset, header.size);
+    offset = header.dataOffset + header.size;
+  }
+}
+
+export function parseTrackEntry(bytes: Uint8Array, start: number, end: number): MediaTrack {
+  const track: MediaTrack = { number: 0, type: 'other', codecId: '' };
+
+  forEachChild(bytes, start, end, (id, offset, size) => {
+    switch (id) {
+      case EbmlId.TrackNumber:
+        track.number = readUint(bytes, offset, size);
+        break;
+      case EbmlId.TrackType: {
+        const type = readUint(bytes, offset, size);
+        track.type = type === 1 ? 'video' : type === 2 ? 'audio' : 'other';
+        break;
+      }
+      case EbmlId.CodecID:
+        track.codecId = readString(bytes, offset, size);
+        break;
+      case EbmlId.CodecPrivate:
+        track.codecPrivate = bytes.slice(offset, offset + size);
+        break;
+      case EbmlId.Name:
+        track.name = readString(bytes, offset, size);
+        break;
+      case EbmlId.Language:
+        track.language = readString(bytes, offset, size);
+        break;
+      case EbmlId.DefaultDuration:
+        track.defaultDuration = readUint(bytes, offset, size);
+        break;
+      case EbmlId.CodecDelay:
+        track.codecDelay = readUint(bytes, offset, size);
+        break;
+      case EbmlId.SeekPreRoll:
+        track.seekPreRoll = readUint(bytes, offset, size);
+        break;
+      case EbmlId.Video: {
+        const video = { width: 0, height: 0 };
+        forEachChild(bytes, offset, offset + size, (childId, childOffset, childSize) => {
+          if (childId === EbmlId.PixelWidth) video.width = readUint(bytes, childOffset, childSize);
+          if (childId === EbmlId.PixelHeight) video.height = readUint(bytes, childOffset, childSize);
+        });
+        track.video = video;
+        break;
+      }
+      case EbmlId.Audio: {
+        const audio: NonNullable<MediaTrack['audio']> = { samplingFrequency: 8000, channels: 1 };
+        forEachChild(bytes, offset, offset + size, (childId, childOffset, childSize) => {
+          if (childId === EbmlId.SamplingFrequency) {
+            audio.samplingFrequency = readFloat(bytes, childOffset, childSize);
+          }
+          if (childId === EbmlId.Channels) audio.channels = readUint(bytes, childOffset, childSize);
+          if (childId === EbmlId.BitDepth) audio.bitDepth = readUint(bytes, childOffset, childSize);
+        });
+        track.audio = audio;
+        break;
+      }
+    }
+  });
+
+  return track;
+}
+
+/**
+ * Parse a cluster and return the offset after it. Unknown-size clusters end
+ * at the first element that cannot be a cluster child.
+ */
+function parseCluster(
+  bytes: Uint8Array,
+  header: { size: number | null; dataOffset: number },
+  segmentEnd: number,
+  timecodeScale: number,
+  frames: MediaFrame[]
+): number {
+  const end = header.size === null ? segmentEnd : header.dataOffset + header.size;
+  let clusterTimecode = 0;
+  let offset = header.dataOffset;
+
+  while (offset < end) {
+    // Live recordings may stop mid-element; keep what was complete
+    if (offset + 2 > bytes.length) return bytes.length;
+
+    const child = readElementHeader(bytes, offset);
+    if (header.size === null && !CLUSTER_CHILDREN.has(child.id)) {
+      return offset;
+    }
+    if (child.size === null) {
+      throw new Error('Unexpected unknown-size element inside a cluster');
+    }
+
+    const childEnd = child.dataOffset + child.size;
+    if (childEnd > bytes.length) return bytes.length;
+
+    if (child.id === EbmlId.Timecode) {
+      clusterTimecode = readUint(bytes, child.dataOffset, child.size);
+    } else if (child.id === EbmlId.SimpleBlock) {
+      frames.push(parseBlock(bytes, child.dataOffset, childEnd, clusterTimecode, timecodeScale, true));
+    } else if (child.id === EbmlId.BlockGroup) {
+      const frame = parseBlockGroup(bytes, child.dataOffset, childEnd, clusterTimecode, timecodeScale);
+      if (frame) frames.push(frame);
+    }
+
+    offset = childEnd;
+  }
+
+  return end;
+}
+
+/**
+ * Parse a BlockGroup into a frame
+ */
+export function parseBlockGroup(
+  bytes: Uint8Array,
+  start: number,
+  end: number,
+  clusterTimecode: number,
+  timecodeScale: number
+): MediaFrame | null {
+  const group: { block: MediaFrame | null; referenced: boolean } = { block: null, referenced: false };
+  forEachChild(bytes, start, end, (id, dataOffset, size) => {
+    if (id === EbmlId.Block) {
+      group.block = parseBlock(bytes, dataOffset, dataOffset + size, clusterTimecode, timecodeScale, false);
+    }
+    if (id === EbmlId.ReferenceBlock) group.referenced = true;
+  });
+
+  // Blocks without references are keyframes
+  return group.block ? { ...group.block, keyframe: !group.referenced } : null;
+}
+
+/**
+ * Parse a SimpleBlock or Block into a frame
+ */
+export function parseBlock(
+  bytes: Uint8Array,
+  start: number,
+  end: number,
+  clusterTimecode: number,
+  timecodeScale: number,
+  simple: boolean
+): MediaFrame {
+  const track = readVint(bytes, start);
+  const timecodeOffset = start + track.length;
+  const relative = new DataView(bytes.buffer, bytes.byteOffset + timecodeOffset, 2).getInt16(0);
+  const flags = bytes[timecodeOffset + 2];
+
+  if (flags & 0x06) {
+    throw new Error('Laced blocks are not supported');
+  }
+
+  return {
+    track: track.value,
+    timestamp: ((clusterTimecode + relative) * timecodeScale) / 1000000,
+    keyframe: simple ? (flags & 0x80) !== 0 : true,
+    data: bytes.subarray(timecodeOffset + 3, end)
+  };
+}
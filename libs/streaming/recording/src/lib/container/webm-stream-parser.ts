@@ -0,0 +1,206 @@
+import { EbmlHeader, EbmlId, readElementHeader, readString, readUint } from './ebml';
+import {
+  MediaFrame,
+  MediaTrack,
+  forEachChild,
+  parseBlock,
+  parseBlockGroup,
+  parseTrackEntry
+} from './webm-demuxer';
+
+/**
+ * WebM Stream Parser
+ * Incremental counterpart of `demuxWebm` for live MediaRecorder output:
+ * chunks are pushed as they arrive and complete frames come out. Elements
+ * split across chunks are kept until the rest arrives.
+ */
+
+type ParserState = 'top' | 'segment' | 'cluster';
+
+/** A whole recording, or its chunks in order */
+export type WebmSource = Blob | Uint8Array | AsyncIterable<Blob | Uint8Array>;
+
+// Blobs are read in slices of this size
+const READ_SLICE_SIZE = 4 * 1024 * 1024;
+
+const CLUSTER_CHILDREN = new Set<number>([
+  EbmlId.Timecode,
+  EbmlId.Position,
+  EbmlId.PrevSize,
+  EbmlId.SimpleBlock,
+  EbmlId.BlockGroup,
+  EbmlId.Void
+]);
+
+export class WebmStreamParser {
+  docType = 'webm';
+  tracks: MediaTrack[] = [];
+
+  private buffer = new Uint8Array(0);
+  /** Stream offset of buffer[0] */
+  private base = 0;
+  private position = 0;
+  private state: ParserState = 'top';
+  private segmentEnd = Infinity;
+  private clusterEnd: number | null = null;
+  private clusterTimecode = 0;
+  private timecodeScale = 1000000;
+
+  /**
+   * Add the next chunk and return the frames completed by it
+   */
+  push(chunk: Uint8Array): MediaFrame[] {
+    const buffer = new Uint8Array(this.buffer.length - this.position + chunk.length);
+    buffer.set(this.buffer.subarray(this.position));
+    buffer.set(chunk, this.buffer.length - this.position);
+    this.base += this.position;
+    this.buffer = buffer;
+    this.position = 0;
+
+    const frames: MediaFrame[] = [];
+    while (this.step(frames)) {
+      // Parse until more data is needed
+    }
+    return frames;
+  }
+
+  /**
+   * Parse the next element; false when it is not complete yet
+   */
+  private step(frames: MediaFrame[]): boolean {
+    const bytes = this.buffer;
+    const offset = this.position;
+
+    if (this.state === 'cluster' && this.clusterEnd !== null && this.base + offset >= this.clusterEnd) {
+      this.state = 'segment';
+    }
+    if (this.state !== 'top' && this.base + offset >= this.segmentEnd) {
+      this.state = 'top';
+    }
+
+    const header = completeHeader(bytes, offset);
+    if (!header) return false;
+
+    if (this.state === 'top') {
+      if (header.id === EbmlId.Segment) {
+        this.segmentEnd = header.size === null ? Infinity : this.base + header.dataOffset + header.size;
+        this.state = 'segment';
+        this.position = header.dataOffset;
+        return true;
+      }
+      if (header.id !== EbmlId.EBML) {
+        throw new Error(`Not a WebM stream: unexpected element 0x${header.id.toString(16)}`);
+      }
+    }
+
+    if (this.state === 'segment' && header.id === EbmlId.Cluster) {
+      this.clusterEnd = header.size === null ? null : this.base + header.dataOffset + header.size;
+      this.clusterTimecode = 0;
+      this.state = 'cluster';
+      this.position = header.dataOffset;
+      return true;
+    }
+
+    if (this.state === 'cluster' && this.clusterEnd === null && !CLUSTER_CHILDREN.has(header.id)) {
+      // An unknown-size cluster ends at the next segment-level element
+      this.state = 'segment';
+      return true;
+    }
+
+    if (header.size === null) {
+      throw new Error(`Unsupported unknown-size element 0x${header.id.toString(16)}`);
+    }
+
+    const end = header.dataOffset + header.size;
+    if (end > bytes.length) return false;
+
+    this.readElement(header.id, header.dataOffset, end, frames);
+    this.position = end;
+    return true;
+  }
+
+  private readElement(id: number, start: number, end: number, frames: MediaFrame[]): void {
+    const bytes = this.buffer;
+
+    switch (id) {
+      case EbmlId.EBML:
+        forEachChild(bytes, start, end, (childId, offset, size) => {
+          if (childId === EbmlId.DocType) this.docType = readString(bytes, offset, size);
+        });
+        break;
+      case EbmlId.Info:
+        forEachChild(bytes, start, end, (childId, offset, size) => {
+          if (childId === EbmlId.TimecodeScale) this.timecodeScale = readUint(bytes, offset, size);
+        });
+        break;
+      case EbmlId.Tracks:
+        this.tracks = [];
+        forEachChild(bytes, start, end, (childId, offset, size) => {
+          if (childId === EbmlId.TrackEntry) {
+            this.tracks.push(parseTrackEntry(bytes, offset, offset + size));
+          }
+        });
+        break;
+      case EbmlId.Timecode:
+        if (this.state === 'cluster') this.clusterTimecode = readUint(bytes, start, end - start);
+        break;
+      case EbmlId.SimpleBlock:
+        if (this.state === 'cluster') {
+          frames.push(copyFrame(parseBlock(bytes, start, end, this.clusterTimecode, this.timecodeScale, true)));
+        }
+        break;
+      case EbmlId.BlockGroup:
+        if (this.state === 'cluster') {
+          const frame = parseBlockGroup(bytes, start, end, this.clusterTimecode, this.timecodeScale);
+          if (frame) frames.push(copyFrame(frame));
+        }
+        break;
+    }
+  }
+}
+
+/**
+ * Parse a recording as it is read, yielding its frames in order. Only the
+ * slice being parsed is held in memory. `parser.tracks` is filled in once
+ * the first frame has been yielded, or when the recording ends.
+ */
+export async function* readWebmFrames(
+  source: WebmSource,
+  parser = new WebmStreamParser()
+): AsyncGenerator<MediaFrame> {
+  for await (const chunk of readChunks(source)) {
+    yield* parser.push(chunk);
+  }
+}
+
+async function* readChunks(source: WebmSource): AsyncGenerator<Uint8Array> {
+  if (source instanceof Uint8Array) {
+    yield source;
+  } else if (source instanceof Blob) {
+    for (let offset = 0; offset < source.size; offset += READ_SLICE_SIZE) {
+      yield new Uint8Array(await source.slice(offset, offset + READ_SLICE_SIZE).arrayBuffer());
+    }
+  } else {
+    for await (const chunk of source) {
+      yield* readChunks(chunk);
+    }
+  }
+}
+
+/**
+ * Read an element header, or null if its bytes have not all arrived
+ */
+function completeHeader(bytes: Uint8Array, offset: number): EbmlHeader | null {
+  if (offset >= bytes.length) return null;
+
+  const sizeOffset = offset + Math.clz32(bytes[offset]) - 23;
+  if (sizeOffset >= bytes.length) return null;
+  if (sizeOffset + Math.clz32(bytes[sizeOffset]) - 23 > bytes.length) return null;
+
+  return readElementHeader(bytes, offset);
+}
+
+// Frames outlive the parser buffer they were read from
+function copyFrame(frame: MediaFrame): MediaFrame {
+  return { ...frame, data: frame.data.slice() };
+}
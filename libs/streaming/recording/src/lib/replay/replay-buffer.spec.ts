@@ -0,0 +1,124 @@
+import { EbmlId, concatBytes, element, encodeId, stringElement, uintElement } from '../container/ebml';
+import { demuxWebm } from '../container/webm-demuxer';
+import { WebmStreamParser } from '../container/webm-stream-parser';
+import { ReplayBuffer } from './replay-buffer';
+
+const UNKNOWN_SIZE = new Uint8Array([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]);
+
+// Header of a live MediaRecorder stream with a video and an audio track
+function streamHeader(): Uint8Array {
+  return concatBytes([
+    element(EbmlId.EBML, [stringElement(EbmlId.DocType, 'webm')]),
+    encodeId(EbmlId.Segment),
+    UNKNOWN_SIZE,
+    element(EbmlId.Info, [uintElement(EbmlId.TimecodeScale, 1000000)]),
+    element(EbmlId.Tracks, [
+      element(EbmlId.TrackEntry, [
+        uintElement(EbmlId.TrackNumber, 1),
+        uintElement(EbmlId.TrackType, 1),
+        stringElement(EbmlId.CodecID, 'V_VP8')
+      ]),
+      element(EbmlId.TrackEntry, [
+        uintElement(EbmlId.TrackNumber, 2),
+        uintElement(EbmlId.TrackType, 2),
+        stringElement(EbmlId.CodecID, 'A_OPUS')
+      ])
+    ])
+  ]);
+}
+
+// One second of media: a video keyframe, then a delta frame and audio
+function cluster(second: number): Uint8Array {
+  const block = (track: number, relative: number, keyframe: boolean) =>
+    element(EbmlId.SimpleBlock, [
+      new Uint8Array([0x80 | track, relative >> 8, relative & 0xff, keyframe ? 0x80 : 0]),
+      new Uint8Array([second])
+    ]);
+
+  return concatBytes([
+    encodeId(EbmlId.Cluster),
+    UNKNOWN_SIZE,
+    uintElement(EbmlId.Timecode, second * 1000),
+    block(1, 0, true),
+    block(2, 0, true),
+    block(1, 500, false),
+    block(2, 500, true)
+  ]);
+}
+
+describe('WebmStreamParser', () => {
+  it('should parse elements split across chunks', () => {
+    const stream = concatBytes([streamHeader(), cluster(0), cluster(1)]);
+    const parser = new WebmStreamParser();
+
+    const frames = [];
+    for (let i = 0; i < stream.length; i += 7) {
+      frames.push(...parser.push(stream.subarray(i, i + 7)));
+    }
+
+    expect(parser.tracks.map(t => t.codecId)).toEqual(['V_VP8', 'A_OPUS']);
+    expect(frames.map(f => [f.track, f.timestamp, f.keyframe])).toEqual(
+      demuxWebm(stream).frames.map(f => [f.track, f.timestamp, f.keyframe])
+    );
+  });
+});
+
+describe('ReplayBuffer', () => {
+  it('should reject saving before anything was recorded', async () => {
+    await expect(new ReplayBuffer(5000).saveClip()).rejects.toThrow('Replay buffer is empty');
+  });
+
+  it('should keep the buffered duration by timestamp and start clips on a keyframe', async () => {
+    const buffer = new ReplayBuffer(2000);
+    buffer.push(streamHeader());
+    for (let second = 0; second < 10; second++) {
+      buffer.push(cluster(second));
+    }
+
+    // Latest frame is at 9.5s; 2s back is 7.5s, whose keyframe is at 7s
+    expect(buffer.bufferedDuration).toBe(2500);
+
+    const media = demuxWebm(new Uint8Array(await (await buffer.saveClip()).arrayBuffer()));
+    expect(media.frames[0]).toMatchObject({ track: 1, timestamp: 0, keyframe: true });
+    expect(media.frames[0].data[0]).toBe(7);
+    expect(media.duration).toBe(2500);
+  });
+
+  it('should drop the oldest keyframe groups while over the byte cap', async () => {
+    // Each second holds four one-byte frames
+    const buffer = new ReplayBuffer(60000, 10);
+    buffer.push(streamHeader());
+    for (let second = 0; second < 10; second++) {
+      buffer.push(cluster(second));
+    }
+
+    expect(buffer.bufferedBytes).toBe(8);
+    expect(buffer.bufferedDuration).toBe(1500);
+
+    const media = demuxWebm(new Uint8Array(await (await buffer.saveClip()).arrayBuffer()));
+    expect(media.frames[0]).toMatchObject({ track: 1, timestamp: 0, keyframe: true });
+    expect(media.frames[0].data[0]).toBe(8);
+  });
+
+  it('should wait for the post-roll before completing the clip', async () => {
+    const buffer = new ReplayBuffer(1000);
+    buffer.push(streamHeader());
+    buffer.push(cluster(0));
+    buffer.push(cluster(1));
+
+    let saved: Blob | null = null;
+    const clip = buffer.saveClip(2000).then(blob => (saved = blob));
+
+    buffer.push(cluster(2));
+    await Promise.resolve();
+    expect(saved).toBeNull();
+
+    buffer.push(cluster(3));
+    const media = demuxWebm(new Uint8Array(await (await clip).arrayBuffer()));
+
+    // From the keyframe before 0.5s up to 1.5s + 2s of post-roll, kept
+    // although the buffer moved past its start in the meantime
+    expect(media.frames[0].data[0]).toBe(0);
+    expect(media.duration).toBe(3500);
+  });
+});
@@ -0,0 +1,203 @@
+import { MediaFrame } from '../container/webm-demuxer';
+import { WebmStreamParser } from '../container/webm-stream-parser';
+import { isWebmCompatible } from '../container/matroska-muxer';
+import { writeContainer } from '../container/remux';
+
+/**
+ * Replay Buffer
+ * Keeps the most recent part of a live WebM recording as frames and trims it
+ * by their timestamps. Saved clips start on a video keyframe so they decode
+ * from the first frame, and can include a post-roll after the save request.
+ * A byte cap bounds memory when keyframes are rare or the bitrate spikes.
+ */
+
+// Used when no cap is given, in bytes
+export const DEFAULT_REPLAY_MAX_BYTES = 512 * 1024 * 1024;
+
+interface PendingClip {
+  start: number;
+  end: number;
+  resolve: (blob: Blob) => void;
+  reject: (error: Error) => void;
+}
+
+export class ReplayBuffer {
+  private parser = new WebmStreamParser();
+  private frames: MediaFrame[] = [];
+  private pending: PendingClip[] = [];
+  private bytes = 0;
+
+  /**
+   * @param duration Length of the buffer in ms
+   * @param maxBytes Most frame data to hold; the oldest keyframe groups go first
+   */
+  constructor(private duration: number, private maxBytes = DEFAULT_REPLAY_MAX_BYTES) {}
+
+  /**
+   * Timestamp of the newest buffered frame, in ms
+   */
+  get latestTimestamp(): number {
+    return this.frames.length > 0 ? this.frames[this.frames.length - 1].timestamp : 0;
+  }
+
+  /**
+   * Length of the buffered media, in ms
+   */
+  get bufferedDuration(): number {
+    return this.frames.length > 0 ? this.latestTimestamp - this.frames[0].timestamp : 0;
+  }
+
+  /**
+   * Size of the buffered frame data, in bytes
+   */
+  get bufferedBytes(): number {
+    return this.bytes;
+  }
+
+  setDuration(duration: number, maxBytes = this.maxBytes): void {
+    this.duration = duration;
+    this.maxBytes = maxBytes;
+    this.trim();
+  }
+
+  /**
+   * Add the next chunk of the recording
+   */
+  push(chunk: Uint8Array): void {
+    const frames = this.parser.push(chunk);
+    frames.forEach(frame => (this.bytes += frame.data.byteLength));
+    this.frames.push(...frames);
+
+    const latest = this.latestTimestamp;
+    this.pending = this.pending.filter(clip => {
+      if (clip.end > latest) return true;
+      this.settle(clip);
+      return false;
+    });
+
+    this.trim();
+  }
+
+  /**
+   * Save the buffered duration up to now, plus `postRoll` ms of what follows.
+   * The clip resolves once the post-roll has been recorded.
+   */
+  saveClip(postRoll = 0): Promise<Blob> {
+    if (this.frames.length === 0) {
+      return Promise.reject(new Error('Replay buffer is empty'));
+    }
+
+    const latest = this.latestTimestamp;
+    return new Promise((resolve, reject) => {
+      const clip = { start: latest - this.duration, end: latest + Math.max(0, postRoll), resolve, reject };
+      if (postRoll > 0) {
+        this.pending.push(clip);
+      } else {
+        this.settle(clip);
+      }
+    });
+  }
+
+  /**
+   * Complete clips still waiting for their post-roll with what was recorded,
+   * e.g. when the recording stops
+   */
+  flush(): void {
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach(clip => this.settle(clip));
+  }
+
+  clear(): void {
+    this.flush();
+    this.parser = new WebmStreamParser();
+    this.frames = [];
+    this.bytes = 0;
+  }
+
+  private settle(clip: PendingClip): void {
+    try {
+      clip.resolve(this.buildClip(clip.start, clip.end));
+    } catch (error) {
+      clip.reject(error as Error);
+    }
+  }
+
+  /**
+   * Mux the frames between two timestamps, starting at the last keyframe
+   * at or before `start`
+   */
+  private buildClip(start: number, end: number): Blob {
+    const first = this.findClipStart(start);
+    if (first < 0) {
+      throw new Error('Replay buffer has no keyframe yet');
+    }
+
+    const clipStart = this.frames[first].timestamp;
+    const frames = this.frames
+      .slice(first)
+      .filter(frame => frame.timestamp >= clipStart && frame.timestamp <= end)
+      .map(frame => ({ ...frame, timestamp: frame.timestamp - clipStart }))
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    const tracks = this.parser.tracks;
+    return writeContainer(isWebmCompatible(tracks) ? 'webm' : 'mkv', tracks, frames);
+  }
+
+  /**
+   * Index of the frame a clip starting at `start` begins with: the last
+   * video keyframe at or before it, else the first one after it
+   */
+  private findClipStart(start: number): number {
+    const isStart = this.clipStartTest();
+
+    let index = -1;
+    for (let i = 0; i < this.frames.length; i++) {
+      if (!isStart(this.frames[i])) continue;
+      if (this.frames[i].timestamp > start && index >= 0) break;
+      index = i;
+      if (this.frames[i].timestamp > start) break;
+    }
+    return index;
+  }
+
+  /**
+   * Drop frames no clip can start from anymore, then whole keyframe groups
+   * while over the byte cap
+   */
+  private trim(): void {
+    const cutoff = Math.min(this.latestTimestamp - this.duration, ...this.pending.map(clip => clip.start));
+    const first = this.findClipStart(cutoff);
+    if (first > 0) {
+      this.drop(first);
+    }
+
+    while (this.bytes > this.maxBytes && this.frames.length > 0) {
+      const next = this.findNextStart(1);
+      this.drop(next < 0 ? this.frames.length : next);
+    }
+  }
+
+  /**
+   * Index of the first frame from `from` on that a clip can start with
+   */
+  private findNextStart(from: number): number {
+    const isStart = this.clipStartTest();
+    for (let i = from; i < this.frames.length; i++) {
+      if (isStart(this.frames[i])) return i;
+    }
+    return -1;
+  }
+
+  /**
+   * Clips start on a video keyframe, or on any frame without video
+   */
+  private clipStartTest(): (frame: MediaFrame) => boolean {
+    const videoTracks = new Set(this.parser.tracks.filter(t => t.type === 'video').map(t => t.number));
+    return frame => (videoTracks.size > 0 ? frame.keyframe && videoTracks.has(frame.track) : true);
+  }
+
+  private drop(count: number): void {
+    this.frames.splice(0, count).forEach(frame => (this.bytes -= frame.data.byteLength));
+  }
+}
@@ -0,0 +1,99 @@
+import { concatBytes } from '../container/ebml';
+import { muxMatroska } from '../container/matroska-muxer';
+import { MediaTrack, demuxWebm } from '../container/webm-demuxer';
+import { RecordingStore, StoredRecording } from './recording-store';
+
+const VIDEO: MediaTrack = { number: 1, type: 'video', codecId: 'V_VP8', video: { width: 640, height: 360 } };
+const AUDIO: MediaTrack = { number: 1, type: 'audio', codecId: 'A_OPUS', audio: { samplingFrequency: 48000, channels: 2 } };
+
+function recording(overrides: Partial<StoredRecording> = {}): StoredRecording {
+  return {
+    id: 'rec-1',
+    filename: 'recording.mkv',
+    mimeType: 'video/webm',
+    remuxFormat: null,
+    createdAt: 0,
+    updatedAt: 0,
+    size: 0,
+    parts: [{ id: 'main' }],
+    ...overrides
+  };
+}
+
+function webm(track: MediaTrack, payload: number): Uint8Array {
+  return concatBytes(
+    muxMatroska({
+      docType: 'webm',
+      tracks: [track],
+      frames: [{ track: 1, timestamp: 0, keyframe: true, data: new Uint8Array([payload]) }]
+    })
+  );
+}
+
+// jsdom has no IndexedDB, so these run against the in-memory fallback
+describe('RecordingStore', () => {
+  let store: RecordingStore;
+
+  beforeEach(() => {
+    store = new RecordingStore();
+  });
+
+  it('should append chunks in order and track the size', async () => {
+    await store.create(recording());
+    await store.appendChunk('rec-1', 'main', 0, new Blob(['ab']));
+    await store.appendChunk('rec-1', 'main', 1, new Blob(['cd']));
+
+    const part = await store.readPart('rec-1', 'main');
+
+    expect(new TextDecoder().decode(new Uint8Array(await part.arrayBuffer()))).toBe('abcd');
+    expect((await store.get('rec-1'))?.size).toBe(4);
+  });
+
+  it('should delete a recording with its chunks', async () => {
+    await store.create(recording());
+    await store.appendChunk('rec-1', 'main', 0, new Blob(['ab']));
+
+    await store.delete('rec-1');
+
+    expect(await store.list()).toEqual([]);
+    expect((await store.readPart('rec-1', 'main')).size).toBe(0);
+  });
+
+  it('should assemble multitrack parts into one file', async () => {
+    await store.create(
+      recording({
+        remuxFormat: 'mkv',
+        parts: [
+          { id: 'main', audioName: 'Game', startedAt: 100 },
+          { id: 'track-2', kind: 'audio', audioName: 'Mic', startedAt: 120 }
+        ]
+      })
+    );
+    await store.appendChunk('rec-1', 'main', 0, new Blob([webm(VIDEO, 1) as BlobPart]));
+    await store.appendChunk('rec-1', 'track-2', 0, new Blob([webm(AUDIO, 2) as BlobPart]));
+
+    const blob = await store.assemble((await store.get('rec-1')) as StoredRecording);
+    const media = demuxWebm(new Uint8Array(await blob.arrayBuffer()));
+
+    expect(blob.type).toBe('video/x-matroska');
+    expect(media.tracks.map(t => [t.type, t.name])).toEqual([
+      ['video', undefined],
+      ['audio', 'Mic']
+    ]);
+    expect(media.frames.find(f => f.track === 2)?.timestamp).toBe(20);
+  });
+
+  it('should remux a recording stored in several chunks', async () => {
+    const bytes = webm(VIDEO, 1);
+    await store.create(recording({ remuxFormat: 'mkv' }));
+    for (let offset = 0, index = 0; offset < bytes.length; offset += 5, index++) {
+      await store.appendChunk('rec-1', 'main', index, new Blob([bytes.slice(offset, offset + 5) as BlobPart]));
+    }
+
+    const blob = await store.assemble((await store.get('rec-1')) as StoredRecording);
+    const media = demuxWebm(new Uint8Array(await blob.arrayBuffer()));
+
+    expect(media.docType).toBe('matroska');
+    expect(media.frames.map(f => f.data[0])).toEqual([1]);
+  });
+});
@@ -0,0 +1,269 @@
+import { ContainerFormat, remuxRecording } from '../container/remux';
+import { RecordedTrackPart, mergeRecordedTracks } from '../container/merge-tracks';
+
+/**
+ * Recording Store
+ * Persists recording chunks in IndexedDB as they arrive, so memory use stays
+ * flat during long recordings and a recording survives a crash or a closed
+ * tab. Without IndexedDB (e.g. some private browsing modes) chunks are kept
+ * in memory instead.
+ */
+
+export interface StoredRecordingPart {
+  /** 'main' for the recorder with video, one part per additional audio track */
+  id: string;
+  kind?: 'video' | 'audio';
+  audioName?: string;
+  /** Recorder start time (performance.now()), used to align the parts */
+  startedAt?: number;
+}
+
+export interface StoredRecording {
+  id: string;
+  /** File name including the extension of the final format */
+  filename: string;
+  mimeType: string;
+  /** Container to remux into when finalizing; null to keep the recorded file */
+  remuxFormat: ContainerFormat | null;
+  createdAt: number;
+  updatedAt: number;
+  size: number;
+  parts: StoredRecordingPart[];
+  /** Why recording stopped early; the stored data ends where writing failed */
+  incomplete?: string;
+}
+
+interface StoredChunk {
+  recordingId: string;
+  partId: string;
+  index: number;
+  data: Blob;
+}
+
+const DB_VERSION = 1;
+const RECORDINGS = 'recordings';
+const CHUNKS = 'chunks';
+
+export class RecordingStore {
+  private db: Promise<IDBDatabase | null> | null = null;
+  private memoryRecordings = new Map<string, StoredRecording>();
+  private memoryChunks = new Map<string, Blob[]>();
+
+  constructor(private readonly dbName = 'broady-recordings') {}
+
+  /**
+   * Whether recordings are persisted, rather than kept in memory
+   */
+  async isPersistent(): Promise<boolean> {
+    return (await this.open()) !== null;
+  }
+
+  async create(recording: StoredRecording): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      this.memoryRecordings.set(recording.id, recording);
+      return;
+    }
+
+    const transaction = db.transaction(RECORDINGS, 'readwrite');
+    const done = complete(transaction);
+    transaction.objectStore(RECORDINGS).put(recording);
+    await done;
+  }
+
+  async update(id: string, changes: Partial<StoredRecording>): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      const recording = this.memoryRecordings.get(id);
+      if (recording) this.memoryRecordings.set(id, { ...recording, ...changes, id });
+      return;
+    }
+
+    const transaction = db.transaction(RECORDINGS, 'readwrite');
+    const done = complete(transaction);
+    const store = transaction.objectStore(RECORDINGS);
+    const recording = await request<StoredRecording | undefined>(store.get(id));
+    if (recording) store.put({ ...recording, ...changes, id });
+    await done;
+  }
+
+  /**
+   * Append a chunk to a part of a recording
+   */
+  async appendChunk(recordingId: string, partId: string, index: number, data: Blob): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      const key = `${recordingId}/${partId}`;
+      this.memoryChunks.set(key, [...(this.memoryChunks.get(key) ?? []), data]);
+      const recording = this.memoryRecordings.get(recordingId);
+      if (recording) {
+        recording.size += data.size;
+        recording.updatedAt = Date.now();
+      }
+      return;
+    }
+
+    const transaction = db.transaction([RECORDINGS, CHUNKS], 'readwrite');
+    const done = complete(transaction);
+    const chunk: StoredChunk = { recordingId, partId, index, data };
+    transaction.objectStore(CHUNKS).put(chunk);
+
+    const recordings = transaction.objectStore(RECORDINGS);
+    const recording = await request<StoredRecording | undefined>(recordings.get(recordingId));
+    if (recording) {
+      recordings.put({ ...recording, size: recording.size + data.size, updatedAt: Date.now() });
+    }
+    await done;
+  }
+
+  async list(): Promise<StoredRecording[]> {
+    const db = await this.open();
+    if (!db) {
+      return [...this.memoryRecordings.values()];
+    }
+
+    const transaction = db.transaction(RECORDINGS, 'readonly');
+    return request<StoredRecording[]>(transaction.objectStore(RECORDINGS).getAll());
+  }
+
+  async get(id: string): Promise<StoredRecording | undefined> {
+    const db = await this.open();
+    if (!db) {
+      return this.memoryRecordings.get(id);
+    }
+
+    const transaction = db.transaction(RECORDINGS, 'readonly');
+    return request<StoredRecording | undefined>(transaction.objectStore(RECORDINGS).get(id));
+  }
+
+  /**
+   * Read a part of a recording as one Blob
+   */
+  async readPart(recordingId: string, partId: string, type = ''): Promise<Blob> {
+    const db = await this.open();
+    if (!db) {
+      return new Blob(this.memoryChunks.get(`${recordingId}/${partId}`) ?? [], { type });
+    }
+
+    const transaction = db.transaction(CHUNKS, 'readonly');
+    const range = IDBKeyRange.bound([recordingId, partId, 0], [recordingId, partId, Infinity]);
+    const chunks = await request<StoredChunk[]>(transaction.objectStore(CHUNKS).getAll(range));
+    return new Blob(chunks.map(chunk => chunk.data), { type });
+  }
+
+  /**
+   * Read a part of a recording chunk by chunk, one transaction each, so a
+   * long recording is never loaded at once
+   */
+  async *readChunks(recordingId: string, partId: string): AsyncGenerator<Blob> {
+    const db = await this.open();
+    if (!db) {
+      yield* this.memoryChunks.get(`${recordingId}/${partId}`) ?? [];
+      return;
+    }
+
+    let next = 0;
+    for (;;) {
+      // A transaction would commit while the consumer awaits, so open one per chunk
+      const transaction = db.transaction(CHUNKS, 'readonly');
+      const range = IDBKeyRange.bound([recordingId, partId, next], [recordingId, partId, Infinity]);
+      const chunk = await request<StoredChunk | undefined>(transaction.objectStore(CHUNKS).get(range));
+      if (!chunk) return;
+
+      yield chunk.data;
+      next = chunk.index + 1;
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      this.memoryRecordings.delete(id);
+      [...this.memoryChunks.keys()]
+        .filter(key => key.startsWith(`${id}/`))
+        .forEach(key => this.memoryChunks.delete(key));
+      return;
+    }
+
+    const transaction = db.transaction([RECORDINGS, CHUNKS], 'readwrite');
+    const done = complete(transaction);
+    transaction.objectStore(RECORDINGS).delete(id);
+    // Arrays sort after strings, so this covers every [id, part, index]
+    transaction.objectStore(CHUNKS).delete(IDBKeyRange.bound([id], [id, []]));
+    await done;
+  }
+
+  /**
+   * Build the final file of a recording: merge its parts and remux into the
+   * target format, reading the stored chunks as they are written out
+   */
+  async assemble(recording: StoredRecording): Promise<Blob> {
+    const [main, ...tracks] = recording.parts;
+
+    if (tracks.length === 0) {
+      return recording.remuxFormat
+        ? remuxRecording(this.readChunks(recording.id, main.id), recording.remuxFormat)
+        : this.readPart(recording.id, main.id, recording.mimeType);
+    }
+
+    // Parts without data add no tracks
+    const parts: RecordedTrackPart[] = [
+      {
+        data: this.readChunks(recording.id, main.id),
+        offset: 0,
+        audioNames: main.audioName ? [main.audioName] : undefined
+      },
+      ...tracks.map(track => ({
+        data: this.readChunks(recording.id, track.id),
+        offset: (track.startedAt ?? 0) - (main.startedAt ?? 0),
+        kind: track.kind,
+        audioNames: track.audioName ? [track.audioName] : undefined
+      }))
+    ];
+
+    return mergeRecordedTracks(parts, recording.remuxFormat ?? undefined);
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = this.openDatabase().catch(error => {
+        console.warn('IndexedDB unavailable, keeping recordings in memory:', error);
+        return null;
+      });
+    }
+    return this.db;
+  }
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.resolve(null);
+    }
+
+    const open = indexedDB.open(this.dbName, DB_VERSION);
+    open.onupgradeneeded = () => {
+      const db = open.result;
+      if (!db.objectStoreNames.contains(RECORDINGS)) {
+        db.createObjectStore(RECORDINGS, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(CHUNKS)) {
+        db.createObjectStore(CHUNKS, { keyPath: ['recordingId', 'partId', 'index'] });
+      }
+    };
+    return request(open);
+  }
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function complete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
@@ -11,3 +11,15 @@ getTestBed().initTestEnvironment(
   BrowserTestingModule,
   platformBrowserTesting()
 );
+
+// jsdom's Blob has no arrayBuffer()
+if (!Blob.prototype.arrayBuffer) {
+  Blob.prototype.arrayBuffer = function (this: Blob): Promise<ArrayBuffer> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as ArrayBuffer);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsArrayBuffer(this);
+    });
+  };
+}